@@ -0,0 +1,36 @@
+/**
+ * Sync Job Worker
+ *
+ * Long-running process that polls for queued sync jobs and runs them:
+ *
+ *   npm run worker
+ *
+ * Reads the same environment as the app (`.env.local`). Any number of workers
+ * can run at once; SIGINT/SIGTERM stop polling and let jobs in progress finish.
+ *
+ * Options (environment):
+ *   WORKER_CONCURRENCY    Jobs processed at once (default 3)
+ *   WORKER_POLL_INTERVAL  Milliseconds between polls while idle (default 5000)
+ */
+
+import { jobWorker } from '@/services/job-worker'
+
+async function main() {
+  const shutdown = (signal: string) => {
+    console.log(`[SyncWorker] ${signal} received, finishing jobs in progress`)
+    jobWorker.stop().then(() => process.exit(0))
+  }
+
+  process.on('SIGINT', () => shutdown('SIGINT'))
+  process.on('SIGTERM', () => shutdown('SIGTERM'))
+
+  await jobWorker.start({
+    concurrency: Number(process.env.WORKER_CONCURRENCY) || undefined,
+    pollIntervalMs: Number(process.env.WORKER_POLL_INTERVAL) || undefined
+  })
+}
+
+main().catch(error => {
+  console.error('[SyncWorker] Worker crashed:', error)
+  process.exit(1)
+})
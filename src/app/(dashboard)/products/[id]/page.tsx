@@ -26,6 +26,7 @@ import {
 } from 'lucide-react'
 import { getProductById, updateProduct } from '@/lib/mock-data/products'
 import { PlatformBadge } from '@/components/products/platform-badge'
+import { InventoryMovementTimeline } from '@/components/products/inventory-movement-timeline'
 import { toast } from 'sonner'
 import { Product, PlatformProduct } from '@/types/product'
 import { format } from 'date-fns'
@@ -464,6 +465,9 @@ export default function ProductDetailPage() {
             </CardContent>
           </Card>
 
+          {/* Stock Movements */}
+          <InventoryMovementTimeline productId={currentProduct.id} />
+
           {/* Pricing */}
           <Card>
             <CardHeader>
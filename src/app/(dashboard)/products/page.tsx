@@ -14,9 +14,18 @@ import { ProductFilters } from '@/components/products/product-filters'
 import { ProductFormModal } from '@/components/products/product-form-modal'
 import { BulkActionsBar } from '@/components/products/bulk-actions-bar'
 import { Product } from '@/types/product'
+import { useJobProgress } from '@/contexts/JobProgressContext'
+
+// Bulk action platform IDs and the channel their push jobs run on
+const platformChannels: Record<string, string> = {
+  shopee: 'shopee',
+  tiktok: 'tiktokshop',
+  tokopedia: 'tokopedia',
+}
 
 export default function ProductsPage() {
   const router = useRouter()
+  const { followJob } = useJobProgress()
   const [products, setProducts] = useState<Product[]>(mockProducts)
   const [searchQuery, setSearchQuery] = useState('')
   const [selectedProducts, setSelectedProducts] = useState<string[]>([])
@@ -141,9 +150,25 @@ export default function ProductsPage() {
     setEditingProduct(null)
   }
 
-  const handleBulkPublish = (platform: string) => {
-    // Mock bulk publish action
-    console.log(`Publishing ${selectedProducts.length} products to ${platform}`)
+  const handleBulkPublish = async (platform: string) => {
+    const response = await fetch('/api/sync/push', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        jobType: 'catalog',
+        data: { productIds: selectedProducts },
+        channels: [platformChannels[platform]],
+      }),
+    })
+    const data = await response.json()
+
+    // Follow each queued job in a progress toast; jobs are created in the
+    // order of the queued accounts
+    const queuedAccounts = (data.summary?.accountBreakdown || []).filter((account: any) => account.status === 'queued')
+    const jobIds: string[] = data.jobsCreated || []
+    jobIds.forEach((jobId, index) => {
+      followJob(jobId, `Publishing ${selectedProducts.length} products to ${queuedAccounts[index]?.accountName || platform}`)
+    })
     setSelectedProducts([])
   }
 
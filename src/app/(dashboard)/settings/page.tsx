@@ -6,6 +6,8 @@ import { Card } from '@/components/ui/card'
 import { PlatformConnectionCard } from '@/components/settings/platform-connection-card'
 import { SyncSettings } from '@/components/settings/sync-settings'
 import { ProductTemplates } from '@/components/settings/product-templates'
+import { CategoryMappings } from '@/components/settings/category-mappings'
+import { WarehouseSettings } from '@/components/settings/warehouse-settings'
 import { NotificationSettings } from '@/components/settings/notification-settings'
 import { AccountSettings } from '@/components/settings/account-settings'
 import { 
@@ -13,6 +15,8 @@ import {
   Smartphone, 
   RefreshCw, 
   FileText, 
+  FolderTree,
+  Warehouse,
   Bell, 
   User,
   Shield
@@ -33,7 +37,7 @@ export default function SettingsPage() {
 
       {/* Settings Tabs */}
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-        <TabsList className="grid w-full grid-cols-5">
+        <TabsList className="grid w-full grid-cols-7">
           <TabsTrigger value="platforms" className="flex items-center space-x-2">
             <Smartphone className="w-4 h-4" />
             <span>Platforms</span>
@@ -46,6 +50,14 @@ export default function SettingsPage() {
             <FileText className="w-4 h-4" />
             <span>Templates</span>
           </TabsTrigger>
+          <TabsTrigger value="categories" className="flex items-center space-x-2">
+            <FolderTree className="w-4 h-4" />
+            <span>Categories</span>
+          </TabsTrigger>
+          <TabsTrigger value="warehouses" className="flex items-center space-x-2">
+            <Warehouse className="w-4 h-4" />
+            <span>Warehouses</span>
+          </TabsTrigger>
           <TabsTrigger value="notifications" className="flex items-center space-x-2">
             <Bell className="w-4 h-4" />
             <span>Notifications</span>
@@ -136,6 +148,30 @@ export default function SettingsPage() {
           <ProductTemplates />
         </TabsContent>
 
+        {/* Category Mappings */}
+        <TabsContent value="categories" className="space-y-6">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900 mb-2">Category Mappings</h2>
+            <p className="text-sm text-gray-600 mb-6">
+              Map your product categories to marketplace categories for each market
+            </p>
+          </div>
+          
+          <CategoryMappings />
+        </TabsContent>
+
+        {/* Warehouses */}
+        <TabsContent value="warehouses" className="space-y-6">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900 mb-2">Warehouses</h2>
+            <p className="text-sm text-gray-600 mb-6">
+              Manage the warehouses and stock locations of each branch, and which warehouses each account sells from
+            </p>
+          </div>
+          
+          <WarehouseSettings />
+        </TabsContent>
+
         {/* Notification Settings */}
         <TabsContent value="notifications" className="space-y-6">
           <div>
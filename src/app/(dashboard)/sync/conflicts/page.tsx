@@ -0,0 +1,19 @@
+'use client'
+
+import { ConflictReviewQueue } from '@/components/sync/conflict-review-queue'
+
+export default function ConflictsPage() {
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Sync Conflicts</h1>
+        <p className="text-gray-600 mt-1">
+          Product fields changed both in AIOStore and on a platform since their last sync. Pick the value to keep.
+        </p>
+      </div>
+
+      <ConflictReviewQueue />
+    </div>
+  )
+}
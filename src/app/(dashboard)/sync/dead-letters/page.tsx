@@ -0,0 +1,19 @@
+'use client'
+
+import { DeadLetterQueue } from '@/components/sync/dead-letter-queue'
+
+export default function DeadLettersPage() {
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Dead Letters</h1>
+        <p className="text-gray-600 mt-1">
+          Sync items that failed every retry. Inspect the error, fix the payload and replay them.
+        </p>
+      </div>
+
+      <DeadLetterQueue />
+    </div>
+  )
+}
@@ -0,0 +1,19 @@
+'use client'
+
+import { JobMonitor } from '@/components/sync/job-monitor'
+
+export default function SyncMonitorPage() {
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Sync Monitor</h1>
+        <p className="text-gray-600 mt-1">
+          Follow sync jobs across channels, inspect their items and logs, and retry or cancel them.
+        </p>
+      </div>
+
+      <JobMonitor />
+    </div>
+  )
+}
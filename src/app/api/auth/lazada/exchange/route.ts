@@ -0,0 +1,313 @@
+/**
+ * Lazada Token Exchange Route
+ *
+ * POST /api/auth/lazada/exchange
+ *
+ * Exchanges authorization code for access/refresh tokens.
+ * Persists tokens to database using multi-tenant architecture.
+ *
+ * Requirements:
+ * - Body: { code }
+ * - Seller is resolved from the token response (country_user_info)
+ * - Uses rotate_channel_token RPC for token storage
+ * - Associates to channel_account in branch context
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createLazadaAuthClient, LazadaTokenResponse } from '@/connectors/lazada/client'
+import { supabase } from '@/lib/supabase'
+
+interface ExchangeRequest {
+  code: string
+  branch_id?: string // Multi-tenant context
+  is_sandbox?: boolean
+}
+
+export async function POST(request: NextRequest) {
+  const startTime = Date.now()
+
+  try {
+    console.log('[LazadaExchange] Starting token exchange process')
+
+    // Parse and validate request body
+    const body: ExchangeRequest = await request.json()
+    const { code, branch_id, is_sandbox = false } = body
+
+    if (!code) {
+      return NextResponse.json({
+        success: false,
+        error: 'Missing required field: code'
+      }, { status: 400 })
+    }
+
+    // Get current user from session
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      console.error('[LazadaExchange] Authentication required')
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    // Determine branch context
+    const targetBranchId = branch_id || await getOrCreateDefaultBranch(user.id)
+    if (!targetBranchId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unable to determine branch context'
+      }, { status: 400 })
+    }
+
+    const lazadaClient = createLazadaAuthClient()
+
+    console.log('[LazadaExchange] Exchanging code for tokens...')
+
+    const tokenResponse = await lazadaClient.createAccessToken(code)
+
+    if (!tokenResponse.success || !tokenResponse.data) {
+      console.error('[LazadaExchange] Token exchange failed:', tokenResponse.error)
+      return NextResponse.json({
+        success: false,
+        error: 'Token exchange failed',
+        details: tokenResponse.error?.message
+      }, { status: 400 })
+    }
+
+    const tokens = tokenResponse.data
+    const { access_token, refresh_token, expires_in, refresh_expires_in } = tokens
+
+    const sellerInfo = resolveSellerInfo(tokens)
+    if (!sellerInfo) {
+      console.error('[LazadaExchange] Token response did not include seller info')
+      return NextResponse.json({
+        success: false,
+        error: 'Unable to determine Lazada seller'
+      }, { status: 400 })
+    }
+
+    console.log('[LazadaExchange] Token exchange successful, storing in database...')
+
+    // Get or create channel account
+    const accountId = await getOrCreateChannelAccount(
+      targetBranchId,
+      sellerInfo.seller_id,
+      tokens.account,
+      is_sandbox
+    )
+
+    if (!accountId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Failed to create channel account'
+      }, { status: 500 })
+    }
+
+    // Calculate token expiry
+    const expiresAt = new Date(Date.now() + (expires_in * 1000))
+
+    // Store tokens using RPC (server-only)
+    const { error: rotateError } = await supabase.rpc('rotate_channel_token', {
+      p_account_id: accountId,
+      p_token_type: 'access',
+      p_token: access_token,
+      p_expires_at: expiresAt.toISOString(),
+      p_raw: {
+        token_type: 'Bearer',
+        expires_in,
+        country: tokens.country,
+        seller_id: sellerInfo.seller_id,
+        obtained_at: new Date().toISOString()
+      }
+    })
+
+    if (rotateError) {
+      console.error('[LazadaExchange] Failed to store access token:', rotateError)
+      return NextResponse.json({
+        success: false,
+        error: 'Failed to store access token'
+      }, { status: 500 })
+    }
+
+    // Store refresh token
+    const { error: refreshError } = await supabase.rpc('rotate_channel_token', {
+      p_account_id: accountId,
+      p_token_type: 'refresh',
+      p_token: refresh_token,
+      p_expires_at: new Date(Date.now() + (refresh_expires_in * 1000)).toISOString(),
+      p_raw: {
+        token_type: 'refresh',
+        refresh_expires_in,
+        obtained_at: new Date().toISOString()
+      }
+    })
+
+    if (refreshError) {
+      console.error('[LazadaExchange] Failed to store refresh token:', refreshError)
+      return NextResponse.json({
+        success: false,
+        error: 'Failed to store refresh token'
+      }, { status: 500 })
+    }
+
+    // Update channel account status
+    const { error: updateError } = await supabase
+      .from('channel_accounts')
+      .update({
+        status: 'active',
+        last_sync_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', accountId)
+
+    if (updateError) {
+      console.error('[LazadaExchange] Failed to update account status:', updateError)
+    }
+
+    const processingTime = Date.now() - startTime
+    console.log(`[LazadaExchange] Token exchange completed in ${processingTime}ms`)
+
+    return NextResponse.json({
+      success: true,
+      account_id: accountId,
+      branch_id: targetBranchId,
+      seller_id: sellerInfo.seller_id,
+      country: tokens.country,
+      is_sandbox,
+      expires_in,
+      processingTime
+    })
+
+  } catch (error) {
+    console.error('[LazadaExchange] Processing error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
+
+/**
+ * Pick the seller for the authorized country from the token response
+ */
+function resolveSellerInfo(tokens: LazadaTokenResponse): { seller_id: string; short_code: string } | null {
+  const countries = tokens.country_user_info || []
+  const match = countries.find(info => info.country === tokens.country) || countries[0]
+
+  return match?.seller_id ? { seller_id: match.seller_id, short_code: match.short_code } : null
+}
+
+/**
+ * Get or create default branch for user
+ */
+async function getOrCreateDefaultBranch(userId: string): Promise<string | null> {
+  try {
+    // Check if user already has a branch
+    const { data: existingBranch } = await supabase
+      .from('branch_members')
+      .select('branch_id, branches(id, name, status)')
+      .eq('user_id', userId)
+      .eq('role', 'owner')
+      .eq('branches.status', 'active')
+      .single()
+
+    if (existingBranch?.branch_id) {
+      return existingBranch.branch_id
+    }
+
+    // Create new branch for user
+    const branchName = `${userId.split('@')[0]}'s Store`
+
+    const { data: newBranch, error: createError } = await supabase
+      .from('branches')
+      .insert({
+        name: branchName,
+        created_by: userId,
+        status: 'active'
+      })
+      .select('id')
+      .single()
+
+    if (createError || !newBranch?.id) {
+      console.error('[LazadaExchange] Failed to create branch:', createError)
+      return null
+    }
+
+    // Add user as owner
+    const { error: memberError } = await supabase
+      .from('branch_members')
+      .insert({
+        branch_id: newBranch.id,
+        user_id: userId,
+        role: 'owner'
+      })
+
+    if (memberError) {
+      console.error('[LazadaExchange] Failed to create branch membership:', memberError)
+      return null
+    }
+
+    return newBranch.id
+
+  } catch (error) {
+    console.error('[LazadaExchange] Error in getOrCreateDefaultBranch:', error)
+    return null
+  }
+}
+
+/**
+ * Get or create channel account
+ */
+async function getOrCreateChannelAccount(
+  branchId: string,
+  sellerId: string,
+  accountName: string | undefined,
+  isSandbox: boolean
+): Promise<string | null> {
+  try {
+    // Try to find existing account
+    const { data: existingAccount } = await supabase
+      .from('channel_accounts')
+      .select('id')
+      .eq('branch_id', branchId)
+      .eq('shop_id', sellerId)
+      .eq('channel', 'LAZADA')
+      .eq('is_sandbox', isSandbox)
+      .single()
+
+    if (existingAccount?.id) {
+      return existingAccount.id
+    }
+
+    // Create new account
+    const { data: newAccount, error: createError } = await supabase
+      .from('channel_accounts')
+      .insert({
+        branch_id: branchId,
+        channel: 'LAZADA',
+        is_sandbox: isSandbox,
+        shop_id: sellerId,
+        seller_id: sellerId,
+        display_name: `Lazada ${accountName || ''}${isSandbox ? ' (Sandbox)' : ''}`.trim(),
+        status: 'pending'
+      })
+      .select('id')
+      .single()
+
+    if (createError || !newAccount?.id) {
+      console.error('[LazadaExchange] Failed to create channel account:', createError)
+      return null
+    }
+
+    return newAccount.id
+
+  } catch (error) {
+    console.error('[LazadaExchange] Error in getOrCreateChannelAccount:', error)
+    return null
+  }
+}
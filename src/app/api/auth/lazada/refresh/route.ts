@@ -0,0 +1,222 @@
+/**
+ * Lazada Token Refresh Route
+ *
+ * POST /api/auth/lazada/refresh
+ *
+ * Refreshes access tokens using current refresh token.
+ * Lazada rotates the refresh token on every refresh, so both are stored.
+ *
+ * Requirements:
+ * - Body: { account_id }
+ * - Uses current active refresh token to issue new access token
+ * - Updates token storage via rotate_channel_token RPC
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createLazadaAuthClient } from '@/connectors/lazada/client'
+import { loadChannelAccountCredentials } from '@/connectors/credentials'
+import { connectorRegistry } from '@/connectors/registry'
+import { supabase } from '@/lib/supabase'
+
+interface RefreshRequest {
+  account_id: string
+}
+
+export async function POST(request: NextRequest) {
+  const startTime = Date.now()
+
+  try {
+    console.log('[LazadaRefresh] Starting token refresh process')
+
+    // Parse and validate request body
+    const body: RefreshRequest = await request.json()
+    const { account_id } = body
+
+    if (!account_id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Missing required field: account_id'
+      }, { status: 400 })
+    }
+
+    // Get current user from session
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      console.error('[LazadaRefresh] Authentication required')
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    // Verify user has access to this account (multi-tenant check)
+    const hasAccess = await verifyAccountAccess(account_id, user.id)
+    if (!hasAccess) {
+      return NextResponse.json({
+        success: false,
+        error: 'Account not found or access denied'
+      }, { status: 403 })
+    }
+
+    // Get current refresh token
+    const { data: refreshTokenRow, error: tokenError } = await supabase
+      .from('channel_tokens')
+      .select('token')
+      .eq('channel_account_id', account_id)
+      .eq('token_type', 'refresh')
+      .eq('active', true)
+      .single()
+
+    const refreshToken: string | undefined = refreshTokenRow?.token
+
+    if (tokenError || !refreshToken) {
+      console.error('[LazadaRefresh] No active refresh token found:', tokenError)
+      return NextResponse.json({
+        success: false,
+        error: 'No active refresh token found'
+      }, { status: 400 })
+    }
+
+    console.log('[LazadaRefresh] Using refresh token for token exchange...')
+
+    // Sign with the app the account was authorized under
+    const { secrets } = await loadChannelAccountCredentials(account_id)
+    const lazadaClient = createLazadaAuthClient(secrets)
+    const refreshResponse = await lazadaClient.refreshAccessToken(refreshToken)
+
+    if (!refreshResponse.success || !refreshResponse.data) {
+      console.error('[LazadaRefresh] Token refresh failed:', refreshResponse.error)
+      return NextResponse.json({
+        success: false,
+        error: 'Token refresh failed',
+        details: refreshResponse.error?.message
+      }, { status: 400 })
+    }
+
+    const {
+      access_token,
+      refresh_token: new_refresh_token,
+      expires_in,
+      refresh_expires_in
+    } = refreshResponse.data
+
+    console.log('[LazadaRefresh] Token refresh successful, updating database...')
+
+    // Calculate token expiry
+    const expiresAt = new Date(Date.now() + (expires_in * 1000))
+
+    // Update access token using RPC
+    const { error: rotateError } = await supabase.rpc('rotate_channel_token', {
+      p_account_id: account_id,
+      p_token_type: 'access',
+      p_token: access_token,
+      p_expires_at: expiresAt.toISOString(),
+      p_raw: {
+        token_type: 'Bearer',
+        expires_in,
+        refreshed_at: new Date().toISOString()
+      }
+    })
+
+    if (rotateError) {
+      console.error('[LazadaRefresh] Failed to update access token:', rotateError)
+      return NextResponse.json({
+        success: false,
+        error: 'Failed to update access token'
+      }, { status: 500 })
+    }
+
+    // Update refresh token; the previous one is invalidated by Lazada
+    if (new_refresh_token && new_refresh_token !== refreshToken) {
+      const { error: refreshError } = await supabase.rpc('rotate_channel_token', {
+        p_account_id: account_id,
+        p_token_type: 'refresh',
+        p_token: new_refresh_token,
+        p_expires_at: new Date(Date.now() + (refresh_expires_in * 1000)).toISOString(),
+        p_raw: {
+          token_type: 'refresh',
+          refresh_expires_in,
+          refreshed_at: new Date().toISOString()
+        }
+      })
+
+      if (refreshError) {
+        console.error('[LazadaRefresh] Failed to update refresh token:', refreshError)
+        return NextResponse.json({
+          success: false,
+          error: 'Failed to update refresh token'
+        }, { status: 500 })
+      }
+    }
+
+    // Connectors built with the previous token must not be reused
+    connectorRegistry.clear(account_id)
+
+    // Update last sync time
+    const { error: updateError } = await supabase
+      .from('channel_accounts')
+      .update({
+        last_sync_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', account_id)
+
+    if (updateError) {
+      console.warn('[LazadaRefresh] Failed to update last sync time:', updateError)
+    }
+
+    const processingTime = Date.now() - startTime
+    console.log(`[LazadaRefresh] Token refresh completed in ${processingTime}ms`)
+
+    return NextResponse.json({
+      success: true,
+      account_id,
+      expires_in,
+      refreshed_at: new Date().toISOString(),
+      expires_at: expiresAt.toISOString(),
+      processingTime
+    })
+
+  } catch (error) {
+    console.error('[LazadaRefresh] Processing error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
+
+/**
+ * Verify user has access to a Lazada account (multi-tenant security check)
+ */
+async function verifyAccountAccess(accountId: string, userId: string): Promise<boolean> {
+  try {
+    const { data: account } = await supabase
+      .from('channel_accounts')
+      .select(`
+        id,
+        branch_id,
+        branches!inner(
+          id,
+          branch_members(
+            user_id,
+            role
+          )
+        )
+      `)
+      .eq('id', accountId)
+      .eq('channel', 'LAZADA')
+      .eq('branch_members.user_id', userId)
+      .single()
+
+    return !!account
+  } catch (error) {
+    console.error('[LazadaRefresh] Error verifying account access:', error)
+    return false
+  }
+}
@@ -13,7 +13,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { createShopeeV2Client } from '@/connectors/shopee/client-v2'
+import { createShopeeClient } from '@/connectors/shopee/client'
 import { supabase } from '@/lib/supabase'
 
 interface ExchangeRequest {
@@ -66,19 +66,18 @@ export async function POST(request: NextRequest) {
       }, { status: 400 })
     }
 
-    // Create Shopee v2 client
-    const shopeeClient = createShopeeV2Client()
+    // Create Shopee client for the partner app
+    const shopeeClient = createShopeeClient()
 
     console.log('[ShopeeExchange] Exchanging code for tokens...')
 
     // Exchange authorization code for tokens using v2 API
     const tokenResponse = await shopeeClient.request<TokenResponse>('/api/v2/auth/token/get', {
-      method: 'POST',
       body: {
         code,
-        shop_id
-      },
-      includeShopId: true
+        shop_id: Number(shop_id),
+        partner_id: Number(shopeeClient.getPartnerId())
+      }
     })
 
     if (!tokenResponse.success) {
@@ -13,7 +13,9 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { createShopeeV2Client } from '@/connectors/shopee/client-v2'
+import { createShopeeClient } from '@/connectors/shopee/client'
+import { loadChannelAccountCredentials } from '@/connectors/credentials'
+import { connectorRegistry } from '@/connectors/registry'
 import { supabase } from '@/lib/supabase'
 
 interface RefreshRequest {
@@ -64,10 +66,15 @@ export async function POST(request: NextRequest) {
     }
 
     // Get current refresh token
-    const { data: refreshToken, error: tokenError } = await supabase
-      .rpc('get_active_access_token', {
-        p_account_id: account_id
-      })
+    const { data: refreshTokenRow, error: tokenError } = await supabase
+      .from('channel_tokens')
+      .select('token')
+      .eq('channel_account_id', account_id)
+      .eq('token_type', 'refresh')
+      .eq('active', true)
+      .single()
+
+    const refreshToken: string | undefined = refreshTokenRow?.token
 
     if (tokenError || !refreshToken) {
       console.error('[ShopeeRefresh] No active refresh token found:', tokenError)
@@ -79,14 +86,19 @@ export async function POST(request: NextRequest) {
 
     console.log('[ShopeeRefresh] Using refresh token for token exchange...')
 
-    // Create Shopee v2 client
-    const shopeeClient = createShopeeV2Client()
+    // Create Shopee client with the partner app the shop was authorized under
+    const credentials = await loadChannelAccountCredentials(account_id)
+    const shopeeClient = createShopeeClient({
+      ...credentials.secrets,
+      shopId: credentials.shopId
+    })
 
     // Refresh tokens using refresh token
     const refreshResponse = await shopeeClient.request<RefreshResponse>('/api/v2/auth/access_token/get', {
-      method: 'POST',
       body: {
-        refresh_token: refreshToken
+        refresh_token: refreshToken,
+        shop_id: Number(credentials.shopId),
+        partner_id: Number(shopeeClient.getPartnerId())
       }
     })
 
@@ -147,6 +159,9 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Connectors built with the previous token must not be reused
+    connectorRegistry.clear(account_id)
+
     // Update last sync time
     const { error: updateError } = await supabase
       .from('channel_accounts')
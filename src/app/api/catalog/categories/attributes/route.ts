@@ -0,0 +1,120 @@
+/**
+ * Category Attributes API Route
+ *
+ * GET  /api/catalog/categories/attributes?channel=shopee&market=ID&category=Fashion
+ * GET  /api/catalog/categories/attributes?channel=shopee&market=ID&categoryId=100017
+ * POST /api/catalog/categories/attributes
+ *
+ * Returns the stored attribute schema for an internal category (through its
+ * mapping) or a leaf marketplace category, and queues attribute pull jobs.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { categoriesService } from '@/services/categories-service'
+import { syncJobsService } from '@/services/sync-jobs-service'
+
+// =============================================================================
+// REQUEST/_RESPONSE TYPES
+// =============================================================================
+
+interface AttributeSyncRequest {
+  channel: string
+  market: string
+  categoryIds?: string[] // Defaults to every mapped category of the market
+  accountId?: string
+}
+
+// =============================================================================
+// MAIN API HANDLERS
+// =============================================================================
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const channel = searchParams.get('channel')
+    const market = searchParams.get('market')
+    const category = searchParams.get('category')
+    const categoryId = searchParams.get('categoryId')
+
+    if (!channel || !market || (!category && !categoryId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid request',
+        details: ['channel, market and category or categoryId are required']
+      }, { status: 400 })
+    }
+
+    // Channels without their own categories have no attribute schemas
+    if (!categoriesService.requiresCategoryMapping(channel)) {
+      return NextResponse.json({
+        success: true,
+        schema: null
+      })
+    }
+
+    const schema = categoryId
+      ? await categoriesService.getAttributeSchema(channel, market, categoryId)
+      : await categoriesService.getAttributeSchemaForCategory(channel, market, category!)
+
+    return NextResponse.json({
+      success: true,
+      schema
+    })
+
+  } catch (error) {
+    console.error('[CategoryAttributes] Error loading attribute schema:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: AttributeSyncRequest = await request.json()
+
+    const errors: string[] = []
+    if (!body.channel) {
+      errors.push('channel is required')
+    } else if (!categoriesService.requiresCategoryMapping(body.channel)) {
+      errors.push(`channel '${body.channel}' does not use marketplace categories`)
+    }
+    if (!body.market) {
+      errors.push('market is required')
+    }
+    if (body.categoryIds && !Array.isArray(body.categoryIds)) {
+      errors.push('categoryIds must be an array')
+    }
+
+    if (errors.length > 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid request',
+        details: errors
+      }, { status: 400 })
+    }
+
+    const jobId = await syncJobsService.queuePullJob(body.channel, 'attributes', {
+      market: body.market,
+      categoryIds: body.categoryIds?.map(String),
+      channelAccountId: body.accountId
+    })
+
+    console.log(`[CategoryAttributes] Queued ${body.channel} ${body.market} attribute sync: ${jobId}`)
+
+    return NextResponse.json({
+      success: true,
+      jobId
+    })
+
+  } catch (error) {
+    console.error('[CategoryAttributes] Error queuing attribute sync:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
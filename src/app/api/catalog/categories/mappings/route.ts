@@ -0,0 +1,136 @@
+/**
+ * Category Mappings API Route
+ *
+ * GET    /api/catalog/categories/mappings?channel=shopee&market=SG
+ * POST   /api/catalog/categories/mappings
+ * DELETE /api/catalog/categories/mappings?id=<mapping id>
+ *
+ * Maps internal product categories to leaf marketplace categories. Mappings
+ * are picked up by connectors when creating listings and by catalog preview.
+ * Saving a mapping queues a pull of the category's attribute schema.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { categoriesService } from '@/services/categories-service'
+import { syncJobsService } from '@/services/sync-jobs-service'
+
+// =============================================================================
+// REQUEST/_RESPONSE TYPES
+// =============================================================================
+
+interface CategoryMappingRequest {
+  channel: string
+  market: string
+  internalCategory: string
+  channelCategoryId: string
+}
+
+// =============================================================================
+// MAIN API HANDLERS
+// =============================================================================
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const channel = searchParams.get('channel')
+
+    if (!channel) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid request',
+        details: ['channel is required']
+      }, { status: 400 })
+    }
+
+    const mappings = await categoriesService.getMappings(channel, searchParams.get('market') || undefined)
+
+    return NextResponse.json({
+      success: true,
+      mappings
+    })
+
+  } catch (error) {
+    console.error('[CategoryMappings] Error listing mappings:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: CategoryMappingRequest = await request.json()
+
+    const errors = (['channel', 'market', 'internalCategory', 'channelCategoryId'] as const)
+      .filter(field => !body[field])
+      .map(field => `${field} is required`)
+
+    if (errors.length > 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid request',
+        details: errors
+      }, { status: 400 })
+    }
+
+    try {
+      const mapping = await categoriesService.upsertMapping({
+        channel: body.channel,
+        market: body.market,
+        internalCategory: body.internalCategory,
+        channelCategoryId: String(body.channelCategoryId)
+      })
+
+      // The product form and preview need the attributes of the mapped category
+      const attributesJobId = await syncJobsService
+        .queuePullJob(body.channel, 'attributes', {
+          market: body.market,
+          categoryIds: [mapping.channelCategoryId]
+        })
+        .catch(error => {
+          console.warn('[CategoryMappings] Failed to queue attribute sync:', error)
+          return undefined
+        })
+
+      return NextResponse.json({
+        success: true,
+        mapping,
+        attributesJobId
+      })
+    } catch (error) {
+      // Unknown or non-leaf categories are caller errors
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid category mapping',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }, { status: 422 })
+    }
+
+  } catch (error) {
+    console.error('[CategoryMappings] Error saving mapping:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const id = searchParams.get('id')
+
+  if (!id) {
+    return NextResponse.json({
+      success: false,
+      error: 'Invalid request',
+      details: ['id is required']
+    }, { status: 400 })
+  }
+
+  const result = await categoriesService.deleteMapping(id)
+
+  return NextResponse.json(result, { status: result.success ? 200 : 500 })
+}
@@ -0,0 +1,107 @@
+/**
+ * Catalog Categories API Route
+ *
+ * GET  /api/catalog/categories?channel=shopee&market=SG&leafOnly=true&search=shirt
+ * POST /api/catalog/categories
+ *
+ * Lists the synced marketplace category tree for a channel market and queues
+ * category pull jobs that refresh it.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { categoriesService } from '@/services/categories-service'
+import { syncJobsService } from '@/services/sync-jobs-service'
+
+// =============================================================================
+// REQUEST/_RESPONSE TYPES
+// =============================================================================
+
+interface CategorySyncRequest {
+  channel: string
+  market: string
+  accountId?: string
+}
+
+// =============================================================================
+// MAIN API HANDLERS
+// =============================================================================
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const channel = searchParams.get('channel')
+    const market = searchParams.get('market')
+
+    if (!channel || !market) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid request',
+        details: ['channel and market are required']
+      }, { status: 400 })
+    }
+
+    const categories = await categoriesService.listCategories(channel, market, {
+      leafOnly: searchParams.get('leafOnly') === 'true',
+      search: searchParams.get('search') || undefined,
+      parentCategoryId: searchParams.get('parentCategoryId') || undefined,
+      limit: searchParams.get('limit') ? Number(searchParams.get('limit')) : undefined
+    })
+
+    return NextResponse.json({
+      success: true,
+      categories
+    })
+
+  } catch (error) {
+    console.error('[CatalogCategories] Error listing categories:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: CategorySyncRequest = await request.json()
+
+    const errors: string[] = []
+    if (!body.channel) {
+      errors.push('channel is required')
+    } else if (!categoriesService.requiresCategoryMapping(body.channel)) {
+      errors.push(`channel '${body.channel}' does not use marketplace categories`)
+    }
+    if (!body.market) {
+      errors.push('market is required')
+    }
+
+    if (errors.length > 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid request',
+        details: errors
+      }, { status: 400 })
+    }
+
+    const jobId = await syncJobsService.queuePullJob(body.channel, 'categories', {
+      market: body.market,
+      channelAccountId: body.accountId
+    })
+
+    console.log(`[CatalogCategories] Queued ${body.channel} ${body.market} category sync: ${jobId}`)
+
+    return NextResponse.json({
+      success: true,
+      jobId
+    })
+
+  } catch (error) {
+    console.error('[CatalogCategories] Error queuing category sync:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
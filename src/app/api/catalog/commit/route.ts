@@ -6,20 +6,25 @@
  * Commits products to the specified channels after successful preview validation.
  * This operation creates or updates actual listings on the e-commerce platforms.
  * 
- * Uses idempotency keys to prevent duplicate operations and implements
+ * Uses idempotency keys to prevent duplicate operations (a retry with the
+ * same key replays the stored response; see `withIdempotency`) and implements
  * proper error handling with partial success support.
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { createShopeeConnector } from '@/connectors/shopee'
+import { connectorRegistry, resolvePlatform } from '@/connectors/registry'
 import { 
+  ProductDetail,
   ProductPushData, 
   ProductUpdateData,
   ConnectorResponse 
 } from '@/connectors/types'
-import { Product } from '@/types/product'
+import { Product, PlatformType } from '@/types/product'
+import { PLATFORM_INFO } from '@/types/platform'
+import { toVariantPushData } from '@/domain/mapping/variants'
+import { imagesService } from '@/services/images-service'
 import { featureFlags } from '@/lib/data-sources'
-import crypto from 'crypto'
+import { withIdempotency } from '@/lib/idempotency'
 
 // =============================================================================
 // TYPES AND INTERFACES
@@ -29,6 +34,7 @@ interface CommitRequest {
   products: {
     productId: string
     channel: string
+    channelAccountId: string // Shop of the channel to commit to
     market: string
     operation: 'create' | 'update' | 'publish'
     data: Product
@@ -71,47 +77,11 @@ interface CommitResponse {
   errors?: string[]
 }
 
-// =============================================================================
-// IDEMPOTENCY HELPERS
-// =============================================================================
-
-/**
- * Check if operation is idempotent (has been processed before)
- */
-function checkIdempotency(idempotencyKey: string): {
-  exists: boolean
-  result?: CommitResponse
-} {
-  // In production, this would check Redis or database for previous execution
-  // For now, we'll generate a hash-based check
-  const hash = crypto.createHash('sha256').update(idempotencyKey).digest('hex')
-  const key = `commit:${hash}`
-  
-  // TODO: Implement Redis/DB lookup
-  // const existing = await redis.get(key)
-  // return existing ? { exists: true, result: JSON.parse(existing) } : { exists: false }
-  
-  return { exists: false }
-}
-
-/**
- * Store idempotency result
- */
-function storeIdempotencyResult(idempotencyKey: string, result: CommitResponse): void {
-  const hash = crypto.createHash('sha256').update(idempotencyKey).digest('hex')
-  const key = `commit:${hash}`
-  
-  // TODO: Store in Redis/DB with 24h TTL
-  // await redis.setex(key, 86400, JSON.stringify(result))
-  
-  console.log(`Idempotency: Stored result for key ${hash}`)
-}
-
 // =============================================================================
 // MAIN API ROUTE HANDLER
 // =============================================================================
 
-export async function POST(request: NextRequest) {
+async function commitCatalog(request: NextRequest) {
   const startTime = Date.now()
   
   try {
@@ -126,19 +96,6 @@ export async function POST(request: NextRequest) {
       }, { status: 400 })
     }
 
-    // Check idempotency
-    const idempotencyCheck = checkIdempotency(body.idempotencyKey)
-    if (idempotencyCheck.exists) {
-      console.log(`Idempotency: Returning cached result for key`)
-      return NextResponse.json({
-        ...idempotencyCheck.result!,
-        summary: {
-          ...idempotencyCheck.result!.summary,
-          idempotent: true
-        }
-      })
-    }
-
     // Generate unique commit ID
     const commitId = `commit_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
 
@@ -168,9 +125,6 @@ export async function POST(request: NextRequest) {
       summary
     }
 
-    // Store idempotency result
-    storeIdempotencyResult(body.idempotencyKey, response)
-
     // Determine response status based on partial success
     const responseStatus = summary.failedOperations === 0 ? 200 : 
                           (summary.successfulOperations > 0 ? 207 : 400)
@@ -187,6 +141,14 @@ export async function POST(request: NextRequest) {
   }
 }
 
+// Retries with the same idempotency key get the stored response, marked idempotent
+export const POST = withIdempotency(commitCatalog, {
+  onReplay: (response: CommitResponse) => ({
+    ...response,
+    summary: response.summary && { ...response.summary, idempotent: true }
+  })
+})
+
 // =============================================================================
 // DRY RUN HANDLER
 // =============================================================================
@@ -254,27 +216,32 @@ async function executeCommit(
     try {
       let result: CommitResult
 
-      switch (item.channel) {
-        case 'shopee':
-          result = await commitToShopee(item, itemStart)
-          break
-        
-        case 'tiktokshop':
-          result = await commitToTikTokShop(item, itemStart)
-          break
-        
-        default:
-          result = {
-            productId: item.productId,
-            channel: item.channel,
-            success: false,
-            operation: item.operation,
-            error: {
-              code: 'UNSUPPORTED_CHANNEL',
-              message: `Channel '${item.channel}' is not supported yet`
-            },
-            processingTime: Date.now() - itemStart
-          }
+      if (!connectorRegistry.isSupported(item.channel)) {
+        result = {
+          productId: item.productId,
+          channel: item.channel,
+          success: false,
+          operation: item.operation,
+          error: {
+            code: 'UNSUPPORTED_CHANNEL',
+            message: `Channel '${item.channel}' is not supported yet`
+          },
+          processingTime: Date.now() - itemStart
+        }
+      } else if (!await connectorRegistry.isActive(item.channel, item.channelAccountId)) {
+        result = {
+          productId: item.productId,
+          channel: item.channel,
+          success: false,
+          operation: item.operation,
+          error: {
+            code: 'CHANNEL_INACTIVE',
+            message: `Channel '${item.channel}' is not active: its connector failed the health check`
+          },
+          processingTime: Date.now() - itemStart
+        }
+      } else {
+        result = await commitToChannel(item, itemStart)
       }
 
       results.push(result)
@@ -302,16 +269,26 @@ async function executeCommit(
   return results
 }
 
-async function commitToShopee(
+/**
+ * Public listing URL per platform, when it can be derived from the listing ID
+ */
+const LISTING_URLS: Partial<Record<PlatformType, (listingId: string) => string>> = {
+  tiktok: listingId => `https://shop.tiktok.com/view/product/${listingId}`,
+  lazada: listingId => `https://www.lazada.co.id/products/i${listingId}.html`
+}
+
+async function commitToChannel(
   item: CommitRequest['products'][0], 
   startTime: number
 ): Promise<CommitResult> {
+  const platform = resolvePlatform(item.channel)!
+  const platformName = PLATFORM_INFO[platform].displayName
+
   try {
-    const connector = createShopeeConnector()
-    const products = connector.getProducts()
+    const connector = await connectorRegistry.getConnector(item.channel, item.channelAccountId)
 
-    // Transform product data for Shopee format
-    const shopeeData: ProductPushData = {
+    // Transform product data for the connector
+    const productData: ProductPushData = {
       title: item.data.name,
       description: item.data.description,
       price: item.data.price,
@@ -319,35 +296,48 @@ async function commitToShopee(
       stock: item.data.stock,
       images: item.data.images,
       sku: item.data.sku,
-      category: item.data.category
+      category: item.data.category,
+      attributes: item.data.platforms?.find(p => p.platform === platform)?.attributes,
+      options: item.data.options,
+      variants: toVariantPushData(item.data.variants)
     }
 
-    let response: ConnectorResponse<any>
+    // Convert and upload images the channel hosts itself; unchanged images reuse their cached IDs
+    productData.platformImages = await imagesService.uploadProductImages(
+      connector,
+      item.channel,
+      item.data.id || item.productId,
+      productData,
+      item.channelAccountId
+    )
+
+    let response: ConnectorResponse<ProductDetail>
 
     switch (item.operation) {
       case 'create':
-        response = await products.createProduct(shopeeData)
+        response = await connector.createProduct(productData)
         break
       
       case 'update':
-        response = await products.updateProduct(item.productId, {
-          title: shopeeData.title,
-          description: shopeeData.description,
-          price: shopeeData.price,
-          stock: shopeeData.stock,
-          images: shopeeData.images
+        response = await connector.updateProduct(item.productId, {
+          title: productData.title,
+          description: productData.description,
+          price: productData.price,
+          stock: productData.stock,
+          images: productData.images,
+          platformImages: productData.platformImages
         } as ProductUpdateData)
         break
       
       case 'publish':
         // For publish operation, we need to check if listing exists
-        const existing = await products.getProduct(item.productId)
+        const existing = await connector.getProduct(item.productId)
         if (existing.success && existing.data) {
-          response = await products.updateProduct(item.productId, {
+          response = await connector.updateProduct(item.productId, {
             status: 'active'
           } as ProductUpdateData)
         } else {
-          response = await products.createProduct(shopeeData)
+          response = await connector.createProduct(productData)
         }
         break
       
@@ -356,22 +346,23 @@ async function commitToShopee(
     }
 
     if (response.success) {
+      const listingId = response.data?.id
       return {
         productId: item.productId,
-        channel: 'shopee',
+        channel: item.channel,
         success: true,
         operation: item.operation,
         result: {
-          listingId: response.data?.id,
-          url: response.data?.platformUrl,
-          message: `Successfully ${item.operation}d on Shopee`
+          listingId,
+          url: listingId ? LISTING_URLS[platform]?.(listingId) : undefined,
+          message: `Successfully ${item.operation}d on ${platformName}`
         },
         processingTime: Date.now() - startTime
       }
     } else {
       return {
         productId: item.productId,
-        channel: 'shopee',
+        channel: item.channel,
         success: false,
         operation: item.operation,
         error: {
@@ -386,50 +377,12 @@ async function commitToShopee(
   } catch (error) {
     return {
       productId: item.productId,
-      channel: 'shopee',
-      success: false,
-      operation: item.operation,
-      error: {
-        code: 'SHOPEE_COMMIT_ERROR',
-        message: error instanceof Error ? error.message : 'Failed to commit to Shopee',
-        details: error
-      },
-      processingTime: Date.now() - startTime
-    }
-  }
-}
-
-async function commitToTikTokShop(
-  item: CommitRequest['products'][0], 
-  startTime: number
-): Promise<CommitResult> {
-  try {
-    // TODO: Implement TikTok Shop connector integration
-    // For now, return a placeholder result
-    await new Promise(resolve => setTimeout(resolve, 500)) // Simulate processing
-
-    return {
-      productId: item.productId,
-      channel: 'tiktokshop',
-      success: true,
-      operation: item.operation,
-      result: {
-        listingId: `tiktok_${item.productId}`,
-        url: `https://tiktok.com/shop/product/${item.productId}`,
-        message: '[PLACEHOLDER] TikTok Shop integration pending'
-      },
-      processingTime: Date.now() - startTime
-    }
-
-  } catch (error) {
-    return {
-      productId: item.productId,
-      channel: 'tiktokshop',
+      channel: item.channel,
       success: false,
       operation: item.operation,
       error: {
-        code: 'TIKTOK_COMMIT_ERROR',
-        message: error instanceof Error ? error.message : 'Failed to commit to TikTok Shop',
+        code: `${platform.toUpperCase()}_COMMIT_ERROR`,
+        message: error instanceof Error ? error.message : `Failed to commit to ${platformName}`,
         details: error
       },
       processingTime: Date.now() - startTime
@@ -460,6 +413,9 @@ function validateCommitRequest(body: any): { valid: boolean; errors: string[] }
       if (!item.channel) {
         errors.push(`products[${index}].channel is required`)
       }
+      if (!item.channelAccountId || typeof item.channelAccountId !== 'string') {
+        errors.push(`products[${index}].channelAccountId is required`)
+      }
       if (!item.operation || !['create', 'update', 'publish'].includes(item.operation)) {
         errors.push(`products[${index}].operation must be one of: create, update, publish`)
       }
@@ -12,6 +12,7 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { createShopeeConnector } from '@/connectors/shopee'
+import { LAZADA_VALIDATION_RULES } from '@/connectors/lazada/products'
 import { 
   ProductPushData, 
   ValidationResult, 
@@ -20,6 +21,11 @@ import {
   ValidationWarning 
 } from '@/connectors/types'
 import { Product } from '@/types/product'
+import { categoriesService } from '@/services/categories-service'
+import { resolvePlatform } from '@/connectors/registry'
+import { validateChannelAttributes } from '@/domain/mapping/attributes'
+import { toVariantPushData, validateVariants } from '@/domain/mapping/variants'
+import { imagesService } from '@/services/images-service'
 
 // =============================================================================
 // TYPES AND INTERFACES
@@ -96,7 +102,9 @@ const VALIDATION_RULES: Record<string, ProductValidationRules> = {
       minCount: 1,
       maxCount: 9,
       maxSizeInMB: 10,
-      allowedFormats: ['jpg', 'jpeg', 'png', 'webp']
+      allowedFormats: ['jpg', 'jpeg', 'png', 'webp'],
+      minDimension: 500,
+      maxDimension: 5000
     }
   },
   tiktokshop: {
@@ -111,9 +119,12 @@ const VALIDATION_RULES: Record<string, ProductValidationRules> = {
       minCount: 1,
       maxCount: 8,
       maxSizeInMB: 8,
-      allowedFormats: ['jpg', 'jpeg', 'png']
+      allowedFormats: ['jpg', 'jpeg', 'png'],
+      minDimension: 300,
+      maxDimension: 20000
     }
-  }
+  },
+  lazada: LAZADA_VALIDATION_RULES
 }
 
 // =============================================================================
@@ -234,8 +245,25 @@ async function previewProductForChannel(
   // Transform product to channel-specific format
   const channelProduct = await transformProductForChannel(product, channel, request.market)
 
+  // Swap in the mapped marketplace category
+  const categoryError = await resolveChannelCategory(channelProduct, channel, request.market)
+
   // Run channel-specific validation
   const validation = await validateForChannel(channelProduct, channel)
+  if (categoryError) {
+    validation.errors.push(categoryError)
+    validation.valid = false
+  } else {
+    const attributeCheck = await validateAttributesForChannel(channelProduct, channel, request.market)
+    validation.errors.push(...attributeCheck.errors)
+    validation.warnings.push(...attributeCheck.warnings)
+    validation.valid = validation.errors.length === 0
+  }
+
+  const imageCheck = await validateImagesForChannel(channelProduct, channel)
+  validation.errors.push(...imageCheck.errors)
+  validation.warnings.push(...imageCheck.warnings)
+  validation.valid = validation.errors.length === 0
 
   // Generate SEO analysis
   const seo = generateSeoAnalysis(channelProduct, channel)
@@ -285,7 +313,10 @@ async function transformProductForChannel(
     stock: product.stock,
     images: product.images,
     sku: product.sku,
-    category: product.category
+    category: product.category,
+    attributes: product.platforms?.find(p => p.platform === resolvePlatform(channel))?.attributes,
+    options: product.options,
+    variants: toVariantPushData(product.variants)
   }
 
   // Apply channel-specific transformations
@@ -310,6 +341,110 @@ async function transformProductForChannel(
   return transformed
 }
 
+/**
+ * Replace the internal category with the mapped leaf category for channels
+ * that list under their own category tree
+ */
+async function resolveChannelCategory(
+  product: ProductPushData,
+  channel: string,
+  market?: string
+): Promise<ValidationError | null> {
+  if (!categoriesService.requiresCategoryMapping(channel)) {
+    return null
+  }
+
+  if (!product.category) {
+    return {
+      field: 'category',
+      message: 'Category is required',
+      code: 'CATEGORY_REQUIRED'
+    }
+  }
+
+  if (!market) {
+    return {
+      field: 'category',
+      message: `Market is required to resolve the ${channel} category`,
+      code: 'MARKET_REQUIRED'
+    }
+  }
+
+  const categoryId = await categoriesService.resolveCategoryId(channel, market, product.category)
+  if (!categoryId) {
+    return {
+      field: 'category',
+      message: `Category '${product.category}' is not mapped to a ${channel} ${market} category`,
+      code: 'CATEGORY_NOT_MAPPED'
+    }
+  }
+
+  product.category = categoryId
+  return null
+}
+
+/**
+ * Validate attributes against the schema of the mapped category
+ *
+ * Expects `product.category` to already hold the marketplace category ID.
+ */
+async function validateAttributesForChannel(
+  product: ProductPushData,
+  channel: string,
+  market?: string
+): Promise<{ errors: ValidationError[]; warnings: ValidationWarning[] }> {
+  if (!categoriesService.requiresCategoryMapping(channel) || !market || !product.category) {
+    return { errors: [], warnings: [] }
+  }
+
+  const schema = await categoriesService.getAttributeSchema(channel, market, product.category)
+  if (!schema) {
+    return {
+      errors: [],
+      warnings: [{
+        field: 'attributes',
+        message: `Attributes for ${channel} category ${product.category} have not been synced; they could not be validated`,
+        code: 'ATTRIBUTE_SCHEMA_MISSING'
+      }]
+    }
+  }
+
+  return {
+    errors: validateChannelAttributes(product.attributes, schema.attributes),
+    warnings: []
+  }
+}
+
+/**
+ * Inspect product and variant images against the channel's requirements
+ *
+ * Issues fixed automatically on commit (format, dimensions, file size) are
+ * warnings; unreadable or too small images are errors.
+ */
+async function validateImagesForChannel(
+  product: ProductPushData,
+  channel: string
+): Promise<{ errors: ValidationError[]; warnings: ValidationWarning[] }> {
+  if (!resolvePlatform(channel)) {
+    return { errors: [], warnings: [] }
+  }
+
+  const variantImages = (product.variants || [])
+    .map(variant => variant.image)
+    .filter((image): image is string => Boolean(image))
+
+  const issues = await imagesService.inspectProductImages(channel, [...(product.images || []), ...variantImages])
+
+  return {
+    errors: issues
+      .filter(issue => !issue.fixable)
+      .map(issue => ({ field: 'images', message: issue.message, code: issue.code })),
+    warnings: issues
+      .filter(issue => issue.fixable)
+      .map(issue => ({ field: 'images', message: issue.message, code: issue.code }))
+  }
+}
+
 async function validateForChannel(
   product: ProductPushData, 
   channel: string
@@ -373,6 +508,9 @@ async function validateForChannel(
     }
   }
 
+  // Variant checks; channel option limits are enforced by the connectors
+  errors.push(...validateVariants(product.options, product.variants))
+
   // Forbidden terms check
   const forbiddenFound = rules.forbiddenTerms.filter(term => 
     product.title.toLowerCase().includes(term.toLowerCase()) ||
@@ -0,0 +1,71 @@
+/**
+ * Internal Cron Job - Sync Jobs
+ *
+ * POST /api/internal/cron/jobs
+ *
+ * Called by pg_cron or Vercel Cron every minute to run queued sync jobs on
+ * deployments without a long-running worker (`npm run worker`). Requests
+ * must carry CRON_SECRET in the x-cron-secret header.
+ *
+ * - Recovers jobs whose worker lease expired
+ * - Claims pending jobs atomically, so overlapping triggers and workers never
+ *   process the same job
+ * - Stops claiming new jobs after RUN_BUDGET_MS; a job cut off by the platform
+ *   timeout is recovered once its lease expires
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { jobWorker } from '@/services/job-worker'
+
+// Leaves headroom below a 60s function timeout
+const RUN_BUDGET_MS = 45 * 1000
+
+export async function POST(request: NextRequest) {
+  const startTime = Date.now()
+
+  // Verify cron authentication; without a configured secret nobody may run jobs
+  if (!process.env.CRON_SECRET) {
+    console.error('[JobsCron] CRON_SECRET is not configured; refusing to run jobs')
+    return NextResponse.json({
+      success: false,
+      error: 'Cron secret not configured'
+    }, { status: 503 })
+  }
+
+  const cronSecret = request.headers.get('x-cron-secret')
+  if (cronSecret !== process.env.CRON_SECRET) {
+    return NextResponse.json({
+      success: false,
+      error: 'Unauthorized cron request'
+    }, { status: 401 })
+  }
+
+  console.log('[JobsCron] Starting sync jobs cron run')
+
+  try {
+    const processedJobs = await jobWorker.runOnce({ maxDurationMs: RUN_BUDGET_MS })
+
+    const processingTime = Date.now() - startTime
+    console.log(`[JobsCron] Processed ${processedJobs} jobs in ${processingTime}ms`)
+
+    return NextResponse.json({
+      success: true,
+      worker_id: jobWorker.workerId,
+      processed_jobs: processedJobs,
+      processing_time: processingTime
+    })
+
+  } catch (error) {
+    console.error('[JobsCron] Cron job error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+// For manual runs; needs the same x-cron-secret header
+export async function GET(request: NextRequest) {
+  return POST(request)
+}
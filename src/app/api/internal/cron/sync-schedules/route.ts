@@ -0,0 +1,64 @@
+/**
+ * Internal Cron Job - Scheduled Auto-sync
+ *
+ * POST /api/internal/cron/sync-schedules
+ *
+ * Called by pg_cron or Vercel Cron every minute on deployments without a
+ * long-running worker (`npm run worker` checks schedules itself).
+ *
+ * - Gives newly connected accounts a schedule from their branch's defaults
+ * - Claims due account schedules atomically and queues their pull and sync
+ *   jobs; the jobs themselves run through /api/internal/cron/jobs
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { syncSchedulesService } from '@/services/sync-schedules-service'
+
+export async function POST(request: NextRequest) {
+  const startTime = Date.now()
+
+  // Verify cron authentication; without a configured secret nobody may run schedules
+  if (!process.env.CRON_SECRET) {
+    console.error('[SchedulesCron] CRON_SECRET is not configured; refusing to run schedules')
+    return NextResponse.json({
+      success: false,
+      error: 'Cron secret not configured'
+    }, { status: 503 })
+  }
+
+  const cronSecret = request.headers.get('x-cron-secret')
+  if (cronSecret !== process.env.CRON_SECRET) {
+    return NextResponse.json({
+      success: false,
+      error: 'Unauthorized cron request'
+    }, { status: 401 })
+  }
+
+  console.log('[SchedulesCron] Starting sync schedules cron run')
+
+  try {
+    const schedulesRun = await syncSchedulesService.runDueSchedules()
+
+    const processingTime = Date.now() - startTime
+    console.log(`[SchedulesCron] Ran ${schedulesRun} schedules in ${processingTime}ms`)
+
+    return NextResponse.json({
+      success: true,
+      schedules_run: schedulesRun,
+      processing_time: processingTime
+    })
+
+  } catch (error) {
+    console.error('[SchedulesCron] Cron job error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+// For manual runs; needs the same x-cron-secret header
+export async function GET(request: NextRequest) {
+  return POST(request)
+}
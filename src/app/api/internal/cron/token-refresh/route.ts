@@ -8,13 +8,21 @@
  * 
  * Phase 3 Implementation:
  * - Selects active access tokens that expire in ≤15 minutes
- * - Calls /api/auth/shopee/refresh per account
+ * - Calls the channel's refresh route (/api/auth/<channel>/refresh) per account
  * - Uses proper authorization and error handling
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { getExpiredTokens } from '@/app/api/auth/shopee/refresh/route'
 
+/**
+ * Refresh route per channel_accounts.channel value
+ */
+const REFRESH_ROUTES: Record<string, string> = {
+  SHOPEE: '/api/auth/shopee/refresh',
+  LAZADA: '/api/auth/lazada/refresh'
+}
+
 interface CronResponse {
   success: boolean
   processed_accounts: number
@@ -64,11 +72,20 @@ export async function POST(request: NextRequest) {
         status: 'failed'
       }
 
+      const refreshRoute = REFRESH_ROUTES[token.channel]
+      if (!refreshRoute) {
+        result.error = `No refresh route for channel ${token.channel}`
+        failedCount++
+        console.warn(`[TokenRefreshCron] Skipping account ${token.account_id}: ${result.error}`)
+        results.push(result)
+        continue
+      }
+
       try {
-        console.log(`[TokenRefreshCron] Refreshing token for account ${token.account_id}`)
+        console.log(`[TokenRefreshCron] Refreshing ${token.channel} token for account ${token.account_id}`)
 
-        // Call the refresh endpoint
-        const refreshResponse = await fetch(`${process.env.NEXT_PUBLIC_APP_URL}/api/auth/shopee/refresh`, {
+        // Call the channel's refresh endpoint
+        const refreshResponse = await fetch(`${process.env.NEXT_PUBLIC_APP_URL}${refreshRoute}`, {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
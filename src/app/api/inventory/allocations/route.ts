@@ -0,0 +1,98 @@
+/**
+ * Inventory Allocations API Route
+ *
+ * GET  /api/inventory/allocations?accountId=<id>
+ * POST /api/inventory/allocations
+ *
+ * Reads and sets how much of the available stock each channel account
+ * lists: a percentage of it, or all but a buffer of units. A rule without a
+ * product is the account's default; product rules override it. Accounts
+ * without a rule list all available stock.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { inventoryService, AllocationRule, ALLOCATION_MODES } from '@/services/inventory-service'
+
+// =============================================================================
+// REQUEST/_RESPONSE TYPES
+// =============================================================================
+
+interface SetAllocationRequest {
+  accountId: string
+  productId?: string
+  rule: AllocationRule | null // null lists all available stock again
+}
+
+// =============================================================================
+// MAIN API HANDLERS
+// =============================================================================
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const allocations = await inventoryService.getAllocations(searchParams.get('accountId') || undefined)
+
+    return NextResponse.json({
+      success: true,
+      allocations
+    })
+
+  } catch (error) {
+    console.error('[InventoryAllocations] Error loading allocations:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: SetAllocationRequest = await request.json()
+
+    const errors: string[] = []
+    if (!body.accountId || typeof body.accountId !== 'string') {
+      errors.push('accountId is required')
+    }
+    if (body.rule === undefined) {
+      errors.push('rule is required (null removes the allocation)')
+    } else if (body.rule !== null) {
+      if (!ALLOCATION_MODES.includes(body.rule.mode)) {
+        errors.push(`rule.mode must be one of: ${ALLOCATION_MODES.join(', ')}`)
+      }
+      if (!Number.isInteger(body.rule.value) || body.rule.value < 0) {
+        errors.push('rule.value must be a non-negative integer')
+      } else if (body.rule.mode === 'percentage' && body.rule.value > 100) {
+        errors.push('rule.value must be at most 100 for percentage allocations')
+      }
+    }
+
+    if (errors.length > 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid request',
+        details: errors
+      }, { status: 400 })
+    }
+
+    const allocation = await inventoryService.setAllocation(
+      body.accountId,
+      body.productId,
+      body.rule && { mode: body.rule.mode, value: body.rule.value }
+    )
+
+    return NextResponse.json({
+      success: true,
+      allocation
+    })
+
+  } catch (error) {
+    console.error('[InventoryAllocations] Error saving allocation:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
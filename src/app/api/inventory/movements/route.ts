@@ -0,0 +1,125 @@
+/**
+ * Inventory Movements API Route
+ *
+ * GET  /api/inventory/movements?productId=<id>&variantId=<id>&page=1&pageSize=50
+ * POST /api/inventory/movements
+ *
+ * Lists a product's stock movements, newest first, and records manual ones
+ * (a restock, damaged units, a return). Stock is derived from movements, so
+ * this is how stock changes outside product edits, orders and syncs. A
+ * movement without a warehouse changes stock held in no warehouse.
+ * POST accepts an idempotency key, so a retried movement is recorded once.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { inventoryMovementsService, MovementReason, MOVEMENT_REASONS } from '@/services/inventory-movements-service'
+import { withIdempotency } from '@/lib/idempotency'
+
+// =============================================================================
+// REQUEST/_RESPONSE TYPES
+// =============================================================================
+
+interface RecordMovementRequest {
+  productId: string
+  variantId?: string
+  warehouseId?: string
+  delta: number // Units added (positive) or taken (negative)
+  reason: MovementReason
+  reference?: string
+  note?: string
+}
+
+// =============================================================================
+// MAIN API HANDLERS
+// =============================================================================
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const productId = searchParams.get('productId')
+
+    if (!productId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid request',
+        details: ['productId is required']
+      }, { status: 400 })
+    }
+
+    const page = parseInt(searchParams.get('page') || '1')
+    const pageSize = Math.min(parseInt(searchParams.get('pageSize') || '50'), 200)
+
+    const { movements, total } = await inventoryMovementsService.listMovements(productId, {
+      variantId: searchParams.get('variantId') || undefined,
+      page,
+      pageSize
+    })
+
+    return NextResponse.json({
+      success: true,
+      movements,
+      pagination: {
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize)
+      }
+    })
+
+  } catch (error) {
+    console.error('[InventoryMovements] Error loading movements:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+async function recordMovement(request: NextRequest) {
+  try {
+    const body: RecordMovementRequest = await request.json()
+
+    const errors: string[] = []
+    if (!body.productId || typeof body.productId !== 'string') {
+      errors.push('productId is required')
+    }
+    if (!Number.isInteger(body.delta) || body.delta === 0) {
+      errors.push('delta must be a non-zero integer')
+    }
+    if (!MOVEMENT_REASONS.includes(body.reason)) {
+      errors.push(`reason must be one of: ${MOVEMENT_REASONS.join(', ')}`)
+    }
+
+    if (errors.length > 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid request',
+        details: errors
+      }, { status: 400 })
+    }
+
+    const movement = await inventoryMovementsService.recordMovement(body.productId, body.variantId, body.delta, {
+      reason: body.reason,
+      source: 'user',
+      reference: body.reference,
+      note: body.note,
+      warehouseId: body.warehouseId
+    })
+
+    return NextResponse.json({
+      success: true,
+      movement
+    })
+
+  } catch (error) {
+    console.error('[InventoryMovements] Error recording movement:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+export const POST = withIdempotency(recordMovement)
@@ -0,0 +1,85 @@
+/**
+ * Inventory API Route
+ *
+ * GET  /api/inventory?productIds=<id>,<id>
+ * POST /api/inventory
+ *
+ * Reads the central stock levels of products (on hand, reserved by open
+ * orders, available), and allocates their available stock to every channel
+ * listing now, pushing the listings whose stock changed. Orders do this on
+ * their own; redistribute after changing allocations or master stock.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { inventoryService } from '@/services/inventory-service'
+
+// =============================================================================
+// REQUEST/_RESPONSE TYPES
+// =============================================================================
+
+interface SyncStockRequest {
+  productIds: string[]
+}
+
+// =============================================================================
+// MAIN API HANDLERS
+// =============================================================================
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const productIds = (searchParams.get('productIds') || '').split(',').filter(Boolean)
+
+    if (productIds.length === 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid request',
+        details: ['productIds is required']
+      }, { status: 400 })
+    }
+
+    const levels = await inventoryService.getInventoryLevels(productIds)
+
+    return NextResponse.json({
+      success: true,
+      levels
+    })
+
+  } catch (error) {
+    console.error('[Inventory] Error loading inventory levels:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: SyncStockRequest = await request.json()
+
+    if (!Array.isArray(body.productIds) || body.productIds.length === 0 || body.productIds.some(id => typeof id !== 'string')) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid request',
+        details: ['productIds must be a non-empty array of product IDs']
+      }, { status: 400 })
+    }
+
+    const jobIds = await inventoryService.syncChannelStock(body.productIds)
+
+    return NextResponse.json({
+      success: true,
+      jobIds
+    })
+
+  } catch (error) {
+    console.error('[Inventory] Error redistributing stock:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Inventory Transfers API Route
+ *
+ * POST /api/inventory/transfers
+ *
+ * Moves units of a product (or variant) from one warehouse to another, as
+ * a pair of transfer movements. Leaving out a warehouse moves stock in no
+ * warehouse, e.g. to put existing stock away. Totals don't change, but
+ * accounts selling from either warehouse do, so their listings are pushed.
+ * Accepts an idempotency key, so a retried transfer moves stock once.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { inventoryMovementsService, StockTransfer } from '@/services/inventory-movements-service'
+import { inventoryService } from '@/services/inventory-service'
+import { withIdempotency } from '@/lib/idempotency'
+
+// =============================================================================
+// MAIN API HANDLERS
+// =============================================================================
+
+async function transferStock(request: NextRequest) {
+  try {
+    const body: StockTransfer = await request.json()
+
+    const errors: string[] = []
+    if (!body.productId || typeof body.productId !== 'string') {
+      errors.push('productId is required')
+    }
+    if (!Number.isInteger(body.quantity) || body.quantity <= 0) {
+      errors.push('quantity must be a positive integer')
+    }
+    if (!body.fromWarehouseId && !body.toWarehouseId) {
+      errors.push('fromWarehouseId or toWarehouseId is required')
+    } else if (body.fromWarehouseId === body.toWarehouseId) {
+      errors.push('fromWarehouseId and toWarehouseId must differ')
+    }
+
+    if (errors.length > 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid request',
+        details: errors
+      }, { status: 400 })
+    }
+
+    const movements = await inventoryMovementsService.transferStock({
+      productId: body.productId,
+      variantId: body.variantId,
+      fromWarehouseId: body.fromWarehouseId,
+      toWarehouseId: body.toWarehouseId,
+      quantity: body.quantity,
+      reference: body.reference,
+      note: body.note
+    })
+
+    const jobIds = await inventoryService.syncChannelStock([body.productId])
+
+    return NextResponse.json({
+      success: true,
+      movements,
+      jobIds
+    })
+
+  } catch (error) {
+    console.error('[InventoryTransfers] Error transferring stock:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+export const POST = withIdempotency(transferStock)
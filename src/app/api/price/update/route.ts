@@ -5,10 +5,15 @@
  * 
  * Handles batch price updates across multiple platforms with preview/commit pattern.
  * Supports idempotency, retry mechanisms, and comprehensive error handling.
+ * Listings with variants are updated per variant through `variantId`.
+ * A commit queues one push job per channel account and returns the job IDs.
+ * A retry with the same idempotency key replays the first response.
  */
 
 import { NextRequest, NextResponse } from 'next/server'
+import { withIdempotency } from '@/lib/idempotency'
 import { listingsService } from '@/services/listings-service'
+import { syncJobsService, PushItem } from '@/services/sync-jobs-service'
 
 // =============================================================================
 // REQUEST/_RESPONSE TYPES
@@ -17,6 +22,7 @@ import { listingsService } from '@/services/listings-service'
 interface PriceUpdateRequest {
   updates: Array<{
     listingId: string
+    variantId?: string // Product variant ID; required for listings with variants
     newPrice: number
     compareAtPrice?: number
     reason?: string
@@ -28,6 +34,7 @@ interface PriceUpdateRequest {
 
 interface PriceUpdateItem {
   listingId: string
+  variantId?: string
   currentPrice: number
   newPrice: number
   compareAtPrice?: number
@@ -36,6 +43,14 @@ interface PriceUpdateItem {
   status: 'success' | 'error' | 'warning'
   error?: string
   warning?: string
+  jobId?: string // Push job delivering the change
+}
+
+interface QueuedPushJob {
+  jobId: string
+  channel: string
+  channelAccountId: string
+  itemCount: number
 }
 
 interface PriceUpdateResponse {
@@ -50,6 +65,7 @@ interface PriceUpdateResponse {
     totalPriceChange: number
     averagePriceChange: number
   }
+  jobs: QueuedPushJob[] // Push jobs queued by a commit, one per channel account
   idempotencyKey?: string
   previewMode: boolean
   dryRun: boolean
@@ -60,7 +76,7 @@ interface PriceUpdateResponse {
 // MAIN API HANDLER
 // =============================================================================
 
-export async function POST(request: NextRequest) {
+async function updatePrices(request: NextRequest) {
   const startTime = Date.now()
   
   try {
@@ -110,6 +126,8 @@ export async function POST(request: NextRequest) {
   }
 }
 
+export const POST = withIdempotency(updatePrices)
+
 // =============================================================================
 // REQUEST VALIDATION
 // =============================================================================
@@ -174,7 +192,10 @@ async function processPriceUpdate(
   // Process each price update
   for (const update of request.updates) {
     try {
-      const itemResult = await processPriceUpdateItem(update)
+      const itemResult = {
+        ...await processPriceUpdateItem(update),
+        variantId: update.variantId
+      }
       processedItems.push(itemResult)
 
       // Update summary
@@ -190,6 +211,7 @@ async function processPriceUpdate(
       console.error(`[PriceUpdate] Error processing item ${update.listingId}:`, error)
       processedItems.push({
         listingId: update.listingId,
+        variantId: update.variantId,
         currentPrice: 0,
         newPrice: update.newPrice,
         compareAtPrice: update.compareAtPrice,
@@ -202,21 +224,34 @@ async function processPriceUpdate(
     }
   }
 
+  // Queue sync jobs if in commit mode
+  let jobs: QueuedPushJob[] = []
+  if (request.commitMode === 'commit' && !request.dryRun) {
+    jobs = await queuePriceSyncJobs(processedItems, idempotencyKey)
+
+    // Changes that no push job carries were not committed
+    for (const item of processedItems) {
+      if (item.status === 'success' && !item.jobId) {
+        item.status = 'error'
+        item.error = item.error || 'Failed to queue push job'
+        summary.successful--
+        summary.failed++
+        summary.totalPriceChange -= Math.abs(item.change)
+      }
+    }
+  }
+
   // Calculate average price change
   summary.averagePriceChange = summary.successful > 0 
     ? summary.totalPriceChange / summary.successful 
     : 0
 
-  // Queue sync jobs if in commit mode
-  if (request.commitMode === 'commit' && !request.dryRun) {
-    await queuePriceSyncJobs(processedItems, idempotencyKey)
-  }
-
   return {
     success: summary.failed === 0,
     commitMode: request.commitMode,
     processedItems,
     summary,
+    jobs,
     idempotencyKey,
     previewMode: request.commitMode === 'preview',
     dryRun: request.dryRun || false,
@@ -230,6 +265,7 @@ async function processPriceUpdate(
 
 async function processPriceUpdateItem(update: {
   listingId: string
+  variantId?: string
   newPrice: number
   compareAtPrice?: number
   reason?: string
@@ -250,12 +286,42 @@ async function processPriceUpdateItem(update: {
       }
     }
 
-    const currentPrice = listing.price
+    // Variant listings are priced per variant
+    const variant = update.variantId
+      ? listing.variants?.find(candidate => candidate.variantId === update.variantId)
+      : undefined
+    const variantError = update.variantId && !variant
+      ? `Variant ${update.variantId} not found on listing`
+      : !update.variantId && listing.variants?.length
+        ? 'Listing has variants; variantId is required'
+        : undefined
+
+    // Prices are pushed to the platform's own listing and variant IDs
+    const publishError = !listing.platformListingId
+      ? `Listing is not published on ${listing.channel}`
+      : variant && !variant.platformVariantId
+        ? `Variant ${update.variantId} is not published on ${listing.channel}`
+        : undefined
+
+    if (variantError || publishError) {
+      return {
+        listingId: update.listingId,
+        currentPrice: 0,
+        newPrice: update.newPrice,
+        compareAtPrice: update.compareAtPrice,
+        change: update.newPrice,
+        changePercent: 0,
+        status: 'error',
+        error: variantError || publishError
+      }
+    }
+
+    const currentPrice = variant ? variant.price ?? listing.price : listing.price
     const change = update.newPrice - currentPrice
     const changePercent = currentPrice > 0 ? (change / currentPrice) * 100 : 0
 
     // Validate price change
-    const validation = validatePriceChange(currentPrice, update.newPrice, listing.price)
+    const validation = validatePriceChange(currentPrice, update.newPrice, currentPrice)
     if (!validation.valid) {
       return {
         listingId: update.listingId,
@@ -393,16 +459,16 @@ function validatePriceChange(currentPrice: number, newPrice: number, originalPri
 // SYNC JOB QUEUEING
 // =============================================================================
 
-async function queuePriceSyncJobs(processedItems: PriceUpdateItem[], idempotencyKey?: string): Promise<void> {
+async function queuePriceSyncJobs(processedItems: PriceUpdateItem[], idempotencyKey?: string): Promise<QueuedPushJob[]> {
   const successfulItems = processedItems.filter(item => item.status === 'success')
   
   if (successfulItems.length === 0) {
     console.log('[PriceUpdate] No successful items to queue for sync')
-    return
+    return []
   }
 
-  // Group by channel account for efficient sync
-  const itemsByAccount: Record<string, PriceUpdateItem[]> = {}
+  // Group by channel account: one push job per account
+  const itemsByAccount: Record<string, { channel: string; items: PriceUpdateItem[]; pushItems: PushItem[] }> = {}
   
   for (const item of successfulItems) {
     try {
@@ -410,22 +476,44 @@ async function queuePriceSyncJobs(processedItems: PriceUpdateItem[], idempotency
       if (listing) {
         const accountId = listing.channelAccountId
         if (!itemsByAccount[accountId]) {
-          itemsByAccount[accountId] = []
+          itemsByAccount[accountId] = { channel: listing.channel, items: [], pushItems: [] }
         }
-        itemsByAccount[accountId].push(item)
+        itemsByAccount[accountId].items.push(item)
+        itemsByAccount[accountId].pushItems.push({
+          id: listing.platformListingId!,
+          data: {
+            listingId: item.listingId,
+            variantId: item.variantId,
+            price: item.newPrice,
+            compareAtPrice: item.compareAtPrice,
+            platformVariantId: listing.variants?.find(variant => variant.variantId === item.variantId)?.platformVariantId
+          }
+        })
       }
     } catch (error) {
       console.error(`[PriceUpdate] Error getting listing ${item.listingId} for sync:`, error)
     }
   }
 
-  // For now, just log that sync jobs would be queued
-  // TODO: Implement actual sync job queueing when sync service is fully implemented
-  console.log(`[PriceUpdate] Would queue price sync jobs for ${Object.keys(itemsByAccount).length} accounts`)
-  console.log('[PriceUpdate] Items by account:', Object.entries(itemsByAccount).map(([accountId, items]) => ({
-    accountId,
-    itemCount: items.length,
-    totalPriceChange: items.reduce((sum, item) => sum + Math.abs(item.change), 0),
-    averageChange: items.reduce((sum, item) => sum + item.changePercent, 0) / items.length
-  })))
-}
\ No newline at end of file
+  const jobs: QueuedPushJob[] = []
+
+  for (const [accountId, group] of Object.entries(itemsByAccount)) {
+    try {
+      const jobId = await syncJobsService.queuePushJob(group.channel, 'prices', group.pushItems, accountId, {
+        idempotencyKey
+      })
+
+      group.items.forEach(item => { item.jobId = jobId })
+      jobs.push({ jobId, channel: group.channel, channelAccountId: accountId, itemCount: group.items.length })
+    } catch (error) {
+      console.error(`[PriceUpdate] Error queueing push job for account ${accountId}:`, error)
+      group.items.forEach(item => {
+        item.error = `Failed to queue push job: ${error instanceof Error ? error.message : 'Unknown error'}`
+      })
+    }
+  }
+
+  console.log(`[PriceUpdate] Queued ${jobs.length} push jobs:`, jobs)
+
+  return jobs
+}
@@ -5,11 +5,15 @@
  * 
  * Handles batch stock updates across multiple platforms with preview/commit pattern.
  * Supports idempotency, retry mechanisms, and comprehensive error handling.
+ * Listings with variants are updated per variant through `variantId`.
+ * A commit queues one push job per channel account and returns the job IDs.
+ * A retry with the same idempotency key replays the first response.
  */
 
 import { NextRequest, NextResponse } from 'next/server'
+import { withIdempotency } from '@/lib/idempotency'
 import { listingsService } from '@/services/listings-service'
-import { syncJobsService } from '@/services/sync-jobs-service'
+import { syncJobsService, PushItem } from '@/services/sync-jobs-service'
 import { channelsService } from '@/services/channels-service'
 
 // =============================================================================
@@ -19,6 +23,7 @@ import { channelsService } from '@/services/channels-service'
 interface StockUpdateRequest {
   updates: Array<{
     listingId: string
+    variantId?: string // Product variant ID; required for listings with variants
     newStock: number
     reason?: string
   }>
@@ -29,12 +34,21 @@ interface StockUpdateRequest {
 
 interface StockUpdateItem {
   listingId: string
+  variantId?: string
   currentStock: number
   newStock: number
   change: number
   status: 'success' | 'error' | 'warning'
   error?: string
   warning?: string
+  jobId?: string // Push job delivering the change
+}
+
+interface QueuedPushJob {
+  jobId: string
+  channel: string
+  channelAccountId: string
+  itemCount: number
 }
 
 interface StockUpdateResponse {
@@ -48,6 +62,7 @@ interface StockUpdateResponse {
     warnings: number
     totalStockChange: number
   }
+  jobs: QueuedPushJob[] // Push jobs queued by a commit, one per channel account
   idempotencyKey?: string
   previewMode: boolean
   dryRun: boolean
@@ -58,7 +73,7 @@ interface StockUpdateResponse {
 // MAIN API HANDLER
 // =============================================================================
 
-export async function POST(request: NextRequest) {
+async function updateStock(request: NextRequest) {
   const startTime = Date.now()
   
   try {
@@ -108,6 +123,8 @@ export async function POST(request: NextRequest) {
   }
 }
 
+export const POST = withIdempotency(updateStock)
+
 // =============================================================================
 // REQUEST VALIDATION
 // =============================================================================
@@ -165,7 +182,10 @@ async function processStockUpdate(
   // Process each stock update
   for (const update of request.updates) {
     try {
-      const itemResult = await processStockUpdateItem(update)
+      const itemResult = {
+        ...await processStockUpdateItem(update),
+        variantId: update.variantId
+      }
       processedItems.push(itemResult)
 
       // Update summary
@@ -181,6 +201,7 @@ async function processStockUpdate(
       console.error(`[StockUpdate] Error processing item ${update.listingId}:`, error)
       processedItems.push({
         listingId: update.listingId,
+        variantId: update.variantId,
         currentStock: 0,
         newStock: update.newStock,
         change: update.newStock,
@@ -192,8 +213,20 @@ async function processStockUpdate(
   }
 
   // Queue sync jobs if in commit mode
+  let jobs: QueuedPushJob[] = []
   if (request.commitMode === 'commit' && !request.dryRun) {
-    await queueStockSyncJobs(processedItems, idempotencyKey)
+    jobs = await queueStockSyncJobs(processedItems, idempotencyKey)
+
+    // Changes that no push job carries were not committed
+    for (const item of processedItems) {
+      if (item.status === 'success' && !item.jobId) {
+        item.status = 'error'
+        item.error = item.error || 'Failed to queue push job'
+        summary.successful--
+        summary.failed++
+        summary.totalStockChange -= item.change
+      }
+    }
   }
 
   return {
@@ -201,6 +234,7 @@ async function processStockUpdate(
     commitMode: request.commitMode,
     processedItems,
     summary,
+    jobs,
     idempotencyKey,
     previewMode: request.commitMode === 'preview',
     dryRun: request.dryRun || false,
@@ -214,6 +248,7 @@ async function processStockUpdate(
 
 async function processStockUpdateItem(update: {
   listingId: string
+  variantId?: string
   newStock: number
   reason?: string
 }): Promise<StockUpdateItem> {
@@ -231,7 +266,35 @@ async function processStockUpdateItem(update: {
       }
     }
 
-    const currentStock = listing.stock
+    // Variant listings hold stock per variant
+    const variant = update.variantId
+      ? listing.variants?.find(candidate => candidate.variantId === update.variantId)
+      : undefined
+    const variantError = update.variantId && !variant
+      ? `Variant ${update.variantId} not found on listing`
+      : !update.variantId && listing.variants?.length
+        ? 'Listing has variants; variantId is required'
+        : undefined
+
+    // Stock is pushed to the platform's own listing and variant IDs
+    const publishError = !listing.platformListingId
+      ? `Listing is not published on ${listing.channel}`
+      : variant && !variant.platformVariantId
+        ? `Variant ${update.variantId} is not published on ${listing.channel}`
+        : undefined
+
+    if (variantError || publishError) {
+      return {
+        listingId: update.listingId,
+        currentStock: 0,
+        newStock: update.newStock,
+        change: update.newStock,
+        status: 'error',
+        error: variantError || publishError
+      }
+    }
+
+    const currentStock = variant ? variant.stock ?? 0 : listing.stock
     const change = update.newStock - currentStock
 
     // Validate stock change
@@ -329,16 +392,16 @@ function validateStockChange(currentStock: number, newStock: number, lowStockThr
 // SYNC JOB QUEUEING
 // =============================================================================
 
-async function queueStockSyncJobs(processedItems: StockUpdateItem[], idempotencyKey?: string): Promise<void> {
+async function queueStockSyncJobs(processedItems: StockUpdateItem[], idempotencyKey?: string): Promise<QueuedPushJob[]> {
   const successfulItems = processedItems.filter(item => item.status === 'success')
   
   if (successfulItems.length === 0) {
     console.log('[StockUpdate] No successful items to queue for sync')
-    return
+    return []
   }
 
-  // Group by channel account for efficient sync
-  const itemsByAccount: Record<string, StockUpdateItem[]> = {}
+  // Group by channel account: one push job per account
+  const itemsByAccount: Record<string, { channel: string; items: StockUpdateItem[]; pushItems: PushItem[] }> = {}
   
   for (const item of successfulItems) {
     try {
@@ -346,21 +409,43 @@ async function queueStockSyncJobs(processedItems: StockUpdateItem[], idempotency
       if (listing) {
         const accountId = listing.channelAccountId
         if (!itemsByAccount[accountId]) {
-          itemsByAccount[accountId] = []
+          itemsByAccount[accountId] = { channel: listing.channel, items: [], pushItems: [] }
         }
-        itemsByAccount[accountId].push(item)
+        itemsByAccount[accountId].items.push(item)
+        itemsByAccount[accountId].pushItems.push({
+          id: listing.platformListingId!,
+          data: {
+            listingId: item.listingId,
+            variantId: item.variantId,
+            stock: item.newStock,
+            platformVariantId: listing.variants?.find(variant => variant.variantId === item.variantId)?.platformVariantId
+          }
+        })
       }
     } catch (error) {
       console.error(`[StockUpdate] Error getting listing ${item.listingId} for sync:`, error)
     }
   }
 
-  // For now, just log that sync jobs would be queued
-  // TODO: Implement actual sync job queueing when sync service is fully implemented
-  console.log(`[StockUpdate] Would queue sync jobs for ${Object.keys(itemsByAccount).length} accounts`)
-  console.log('[StockUpdate] Items by account:', Object.entries(itemsByAccount).map(([accountId, items]) => ({
-    accountId,
-    itemCount: items.length,
-    totalStockChange: items.reduce((sum, item) => sum + item.change, 0)
-  })))
-}
\ No newline at end of file
+  const jobs: QueuedPushJob[] = []
+
+  for (const [accountId, group] of Object.entries(itemsByAccount)) {
+    try {
+      const jobId = await syncJobsService.queuePushJob(group.channel, 'stock', group.pushItems, accountId, {
+        idempotencyKey
+      })
+
+      group.items.forEach(item => { item.jobId = jobId })
+      jobs.push({ jobId, channel: group.channel, channelAccountId: accountId, itemCount: group.items.length })
+    } catch (error) {
+      console.error(`[StockUpdate] Error queueing push job for account ${accountId}:`, error)
+      group.items.forEach(item => {
+        item.error = `Failed to queue push job: ${error instanceof Error ? error.message : 'Unknown error'}`
+      })
+    }
+  }
+
+  console.log(`[StockUpdate] Queued ${jobs.length} push jobs:`, jobs)
+
+  return jobs
+}
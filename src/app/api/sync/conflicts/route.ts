@@ -0,0 +1,102 @@
+/**
+ * Sync Conflicts API Route
+ *
+ * GET  /api/sync/conflicts?status=open&channel=shopee&accountId=<id>&page=1
+ * POST /api/sync/conflicts
+ *
+ * Lists the product fields changed differently in AIOStore and on a platform
+ * since their last sync, and resolves them with the side the operator picks.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { syncConflictsService, ConflictStatus } from '@/services/sync-conflicts-service'
+
+// =============================================================================
+// REQUEST/_RESPONSE TYPES
+// =============================================================================
+
+interface ResolveRequest {
+  conflictIds: string[]
+  resolution: 'aiostore' | 'platform' // Side whose value is kept
+}
+
+const CONFLICT_STATUSES: ConflictStatus[] = ['open', 'resolved', 'superseded']
+
+// =============================================================================
+// MAIN API HANDLERS
+// =============================================================================
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status') || undefined
+
+    if (status && !CONFLICT_STATUSES.includes(status as ConflictStatus)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid request',
+        details: [`status must be one of: ${CONFLICT_STATUSES.join(', ')}`]
+      }, { status: 400 })
+    }
+
+    const { conflicts, total } = await syncConflictsService.listConflicts({
+      status: status as ConflictStatus | undefined,
+      channel: searchParams.get('channel') || undefined,
+      channelAccountId: searchParams.get('accountId') || undefined,
+      page: Number(searchParams.get('page')) || undefined,
+      pageSize: Number(searchParams.get('pageSize')) || undefined
+    })
+
+    return NextResponse.json({
+      success: true,
+      conflicts,
+      total
+    })
+
+  } catch (error) {
+    console.error('[SyncConflicts] Error listing conflicts:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: ResolveRequest = await request.json()
+
+    const errors: string[] = []
+    if (!Array.isArray(body.conflictIds) || body.conflictIds.length === 0) {
+      errors.push('conflictIds must be a non-empty array')
+    }
+    if (body.resolution !== 'aiostore' && body.resolution !== 'platform') {
+      errors.push('resolution must be aiostore or platform')
+    }
+
+    if (errors.length > 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid request',
+        details: errors
+      }, { status: 400 })
+    }
+
+    const result = await syncConflictsService.resolveConflicts(body.conflictIds, body.resolution)
+
+    return NextResponse.json({
+      success: true,
+      resolved: result.resolved,
+      errors: result.errors
+    })
+
+  } catch (error) {
+    console.error('[SyncConflicts] Error resolving conflicts:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Dead Letters API Route
+ *
+ * GET   /api/sync/dead-letters?channel=shopee&accountId=<id>&itemType=product&page=1
+ * PATCH /api/sync/dead-letters?id=<job item id>
+ * POST  /api/sync/dead-letters
+ *
+ * Lists sync job items that exhausted their retries, edits the payload an
+ * item is replayed with, and replays items individually or in bulk.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { syncJobsService } from '@/services/sync-jobs-service'
+
+// =============================================================================
+// REQUEST/_RESPONSE TYPES
+// =============================================================================
+
+interface UpdatePayloadRequest {
+  payload: Record<string, any>
+}
+
+interface ReplayRequest {
+  itemIds: string[]
+}
+
+// =============================================================================
+// MAIN API HANDLERS
+// =============================================================================
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+
+    const { items, total } = await syncJobsService.listDeadLetters({
+      channel: searchParams.get('channel') || undefined,
+      channelAccountId: searchParams.get('accountId') || undefined,
+      itemType: searchParams.get('itemType') || undefined,
+      page: Number(searchParams.get('page')) || undefined,
+      pageSize: Number(searchParams.get('pageSize')) || undefined
+    })
+
+    return NextResponse.json({
+      success: true,
+      items,
+      total
+    })
+
+  } catch (error) {
+    console.error('[DeadLetters] Error listing dead letters:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const id = new URL(request.url).searchParams.get('id')
+    const body: UpdatePayloadRequest = await request.json()
+
+    const errors: string[] = []
+    if (!id) {
+      errors.push('id is required')
+    }
+    if (!body.payload || typeof body.payload !== 'object' || Array.isArray(body.payload)) {
+      errors.push('payload must be an object')
+    }
+
+    if (errors.length > 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid request',
+        details: errors
+      }, { status: 400 })
+    }
+
+    const updated = await syncJobsService.updateDeadLetterPayload(id!, body.payload)
+    if (!updated) {
+      return NextResponse.json({
+        success: false,
+        error: 'Not found',
+        details: `Job item ${id} is not in the dead-letter queue`
+      }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('[DeadLetters] Error updating payload:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: ReplayRequest = await request.json()
+
+    if (!Array.isArray(body.itemIds) || body.itemIds.length === 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid request',
+        details: ['itemIds must be a non-empty array']
+      }, { status: 400 })
+    }
+
+    const replayed = await syncJobsService.replayDeadLetters(body.itemIds)
+
+    return NextResponse.json({
+      success: true,
+      replayed
+    })
+
+  } catch (error) {
+    console.error('[DeadLetters] Error replaying items:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
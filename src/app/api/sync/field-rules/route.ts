@@ -0,0 +1,94 @@
+/**
+ * Sync Field Rules API Route
+ *
+ * GET  /api/sync/field-rules?accountId=<id>
+ * POST /api/sync/field-rules
+ *
+ * Reads and saves which side is the source of truth for each product field
+ * during sync: AIOStore, the platform, or a merge that queues conflicts for
+ * review. Rules without an account are the defaults; an account's rules
+ * override them field by field.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  syncConflictsService,
+  FieldRules,
+  SYNC_FIELDS,
+  FIELD_SOURCES
+} from '@/services/sync-conflicts-service'
+
+// =============================================================================
+// REQUEST/_RESPONSE TYPES
+// =============================================================================
+
+interface SaveRulesRequest {
+  accountId?: string
+  rules: Partial<FieldRules> // Field → source of truth; fields left out merge (defaults) or inherit (accounts)
+}
+
+// =============================================================================
+// MAIN API HANDLERS
+// =============================================================================
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const rules = await syncConflictsService.getFieldRules(searchParams.get('accountId') || undefined)
+
+    return NextResponse.json({
+      success: true,
+      rules
+    })
+
+  } catch (error) {
+    console.error('[SyncFieldRules] Error loading field rules:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: SaveRulesRequest = await request.json()
+
+    const errors: string[] = []
+    if (!body.rules || typeof body.rules !== 'object' || Array.isArray(body.rules)) {
+      errors.push('rules is required')
+    } else {
+      for (const [field, source] of Object.entries(body.rules)) {
+        if (!SYNC_FIELDS.includes(field as any)) {
+          errors.push(`${field} is not a synced field (${SYNC_FIELDS.join(', ')})`)
+        } else if (!FIELD_SOURCES.includes(source as any)) {
+          errors.push(`rules.${field} must be one of: ${FIELD_SOURCES.join(', ')}`)
+        }
+      }
+    }
+
+    if (errors.length > 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid request',
+        details: errors
+      }, { status: 400 })
+    }
+
+    const rules = await syncConflictsService.saveFieldRules(body.accountId, body.rules)
+
+    return NextResponse.json({
+      success: true,
+      rules
+    })
+
+  } catch (error) {
+    console.error('[SyncFieldRules] Error saving field rules:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * Sync Jobs API Route
+ *
+ * GET  /api/sync/jobs?channel=shopee&accountId=<id>&status=failed&type=push&page=1
+ * GET  /api/sync/jobs?id=<job id>&itemStatus=failed&itemPage=1&logsAfter=<ISO date>
+ * POST /api/sync/jobs
+ *
+ * Backs the sync monitor: lists jobs, returns one job with a page of its
+ * items and its log entries (optionally only those newer than `logsAfter`),
+ * and retries or cancels a job.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { syncJobsService } from '@/services/sync-jobs-service'
+import { channelsService } from '@/services/channels-service'
+
+// =============================================================================
+// REQUEST/_RESPONSE TYPES
+// =============================================================================
+
+interface JobActionRequest {
+  jobId: string
+  action: 'retry' | 'cancel'
+}
+
+const JOB_STATUSES = ['pending', 'running', 'completed', 'failed', 'cancelled']
+const JOB_TYPES = ['pull', 'push', 'sync']
+
+// =============================================================================
+// MAIN API HANDLERS
+// =============================================================================
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const id = searchParams.get('id')
+
+    if (id) {
+      return await getJobDetail(id, searchParams)
+    }
+
+    const status = searchParams.get('status') || undefined
+    const type = searchParams.get('type') || undefined
+
+    const errors: string[] = []
+    if (status && !JOB_STATUSES.includes(status)) {
+      errors.push(`status must be one of: ${JOB_STATUSES.join(', ')}`)
+    }
+    if (type && !JOB_TYPES.includes(type)) {
+      errors.push(`type must be one of: ${JOB_TYPES.join(', ')}`)
+    }
+
+    if (errors.length > 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid request',
+        details: errors
+      }, { status: 400 })
+    }
+
+    const { jobs, total } = await syncJobsService.listJobs({
+      channel: searchParams.get('channel') || undefined,
+      channelAccountId: searchParams.get('accountId') || undefined,
+      status: status as any,
+      type: type as any,
+      page: Number(searchParams.get('page')) || undefined,
+      pageSize: Number(searchParams.get('pageSize')) || undefined
+    })
+
+    // Account names for the account filter; credentials stay server-side
+    const accounts = (await channelsService.listChannelAccounts()).map(account => ({
+      id: account.id,
+      channel: account.channel,
+      shopName: account.shopName
+    }))
+
+    return NextResponse.json({
+      success: true,
+      jobs,
+      total,
+      accounts
+    })
+
+  } catch (error) {
+    console.error('[SyncJobs] Error listing jobs:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: JobActionRequest = await request.json()
+
+    const errors: string[] = []
+    if (!body.jobId) {
+      errors.push('jobId is required')
+    }
+    if (body.action !== 'retry' && body.action !== 'cancel') {
+      errors.push('action must be retry or cancel')
+    }
+
+    if (errors.length > 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid request',
+        details: errors
+      }, { status: 400 })
+    }
+
+    const done = body.action === 'retry'
+      ? await syncJobsService.retryJob(body.jobId)
+      : await syncJobsService.cancelJob(body.jobId)
+
+    if (!done) {
+      return NextResponse.json({
+        success: false,
+        error: body.action === 'retry' ? 'Retry failed' : 'Cancel failed',
+        details: body.action === 'retry'
+          ? `Job ${body.jobId} could not be reset for retry`
+          : `Job ${body.jobId} is not pending or running`
+      }, { status: 409 })
+    }
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('[SyncJobs] Error updating job:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+// =============================================================================
+// JOB DETAIL
+// =============================================================================
+
+async function getJobDetail(id: string, searchParams: URLSearchParams) {
+  const job = await syncJobsService.getJob(id)
+  if (!job) {
+    return NextResponse.json({
+      success: false,
+      error: 'Not found',
+      details: `Job ${id} not found`
+    }, { status: 404 })
+  }
+
+  const logsAfter = searchParams.get('logsAfter')
+
+  const [items, logs] = await Promise.all([
+    syncJobsService.getJobItems(id, {
+      status: searchParams.get('itemStatus') || undefined,
+      page: Number(searchParams.get('itemPage')) || undefined
+    }),
+    syncJobsService.getJobLogs(id, logsAfter ? new Date(logsAfter) : undefined)
+  ])
+
+  return NextResponse.json({
+    success: true,
+    job,
+    items,
+    logs
+  })
+}
@@ -0,0 +1,129 @@
+/**
+ * Sync Job Progress Stream
+ *
+ * GET /api/sync/jobs/stream?id=<job id>
+ *
+ * Streams a job's progress as Server-Sent Events. The first `progress` event
+ * is the job's current state; after that every event published by
+ * `update_job_progress` is forwarded as it is stored. The stream ends once the
+ * job is completed, failed or cancelled, or after STREAM_MAX_DURATION_MS, in
+ * which case EventSource reconnects and resumes from `Last-Event-ID`. An `end`
+ * event marks a finished job; `stream-error` reports a failed read.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { syncJobsService, JobProgressEvent } from '@/services/sync-jobs-service'
+
+// =============================================================================
+// STREAM SETTINGS
+// =============================================================================
+
+const POLL_INTERVAL_MS = 1000
+const STREAM_MAX_DURATION_MS = 5 * 60 * 1000
+
+const FINAL_STATUSES = ['completed', 'failed', 'cancelled']
+
+// =============================================================================
+// MAIN API HANDLER
+// =============================================================================
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const jobId = searchParams.get('id')
+
+  if (!jobId) {
+    return NextResponse.json({
+      success: false,
+      error: 'Invalid request',
+      details: ['id is required']
+    }, { status: 400 })
+  }
+
+  try {
+    const job = await syncJobsService.getJob(jobId)
+    if (!job) {
+      return NextResponse.json({
+        success: false,
+        error: 'Not found',
+        details: `Job ${jobId} not found`
+      }, { status: 404 })
+    }
+
+    const lastEventId = Number(request.headers.get('last-event-id')) || 0
+    const encoder = new TextEncoder()
+
+    const stream = new ReadableStream({
+      async start(controller) {
+        const send = (event: string, data: unknown, id?: number) => {
+          const lines = id !== undefined ? `id: ${id}\n` : ''
+          controller.enqueue(encoder.encode(`${lines}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+        }
+
+        const startedAt = Date.now()
+        let afterId = lastEventId
+        let done = FINAL_STATUSES.includes(job.status)
+
+        try {
+          // A reconnect first catches up on missed events; a fresh connection
+          // starts from the job's current state
+          if (lastEventId) {
+            for (const event of await syncJobsService.getProgressEvents(jobId, afterId)) {
+              send('progress', event, event.id)
+              afterId = event.id
+            }
+          } else {
+            const latest = await syncJobsService.getLatestProgress(jobId)
+            afterId = latest?.id || 0
+            send('progress', latest || {
+              jobId,
+              status: job.status,
+              totalItems: job.totalItems,
+              completedItems: job.completedItems,
+              failedItems: job.failedItems,
+              errorMessage: job.errorMessage,
+              createdAt: job.updatedAt
+            } as Partial<JobProgressEvent>, latest?.id)
+          }
+
+          while (!done && !request.signal.aborted && Date.now() - startedAt < STREAM_MAX_DURATION_MS) {
+            await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS))
+
+            const events = await syncJobsService.getProgressEvents(jobId, afterId)
+            for (const event of events) {
+              send('progress', event, event.id)
+              afterId = event.id
+              done = FINAL_STATUSES.includes(event.status)
+            }
+          }
+
+          if (done) {
+            send('end', { jobId })
+          }
+        } catch (error) {
+          console.error(`[JobStream] Error streaming job ${jobId}:`, error)
+          send('stream-error', { message: error instanceof Error ? error.message : 'Unknown error' })
+        } finally {
+          if (!request.signal.aborted) {
+            controller.close()
+          }
+        }
+      }
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive'
+      }
+    })
+
+  } catch (error) {
+    console.error(`[JobStream] Error opening stream for job ${jobId}:`, error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -5,9 +5,11 @@
  * 
  * Triggers pull jobs to fetch data from external platforms.
  * Supports pulling products, orders, stock levels, and other data.
+ * A retry with the same idempotency key replays the first response.
  */
 
 import { NextRequest, NextResponse } from 'next/server'
+import { withIdempotency } from '@/lib/idempotency'
 import { syncJobsService } from '@/services/sync-jobs-service'
 import { channelsService } from '@/services/channels-service'
 
@@ -20,9 +22,9 @@ interface SyncPullRequest {
   channel?: string
   accountId?: string
   options?: {
-    since?: string // ISO date string
+    since?: string // ISO date string; defaults to the account's sync watermark
     limit?: number
-    force?: boolean
+    force?: boolean // Pull everything instead of continuing from the watermark
     filters?: Record<string, any>
   }
   idempotencyKey?: string
@@ -53,7 +55,7 @@ interface SyncPullResponse {
 // MAIN API HANDLER
 // =============================================================================
 
-export async function POST(request: NextRequest) {
+async function triggerPull(request: NextRequest) {
   const startTime = Date.now()
   
   try {
@@ -103,6 +105,8 @@ export async function POST(request: NextRequest) {
   }
 }
 
+export const POST = withIdempotency(triggerPull)
+
 // =============================================================================
 // REQUEST VALIDATION
 // =============================================================================
@@ -260,7 +264,13 @@ async function createPullJob(
     priority: request.jobType === 'full' ? 'high' : 'normal'
   }
 
-  const jobId = await syncJobsService.queuePullJob('sync_pull', jobData as any)
+  const dataType = request.jobType === 'orders' ? 'orders' : 'products'
+  const jobId = await syncJobsService.queuePullJob(account.channel, dataType, {
+    ...jobData.data,
+    channelAccountId: account.id,
+    idempotencyKey: jobData.idempotencyKey,
+    priority: jobData.priority
+  })
   console.log(`[SyncPull] Created pull job ${jobId} for account ${account.id}`)
   
   return jobId
@@ -4,27 +4,31 @@
  * POST /api/sync/push
  * 
  * Triggers push jobs to send data to external platforms.
- * Supports pushing products, stock updates, price changes, and other data.
+ * Supports pushing products and the current stock and prices of their
+ * listings. Orders are owned by the platforms and can't be pushed.
+ * The IDs in `jobsCreated` can be followed live on /api/sync/jobs/stream.
+ * A retry with the same idempotency key replays the first response.
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { syncJobsService } from '@/services/sync-jobs-service'
+import { withIdempotency } from '@/lib/idempotency'
+import { syncJobsService, PushItem } from '@/services/sync-jobs-service'
 import { channelsService } from '@/services/channels-service'
-import { listingsService } from '@/services/listings-service'
+import { listingsService, Listing } from '@/services/listings-service'
 
 // =============================================================================
 // REQUEST/_RESPONSE TYPES
 // =============================================================================
 
 interface SyncPushRequest {
-  jobType: 'catalog' | 'stock' | 'prices' | 'orders' | 'full'
+  jobType: 'catalog' | 'stock' | 'prices' | 'full'
   data?: {
     productIds?: string[]
     listingIds?: string[]
-    orderIds?: string[]
     customData?: Record<string, any>
   }
   targetAccounts?: string[] // Specific accounts to push to
+  channels?: string[] // Only push to accounts of these channels
   options?: {
     force?: boolean
     batchSize?: number
@@ -61,7 +65,7 @@ interface SyncPushResponse {
 // MAIN API HANDLER
 // =============================================================================
 
-export async function POST(request: NextRequest) {
+async function triggerPush(request: NextRequest) {
   const startTime = Date.now()
   
   try {
@@ -112,6 +116,8 @@ export async function POST(request: NextRequest) {
   }
 }
 
+export const POST = withIdempotency(triggerPush)
+
 // =============================================================================
 // REQUEST VALIDATION
 // =============================================================================
@@ -123,8 +129,15 @@ function validateSyncPushRequest(body: any): {
   const errors: string[] = []
 
   // Check required fields
-  if (!body.jobType || !['catalog', 'stock', 'prices', 'orders', 'full'].includes(body.jobType)) {
-    errors.push('jobType must be one of: catalog, stock, prices, orders, full')
+  if (body.jobType === 'orders') {
+    errors.push('orders can\'t be pushed: they are pulled from the platforms')
+  } else if (!body.jobType || !['catalog', 'stock', 'prices', 'full'].includes(body.jobType)) {
+    errors.push('jobType must be one of: catalog, stock, prices, full')
+  }
+
+  // Stock and prices are pushed to listings
+  if ((body.jobType === 'stock' || body.jobType === 'prices') && !body.data?.productIds?.length && !body.data?.listingIds?.length) {
+    errors.push(`${body.jobType} pushes require productIds or listingIds`)
   }
 
   // Validate data if provided
@@ -149,6 +162,12 @@ function validateSyncPushRequest(body: any): {
     }
   }
 
+  if (body.channels) {
+    if (!Array.isArray(body.channels) || body.channels.some((channel: any) => typeof channel !== 'string')) {
+      errors.push('channels must be an array of strings')
+    }
+  }
+
   // Validate options if provided
   if (body.options) {
     if (body.options.batchSize && (typeof body.options.batchSize !== 'number' || body.options.batchSize < 1)) {
@@ -212,6 +231,11 @@ async function processSyncPush(
     }
   }
 
+  // Stock and price pushes carry the current values of the listings
+  const listings = request.jobType === 'stock' || request.jobType === 'prices'
+    ? await getPushListings(pushData.listingIds || [])
+    : []
+
   // Create jobs for each account
   for (const account of accounts) {
     try {
@@ -226,7 +250,7 @@ async function processSyncPush(
           itemsQueued: summary.totalItems
         })
       } else {
-        const jobId = await createPushJob(account, request, pushData, idempotencyKey)
+        const jobId = await createPushJob(account, request, pushData, listings)
         jobsCreated.push(jobId)
         summary.successful++
         summary.accountBreakdown.push({
@@ -266,6 +290,14 @@ async function processSyncPush(
 // =============================================================================
 
 async function getTargetAccounts(request: SyncPushRequest) {
+  const accounts = await getAccountsForJobType(request)
+
+  return request.channels && request.channels.length > 0
+    ? accounts.filter(acc => request.channels!.includes(acc.channel))
+    : accounts
+}
+
+async function getAccountsForJobType(request: SyncPushRequest) {
   // If specific accounts provided
   if (request.targetAccounts && request.targetAccounts.length > 0) {
     const accounts = []
@@ -315,11 +347,6 @@ async function getPushData(request: SyncPushRequest) {
     pushData.listingIds = listingIds
   }
 
-  // Get order IDs
-  if (request.data?.orderIds) {
-    pushData.orderIds = request.data.orderIds
-  }
-
   // Add custom data if provided
   if (request.data?.customData) {
     pushData.customData = Object.keys(request.data.customData)
@@ -328,6 +355,20 @@ async function getPushData(request: SyncPushRequest) {
   return pushData
 }
 
+async function getPushListings(listingIds: string[]): Promise<Listing[]> {
+  const listings: Listing[] = []
+
+  for (const listingId of listingIds) {
+    const listing = await listingsService.getListingById(listingId)
+    // Listings not published yet have nothing to update
+    if (listing?.platformListingId) {
+      listings.push(listing)
+    }
+  }
+
+  return listings
+}
+
 // =============================================================================
 // JOB CREATION
 // =============================================================================
@@ -336,28 +377,58 @@ async function createPushJob(
   account: any, 
   request: SyncPushRequest,
   pushData: Record<string, string[]>,
-  idempotencyKey?: string
+  listings: Listing[]
 ): Promise<string> {
-  const jobData = {
-    accountId: account.id,
-    jobType: request.jobType,
-    operation: 'push',
-    data: {
-      jobType: request.jobType,
-      channel: account.channel,
-      accountId: account.id,
-      accountName: account.shopName,
-      pushData,
-      options: request.options || {},
-      triggeredBy: 'api',
-      triggerTime: new Date().toISOString()
-    },
-    idempotencyKey: idempotencyKey ? `${idempotencyKey}_${account.id}_${request.jobType}` : undefined,
-    priority: request.options?.priority || 'normal'
+  const dataType = request.jobType === 'stock' ? 'stock' :
+                   request.jobType === 'prices' ? 'prices' : 'products'
+  const pushItems = dataType === 'products'
+    ? pushData.productIds || []
+    : getListingPushItems(listings.filter(listing => listing.channelAccountId === account.id), dataType)
+
+  if (pushItems.length === 0) {
+    throw new Error(`No published listings of this account to push ${request.jobType} to`)
   }
 
-  const jobId = await syncJobsService.queuePushJob('sync_push', jobData.jobType as any, jobData as any)
+  const jobId = await syncJobsService.queuePushJob(account.channel, dataType, pushItems, account.id, {
+    priority: request.options?.priority
+  })
   console.log(`[SyncPush] Created push job ${jobId} for account ${account.id}`)
   
   return jobId
-}
\ No newline at end of file
+}
+
+/**
+ * Stock or price push items of listings: one per listed variant, or one for
+ * the listing itself when it has no variants
+ */
+function getListingPushItems(listings: Listing[], dataType: 'stock' | 'prices'): PushItem[] {
+  const pushItems: PushItem[] = []
+
+  for (const listing of listings) {
+    const variants = (listing.variants || []).filter(variant => variant.platformVariantId)
+    const targets = variants.length > 0
+      ? variants.map(variant => ({
+          variantId: variant.variantId,
+          platformVariantId: variant.platformVariantId,
+          stock: variant.stock ?? listing.stock,
+          price: variant.price ?? listing.price
+        }))
+      : [{ variantId: undefined, platformVariantId: undefined, stock: listing.stock, price: listing.price }]
+
+    for (const target of targets) {
+      pushItems.push({
+        id: listing.platformListingId!,
+        data: {
+          listingId: listing.id,
+          variantId: target.variantId,
+          platformVariantId: target.platformVariantId,
+          ...(dataType === 'stock'
+            ? { stock: target.stock }
+            : { price: target.price, compareAtPrice: listing.compareAtPrice })
+        }
+      })
+    }
+  }
+
+  return pushItems
+}
@@ -0,0 +1,116 @@
+/**
+ * Sync Schedules API Route
+ *
+ * GET  /api/sync/schedules?branchId=<id>
+ * POST /api/sync/schedules
+ *
+ * Reads and saves the auto-sync settings of a branch (all accounts when no
+ * branch is given): the defaults every account follows, and per account
+ * whether it auto-syncs plus its last and next run.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  syncSchedulesService,
+  SyncScheduleSettings,
+  SYNC_FREQUENCIES,
+  SYNC_DATA_TYPES
+} from '@/services/sync-schedules-service'
+
+// =============================================================================
+// REQUEST/_RESPONSE TYPES
+// =============================================================================
+
+interface SaveSchedulesRequest {
+  branchId?: string
+  settings: SyncScheduleSettings
+  accounts?: Record<string, boolean> // Channel account ID → auto-sync enabled
+}
+
+// =============================================================================
+// MAIN API HANDLERS
+// =============================================================================
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const { defaults, accounts } = await syncSchedulesService.getSchedules(searchParams.get('branchId') || undefined)
+
+    return NextResponse.json({
+      success: true,
+      defaults,
+      accounts
+    })
+
+  } catch (error) {
+    console.error('[SyncSchedules] Error loading schedules:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: SaveSchedulesRequest = await request.json()
+
+    const errors = validateSettings(body.settings)
+    if (body.accounts && (typeof body.accounts !== 'object' || Object.values(body.accounts).some(value => typeof value !== 'boolean'))) {
+      errors.push('accounts must map account IDs to true or false')
+    }
+
+    if (errors.length > 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid request',
+        details: errors
+      }, { status: 400 })
+    }
+
+    const { defaults, accounts } = await syncSchedulesService.saveSchedules(
+      body.branchId,
+      body.settings,
+      body.accounts || {}
+    )
+
+    return NextResponse.json({
+      success: true,
+      defaults,
+      accounts
+    })
+
+  } catch (error) {
+    console.error('[SyncSchedules] Error saving schedules:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+// =============================================================================
+// REQUEST VALIDATION
+// =============================================================================
+
+function validateSettings(settings: any): string[] {
+  const errors: string[] = []
+
+  if (!settings || typeof settings !== 'object') {
+    return ['settings is required']
+  }
+
+  if (typeof settings.enabled !== 'boolean') {
+    errors.push('settings.enabled must be true or false')
+  }
+  if (!SYNC_FREQUENCIES.includes(settings.frequency)) {
+    errors.push(`settings.frequency must be one of: ${SYNC_FREQUENCIES.join(', ')}`)
+  }
+  if (!Array.isArray(settings.dataTypes) || settings.dataTypes.some((type: any) => !SYNC_DATA_TYPES.includes(type))) {
+    errors.push(`settings.dataTypes must only contain: ${SYNC_DATA_TYPES.join(', ')}`)
+  }
+
+  return errors
+}
@@ -0,0 +1,78 @@
+/**
+ * Sync Watermarks API Route
+ *
+ * GET    /api/sync/watermarks?accountId=<id>
+ * DELETE /api/sync/watermarks?accountId=<id>&dataType=products
+ *
+ * Lists how far each channel account's products and orders have been pulled,
+ * and resets an account's watermarks (one data type or all) so its next pull
+ * is a full resync.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { syncWatermarksService, WATERMARK_DATA_TYPES, WatermarkDataType } from '@/services/sync-watermarks-service'
+
+// =============================================================================
+// MAIN API HANDLERS
+// =============================================================================
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const accountId = searchParams.get('accountId')
+
+    const watermarks = await syncWatermarksService.listWatermarks(accountId ? [accountId] : undefined)
+
+    return NextResponse.json({
+      success: true,
+      watermarks
+    })
+
+  } catch (error) {
+    console.error('[SyncWatermarks] Error listing watermarks:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const accountId = searchParams.get('accountId')
+    const dataType = searchParams.get('dataType') || undefined
+
+    const errors: string[] = []
+    if (!accountId) {
+      errors.push('accountId is required')
+    }
+    if (dataType && !WATERMARK_DATA_TYPES.includes(dataType as WatermarkDataType)) {
+      errors.push(`dataType must be one of: ${WATERMARK_DATA_TYPES.join(', ')}`)
+    }
+
+    if (errors.length > 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid request',
+        details: errors
+      }, { status: 400 })
+    }
+
+    const reset = await syncWatermarksService.resetWatermarks(accountId!, dataType as WatermarkDataType | undefined)
+
+    return NextResponse.json({
+      success: true,
+      reset
+    })
+
+  } catch (error) {
+    console.error('[SyncWatermarks] Error resetting watermarks:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Account Warehouses API Route
+ *
+ * GET  /api/warehouses/accounts?accountId=<id>
+ * POST /api/warehouses/accounts
+ *
+ * Reads and sets the warehouses channel accounts sell from, in shipping
+ * order. An account lists no more than its warehouses hold, and its
+ * shipped orders take stock from them first. Accounts without warehouses
+ * sell from all stock.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { warehousesService } from '@/services/warehouses-service'
+
+// =============================================================================
+// REQUEST/_RESPONSE TYPES
+// =============================================================================
+
+interface SetAccountWarehousesRequest {
+  accountId: string
+  warehouseIds: string[] // Empty sells from all stock again
+}
+
+// =============================================================================
+// MAIN API HANDLERS
+// =============================================================================
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const accountId = searchParams.get('accountId')
+
+    const accountWarehouses = await warehousesService.getAccountWarehouses(accountId ? [accountId] : undefined)
+
+    return NextResponse.json({
+      success: true,
+      accountWarehouses
+    })
+
+  } catch (error) {
+    console.error('[AccountWarehouses] Error loading account warehouses:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: SetAccountWarehousesRequest = await request.json()
+
+    const errors: string[] = []
+    if (!body.accountId || typeof body.accountId !== 'string') {
+      errors.push('accountId is required')
+    }
+    if (!Array.isArray(body.warehouseIds) || body.warehouseIds.some(id => typeof id !== 'string')) {
+      errors.push('warehouseIds must be an array of warehouse IDs (empty sells from all stock)')
+    }
+
+    if (errors.length > 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid request',
+        details: errors
+      }, { status: 400 })
+    }
+
+    const accountWarehouses = await warehousesService.setAccountWarehouses(body.accountId, body.warehouseIds)
+
+    return NextResponse.json({
+      success: true,
+      accountWarehouses
+    })
+
+  } catch (error) {
+    console.error('[AccountWarehouses] Error saving account warehouses:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Warehouse Locations API Route
+ *
+ * POST   /api/warehouses/locations
+ * DELETE /api/warehouses/locations?id=<id>
+ *
+ * Adds a location (bin, shelf) to a warehouse and deletes one. Stock kept
+ * at a deleted location stays in its warehouse.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { warehousesService } from '@/services/warehouses-service'
+
+// =============================================================================
+// REQUEST/_RESPONSE TYPES
+// =============================================================================
+
+interface CreateLocationRequest {
+  warehouseId: string
+  code: string
+  name?: string
+}
+
+// =============================================================================
+// MAIN API HANDLERS
+// =============================================================================
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: CreateLocationRequest = await request.json()
+
+    const errors: string[] = []
+    if (!body.warehouseId || typeof body.warehouseId !== 'string') {
+      errors.push('warehouseId is required')
+    }
+    if (typeof body.code !== 'string' || !body.code.trim()) {
+      errors.push('code is required')
+    }
+
+    if (errors.length > 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid request',
+        details: errors
+      }, { status: 400 })
+    }
+
+    const location = await warehousesService.createLocation(body.warehouseId, {
+      code: body.code.trim(),
+      name: body.name?.trim()
+    })
+
+    return NextResponse.json({
+      success: true,
+      location
+    })
+
+  } catch (error) {
+    console.error('[WarehouseLocations] Error creating location:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const id = searchParams.get('id')
+
+    if (!id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid request',
+        details: ['id is required']
+      }, { status: 400 })
+    }
+
+    await warehousesService.deleteLocation(id)
+
+    return NextResponse.json({
+      success: true
+    })
+
+  } catch (error) {
+    console.error('[WarehouseLocations] Error deleting location:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Warehouses API Route
+ *
+ * GET    /api/warehouses?branchId=<id>
+ * POST   /api/warehouses
+ * PUT    /api/warehouses?id=<id>
+ * DELETE /api/warehouses?id=<id>
+ *
+ * Lists the warehouses of a branch (or all of them) with their locations,
+ * along with the branches they can belong to, and creates, updates and
+ * deletes them. A warehouse still holding stock can't be deleted.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { warehousesService, WarehouseData, WarehouseStatus } from '@/services/warehouses-service'
+
+const WAREHOUSE_STATUSES: WarehouseStatus[] = ['active', 'inactive']
+
+// =============================================================================
+// MAIN API HANDLERS
+// =============================================================================
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+
+    const [warehouses, branches] = await Promise.all([
+      warehousesService.listWarehouses(searchParams.get('branchId') || undefined),
+      warehousesService.listBranches()
+    ])
+
+    return NextResponse.json({
+      success: true,
+      warehouses,
+      branches
+    })
+
+  } catch (error) {
+    console.error('[Warehouses] Error listing warehouses:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: WarehouseData = await request.json()
+
+    const errors = validateWarehouse(body, true)
+    if (errors.length > 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid request',
+        details: errors
+      }, { status: 400 })
+    }
+
+    const warehouse = await warehousesService.createWarehouse({
+      branchId: body.branchId,
+      code: body.code.trim(),
+      name: body.name.trim(),
+      address: body.address,
+      isDefault: body.isDefault,
+      status: body.status
+    })
+
+    return NextResponse.json({
+      success: true,
+      warehouse
+    })
+
+  } catch (error) {
+    console.error('[Warehouses] Error creating warehouse:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const id = searchParams.get('id')
+    const body: Partial<WarehouseData> = await request.json()
+
+    const errors = validateWarehouse(body, false)
+    if (!id) {
+      errors.unshift('id is required')
+    }
+
+    if (errors.length > 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid request',
+        details: errors
+      }, { status: 400 })
+    }
+
+    const warehouse = await warehousesService.updateWarehouse(id!, {
+      code: body.code?.trim(),
+      name: body.name?.trim(),
+      address: body.address,
+      isDefault: body.isDefault,
+      status: body.status
+    })
+
+    return NextResponse.json({
+      success: true,
+      warehouse
+    })
+
+  } catch (error) {
+    console.error('[Warehouses] Error updating warehouse:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const id = searchParams.get('id')
+
+    if (!id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid request',
+        details: ['id is required']
+      }, { status: 400 })
+    }
+
+    await warehousesService.deleteWarehouse(id)
+
+    return NextResponse.json({
+      success: true
+    })
+
+  } catch (error) {
+    console.error('[Warehouses] Error deleting warehouse:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+function validateWarehouse(body: Partial<WarehouseData>, isCreate: boolean): string[] {
+  const errors: string[] = []
+
+  if (isCreate && (!body.branchId || typeof body.branchId !== 'string')) {
+    errors.push('branchId is required')
+  }
+  if ((isCreate || body.code !== undefined) && (typeof body.code !== 'string' || !body.code.trim())) {
+    errors.push('code is required')
+  }
+  if ((isCreate || body.name !== undefined) && (typeof body.name !== 'string' || !body.name.trim())) {
+    errors.push('name is required')
+  }
+  if (body.status !== undefined && !WAREHOUSE_STATUSES.includes(body.status)) {
+    errors.push(`status must be one of: ${WAREHOUSE_STATUSES.join(', ')}`)
+  }
+
+  return errors
+}
@@ -0,0 +1,93 @@
+/**
+ * Warehouse Stock API Route
+ *
+ * GET  /api/warehouses/stock?productIds=<id>,<id>
+ * POST /api/warehouses/stock
+ *
+ * Lists the stock each warehouse holds of products and their variants, and
+ * sets the location a product is kept at within its warehouse. Stock
+ * itself changes through inventory movements and transfers.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { warehousesService } from '@/services/warehouses-service'
+
+// =============================================================================
+// REQUEST/_RESPONSE TYPES
+// =============================================================================
+
+interface SetStockLocationRequest {
+  stockId: string
+  locationId: string | null
+}
+
+// =============================================================================
+// MAIN API HANDLERS
+// =============================================================================
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const productIds = (searchParams.get('productIds') || '').split(',').filter(Boolean)
+
+    if (productIds.length === 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid request',
+        details: ['productIds is required']
+      }, { status: 400 })
+    }
+
+    const stock = await warehousesService.getWarehouseStock(productIds)
+
+    return NextResponse.json({
+      success: true,
+      stock
+    })
+
+  } catch (error) {
+    console.error('[WarehouseStock] Error loading warehouse stock:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: SetStockLocationRequest = await request.json()
+
+    const errors: string[] = []
+    if (!body.stockId || typeof body.stockId !== 'string') {
+      errors.push('stockId is required')
+    }
+    if (body.locationId !== null && typeof body.locationId !== 'string') {
+      errors.push('locationId is required (null clears the location)')
+    }
+
+    if (errors.length > 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid request',
+        details: errors
+      }, { status: 400 })
+    }
+
+    const stock = await warehousesService.setStockLocation(body.stockId, body.locationId)
+
+    return NextResponse.json({
+      success: true,
+      stock
+    })
+
+  } catch (error) {
+    console.error('[WarehouseStock] Error setting stock location:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
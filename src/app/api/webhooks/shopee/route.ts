@@ -4,7 +4,10 @@
  * POST /api/webhooks/shopee
  * 
  * Handles incoming webhook events from Shopee platform.
- * Verifies HMAC signatures, processes events, and triggers appropriate sync jobs.
+ * Verifies HMAC signatures, processes events, and triggers appropriate sync jobs
+ * for the channel account that owns the event's shop.
+ * Order events reserve, take off hand and release central inventory
+ * (see `InventoryService`).
  * 
  * Supported Events:
  * - product.update
@@ -16,9 +19,9 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { createShopeeConnector } from '../../../../connectors/shopee'
-import { syncJobsService } from '../../../../services/sync-jobs-service'
-import { verifyShopeeSignature } from '../../../../connectors/shopee/client'
+import { syncJobsService } from '@/services/sync-jobs-service'
+import { inventoryService } from '@/services/inventory-service'
+import { verifyShopeeSignature } from '@/connectors/shopee/client'
 
 // =============================================================================
 // WEBHOOK EVENT TYPES
@@ -48,6 +51,7 @@ interface OrderCreatedEvent {
     item_sku: string
     variation_id: string
     variation_name: string
+    variation_quantity_purchased: number
     price: number
     weight: number
     wholesale_price: number
@@ -180,27 +184,27 @@ async function processWebhookEvent(event: ShopeeWebhookEvent): Promise<{
   try {
     switch (event.event) {
       case 'order.created':
-        await processOrderCreatedEvent(event.data as OrderCreatedEvent, createdJobs)
+        await processOrderCreatedEvent(event.data as OrderCreatedEvent, event.shop_id, createdJobs)
         break
 
       case 'order.updated':
-        await processOrderUpdatedEvent(event.data as OrderCreatedEvent, createdJobs)
+        await processOrderUpdatedEvent(event.data as OrderCreatedEvent, event.shop_id, createdJobs)
         break
 
       case 'order.cancelled':
-        await processOrderCancelledEvent(event.data as OrderCreatedEvent, createdJobs)
+        await processOrderCancelledEvent(event.data as OrderCreatedEvent, event.shop_id, createdJobs)
         break
 
       case 'product.update':
-        await processProductUpdateEvent(event.data as ProductUpdateEvent, createdJobs)
+        await processProductUpdateEvent(event.data as ProductUpdateEvent, event.shop_id, createdJobs)
         break
 
       case 'inventory.updated':
-        await processInventoryUpdateEvent(event.data as InventoryUpdateEvent, createdJobs)
+        await processInventoryUpdateEvent(event.data as InventoryUpdateEvent, event.shop_id, createdJobs)
         break
 
       case 'price.updated':
-        await processPriceUpdateEvent(event.data as ProductUpdateEvent, createdJobs)
+        await processPriceUpdateEvent(event.data as ProductUpdateEvent, event.shop_id, createdJobs)
         break
 
       default:
@@ -231,14 +235,27 @@ async function processWebhookEvent(event: ShopeeWebhookEvent): Promise<{
 /**
  * Process order created event
  */
-async function processOrderCreatedEvent(eventData: OrderCreatedEvent, createdJobs: string[]): Promise<void> {
+async function processOrderCreatedEvent(eventData: OrderCreatedEvent, shopId: string, createdJobs: string[]): Promise<void> {
   console.log(`[ShopeeWebhook] Processing order created: ${eventData.order_id}`)
 
   try {
+    // Reserve the ordered stock and push what is left to the other channels
+    createdJobs.push(...await inventoryService.reserveOrder(
+      { channel: 'shopee', shopId, orderId: eventData.order_sn },
+      eventData.order_items.map(item => ({
+        platformProductId: item.item_id,
+        platformVariantId: item.variation_id && item.variation_id !== '0' ? item.variation_id : undefined,
+        sku: item.item_sku,
+        quantity: item.variation_quantity_purchased
+      }))
+    ))
+
     // Queue pull job to get full order details
     const jobId = await syncJobsService.queuePullJob('shopee', 'orders', {
-      orderId: eventData.order_id,
-      eventType: 'created'
+      shopId,
+      orderId: eventData.order_sn,
+      eventType: 'created',
+      priority: 'urgent'
     })
     createdJobs.push(jobId)
 
@@ -246,9 +263,11 @@ async function processOrderCreatedEvent(eventData: OrderCreatedEvent, createdJob
     const productIds = eventData.order_items.map(item => item.item_id)
     if (productIds.length > 0) {
       const productJobId = await syncJobsService.queuePullJob('shopee', 'products', {
+        shopId,
         productIds,
         triggerEvent: 'order_created',
-        orderId: eventData.order_id
+        orderId: eventData.order_sn,
+        priority: 'urgent'
       })
       createdJobs.push(productJobId)
     }
@@ -264,22 +283,23 @@ async function processOrderCreatedEvent(eventData: OrderCreatedEvent, createdJob
 /**
  * Process order updated event
  */
-async function processOrderUpdatedEvent(eventData: OrderCreatedEvent, createdJobs: string[]): Promise<void> {
+async function processOrderUpdatedEvent(eventData: OrderCreatedEvent, shopId: string, createdJobs: string[]): Promise<void> {
   console.log(`[ShopeeWebhook] Processing order updated: ${eventData.order_id}`)
 
   try {
     // Queue pull job to get updated order details
     const jobId = await syncJobsService.queuePullJob('shopee', 'orders', {
-      orderId: eventData.order_id,
+      shopId,
+      orderId: eventData.order_sn,
       eventType: 'updated',
-      previousStatus: 'unknown' // Could be stored if needed
+      previousStatus: 'unknown', // Could be stored if needed
+      priority: 'urgent'
     })
     createdJobs.push(jobId)
 
-    // If status changed to shipped, we might want to update shipping info
+    // Shipped stock leaves the warehouse: take the reservation off hand
     if (eventData.order_status === 'shipped') {
-      // Could queue additional jobs for shipping integration
-      console.log(`[ShopeeWebhook] Order ${eventData.order_id} shipped - might trigger shipping jobs`)
+      createdJobs.push(...await inventoryService.commitOrder({ channel: 'shopee', shopId, orderId: eventData.order_sn }))
     }
 
   } catch (error) {
@@ -291,14 +311,19 @@ async function processOrderUpdatedEvent(eventData: OrderCreatedEvent, createdJob
 /**
  * Process order cancelled event
  */
-async function processOrderCancelledEvent(eventData: OrderCreatedEvent, createdJobs: string[]): Promise<void> {
+async function processOrderCancelledEvent(eventData: OrderCreatedEvent, shopId: string, createdJobs: string[]): Promise<void> {
   console.log(`[ShopeeWebhook] Processing order cancelled: ${eventData.order_id}`)
 
   try {
+    // Give the reserved stock back and push it to the other channels
+    createdJobs.push(...await inventoryService.releaseOrder({ channel: 'shopee', shopId, orderId: eventData.order_sn }))
+
     // Queue pull job to get cancellation details
     const jobId = await syncJobsService.queuePullJob('shopee', 'orders', {
-      orderId: eventData.order_id,
-      eventType: 'cancelled'
+      shopId,
+      orderId: eventData.order_sn,
+      eventType: 'cancelled',
+      priority: 'urgent'
     })
     createdJobs.push(jobId)
 
@@ -306,10 +331,12 @@ async function processOrderCancelledEvent(eventData: OrderCreatedEvent, createdJ
     const productIds = eventData.order_items.map(item => item.item_id)
     if (productIds.length > 0) {
       const inventoryJobId = await syncJobsService.queuePullJob('shopee', 'products', {
+        shopId,
         productIds,
         triggerEvent: 'order_cancelled',
-        orderId: eventData.order_id,
-        action: 'restore_inventory'
+        orderId: eventData.order_sn,
+        action: 'restore_inventory',
+        priority: 'urgent'
       })
       createdJobs.push(inventoryJobId)
     }
@@ -323,15 +350,17 @@ async function processOrderCancelledEvent(eventData: OrderCreatedEvent, createdJ
 /**
  * Process product update event
  */
-async function processProductUpdateEvent(eventData: ProductUpdateEvent, createdJobs: string[]): Promise<void> {
+async function processProductUpdateEvent(eventData: ProductUpdateEvent, shopId: string, createdJobs: string[]): Promise<void> {
   console.log(`[ShopeeWebhook] Processing product update: ${eventData.item_id}`)
 
   try {
     // Queue pull job to get full product details
     const jobId = await syncJobsService.queuePullJob('shopee', 'products', {
+      shopId,
       productId: eventData.item_id,
       eventType: 'updated',
-      updateTime: eventData.update_time
+      updateTime: eventData.update_time,
+      priority: 'urgent'
     })
     createdJobs.push(jobId)
 
@@ -347,17 +376,19 @@ async function processProductUpdateEvent(eventData: ProductUpdateEvent, createdJ
 /**
  * Process inventory update event
  */
-async function processInventoryUpdateEvent(eventData: InventoryUpdateEvent, createdJobs: string[]): Promise<void> {
+async function processInventoryUpdateEvent(eventData: InventoryUpdateEvent, shopId: string, createdJobs: string[]): Promise<void> {
   console.log(`[ShopeeWebhook] Processing inventory update: ${eventData.item_id}/${eventData.variation_id}`)
 
   try {
     // This is a stock update event, queue pull to get current inventory state
     const jobId = await syncJobsService.queuePullJob('shopee', 'products', {
+      shopId,
       productId: eventData.item_id,
       variationId: eventData.variation_id,
       eventType: 'inventory_updated',
       newStock: eventData.stock,
-      updateTime: eventData.update_time
+      updateTime: eventData.update_time,
+      priority: 'urgent'
     })
     createdJobs.push(jobId)
 
@@ -376,16 +407,18 @@ async function processInventoryUpdateEvent(eventData: InventoryUpdateEvent, crea
 /**
  * Process price update event
  */
-async function processPriceUpdateEvent(eventData: ProductUpdateEvent, createdJobs: string[]): Promise<void> {
+async function processPriceUpdateEvent(eventData: ProductUpdateEvent, shopId: string, createdJobs: string[]): Promise<void> {
   console.log(`[ShopeeWebhook] Processing price update: ${eventData.item_id}`)
 
   try {
     // Queue pull job to get full product details with updated pricing
     const jobId = await syncJobsService.queuePullJob('shopee', 'products', {
+      shopId,
       productId: eventData.item_id,
       eventType: 'price_updated',
       newPrice: eventData.price,
-      updateTime: eventData.update_time
+      updateTime: eventData.update_time,
+      priority: 'urgent'
     })
     createdJobs.push(jobId)
 
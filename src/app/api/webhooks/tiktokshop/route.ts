@@ -4,7 +4,9 @@
  * POST /api/webhooks/tiktokshop
  * 
  * Handles incoming webhook events from TikTok Shop platform.
- * Verifies signatures, processes events, and triggers appropriate sync jobs.
+ * Verifies HMAC signatures, processes events, and triggers appropriate sync jobs.
+ * Order events reserve, take off hand and release central inventory
+ * (see `InventoryService`).
  * 
  * Supported Events:
  * - order.created
@@ -17,6 +19,8 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { syncJobsService } from '@/services/sync-jobs-service'
+import { inventoryService } from '@/services/inventory-service'
+import { verifyTikTokShopSignature } from '@/connectors/tiktokshop/client'
 
 // =============================================================================
 // WEBHOOK EVENT TYPES
@@ -86,20 +90,6 @@ interface TikTokShopInventoryEvent {
   update_time: number
 }
 
-// =============================================================================
-// STANDALONE SIGNATURE VERIFICATION
-// =============================================================================
-
-/**
- * Verify TikTok Shop webhook signature (placeholder for now)
- * TODO: Implement when TikTok Shop connector is ready
- */
-function verifyTikTokShopSignature(payload: string, signature: string): boolean {
-  // For now, just return true - implement with TikTok Shop connector when ready
-  console.log('[TikTokShopWebhook] Signature verification not yet implemented')
-  return true
-}
-
 // =============================================================================
 // MAIN WEBHOOK HANDLER
 // =============================================================================
@@ -110,7 +100,8 @@ export async function POST(request: NextRequest) {
   try {
     // Get raw body for signature verification
     const rawBody = await request.text()
-    const signature = request.headers.get('x-tiktok-signature')
+    // TikTok Shop sends the signature in the Authorization header
+    const signature = request.headers.get('authorization') || request.headers.get('x-tiktok-signature')
     const appId = request.headers.get('x-tiktok-app-id')
     const timestamp = request.headers.get('x-tiktok-timestamp')
     
@@ -191,27 +182,27 @@ async function processWebhookEvent(event: TikTokShopWebhookEvent): Promise<{
   try {
     switch (event.event) {
       case 'order.created':
-        await processOrderCreatedEvent(event.data as TikTokShopOrderEvent, createdJobs)
+        await processOrderCreatedEvent(event.data as TikTokShopOrderEvent, event.shop_id, createdJobs)
         break
 
       case 'order.updated':
-        await processOrderUpdatedEvent(event.data as TikTokShopOrderEvent, createdJobs)
+        await processOrderUpdatedEvent(event.data as TikTokShopOrderEvent, event.shop_id, createdJobs)
         break
 
       case 'order.cancelled':
-        await processOrderCancelledEvent(event.data as TikTokShopOrderEvent, createdJobs)
+        await processOrderCancelledEvent(event.data as TikTokShopOrderEvent, event.shop_id, createdJobs)
         break
 
       case 'product.updated':
-        await processProductUpdateEvent(event.data as TikTokShopProductEvent, createdJobs)
+        await processProductUpdateEvent(event.data as TikTokShopProductEvent, event.shop_id, createdJobs)
         break
 
       case 'inventory.updated':
-        await processInventoryUpdateEvent(event.data as TikTokShopInventoryEvent, createdJobs)
+        await processInventoryUpdateEvent(event.data as TikTokShopInventoryEvent, event.shop_id, createdJobs)
         break
 
       case 'price.updated':
-        await processPriceUpdateEvent(event.data as TikTokShopProductEvent, createdJobs)
+        await processPriceUpdateEvent(event.data as TikTokShopProductEvent, event.shop_id, createdJobs)
         break
 
       default:
@@ -242,14 +233,27 @@ async function processWebhookEvent(event: TikTokShopWebhookEvent): Promise<{
 /**
  * Process order created event
  */
-async function processOrderCreatedEvent(eventData: TikTokShopOrderEvent, createdJobs: string[]): Promise<void> {
+async function processOrderCreatedEvent(eventData: TikTokShopOrderEvent, shopId: string, createdJobs: string[]): Promise<void> {
   console.log(`[TikTokShopWebhook] Processing order created: ${eventData.order_id}`)
 
   try {
+    // Reserve the ordered stock and push what is left to the other channels
+    createdJobs.push(...await inventoryService.reserveOrder(
+      { channel: 'tiktokshop', shopId, orderId: eventData.order_id },
+      eventData.items.map(item => ({
+        platformProductId: item.product_id,
+        platformVariantId: item.variation_id || undefined,
+        sku: item.product_sku,
+        quantity: item.quantity
+      }))
+    ))
+
     // Queue pull job to get full order details
     const jobId = await syncJobsService.queuePullJob('tiktokshop', 'orders', {
+      shopId,
       orderId: eventData.order_id,
-      eventType: 'created'
+      eventType: 'created',
+      priority: 'urgent'
     })
     createdJobs.push(jobId)
 
@@ -257,9 +261,11 @@ async function processOrderCreatedEvent(eventData: TikTokShopOrderEvent, created
     const productIds = eventData.items.map(item => item.product_id)
     if (productIds.length > 0) {
       const productJobId = await syncJobsService.queuePullJob('tiktokshop', 'products', {
+        shopId,
         productIds,
         triggerEvent: 'order_created',
-        orderId: eventData.order_id
+        orderId: eventData.order_id,
+        priority: 'urgent'
       })
       createdJobs.push(productJobId)
     }
@@ -275,21 +281,23 @@ async function processOrderCreatedEvent(eventData: TikTokShopOrderEvent, created
 /**
  * Process order updated event
  */
-async function processOrderUpdatedEvent(eventData: TikTokShopOrderEvent, createdJobs: string[]): Promise<void> {
+async function processOrderUpdatedEvent(eventData: TikTokShopOrderEvent, shopId: string, createdJobs: string[]): Promise<void> {
   console.log(`[TikTokShopWebhook] Processing order updated: ${eventData.order_id}`)
 
   try {
     // Queue pull job to get updated order details
     const jobId = await syncJobsService.queuePullJob('tiktokshop', 'orders', {
+      shopId,
       orderId: eventData.order_id,
       eventType: 'updated',
-      previousStatus: 'unknown'
+      previousStatus: 'unknown',
+      priority: 'urgent'
     })
     createdJobs.push(jobId)
 
-    // If status changed to shipped, we might want to update shipping info
+    // Shipped stock leaves the warehouse: take the reservation off hand
     if (eventData.order_status === 'shipped') {
-      console.log(`[TikTokShopWebhook] Order ${eventData.order_id} shipped - might trigger shipping jobs`)
+      createdJobs.push(...await inventoryService.commitOrder({ channel: 'tiktokshop', shopId, orderId: eventData.order_id }))
     }
 
   } catch (error) {
@@ -301,14 +309,19 @@ async function processOrderUpdatedEvent(eventData: TikTokShopOrderEvent, created
 /**
  * Process order cancelled event
  */
-async function processOrderCancelledEvent(eventData: TikTokShopOrderEvent, createdJobs: string[]): Promise<void> {
+async function processOrderCancelledEvent(eventData: TikTokShopOrderEvent, shopId: string, createdJobs: string[]): Promise<void> {
   console.log(`[TikTokShopWebhook] Processing order cancelled: ${eventData.order_id}`)
 
   try {
+    // Give the reserved stock back and push it to the other channels
+    createdJobs.push(...await inventoryService.releaseOrder({ channel: 'tiktokshop', shopId, orderId: eventData.order_id }))
+
     // Queue pull job to get cancellation details
     const jobId = await syncJobsService.queuePullJob('tiktokshop', 'orders', {
+      shopId,
       orderId: eventData.order_id,
-      eventType: 'cancelled'
+      eventType: 'cancelled',
+      priority: 'urgent'
     })
     createdJobs.push(jobId)
 
@@ -316,10 +329,12 @@ async function processOrderCancelledEvent(eventData: TikTokShopOrderEvent, creat
     const productIds = eventData.items.map(item => item.product_id)
     if (productIds.length > 0) {
       const inventoryJobId = await syncJobsService.queuePullJob('tiktokshop', 'products', {
+        shopId,
         productIds,
         triggerEvent: 'order_cancelled',
         orderId: eventData.order_id,
-        action: 'restore_inventory'
+        action: 'restore_inventory',
+        priority: 'urgent'
       })
       createdJobs.push(inventoryJobId)
     }
@@ -333,15 +348,17 @@ async function processOrderCancelledEvent(eventData: TikTokShopOrderEvent, creat
 /**
  * Process product update event
  */
-async function processProductUpdateEvent(eventData: TikTokShopProductEvent, createdJobs: string[]): Promise<void> {
+async function processProductUpdateEvent(eventData: TikTokShopProductEvent, shopId: string, createdJobs: string[]): Promise<void> {
   console.log(`[TikTokShopWebhook] Processing product update: ${eventData.product_id}`)
 
   try {
     // Queue pull job to get full product details
     const jobId = await syncJobsService.queuePullJob('tiktokshop', 'products', {
+      shopId,
       productId: eventData.product_id,
       eventType: 'updated',
-      updateTime: eventData.update_time
+      updateTime: eventData.update_time,
+      priority: 'urgent'
     })
     createdJobs.push(jobId)
 
@@ -354,17 +371,19 @@ async function processProductUpdateEvent(eventData: TikTokShopProductEvent, crea
 /**
  * Process inventory update event
  */
-async function processInventoryUpdateEvent(eventData: TikTokShopInventoryEvent, createdJobs: string[]): Promise<void> {
+async function processInventoryUpdateEvent(eventData: TikTokShopInventoryEvent, shopId: string, createdJobs: string[]): Promise<void> {
   console.log(`[TikTokShopWebhook] Processing inventory update: ${eventData.product_id}/${eventData.variation_id}`)
 
   try {
     // This is a stock update event, queue pull to get current inventory state
     const jobId = await syncJobsService.queuePullJob('tiktokshop', 'products', {
+      shopId,
       productId: eventData.product_id,
       variationId: eventData.variation_id,
       eventType: 'inventory_updated',
       newStock: eventData.stock,
-      updateTime: eventData.update_time
+      updateTime: eventData.update_time,
+      priority: 'urgent'
     })
     createdJobs.push(jobId)
 
@@ -382,16 +401,18 @@ async function processInventoryUpdateEvent(eventData: TikTokShopInventoryEvent,
 /**
  * Process price update event
  */
-async function processPriceUpdateEvent(eventData: TikTokShopProductEvent, createdJobs: string[]): Promise<void> {
+async function processPriceUpdateEvent(eventData: TikTokShopProductEvent, shopId: string, createdJobs: string[]): Promise<void> {
   console.log(`[TikTokShopWebhook] Processing price update: ${eventData.product_id}`)
 
   try {
     // Queue pull job to get full product details with updated pricing
     const jobId = await syncJobsService.queuePullJob('tiktokshop', 'products', {
+      shopId,
       productId: eventData.product_id,
       eventType: 'price_updated',
       newPrice: eventData.price,
-      updateTime: eventData.update_time
+      updateTime: eventData.update_time,
+      priority: 'urgent'
     })
     createdJobs.push(jobId)
 
@@ -0,0 +1,394 @@
+/**
+ * Tokopedia Webhook Handler
+ * 
+ * POST /api/webhooks/tokopedia
+ * 
+ * Handles incoming webhook events from Tokopedia platform.
+ * Verifies HMAC signatures, processes events, and triggers appropriate sync jobs.
+ * Order events reserve, take off hand and release central inventory
+ * (see `InventoryService`).
+ * 
+ * Supported Events:
+ * - order.created
+ * - order.updated
+ * - order.cancelled
+ * - product.updated
+ * - inventory.updated
+ * - price.updated
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { syncJobsService } from '@/services/sync-jobs-service'
+import { inventoryService } from '@/services/inventory-service'
+import { verifyTokopediaSignature } from '@/connectors/tokopedia/client'
+
+// =============================================================================
+// WEBHOOK EVENT TYPES
+// =============================================================================
+
+interface TokopediaWebhookEvent {
+  event: string
+  timestamp: number
+  data: any
+  shop_id: string
+  fs_id: string
+}
+
+interface TokopediaOrderEvent {
+  order_id: number
+  invoice_ref_num: string
+  order_status: number
+  create_time: number
+  products: Array<{
+    id: number
+    name: string
+    sku: string
+    quantity: number
+    price: number
+  }>
+}
+
+interface TokopediaProductEvent {
+  product_id: number
+  update_time: number
+  name: string
+  sku: string
+  price: number
+  stock: number
+  status: number
+}
+
+interface TokopediaInventoryEvent {
+  product_id: number
+  stock: number
+  update_time: number
+}
+
+// =============================================================================
+// MAIN WEBHOOK HANDLER
+// =============================================================================
+
+export async function POST(request: NextRequest) {
+  const startTime = Date.now()
+  
+  try {
+    // Get raw body for signature verification
+    const rawBody = await request.text()
+    const signature = request.headers.get('x-tokopedia-signature')
+    const fsId = request.headers.get('x-tokopedia-fs-id')
+    const timestamp = request.headers.get('x-tokopedia-timestamp')
+    
+    console.log('[TokopediaWebhook] Received webhook:', {
+      signature: signature?.substring(0, 16) + '...',
+      fsId,
+      timestamp,
+      bodyLength: rawBody.length
+    })
+
+    // Verify webhook signature
+    if (!verifyTokopediaSignature(rawBody, signature || '')) {
+      console.error('[TokopediaWebhook] Invalid signature')
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid signature'
+      }, { status: 401 })
+    }
+
+    // Parse webhook event
+    let event: TokopediaWebhookEvent
+    try {
+      event = JSON.parse(rawBody)
+    } catch (error) {
+      console.error('[TokopediaWebhook] Failed to parse JSON:', error)
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid JSON'
+      }, { status: 400 })
+    }
+
+    // Validate required fields
+    if (!event.event || !event.data || !event.shop_id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Missing required fields'
+      }, { status: 400 })
+    }
+
+    // Process webhook event
+    const result = await processWebhookEvent(event)
+
+    const processingTime = Date.now() - startTime
+    console.log(`[TokopediaWebhook] Processed ${event.event} in ${processingTime}ms`)
+
+    return NextResponse.json({
+      success: true,
+      event: event.event,
+      processed: result.processed,
+      createdJobs: result.createdJobs,
+      processingTime
+    })
+
+  } catch (error) {
+    console.error('[TokopediaWebhook] Processing error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+// =============================================================================
+// EVENT PROCESSING
+// =============================================================================
+
+/**
+ * Process webhook event based on type
+ */
+async function processWebhookEvent(event: TokopediaWebhookEvent): Promise<{
+  processed: boolean
+  createdJobs: string[]
+  message?: string
+}> {
+  const createdJobs: string[] = []
+
+  try {
+    switch (event.event) {
+      case 'order.created':
+        await processOrderCreatedEvent(event.data as TokopediaOrderEvent, event.shop_id, createdJobs)
+        break
+
+      case 'order.updated':
+        await processOrderUpdatedEvent(event.data as TokopediaOrderEvent, event.shop_id, createdJobs)
+        break
+
+      case 'order.cancelled':
+        await processOrderCancelledEvent(event.data as TokopediaOrderEvent, event.shop_id, createdJobs)
+        break
+
+      case 'product.updated':
+        await processProductUpdateEvent(event.data as TokopediaProductEvent, event.shop_id, createdJobs)
+        break
+
+      case 'inventory.updated':
+        await processInventoryUpdateEvent(event.data as TokopediaInventoryEvent, event.shop_id, createdJobs)
+        break
+
+      case 'price.updated':
+        await processPriceUpdateEvent(event.data as TokopediaProductEvent, event.shop_id, createdJobs)
+        break
+
+      default:
+        console.log(`[TokopediaWebhook] Unhandled event type: ${event.event}`)
+        return {
+          processed: false,
+          createdJobs,
+          message: `Event type ${event.event} not supported`
+        }
+    }
+
+    return {
+      processed: true,
+      createdJobs,
+      message: `Successfully processed ${event.event}`
+    }
+
+  } catch (error) {
+    console.error(`[TokopediaWebhook] Error processing ${event.event}:`, error)
+    throw error
+  }
+}
+
+// =============================================================================
+// SPECIFIC EVENT HANDLERS
+// =============================================================================
+
+/**
+ * Process order created event
+ */
+async function processOrderCreatedEvent(eventData: TokopediaOrderEvent, shopId: string, createdJobs: string[]): Promise<void> {
+  console.log(`[TokopediaWebhook] Processing order created: ${eventData.order_id}`)
+
+  try {
+    // Reserve the ordered stock and push what is left to the other channels
+    createdJobs.push(...await inventoryService.reserveOrder(
+      { channel: 'tokopedia', shopId, orderId: String(eventData.order_id) },
+      eventData.products.map(product => ({
+        platformProductId: String(product.id),
+        sku: product.sku,
+        quantity: product.quantity
+      }))
+    ))
+
+    // Queue pull job to get full order details
+    const jobId = await syncJobsService.queuePullJob('tokopedia', 'orders', {
+      shopId,
+      orderId: eventData.order_id,
+      eventType: 'created',
+      priority: 'urgent'
+    })
+    createdJobs.push(jobId)
+
+    // Also sync related products if needed
+    const productIds = eventData.products.map(product => product.id)
+    if (productIds.length > 0) {
+      const productJobId = await syncJobsService.queuePullJob('tokopedia', 'products', {
+        shopId,
+        productIds,
+        triggerEvent: 'order_created',
+        orderId: eventData.order_id,
+        priority: 'urgent'
+      })
+      createdJobs.push(productJobId)
+    }
+
+    console.log(`[TokopediaWebhook] Created jobs for order ${eventData.order_id}:`, createdJobs)
+
+  } catch (error) {
+    console.error(`[TokopediaWebhook] Error processing order created ${eventData.order_id}:`, error)
+    throw error
+  }
+}
+
+/**
+ * Process order updated event
+ */
+async function processOrderUpdatedEvent(eventData: TokopediaOrderEvent, shopId: string, createdJobs: string[]): Promise<void> {
+  console.log(`[TokopediaWebhook] Processing order updated: ${eventData.order_id}`)
+
+  try {
+    // Queue pull job to get updated order details
+    const jobId = await syncJobsService.queuePullJob('tokopedia', 'orders', {
+      shopId,
+      orderId: eventData.order_id,
+      eventType: 'updated',
+      previousStatus: 'unknown',
+      priority: 'urgent'
+    })
+    createdJobs.push(jobId)
+
+    // Status 500 is "order shipment" on Tokopedia; shipped stock leaves the warehouse
+    if (eventData.order_status === 500) {
+      createdJobs.push(...await inventoryService.commitOrder({ channel: 'tokopedia', shopId, orderId: String(eventData.order_id) }))
+    }
+
+  } catch (error) {
+    console.error(`[TokopediaWebhook] Error processing order updated ${eventData.order_id}:`, error)
+    throw error
+  }
+}
+
+/**
+ * Process order cancelled event
+ */
+async function processOrderCancelledEvent(eventData: TokopediaOrderEvent, shopId: string, createdJobs: string[]): Promise<void> {
+  console.log(`[TokopediaWebhook] Processing order cancelled: ${eventData.order_id}`)
+
+  try {
+    // Give the reserved stock back and push it to the other channels
+    createdJobs.push(...await inventoryService.releaseOrder({ channel: 'tokopedia', shopId, orderId: String(eventData.order_id) }))
+
+    // Queue pull job to get cancellation details
+    const jobId = await syncJobsService.queuePullJob('tokopedia', 'orders', {
+      shopId,
+      orderId: eventData.order_id,
+      eventType: 'cancelled',
+      priority: 'urgent'
+    })
+    createdJobs.push(jobId)
+
+    // Restore inventory if products were affected
+    const productIds = eventData.products.map(product => product.id)
+    if (productIds.length > 0) {
+      const inventoryJobId = await syncJobsService.queuePullJob('tokopedia', 'products', {
+        shopId,
+        productIds,
+        triggerEvent: 'order_cancelled',
+        orderId: eventData.order_id,
+        action: 'restore_inventory',
+        priority: 'urgent'
+      })
+      createdJobs.push(inventoryJobId)
+    }
+
+  } catch (error) {
+    console.error(`[TokopediaWebhook] Error processing order cancelled ${eventData.order_id}:`, error)
+    throw error
+  }
+}
+
+/**
+ * Process product update event
+ */
+async function processProductUpdateEvent(eventData: TokopediaProductEvent, shopId: string, createdJobs: string[]): Promise<void> {
+  console.log(`[TokopediaWebhook] Processing product update: ${eventData.product_id}`)
+
+  try {
+    // Queue pull job to get full product details
+    const jobId = await syncJobsService.queuePullJob('tokopedia', 'products', {
+      shopId,
+      productId: eventData.product_id,
+      eventType: 'updated',
+      updateTime: eventData.update_time,
+      priority: 'urgent'
+    })
+    createdJobs.push(jobId)
+
+  } catch (error) {
+    console.error(`[TokopediaWebhook] Error processing product update ${eventData.product_id}:`, error)
+    throw error
+  }
+}
+
+/**
+ * Process inventory update event
+ */
+async function processInventoryUpdateEvent(eventData: TokopediaInventoryEvent, shopId: string, createdJobs: string[]): Promise<void> {
+  console.log(`[TokopediaWebhook] Processing inventory update: ${eventData.product_id}`)
+
+  try {
+    // This is a stock update event, queue pull to get current inventory state
+    const jobId = await syncJobsService.queuePullJob('tokopedia', 'products', {
+      shopId,
+      productId: eventData.product_id,
+      eventType: 'inventory_updated',
+      newStock: eventData.stock,
+      updateTime: eventData.update_time,
+      priority: 'urgent'
+    })
+    createdJobs.push(jobId)
+
+    // Could trigger low stock alerts if stock falls below threshold
+    if (eventData.stock <= 10) {
+      console.log(`[TokopediaWebhook] Low stock alert for product ${eventData.product_id}: ${eventData.stock} units`)
+    }
+
+  } catch (error) {
+    console.error(`[TokopediaWebhook] Error processing inventory update ${eventData.product_id}:`, error)
+    throw error
+  }
+}
+
+/**
+ * Process price update event
+ */
+async function processPriceUpdateEvent(eventData: TokopediaProductEvent, shopId: string, createdJobs: string[]): Promise<void> {
+  console.log(`[TokopediaWebhook] Processing price update: ${eventData.product_id}`)
+
+  try {
+    // Queue pull job to get full product details with updated pricing
+    const jobId = await syncJobsService.queuePullJob('tokopedia', 'products', {
+      shopId,
+      productId: eventData.product_id,
+      eventType: 'price_updated',
+      newPrice: eventData.price,
+      updateTime: eventData.update_time,
+      priority: 'urgent'
+    })
+    createdJobs.push(jobId)
+
+  } catch (error) {
+    console.error(`[TokopediaWebhook] Error processing price update ${eventData.product_id}:`, error)
+    throw error
+  }
+}
\ No newline at end of file
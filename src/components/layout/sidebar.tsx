@@ -12,6 +12,7 @@ import {
   BarChart3,
   DollarSign,
   Settings,
+  RefreshCw,
   ChevronDown,
   ChevronRight,
   Store,
@@ -52,6 +53,16 @@ const navigation = [
     href: '/finance',
     icon: DollarSign,
   },
+  {
+    name: 'Sync',
+    href: '/sync',
+    icon: RefreshCw,
+    children: [
+      { name: 'Monitor', href: '/sync' },
+      { name: 'Conflicts', href: '/sync/conflicts' },
+      { name: 'Dead Letters', href: '/sync/dead-letters' },
+    ],
+  },
   {
     name: 'Settings',
     href: '/settings',
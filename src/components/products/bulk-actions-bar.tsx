@@ -20,7 +20,7 @@ import { PlatformType } from '@/types/product'
 
 interface BulkActionsBarProps {
   selectedCount: number
-  onBulkPublish: (platform: string) => void
+  onBulkPublish: (platform: string) => Promise<void>
   onBulkDelete: () => void
 }
 
@@ -64,12 +64,12 @@ export function BulkActionsBar({
 
   const handlePublish = async (platform: string) => {
     setPublishing(platform)
-    
-    // Simulate API call
-    setTimeout(() => {
-      onBulkPublish(platform)
+    try {
+      // Queues push jobs; their progress is shown in job progress toasts
+      await onBulkPublish(platform)
+    } finally {
       setPublishing(null)
-    }, 1500)
+    }
   }
 
   const handleDelete = () => {
@@ -180,7 +180,7 @@ export function BulkActionsBar({
             <div className="flex items-center space-x-2">
               <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600" />
               <span className="text-sm font-medium text-blue-900">
-                Publishing {selectedCount} products to {platformActions.find(p => p.id === publishing)?.name}...
+                Queueing {selectedCount} products for {platformActions.find(p => p.id === publishing)?.name}...
               </span>
             </div>
             <Badge variant="secondary" className="text-blue-700">
@@ -0,0 +1,127 @@
+'use client'
+
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { ChannelAttribute } from '@/connectors/types'
+
+type AttributeValue = string | string[]
+
+interface ChannelAttributeFieldsProps {
+  idPrefix: string
+  attributes: ChannelAttribute[]
+  values: Record<string, AttributeValue>
+  onChange: (attributeId: string, value: AttributeValue) => void
+}
+
+/**
+ * Renders inputs for a marketplace category's attribute schema.
+ * Select values are stored as option IDs, everything else as text.
+ */
+export function ChannelAttributeFields({ idPrefix, attributes, values, onChange }: ChannelAttributeFieldsProps) {
+  // Mandatory attributes first so they are not missed in long schemas
+  const sortedAttributes = [...attributes].sort((a, b) => Number(b.required) - Number(a.required))
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {sortedAttributes.map((attribute) => {
+        const id = `${idPrefix}-attribute-${attribute.id}`
+        const label = attribute.displayName || attribute.name
+        const value = values[attribute.id]
+
+        return (
+          <div key={attribute.id} className={attribute.inputType === 'multi_select' ? 'md:col-span-2' : undefined}>
+            <Label htmlFor={id}>
+              {label}{attribute.required ? ' *' : ''}
+              {attribute.units && (
+                <span className="ml-1 text-xs text-gray-500">({attribute.units.join(' / ')})</span>
+              )}
+            </Label>
+            {renderInput(id, attribute, value, (next) => onChange(attribute.id, next))}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+function renderInput(
+  id: string,
+  attribute: ChannelAttribute,
+  value: AttributeValue | undefined,
+  onChange: (value: AttributeValue) => void
+) {
+  const options = attribute.options || []
+
+  switch (attribute.inputType) {
+    case 'select':
+      // Combo boxes accept free text; typed option names are stored as their ID
+      if (attribute.allowCustomValue) {
+        const optionName = options.find(option => option.id === value)?.name
+        return (
+          <>
+            <Input
+              id={id}
+              list={`${id}-options`}
+              value={optionName || (value as string) || ''}
+              onChange={(e) => {
+                const match = options.find(option => option.name === e.target.value)
+                onChange(match ? match.id : e.target.value)
+              }}
+              placeholder="Select or type a value"
+            />
+            <datalist id={`${id}-options`}>
+              {options.map((option) => (
+                <option key={option.id} value={option.name} />
+              ))}
+            </datalist>
+          </>
+        )
+      }
+
+      return (
+        <Select value={(value as string) || undefined} onValueChange={onChange}>
+          <SelectTrigger id={id}>
+            <SelectValue placeholder="Select value" />
+          </SelectTrigger>
+          <SelectContent>
+            {options.map((option) => (
+              <SelectItem key={option.id} value={option.id}>
+                {option.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )
+
+    case 'multi_select': {
+      const selected = Array.isArray(value) ? value : value ? [value] : []
+      return (
+        <div id={id} className="mt-2 grid grid-cols-2 md:grid-cols-3 gap-2 max-h-40 overflow-y-auto">
+          {options.map((option) => (
+            <label key={option.id} className="flex items-center space-x-2 text-sm">
+              <Checkbox
+                checked={selected.includes(option.id)}
+                onCheckedChange={(checked) => onChange(
+                  checked ? [...selected, option.id] : selected.filter(optionId => optionId !== option.id)
+                )}
+              />
+              <span>{option.name}</span>
+            </label>
+          ))}
+        </div>
+      )
+    }
+
+    default:
+      return (
+        <Input
+          id={id}
+          type={attribute.inputType === 'number' ? 'number' : attribute.inputType === 'date' ? 'date' : 'text'}
+          value={(value as string) || ''}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      )
+  }
+}
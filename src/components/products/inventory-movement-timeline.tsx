@@ -0,0 +1,146 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { RefreshCw } from 'lucide-react'
+import { format, formatDistanceToNow } from 'date-fns'
+
+interface InventoryMovementTimelineProps {
+  productId: string
+}
+
+interface MovementRow {
+  id: string
+  variantId?: string
+  warehouse?: { code: string; name: string }
+  transferId?: string
+  delta: number
+  balance: number
+  reason: 'restock' | 'sale' | 'adjustment' | 'damage' | 'return' | 'transfer'
+  source: 'user' | 'webhook' | 'sync'
+  jobId?: string
+  actor?: string
+  reference?: string
+  note?: string
+  createdAt: string
+}
+
+const reasonLabels: Record<MovementRow['reason'], string> = {
+  restock: 'Restock',
+  sale: 'Sale',
+  adjustment: 'Adjustment',
+  damage: 'Damage',
+  return: 'Return',
+  transfer: 'Transfer',
+}
+
+const sourceLabels: Record<MovementRow['source'], string> = {
+  user: 'User',
+  webhook: 'Webhook',
+  sync: 'Sync',
+}
+
+const PAGE_SIZE = 20
+
+export function InventoryMovementTimeline({ productId }: InventoryMovementTimelineProps) {
+  const [movements, setMovements] = useState<MovementRow[]>([])
+  const [total, setTotal] = useState(0)
+  const [page, setPage] = useState(1)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const loadMovements = useCallback(async (nextPage: number) => {
+    setIsLoading(true)
+    try {
+      const params = new URLSearchParams({ productId, page: String(nextPage), pageSize: String(PAGE_SIZE) })
+      const response = await fetch(`/api/inventory/movements?${params}`)
+      const data = await response.json()
+
+      if (data.success) {
+        setMovements(prev => nextPage === 1 ? data.movements : [...prev, ...data.movements])
+        setTotal(data.pagination.total)
+        setPage(nextPage)
+      }
+    } finally {
+      setIsLoading(false)
+    }
+  }, [productId])
+
+  useEffect(() => {
+    loadMovements(1)
+  }, [loadMovements])
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Stock Movements</CardTitle>
+          <Button variant="ghost" size="sm" onClick={() => loadMovements(1)} disabled={isLoading}>
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+        <CardDescription>Every change to this product&apos;s stock, newest first</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {movements.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-4">
+            {isLoading ? 'Loading...' : 'No stock movements yet'}
+          </p>
+        ) : (
+          <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+            {movements.map((movement) => (
+              <li key={movement.id} className="ml-4">
+                <span
+                  className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border-2 border-white ${
+                    movement.delta > 0 ? 'bg-green-500' : 'bg-red-500'
+                  }`}
+                />
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <span className={`font-semibold ${movement.delta > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {movement.delta > 0 ? '+' : ''}{movement.delta}
+                    </span>
+                    <span className="text-sm text-gray-900">{reasonLabels[movement.reason]}</span>
+                  </div>
+                  <span className="text-sm text-gray-600">→ {movement.balance}</span>
+                </div>
+                <div className="flex flex-wrap items-center gap-2 mt-1">
+                  <Badge variant="outline">{sourceLabels[movement.source]}</Badge>
+                  {movement.warehouse ? (
+                    <Badge variant="secondary" title={movement.warehouse.name}>{movement.warehouse.code}</Badge>
+                  ) : movement.transferId && (
+                    <Badge variant="secondary">Unassigned</Badge>
+                  )}
+                  {movement.actor && <span className="text-xs text-gray-600">{movement.actor}</span>}
+                  {movement.variantId && <span className="text-xs text-gray-500">Variant</span>}
+                </div>
+                {(movement.note || movement.reference) && (
+                  <p className="text-xs text-gray-600 mt-1">
+                    {[movement.reference && `#${movement.reference}`, movement.note].filter(Boolean).join(' · ')}
+                  </p>
+                )}
+                <p className="text-xs text-gray-400 mt-1" title={format(new Date(movement.createdAt), 'dd MMM yyyy HH:mm:ss')}>
+                  {formatDistanceToNow(new Date(movement.createdAt), { addSuffix: true })}
+                  {movement.jobId && ` · Job ${movement.jobId}`}
+                </p>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        {movements.length < total && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full mt-4"
+            onClick={() => loadMovements(page + 1)}
+            disabled={isLoading}
+          >
+            Load more ({total - movements.length})
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
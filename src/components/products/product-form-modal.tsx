@@ -11,7 +11,11 @@ import { Checkbox } from '@/components/ui/checkbox'
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
 import { Badge } from '@/components/ui/badge'
 import { X, Plus, Upload, Eye } from 'lucide-react'
-import { Product, ProductStatus, PlatformType } from '@/types/product'
+import { Product, ProductStatus, PlatformType, ProductOption, ProductVariant } from '@/types/product'
+import { ChannelAttribute } from '@/connectors/types'
+import { ChannelAttributeFields } from '@/components/products/channel-attribute-fields'
+import { ProductVariantsEditor } from '@/components/products/product-variants-editor'
+import { summarizeVariants } from '@/domain/mapping/variants'
 import { useForm } from 'react-hook-form'
 
 interface ProductFormData {
@@ -68,10 +72,22 @@ const commonCategories = [
   'Office & Business',
 ]
 
+// Markets whose category attributes can be loaded for the product
+const attributeMarkets = ['ID', 'SG', 'MY', 'TH', 'VN', 'PH']
+
+type AttributeValues = Record<string, string | string[]>
+
 export function ProductFormModal({ product, onSave, onCancel }: ProductFormModalProps) {
-  const [activeTab, setActiveTab] = useState<'basic' | 'platforms' | 'preview'>('basic')
+  const [activeTab, setActiveTab] = useState<'basic' | 'variants' | 'platforms' | 'preview'>('basic')
   const [platforms, setPlatforms] = useState<PlatformType[]>(['shopee'])
   const [isSubmitting, setIsSubmitting] = useState(false)
+  const [attributeMarket, setAttributeMarket] = useState('ID')
+  const [attributeSchemas, setAttributeSchemas] = useState<Partial<Record<PlatformType, ChannelAttribute[]>>>({})
+  const [attributeValues, setAttributeValues] = useState<Partial<Record<PlatformType, AttributeValues>>>(() =>
+    Object.fromEntries((product?.platforms || []).map(p => [p.platform, p.attributes || {}]))
+  )
+  const [options, setOptions] = useState<ProductOption[]>(product?.options || [])
+  const [variants, setVariants] = useState<ProductVariant[]>(product?.variants || [])
 
   const {
     register,
@@ -97,6 +113,7 @@ export function ProductFormModal({ product, onSave, onCancel }: ProductFormModal
 
   const watchedPrice = watch('price')
   const watchedPlatforms = watch('platforms')
+  const watchedCategory = watch('category')
 
   useEffect(() => {
     if (product) {
@@ -113,6 +130,43 @@ export function ProductFormModal({ product, onSave, onCancel }: ProductFormModal
     }
   }, [product, setValue])
 
+  // Load the attribute schema of each platform's mapped category
+  useEffect(() => {
+    if (!watchedCategory) {
+      setAttributeSchemas({})
+      return
+    }
+
+    let cancelled = false
+
+    Promise.all(platforms.map(async (platform) => {
+      const params = new URLSearchParams({ channel: platform, market: attributeMarket, category: watchedCategory })
+      const response = await fetch(`/api/catalog/categories/attributes?${params}`)
+      const data = await response.json()
+      return [platform, data.schema?.attributes] as const
+    }))
+      .then(entries => {
+        if (!cancelled) {
+          setAttributeSchemas(Object.fromEntries(entries.filter(([, attributes]) => attributes)))
+        }
+      })
+      .catch(error => console.error('Error loading attribute schemas:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [platforms, watchedCategory, attributeMarket])
+
+  const updateAttribute = (platform: PlatformType, attributeId: string, value: string | string[]) => {
+    setAttributeValues(prev => ({
+      ...prev,
+      [platform]: {
+        ...prev[platform],
+        [attributeId]: value,
+      }
+    }))
+  }
+
   const onSubmit = async (data: ProductFormData) => {
     setIsSubmitting(true)
 
@@ -130,12 +184,17 @@ export function ProductFormModal({ product, onSave, onCancel }: ProductFormModal
         title: data.platforms?.find(p => p.platform === platform)?.title,
         price: data.platforms?.find(p => p.platform === platform)?.price,
         description: data.platforms?.find(p => p.platform === platform)?.description,
+        attributes: attributeValues[platform],
       }))
 
+      // Variant products list their lowest price and total stock
       onSave({
         ...data,
+        ...(variants.length > 0 && summarizeVariants(variants)),
         platforms: platformData,
         compareAtPrice: data.compareAtPrice || undefined,
+        options: variants.length > 0 ? options : [],
+        variants,
       })
     } catch (error) {
       console.error('Error saving product:', error)
@@ -191,6 +250,17 @@ export function ProductFormModal({ product, onSave, onCancel }: ProductFormModal
             >
               Basic Info
             </button>
+            <button
+              type="button"
+              onClick={() => setActiveTab('variants')}
+              className={`flex-1 py-2 px-4 text-sm font-medium rounded-md transition-colors ${
+                activeTab === 'variants'
+                  ? 'bg-white text-gray-900 shadow-sm'
+                  : 'text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              Variants{variants.length > 0 ? ` (${variants.length})` : ''}
+            </button>
             <button
               type="button"
               onClick={() => setActiveTab('platforms')}
@@ -301,6 +371,11 @@ export function ProductFormModal({ product, onSave, onCancel }: ProductFormModal
                   {errors.stock && (
                     <p className="text-sm text-red-600 mt-1">{errors.stock.message}</p>
                   )}
+                  {variants.length > 0 && (
+                    <p className="text-sm text-gray-500 mt-1">
+                      Price and stock are set per variant
+                    </p>
+                  )}
                 </div>
 
                 <div>
@@ -391,6 +466,23 @@ export function ProductFormModal({ product, onSave, onCancel }: ProductFormModal
             </div>
           )}
 
+          {/* Variants Tab */}
+          {activeTab === 'variants' && (
+            <ProductVariantsEditor
+              options={options}
+              variants={variants}
+              defaults={{
+                sku: watch('sku'),
+                price: Number(watchedPrice) || 0,
+                stock: Number(watch('stock')) || 0,
+              }}
+              onChange={(nextOptions, nextVariants) => {
+                setOptions(nextOptions)
+                setVariants(nextVariants)
+              }}
+            />
+          )}
+
           {/* Platform Settings Tab */}
           {activeTab === 'platforms' && (
             <div className="space-y-6">
@@ -437,7 +529,24 @@ export function ProductFormModal({ product, onSave, onCancel }: ProductFormModal
               {/* Platform-specific settings */}
               {platforms.length > 0 && (
                 <div className="space-y-4">
-                  <Label>Platform-Specific Settings</Label>
+                  <div className="flex items-center justify-between">
+                    <Label>Platform-Specific Settings</Label>
+                    <div className="flex items-center space-x-2">
+                      <Label htmlFor="attribute-market" className="text-sm text-gray-600">Attribute Market</Label>
+                      <Select value={attributeMarket} onValueChange={setAttributeMarket}>
+                        <SelectTrigger id="attribute-market" className="w-24">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {attributeMarkets.map((market) => (
+                            <SelectItem key={market} value={market}>
+                              {market}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
                   {platforms.map((platform) => {
                     const platformConfig = platformOptions.find(p => p.value === platform)
                     return (
@@ -469,6 +578,18 @@ export function ProductFormModal({ product, onSave, onCancel }: ProductFormModal
                             />
                           </div>
                         </div>
+
+                        {attributeSchemas[platform] && (
+                          <div className="mt-4 pt-4 border-t">
+                            <h4 className="text-sm font-medium text-gray-900 mb-3">Category Attributes</h4>
+                            <ChannelAttributeFields
+                              idPrefix={platform}
+                              attributes={attributeSchemas[platform]!}
+                              values={attributeValues[platform] || {}}
+                              onChange={(attributeId, value) => updateAttribute(platform, attributeId, value)}
+                            />
+                          </div>
+                        )}
                       </Card>
                     )
                   })}
@@ -518,6 +639,14 @@ export function ProductFormModal({ product, onSave, onCancel }: ProductFormModal
                             <span className="font-medium">Category: </span>
                             <span className="text-gray-600">{watch('category')}</span>
                           </div>
+                          {variants.length > 0 && (
+                            <div>
+                              <span className="font-medium">Variants: </span>
+                              <span className="text-gray-600">
+                                {variants.length} ({options.filter(option => option.values.length > 0).map(option => option.name).join(' / ')})
+                              </span>
+                            </div>
+                          )}
                         </div>
                       </Card>
                     )
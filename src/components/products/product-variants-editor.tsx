@@ -0,0 +1,160 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Plus, Trash2 } from 'lucide-react'
+import { ProductOption, ProductVariant } from '@/types/product'
+import { buildVariantMatrix } from '@/domain/mapping/variants'
+
+interface ProductVariantsEditorProps {
+  options: ProductOption[]
+  variants: ProductVariant[]
+  defaults: { sku: string; price: number; stock: number }
+  onChange: (options: ProductOption[], variants: ProductVariant[]) => void
+}
+
+// Shopee allows two tier variations, TikTok Shop three sales attributes
+const MAX_OPTIONS = 3
+
+/**
+ * Edits option axes (size, colour) and the price, stock, SKU and image of
+ * each resulting option combination.
+ */
+export function ProductVariantsEditor({ options, variants, defaults, onChange }: ProductVariantsEditorProps) {
+  // Raw comma-separated values, kept while typing so trailing commas survive
+  const [valueDrafts, setValueDrafts] = useState<string[]>(() => options.map(option => option.values.join(', ')))
+
+  const updateOptions = (nextOptions: ProductOption[]) => {
+    onChange(nextOptions, buildVariantMatrix(nextOptions, variants, defaults))
+  }
+
+  const updateOptionName = (index: number, name: string) => {
+    updateOptions(options.map((option, i) => i === index ? { ...option, name } : option))
+  }
+
+  const updateOptionValues = (index: number, draft: string) => {
+    setValueDrafts(prev => prev.map((value, i) => i === index ? draft : value))
+    const values = Array.from(new Set(draft.split(',').map(value => value.trim()).filter(Boolean)))
+    updateOptions(options.map((option, i) => i === index ? { ...option, values } : option))
+  }
+
+  const addOption = () => {
+    setValueDrafts(prev => [...prev, ''])
+    updateOptions([...options, { name: '', values: [] }])
+  }
+
+  const removeOption = (index: number) => {
+    setValueDrafts(prev => prev.filter((_, i) => i !== index))
+    updateOptions(options.filter((_, i) => i !== index))
+  }
+
+  const updateVariant = (id: string, updates: Partial<ProductVariant>) => {
+    onChange(options, variants.map(variant => variant.id === id ? { ...variant, ...updates } : variant))
+  }
+
+  const activeOptions = options.filter(option => option.name && option.values.length > 0)
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <Label>Options</Label>
+            <p className="text-sm text-gray-600 mt-1">
+              Add size, colour or other options; one variant is created per combination
+            </p>
+          </div>
+          <Button type="button" variant="outline" size="sm" onClick={addOption} disabled={options.length >= MAX_OPTIONS}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Option
+          </Button>
+        </div>
+
+        {options.map((option, index) => (
+          <div key={index} className="grid grid-cols-1 md:grid-cols-[1fr_2fr_auto] gap-3 items-end">
+            <div>
+              <Label htmlFor={`option-name-${index}`}>Option Name</Label>
+              <Input
+                id={`option-name-${index}`}
+                value={option.name}
+                onChange={(e) => updateOptionName(index, e.target.value)}
+                placeholder="e.g. Colour"
+              />
+            </div>
+            <div>
+              <Label htmlFor={`option-values-${index}`}>Values</Label>
+              <Input
+                id={`option-values-${index}`}
+                value={valueDrafts[index] ?? ''}
+                onChange={(e) => updateOptionValues(index, e.target.value)}
+                placeholder="Comma separated, e.g. Black, White"
+              />
+            </div>
+            <Button type="button" variant="ghost" size="sm" onClick={() => removeOption(index)}>
+              <span className="sr-only">Remove option</span>
+              <Trash2 className="w-4 h-4 text-red-600" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      {variants.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-gray-600">
+                {activeOptions.map(option => (
+                  <th key={option.name} className="py-2 pr-3 font-medium">{option.name}</th>
+                ))}
+                <th className="py-2 pr-3 font-medium">SKU</th>
+                <th className="py-2 pr-3 font-medium">Price (Rp)</th>
+                <th className="py-2 pr-3 font-medium">Stock</th>
+                <th className="py-2 font-medium">Image URL</th>
+              </tr>
+            </thead>
+            <tbody>
+              {variants.map(variant => (
+                <tr key={variant.id} className="border-b last:border-0">
+                  {activeOptions.map(option => (
+                    <td key={option.name} className="py-2 pr-3 whitespace-nowrap">{variant.options[option.name]}</td>
+                  ))}
+                  <td className="py-2 pr-3">
+                    <Input
+                      value={variant.sku}
+                      onChange={(e) => updateVariant(variant.id, { sku: e.target.value })}
+                    />
+                  </td>
+                  <td className="py-2 pr-3">
+                    <Input
+                      type="number"
+                      min={0}
+                      value={variant.price}
+                      onChange={(e) => updateVariant(variant.id, { price: Number(e.target.value) })}
+                    />
+                  </td>
+                  <td className="py-2 pr-3">
+                    <Input
+                      type="number"
+                      min={0}
+                      value={variant.stock}
+                      onChange={(e) => updateVariant(variant.id, { stock: Number(e.target.value) })}
+                    />
+                  </td>
+                  <td className="py-2">
+                    <Input
+                      value={variant.image || ''}
+                      onChange={(e) => updateVariant(variant.id, { image: e.target.value || undefined })}
+                      placeholder="Optional"
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
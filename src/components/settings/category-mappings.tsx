@@ -0,0 +1,277 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  FolderTree,
+  RefreshCw,
+  Search,
+  Save,
+  Trash2,
+  AlertTriangle,
+  ArrowRight,
+  ListChecks
+} from 'lucide-react'
+
+interface CategoryMappingsProps {}
+
+interface CategoryOption {
+  categoryId: string
+  name: string
+  displayName?: string
+}
+
+interface MappingRow {
+  id: string
+  market: string
+  internalCategory: string
+  channelCategoryId: string
+  channelCategoryName?: string
+  valid: boolean
+}
+
+const markets = [
+  { value: 'ID', label: 'Indonesia' },
+  { value: 'SG', label: 'Singapore' },
+  { value: 'MY', label: 'Malaysia' },
+  { value: 'TH', label: 'Thailand' },
+  { value: 'VN', label: 'Vietnam' },
+  { value: 'PH', label: 'Philippines' },
+]
+
+// Only Shopee lists under its own category tree for now
+const CHANNEL = 'shopee'
+
+export function CategoryMappings({}: CategoryMappingsProps) {
+  const [market, setMarket] = useState('ID')
+  const [mappings, setMappings] = useState<MappingRow[]>([])
+  const [internalCategory, setInternalCategory] = useState('')
+  const [search, setSearch] = useState('')
+  const [results, setResults] = useState<CategoryOption[]>([])
+  const [selectedCategory, setSelectedCategory] = useState<CategoryOption | null>(null)
+  const [isSyncing, setIsSyncing] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const loadMappings = useCallback(async () => {
+    const response = await fetch(`/api/catalog/categories/mappings?channel=${CHANNEL}&market=${market}`)
+    const data = await response.json()
+    setMappings(data.success ? data.mappings : [])
+  }, [market])
+
+  useEffect(() => {
+    loadMappings()
+    setResults([])
+    setSelectedCategory(null)
+  }, [loadMappings])
+
+  // Queue a category tree or attribute schema pull for the selected market
+  const handleSync = async (target: 'categories' | 'attributes') => {
+    setIsSyncing(true)
+    setMessage(null)
+    try {
+      const endpoint = target === 'categories' ? '/api/catalog/categories' : '/api/catalog/categories/attributes'
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ channel: CHANNEL, market }),
+      })
+      const data = await response.json()
+      setMessage(data.success
+        ? { type: 'success', text: `${target === 'categories' ? 'Category' : 'Attribute'} sync queued (job ${data.jobId})` }
+        : { type: 'error', text: Array.isArray(data.details) ? data.details.join(', ') : data.details || data.error })
+    } finally {
+      setIsSyncing(false)
+    }
+  }
+
+  const handleSearch = async () => {
+    const params = new URLSearchParams({ channel: CHANNEL, market, leafOnly: 'true', search, limit: '50' })
+    const response = await fetch(`/api/catalog/categories?${params}`)
+    const data = await response.json()
+    setResults(data.success ? data.categories : [])
+  }
+
+  const handleSave = async () => {
+    if (!internalCategory || !selectedCategory) return
+
+    setIsSaving(true)
+    setMessage(null)
+    try {
+      const response = await fetch('/api/catalog/categories/mappings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          channel: CHANNEL,
+          market,
+          internalCategory,
+          channelCategoryId: selectedCategory.categoryId,
+        }),
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        setInternalCategory('')
+        setSelectedCategory(null)
+        setResults([])
+        setSearch('')
+        await loadMappings()
+      } else {
+        setMessage({ type: 'error', text: data.details || data.error })
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    await fetch(`/api/catalog/categories/mappings?id=${id}`, { method: 'DELETE' })
+    await loadMappings()
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Category Tree */}
+      <Card className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center space-x-3">
+            <div className="p-2 bg-orange-100 rounded-lg">
+              <FolderTree className="w-5 h-5 text-orange-600" />
+            </div>
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Shopee Category Tree</h3>
+              <p className="text-sm text-gray-600">Categories and the attributes of mapped categories are pulled per market by background jobs</p>
+            </div>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Select value={market} onValueChange={setMarket}>
+              <SelectTrigger className="w-40">
+                <SelectValue placeholder="Market" />
+              </SelectTrigger>
+              <SelectContent>
+                {markets.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={() => handleSync('categories')} disabled={isSyncing}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${isSyncing ? 'animate-spin' : ''}`} />
+              Sync Categories
+            </Button>
+            <Button variant="outline" onClick={() => handleSync('attributes')} disabled={isSyncing || mappings.length === 0}>
+              <ListChecks className="w-4 h-4 mr-2" />
+              Sync Attributes
+            </Button>
+          </div>
+        </div>
+
+        {message && (
+          <p className={`text-sm ${message.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>
+            {message.text}
+          </p>
+        )}
+      </Card>
+
+      {/* New Mapping */}
+      <Card className="p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-1">Map a Category</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Products are listed under the mapped leaf category when they are published to Shopee
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-2">
+            <Label htmlFor="internal-category">Product Category</Label>
+            <Input
+              id="internal-category"
+              value={internalCategory}
+              onChange={(e) => setInternalCategory(e.target.value)}
+              placeholder="e.g. Sneakers"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="category-search">Shopee Category</Label>
+            <div className="flex space-x-2">
+              <Input
+                id="category-search"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
+                placeholder="Search leaf categories..."
+              />
+              <Button variant="outline" size="icon" onClick={handleSearch}>
+                <Search className="w-4 h-4" />
+              </Button>
+            </div>
+
+            {results.length > 0 && (
+              <div className="max-h-48 overflow-y-auto border border-gray-200 rounded-lg divide-y">
+                {results.map((category) => (
+                  <button
+                    key={category.categoryId}
+                    onClick={() => setSelectedCategory(category)}
+                    className={`w-full text-left px-3 py-2 text-sm hover:bg-gray-50 ${
+                      selectedCategory?.categoryId === category.categoryId ? 'bg-blue-50 text-blue-700' : 'text-gray-900'
+                    }`}
+                  >
+                    {category.displayName || category.name}
+                    <span className="ml-2 text-xs text-gray-500">#{category.categoryId}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end mt-4">
+          <Button onClick={handleSave} disabled={isSaving || !internalCategory || !selectedCategory}>
+            <Save className="w-4 h-4 mr-2" />
+            {isSaving ? 'Saving...' : 'Save Mapping'}
+          </Button>
+        </div>
+      </Card>
+
+      {/* Existing Mappings */}
+      <Card className="p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Mapped Categories</h3>
+
+        {mappings.length === 0 ? (
+          <p className="text-sm text-gray-500">No categories mapped for this market yet</p>
+        ) : (
+          <div className="space-y-2">
+            {mappings.map((mapping) => (
+              <div key={mapping.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                <div className="flex items-center space-x-3 text-sm">
+                  <span className="font-medium text-gray-900">{mapping.internalCategory}</span>
+                  <ArrowRight className="w-4 h-4 text-gray-400" />
+                  <span className="text-gray-700">
+                    {mapping.channelCategoryName || 'Unknown category'}
+                    <span className="ml-2 text-xs text-gray-500">#{mapping.channelCategoryId}</span>
+                  </span>
+                  {!mapping.valid && (
+                    <Badge variant="destructive" className="flex items-center space-x-1">
+                      <AlertTriangle className="w-3 h-3" />
+                      <span>Remap required</span>
+                    </Badge>
+                  )}
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => handleDelete(mapping.id)}>
+                  <Trash2 className="w-4 h-4 text-red-600" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
+    </div>
+  )
+}
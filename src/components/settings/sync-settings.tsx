@@ -1,11 +1,13 @@
 'use client'
 
-import { useState } from 'react'
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
 import { Button } from '@/components/ui/button'
 import { Card } from '@/components/ui/card'
 import { Switch } from '@/components/ui/switch'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Label } from '@/components/ui/label'
+import { Input } from '@/components/ui/input'
 import { Checkbox } from '@/components/ui/checkbox'
 import { Badge } from '@/components/ui/badge'
 import { 
@@ -18,11 +20,85 @@ import {
   MessageSquare,
   DollarSign,
   Save,
-  RotateCcw
+  RotateCcw,
+  GitMerge,
+  Boxes
 } from 'lucide-react'
+import { formatDistanceToNow } from 'date-fns'
 
 interface SyncSettingsProps {}
 
+interface ScheduleRow {
+  enabled: boolean
+  frequency: string
+  dataTypes: string[]
+  lastRunAt?: string
+  nextRunAt?: string
+  lastError?: string
+}
+
+interface AccountScheduleRow {
+  account: {
+    id: string
+    channel: string
+    shopName: string
+    status: string
+  }
+  schedule: ScheduleRow | null
+}
+
+interface WatermarkRow {
+  channelAccountId: string
+  dataType: 'products' | 'orders'
+  watermark: string
+}
+
+// Source of truth per product field; fields not listed merge
+const DEFAULT_FIELD_RULES: Record<string, string> = {
+  title: 'aiostore',
+  description: 'merge',
+  category: 'merge',
+  price: 'merge',
+  stock: 'aiostore',
+  status: 'platform',
+}
+
+const syncFields = [
+  { value: 'title', label: 'Title' },
+  { value: 'description', label: 'Description' },
+  { value: 'category', label: 'Category' },
+  { value: 'price', label: 'Price' },
+  { value: 'stock', label: 'Stock' },
+  { value: 'status', label: 'Status' },
+]
+
+const fieldSources = [
+  { value: 'aiostore', label: 'AIOStore wins' },
+  { value: 'platform', label: 'Platform wins' },
+  { value: 'merge', label: 'Merge, review conflicts' },
+]
+
+interface AllocationRow {
+  mode: 'full' | 'percentage' | 'buffer'
+  value: number
+}
+
+const FULL_ALLOCATION: AllocationRow = { mode: 'full', value: 0 }
+
+const allocationModes = [
+  { value: 'full', label: 'All available stock' },
+  { value: 'percentage', label: 'Percentage of available' },
+  { value: 'buffer', label: 'Hold back a buffer' },
+]
+
+const channelIcons: Record<string, string> = {
+  shopee: '🛒',
+  tiktok: '🎵',
+  tiktokshop: '🎵',
+  tokopedia: '🛍️',
+  lazada: '📦',
+}
+
 export function SyncSettings({}: SyncSettingsProps) {
   const [autoSync, setAutoSync] = useState(true)
   const [syncFrequency, setSyncFrequency] = useState('15min')
@@ -30,13 +106,140 @@ export function SyncSettings({}: SyncSettingsProps) {
   const [syncInventory, setSyncInventory] = useState(true)
   const [syncOrders, setSyncOrders] = useState(true)
   const [syncMessages, setSyncMessages] = useState(false)
+  const [accounts, setAccounts] = useState<AccountScheduleRow[]>([])
+  const [enabledAccounts, setEnabledAccounts] = useState<Record<string, boolean>>({})
+  const [watermarks, setWatermarks] = useState<WatermarkRow[]>([])
+  const [resettingAccountId, setResettingAccountId] = useState<string | null>(null)
+  const [fieldRules, setFieldRules] = useState<Record<string, string>>(DEFAULT_FIELD_RULES)
+  const [allocations, setAllocations] = useState<Record<string, AllocationRow>>({})
+  const [savedAllocations, setSavedAllocations] = useState<Record<string, AllocationRow>>({})
   const [isSaving, setIsSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const applySchedules = useCallback((data: { defaults: ScheduleRow | null; accounts: AccountScheduleRow[] }) => {
+    if (data.defaults) {
+      setAutoSync(data.defaults.enabled)
+      setSyncFrequency(data.defaults.frequency)
+      setSyncProducts(data.defaults.dataTypes.includes('products'))
+      setSyncInventory(data.defaults.dataTypes.includes('inventory'))
+      setSyncOrders(data.defaults.dataTypes.includes('orders'))
+      setSyncMessages(data.defaults.dataTypes.includes('messages'))
+    }
+    setAccounts(data.accounts)
+    setEnabledAccounts(Object.fromEntries(
+      data.accounts.map(row => [row.account.id, row.schedule ? row.schedule.enabled : true])
+    ))
+  }, [])
+
+  // Account defaults only; product allocations are set through the API
+  const loadAllocations = useCallback(async () => {
+    const response = await fetch('/api/inventory/allocations')
+    const data = await response.json()
+    if (data.success) {
+      const rows: Record<string, AllocationRow> = Object.fromEntries(
+        data.allocations
+          .filter((allocation: any) => !allocation.productId)
+          .map((allocation: any) => [allocation.channelAccountId, { mode: allocation.mode, value: allocation.value }])
+      )
+      setAllocations(rows)
+      setSavedAllocations(rows)
+    }
+  }, [])
+
+  const loadWatermarks = useCallback(async () => {
+    const response = await fetch('/api/sync/watermarks')
+    const data = await response.json()
+    if (data.success) setWatermarks(data.watermarks)
+  }, [])
+
+  useEffect(() => {
+    fetch('/api/sync/schedules')
+      .then(response => response.json())
+      .then(data => {
+        if (data.success) applySchedules(data)
+      })
+    fetch('/api/sync/field-rules')
+      .then(response => response.json())
+      .then(data => {
+        if (data.success) setFieldRules(data.rules)
+      })
+    loadWatermarks()
+    loadAllocations()
+  }, [applySchedules, loadWatermarks, loadAllocations])
+
+  // Forget how far the account was pulled, so its next pulls fetch everything
+  const handleFullResync = async (accountId: string, shopName: string) => {
+    setResettingAccountId(accountId)
+    setMessage(null)
+    try {
+      const response = await fetch(`/api/sync/watermarks?accountId=${encodeURIComponent(accountId)}`, {
+        method: 'DELETE',
+      })
+      const data = await response.json()
+      setMessage(data.success
+        ? { type: 'success', text: `${shopName} will fully resync on its next pull` }
+        : { type: 'error', text: Array.isArray(data.details) ? data.details.join(', ') : data.details || data.error })
+      await loadWatermarks()
+    } finally {
+      setResettingAccountId(null)
+    }
+  }
 
   const handleSave = async () => {
     setIsSaving(true)
-    // Simulate save process
-    await new Promise(resolve => setTimeout(resolve, 1000))
-    setIsSaving(false)
+    setMessage(null)
+    try {
+      const dataTypes = [
+        syncProducts && 'products',
+        syncInventory && 'inventory',
+        syncOrders && 'orders',
+        syncMessages && 'messages',
+      ].filter(Boolean)
+
+      const changedAllocations = accounts
+        .map(({ account }) => account.id)
+        .filter(accountId => JSON.stringify(allocations[accountId] || FULL_ALLOCATION) !== JSON.stringify(savedAllocations[accountId] || FULL_ALLOCATION))
+
+      const [data, rulesData, ...allocationResults] = await Promise.all([
+        fetch('/api/sync/schedules', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            settings: { enabled: autoSync, frequency: syncFrequency, dataTypes },
+            accounts: enabledAccounts,
+          }),
+        }).then(response => response.json()),
+        fetch('/api/sync/field-rules', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ rules: fieldRules }),
+        }).then(response => response.json()),
+        ...changedAllocations.map(accountId => {
+          const allocation = allocations[accountId] || FULL_ALLOCATION
+          return fetch('/api/inventory/allocations', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              accountId,
+              rule: allocation.mode === 'full' ? null : { mode: allocation.mode, value: allocation.value },
+            }),
+          }).then(response => response.json())
+        }),
+      ])
+
+      if (data.success) applySchedules(data)
+      if (rulesData.success) setFieldRules(rulesData.rules)
+      if (changedAllocations.length > 0) await loadAllocations()
+
+      const failed = [data, rulesData, ...allocationResults].find(result => !result.success)
+      if (failed) {
+        setMessage({ type: 'error', text: Array.isArray(failed.details) ? failed.details.join(', ') : failed.details || failed.error })
+      } else {
+        setMessage({ type: 'success', text: 'Sync settings saved' })
+      }
+    } finally {
+      setIsSaving(false)
+    }
   }
 
   const handleReset = () => {
@@ -47,6 +250,8 @@ export function SyncSettings({}: SyncSettingsProps) {
     setSyncInventory(true)
     setSyncOrders(true)
     setSyncMessages(false)
+    setFieldRules(DEFAULT_FIELD_RULES)
+    setAllocations({})
   }
 
   const frequencyOptions = [
@@ -86,7 +291,7 @@ export function SyncSettings({}: SyncSettingsProps) {
     {
       id: 'messages',
       label: 'Messages',
-      description: 'Sync customer messages and conversations',
+      description: 'Sync customer messages and conversations (not synced by the scheduler yet)',
       icon: MessageSquare,
       checked: syncMessages,
       onChange: setSyncMessages,
@@ -187,67 +392,180 @@ export function SyncSettings({}: SyncSettingsProps) {
         </div>
       </Card>
 
-      {/* Platform-specific Settings */}
+      {/* Field Rules */}
       <Card className="p-6">
         <div className="flex items-center space-x-3 mb-4">
-          <div className="p-2 bg-purple-100 rounded-lg">
-            <Clock className="w-5 h-5 text-purple-600" />
+          <div className="p-2 bg-orange-100 rounded-lg">
+            <GitMerge className="w-5 h-5 text-orange-600" />
           </div>
           <div>
-            <h3 className="text-lg font-semibold text-gray-900">Platform-specific Sync</h3>
-            <p className="text-sm text-gray-600">Configure sync behavior for each connected platform</p>
+            <h3 className="text-lg font-semibold text-gray-900">Conflict Resolution</h3>
+            <p className="text-sm text-gray-600">
+              Choose which side owns each product field. Merged fields take whichever side changed since the last sync;
+              fields changed on both sides wait in the <Link href="/sync/conflicts" className="text-blue-600 hover:underline">conflict review queue</Link>.
+            </p>
           </div>
         </div>
 
-        <div className="space-y-4">
-          {/* Shopee Settings */}
-          <div className="flex items-center justify-between p-4 border border-orange-200 rounded-lg bg-orange-50">
-            <div className="flex items-center space-x-3">
-              <div className="text-xl">🛒</div>
-              <div>
-                <h4 className="font-medium text-gray-900">Shopee</h4>
-                <p className="text-sm text-gray-600">Real-time product updates and order sync</p>
-              </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {syncFields.map((field) => (
+            <div key={field.value} className="flex items-center justify-between p-4 border border-gray-200 rounded-lg">
+              <Label className="font-medium">{field.label}</Label>
+              <Select
+                value={fieldRules[field.value] || 'merge'}
+                onValueChange={(value) => setFieldRules(prev => ({ ...prev, [field.value]: value }))}
+              >
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {fieldSources.map((source) => (
+                    <SelectItem key={source.value} value={source.value}>
+                      {source.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
-            <Badge className="bg-orange-100 text-orange-800">Connected</Badge>
-          </div>
+          ))}
+        </div>
+      </Card>
 
-          {/* TikTok Settings */}
-          <div className="flex items-center justify-between p-4 border border-gray-200 rounded-lg">
-            <div className="flex items-center space-x-3">
-              <div className="text-xl">🎵</div>
-              <div>
-                <h4 className="font-medium text-gray-900">TikTok Shop</h4>
-                <p className="text-sm text-gray-600">Live selling sync and inventory updates</p>
-              </div>
-            </div>
-            <Badge className="bg-orange-100 text-orange-800">Connected</Badge>
+      {/* Stock Allocation */}
+      <Card className="p-6">
+        <div className="flex items-center space-x-3 mb-4">
+          <div className="p-2 bg-teal-100 rounded-lg">
+            <Boxes className="w-5 h-5 text-teal-600" />
           </div>
-
-          {/* Tokopedia Settings */}
-          <div className="flex items-center justify-between p-4 border border-gray-200 rounded-lg">
-            <div className="flex items-center space-x-3">
-              <div className="text-xl">🛍️</div>
-              <div>
-                <h4 className="font-medium text-gray-900">Tokopedia</h4>
-                <p className="text-sm text-gray-600">Not connected - connect to enable sync</p>
-              </div>
-            </div>
-            <Badge variant="secondary">Not Connected</Badge>
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Stock Allocation</h3>
+            <p className="text-sm text-gray-600">
+              Every account sells from the same inventory, or from its fulfilment warehouses when set under Warehouses. Orders
+              reserve stock and the stock left is pushed to the other accounts; choose how much of it each account lists.
+            </p>
           </div>
+        </div>
 
-          {/* Lazada Settings */}
-          <div className="flex items-center justify-between p-4 border border-gray-200 rounded-lg">
-            <div className="flex items-center space-x-3">
-              <div className="text-xl">📦</div>
-              <div>
-                <h4 className="font-medium text-gray-900">Lazada</h4>
-                <p className="text-sm text-gray-600">Not connected - connect to enable sync</p>
-              </div>
-            </div>
-            <Badge variant="secondary">Not Connected</Badge>
+        <div className="space-y-4">
+          {accounts.length === 0 ? (
+            <p className="text-sm text-gray-500">No channel accounts connected</p>
+          ) : (
+            accounts.map(({ account }) => {
+              const allocation = allocations[account.id] || FULL_ALLOCATION
+              const setAllocation = (changes: Partial<AllocationRow>) =>
+                setAllocations(prev => ({ ...prev, [account.id]: { ...allocation, ...changes } }))
+              return (
+                <div key={account.id} className="flex items-center justify-between p-4 border border-gray-200 rounded-lg">
+                  <div className="flex items-center space-x-3">
+                    <div className="text-xl">{channelIcons[account.channel] || '🏪'}</div>
+                    <h4 className="font-medium text-gray-900">{account.shopName}</h4>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <Select
+                      value={allocation.mode}
+                      onValueChange={(mode) => setAllocation({
+                        mode: mode as AllocationRow['mode'],
+                        value: mode === 'percentage' ? 100 : 0,
+                      })}
+                    >
+                      <SelectTrigger className="w-56">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {allocationModes.map((mode) => (
+                          <SelectItem key={mode.value} value={mode.value}>
+                            {mode.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {allocation.mode !== 'full' && (
+                      <div className="flex items-center space-x-2">
+                        <Input
+                          type="number"
+                          min={0}
+                          max={allocation.mode === 'percentage' ? 100 : undefined}
+                          value={allocation.value}
+                          onChange={(event) => setAllocation({ value: Math.max(0, parseInt(event.target.value) || 0) })}
+                          className="w-24"
+                        />
+                        <span className="text-sm text-gray-500">{allocation.mode === 'percentage' ? '%' : 'units'}</span>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              )
+            })
+          )}
+        </div>
+      </Card>
+
+      {/* Platform-specific Settings */}
+      <Card className="p-6">
+        <div className="flex items-center space-x-3 mb-4">
+          <div className="p-2 bg-purple-100 rounded-lg">
+            <Clock className="w-5 h-5 text-purple-600" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Platform-specific Sync</h3>
+            <p className="text-sm text-gray-600">Choose which connected accounts auto-sync, and see their last and next run</p>
           </div>
         </div>
+
+        <div className="space-y-4">
+          {accounts.length === 0 ? (
+            <p className="text-sm text-gray-500">No channel accounts connected</p>
+          ) : (
+            accounts.map(({ account, schedule }) => {
+              const isActive = account.status === 'active'
+              return (
+                <div key={account.id} className="flex items-center justify-between p-4 border border-gray-200 rounded-lg">
+                  <div className="flex items-center space-x-3">
+                    <div className="text-xl">{channelIcons[account.channel] || '🏪'}</div>
+                    <div>
+                      <h4 className="font-medium text-gray-900">{account.shopName}</h4>
+                      <p className="text-sm text-gray-600">
+                        {schedule?.lastRunAt
+                          ? `Last run ${formatDistanceToNow(new Date(schedule.lastRunAt), { addSuffix: true })}`
+                          : 'Never run'}
+                        {schedule?.nextRunAt && ` · Next run ${formatDistanceToNow(new Date(schedule.nextRunAt), { addSuffix: true })}`}
+                      </p>
+                      {watermarks.filter(row => row.channelAccountId === account.id).map(row => (
+                        <p key={row.dataType} className="text-xs text-gray-500">
+                          {row.dataType === 'products' ? 'Products' : 'Orders'} pulled up to {formatDistanceToNow(new Date(row.watermark), { addSuffix: true })}
+                        </p>
+                      ))}
+                      {schedule?.lastError && (
+                        <p className="text-xs text-red-600 mt-1">{schedule.lastError}</p>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleFullResync(account.id, account.shopName)}
+                      disabled={resettingAccountId === account.id}
+                    >
+                      <RotateCcw className="w-4 h-4 mr-1" />
+                      Full Resync
+                    </Button>
+                    {isActive ? (
+                      <Badge className="bg-orange-100 text-orange-800">Connected</Badge>
+                    ) : (
+                      <Badge variant="secondary">{account.status}</Badge>
+                    )}
+                    <Switch
+                      checked={enabledAccounts[account.id] !== false}
+                      onCheckedChange={(checked) => setEnabledAccounts(prev => ({ ...prev, [account.id]: checked }))}
+                      disabled={!autoSync || !isActive}
+                    />
+                  </div>
+                </div>
+              )
+            })
+          )}
+        </div>
       </Card>
 
       {/* Action Buttons */}
@@ -262,6 +580,11 @@ export function SyncSettings({}: SyncSettingsProps) {
         </Button>
         
         <div className="flex items-center space-x-3">
+          {message && (
+            <span className={`text-sm ${message.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>
+              {message.text}
+            </span>
+          )}
           <span className="text-sm text-gray-500">
             {autoSync ? `Auto-sync enabled (${syncFrequency})` : 'Manual sync mode'}
           </span>
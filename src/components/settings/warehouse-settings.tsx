@@ -0,0 +1,386 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Warehouse as WarehouseIcon, Plus, Trash2, Star, X, Store } from 'lucide-react'
+
+interface WarehouseSettingsProps {}
+
+interface BranchRow {
+  id: string
+  name: string
+}
+
+interface LocationRow {
+  id: string
+  code: string
+  name?: string
+}
+
+interface WarehouseRow {
+  id: string
+  branchId: string
+  code: string
+  name: string
+  address?: string
+  isDefault: boolean
+  status: 'active' | 'inactive'
+  locations: LocationRow[]
+}
+
+interface AccountRow {
+  id: string
+  channel: string
+  shopName: string
+  branchId?: string
+}
+
+const EMPTY_WAREHOUSE = { branchId: '', code: '', name: '', address: '', isDefault: false }
+
+const channelIcons: Record<string, string> = {
+  shopee: '🛒',
+  tiktok: '🎵',
+  tiktokshop: '🎵',
+  tokopedia: '🛍️',
+  lazada: '📦',
+}
+
+export function WarehouseSettings({}: WarehouseSettingsProps) {
+  const [branches, setBranches] = useState<BranchRow[]>([])
+  const [warehouses, setWarehouses] = useState<WarehouseRow[]>([])
+  const [accounts, setAccounts] = useState<AccountRow[]>([])
+  const [accountWarehouses, setAccountWarehouses] = useState<Record<string, string[]>>({})
+  const [newWarehouse, setNewWarehouse] = useState(EMPTY_WAREHOUSE)
+  const [newLocations, setNewLocations] = useState<Record<string, string>>({})
+  const [isSaving, setIsSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const loadWarehouses = useCallback(async () => {
+    const response = await fetch('/api/warehouses')
+    const data = await response.json()
+    if (data.success) {
+      setWarehouses(data.warehouses)
+      setBranches(data.branches)
+    }
+  }, [])
+
+  const loadAccountWarehouses = useCallback(async () => {
+    const response = await fetch('/api/warehouses/accounts')
+    const data = await response.json()
+    if (data.success) {
+      const rows: Record<string, string[]> = {}
+      for (const mapping of data.accountWarehouses) {
+        rows[mapping.channelAccountId] = [...(rows[mapping.channelAccountId] || []), mapping.warehouseId]
+      }
+      setAccountWarehouses(rows)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadWarehouses()
+    loadAccountWarehouses()
+    fetch('/api/sync/schedules')
+      .then(response => response.json())
+      .then(data => data.success && setAccounts(data.accounts.map((row: { account: AccountRow }) => row.account)))
+  }, [loadWarehouses, loadAccountWarehouses])
+
+  // Runs a write and reports its outcome; reloads warehouses after
+  const submit = async (request: Promise<Response>, successText: string) => {
+    setIsSaving(true)
+    setMessage(null)
+    try {
+      const data = await (await request).json()
+      setMessage(data.success
+        ? { type: 'success', text: successText }
+        : { type: 'error', text: Array.isArray(data.details) ? data.details.join(', ') : data.details || data.error })
+      await loadWarehouses()
+      return data.success as boolean
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleCreate = async () => {
+    const created = await submit(fetch('/api/warehouses', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...newWarehouse, address: newWarehouse.address || undefined }),
+    }), `Warehouse ${newWarehouse.code} created`)
+
+    if (created) setNewWarehouse(EMPTY_WAREHOUSE)
+  }
+
+  const handleMakeDefault = (warehouse: WarehouseRow) => submit(fetch(`/api/warehouses?id=${warehouse.id}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ isDefault: true }),
+  }), `${warehouse.code} is now the default warehouse`)
+
+  const handleDelete = async (warehouse: WarehouseRow) => {
+    await submit(fetch(`/api/warehouses?id=${warehouse.id}`, { method: 'DELETE' }), `Warehouse ${warehouse.code} deleted`)
+    await loadAccountWarehouses()
+  }
+
+  const handleAddLocation = async (warehouse: WarehouseRow) => {
+    const code = (newLocations[warehouse.id] || '').trim()
+    if (!code) return
+
+    const created = await submit(fetch('/api/warehouses/locations', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ warehouseId: warehouse.id, code }),
+    }), `Location ${code} added to ${warehouse.code}`)
+
+    if (created) setNewLocations(prev => ({ ...prev, [warehouse.id]: '' }))
+  }
+
+  const handleDeleteLocation = (location: LocationRow) =>
+    submit(fetch(`/api/warehouses/locations?id=${location.id}`, { method: 'DELETE' }), `Location ${location.code} removed`)
+
+  // Warehouses ship in the order they were ticked
+  const toggleAccountWarehouse = async (account: AccountRow, warehouseId: string, checked: boolean) => {
+    const current = accountWarehouses[account.id] || []
+    const warehouseIds = checked ? [...current, warehouseId] : current.filter(id => id !== warehouseId)
+
+    setIsSaving(true)
+    setMessage(null)
+    try {
+      const response = await fetch('/api/warehouses/accounts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ accountId: account.id, warehouseIds }),
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        setAccountWarehouses(prev => ({ ...prev, [account.id]: warehouseIds }))
+      } else {
+        setMessage({ type: 'error', text: Array.isArray(data.details) ? data.details.join(', ') : data.details || data.error })
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const branchName = (branchId?: string) => branches.find(branch => branch.id === branchId)?.name || 'Unknown branch'
+
+  return (
+    <div className="space-y-6">
+      {/* Warehouses */}
+      <Card className="p-6">
+        <div className="flex items-center space-x-3 mb-4">
+          <div className="p-2 bg-amber-100 rounded-lg">
+            <WarehouseIcon className="w-5 h-5 text-amber-600" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Warehouses</h3>
+            <p className="text-sm text-gray-600">
+              Warehouses each branch ships from, and the locations within them. Stock is held per warehouse;
+              stock not put in one yet is unassigned.
+            </p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-6 gap-3 items-end p-4 border border-gray-200 rounded-lg">
+          <div className="space-y-2">
+            <Label>Branch</Label>
+            <Select value={newWarehouse.branchId} onValueChange={(branchId) => setNewWarehouse(prev => ({ ...prev, branchId }))}>
+              <SelectTrigger>
+                <SelectValue placeholder="Branch" />
+              </SelectTrigger>
+              <SelectContent>
+                {branches.map((branch) => (
+                  <SelectItem key={branch.id} value={branch.id}>
+                    {branch.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="warehouse-code">Code</Label>
+            <Input
+              id="warehouse-code"
+              placeholder="JKT-1"
+              value={newWarehouse.code}
+              onChange={(event) => setNewWarehouse(prev => ({ ...prev, code: event.target.value }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="warehouse-name">Name</Label>
+            <Input
+              id="warehouse-name"
+              placeholder="Jakarta Warehouse"
+              value={newWarehouse.name}
+              onChange={(event) => setNewWarehouse(prev => ({ ...prev, name: event.target.value }))}
+            />
+          </div>
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="warehouse-address">Address</Label>
+            <Input
+              id="warehouse-address"
+              value={newWarehouse.address}
+              onChange={(event) => setNewWarehouse(prev => ({ ...prev, address: event.target.value }))}
+            />
+          </div>
+          <div className="flex items-center justify-between md:justify-end space-x-3">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="warehouse-default"
+                checked={newWarehouse.isDefault}
+                onCheckedChange={(checked) => setNewWarehouse(prev => ({ ...prev, isDefault: checked === true }))}
+              />
+              <Label htmlFor="warehouse-default">Default</Label>
+            </div>
+            <Button
+              onClick={handleCreate}
+              disabled={isSaving || !newWarehouse.branchId || !newWarehouse.code.trim() || !newWarehouse.name.trim()}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add
+            </Button>
+          </div>
+        </div>
+
+        {message && (
+          <p className={`text-sm mt-4 ${message.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>
+            {message.text}
+          </p>
+        )}
+
+        <div className="space-y-3 mt-4">
+          {warehouses.length === 0 ? (
+            <p className="text-sm text-gray-500">No warehouses yet</p>
+          ) : (
+            warehouses.map((warehouse) => (
+              <div key={warehouse.id} className="p-4 border border-gray-200 rounded-lg space-y-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <Badge variant="outline">{warehouse.code}</Badge>
+                      <h4 className="font-medium text-gray-900">{warehouse.name}</h4>
+                      {warehouse.isDefault && <Badge>Default</Badge>}
+                      {warehouse.status === 'inactive' && <Badge variant="secondary">Inactive</Badge>}
+                    </div>
+                    <p className="text-sm text-gray-500 mt-1">
+                      {branchName(warehouse.branchId)}{warehouse.address && ` · ${warehouse.address}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    {!warehouse.isDefault && (
+                      <Button variant="outline" size="sm" onClick={() => handleMakeDefault(warehouse)} disabled={isSaving}>
+                        <Star className="w-4 h-4 mr-2" />
+                        Make default
+                      </Button>
+                    )}
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(warehouse)} disabled={isSaving}>
+                      <Trash2 className="w-4 h-4 text-red-500" />
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2">
+                  {warehouse.locations.map((location) => (
+                    <Badge key={location.id} variant="secondary" className="flex items-center space-x-1">
+                      <span>{location.code}</span>
+                      <button
+                        type="button"
+                        onClick={() => handleDeleteLocation(location)}
+                        aria-label={`Remove location ${location.code}`}
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                  <Input
+                    placeholder="New location, e.g. A-01-03"
+                    value={newLocations[warehouse.id] || ''}
+                    onChange={(event) => setNewLocations(prev => ({ ...prev, [warehouse.id]: event.target.value }))}
+                    onKeyDown={(event) => event.key === 'Enter' && handleAddLocation(warehouse)}
+                    className="w-56 h-8"
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleAddLocation(warehouse)}
+                    disabled={isSaving || !(newLocations[warehouse.id] || '').trim()}
+                  >
+                    Add location
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </Card>
+
+      {/* Channel Account Warehouses */}
+      <Card className="p-6">
+        <div className="flex items-center space-x-3 mb-4">
+          <div className="p-2 bg-blue-100 rounded-lg">
+            <Store className="w-5 h-5 text-blue-600" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Fulfilment Warehouses</h3>
+            <p className="text-sm text-gray-600">
+              Choose the warehouses each account sells from. An account lists no more than they hold, and its orders ship
+              from them in the order they were picked. Accounts without any sell from all stock.
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          {accounts.length === 0 ? (
+            <p className="text-sm text-gray-500">No channel accounts connected</p>
+          ) : (
+            accounts.map((account) => {
+              const selected = accountWarehouses[account.id] || []
+              const options = warehouses.filter(warehouse => warehouse.branchId === account.branchId)
+              return (
+                <div key={account.id} className="flex items-center justify-between p-4 border border-gray-200 rounded-lg">
+                  <div className="flex items-center space-x-3">
+                    <div className="text-xl">{channelIcons[account.channel] || '🏪'}</div>
+                    <div>
+                      <h4 className="font-medium text-gray-900">{account.shopName}</h4>
+                      <p className="text-sm text-gray-500">
+                        {selected.length === 0 ? 'Sells from all stock' : `Ships from ${selected.length} warehouse${selected.length === 1 ? '' : 's'}`}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-4">
+                    {options.length === 0 ? (
+                      <span className="text-sm text-gray-500">No warehouses in {branchName(account.branchId)}</span>
+                    ) : (
+                      options.map((warehouse) => (
+                        <div key={warehouse.id} className="flex items-center space-x-2">
+                          <Checkbox
+                            id={`${account.id}-${warehouse.id}`}
+                            checked={selected.includes(warehouse.id)}
+                            onCheckedChange={(checked) => toggleAccountWarehouse(account, warehouse.id, checked === true)}
+                            disabled={isSaving}
+                          />
+                          <Label htmlFor={`${account.id}-${warehouse.id}`}>
+                            {warehouse.code}
+                            {selected.includes(warehouse.id) && selected.length > 1 && (
+                              <span className="text-gray-400 ml-1">#{selected.indexOf(warehouse.id) + 1}</span>
+                            )}
+                          </Label>
+                        </div>
+                      ))
+                    )}
+                  </div>
+                </div>
+              )
+            })
+          )}
+        </div>
+      </Card>
+    </div>
+  )
+}
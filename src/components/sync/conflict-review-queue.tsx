@@ -0,0 +1,295 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Monitor, RefreshCw, Store } from 'lucide-react'
+import { formatDistanceToNow } from 'date-fns'
+
+interface ConflictReviewQueueProps {}
+
+type FieldValue = string | number | null
+
+interface ConflictRow {
+  id: string
+  channel: string
+  channelAccountId?: string
+  itemType: string
+  itemId: string
+  itemName?: string
+  field: string
+  baseValue: FieldValue
+  localValue: FieldValue
+  platformValue: FieldValue
+  jobId?: string
+  status: 'open' | 'resolved' | 'superseded'
+  resolution?: 'aiostore' | 'platform'
+  resolvedAt?: string
+  createdAt: string
+}
+
+const channels = [
+  { value: 'all', label: 'All Channels' },
+  { value: 'shopee', label: 'Shopee' },
+  { value: 'tiktokshop', label: 'TikTok Shop' },
+  { value: 'tokopedia', label: 'Tokopedia' },
+  { value: 'lazada', label: 'Lazada' },
+]
+
+const statuses = [
+  { value: 'open', label: 'Open' },
+  { value: 'resolved', label: 'Resolved' },
+  { value: 'superseded', label: 'Superseded' },
+]
+
+const fieldLabels: Record<string, string> = {
+  title: 'Title',
+  description: 'Description',
+  category: 'Category',
+  price: 'Price',
+  stock: 'Stock',
+  status: 'Status',
+}
+
+const PAGE_SIZE = 25
+
+function formatValue(value: FieldValue) {
+  return value === null || value === '' ? <span className="italic text-gray-400">empty</span> : String(value)
+}
+
+export function ConflictReviewQueue({}: ConflictReviewQueueProps) {
+  const [conflicts, setConflicts] = useState<ConflictRow[]>([])
+  const [total, setTotal] = useState(0)
+  const [page, setPage] = useState(1)
+  const [channel, setChannel] = useState('all')
+  const [status, setStatus] = useState('open')
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isResolving, setIsResolving] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const loadConflicts = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const params = new URLSearchParams({ status, page: String(page), pageSize: String(PAGE_SIZE) })
+      if (channel !== 'all') params.set('channel', channel)
+
+      const response = await fetch(`/api/sync/conflicts?${params}`)
+      const data = await response.json()
+      setConflicts(data.success ? data.conflicts : [])
+      setTotal(data.success ? data.total : 0)
+      setSelectedIds([])
+    } finally {
+      setIsLoading(false)
+    }
+  }, [page, channel, status])
+
+  useEffect(() => {
+    loadConflicts()
+  }, [loadConflicts])
+
+  const resolve = async (conflictIds: string[], resolution: 'aiostore' | 'platform') => {
+    setIsResolving(true)
+    setMessage(null)
+    try {
+      const response = await fetch('/api/sync/conflicts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ conflictIds, resolution }),
+      })
+      const data = await response.json()
+
+      if (!data.success) {
+        setMessage({ type: 'error', text: Array.isArray(data.details) ? data.details.join(', ') : data.details || data.error })
+      } else if (data.errors.length > 0) {
+        setMessage({ type: 'error', text: `${data.resolved} resolved, ${data.errors.length} failed: ${data.errors.join('; ')}` })
+      } else {
+        setMessage({ type: 'success', text: `${data.resolved} conflict${data.resolved === 1 ? '' : 's'} resolved` })
+      }
+      await loadConflicts()
+    } finally {
+      setIsResolving(false)
+    }
+  }
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(prev => checked ? [...prev, id] : prev.filter(selected => selected !== id))
+  }
+
+  const isOpen = status === 'open'
+  const allSelected = conflicts.length > 0 && selectedIds.length === conflicts.length
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE))
+
+  return (
+    <div className="space-y-6">
+      {/* Filters and bulk actions */}
+      <Card className="p-6">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div className="flex items-center space-x-2">
+            <Select value={status} onValueChange={(value) => { setStatus(value); setPage(1) }}>
+              <SelectTrigger className="w-40">
+                <SelectValue placeholder="Status" />
+              </SelectTrigger>
+              <SelectContent>
+                {statuses.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={channel} onValueChange={(value) => { setChannel(value); setPage(1) }}>
+              <SelectTrigger className="w-44">
+                <SelectValue placeholder="Channel" />
+              </SelectTrigger>
+              <SelectContent>
+                {channels.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Button variant="outline" onClick={loadConflicts} disabled={isLoading}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+            {isOpen && (
+              <>
+                <Button
+                  variant="outline"
+                  onClick={() => resolve(selectedIds, 'aiostore')}
+                  disabled={isResolving || selectedIds.length === 0}
+                >
+                  <Monitor className="w-4 h-4 mr-2" />
+                  Keep AIOStore ({selectedIds.length})
+                </Button>
+                <Button
+                  onClick={() => resolve(selectedIds, 'platform')}
+                  disabled={isResolving || selectedIds.length === 0}
+                >
+                  <Store className="w-4 h-4 mr-2" />
+                  Keep Platform ({selectedIds.length})
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+
+        {message && (
+          <p className={`text-sm mt-4 ${message.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>
+            {message.text}
+          </p>
+        )}
+      </Card>
+
+      {/* Conflicts */}
+      <Card className="p-6">
+        {conflicts.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-sm text-gray-500">{isLoading ? 'Loading...' : `No ${status} conflicts`}</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 text-left text-gray-600">
+                  {isOpen && (
+                    <th className="py-2 pr-3 w-8">
+                      <Checkbox
+                        checked={allSelected}
+                        onCheckedChange={(checked) => setSelectedIds(checked ? conflicts.map(conflict => conflict.id) : [])}
+                      />
+                    </th>
+                  )}
+                  <th className="py-2 pr-3 font-medium">Product</th>
+                  <th className="py-2 pr-3 font-medium">Field</th>
+                  <th className="py-2 pr-3 font-medium">Last synced</th>
+                  <th className="py-2 pr-3 font-medium">AIOStore</th>
+                  <th className="py-2 pr-3 font-medium">Platform</th>
+                  <th className="py-2 pr-3 font-medium">{isOpen ? 'Detected' : 'Outcome'}</th>
+                  {isOpen && <th className="py-2 font-medium text-right">Keep</th>}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {conflicts.map((conflict) => (
+                  <tr key={conflict.id} className="align-top">
+                    {isOpen && (
+                      <td className="py-3 pr-3">
+                        <Checkbox
+                          checked={selectedIds.includes(conflict.id)}
+                          onCheckedChange={(checked) => toggleSelected(conflict.id, checked === true)}
+                        />
+                      </td>
+                    )}
+                    <td className="py-3 pr-3">
+                      <div className="font-medium text-gray-900">{conflict.itemName || conflict.itemId}</div>
+                      <div className="flex items-center space-x-2 mt-1">
+                        <Badge variant="outline">{conflict.channel}</Badge>
+                        <span className="text-xs text-gray-500">{conflict.itemId}</span>
+                      </div>
+                    </td>
+                    <td className="py-3 pr-3 text-gray-700">{fieldLabels[conflict.field] || conflict.field}</td>
+                    <td className="py-3 pr-3 max-w-xs text-gray-500">
+                      <span className="line-clamp-3">{formatValue(conflict.baseValue)}</span>
+                    </td>
+                    <td className="py-3 pr-3 max-w-xs text-gray-900">
+                      <span className="line-clamp-3">{formatValue(conflict.localValue)}</span>
+                    </td>
+                    <td className="py-3 pr-3 max-w-xs text-gray-900">
+                      <span className="line-clamp-3">{formatValue(conflict.platformValue)}</span>
+                    </td>
+                    <td className="py-3 pr-3 text-gray-600">
+                      {conflict.status === 'resolved' ? (
+                        <Badge variant="secondary">
+                          Kept {conflict.resolution === 'aiostore' ? 'AIOStore' : 'platform'}
+                        </Badge>
+                      ) : conflict.status === 'superseded' ? (
+                        <Badge variant="secondary">Sides agree again</Badge>
+                      ) : (
+                        formatDistanceToNow(new Date(conflict.createdAt), { addSuffix: true })
+                      )}
+                    </td>
+                    {isOpen && (
+                      <td className="py-3 text-right whitespace-nowrap">
+                        <Button variant="ghost" size="sm" onClick={() => resolve([conflict.id], 'aiostore')} disabled={isResolving}>
+                          <Monitor className="w-4 h-4 mr-1" />
+                          AIOStore
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => resolve([conflict.id], 'platform')} disabled={isResolving}>
+                          <Store className="w-4 h-4 mr-1" />
+                          Platform
+                        </Button>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {total > PAGE_SIZE && (
+          <div className="flex items-center justify-between mt-4 text-sm text-gray-600">
+            <span>{total} conflicts</span>
+            <div className="flex items-center space-x-2">
+              <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+                Previous
+              </Button>
+              <span>Page {page} of {totalPages}</span>
+              <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= totalPages}>
+                Next
+              </Button>
+            </div>
+          </div>
+        )}
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,346 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { AlertTriangle, Eye, RefreshCw, RotateCcw, Save } from 'lucide-react'
+import { formatDistanceToNow } from 'date-fns'
+
+interface DeadLetterQueueProps {}
+
+interface DeadLetterRow {
+  id: string
+  jobId: string
+  jobType: 'pull' | 'push' | 'sync'
+  channel: string
+  channelAccountId?: string
+  itemType: string
+  itemId: string
+  attempts: number
+  maxAttempts: number
+  errorMessage?: string
+  metadata: Record<string, any>
+  replayCount: number
+  deadLetteredAt: string
+}
+
+const channels = [
+  { value: 'all', label: 'All Channels' },
+  { value: 'shopee', label: 'Shopee' },
+  { value: 'tiktokshop', label: 'TikTok Shop' },
+  { value: 'tokopedia', label: 'Tokopedia' },
+  { value: 'lazada', label: 'Lazada' },
+]
+
+const itemTypes = [
+  { value: 'all', label: 'All Items' },
+  { value: 'product', label: 'Products' },
+  { value: 'order', label: 'Orders' },
+  { value: 'stock', label: 'Stock' },
+  { value: 'price', label: 'Prices' },
+  { value: 'category', label: 'Categories' },
+  { value: 'attribute_schema', label: 'Attribute Schemas' },
+]
+
+const PAGE_SIZE = 25
+
+export function DeadLetterQueue({}: DeadLetterQueueProps) {
+  const [items, setItems] = useState<DeadLetterRow[]>([])
+  const [total, setTotal] = useState(0)
+  const [page, setPage] = useState(1)
+  const [channel, setChannel] = useState('all')
+  const [itemType, setItemType] = useState('all')
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isReplaying, setIsReplaying] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  // Item open in the inspector and its payload being edited
+  const [inspected, setInspected] = useState<DeadLetterRow | null>(null)
+  const [payload, setPayload] = useState('')
+  const [payloadError, setPayloadError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const loadItems = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) })
+      if (channel !== 'all') params.set('channel', channel)
+      if (itemType !== 'all') params.set('itemType', itemType)
+
+      const response = await fetch(`/api/sync/dead-letters?${params}`)
+      const data = await response.json()
+      setItems(data.success ? data.items : [])
+      setTotal(data.success ? data.total : 0)
+      setSelectedIds([])
+    } finally {
+      setIsLoading(false)
+    }
+  }, [page, channel, itemType])
+
+  useEffect(() => {
+    loadItems()
+  }, [loadItems])
+
+  const replay = async (itemIds: string[]) => {
+    setIsReplaying(true)
+    setMessage(null)
+    try {
+      const response = await fetch('/api/sync/dead-letters', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ itemIds }),
+      })
+      const data = await response.json()
+      setMessage(data.success
+        ? { type: 'success', text: `${data.replayed} item${data.replayed === 1 ? '' : 's'} queued for replay` }
+        : { type: 'error', text: Array.isArray(data.details) ? data.details.join(', ') : data.details || data.error })
+      await loadItems()
+    } finally {
+      setIsReplaying(false)
+    }
+  }
+
+  const openInspector = (item: DeadLetterRow) => {
+    setInspected(item)
+    setPayload(JSON.stringify(item.metadata || {}, null, 2))
+    setPayloadError(null)
+  }
+
+  // Save the edited payload, optionally replaying the item with it
+  const savePayload = async (andReplay: boolean) => {
+    if (!inspected) return
+
+    let parsed: Record<string, any>
+    try {
+      parsed = JSON.parse(payload)
+    } catch {
+      setPayloadError('Payload is not valid JSON')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const response = await fetch(`/api/sync/dead-letters?id=${encodeURIComponent(inspected.id)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ payload: parsed }),
+      })
+      const data = await response.json()
+
+      if (!data.success) {
+        setPayloadError(Array.isArray(data.details) ? data.details.join(', ') : data.details || data.error)
+        return
+      }
+
+      setInspected(null)
+      if (andReplay) {
+        await replay([inspected.id])
+      } else {
+        await loadItems()
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(prev => checked ? [...prev, id] : prev.filter(selected => selected !== id))
+  }
+
+  const allSelected = items.length > 0 && selectedIds.length === items.length
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE))
+
+  return (
+    <div className="space-y-6">
+      {/* Filters and bulk actions */}
+      <Card className="p-6">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div className="flex items-center space-x-2">
+            <Select value={channel} onValueChange={(value) => { setChannel(value); setPage(1) }}>
+              <SelectTrigger className="w-44">
+                <SelectValue placeholder="Channel" />
+              </SelectTrigger>
+              <SelectContent>
+                {channels.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={itemType} onValueChange={(value) => { setItemType(value); setPage(1) }}>
+              <SelectTrigger className="w-44">
+                <SelectValue placeholder="Item type" />
+              </SelectTrigger>
+              <SelectContent>
+                {itemTypes.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Button variant="outline" onClick={loadItems} disabled={isLoading}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+            <Button onClick={() => replay(selectedIds)} disabled={isReplaying || selectedIds.length === 0}>
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Replay Selected ({selectedIds.length})
+            </Button>
+          </div>
+        </div>
+
+        {message && (
+          <p className={`text-sm mt-4 ${message.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>
+            {message.text}
+          </p>
+        )}
+      </Card>
+
+      {/* Dead-lettered items */}
+      <Card className="p-6">
+        {items.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-sm text-gray-500">{isLoading ? 'Loading...' : 'No dead-lettered items'}</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 text-left text-gray-600">
+                  <th className="py-2 pr-3 w-8">
+                    <Checkbox
+                      checked={allSelected}
+                      onCheckedChange={(checked) => setSelectedIds(checked ? items.map(item => item.id) : [])}
+                    />
+                  </th>
+                  <th className="py-2 pr-3 font-medium">Item</th>
+                  <th className="py-2 pr-3 font-medium">Job</th>
+                  <th className="py-2 pr-3 font-medium">Error</th>
+                  <th className="py-2 pr-3 font-medium">Attempts</th>
+                  <th className="py-2 pr-3 font-medium">Dead-lettered</th>
+                  <th className="py-2 font-medium text-right">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {items.map((item) => (
+                  <tr key={item.id} className="align-top">
+                    <td className="py-3 pr-3">
+                      <Checkbox
+                        checked={selectedIds.includes(item.id)}
+                        onCheckedChange={(checked) => toggleSelected(item.id, checked === true)}
+                      />
+                    </td>
+                    <td className="py-3 pr-3">
+                      <div className="font-medium text-gray-900">{item.itemId}</div>
+                      <div className="text-xs text-gray-500">{item.itemType}</div>
+                    </td>
+                    <td className="py-3 pr-3">
+                      <div className="flex items-center space-x-2">
+                        <Badge variant="outline">{item.jobType}</Badge>
+                        <span className="text-gray-700">{item.channel}</span>
+                      </div>
+                      <div className="text-xs text-gray-500 mt-1">{item.jobId}</div>
+                    </td>
+                    <td className="py-3 pr-3 max-w-sm">
+                      <div className="flex items-start space-x-1 text-red-600">
+                        <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                        <span className="line-clamp-2">{item.errorMessage || 'Unknown error'}</span>
+                      </div>
+                    </td>
+                    <td className="py-3 pr-3 text-gray-700">
+                      {item.attempts}/{item.maxAttempts}
+                      {item.replayCount > 0 && (
+                        <div className="text-xs text-gray-500">replayed {item.replayCount}×</div>
+                      )}
+                    </td>
+                    <td className="py-3 pr-3 text-gray-600">
+                      {formatDistanceToNow(new Date(item.deadLetteredAt), { addSuffix: true })}
+                    </td>
+                    <td className="py-3 text-right whitespace-nowrap">
+                      <Button variant="ghost" size="sm" onClick={() => openInspector(item)}>
+                        <Eye className="w-4 h-4 mr-1" />
+                        Inspect
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => replay([item.id])} disabled={isReplaying}>
+                        <RotateCcw className="w-4 h-4 mr-1" />
+                        Replay
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {total > PAGE_SIZE && (
+          <div className="flex items-center justify-between mt-4 text-sm text-gray-600">
+            <span>{total} items</span>
+            <div className="flex items-center space-x-2">
+              <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+                Previous
+              </Button>
+              <span>Page {page} of {totalPages}</span>
+              <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= totalPages}>
+                Next
+              </Button>
+            </div>
+          </div>
+        )}
+      </Card>
+
+      {/* Inspector */}
+      <Dialog open={inspected !== null} onOpenChange={(open) => !open && setInspected(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>
+              {inspected?.itemType} {inspected?.itemId}
+            </DialogTitle>
+          </DialogHeader>
+
+          {inspected && (
+            <div className="space-y-4">
+              <div className="rounded-lg bg-red-50 border border-red-200 p-3 text-sm text-red-700">
+                {inspected.errorMessage || 'Unknown error'}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="dead-letter-payload">Payload</Label>
+                <Textarea
+                  id="dead-letter-payload"
+                  value={payload}
+                  onChange={(e) => { setPayload(e.target.value); setPayloadError(null) }}
+                  className="font-mono text-xs min-h-[280px]"
+                />
+                {payloadError && <p className="text-sm text-red-600">{payloadError}</p>}
+              </div>
+
+              <div className="flex justify-end space-x-2">
+                <Button variant="outline" onClick={() => savePayload(false)} disabled={isSaving}>
+                  <Save className="w-4 h-4 mr-2" />
+                  Save
+                </Button>
+                <Button onClick={() => savePayload(true)} disabled={isSaving || isReplaying}>
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  Save &amp; Replay
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
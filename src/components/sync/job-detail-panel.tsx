@@ -0,0 +1,298 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { RotateCcw, XCircle, X, AlertTriangle, Info, AlertCircle } from 'lucide-react'
+import { format } from 'date-fns'
+import { JobRow, JobStatusBadge } from '@/components/sync/job-status-badge'
+
+interface JobDetailPanelProps {
+  jobId: string
+  onClose: () => void
+  onChanged: () => void
+}
+
+interface JobItemRow {
+  id: string
+  itemType: string
+  itemId: string
+  status: 'pending' | 'processing' | 'completed' | 'failed'
+  attempts: number
+  maxAttempts: number
+  nextRetryAt?: string
+  errorMessage?: string
+  deadLetteredAt?: string
+}
+
+interface LogRow {
+  id: string
+  level: 'info' | 'warning' | 'error'
+  message: string
+  createdAt: string
+}
+
+const itemStatuses = [
+  { value: 'all', label: 'All Items' },
+  { value: 'pending', label: 'Pending' },
+  { value: 'processing', label: 'Processing' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'failed', label: 'Failed' },
+]
+
+const itemStatusStyles: Record<JobItemRow['status'], string> = {
+  pending: 'text-gray-600',
+  processing: 'text-blue-600',
+  completed: 'text-green-600',
+  failed: 'text-red-600',
+}
+
+const logIcons = {
+  info: <Info className="w-3.5 h-3.5 text-blue-500 flex-shrink-0 mt-0.5" />,
+  warning: <AlertCircle className="w-3.5 h-3.5 text-yellow-500 flex-shrink-0 mt-0.5" />,
+  error: <AlertTriangle className="w-3.5 h-3.5 text-red-500 flex-shrink-0 mt-0.5" />,
+}
+
+// Logs of active jobs are polled this often
+const LOG_POLL_INTERVAL_MS = 3000
+
+export function JobDetailPanel({ jobId, onClose, onChanged }: JobDetailPanelProps) {
+  const [job, setJob] = useState<JobRow | null>(null)
+  const [items, setItems] = useState<JobItemRow[]>([])
+  const [logs, setLogs] = useState<LogRow[]>([])
+  const [itemStatus, setItemStatus] = useState('all')
+  const [itemPage, setItemPage] = useState(1)
+  const [isActing, setIsActing] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+  const logEndRef = useRef<HTMLDivElement>(null)
+  const lastLogAt = useRef<string | undefined>(undefined)
+
+  // Loads the job and its items; logs are appended from the last one seen
+  const loadJob = useCallback(async () => {
+    const params = new URLSearchParams({ id: jobId, itemPage: String(itemPage) })
+    if (itemStatus !== 'all') params.set('itemStatus', itemStatus)
+    if (lastLogAt.current) params.set('logsAfter', lastLogAt.current)
+
+    const response = await fetch(`/api/sync/jobs?${params}`)
+    const data = await response.json()
+    if (!data.success) return
+
+    setJob(data.job)
+    setItems(data.items)
+    if (data.logs.length > 0) {
+      lastLogAt.current = data.logs[data.logs.length - 1].createdAt
+      setLogs(prev => [...prev, ...data.logs])
+    }
+  }, [jobId, itemPage, itemStatus])
+
+  // Start over when another job is opened
+  useEffect(() => {
+    lastLogAt.current = undefined
+    setLogs([])
+    setItemPage(1)
+    setMessage(null)
+  }, [jobId])
+
+  useEffect(() => {
+    loadJob()
+  }, [loadJob])
+
+  const isActive = job?.status === 'pending' || job?.status === 'running'
+
+  useEffect(() => {
+    if (!isActive) return
+    const interval = setInterval(loadJob, LOG_POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [isActive, loadJob])
+
+  useEffect(() => {
+    logEndRef.current?.scrollIntoView({ block: 'nearest' })
+  }, [logs.length])
+
+  const handleAction = async (action: 'retry' | 'cancel') => {
+    setIsActing(true)
+    setMessage(null)
+    try {
+      const response = await fetch('/api/sync/jobs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jobId, action }),
+      })
+      const data = await response.json()
+      setMessage(data.success
+        ? { type: 'success', text: action === 'retry' ? 'Job queued for retry' : 'Job cancelled' }
+        : { type: 'error', text: Array.isArray(data.details) ? data.details.join(', ') : data.details || data.error })
+      await loadJob()
+      onChanged()
+    } finally {
+      setIsActing(false)
+    }
+  }
+
+  if (!job) {
+    return (
+      <Card className="p-6">
+        <p className="text-sm text-gray-500">Loading job...</p>
+      </Card>
+    )
+  }
+
+  return (
+    <Card className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between">
+        <div>
+          <div className="flex items-center space-x-2">
+            <h3 className="text-lg font-semibold text-gray-900">
+              {job.type} · {job.channel}
+            </h3>
+            <JobStatusBadge status={job.status} />
+          </div>
+          <p className="text-xs text-gray-500 mt-1">{job.id}</p>
+        </div>
+        <Button variant="ghost" size="icon" onClick={onClose}>
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-3 gap-4 text-sm">
+        <div>
+          <p className="text-gray-500">Items</p>
+          <p className="font-medium text-gray-900">{job.totalItems}</p>
+        </div>
+        <div>
+          <p className="text-gray-500">Completed</p>
+          <p className="font-medium text-green-600">{job.completedItems}</p>
+        </div>
+        <div>
+          <p className="text-gray-500">Failed</p>
+          <p className="font-medium text-red-600">{job.failedItems}</p>
+        </div>
+        <div>
+          <p className="text-gray-500">Created</p>
+          <p className="text-gray-900">{format(new Date(job.createdAt), 'dd MMM HH:mm:ss')}</p>
+        </div>
+        <div>
+          <p className="text-gray-500">Started</p>
+          <p className="text-gray-900">{job.startedAt ? format(new Date(job.startedAt), 'dd MMM HH:mm:ss') : '—'}</p>
+        </div>
+        <div>
+          <p className="text-gray-500">Next run</p>
+          <p className="text-gray-900">{job.nextRunAt ? format(new Date(job.nextRunAt), 'dd MMM HH:mm:ss') : '—'}</p>
+        </div>
+      </div>
+
+      {job.errorMessage && (
+        <div className="rounded-lg bg-red-50 border border-red-200 p-3 text-sm text-red-700">
+          {job.errorMessage}
+        </div>
+      )}
+
+      {/* Actions */}
+      <div className="flex items-center space-x-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => handleAction('retry')}
+          disabled={isActing || job.status === 'running' || job.status === 'pending'}
+        >
+          <RotateCcw className="w-4 h-4 mr-2" />
+          Retry Failed Items
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => handleAction('cancel')}
+          disabled={isActing || !isActive}
+        >
+          <XCircle className="w-4 h-4 mr-2" />
+          Cancel
+        </Button>
+        {message && (
+          <span className={`text-sm ${message.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>
+            {message.text}
+          </span>
+        )}
+      </div>
+
+      {/* Items */}
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <h4 className="font-medium text-gray-900">Items</h4>
+          <Select value={itemStatus} onValueChange={(value) => { setItemStatus(value); setItemPage(1) }}>
+            <SelectTrigger className="w-36 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {itemStatuses.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {items.length === 0 ? (
+          <p className="text-sm text-gray-500">No items</p>
+        ) : (
+          <div className="max-h-72 overflow-y-auto border border-gray-200 rounded-lg divide-y">
+            {items.map((item) => (
+              <div key={item.id} className="px-3 py-2 text-sm">
+                <div className="flex items-center justify-between">
+                  <span className="text-gray-900">
+                    {item.itemType} <span className="font-medium">{item.itemId}</span>
+                  </span>
+                  <div className="flex items-center space-x-2">
+                    {item.deadLetteredAt && <Badge variant="destructive">dead letter</Badge>}
+                    <span className={`font-medium ${itemStatusStyles[item.status]}`}>{item.status}</span>
+                    <span className="text-xs text-gray-500">{item.attempts}/{item.maxAttempts}</span>
+                  </div>
+                </div>
+                {item.errorMessage && (
+                  <p className="text-xs text-red-600 mt-1">{item.errorMessage}</p>
+                )}
+                {item.status === 'pending' && item.nextRetryAt && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Retry at {format(new Date(item.nextRetryAt), 'dd MMM HH:mm:ss')}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-2 mt-2">
+          <Button variant="outline" size="sm" onClick={() => setItemPage(itemPage - 1)} disabled={itemPage <= 1}>
+            Previous
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setItemPage(itemPage + 1)} disabled={items.length < 100}>
+            Next
+          </Button>
+        </div>
+      </div>
+
+      {/* Log stream */}
+      <div>
+        <h4 className="font-medium text-gray-900 mb-3">Log</h4>
+        <div className="max-h-72 overflow-y-auto rounded-lg bg-gray-50 border border-gray-200 p-3 space-y-1 font-mono text-xs">
+          {logs.length === 0 ? (
+            <p className="text-gray-500">No log entries</p>
+          ) : (
+            logs.map((log) => (
+              <div key={log.id} className="flex items-start space-x-2">
+                {logIcons[log.level]}
+                <span className="text-gray-500 flex-shrink-0">{format(new Date(log.createdAt), 'HH:mm:ss')}</span>
+                <span className="text-gray-800">{log.message}</span>
+              </div>
+            ))
+          )}
+          <div ref={logEndRef} />
+        </div>
+      </div>
+    </Card>
+  )
+}
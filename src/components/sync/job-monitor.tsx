@@ -0,0 +1,245 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { RefreshCw } from 'lucide-react'
+import { formatDistanceToNow } from 'date-fns'
+import { JobRow, JobStatusBadge } from '@/components/sync/job-status-badge'
+import { JobDetailPanel } from '@/components/sync/job-detail-panel'
+
+interface JobMonitorProps {}
+
+interface AccountOption {
+  id: string
+  channel: string
+  shopName: string
+}
+
+const channels = [
+  { value: 'all', label: 'All Channels' },
+  { value: 'shopee', label: 'Shopee' },
+  { value: 'tiktokshop', label: 'TikTok Shop' },
+  { value: 'tokopedia', label: 'Tokopedia' },
+  { value: 'lazada', label: 'Lazada' },
+]
+
+const statuses = [
+  { value: 'all', label: 'All Statuses' },
+  { value: 'pending', label: 'Pending' },
+  { value: 'running', label: 'Running' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'failed', label: 'Failed' },
+  { value: 'cancelled', label: 'Cancelled' },
+]
+
+const jobTypes = [
+  { value: 'all', label: 'All Kinds' },
+  { value: 'pull', label: 'Pull' },
+  { value: 'push', label: 'Push' },
+  { value: 'sync', label: 'Sync' },
+]
+
+const priorityLabels = ['low', 'normal', 'high', 'urgent']
+
+const PAGE_SIZE = 25
+
+// The job list refreshes itself this often so running jobs stay current
+const LIST_POLL_INTERVAL_MS = 10000
+
+export function JobMonitor({}: JobMonitorProps) {
+  const [jobs, setJobs] = useState<JobRow[]>([])
+  const [accounts, setAccounts] = useState<AccountOption[]>([])
+  const [total, setTotal] = useState(0)
+  const [page, setPage] = useState(1)
+  const [channel, setChannel] = useState('all')
+  const [accountId, setAccountId] = useState('all')
+  const [status, setStatus] = useState('all')
+  const [jobType, setJobType] = useState('all')
+  const [selectedJobId, setSelectedJobId] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const loadJobs = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) })
+      if (channel !== 'all') params.set('channel', channel)
+      if (accountId !== 'all') params.set('accountId', accountId)
+      if (status !== 'all') params.set('status', status)
+      if (jobType !== 'all') params.set('type', jobType)
+
+      const response = await fetch(`/api/sync/jobs?${params}`)
+      const data = await response.json()
+      setJobs(data.success ? data.jobs : [])
+      setTotal(data.success ? data.total : 0)
+      if (data.success) setAccounts(data.accounts)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [page, channel, accountId, status, jobType])
+
+  // Open the job linked from a progress toast (/sync?job=<id>)
+  useEffect(() => {
+    const jobId = new URLSearchParams(window.location.search).get('job')
+    if (jobId) setSelectedJobId(jobId)
+  }, [])
+
+  useEffect(() => {
+    loadJobs()
+    const interval = setInterval(loadJobs, LIST_POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [loadJobs])
+
+  const accountOptions = accounts.filter(account => channel === 'all' || account.channel === channel)
+  const accountName = (id?: string) => accounts.find(account => account.id === id)?.shopName
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE))
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <Card className="p-6">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={channel} onValueChange={(value) => { setChannel(value); setAccountId('all'); setPage(1) }}>
+              <SelectTrigger className="w-40">
+                <SelectValue placeholder="Channel" />
+              </SelectTrigger>
+              <SelectContent>
+                {channels.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={accountId} onValueChange={(value) => { setAccountId(value); setPage(1) }}>
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder="Account" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Accounts</SelectItem>
+                {accountOptions.map((account) => (
+                  <SelectItem key={account.id} value={account.id}>
+                    {account.shopName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={status} onValueChange={(value) => { setStatus(value); setPage(1) }}>
+              <SelectTrigger className="w-40">
+                <SelectValue placeholder="Status" />
+              </SelectTrigger>
+              <SelectContent>
+                {statuses.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={jobType} onValueChange={(value) => { setJobType(value); setPage(1) }}>
+              <SelectTrigger className="w-36">
+                <SelectValue placeholder="Kind" />
+              </SelectTrigger>
+              <SelectContent>
+                {jobTypes.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Button variant="outline" onClick={loadJobs} disabled={isLoading}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+      </Card>
+
+      <div className={`grid gap-6 ${selectedJobId ? 'lg:grid-cols-2' : ''}`}>
+        {/* Jobs */}
+        <Card className="p-6">
+          {jobs.length === 0 ? (
+            <div className="text-center py-8">
+              <p className="text-sm text-gray-500">{isLoading ? 'Loading...' : 'No jobs found'}</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 text-left text-gray-600">
+                    <th className="py-2 pr-3 font-medium">Job</th>
+                    <th className="py-2 pr-3 font-medium">Account</th>
+                    <th className="py-2 pr-3 font-medium">Status</th>
+                    <th className="py-2 pr-3 font-medium">Progress</th>
+                    <th className="py-2 font-medium">Created</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {jobs.map((job) => (
+                    <tr
+                      key={job.id}
+                      onClick={() => setSelectedJobId(job.id)}
+                      className={`cursor-pointer hover:bg-gray-50 ${selectedJobId === job.id ? 'bg-blue-50' : ''}`}
+                    >
+                      <td className="py-3 pr-3">
+                        <div className="flex items-center space-x-2">
+                          <Badge variant="outline">{job.type}</Badge>
+                          <span className="text-xs text-gray-500">{priorityLabels[job.priority]}</span>
+                        </div>
+                      </td>
+                      <td className="py-3 pr-3">
+                        <div className="text-gray-900">{accountName(job.channelAccountId) || '—'}</div>
+                        <div className="text-xs text-gray-500">{job.channel}</div>
+                      </td>
+                      <td className="py-3 pr-3">
+                        <JobStatusBadge status={job.status} />
+                      </td>
+                      <td className="py-3 pr-3 text-gray-700">
+                        {job.completedItems + job.failedItems}/{job.totalItems}
+                        {job.failedItems > 0 && (
+                          <div className="text-xs text-red-600">{job.failedItems} failed</div>
+                        )}
+                      </td>
+                      <td className="py-3 text-gray-600 whitespace-nowrap">
+                        {formatDistanceToNow(new Date(job.createdAt), { addSuffix: true })}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {total > PAGE_SIZE && (
+            <div className="flex items-center justify-between mt-4 text-sm text-gray-600">
+              <span>{total} jobs</span>
+              <div className="flex items-center space-x-2">
+                <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+                  Previous
+                </Button>
+                <span>Page {page} of {totalPages}</span>
+                <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= totalPages}>
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </Card>
+
+        {/* Selected job */}
+        {selectedJobId && (
+          <JobDetailPanel
+            jobId={selectedJobId}
+            onClose={() => setSelectedJobId(null)}
+            onChanged={loadJobs}
+          />
+        )}
+      </div>
+    </div>
+  )
+}
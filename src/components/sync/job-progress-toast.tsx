@@ -0,0 +1,114 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import { AlertTriangle, CheckCircle, Loader2, X, XCircle } from 'lucide-react'
+import { JobRow, JobStatusBadge } from '@/components/sync/job-status-badge'
+
+export interface JobProgress {
+  status: JobRow['status']
+  totalItems: number
+  completedItems: number
+  failedItems: number
+  currentItem?: string
+  errorMessage?: string
+}
+
+interface JobProgressToastProps {
+  jobId: string
+  label?: string
+  onClose: () => void
+}
+
+/**
+ * Follow a job's progress events from /api/sync/jobs/stream. The connection
+ * is closed once the job finishes.
+ */
+export function useJobProgressStream(jobId: string) {
+  const [progress, setProgress] = useState<JobProgress | null>(null)
+  const [lastError, setLastError] = useState<string | undefined>(undefined)
+
+  useEffect(() => {
+    const source = new EventSource(`/api/sync/jobs/stream?id=${encodeURIComponent(jobId)}`)
+
+    source.addEventListener('progress', (event) => {
+      const data = JSON.parse((event as MessageEvent).data) as JobProgress
+      setProgress(data)
+      if (data.errorMessage) setLastError(data.errorMessage)
+    })
+    source.addEventListener('end', () => source.close())
+    source.addEventListener('stream-error', (event) => {
+      setLastError(JSON.parse((event as MessageEvent).data).message)
+    })
+
+    return () => source.close()
+  }, [jobId])
+
+  return { progress, lastError }
+}
+
+export function JobProgressToast({ jobId, label, onClose }: JobProgressToastProps) {
+  const { progress, lastError } = useJobProgressStream(jobId)
+
+  const done = progress ? progress.completedItems + progress.failedItems : 0
+  const percentage = progress && progress.totalItems > 0
+    ? Math.round((done / progress.totalItems) * 100)
+    : 0
+  const isFinished = progress && ['completed', 'failed', 'cancelled'].includes(progress.status)
+
+  return (
+    <Card className="w-80 p-4 shadow-lg">
+      <div className="flex items-start justify-between">
+        <div className="flex items-center space-x-2 min-w-0">
+          {!isFinished ? (
+            <Loader2 className="w-4 h-4 text-blue-600 animate-spin flex-shrink-0" />
+          ) : progress?.status === 'completed' && progress.failedItems === 0 ? (
+            <CheckCircle className="w-4 h-4 text-green-600 flex-shrink-0" />
+          ) : (
+            <XCircle className="w-4 h-4 text-red-600 flex-shrink-0" />
+          )}
+          <span className="text-sm font-medium text-gray-900 truncate">{label || `Job ${jobId.slice(0, 8)}`}</span>
+        </div>
+        <Button variant="ghost" size="icon" className="h-6 w-6 -mr-2 -mt-1" onClick={onClose}>
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {progress ? (
+        <div className="mt-3 space-y-2">
+          <div className="flex items-center justify-between text-xs text-gray-600">
+            <span>
+              {done}/{progress.totalItems} items
+              {progress.failedItems > 0 && <span className="text-red-600"> · {progress.failedItems} failed</span>}
+            </span>
+            <JobStatusBadge status={progress.status} />
+          </div>
+          <div className="bg-gray-200 rounded-full h-2 overflow-hidden">
+            <div
+              className={`h-2 rounded-full transition-all duration-500 ${progress.failedItems > 0 ? 'bg-yellow-500' : 'bg-blue-600'}`}
+              style={{ width: `${percentage}%` }}
+            />
+          </div>
+          {!isFinished && progress.currentItem && (
+            <p className="text-xs text-gray-500 truncate">Processing {progress.currentItem}</p>
+          )}
+        </div>
+      ) : (
+        <p className="mt-3 text-xs text-gray-500">Connecting...</p>
+      )}
+
+      {lastError && (
+        <div className="mt-2 flex items-start space-x-1 text-xs text-red-600">
+          <AlertTriangle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+          <span className="line-clamp-2">{lastError}</span>
+        </div>
+      )}
+
+      <Link href={`/sync?job=${jobId}`} className="block mt-3 text-xs font-medium text-blue-600 hover:underline">
+        View in Sync Monitor
+      </Link>
+    </Card>
+  )
+}
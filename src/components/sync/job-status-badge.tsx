@@ -0,0 +1,36 @@
+'use client'
+
+import { Badge } from '@/components/ui/badge'
+
+export interface JobRow {
+  id: string
+  type: 'pull' | 'push' | 'sync'
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled'
+  channel: string
+  channelAccountId?: string
+  priority: number
+  totalItems: number
+  completedItems: number
+  failedItems: number
+  startedAt?: string
+  completedAt?: string
+  nextRunAt?: string
+  errorMessage?: string
+  createdAt: string
+}
+
+const statusStyles: Record<JobRow['status'], string> = {
+  pending: 'bg-gray-100 text-gray-700',
+  running: 'bg-blue-100 text-blue-700',
+  completed: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+  cancelled: 'bg-yellow-100 text-yellow-700',
+}
+
+export function JobStatusBadge({ status }: { status: JobRow['status'] }) {
+  return (
+    <Badge variant="outline" className={`border-transparent ${statusStyles[status]}`}>
+      {status}
+    </Badge>
+  )
+}
@@ -0,0 +1,181 @@
+/**
+ * Channel Account Credentials
+ *
+ * Loads everything a connector needs to act on one shop: the account row from
+ * channel_accounts, its active access token from channel_tokens and the
+ * app-level secrets referenced by `credentials_ref`.
+ *
+ * Supported `credentials_ref` schemes:
+ * - `env:SHOPEE_SG_*`  - environment variables sharing the prefix (SHOPEE_SG_PARTNER_ID -> partnerId)
+ * - `vault:shopee_sg`  - JSON secret stored in Supabase Vault (read with the
+ *                        service-role client, so server only)
+ *
+ * Accounts without a reference fall back to the platform's default env prefix.
+ */
+
+import { supabase } from '@/lib/supabase'
+import { getSupabaseAdmin } from '@/lib/supabase-admin'
+import { dataTransformers } from '@/lib/data-sources'
+import { PlatformType } from '@/types/product'
+import { resolvePlatform } from '@/connectors/registry'
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ChannelAccountCredentials {
+  channelAccountId: string
+  platform: PlatformType
+  shopId?: string
+  sellerId?: string
+  market?: string
+  isSandbox: boolean
+  accessToken?: string
+  secrets: Record<string, string>
+  metadata: Record<string, any>
+}
+
+/**
+ * Environment prefix used when an account has no credentials_ref
+ */
+const DEFAULT_ENV_PREFIXES: Record<PlatformType, string> = {
+  shopee: 'SHOPEE_',
+  tiktok: 'TTS_',
+  tokopedia: 'TOKOPEDIA_',
+  lazada: 'LAZADA_'
+}
+
+const logPrefix = '[ChannelCredentials]'
+
+// =============================================================================
+// CREDENTIAL LOADING
+// =============================================================================
+
+/**
+ * Load credentials for a channel account
+ *
+ * Throws when the account does not exist or its channel is not supported.
+ * A missing access token is not an error here; factories that need one
+ * check `accessToken` themselves.
+ */
+export async function loadChannelAccountCredentials(channelAccountId: string): Promise<ChannelAccountCredentials> {
+  const { data: account, error } = await supabase
+    .from('channel_accounts')
+    .select('*')
+    .eq('id', channelAccountId)
+    .single()
+
+  if (error || !account) {
+    throw new Error(`Channel account ${channelAccountId} not found`)
+  }
+
+  const channel: string = account.channel ?? account.channel_slug
+  const platform = resolvePlatform(channel)
+  if (!platform) {
+    throw new Error(`Channel account ${channelAccountId} has unsupported channel '${channel}'`)
+  }
+
+  const { data: accessToken, error: tokenError } = await supabase.rpc('get_active_access_token', {
+    p_account_id: channelAccountId
+  })
+
+  if (tokenError) {
+    console.warn(`${logPrefix} Failed to load access token for ${channelAccountId}:`, tokenError)
+  }
+
+  const secrets = await resolveCredentialsRef(
+    account.credentials_ref || `env:${DEFAULT_ENV_PREFIXES[platform]}*`
+  )
+
+  return {
+    channelAccountId,
+    platform,
+    shopId: account.shop_id || undefined,
+    sellerId: account.seller_id || undefined,
+    market: account.country_code || account.metadata?.market || undefined,
+    isSandbox: !!account.is_sandbox,
+    accessToken: accessToken || undefined,
+    secrets,
+    metadata: account.metadata || {}
+  }
+}
+
+/**
+ * Find the channel account for a platform shop, e.g. from a webhook's shop_id
+ */
+export async function findChannelAccountId(channel: string, shopId: string | number): Promise<string | null> {
+  const platform = resolvePlatform(channel)
+  if (!platform) {
+    return null
+  }
+
+  const { data: accounts, error } = await supabase
+    .from('channel_accounts')
+    .select('id, channel')
+    .eq('shop_id', String(shopId))
+
+  if (error) {
+    console.error(`${logPrefix} Failed to look up account for shop ${shopId}:`, error)
+    return null
+  }
+
+  const match = (accounts || []).find(account => resolvePlatform(account.channel) === platform)
+  return match?.id || null
+}
+
+// =============================================================================
+// CREDENTIALS_REF RESOLUTION
+// =============================================================================
+
+/**
+ * Resolve a credentials_ref into camelCased secrets
+ */
+export async function resolveCredentialsRef(ref: string): Promise<Record<string, string>> {
+  const separator = ref.indexOf(':')
+  const scheme = separator > 0 ? ref.slice(0, separator) : ''
+  const target = ref.slice(separator + 1)
+
+  switch (scheme) {
+    case 'env':
+      return resolveEnvCredentials(target)
+    case 'vault':
+      return resolveVaultCredentials(target)
+    default:
+      throw new Error(`Unsupported credentials_ref scheme: '${ref}'`)
+  }
+}
+
+/**
+ * Collect environment variables sharing a prefix ('SHOPEE_SG_*' or 'SHOPEE_SG')
+ */
+function resolveEnvCredentials(pattern: string): Record<string, string> {
+  const prefix = pattern.replace(/\*$/, '').replace(/_?$/, '_')
+  const secrets: Record<string, string> = {}
+
+  Object.entries(process.env).forEach(([key, value]) => {
+    if (key.startsWith(prefix) && value) {
+      secrets[key.slice(prefix.length).toLowerCase()] = value
+    }
+  })
+
+  if (Object.keys(secrets).length === 0) {
+    throw new Error(`No environment variables found for credentials_ref 'env:${pattern}'`)
+  }
+
+  return dataTransformers.snakeToCamel(secrets)
+}
+
+/**
+ * Read a JSON secret from Supabase Vault via the get_channel_secret RPC,
+ * which only the service role may call
+ */
+async function resolveVaultCredentials(name: string): Promise<Record<string, string>> {
+  const { data, error } = await getSupabaseAdmin().rpc('get_channel_secret', { p_name: name })
+
+  if (error || !data) {
+    throw new Error(`Vault secret '${name}' could not be read${error ? `: ${error.message}` : ''}`)
+  }
+
+  const secret = typeof data === 'string' ? JSON.parse(data) : data
+  return dataTransformers.snakeToCamel(secret)
+}
@@ -0,0 +1,552 @@
+/**
+ * Lazada Connector Client
+ *
+ * Handles authentication, request signing, API communication,
+ * and base operations for the Lazada Open Platform API.
+ *
+ * Lazada API Reference: https://open.lazada.com/apps/doc/doc?nodeId=10450&docId=108068
+ */
+
+import {
+  ConnectorConfig,
+  ConnectorResponse,
+  ConnectorError,
+  RetryConfig,
+  IdempotencyKey
+} from '@/connectors/types'
+import { rateLimiter, getEndpointGroup } from '@/connectors/rate-limiter'
+import { signaturesMatch } from '@/connectors/signatures'
+import crypto from 'crypto'
+
+// =============================================================================
+// LAZADA CLIENT CONFIGURATION
+// =============================================================================
+
+export interface LazadaClientConfig extends ConnectorConfig {
+  baseUrl: string
+  authUrl?: string
+  appKey: string
+  appSecret: string
+  accessToken: string
+  sellerId?: string
+  currency?: string
+}
+
+export interface LazadaApiResponse<T = any> {
+  code: string
+  type?: string
+  message?: string
+  request_id: string
+  data?: T
+}
+
+export interface LazadaTokenResponse {
+  access_token: string
+  refresh_token: string
+  expires_in: number
+  refresh_expires_in: number
+  account: string
+  country: string
+  account_platform?: string
+  country_user_info?: Array<{
+    country: string
+    user_id: string
+    seller_id: string
+    short_code: string
+  }>
+}
+
+/**
+ * Lazada error codes that are safe to retry (returned with HTTP 200)
+ */
+const LAZADA_RETRYABLE_CODES = ['ApiCallLimit', 'ServiceTimeout', 'ISP.ServiceTimeout', 'InternalError']
+
+// =============================================================================
+// LAZADA CLIENT CLASS
+// =============================================================================
+
+export class LazadaClient {
+  private config: LazadaClientConfig
+
+  constructor(config: LazadaClientConfig) {
+    this.config = {
+      timeout: 30000,
+      retryAttempts: 3,
+      rateLimitPerMinute: 60,
+      authUrl: 'https://auth.lazada.com/rest',
+      currency: 'IDR',
+      ...config
+    }
+  }
+
+  // =============================================================================
+  // REQUEST SIGNING
+  // =============================================================================
+
+  /**
+   * Generate request signature
+   *
+   * Lazada signs the API path followed by every parameter (sorted by key,
+   * concatenated as key + value) with HMAC-SHA256, upper-case hex encoded.
+   */
+  private generateSignature(apiPath: string, params: Record<string, string>): string {
+    const baseString = Object.keys(params)
+      .filter(key => key !== 'sign')
+      .sort()
+      .reduce((acc, key) => acc + key + params[key], apiPath)
+
+    return crypto
+      .createHmac('sha256', this.config.appSecret)
+      .update(baseString)
+      .digest('hex')
+      .toUpperCase()
+  }
+
+  // =============================================================================
+  // HTTP CLIENT WITH RETRY AND RATE LIMITING
+  // =============================================================================
+
+  /**
+   * Make signed API request to Lazada
+   *
+   * All business parameters are signed together with the system parameters.
+   * GET requests send them in the query string, POST requests as a form body.
+   * File uploads pass the file parts as `formData`; files are not signed, so
+   * the signed parameters move to the query string.
+   * Auth endpoints are served from the auth host and return their fields at
+   * the top level instead of under `data`.
+   */
+  async request<T = any>(
+    apiPath: string,
+    options: {
+      method?: 'GET' | 'POST'
+      params?: Record<string, any>
+      formData?: FormData
+      idempotencyKey?: string
+      authEndpoint?: boolean
+    } = {}
+  ): Promise<ConnectorResponse<T>> {
+    const {
+      method = 'GET',
+      params = {},
+      formData,
+      idempotencyKey,
+      authEndpoint = false
+    } = options
+
+    const path = apiPath.startsWith('/') ? apiPath : `/${apiPath}`
+
+    // Shared token bucket per channel account and endpoint group
+    const rateLimit = await rateLimiter.acquire(
+      { platform: 'lazada', channelAccountId: this.config.channelAccountId, group: getEndpointGroup(path) },
+      this.config.rateLimitPerMinute || 60
+    )
+    if (!rateLimit.allowed) {
+      return {
+        success: false,
+        error: {
+          code: 'RATE_LIMITED',
+          message: `Rate limit exceeded. Retry in ${Math.ceil(rateLimit.retryAfterMs / 1000)}s.`,
+          details: { retryAfterMs: rateLimit.retryAfterMs },
+          retryable: true
+        }
+      }
+    }
+
+    const retryConfig: RetryConfig = {
+      maxAttempts: this.config.retryAttempts || 3,
+      baseDelayMs: 1000,
+      maxDelayMs: 30000,
+      backoffMultiplier: 2
+    }
+
+    return this.executeWithRetry<T>(path, method, params, formData, authEndpoint, retryConfig, idempotencyKey)
+  }
+
+  /**
+   * Build signed parameters for a request
+   *
+   * The timestamp is part of the signature, so this runs once per attempt.
+   */
+  private buildSignedParams(
+    path: string,
+    params: Record<string, any>,
+    authEndpoint: boolean
+  ): Record<string, string> {
+    const signedParams: Record<string, string> = {
+      app_key: this.config.appKey,
+      timestamp: Date.now().toString(),
+      sign_method: 'sha256'
+    }
+
+    if (!authEndpoint && this.config.accessToken) {
+      signedParams.access_token = this.config.accessToken
+    }
+
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) {
+        signedParams[key] = typeof value === 'object' ? JSON.stringify(value) : String(value)
+      }
+    })
+
+    signedParams.sign = this.generateSignature(path, signedParams)
+    return signedParams
+  }
+
+  /**
+   * Execute request with retry logic
+   */
+  private async executeWithRetry<T>(
+    path: string,
+    method: 'GET' | 'POST',
+    params: Record<string, any>,
+    formData: FormData | undefined,
+    authEndpoint: boolean,
+    retryConfig: RetryConfig,
+    idempotencyKey?: string
+  ): Promise<ConnectorResponse<T>> {
+    let lastError: ConnectorError | null = null
+    const host = authEndpoint ? this.config.authUrl : this.config.baseUrl
+
+    for (let attempt = 1; attempt <= retryConfig.maxAttempts; attempt++) {
+      try {
+        const signedParams = new URLSearchParams(this.buildSignedParams(path, params, authEndpoint))
+        const formBody = method === 'POST' && !formData
+        const url = formBody
+          ? `${host}${path}`
+          : `${host}${path}?${signedParams.toString()}`
+
+        const response = await fetch(url, {
+          method,
+          headers: {
+            ...(formBody && { 'Content-Type': 'application/x-www-form-urlencoded;charset=utf-8' }),
+            ...(idempotencyKey && { 'X-Idempotency-Key': idempotencyKey }),
+          },
+          body: formBody ? signedParams.toString() : formData,
+          signal: AbortSignal.timeout(this.config.timeout || 30000)
+        })
+
+        const data: LazadaApiResponse<T> = await response.json()
+
+        if (response.ok && data.code === '0') {
+          return {
+            success: true,
+            data: authEndpoint ? (data as unknown as T) : data.data,
+            metadata: {
+              requestId: data.request_id,
+              timestamp: new Date()
+            }
+          }
+        }
+
+        lastError = {
+          code: data.code ? `LAZADA_${data.code}` : 'UNKNOWN_ERROR',
+          message: data.message || `HTTP ${response.status}: ${response.statusText}`,
+          httpStatusCode: response.status,
+          retryable: this.isRetryableError(response.status, data.code),
+          details: { requestId: data.request_id, type: data.type }
+        }
+
+        if (!lastError.retryable || attempt === retryConfig.maxAttempts) {
+          break
+        }
+
+        await this.delay(retryConfig, attempt)
+      } catch (error) {
+        lastError = {
+          code: 'NETWORK_ERROR',
+          message: error instanceof Error ? error.message : 'Network error',
+          retryable: true
+        }
+
+        if (attempt === retryConfig.maxAttempts) break
+
+        await this.delay(retryConfig, attempt)
+      }
+    }
+
+    return {
+      success: false,
+      error: lastError || {
+        code: 'UNKNOWN_ERROR',
+        message: 'An unknown error occurred',
+        retryable: false
+      }
+    }
+  }
+
+  /**
+   * Wait before retry with exponential backoff
+   */
+  private async delay(retryConfig: RetryConfig, attempt: number): Promise<void> {
+    const delay = Math.min(
+      retryConfig.baseDelayMs * Math.pow(retryConfig.backoffMultiplier, attempt - 1),
+      retryConfig.maxDelayMs
+    )
+    await new Promise(resolve => setTimeout(resolve, delay))
+  }
+
+  /**
+   * Determine if error is retryable
+   */
+  private isRetryableError(statusCode: number, code?: string): boolean {
+    // Retry on server errors, rate limits and Lazada's throttling/timeout codes
+    return statusCode >= 500 || statusCode === 429 || (!!code && LAZADA_RETRYABLE_CODES.includes(code))
+  }
+
+  // =============================================================================
+  // OAUTH TOKEN OPERATIONS
+  // =============================================================================
+
+  /**
+   * Exchange an authorization code for seller access and refresh tokens
+   */
+  async createAccessToken(code: string): Promise<ConnectorResponse<LazadaTokenResponse>> {
+    return this.request<LazadaTokenResponse>('/auth/token/create', {
+      method: 'POST',
+      params: { code },
+      authEndpoint: true
+    })
+  }
+
+  /**
+   * Issue a new access token from a refresh token
+   *
+   * Lazada rotates the refresh token on every call.
+   */
+  async refreshAccessToken(refreshToken: string): Promise<ConnectorResponse<LazadaTokenResponse>> {
+    return this.request<LazadaTokenResponse>('/auth/token/refresh', {
+      method: 'POST',
+      params: { refresh_token: refreshToken },
+      authEndpoint: true
+    })
+  }
+
+  // =============================================================================
+  // API HEALTH CHECK
+  // =============================================================================
+
+  /**
+   * Test API connectivity by reading the authorized seller
+   */
+  async healthCheck(): Promise<ConnectorResponse<{ status: 'healthy' | 'unhealthy'; message?: string }>> {
+    try {
+      const response = await this.request('/seller/get')
+
+      if (response.success) {
+        return {
+          success: true,
+          data: {
+            status: 'healthy' as const,
+            message: 'Lazada API connection successful'
+          }
+        }
+      } else {
+        return {
+          success: false,
+          data: {
+            status: 'unhealthy' as const,
+            message: response.error?.message || 'Unknown error'
+          },
+          error: response.error
+        }
+      }
+    } catch (error) {
+      return {
+        success: false,
+        data: {
+          status: 'unhealthy' as const,
+          message: error instanceof Error ? error.message : 'Connection failed'
+        },
+        error: {
+          code: 'HEALTH_CHECK_ERROR',
+          message: error instanceof Error ? error.message : 'Health check failed',
+          retryable: false
+        }
+      }
+    }
+  }
+
+  // =============================================================================
+  // WEBHOOK SIGNATURE VERIFICATION
+  // =============================================================================
+
+  /**
+   * Verify push message signature from Lazada
+   *
+   * Lazada signs app_key + raw body with the app secret.
+   */
+  verifyWebhookSignature(payload: string, signature: string): boolean {
+    try {
+      const expectedSignature = crypto
+        .createHmac('sha256', this.config.appSecret)
+        .update(this.config.appKey + payload)
+        .digest('hex')
+
+      return signaturesMatch(expectedSignature, signature.toLowerCase())
+    } catch (error) {
+      console.error('Error verifying webhook signature:', error)
+      return false
+    }
+  }
+
+  // =============================================================================
+  // IDEMPOTENCY HELPERS
+  // =============================================================================
+
+  /**
+   * Generate idempotency key for request
+   */
+  generateIdempotencyKey(): IdempotencyKey {
+    const key = crypto.randomUUID()
+    return {
+      key,
+      timestamp: new Date(),
+      expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000) // 24 hours
+    }
+  }
+
+  // =============================================================================
+  // GETTERS
+  // =============================================================================
+
+  getConfig(): LazadaClientConfig {
+    return { ...this.config }
+  }
+
+  getSellerId(): string | undefined {
+    return this.config.sellerId
+  }
+
+  getCurrency(): string {
+    return this.config.currency || 'IDR'
+  }
+
+  getBaseUrl(): string {
+    return this.config.baseUrl
+  }
+}
+
+// =============================================================================
+// PAYLOAD HELPERS
+// =============================================================================
+
+/**
+ * Build the XML `payload` parameter used by Lazada write endpoints
+ *
+ * Arrays repeat their element, so `{ Images: { Image: ['a', 'b'] } }` becomes
+ * `<Images><Image>a</Image><Image>b</Image></Images>`.
+ */
+export function buildLazadaPayload(root: Record<string, any>): string {
+  const escape = (value: string) => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+
+  const toXml = (node: Record<string, any>): string => Object.entries(node)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([key, value]) => {
+      const values = Array.isArray(value) ? value : [value]
+      return values
+        .map(item => typeof item === 'object'
+          ? `<${key}>${toXml(item)}</${key}>`
+          : `<${key}>${escape(String(item))}</${key}>`)
+        .join('')
+    })
+    .join('')
+
+  return `<?xml version="1.0" encoding="UTF-8" ?><Request>${toXml(root)}</Request>`
+}
+
+// =============================================================================
+// CLIENT FACTORY
+// =============================================================================
+
+/**
+ * Create Lazada client from environment variables
+ */
+export function createLazadaClient(): LazadaClient {
+  const config: LazadaClientConfig = {
+    baseUrl: process.env.LAZADA_BASE_URL || 'https://api.lazada.co.id/rest',
+    authUrl: process.env.LAZADA_AUTH_URL || 'https://auth.lazada.com/rest',
+    appKey: process.env.LAZADA_APP_KEY || '',
+    appSecret: process.env.LAZADA_APP_SECRET || '',
+    accessToken: process.env.LAZADA_ACCESS_TOKEN || '',
+    sellerId: process.env.LAZADA_SELLER_ID || undefined,
+    currency: process.env.LAZADA_CURRENCY || 'IDR',
+    timeout: 30000,
+    retryAttempts: 3,
+    rateLimitPerMinute: 60
+  }
+
+  // Validate required configuration
+  const missingVars = []
+  if (!config.appKey) missingVars.push('LAZADA_APP_KEY')
+  if (!config.appSecret) missingVars.push('LAZADA_APP_SECRET')
+  if (!config.accessToken) missingVars.push('LAZADA_ACCESS_TOKEN')
+
+  if (missingVars.length > 0) {
+    throw new Error(`Missing required Lazada environment variables: ${missingVars.join(', ')}`)
+  }
+
+  return new LazadaClient(config)
+}
+
+/**
+ * Create Lazada client for OAuth operations
+ *
+ * Token exchange and refresh are signed with the app credentials only,
+ * so no access token is required. Credentials resolved for a channel
+ * account take precedence over the environment.
+ */
+export function createLazadaAuthClient(credentials: Partial<LazadaClientConfig> = {}): LazadaClient {
+  const appKey = credentials.appKey || process.env.LAZADA_APP_KEY || ''
+  const appSecret = credentials.appSecret || process.env.LAZADA_APP_SECRET || ''
+
+  const missingVars = []
+  if (!appKey) missingVars.push('LAZADA_APP_KEY')
+  if (!appSecret) missingVars.push('LAZADA_APP_SECRET')
+
+  if (missingVars.length > 0) {
+    throw new Error(`Missing required Lazada environment variables: ${missingVars.join(', ')}`)
+  }
+
+  return new LazadaClient({
+    baseUrl: credentials.baseUrl || process.env.LAZADA_BASE_URL || 'https://api.lazada.co.id/rest',
+    authUrl: credentials.authUrl || process.env.LAZADA_AUTH_URL || 'https://auth.lazada.com/rest',
+    appKey,
+    appSecret,
+    accessToken: ''
+  })
+}
+
+// =============================================================================
+// STANDALONE WEBHOOK SIGNATURE VERIFICATION
+// =============================================================================
+
+/**
+ * Verify push message signature from Lazada (standalone function)
+ * Used by webhook handlers without needing to instantiate a client
+ */
+export function verifyLazadaSignature(payload: string, signature: string): boolean {
+  const appKey = process.env.LAZADA_APP_KEY
+  const appSecret = process.env.LAZADA_APP_SECRET
+  if (!appKey || !appSecret) {
+    console.error('LAZADA_APP_KEY or LAZADA_APP_SECRET not found in environment')
+    return false
+  }
+
+  try {
+    const expectedSignature = crypto
+      .createHmac('sha256', appSecret)
+      .update(appKey + payload)
+      .digest('hex')
+
+    return signaturesMatch(expectedSignature, signature.toLowerCase())
+  } catch (error) {
+    console.error('Error verifying Lazada webhook signature:', error)
+    return false
+  }
+}
+
+export default LazadaClient
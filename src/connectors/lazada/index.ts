@@ -0,0 +1,280 @@
+/**
+ * Lazada Connector Main Index
+ *
+ * Exports all Lazada connector components and provides factory functions
+ * for easy integration with the AIOStore platform.
+ */
+
+import { LazadaClient, LazadaClientConfig, createLazadaClient } from './client'
+import LazadaProducts from './products'
+import LazadaOrders from './orders'
+import {
+  Connector,
+  ConnectorResponse,
+  ImageUpload,
+  OrderDetail,
+  OrderListParams,
+  OrderStatusUpdate,
+  PlatformCredentials,
+  ProductDetail,
+  ProductListParams,
+  ProductPushData,
+  ProductUpdateData,
+  SyncJob,
+  UploadedImage
+} from '@/connectors/types'
+
+// =============================================================================
+// MAIN LAZADA CONNECTOR CLASS
+// =============================================================================
+
+export class LazadaConnector implements Connector {
+  private client: LazadaClient
+  private products: LazadaProducts
+  private orders: LazadaOrders
+  private logPrefix = '[LazadaConnector]'
+
+  platform = 'lazada' as const
+
+  constructor(client: LazadaClient) {
+    this.client = client
+    this.products = new LazadaProducts(client)
+    this.orders = new LazadaOrders(client)
+  }
+
+  // =============================================================================
+  // GETTERS FOR SUB-MODULES
+  // =============================================================================
+
+  getClient(): LazadaClient {
+    return this.client
+  }
+
+  getProducts(): LazadaProducts {
+    return this.products
+  }
+
+  getOrders(): LazadaOrders {
+    return this.orders
+  }
+
+  // =============================================================================
+  // Connector INTERFACE
+  // =============================================================================
+
+  get config() {
+    return this.client.getConfig()
+  }
+
+  get credentials(): PlatformCredentials {
+    const config = this.client.getConfig()
+    return {
+      appKey: config.appKey,
+      appSecret: config.appSecret,
+      shopId: config.sellerId,
+      accessToken: config.accessToken,
+      baseUrl: config.baseUrl
+    }
+  }
+
+  // Product operations
+  async listProducts(params?: ProductListParams): Promise<ConnectorResponse<ProductDetail[]>> {
+    return this.products.listProducts(params)
+  }
+
+  iterateProducts(params?: Omit<ProductListParams, 'page' | 'cursor'>): AsyncIterable<ProductDetail[]> {
+    return this.products.iterateProducts(params)
+  }
+
+  async getProduct(productId: string): Promise<ConnectorResponse<ProductDetail>> {
+    return this.products.getProduct(productId)
+  }
+
+  async createProduct(data: ProductPushData): Promise<ConnectorResponse<ProductDetail>> {
+    return this.products.createProduct(data)
+  }
+
+  async updateProduct(productId: string, data: ProductUpdateData): Promise<ConnectorResponse<ProductDetail>> {
+    return this.products.updateProduct(productId, data)
+  }
+
+  async updateStock(productId: string, stock: number, variantId?: string): Promise<ConnectorResponse<void>> {
+    return this.products.updateStock(productId, stock, variantId)
+  }
+
+  async updatePrice(
+    productId: string,
+    price: number,
+    compareAtPrice?: number,
+    variantId?: string
+  ): Promise<ConnectorResponse<void>> {
+    return this.products.updatePrice(productId, price, compareAtPrice, variantId)
+  }
+
+  // Media operations
+  async uploadImage(image: ImageUpload): Promise<ConnectorResponse<UploadedImage>> {
+    return this.products.uploadImage(image)
+  }
+
+  // Order operations
+  async listOrders(params?: OrderListParams): Promise<ConnectorResponse<OrderDetail[]>> {
+    return this.orders.listOrders(params)
+  }
+
+  iterateOrders(params?: Omit<OrderListParams, 'page' | 'cursor'>): AsyncIterable<OrderDetail[]> {
+    return this.orders.iterateOrders(params)
+  }
+
+  async getOrder(orderId: string): Promise<ConnectorResponse<OrderDetail>> {
+    return this.orders.getOrder(orderId)
+  }
+
+  async updateOrderStatus(orderId: string, update: OrderStatusUpdate): Promise<ConnectorResponse<void>> {
+    return this.orders.updateOrderStatus(orderId, update)
+  }
+
+  // Health check
+  async healthCheck() {
+    return this.client.healthCheck()
+  }
+
+  // Webhook verification
+  verifyWebhookSignature(payload: string, signature: string): boolean {
+    return this.client.verifyWebhookSignature(payload, signature)
+  }
+
+  // Sync operations are tracked by SyncJobsService, Lazada has no job concept
+  async getSyncStatus(jobId: string): Promise<ConnectorResponse<SyncJob>> {
+    console.warn(`${this.logPrefix} Sync status is tracked by SyncJobsService, not Lazada`)
+    return {
+      success: false,
+      error: {
+        code: 'NOT_SUPPORTED',
+        message: 'Lazada does not expose sync jobs; use SyncJobsService.getJob',
+        retryable: false
+      }
+    }
+  }
+
+  async cancelSync(jobId: string): Promise<ConnectorResponse<void>> {
+    console.warn(`${this.logPrefix} Sync cancellation is handled by SyncJobsService, not Lazada`)
+    return {
+      success: false,
+      error: {
+        code: 'NOT_SUPPORTED',
+        message: 'Lazada does not expose sync jobs; use SyncJobsService.cancelJob',
+        retryable: false
+      }
+    }
+  }
+}
+
+// =============================================================================
+// FACTORY FUNCTIONS
+// =============================================================================
+
+/**
+ * Create a Lazada connector instance with environment-based configuration
+ */
+export function createLazadaConnector(): LazadaConnector {
+  const client = createLazadaClient()
+  return new LazadaConnector(client)
+}
+
+/**
+ * Create Lazada connector with custom configuration
+ */
+export function createCustomLazadaConnector(
+  config: Omit<LazadaClientConfig, 'baseUrl'> & { baseUrl?: string }
+): LazadaConnector {
+  const client = new LazadaClient({
+    ...config,
+    baseUrl: config.baseUrl || 'https://api.lazada.co.id/rest'
+  })
+  return new LazadaConnector(client)
+}
+
+// =============================================================================
+// VALIDATION HELPERS
+// =============================================================================
+
+/**
+ * Validate Lazada configuration
+ */
+export function validateLazadaConfig(): {
+  isValid: boolean
+  errors: string[]
+  warnings: string[]
+} {
+  const errors: string[] = []
+  const warnings: string[] = []
+
+  const requiredVars = [
+    'LAZADA_APP_KEY',
+    'LAZADA_APP_SECRET',
+    'LAZADA_ACCESS_TOKEN'
+  ]
+
+  requiredVars.forEach(varName => {
+    if (!process.env[varName]) {
+      errors.push(`Missing required environment variable: ${varName}`)
+    }
+  })
+
+  if (!process.env.LAZADA_SELLER_ID) {
+    warnings.push('LAZADA_SELLER_ID not set, the seller is resolved from the access token')
+  }
+
+  const baseUrl = process.env.LAZADA_BASE_URL || 'https://api.lazada.co.id/rest'
+  try {
+    new URL(baseUrl)
+  } catch (error) {
+    errors.push('LAZADA_BASE_URL is not a valid URL')
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings
+  }
+}
+
+/**
+ * Test Lazada connection
+ */
+export async function testLazadaConnection(): Promise<{
+  success: boolean
+  message: string
+  details?: any
+}> {
+  try {
+    const connector = createLazadaConnector()
+    const healthCheck = await connector.healthCheck()
+
+    if (healthCheck.success) {
+      return {
+        success: true,
+        message: 'Lazada connection successful',
+        details: healthCheck.data
+      }
+    } else {
+      return {
+        success: false,
+        message: `Lazada connection failed: ${healthCheck.error?.message}`,
+        details: healthCheck.error
+      }
+    }
+  } catch (error) {
+    return {
+      success: false,
+      message: `Lazada connection error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      details: error
+    }
+  }
+}
+
+// =============================================================================
+// EXPORTS
+// =============================================================================
+
+export default LazadaConnector
@@ -0,0 +1,516 @@
+/**
+ * Lazada Orders Module
+ *
+ * Handles order-related operations for Lazada platform:
+ * - List orders with pagination and filtering
+ * - Get order details
+ * - Update order status (pack, ready to ship and cancel)
+ *
+ * Note: Lazada returns one order item per unit, so items are collapsed by
+ * SKU when transforming to the internal format.
+ *
+ * Lazada API Reference: https://open.lazada.com/apps/doc/api?path=%2Forders%2Fget
+ */
+
+import {
+  OrderListParams,
+  OrderDetail,
+  OrderItem,
+  OrderStatusUpdate,
+  ConnectorResponse,
+  OrderStatus,
+  PaymentStatus
+} from '@/connectors/types'
+import { paginateWindows } from '@/connectors/pagination'
+import { LazadaClient } from './client'
+
+// =============================================================================
+// LAZADA ORDER API RESPONSE TYPES
+// =============================================================================
+
+interface LazadaOrderItem {
+  order_item_id: number
+  order_id: number
+  name: string
+  sku: string
+  shop_sku: string
+  product_id?: number
+  item_price: number
+  paid_price: number
+  status: string
+  tracking_code?: string
+  shipment_provider?: string
+}
+
+interface LazadaOrder {
+  order_id: number
+  order_number: number
+  created_at: string
+  updated_at: string
+  price: string // Formatted amount, e.g. "150,000.00"
+  statuses: string[]
+  payment_method?: string
+  customer_first_name?: string
+  customer_last_name?: string
+  address_shipping: {
+    first_name: string
+    last_name?: string
+    phone: string
+    address1: string
+    address2?: string
+    address3?: string
+    city: string
+    post_code: string
+    country: string
+  }
+}
+
+interface LazadaOrderListResponse {
+  count: number
+  countTotal: number
+  orders?: LazadaOrder[]
+}
+
+interface LazadaMultipleOrderItems {
+  order_id: number
+  order_items: LazadaOrderItem[]
+}
+
+// =============================================================================
+// LAZADA ORDER STATUS MAPPING
+// =============================================================================
+
+/**
+ * Lazada order statuses mapped to internal statuses.
+ * Lazada's "pending" means paid and awaiting fulfilment.
+ */
+const LAZADA_ORDER_STATUS_MAPPING: Record<string, OrderStatus> = {
+  unpaid: 'pending',
+  pending: 'paid',
+  topack: 'paid',
+  packed: 'processing',
+  toship: 'processing',
+  ready_to_ship: 'processing',
+  repacked: 'processing',
+  shipped: 'shipped',
+  delivered: 'delivered',
+  confirmed: 'delivered',
+  canceled: 'cancelled',
+  failed: 'cancelled',
+  lost_by_3pl: 'cancelled',
+  damaged_by_3pl: 'cancelled',
+  returned: 'refunded'
+}
+
+/**
+ * Internal statuses mapped to the Lazada status used for filtering
+ */
+const LAZADA_STATUS_FILTER: Partial<Record<OrderStatus, string>> = {
+  pending: 'unpaid',
+  paid: 'pending',
+  processing: 'ready_to_ship',
+  shipped: 'shipped',
+  delivered: 'delivered',
+  cancelled: 'canceled',
+  refunded: 'returned'
+}
+
+/**
+ * Seller cancellation reason used when rejecting orders ("Out of stock")
+ */
+const LAZADA_CANCEL_REASON_OUT_OF_STOCK = 15
+
+const DEFAULT_ORDER_WINDOW_MS = 30 * 24 * 60 * 60 * 1000
+
+// =============================================================================
+// LAZADA ORDERS CLASS
+// =============================================================================
+
+export class LazadaOrders {
+  private client: LazadaClient
+  private logPrefix = '[LazadaOrders]'
+
+  constructor(client: LazadaClient) {
+    this.client = client
+  }
+
+  // =============================================================================
+  // ORDER LISTING OPERATIONS
+  // =============================================================================
+
+  /**
+   * List orders with pagination and filtering
+   *
+   * Lazada requires a creation lower bound; it defaults to the last 30 days.
+   */
+  async listOrders(params: OrderListParams = {}): Promise<ConnectorResponse<OrderDetail[]>> {
+    try {
+      const pageSize = Math.min(params.pageSize || 50, 100)
+      // The cursor is the offset of the next page
+      const offset = params.cursor ? Number(params.cursor) : ((params.page || 1) - 1) * pageSize
+      const dateFrom = params.dateFrom || new Date(Date.now() - DEFAULT_ORDER_WINDOW_MS)
+
+      if (params.search) {
+        console.warn(`${this.logPrefix} Search parameter not supported by Lazada API`)
+      }
+
+      const response = await this.client.request<LazadaOrderListResponse>('/orders/get', {
+        params: {
+          created_after: dateFrom.toISOString(),
+          created_before: params.dateTo?.toISOString(),
+          status: params.status ? LAZADA_STATUS_FILTER[params.status as OrderStatus] : undefined,
+          offset,
+          limit: pageSize,
+          sort_by: 'created_at',
+          sort_direction: 'DESC'
+        }
+      })
+
+      if (!response.success) {
+        return {
+          success: false,
+          error: response.error
+        }
+      }
+
+      const lazadaOrders = response.data?.orders || []
+      const itemsResponse = await this.fetchItemsForOrders(lazadaOrders.map(order => order.order_id))
+      if (!itemsResponse.success) {
+        return { success: false, error: itemsResponse.error }
+      }
+
+      const orders = lazadaOrders.map(order =>
+        this.transformOrderFromLazada(order, itemsResponse.data?.get(order.order_id) || [])
+      )
+
+      const hasMore = offset + pageSize < (response.data?.countTotal || 0)
+
+      console.log(`${this.logPrefix} Retrieved ${orders.length} orders`)
+      return {
+        success: true,
+        data: orders,
+        metadata: {
+          total: response.data?.countTotal || 0,
+          hasMore,
+          nextCursor: hasMore ? String(offset + pageSize) : undefined
+        } as any
+      }
+    } catch (error) {
+      console.error(`${this.logPrefix} Error listing orders:`, error)
+      return {
+        success: false,
+        error: {
+          code: 'LIST_ORDERS_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to list orders',
+          retryable: true
+        }
+      }
+    }
+  }
+
+  /**
+   * Iterate all orders in the date range, split into 30-day windows
+   */
+  iterateOrders(params: Omit<OrderListParams, 'page' | 'cursor'> = {}): AsyncIterable<OrderDetail[]> {
+    return paginateWindows(params, DEFAULT_ORDER_WINDOW_MS, (window, cursor) =>
+      this.listOrders({ ...params, ...window, cursor, pageSize: 100 })
+    )
+  }
+
+  /**
+   * Get detailed information about a specific order
+   */
+  async getOrder(orderId: string): Promise<ConnectorResponse<OrderDetail>> {
+    try {
+      const response = await this.client.request<LazadaOrder>('/order/get', {
+        params: { order_id: orderId }
+      })
+
+      if (!response.success || !response.data) {
+        return {
+          success: false,
+          error: response.error || {
+            code: 'ORDER_NOT_FOUND',
+            message: `Order ${orderId} not found`,
+            retryable: false
+          }
+        }
+      }
+
+      const itemsResponse = await this.fetchOrderItems(orderId)
+      if (!itemsResponse.success) {
+        return { success: false, error: itemsResponse.error }
+      }
+
+      const order = this.transformOrderFromLazada(response.data, itemsResponse.data || [])
+      console.log(`${this.logPrefix} Retrieved order: ${order.id}`)
+      return {
+        success: true,
+        data: order
+      }
+    } catch (error) {
+      console.error(`${this.logPrefix} Error getting order ${orderId}:`, error)
+      return {
+        success: false,
+        error: {
+          code: 'GET_ORDER_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to get order',
+          retryable: true
+        }
+      }
+    }
+  }
+
+  // =============================================================================
+  // ORDER STATUS UPDATES
+  // =============================================================================
+
+  /**
+   * Update order status (if allowed by Lazada API)
+   *
+   * - processing: pack all order items
+   * - shipped: mark items ready to ship with a tracking number
+   * - cancelled: cancel each order item as out of stock
+   */
+  async updateOrderStatus(orderId: string, update: OrderStatusUpdate): Promise<ConnectorResponse<void>> {
+    try {
+      const itemsResponse = await this.fetchOrderItems(orderId)
+      if (!itemsResponse.success || !itemsResponse.data?.length) {
+        return {
+          success: false,
+          error: itemsResponse.error || {
+            code: 'ORDER_NOT_FOUND',
+            message: `Order ${orderId} has no items`,
+            retryable: false
+          }
+        }
+      }
+
+      const items = itemsResponse.data
+      const orderItemIds = items.map(item => item.order_item_id)
+      const shipmentProvider = items.find(item => item.shipment_provider)?.shipment_provider
+      const idempotencyKey = this.client.generateIdempotencyKey()
+      let response: ConnectorResponse<any>
+
+      switch (update.status) {
+        case 'processing':
+          response = await this.client.request('/order/pack', {
+            method: 'POST',
+            params: {
+              order_item_ids: orderItemIds,
+              delivery_type: 'dropship',
+              shipping_provider: shipmentProvider
+            },
+            idempotencyKey: idempotencyKey.key
+          })
+          break
+
+        case 'shipped': {
+          const trackingNumber = update.trackingNumber || items.find(item => item.tracking_code)?.tracking_code
+          if (!trackingNumber) {
+            return {
+              success: false,
+              error: {
+                code: 'TRACKING_REQUIRED',
+                message: 'A tracking number is required to mark a Lazada order ready to ship',
+                retryable: false
+              }
+            }
+          }
+
+          response = await this.client.request('/order/rts', {
+            method: 'POST',
+            params: {
+              order_item_ids: orderItemIds,
+              delivery_type: 'dropship',
+              shipment_provider: shipmentProvider,
+              tracking_number: trackingNumber
+            },
+            idempotencyKey: idempotencyKey.key
+          })
+          break
+        }
+
+        case 'cancelled':
+          response = { success: true }
+          // Lazada cancels per order item
+          for (const orderItemId of orderItemIds) {
+            response = await this.client.request('/order/cancel', {
+              method: 'POST',
+              params: {
+                order_item_id: orderItemId,
+                reason_id: LAZADA_CANCEL_REASON_OUT_OF_STOCK,
+                reason_detail: update.notes
+              },
+              idempotencyKey: `${idempotencyKey.key}:${orderItemId}`
+            })
+            if (!response.success) break
+          }
+          break
+
+        default:
+          return {
+            success: false,
+            error: {
+              code: 'STATUS_UPDATE_NOT_ALLOWED',
+              message: `Status '${update.status}' cannot be updated via API on Lazada`,
+              retryable: false
+            }
+          }
+      }
+
+      if (response.success) {
+        console.log(`${this.logPrefix} Updated order ${orderId} to ${update.status}`)
+        return { success: true }
+      } else {
+        return { success: false, error: response.error }
+      }
+    } catch (error) {
+      console.error(`${this.logPrefix} Error updating order status ${orderId}:`, error)
+      return {
+        success: false,
+        error: {
+          code: 'UPDATE_ORDER_STATUS_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to update order status',
+          retryable: true
+        }
+      }
+    }
+  }
+
+  // =============================================================================
+  // ORDER ITEM HELPERS
+  // =============================================================================
+
+  /**
+   * Fetch the items of a single order
+   */
+  private async fetchOrderItems(orderId: string): Promise<ConnectorResponse<LazadaOrderItem[]>> {
+    return this.client.request<LazadaOrderItem[]>('/order/items/get', {
+      params: { order_id: orderId }
+    })
+  }
+
+  /**
+   * Fetch items for a page of orders in one call
+   */
+  private async fetchItemsForOrders(
+    orderIds: number[]
+  ): Promise<ConnectorResponse<Map<number, LazadaOrderItem[]>>> {
+    const itemsByOrder = new Map<number, LazadaOrderItem[]>()
+    if (orderIds.length === 0) {
+      return { success: true, data: itemsByOrder }
+    }
+
+    const response = await this.client.request<LazadaMultipleOrderItems[]>('/orders/items/get', {
+      params: { order_ids: orderIds }
+    })
+
+    if (!response.success) {
+      return { success: false, error: response.error }
+    }
+
+    for (const entry of response.data || []) {
+      itemsByOrder.set(entry.order_id, entry.order_items)
+    }
+
+    return { success: true, data: itemsByOrder }
+  }
+
+  // =============================================================================
+  // TRANSFORMATION HELPERS
+  // =============================================================================
+
+  /**
+   * Transform order from Lazada format to internal format
+   */
+  private transformOrderFromLazada(order: LazadaOrder, lazadaItems: LazadaOrderItem[]): OrderDetail {
+    const status = this.mapStatusFromLazada(order.statuses?.[0])
+    const address = order.address_shipping
+    const recipientName = [address?.first_name, address?.last_name].filter(Boolean).join(' ')
+    const customerName = [order.customer_first_name, order.customer_last_name].filter(Boolean).join(' ')
+    const shippedItem = lazadaItems.find(item => item.tracking_code)
+
+    return {
+      id: order.order_id.toString(),
+      orderNumber: order.order_number.toString(),
+      platformOrderId: order.order_id.toString(),
+      status,
+      paymentStatus: this.mapPaymentStatusFromLazada(status),
+      totalAmount: parseFloat((order.price || '0').replace(/,/g, '')),
+      currency: this.client.getCurrency(),
+      customer: {
+        name: customerName || recipientName,
+        email: '', // Lazada does not share buyer emails
+        phone: address?.phone || ''
+      },
+      items: this.collapseItems(lazadaItems),
+      shippingAddress: {
+        name: recipientName,
+        phone: address?.phone || '',
+        addressLine1: address?.address1 || '',
+        addressLine2: address?.address2,
+        city: address?.city || '',
+        state: address?.address3,
+        postalCode: address?.post_code || '',
+        country: address?.country || 'Indonesia'
+      },
+      shippingMethod: shippedItem?.shipment_provider,
+      trackingNumber: shippedItem?.tracking_code,
+      createdAt: new Date(order.created_at),
+      updatedAt: new Date(order.updated_at),
+      orderDate: new Date(order.created_at)
+    }
+  }
+
+  /**
+   * Collapse per-unit Lazada items into one line per SKU
+   */
+  private collapseItems(lazadaItems: LazadaOrderItem[]): OrderItem[] {
+    const lines = new Map<string, OrderItem>()
+
+    lazadaItems.forEach(item => {
+      const key = item.sku || item.shop_sku
+      const existing = lines.get(key)
+
+      if (existing) {
+        existing.quantity += 1
+        existing.total += item.paid_price
+      } else {
+        lines.set(key, {
+          id: item.order_item_id.toString(),
+          productId: item.product_id?.toString() || item.shop_sku,
+          title: item.name,
+          sku: item.sku,
+          quantity: 1,
+          price: item.item_price,
+          total: item.paid_price
+        })
+      }
+    })
+
+    return Array.from(lines.values())
+  }
+
+  /**
+   * Map Lazada status to internal status
+   */
+  private mapStatusFromLazada(lazadaStatus?: string): OrderStatus {
+    return (lazadaStatus && LAZADA_ORDER_STATUS_MAPPING[lazadaStatus]) || 'pending'
+  }
+
+  /**
+   * Derive payment status from the order status
+   */
+  private mapPaymentStatusFromLazada(status: OrderStatus): PaymentStatus {
+    if (status === 'refunded') return 'refunded'
+    if (status === 'pending' || status === 'cancelled') return 'unpaid'
+    return 'paid'
+  }
+}
+
+// =============================================================================
+// EXPORTS
+// =============================================================================
+
+export default LazadaOrders
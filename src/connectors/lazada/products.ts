@@ -0,0 +1,1049 @@
+/**
+ * Lazada Products Module
+ *
+ * Handles product-related operations for Lazada platform:
+ * - List products with pagination and filtering
+ * - Get product details
+ * - Create new products
+ * - Update existing products
+ * - Update stock and price
+ *
+ * Note: Lazada tracks stock and price per SKU. Variant products carry one
+ * SKU per combination of sale properties; stock and price operations target
+ * a SKU ID, or the primary SKU of single-SKU products.
+ *
+ * Lazada API Reference: https://open.lazada.com/apps/doc/api?path=%2Fproducts%2Fget
+ */
+
+import {
+  ProductListParams,
+  ProductDetail,
+  ProductPushData,
+  ProductUpdateData,
+  ProductVariantDetail,
+  ConnectorResponse,
+  ValidationResult,
+  ProductValidationRules,
+  ImageUpload,
+  UploadedImage
+} from '@/connectors/types'
+import { ProductOption } from '@/types/product'
+import { paginate } from '@/connectors/pagination'
+import { LazadaClient, buildLazadaPayload } from './client'
+import { validateVariants } from '@/domain/mapping/variants'
+
+// =============================================================================
+// LAZADA PRODUCT API RESPONSE TYPES
+// =============================================================================
+
+interface LazadaSku {
+  SkuId: number
+  SellerSku: string
+  ShopSku: string
+  quantity: number
+  price: number
+  special_price?: number
+  Status: string // 'active' | 'inactive' | 'deleted'
+  Images?: string[]
+  package_weight?: string
+  saleProp?: Record<string, string> // Variation name -> value for variant products
+}
+
+interface LazadaProduct {
+  item_id: number
+  primary_category: number
+  status: string // 'Active' | 'InActive' | 'Pending QC' | 'Deleted' | ...
+  created_time: string // Epoch milliseconds
+  updated_time: string // Epoch milliseconds
+  images?: string[]
+  attributes: {
+    name: string
+    description?: string
+    short_description?: string
+    brand?: string
+  }
+  skus: LazadaSku[]
+}
+
+interface LazadaProductListResponse {
+  total_products: number
+  products?: LazadaProduct[]
+}
+
+interface LazadaProductCreateResponse {
+  item_id: number
+  sku_list?: Array<{ shop_sku: string; seller_sku: string; sku_id: number }>
+}
+
+// /image/upload returns the same shape
+interface LazadaImageMigrateResponse {
+  image: {
+    url: string
+    hash_code: string
+  }
+}
+
+// =============================================================================
+// VALIDATION RULES FOR LAZADA
+// =============================================================================
+
+export const LAZADA_VALIDATION_RULES: ProductValidationRules = {
+  maxTitleLength: 255,
+  maxDescriptionLength: 25000,
+  requiredAttributes: [],
+  forbiddenTerms: [
+    'fake', 'replica', 'counterfeit', 'pirated', 'kw', 'knockoff'
+  ],
+  imageRequirements: {
+    minCount: 1,
+    maxCount: 8,
+    maxSizeInMB: 3,
+    allowedFormats: ['jpg', 'jpeg', 'png'],
+    minDimension: 330,
+    maxDimension: 5000
+  }
+}
+
+/**
+ * Lazada listing filters for internal statuses
+ */
+const LAZADA_STATUS_FILTER: Record<string, string> = {
+  active: 'live',
+  inactive: 'inactive',
+  out_of_stock: 'sold-out'
+}
+
+// =============================================================================
+// LAZADA PRODUCTS CLASS
+// =============================================================================
+
+export class LazadaProducts {
+  private client: LazadaClient
+  private logPrefix = '[LazadaProducts]'
+
+  constructor(client: LazadaClient) {
+    this.client = client
+  }
+
+  // =============================================================================
+  // PRODUCT LISTING OPERATIONS
+  // =============================================================================
+
+  /**
+   * List products with pagination and filtering
+   */
+  async listProducts(params: ProductListParams = {}): Promise<ConnectorResponse<ProductDetail[]>> {
+    try {
+      const pageSize = Math.min(params.pageSize || 50, 50)
+      // The cursor is the offset of the next page
+      const offset = params.cursor ? Number(params.cursor) : ((params.page || 1) - 1) * pageSize
+
+      const response = await this.client.request<LazadaProductListResponse>('/products/get', {
+        params: {
+          filter: params.status ? LAZADA_STATUS_FILTER[params.status] || 'all' : 'all',
+          offset,
+          limit: pageSize,
+          search: params.search,
+          update_after: params.modifiedFrom?.toISOString(),
+          update_before: params.modifiedTo?.toISOString()
+        }
+      })
+
+      if (response.success) {
+        let products = (response.data?.products || []).map(product => this.transformProductFromLazada(product))
+
+        // Category is not a server-side filter on /products/get
+        if (params.category) {
+          products = products.filter(product => product.category === params.category)
+        }
+
+        const hasMore = offset + pageSize < (response.data?.total_products || 0)
+
+        console.log(`${this.logPrefix} Retrieved ${products.length} products`)
+        return {
+          success: true,
+          data: products,
+          metadata: {
+            total: response.data?.total_products || 0,
+            hasMore,
+            nextCursor: hasMore ? String(offset + pageSize) : undefined
+          } as any
+        }
+      } else {
+        return {
+          success: false,
+          error: response.error
+        }
+      }
+    } catch (error) {
+      console.error(`${this.logPrefix} Error listing products:`, error)
+      return {
+        success: false,
+        error: {
+          code: 'LIST_PRODUCTS_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to list products',
+          retryable: true
+        }
+      }
+    }
+  }
+
+  /**
+   * Iterate all products matching the filters, page by page
+   */
+  iterateProducts(params: Omit<ProductListParams, 'page' | 'cursor'> = {}): AsyncIterable<ProductDetail[]> {
+    return paginate(cursor => this.listProducts({ ...params, cursor, pageSize: 50 }))
+  }
+
+  /**
+   * Get detailed information about a specific product
+   */
+  async getProduct(productId: string): Promise<ConnectorResponse<ProductDetail>> {
+    try {
+      const response = await this.fetchLazadaProduct(productId)
+
+      if (response.success && response.data) {
+        const product = this.transformProductFromLazada(response.data)
+        console.log(`${this.logPrefix} Retrieved product: ${product.id}`)
+        return {
+          success: true,
+          data: product
+        }
+      } else {
+        return {
+          success: false,
+          error: response.error || {
+            code: 'PRODUCT_NOT_FOUND',
+            message: `Product ${productId} not found`,
+            retryable: false
+          }
+        }
+      }
+    } catch (error) {
+      console.error(`${this.logPrefix} Error getting product ${productId}:`, error)
+      return {
+        success: false,
+        error: {
+          code: 'GET_PRODUCT_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to get product',
+          retryable: true
+        }
+      }
+    }
+  }
+
+  // =============================================================================
+  // PRODUCT CREATION OPERATIONS
+  // =============================================================================
+
+  /**
+   * Create a new product on Lazada
+   *
+   * Lazada only accepts images hosted on its own CDN, so external URLs are
+   * migrated first.
+   */
+  async createProduct(productData: ProductPushData): Promise<ConnectorResponse<ProductDetail>> {
+    try {
+      const validation = await this.validateProduct(productData)
+      if (!validation.valid) {
+        return {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: `Product validation failed: ${validation.errors.map(e => e.message).join(', ')}`,
+            retryable: false
+          }
+        }
+      }
+
+      const variantErrors = validateVariants(productData.options, productData.variants)
+      if (variantErrors.length > 0) {
+        return {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: `Product validation failed: ${variantErrors.map(e => e.message).join(', ')}`,
+            retryable: false
+          }
+        }
+      }
+
+      const imageResponse = await this.migrateImages(productData.images, productData.platformImages)
+      if (!imageResponse.success || !imageResponse.data) {
+        return { success: false, error: imageResponse.error }
+      }
+
+      // Variant images are migrated once per distinct URL
+      const variantImages = Array.from(new Set(
+        (productData.variants || []).map(variant => variant.image).filter((image): image is string => Boolean(image))
+      ))
+      const variantImageResponse = await this.migrateImages(variantImages, productData.platformImages)
+      if (!variantImageResponse.success || !variantImageResponse.data) {
+        return { success: false, error: variantImageResponse.error }
+      }
+      const skuImages = new Map(variantImages.map((image, index) => [image, variantImageResponse.data![index]]))
+
+      const payload = this.transformProductToLazada(productData, imageResponse.data, skuImages)
+      const idempotencyKey = this.client.generateIdempotencyKey()
+
+      const response = await this.client.request<LazadaProductCreateResponse>('/product/create', {
+        method: 'POST',
+        params: { payload },
+        idempotencyKey: idempotencyKey.key
+      })
+
+      if (!response.success || !response.data) {
+        return { success: false, error: response.error }
+      }
+
+      const productResponse = await this.getProduct(response.data.item_id.toString())
+
+      if (productResponse.success && productResponse.data) {
+        console.log(`${this.logPrefix} Created product: ${productResponse.data.id}`)
+        return {
+          success: true,
+          data: productResponse.data
+        }
+      } else {
+        return {
+          success: false,
+          error: {
+            code: 'FETCH_CREATED_PRODUCT_ERROR',
+            message: 'Product created but failed to fetch details',
+            retryable: true
+          }
+        }
+      }
+    } catch (error) {
+      console.error(`${this.logPrefix} Error creating product:`, error)
+      return {
+        success: false,
+        error: {
+          code: 'CREATE_PRODUCT_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to create product',
+          retryable: true
+        }
+      }
+    }
+  }
+
+  /**
+   * Update an existing product
+   *
+   * Content changes go through product update; stock and price use the
+   * dedicated price/quantity endpoint.
+   */
+  async updateProduct(productId: string, updateData: ProductUpdateData): Promise<ConnectorResponse<ProductDetail>> {
+    try {
+      const validation = await this.validateUpdateData(updateData)
+      if (!validation.valid) {
+        return {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: `Product update validation failed: ${validation.errors.map(e => e.message).join(', ')}`,
+            retryable: false
+          }
+        }
+      }
+
+      const hasContentChanges = updateData.title !== undefined ||
+        updateData.description !== undefined ||
+        updateData.category !== undefined ||
+        updateData.images !== undefined
+
+      if (hasContentChanges) {
+        const contentResponse = await this.updateContent(productId, updateData)
+        if (!contentResponse.success) {
+          return { success: false, error: contentResponse.error }
+        }
+      }
+
+      if (updateData.stock !== undefined) {
+        const stockResponse = await this.updateStock(productId, updateData.stock)
+        if (!stockResponse.success) {
+          return { success: false, error: stockResponse.error }
+        }
+      }
+
+      if (updateData.price !== undefined) {
+        const priceResponse = await this.updatePrice(productId, updateData.price, updateData.compareAtPrice)
+        if (!priceResponse.success) {
+          return { success: false, error: priceResponse.error }
+        }
+      }
+
+      if (updateData.status !== undefined) {
+        const statusResponse = await this.updateStatus(productId, updateData.status)
+        if (!statusResponse.success) {
+          return { success: false, error: statusResponse.error }
+        }
+      }
+
+      const productResponse = await this.getProduct(productId)
+
+      if (productResponse.success && productResponse.data) {
+        console.log(`${this.logPrefix} Updated product: ${productId}`)
+        return {
+          success: true,
+          data: productResponse.data
+        }
+      } else {
+        return {
+          success: false,
+          error: {
+            code: 'FETCH_UPDATED_PRODUCT_ERROR',
+            message: 'Product updated but failed to fetch details',
+            retryable: true
+          }
+        }
+      }
+    } catch (error) {
+      console.error(`${this.logPrefix} Error updating product ${productId}:`, error)
+      return {
+        success: false,
+        error: {
+          code: 'UPDATE_PRODUCT_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to update product',
+          retryable: true
+        }
+      }
+    }
+  }
+
+  // =============================================================================
+  // STOCK & PRICE OPERATIONS
+  // =============================================================================
+
+  /**
+   * Update product stock
+   *
+   * `variantId` is the SKU ID of a variant product.
+   */
+  async updateStock(productId: string, stock: number, variantId?: string): Promise<ConnectorResponse<void>> {
+    try {
+      const skuResponse = await this.getSku(productId, variantId)
+      if (!skuResponse.success || !skuResponse.data) {
+        return { success: false, error: skuResponse.error }
+      }
+
+      const sku = skuResponse.data
+      const idempotencyKey = this.client.generateIdempotencyKey()
+
+      const response = await this.client.request('/product/price_quantity/update', {
+        method: 'POST',
+        params: {
+          payload: buildLazadaPayload({
+            Product: {
+              Skus: {
+                Sku: {
+                  ItemId: productId,
+                  SkuId: sku.SkuId,
+                  SellerSku: sku.SellerSku,
+                  Quantity: stock
+                }
+              }
+            }
+          })
+        },
+        idempotencyKey: idempotencyKey.key
+      })
+
+      if (response.success) {
+        console.log(`${this.logPrefix} Updated stock for product ${productId} SKU ${sku.SkuId}: ${stock}`)
+        return { success: true }
+      } else {
+        return {
+          success: false,
+          error: response.error
+        }
+      }
+    } catch (error) {
+      console.error(`${this.logPrefix} Error updating stock for product ${productId}:`, error)
+      return {
+        success: false,
+        error: {
+          code: 'UPDATE_STOCK_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to update stock',
+          retryable: true
+        }
+      }
+    }
+  }
+
+  /**
+   * Update product price
+   *
+   * Lazada models discounts as a special price below the regular price, so
+   * a higher compareAtPrice becomes the regular price and `price` the sale price.
+   * `variantId` is the SKU ID of a variant product.
+   */
+  async updatePrice(
+    productId: string,
+    price: number,
+    compareAtPrice?: number,
+    variantId?: string
+  ): Promise<ConnectorResponse<void>> {
+    try {
+      const skuResponse = await this.getSku(productId, variantId)
+      if (!skuResponse.success || !skuResponse.data) {
+        return { success: false, error: skuResponse.error }
+      }
+
+      const sku = skuResponse.data
+      const hasDiscount = compareAtPrice !== undefined && compareAtPrice > price
+      const idempotencyKey = this.client.generateIdempotencyKey()
+
+      const response = await this.client.request('/product/price_quantity/update', {
+        method: 'POST',
+        params: {
+          payload: buildLazadaPayload({
+            Product: {
+              Skus: {
+                Sku: {
+                  ItemId: productId,
+                  SkuId: sku.SkuId,
+                  SellerSku: sku.SellerSku,
+                  Price: hasDiscount ? compareAtPrice : price,
+                  SalePrice: hasDiscount ? price : undefined
+                }
+              }
+            }
+          })
+        },
+        idempotencyKey: idempotencyKey.key
+      })
+
+      if (response.success) {
+        console.log(`${this.logPrefix} Updated price for product ${productId} SKU ${sku.SkuId}: ${price}`)
+        return { success: true }
+      } else {
+        return {
+          success: false,
+          error: response.error
+        }
+      }
+    } catch (error) {
+      console.error(`${this.logPrefix} Error updating price for product ${productId}:`, error)
+      return {
+        success: false,
+        error: {
+          code: 'UPDATE_PRICE_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to update price',
+          retryable: true
+        }
+      }
+    }
+  }
+
+  /**
+   * Activate or deactivate a product
+   */
+  private async updateStatus(
+    productId: string,
+    status: 'active' | 'inactive' | 'out_of_stock'
+  ): Promise<ConnectorResponse<void>> {
+    // Out of stock is derived from inventory, not a listing state
+    if (status === 'out_of_stock') {
+      return this.updateStock(productId, 0)
+    }
+
+    if (status === 'inactive') {
+      const response = await this.client.request('/product/deactivate', {
+        method: 'POST',
+        params: {
+          apiRequestBody: buildLazadaPayload({
+            Product: { ItemId: productId }
+          })
+        }
+      })
+
+      return response.success ? { success: true } : { success: false, error: response.error }
+    }
+
+    const skuResponse = await this.getSku(productId)
+    if (!skuResponse.success || !skuResponse.data) {
+      return { success: false, error: skuResponse.error }
+    }
+
+    const response = await this.client.request('/product/update', {
+      method: 'POST',
+      params: {
+        payload: buildLazadaPayload({
+          Product: {
+            ItemId: productId,
+            Skus: {
+              Sku: {
+                SkuId: skuResponse.data.SkuId,
+                SellerSku: skuResponse.data.SellerSku,
+                Status: 'active'
+              }
+            }
+          }
+        })
+      }
+    })
+
+    return response.success ? { success: true } : { success: false, error: response.error }
+  }
+
+  /**
+   * Update title, description, category and images
+   */
+  private async updateContent(productId: string, updateData: ProductUpdateData): Promise<ConnectorResponse<void>> {
+    let images: string[] | undefined
+    if (updateData.images !== undefined) {
+      const imageResponse = await this.migrateImages(updateData.images, updateData.platformImages)
+      if (!imageResponse.success || !imageResponse.data) {
+        return { success: false, error: imageResponse.error }
+      }
+      images = imageResponse.data
+    }
+
+    const idempotencyKey = this.client.generateIdempotencyKey()
+
+    const response = await this.client.request('/product/update', {
+      method: 'POST',
+      params: {
+        payload: buildLazadaPayload({
+          Product: {
+            ItemId: productId,
+            PrimaryCategory: updateData.category,
+            Images: images ? { Image: images } : undefined,
+            Attributes: {
+              name: updateData.title,
+              description: updateData.description
+            }
+          }
+        })
+      },
+      idempotencyKey: idempotencyKey.key
+    })
+
+    return response.success ? { success: true } : { success: false, error: response.error }
+  }
+
+  // =============================================================================
+  // MEDIA OPERATIONS
+  // =============================================================================
+
+  /**
+   * Upload an image file to the Lazada CDN
+   *
+   * The CDN URL is what product payloads reference, so it doubles as the ID.
+   */
+  async uploadImage(image: ImageUpload): Promise<ConnectorResponse<UploadedImage>> {
+    try {
+      const formData = new FormData()
+      formData.append('image', new Blob([new Uint8Array(image.data)], { type: image.mimeType }), image.filename)
+
+      const response = await this.client.request<LazadaImageMigrateResponse>('/image/upload', {
+        method: 'POST',
+        formData
+      })
+
+      if (!response.success || !response.data) {
+        return { success: false, error: response.error }
+      }
+
+      return { success: true, data: { id: response.data.image.url, url: response.data.image.url } }
+    } catch (error) {
+      console.error(`${this.logPrefix} Error uploading image ${image.filename}:`, error)
+      return {
+        success: false,
+        error: {
+          code: 'IMAGE_UPLOAD_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to upload image',
+          retryable: true
+        }
+      }
+    }
+  }
+
+  // =============================================================================
+  // LAZADA HELPERS
+  // =============================================================================
+
+  /**
+   * Fetch a raw Lazada product by item ID
+   */
+  private async fetchLazadaProduct(productId: string): Promise<ConnectorResponse<LazadaProduct>> {
+    return this.client.request<LazadaProduct>('/product/item/get', {
+      params: { item_id: productId }
+    })
+  }
+
+  /**
+   * Resolve a SKU of a product by ID, or its primary SKU
+   */
+  private async getSku(productId: string, skuId?: string): Promise<ConnectorResponse<LazadaSku>> {
+    const response = await this.fetchLazadaProduct(productId)
+    const skus = response.data?.skus || []
+    const sku = skuId ? skus.find(candidate => String(candidate.SkuId) === skuId) : skus[0]
+
+    if (response.success && sku) {
+      return { success: true, data: sku }
+    }
+
+    return {
+      success: false,
+      error: response.error || {
+        code: 'SKU_NOT_FOUND',
+        message: skuId ? `Product ${productId} has no SKU ${skuId}` : `Product ${productId} has no SKUs`,
+        retryable: false
+      }
+    }
+  }
+
+  /**
+   * Migrate external image URLs to the Lazada CDN
+   *
+   * Images already uploaded (`platformImages`) are reused.
+   */
+  private async migrateImages(
+    imageUrls: string[],
+    platformImages: Record<string, string> = {}
+  ): Promise<ConnectorResponse<string[]>> {
+    const migrated: string[] = []
+
+    for (const url of imageUrls.slice(0, LAZADA_VALIDATION_RULES.imageRequirements.maxCount)) {
+      if (platformImages[url]) {
+        migrated.push(platformImages[url])
+        continue
+      }
+
+      // Images already on the Lazada CDN can be used as-is
+      if (/(^|\.)(slatic\.net|lazcdn\.com)$/.test(new URL(url).hostname)) {
+        migrated.push(url)
+        continue
+      }
+
+      const response = await this.client.request<LazadaImageMigrateResponse>('/image/migrate', {
+        method: 'POST',
+        params: {
+          payload: buildLazadaPayload({
+            Image: { Url: url }
+          })
+        }
+      })
+
+      if (!response.success || !response.data) {
+        console.error(`${this.logPrefix} Failed to migrate image ${url}:`, response.error)
+        return {
+          success: false,
+          error: response.error || {
+            code: 'IMAGE_UPLOAD_ERROR',
+            message: `Failed to migrate image ${url}`,
+            retryable: true
+          }
+        }
+      }
+
+      migrated.push(response.data.image.url)
+    }
+
+    return { success: true, data: migrated }
+  }
+
+  // =============================================================================
+  // VALIDATION HELPERS
+  // =============================================================================
+
+  /**
+   * Validate product data before creating
+   */
+  private async validateProduct(productData: ProductPushData): Promise<ValidationResult> {
+    const errors: any[] = []
+    const warnings: any[] = []
+    const rules = LAZADA_VALIDATION_RULES
+
+    if (productData.title.length > rules.maxTitleLength) {
+      errors.push({
+        field: 'title',
+        message: `Title cannot exceed ${rules.maxTitleLength} characters`,
+        code: 'TITLE_TOO_LONG'
+      })
+    }
+
+    if (productData.description && productData.description.length > rules.maxDescriptionLength) {
+      errors.push({
+        field: 'description',
+        message: `Description cannot exceed ${rules.maxDescriptionLength} characters`,
+        code: 'DESCRIPTION_TOO_LONG'
+      })
+    }
+
+    if (!productData.category || !/^\d+$/.test(productData.category)) {
+      errors.push({
+        field: 'category',
+        message: 'A Lazada primary category ID is required',
+        code: 'INVALID_CATEGORY'
+      })
+    }
+
+    if (!productData.sku) {
+      errors.push({
+        field: 'sku',
+        message: 'A seller SKU is required for Lazada listings',
+        code: 'MISSING_SKU'
+      })
+    }
+
+    if (productData.price <= 0) {
+      errors.push({
+        field: 'price',
+        message: 'Price must be greater than 0',
+        code: 'INVALID_PRICE'
+      })
+    }
+
+    if (productData.stock < 0) {
+      errors.push({
+        field: 'stock',
+        message: 'Stock cannot be negative',
+        code: 'INVALID_STOCK'
+      })
+    }
+
+    if (!productData.weight && !productData.shippingInfo?.weight) {
+      errors.push({
+        field: 'weight',
+        message: 'Package weight is required for Lazada shipping',
+        code: 'MISSING_WEIGHT'
+      })
+    }
+
+    if (!productData.images || productData.images.length === 0) {
+      errors.push({
+        field: 'images',
+        message: 'At least one image is required',
+        code: 'NO_IMAGES'
+      })
+    } else if (productData.images.length > rules.imageRequirements.maxCount) {
+      warnings.push({
+        field: 'images',
+        message: `Only the first ${rules.imageRequirements.maxCount} images will be used`,
+        code: 'TOO_MANY_IMAGES'
+      })
+    }
+
+    const forbiddenFound = this.findForbiddenTerms(productData.title, rules.forbiddenTerms)
+    if (forbiddenFound.length > 0) {
+      errors.push({
+        field: 'title',
+        message: `Title contains forbidden terms: ${forbiddenFound.join(', ')}`,
+        code: 'FORBIDDEN_TERMS'
+      })
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+      warnings
+    }
+  }
+
+  /**
+   * Validate update data
+   */
+  private async validateUpdateData(updateData: ProductUpdateData): Promise<ValidationResult> {
+    const errors: any[] = []
+
+    if (updateData.price !== undefined && updateData.price <= 0) {
+      errors.push({
+        field: 'price',
+        message: 'Price must be greater than 0',
+        code: 'INVALID_PRICE'
+      })
+    }
+
+    if (updateData.stock !== undefined && updateData.stock < 0) {
+      errors.push({
+        field: 'stock',
+        message: 'Stock cannot be negative',
+        code: 'INVALID_STOCK'
+      })
+    }
+
+    if (updateData.title !== undefined && updateData.title.length > LAZADA_VALIDATION_RULES.maxTitleLength) {
+      errors.push({
+        field: 'title',
+        message: `Title cannot exceed ${LAZADA_VALIDATION_RULES.maxTitleLength} characters`,
+        code: 'TITLE_TOO_LONG'
+      })
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+      warnings: []
+    }
+  }
+
+  /**
+   * Find forbidden terms in text (whole words, so short terms like "kw" don't over-match)
+   */
+  private findForbiddenTerms(text: string, forbiddenTerms: string[]): string[] {
+    const words = text.toLowerCase().split(/[^a-z0-9]+/)
+    return forbiddenTerms.filter(term => words.includes(term.toLowerCase()))
+  }
+
+  // =============================================================================
+  // TRANSFORMATION HELPERS
+  // =============================================================================
+
+  /**
+   * Transform product from Lazada format to internal format
+   */
+  private transformProductFromLazada(product: LazadaProduct): ProductDetail {
+    const sku = product.skus?.[0]
+    const stock = sku?.quantity || 0
+    const hasDiscount = !!sku?.special_price && sku.special_price < sku.price
+
+    return {
+      id: product.item_id.toString(),
+      title: product.attributes?.name || '',
+      description: product.attributes?.description || product.attributes?.short_description,
+      price: hasDiscount ? sku!.special_price! : sku?.price || 0,
+      compareAtPrice: hasDiscount ? sku!.price : undefined,
+      stock,
+      category: product.primary_category?.toString(),
+      images: product.images?.length ? product.images : sku?.Images || [],
+      attributes: {
+        ...(sku?.SellerSku && { sku: sku.SellerSku }),
+        ...(sku?.ShopSku && { shopSku: sku.ShopSku }),
+        ...(product.attributes?.brand && { brand: product.attributes.brand })
+      },
+      ...this.transformSkusFromLazada(product.skus || []),
+      status: this.mapStatusFromLazada(product.status, sku?.Status, stock),
+      createdAt: new Date(Number(product.created_time)),
+      updatedAt: new Date(Number(product.updated_time))
+    }
+  }
+
+  /**
+   * Derive options and variants from SKU sale properties
+   *
+   * Single-SKU products have no sale properties and yield neither.
+   */
+  private transformSkusFromLazada(
+    skus: LazadaSku[]
+  ): { options?: ProductOption[]; variants?: ProductVariantDetail[] } {
+    if (!skus.some(sku => sku.saleProp && Object.keys(sku.saleProp).length > 0)) {
+      return {}
+    }
+
+    const options: ProductOption[] = []
+    skus.forEach(sku => {
+      Object.entries(sku.saleProp || {}).forEach(([name, value]) => {
+        let option = options.find(candidate => candidate.name === name)
+        if (!option) {
+          option = { name, values: [] }
+          options.push(option)
+        }
+        if (!option.values.includes(value)) {
+          option.values.push(value)
+        }
+      })
+    })
+
+    const variants = skus.map(sku => {
+      const hasDiscount = !!sku.special_price && sku.special_price < sku.price
+      return {
+        id: String(sku.SkuId),
+        sku: sku.SellerSku,
+        options: { ...sku.saleProp },
+        price: hasDiscount ? sku.special_price! : sku.price,
+        compareAtPrice: hasDiscount ? sku.price : undefined,
+        stock: sku.quantity || 0,
+        image: sku.Images?.[0]
+      }
+    })
+
+    return { options, variants }
+  }
+
+  /**
+   * Transform internal product data to the Lazada create payload
+   *
+   * Variant products get one SKU per variant with its sale properties;
+   * `skuImages` maps variant image URLs to their migrated URLs.
+   */
+  private transformProductToLazada(
+    productData: ProductPushData,
+    images: string[],
+    skuImages: Map<string, string> = new Map()
+  ): string {
+    const weight = productData.weight || productData.shippingInfo?.weight || 0
+    const dimensions = productData.dimensions || productData.shippingInfo?.dimensions
+    const options = productData.options || []
+
+    const toSku = (sku: { sku?: string; stock: number; price: number; compareAtPrice?: number; image?: string }) => {
+      const hasDiscount = sku.compareAtPrice !== undefined && sku.compareAtPrice > sku.price
+      const skuImage = sku.image && skuImages.get(sku.image)
+      return {
+        SellerSku: sku.sku,
+        quantity: sku.stock,
+        price: hasDiscount ? sku.compareAtPrice : sku.price,
+        special_price: hasDiscount ? sku.price : undefined,
+        package_weight: weight,
+        package_length: dimensions?.length,
+        package_width: dimensions?.width,
+        package_height: dimensions?.height,
+        Images: { Image: skuImage ? [skuImage] : images }
+      }
+    }
+
+    return buildLazadaPayload({
+      Product: {
+        PrimaryCategory: productData.category,
+        Images: { Image: images },
+        Attributes: {
+          name: productData.title,
+          description: productData.description || '',
+          brand: productData.attributes?.brand || 'No Brand'
+        },
+        ...(productData.variants?.length && {
+          Variation: options.reduce<Record<string, any>>((variation, option, index) => {
+            variation[`Variation${index + 1}`] = {
+              name: option.name,
+              hasImage: index === 0 && productData.variants!.some(variant => variant.image),
+              customize: true,
+              options: { option: option.values }
+            }
+            return variation
+          }, {})
+        }),
+        Skus: {
+          Sku: productData.variants?.length
+            ? productData.variants.map(variant => ({
+                ...toSku(variant),
+                saleProp: variant.options
+              }))
+            : toSku(productData)
+        }
+      }
+    })
+  }
+
+  /**
+   * Map Lazada item and SKU status to internal status
+   */
+  private mapStatusFromLazada(
+    itemStatus: string,
+    skuStatus: string | undefined,
+    stock: number
+  ): 'active' | 'inactive' | 'out_of_stock' {
+    if (itemStatus?.toLowerCase() !== 'active' || (skuStatus && skuStatus.toLowerCase() !== 'active')) {
+      return 'inactive'
+    }
+
+    return stock > 0 ? 'active' : 'out_of_stock'
+  }
+}
+
+// =============================================================================
+// EXPORTS
+// =============================================================================
+
+export default LazadaProducts
@@ -0,0 +1,90 @@
+/**
+ * Connector Pagination
+ *
+ * Helpers that turn single-page connector list calls into async iterators:
+ * `paginate` follows `metadata.nextCursor` until the last page and
+ * `paginateWindows` additionally splits a date range into the longest
+ * window a platform's list endpoint accepts.
+ */
+
+import { ConnectorResponse } from '@/connectors/types'
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface DateWindow {
+  dateFrom: Date
+  dateTo: Date
+}
+
+/**
+ * Fetches one page; `cursor` is undefined for the first page
+ */
+export type PageFetcher<T> = (cursor?: string) => Promise<ConnectorResponse<T[]>>
+
+// =============================================================================
+// PAGINATION
+// =============================================================================
+
+/**
+ * Yield every page of a list call, following `metadata.nextCursor`
+ *
+ * Throws on the first failed page so callers don't mistake a partial
+ * listing for a complete one.
+ */
+export async function* paginate<T>(fetchPage: PageFetcher<T>): AsyncGenerator<T[]> {
+  let cursor: string | undefined
+
+  do {
+    const response = await fetchPage(cursor)
+    if (!response.success) {
+      const error = response.error
+      throw new Error(error ? `${error.code}: ${error.message}` : 'Failed to fetch page')
+    }
+
+    if (response.data && response.data.length > 0) {
+      yield response.data
+    }
+
+    const nextCursor = response.metadata?.nextCursor
+    // A cursor that does not advance would loop forever
+    cursor = nextCursor && nextCursor !== cursor ? nextCursor : undefined
+  } while (cursor)
+}
+
+/**
+ * Split a date range into consecutive windows of at most `maxWindowMs`,
+ * oldest first
+ */
+export function splitDateRange(dateFrom: Date, dateTo: Date, maxWindowMs: number): DateWindow[] {
+  const windows: DateWindow[] = []
+
+  for (let start = dateFrom.getTime(); start < dateTo.getTime(); start += maxWindowMs) {
+    windows.push({
+      dateFrom: new Date(start),
+      dateTo: new Date(Math.min(start + maxWindowMs, dateTo.getTime()))
+    })
+  }
+
+  return windows
+}
+
+/**
+ * Yield every page of a date-bounded list call across compliant windows
+ *
+ * Without `dateFrom` only the most recent window is listed, matching the
+ * single-call default of the list endpoints.
+ */
+export async function* paginateWindows<T>(
+  range: { dateFrom?: Date; dateTo?: Date },
+  maxWindowMs: number,
+  fetchPage: (window: DateWindow, cursor?: string) => Promise<ConnectorResponse<T[]>>
+): AsyncGenerator<T[]> {
+  const dateTo = range.dateTo || new Date()
+  const dateFrom = range.dateFrom || new Date(dateTo.getTime() - maxWindowMs)
+
+  for (const window of splitDateRange(dateFrom, dateTo, maxWindowMs)) {
+    yield* paginate(cursor => fetchPage(window, cursor))
+  }
+}
@@ -0,0 +1,211 @@
+/**
+ * Connector Rate Limiter
+ *
+ * Token buckets shared by every server instance, one per platform, channel
+ * account and endpoint group. Buckets live in Postgres (`rate_limit_buckets`,
+ * refilled and taken atomically by `take_rate_limit_token`); limits come from
+ * `channels.config`:
+ *
+ *   { "rate_limit_per_minute": 100, "endpoint_rate_limits": { "order": 60 } }
+ *
+ * Clients take a token before each request and return `RATE_LIMITED` with
+ * `details.retryAfterMs` when the bucket is empty. Code running inside
+ * `waitForTokens` (the sync engine) waits for a token instead.
+ *
+ * If the database is unreachable the limiter falls back to in-process
+ * buckets, so connectors keep working on a single instance.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks'
+import { supabase } from '@/lib/supabase'
+import { PlatformType } from '@/types/product'
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface RateLimitBucket {
+  platform: PlatformType
+  channelAccountId?: string
+  group: string // Endpoint group, see getEndpointGroup
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  retryAfterMs: number
+}
+
+interface ChannelLimits {
+  perMinute?: number
+  groups: Record<string, number>
+  loadedAt: number
+}
+
+/**
+ * `channels.slug` of each platform
+ */
+const CHANNEL_SLUGS: Record<PlatformType, string> = {
+  shopee: 'shopee',
+  tiktok: 'tiktokshop',
+  tokopedia: 'tokopedia',
+  lazada: 'lazada'
+}
+
+// Limits are re-read from channels.config after this long
+const LIMITS_TTL_MS = 60 * 1000
+
+// Longest a waiting caller sleeps for a token before the request fails with RATE_LIMITED
+const DEFAULT_MAX_WAIT_MS = 2 * 60 * 1000
+
+/**
+ * Endpoint group of an API path: its first segment that is not a prefix or
+ * version, e.g. '/api/v2/product/add_item' and '/product/202309/products'
+ * both map to 'product'
+ */
+export function getEndpointGroup(path: string): string {
+  const segment = path
+    .split('?')[0]
+    .split('/')
+    .find(part => part && !/^(api|rest|v\d+|\d+)$/i.test(part))
+
+  return segment || 'default'
+}
+
+// =============================================================================
+// RATE LIMITER CLASS
+// =============================================================================
+
+export class RateLimiter {
+  private readonly channelsTable = 'channels'
+  private readonly logPrefix = '[RateLimiter]'
+  private limits: Map<PlatformType, ChannelLimits> = new Map()
+  private localBuckets: Map<string, { tokens: number; refilledAt: number }> = new Map()
+  private waitContext = new AsyncLocalStorage<{ maxWaitMs: number }>()
+
+  /**
+   * Take a token for a request
+   *
+   * Fails fast with `retryAfterMs` unless called inside `waitForTokens`, in
+   * which case it sleeps until a token is available or the wait budget runs out.
+   * `fallbackPerMinute` applies when `channels.config` sets no limit.
+   */
+  async acquire(bucket: RateLimitBucket, fallbackPerMinute: number): Promise<RateLimitResult> {
+    const waitOptions = this.waitContext.getStore()
+    const deadline = waitOptions ? Date.now() + waitOptions.maxWaitMs : 0
+
+    for (;;) {
+      const result = await this.tryAcquire(bucket, fallbackPerMinute)
+      if (result.allowed || Date.now() + result.retryAfterMs > deadline) {
+        return result
+      }
+
+      await new Promise(resolve => setTimeout(resolve, result.retryAfterMs))
+    }
+  }
+
+  /**
+   * Take a token without waiting
+   */
+  async tryAcquire(bucket: RateLimitBucket, fallbackPerMinute: number): Promise<RateLimitResult> {
+    const limitPerMinute = await this.getLimit(bucket.platform, bucket.group, fallbackPerMinute)
+    const key = `${bucket.platform}:${bucket.channelAccountId || 'default'}:${bucket.group}`
+
+    const { data, error } = await supabase.rpc('take_rate_limit_token', {
+      p_bucket_key: key,
+      p_limit_per_minute: limitPerMinute
+    })
+
+    if (error) {
+      console.warn(`${this.logPrefix} Shared bucket unavailable, limiting ${key} in-process:`, error.message)
+      return this.takeLocalToken(key, limitPerMinute)
+    }
+
+    const retryAfterMs = Number(data) || 0
+    return { allowed: retryAfterMs === 0, retryAfterMs }
+  }
+
+  /**
+   * Run `fn` with rate-limited requests waiting for tokens instead of failing
+   */
+  async waitForTokens<T>(fn: () => Promise<T>, maxWaitMs = DEFAULT_MAX_WAIT_MS): Promise<T> {
+    return this.waitContext.run({ maxWaitMs }, fn)
+  }
+
+  /**
+   * Requests per minute for a platform's endpoint group
+   */
+  async getLimit(platform: PlatformType, group: string, fallbackPerMinute: number): Promise<number> {
+    const limits = await this.getChannelLimits(platform)
+    return limits.groups[group] || limits.perMinute || fallbackPerMinute
+  }
+
+  /**
+   * Drop cached limits, e.g. after `channels.config` was edited
+   */
+  clearLimits(): void {
+    this.limits.clear()
+  }
+
+  // =============================================================================
+  // PRIVATE HELPER METHODS
+  // =============================================================================
+
+  private async getChannelLimits(platform: PlatformType): Promise<ChannelLimits> {
+    const cached = this.limits.get(platform)
+    if (cached && Date.now() - cached.loadedAt < LIMITS_TTL_MS) {
+      return cached
+    }
+
+    const { data, error } = await supabase
+      .from(this.channelsTable)
+      .select('config')
+      .eq('slug', CHANNEL_SLUGS[platform])
+      .maybeSingle()
+
+    if (error) {
+      console.warn(`${this.logPrefix} Failed to load ${platform} rate limits:`, error.message)
+    }
+
+    const config = data?.config || {}
+    const limits: ChannelLimits = {
+      perMinute: Number(config.rate_limit_per_minute) || undefined,
+      groups: Object.fromEntries(
+        Object.entries(config.endpoint_rate_limits || {})
+          .map(([group, limit]) => [group, Number(limit)])
+          .filter(([, limit]) => (limit as number) > 0)
+      ),
+      loadedAt: Date.now()
+    }
+
+    this.limits.set(platform, limits)
+    return limits
+  }
+
+  /**
+   * In-process token bucket with the same refill rules as the database function
+   */
+  private takeLocalToken(key: string, limitPerMinute: number): RateLimitResult {
+    const now = Date.now()
+    const tokensPerMs = limitPerMinute / 60000
+    const bucket = this.localBuckets.get(key) || { tokens: limitPerMinute, refilledAt: now }
+
+    bucket.tokens = Math.min(limitPerMinute, bucket.tokens + (now - bucket.refilledAt) * tokensPerMs)
+    bucket.refilledAt = now
+    this.localBuckets.set(key, bucket)
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1
+      return { allowed: true, retryAfterMs: 0 }
+    }
+
+    return { allowed: false, retryAfterMs: Math.ceil((1 - bucket.tokens) / tokensPerMs) }
+  }
+}
+
+// =============================================================================
+// EXPORTS
+// =============================================================================
+
+export const rateLimiter = new RateLimiter()
+
+export default rateLimiter
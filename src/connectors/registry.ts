@@ -0,0 +1,316 @@
+/**
+ * Connector Registry
+ *
+ * Resolves a configured `Connector` for a platform and channel account so the
+ * sync engine and API routes can dispatch without platform-specific branches.
+ *
+ * Adding a marketplace means registering its factory in `CONNECTOR_FACTORIES`.
+ */
+
+import { Connector } from '@/connectors/types'
+import { PlatformType } from '@/types/product'
+import { PLATFORM_INFO } from '@/types/platform'
+import { loadChannelAccountCredentials, ChannelAccountCredentials } from '@/connectors/credentials'
+import { createShopeeConnector, createCustomShopeeConnector } from '@/connectors/shopee'
+import { createTikTokShopConnector, createCustomTikTokShopConnector } from '@/connectors/tiktokshop'
+import { createTokopediaConnector, createCustomTokopediaConnector } from '@/connectors/tokopedia'
+import { createLazadaConnector, createCustomLazadaConnector } from '@/connectors/lazada'
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Builds a connector for a channel account. Without an account the factory
+ * falls back to environment-based configuration.
+ */
+export type ConnectorFactory = (channelAccountId?: string) => Connector | Promise<Connector>
+
+/**
+ * Builds a connector from credentials loaded for one channel account
+ */
+type AccountConnectorFactory = (credentials: ChannelAccountCredentials) => Connector
+
+const SHOPEE_SANDBOX_BASE_URL = 'https://partner.test-stable.shopeemobile.com'
+
+// Cached connectors are rebuilt after this long so rotated tokens are picked up
+const INSTANCE_TTL_MS = 5 * 60 * 1000
+
+// =============================================================================
+// PLATFORM RESOLUTION
+// =============================================================================
+
+const ACCOUNT_CONNECTOR_FACTORIES: Record<PlatformType, AccountConnectorFactory> = {
+  shopee: credentials => {
+    const { secrets } = credentials
+    const required = requireCredentials(credentials, {
+      partnerId: secrets.partnerId,
+      partnerKey: secrets.partnerKey,
+      shopId: credentials.shopId || secrets.shopId,
+      accessToken: credentials.accessToken
+    })
+
+    return createCustomShopeeConnector({
+      ...required,
+      channelAccountId: credentials.channelAccountId,
+      market: credentials.market || secrets.market,
+      baseUrl: secrets.baseUrl || (credentials.isSandbox ? SHOPEE_SANDBOX_BASE_URL : undefined)
+    })
+  },
+
+  tiktok: credentials => {
+    const { secrets, metadata } = credentials
+    const required = requireCredentials(credentials, {
+      appKey: secrets.appKey,
+      appSecret: secrets.appSecret,
+      shopCipher: metadata.shop_cipher || secrets.shopCipher,
+      accessToken: credentials.accessToken
+    })
+
+    return createCustomTikTokShopConnector({
+      ...required,
+      channelAccountId: credentials.channelAccountId,
+      baseUrl: secrets.baseUrl,
+      shopId: credentials.shopId || secrets.shopId || '',
+      currency: metadata.currency || secrets.currency,
+      warehouseId: metadata.warehouse_id || secrets.warehouseId,
+      shippingProviderId: metadata.shipping_provider_id || secrets.shippingProviderId
+    })
+  },
+
+  // Tokopedia issues app-level tokens, so only the shop comes from the account
+  tokopedia: credentials => {
+    const { secrets } = credentials
+    const required = requireCredentials(credentials, {
+      clientId: secrets.clientId,
+      clientSecret: secrets.clientSecret,
+      fsId: secrets.fsId,
+      shopId: credentials.shopId || secrets.shopId
+    })
+
+    return createCustomTokopediaConnector({
+      ...required,
+      channelAccountId: credentials.channelAccountId,
+      baseUrl: secrets.baseUrl,
+      authUrl: secrets.authUrl,
+      webhookSecret: secrets.webhookSecret
+    })
+  },
+
+  lazada: credentials => {
+    const { secrets, metadata } = credentials
+    const required = requireCredentials(credentials, {
+      appKey: secrets.appKey,
+      appSecret: secrets.appSecret,
+      accessToken: credentials.accessToken
+    })
+
+    return createCustomLazadaConnector({
+      ...required,
+      channelAccountId: credentials.channelAccountId,
+      baseUrl: secrets.baseUrl,
+      authUrl: secrets.authUrl,
+      sellerId: credentials.sellerId || credentials.shopId,
+      currency: metadata.currency || secrets.currency
+    })
+  }
+}
+
+const ENV_CONNECTOR_FACTORIES: Record<PlatformType, () => Connector> = {
+  shopee: () => createShopeeConnector(),
+  tiktok: () => createTikTokShopConnector(),
+  tokopedia: () => createTokopediaConnector(),
+  lazada: () => createLazadaConnector()
+}
+
+const CONNECTOR_FACTORIES: Record<PlatformType, ConnectorFactory> = {
+  shopee: createAccountAwareFactory('shopee'),
+  tiktok: createAccountAwareFactory('tiktok'),
+  tokopedia: createAccountAwareFactory('tokopedia'),
+  lazada: createAccountAwareFactory('lazada')
+}
+
+/**
+ * Combine the env-based and per-account factories for a platform
+ */
+function createAccountAwareFactory(platform: PlatformType): ConnectorFactory {
+  return async (channelAccountId?: string) => {
+    if (!channelAccountId) {
+      return ENV_CONNECTOR_FACTORIES[platform]()
+    }
+
+    const credentials = await loadChannelAccountCredentials(channelAccountId)
+    if (credentials.platform !== platform) {
+      throw new Error(`Channel account ${channelAccountId} belongs to ${credentials.platform}, not ${platform}`)
+    }
+
+    return ACCOUNT_CONNECTOR_FACTORIES[platform](credentials)
+  }
+}
+
+/**
+ * Ensure every required credential is present for a channel account
+ */
+function requireCredentials<T extends Record<string, string | undefined>>(
+  credentials: ChannelAccountCredentials,
+  fields: T
+): { [K in keyof T]: string } {
+  const missing = Object.keys(fields).filter(key => !fields[key])
+
+  if (missing.length > 0) {
+    throw new Error(
+      `Missing ${credentials.platform} credentials for channel account ${credentials.channelAccountId}: ${missing.join(', ')}`
+    )
+  }
+
+  return fields as { [K in keyof T]: string }
+}
+
+/**
+ * Channel identifiers used across jobs, routes and channel_accounts
+ * mapped to their platform
+ */
+const CHANNEL_ALIASES: Record<string, PlatformType> = {
+  shopee: 'shopee',
+  tiktok: 'tiktok',
+  tiktokshop: 'tiktok',
+  tts: 'tiktok',
+  tokopedia: 'tokopedia',
+  lazada: 'lazada'
+}
+
+/**
+ * Resolve a channel identifier ('shopee', 'tiktokshop', 'TTS', ...) to a platform
+ */
+export function resolvePlatform(channel: string): PlatformType | null {
+  return CHANNEL_ALIASES[channel?.toLowerCase()] || null
+}
+
+// =============================================================================
+// CONNECTOR REGISTRY CLASS
+// =============================================================================
+
+export class ConnectorRegistry {
+  private logPrefix = '[ConnectorRegistry]'
+  private factories: Map<PlatformType, ConnectorFactory>
+  private instances: Map<string, { connector: Promise<Connector>; createdAt: number }> = new Map()
+  private health: Map<string, { healthy: boolean; checkedAt: number }> = new Map()
+
+  constructor(factories: Record<PlatformType, ConnectorFactory> = CONNECTOR_FACTORIES) {
+    this.factories = new Map(Object.entries(factories) as [PlatformType, ConnectorFactory][])
+  }
+
+  /**
+   * Register or replace the factory for a platform
+   */
+  register(platform: PlatformType, factory: ConnectorFactory): void {
+    this.factories.set(platform, factory)
+    this.clear()
+  }
+
+  /**
+   * Check whether a channel identifier has a registered connector
+   */
+  isSupported(channel: string): boolean {
+    const platform = resolvePlatform(channel)
+    return !!platform && this.factories.has(platform)
+  }
+
+  /**
+   * Check whether a channel can be used. Platforms `PLATFORM_INFO` leaves
+   * inactive (Lazada) are turned on once their connector, for the channel
+   * account or the default configuration, passes a health check. Results
+   * are cached like connector instances.
+   */
+  async isActive(channel: string, channelAccountId?: string): Promise<boolean> {
+    const platform = resolvePlatform(channel)
+    if (!platform || !this.factories.has(platform)) {
+      return false
+    }
+
+    if (PLATFORM_INFO[platform].isActive) {
+      return true
+    }
+
+    const cacheKey = `${platform}:${channelAccountId || 'default'}`
+    const cached = this.health.get(cacheKey)
+    if (cached && Date.now() - cached.checkedAt < INSTANCE_TTL_MS) {
+      return cached.healthy
+    }
+
+    let healthy = false
+    try {
+      const connector = await this.getConnector(platform, channelAccountId)
+      const response = await connector.healthCheck()
+      healthy = response.success && response.data?.status === 'healthy'
+
+      if (!healthy) {
+        console.warn(`${this.logPrefix} ${platform} connector failed its health check: ${response.data?.message || response.error?.message || 'Unknown error'}`)
+      }
+    } catch (error) {
+      console.warn(`${this.logPrefix} ${platform} connector failed its health check:`, error)
+    }
+
+    this.health.set(cacheKey, { healthy, checkedAt: Date.now() })
+    return healthy
+  }
+
+  /**
+   * Get a configured connector for a channel and (optionally) a channel account
+   *
+   * Instances are cached per platform and account for a few minutes. Failed
+   * constructions are not cached, so a fixed configuration is picked up on
+   * the next call.
+   */
+  async getConnector(channel: string, channelAccountId?: string): Promise<Connector> {
+    const platform = resolvePlatform(channel)
+    const factory = platform ? this.factories.get(platform) : undefined
+
+    if (!platform || !factory) {
+      throw new Error(`Channel '${channel}' is not supported`)
+    }
+
+    const cacheKey = `${platform}:${channelAccountId || 'default'}`
+    const cached = this.instances.get(cacheKey)
+    if (cached && Date.now() - cached.createdAt < INSTANCE_TTL_MS) {
+      return cached.connector
+    }
+
+    const instance = Promise.resolve().then(() => factory(channelAccountId))
+    this.instances.set(cacheKey, { connector: instance, createdAt: Date.now() })
+
+    try {
+      return await instance
+    } catch (error) {
+      this.instances.delete(cacheKey)
+      console.error(`${this.logPrefix} Failed to create ${platform} connector:`, error)
+      throw error
+    }
+  }
+
+  /**
+   * Drop cached connectors, e.g. after credentials rotate
+   */
+  clear(channelAccountId?: string): void {
+    if (!channelAccountId) {
+      this.instances.clear()
+      this.health.clear()
+      return
+    }
+
+    Array.from(this.instances.keys())
+      .filter(key => key.endsWith(`:${channelAccountId}`))
+      .forEach(key => this.instances.delete(key))
+    Array.from(this.health.keys())
+      .filter(key => key.endsWith(`:${channelAccountId}`))
+      .forEach(key => this.health.delete(key))
+  }
+}
+
+// =============================================================================
+// EXPORTS
+// =============================================================================
+
+export const connectorRegistry = new ConnectorRegistry()
+
+export default connectorRegistry
@@ -1,20 +1,29 @@
 /**
  * Shopee Connector Client
- * 
+ *
  * Handles HMAC authentication, API communication, and base operations
- * for the Shopee platform API.
- * 
- * Shopee API Reference: https://shopee.github.io/shopee-marathon-api/
+ * for the Shopee Open Platform v2 API.
+ *
+ * Every endpoint is declared in `SHOPEE_ENDPOINTS` with its HTTP method and
+ * signing scope:
+ * - public:   partner_id + api_path + timestamp
+ * - shop:     partner_id + api_path + timestamp + access_token + shop_id
+ * - merchant: partner_id + api_path + timestamp + access_token + merchant_id
+ *
+ * Sign = hex(hmac_sha256(base, PARTNER_KEY))
+ *
+ * Shopee API v2: https://open.shopee.com/documents/v2
  */
 
-import { 
-  ConnectorConfig, 
-  ConnectorResponse, 
+import {
+  ConnectorConfig,
+  ConnectorResponse,
   ConnectorError,
-  RateLimitInfo,
   RetryConfig,
   IdempotencyKey
 } from '@/connectors/types'
+import { rateLimiter, getEndpointGroup } from '@/connectors/rate-limiter'
+import { signaturesMatch } from '@/connectors/signatures'
 import crypto from 'crypto'
 
 // =============================================================================
@@ -25,35 +34,91 @@ export interface ShopeeClientConfig extends ConnectorConfig {
   baseUrl: string
   partnerId: string
   partnerKey: string
-  shopId: string
-  accessToken: string
+  shopId?: string // Required for shop-scoped endpoints
+  merchantId?: string // Required for merchant-scoped endpoints
+  accessToken?: string // Required for shop and merchant endpoints
+  market?: string // Shop region ('SG', 'MY', ...); selects category mappings
 }
 
+/**
+ * Shopee v2 response envelope. Auth endpoints return their payload at the
+ * top level instead of under `response`.
+ */
 export interface ShopeeApiResponse<T = any> {
-  success: boolean
-  data?: T
-  error?: {
-    code: string
-    message: string
-    request_id?: string
-  }
   request_id?: string
+  error?: string
+  message?: string
+  warning?: string
+  response?: T
+}
+
+export type ShopeeSignScope = 'public' | 'shop' | 'merchant'
+
+export interface ShopeeEndpoint {
+  method: 'GET' | 'POST'
+  scope: ShopeeSignScope
 }
 
+export const DEFAULT_SHOPEE_BASE_URL = 'https://partner.shopeemobile.com'
+
+// =============================================================================
+// SHOPEE ENDPOINT TABLE
+// =============================================================================
+
+export const SHOPEE_ENDPOINTS = {
+  // Auth
+  '/api/v2/auth/token/get': { method: 'POST', scope: 'public' },
+  '/api/v2/auth/access_token/get': { method: 'POST', scope: 'public' },
+
+  // Shop / merchant
+  '/api/v2/shop/get_shop_info': { method: 'GET', scope: 'shop' },
+  '/api/v2/merchant/get_merchant_info': { method: 'GET', scope: 'merchant' },
+
+  // Products
+  '/api/v2/product/get_item_list': { method: 'GET', scope: 'shop' },
+  '/api/v2/product/get_item_base_info': { method: 'GET', scope: 'shop' },
+  '/api/v2/product/search_item': { method: 'GET', scope: 'shop' },
+  '/api/v2/product/add_item': { method: 'POST', scope: 'shop' },
+  '/api/v2/product/update_item': { method: 'POST', scope: 'shop' },
+  '/api/v2/product/unlist_item': { method: 'POST', scope: 'shop' },
+  '/api/v2/product/update_stock': { method: 'POST', scope: 'shop' },
+  '/api/v2/product/update_price': { method: 'POST', scope: 'shop' },
+  '/api/v2/product/get_model_list': { method: 'GET', scope: 'shop' },
+  '/api/v2/product/init_tier_variation': { method: 'POST', scope: 'shop' },
+  '/api/v2/product/get_category': { method: 'GET', scope: 'shop' },
+  '/api/v2/product/get_attributes': { method: 'GET', scope: 'shop' },
+
+  // Media space
+  '/api/v2/media_space/upload_image': { method: 'POST', scope: 'public' },
+
+  // Orders and logistics
+  '/api/v2/order/get_order_list': { method: 'GET', scope: 'shop' },
+  '/api/v2/order/get_order_detail': { method: 'GET', scope: 'shop' },
+  '/api/v2/logistics/ship_order': { method: 'POST', scope: 'shop' }
+} as const satisfies Record<string, ShopeeEndpoint>
+
+export type ShopeeEndpointPath = keyof typeof SHOPEE_ENDPOINTS
+
+/**
+ * Shopee error codes worth retrying with backoff
+ */
+const RETRYABLE_ERRORS = ['error_busy', 'error_server', 'error_inner', 'error_network']
+
 // =============================================================================
 // SHOPEE CLIENT CLASS
 // =============================================================================
 
 export class ShopeeClient {
   private config: ShopeeClientConfig
-  private rateLimiters: Map<string, { remaining: number; resetAt: Date }> = new Map()
-  
+
   constructor(config: ShopeeClientConfig) {
     this.config = {
       timeout: 30000,
       retryAttempts: 3,
       rateLimitPerMinute: 100,
-      ...config
+      ...config,
+      // Endpoint paths carry the /api/v2 prefix, so the base URL is the host only
+      baseUrl: (config.baseUrl || DEFAULT_SHOPEE_BASE_URL).replace(/\/api\/v2\/?$/, '')
     }
   }
 
@@ -62,35 +127,25 @@ export class ShopeeClient {
   // =============================================================================
 
   /**
-   * Generate HMAC-SHA256 signature for Shopee API requests
+   * Generate HMAC-SHA256 signature for a Shopee v2 endpoint
    */
-  private generateSignature(
-    path: string, 
-    timestamp: string, 
-    method: string = 'POST'
-  ): string {
-    const message = `${timestamp}${method}${path}`
-    const signature = crypto
-      .createHmac('sha256', this.config.partnerKey)
-      .update(message)
-      .digest('hex')
-    
-    return signature
-  }
+  generateSignature(apiPath: string, timestamp: string, scope: ShopeeSignScope): string {
+    let baseString = `${this.config.partnerId}${apiPath}${timestamp}`
+
+    if (scope === 'shop') {
+      baseString += `${this.config.accessToken}${this.config.shopId}`
+    } else if (scope === 'merchant') {
+      baseString += `${this.config.accessToken}${this.config.merchantId}`
+    }
 
-  /**
-   * Generate access token signature for certain endpoints
-   */
-  private generateAccessTokenSignature(): string {
-    const message = `${this.config.accessToken}${this.config.partnerId}${this.config.shopId}`
     return crypto
       .createHmac('sha256', this.config.partnerKey)
-      .update(message)
+      .update(baseString)
       .digest('hex')
   }
 
   /**
-   * Get current timestamp for API calls (ISO 8601 format)
+   * Get current timestamp for API calls (Unix seconds)
    */
   private getTimestamp(): string {
     return Math.floor(Date.now() / 1000).toString()
@@ -101,61 +156,81 @@ export class ShopeeClient {
   // =============================================================================
 
   /**
-   * Make authenticated API request to Shopee
+   * Make signed API request to Shopee
+   *
+   * Method and signing scope come from `SHOPEE_ENDPOINTS`. Media uploads
+   * pass `formData` instead of a JSON body.
    */
   async request<T = any>(
-    endpoint: string, 
+    apiPath: ShopeeEndpointPath,
     options: {
-      method?: 'GET' | 'POST' | 'PUT' | 'DELETE'
       body?: any
+      formData?: FormData
       query?: Record<string, any>
       idempotencyKey?: string
     } = {}
   ): Promise<ConnectorResponse<T>> {
-    const {
-      method = 'POST',
-      body,
-      query,
-      idempotencyKey
-    } = options
+    const { body, formData, query, idempotencyKey } = options
+    const { method, scope }: ShopeeEndpoint = SHOPEE_ENDPOINTS[apiPath]
+
+    const missing = this.getMissingScopeCredentials(scope)
+    if (missing.length > 0) {
+      return {
+        success: false,
+        error: {
+          code: 'MISSING_CREDENTIALS',
+          message: `${apiPath} requires ${missing.join(', ')}`,
+          retryable: false
+        }
+      }
+    }
+
+    // Shared token bucket per channel account and endpoint group
+    const rateLimit = await rateLimiter.acquire(
+      { platform: 'shopee', channelAccountId: this.config.channelAccountId, group: getEndpointGroup(apiPath) },
+      this.config.rateLimitPerMinute || 100
+    )
+    if (!rateLimit.allowed) {
+      return {
+        success: false,
+        error: {
+          code: 'RATE_LIMITED',
+          message: `Rate limit exceeded. Retry in ${Math.ceil(rateLimit.retryAfterMs / 1000)}s.`,
+          details: { retryAfterMs: rateLimit.retryAfterMs },
+          retryable: true
+        }
+      }
+    }
 
-    const baseUrl = this.config.baseUrl
     const timestamp = this.getTimestamp()
-    const path = endpoint.startsWith('/') ? endpoint : `/${endpoint}`
-    
+
     // Build query parameters
     const params = new URLSearchParams({
       partner_id: this.config.partnerId,
       timestamp,
-      shop_id: this.config.shopId,
-      ...query
+      sign: this.generateSignature(apiPath, timestamp, scope)
     })
 
-    // Add access token signature for certain endpoints
-    if (this.shouldIncludeAccessToken(endpoint)) {
-      const accessTokenSignature = this.generateAccessTokenSignature()
-      params.append('access_token', this.config.accessToken)
-      params.append('sign', accessTokenSignature)
-    } else {
-      const signature = this.generateSignature(path + '?' + params.toString(), timestamp, method)
-      params.append('sign', signature)
+    if (scope !== 'public') {
+      params.append('access_token', this.config.accessToken!)
     }
 
-    const url = `${baseUrl}${path}?${params.toString()}`
+    if (scope === 'shop') {
+      params.append('shop_id', this.config.shopId!)
+    } else if (scope === 'merchant') {
+      params.append('merchant_id', this.config.merchantId!)
+    }
 
-    // Check rate limiting
-    const rateLimitKey = endpoint
-    if (await this.isRateLimited(rateLimitKey)) {
-      return {
-        success: false,
-        error: {
-          code: 'RATE_LIMITED',
-          message: 'Rate limit exceeded. Please try again later.',
-          retryable: true
+    if (query) {
+      Object.entries(query).forEach(([key, value]) => {
+        if (value !== undefined && value !== null) {
+          params.append(key, Array.isArray(value) ? value.join(',') : String(value))
         }
-      }
+      })
     }
 
+    const url = `${this.config.baseUrl}${apiPath}?${params.toString()}`
+
     // Implement retry logic
     const retryConfig: RetryConfig = {
       maxAttempts: this.config.retryAttempts || 3,
@@ -164,57 +239,28 @@ export class ShopeeClient {
       backoffMultiplier: 2
     }
 
-    return this.executeWithRetry<T>(url, method, body, retryConfig, idempotencyKey)
+    return this.executeWithRetry<T>(
+      url,
+      apiPath,
+      method,
+      formData || (body ? JSON.stringify(body) : undefined),
+      retryConfig,
+      idempotencyKey
+    )
   }
 
   /**
-   * Check if endpoint requires access token signature
+   * List credentials a signing scope needs that are not configured
    */
-  private shouldIncludeAccessToken(endpoint: string): boolean {
-    const requiresAccessToken = [
-      '/api/v1/orders/basics',
-      '/api/v1/orders/detail',
-      '/api/v1/orders/items',
-      '/api/v1/logistics/carrier',
-      '/api/v1/shops/safe_mode',
-      '/api/v1/shops/profile'
-    ]
-    
-    return requiresAccessToken.some(path => endpoint.startsWith(path))
-  }
+  private getMissingScopeCredentials(scope: ShopeeSignScope): string[] {
+    if (scope === 'public') return []
 
-  /**
-   * Check if we're rate limited for a specific endpoint
-   */
-  private async isRateLimited(endpoint: string): Promise<boolean> {
-    const limiter = this.rateLimiters.get(endpoint)
-    if (!limiter) return false
-
-    const now = new Date()
-    if (now >= limiter.resetAt) {
-      // Reset rate limit
-      this.rateLimiters.delete(endpoint)
-      return false
-    }
+    const missing: string[] = []
+    if (!this.config.accessToken) missing.push('accessToken')
+    if (scope === 'shop' && !this.config.shopId) missing.push('shopId')
+    if (scope === 'merchant' && !this.config.merchantId) missing.push('merchantId')
 
-    return limiter.remaining <= 0
-  }
-
-  /**
-   * Update rate limit information
-   */
-  private updateRateLimit(endpoint: string, headers: Record<string, string>) {
-    // Shopee doesn't provide explicit rate limit headers, 
-    // so we'll implement a simple time-based rate limiter
-    const rateLimitPerMinute = this.config.rateLimitPerMinute || 100
-    
-    const limiter = this.rateLimiters.get(endpoint) || {
-      remaining: rateLimitPerMinute,
-      resetAt: new Date(Date.now() + 60000) // Reset every minute
-    }
-
-    limiter.remaining -= 1
-    this.rateLimiters.set(endpoint, limiter)
+    return missing
   }
 
   /**
@@ -222,8 +268,9 @@ export class ShopeeClient {
    */
   private async executeWithRetry<T>(
     url: string,
+    apiPath: string,
     method: string,
-    body: any,
+    body: string | FormData | undefined,
     retryConfig: RetryConfig,
     idempotencyKey?: string
   ): Promise<ConnectorResponse<T>> {
@@ -234,52 +281,41 @@ export class ShopeeClient {
         const response = await fetch(url, {
           method,
           headers: {
-            'Content-Type': 'application/json',
+            // Let fetch set the multipart boundary for FormData bodies
+            ...(typeof body === 'string' && { 'Content-Type': 'application/json' }),
             ...(idempotencyKey && { 'X-Idempotency-Key': idempotencyKey }),
           },
-          body: body ? JSON.stringify(body) : undefined,
+          body,
           signal: AbortSignal.timeout(this.config.timeout || 30000)
         })
 
-        // Update rate limit info
-        this.updateRateLimit(url, {})
-
         const data: ShopeeApiResponse<T> = await response.json()
 
-        if (response.ok && data.success) {
+        if (response.ok && !data.error) {
           return {
             success: true,
-            data: data.data,
+            data: (data.response ?? data) as T,
             metadata: {
               requestId: data.request_id,
               timestamp: new Date()
             }
           }
-        } else {
-          const error = data.error || {
-            code: 'UNKNOWN_ERROR',
-            message: `HTTP ${response.status}: ${response.statusText}`,
-            retryable: this.isRetryableError(response.status)
-          }
-
-          lastError = {
-            ...error,
-            httpStatusCode: response.status,
-            retryable: 'retryable' in error ? error.retryable : this.isRetryableError(response.status)
-          }
+        }
 
-          // If not retryable, break immediately
-          if (!lastError.retryable || attempt === retryConfig.maxAttempts) {
-            break
-          }
+        lastError = {
+          code: data.error || 'UNKNOWN_ERROR',
+          message: data.message || `HTTP ${response.status}: ${response.statusText}`,
+          details: { requestId: data.request_id },
+          httpStatusCode: response.status,
+          retryable: this.isRetryableError(response.status, data.error)
+        }
 
-          // Wait before retry with exponential backoff
-          const delay = Math.min(
-            retryConfig.baseDelayMs * Math.pow(retryConfig.backoffMultiplier, attempt - 1),
-            retryConfig.maxDelayMs
-          )
-          await new Promise(resolve => setTimeout(resolve, delay))
+        // If not retryable, break immediately
+        if (!lastError.retryable || attempt === retryConfig.maxAttempts) {
+          break
         }
+
+        await this.delay(retryConfig, attempt)
       } catch (error) {
         lastError = {
           code: 'NETWORK_ERROR',
@@ -289,11 +325,7 @@ export class ShopeeClient {
 
         if (attempt === retryConfig.maxAttempts) break
 
-        const delay = Math.min(
-          retryConfig.baseDelayMs * Math.pow(retryConfig.backoffMultiplier, attempt - 1),
-          retryConfig.maxDelayMs
-        )
-        await new Promise(resolve => setTimeout(resolve, delay))
+        await this.delay(retryConfig, attempt)
       }
     }
 
@@ -307,12 +339,23 @@ export class ShopeeClient {
     }
   }
 
+  /**
+   * Wait before retry with exponential backoff
+   */
+  private async delay(retryConfig: RetryConfig, attempt: number): Promise<void> {
+    const delay = Math.min(
+      retryConfig.baseDelayMs * Math.pow(retryConfig.backoffMultiplier, attempt - 1),
+      retryConfig.maxDelayMs
+    )
+    await new Promise(resolve => setTimeout(resolve, delay))
+  }
+
   /**
    * Determine if error is retryable
    */
-  private isRetryableError(statusCode: number): boolean {
-    // Retry on server errors and rate limits
-    return statusCode >= 500 || statusCode === 429
+  private isRetryableError(statusCode: number, errorCode?: string): boolean {
+    // Retry on server errors, rate limits and Shopee's transient error codes
+    return statusCode >= 500 || statusCode === 429 || (!!errorCode && RETRYABLE_ERRORS.includes(errorCode))
   }
 
   // =============================================================================
@@ -324,9 +367,8 @@ export class ShopeeClient {
    */
   async healthCheck(): Promise<ConnectorResponse<{ status: 'healthy' | 'unhealthy'; message?: string }>> {
     try {
-      // Try to call a simple endpoint that doesn't require complex parameters
-      const response = await this.request('/api/v1/shops/profile')
-      
+      const response = await this.request('/api/v2/shop/get_shop_info')
+
       if (response.success) {
         return {
           success: true,
@@ -374,8 +416,8 @@ export class ShopeeClient {
         .createHmac('sha256', this.config.partnerKey)
         .update(payload)
         .digest('hex')
-      
-      return expectedSignature === signature
+
+      return signaturesMatch(expectedSignature, signature)
     } catch (error) {
       console.error('Error verifying webhook signature:', error)
       return false
@@ -413,7 +455,7 @@ export class ShopeeClient {
     return { ...this.config }
   }
 
-  getShopId(): string {
+  getShopId(): string | undefined {
     return this.config.shopId
   }
 
@@ -432,22 +474,32 @@ export class ShopeeClient {
 
 /**
  * Create Shopee client from environment variables
+ *
+ * Credentials resolved for a channel account take precedence over the
+ * environment, so each shop can use its own partner app.
  */
-export function createShopeeClient(): ShopeeClient {
+export function createShopeeClient(credentials: Partial<ShopeeClientConfig> = {}): ShopeeClient {
   const config: ShopeeClientConfig = {
-    baseUrl: process.env.SHOPEE_BASE_URL || 'https://partner.shopeemobile.com/api/v2',
-    partnerId: process.env.SHOPEE_PARTNER_ID || '',
-    partnerKey: process.env.SHOPEE_PARTNER_KEY || '',
-    shopId: process.env.SHOPEE_SHOP_ID || '',
-    accessToken: process.env.SHOPEE_ACCESS_TOKEN || '',
+    baseUrl: credentials.baseUrl || process.env.SHOPEE_BASE_URL || DEFAULT_SHOPEE_BASE_URL,
+    partnerId: credentials.partnerId || process.env.SHOPEE_PARTNER_ID || '',
+    partnerKey: credentials.partnerKey || process.env.SHOPEE_PARTNER_KEY || '',
+    shopId: credentials.shopId || process.env.SHOPEE_SHOP_ID || undefined,
+    merchantId: credentials.merchantId || process.env.SHOPEE_MERCHANT_ID || undefined,
+    accessToken: credentials.accessToken || process.env.SHOPEE_ACCESS_TOKEN || undefined,
+    market: credentials.market || process.env.SHOPEE_MARKET || undefined,
     timeout: 30000,
     retryAttempts: 3,
     rateLimitPerMinute: 100
   }
 
-  // Validate required configuration
-  if (!config.partnerId || !config.partnerKey || !config.shopId || !config.accessToken) {
-    throw new Error('Missing required Shopee credentials. Please check environment variables.')
+  // Public endpoints (OAuth) only need the partner app; shop endpoints
+  // report missing shop credentials per request
+  const missingVars = []
+  if (!config.partnerId) missingVars.push('SHOPEE_PARTNER_ID')
+  if (!config.partnerKey) missingVars.push('SHOPEE_PARTNER_KEY')
+
+  if (missingVars.length > 0) {
+    throw new Error(`Missing required Shopee environment variables: ${missingVars.join(', ')}`)
   }
 
   return new ShopeeClient(config)
@@ -473,12 +525,12 @@ export function verifyShopeeSignature(payload: string, signature: string): boole
       .createHmac('sha256', partnerKey)
       .update(payload)
       .digest('hex')
-    
-    return expectedSignature === signature
+
+    return signaturesMatch(expectedSignature, signature)
   } catch (error) {
     console.error('Error verifying Shopee webhook signature:', error)
     return false
   }
 }
 
-export default ShopeeClient
\ No newline at end of file
+export default ShopeeClient
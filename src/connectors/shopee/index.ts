@@ -5,15 +5,16 @@
  * for easy integration with the AIOStore platform.
  */
 
-import { ShopeeClient } from './client'
+import { ShopeeClient, DEFAULT_SHOPEE_BASE_URL } from './client'
 import ShopeeProducts from './products'
 import ShopeeOrders from './orders'
+import { Connector, PlatformCredentials, ImageUpload } from '@/connectors/types'
 
 // =============================================================================
 // MAIN SHOPEE CONNECTOR CLASS
 // =============================================================================
 
-export class ShopeeConnector {
+export class ShopeeConnector implements Connector {
   private client: ShopeeClient
   private products: ShopeeProducts
   private orders: ShopeeOrders
@@ -51,11 +52,15 @@ export class ShopeeConnector {
     return this.client.getConfig()
   }
 
-  credentials = {
-    partnerId: process.env.SHOPEE_PARTNER_ID || '',
-    partnerKey: process.env.SHOPEE_PARTNER_KEY || '',
-    shopId: process.env.SHOPEE_SHOP_ID || '',
-    accessToken: process.env.SHOPEE_ACCESS_TOKEN || ''
+  get credentials(): PlatformCredentials {
+    const config = this.client.getConfig()
+    return {
+      partnerId: config.partnerId,
+      partnerKey: config.partnerKey,
+      shopId: config.shopId,
+      accessToken: config.accessToken,
+      baseUrl: config.baseUrl
+    }
   }
 
   // Product operations
@@ -63,6 +68,14 @@ export class ShopeeConnector {
     return this.products.listProducts(params)
   }
 
+  iterateProducts(params?: any) {
+    return this.products.iterateProducts(params)
+  }
+
+  iterateProductIds(params?: any) {
+    return this.products.iterateProductIds(params)
+  }
+
   async getProduct(productId: string) {
     return this.products.getProduct(productId)
   }
@@ -75,12 +88,24 @@ export class ShopeeConnector {
     return this.products.updateProduct(productId, data)
   }
 
-  async updateStock(productId: string, stock: number) {
-    return this.products.updateStock(productId, stock)
+  async updateStock(productId: string, stock: number, variantId?: string) {
+    return this.products.updateStock(productId, stock, variantId)
   }
 
-  async updatePrice(productId: string, price: number, compareAtPrice?: number) {
-    return this.products.updatePrice(productId, price, compareAtPrice)
+  async updatePrice(productId: string, price: number, compareAtPrice?: number, variantId?: string) {
+    return this.products.updatePrice(productId, price, compareAtPrice, variantId)
+  }
+
+  async listCategories() {
+    return this.products.listCategories()
+  }
+
+  async listCategoryAttributes(categoryId: string) {
+    return this.products.listCategoryAttributes(categoryId)
+  }
+
+  async uploadImage(image: ImageUpload) {
+    return this.products.uploadImage(image)
   }
 
   // Order operations
@@ -88,6 +113,10 @@ export class ShopeeConnector {
     return this.orders.listOrders(params)
   }
 
+  iterateOrders(params?: any) {
+    return this.orders.iterateOrders(params)
+  }
+
   async getOrder(orderId: string) {
     return this.orders.getOrder(orderId)
   }
@@ -149,11 +178,12 @@ export function createShopeeConnector(): ShopeeConnector {
  */
 export function createShopeeClient(): ShopeeClient {
   const config = {
-    baseUrl: process.env.SHOPEE_BASE_URL || 'https://partner.shopeemobile.com/api/v2',
+    baseUrl: process.env.SHOPEE_BASE_URL || DEFAULT_SHOPEE_BASE_URL,
     partnerId: process.env.SHOPEE_PARTNER_ID || '',
     partnerKey: process.env.SHOPEE_PARTNER_KEY || '',
     shopId: process.env.SHOPEE_SHOP_ID || '',
     accessToken: process.env.SHOPEE_ACCESS_TOKEN || '',
+    market: process.env.SHOPEE_MARKET || undefined,
     timeout: 30000,
     retryAttempts: 3,
     rateLimitPerMinute: 100
@@ -182,13 +212,15 @@ export function createCustomShopeeConnector(config: {
   partnerKey: string
   shopId: string
   accessToken: string
+  market?: string
   timeout?: number
   retryAttempts?: number
   rateLimitPerMinute?: number
+  channelAccountId?: string
 }): ShopeeConnector {
   const client = new ShopeeClient({
-    baseUrl: config.baseUrl || 'https://partner.shopeemobile.com/api/v2',
-    ...config
+    ...config,
+    baseUrl: config.baseUrl || DEFAULT_SHOPEE_BASE_URL
   })
   return new ShopeeConnector(client)
 }
@@ -224,11 +256,11 @@ export function validateShopeeConfig(): {
 
   // Check optional configurations
   if (!process.env.SHOPEE_BASE_URL) {
-    warnings.push('SHOPEE_BASE_URL not set, using default: https://partner.shopeemobile.com/api/v2')
+    warnings.push(`SHOPEE_BASE_URL not set, using default: ${DEFAULT_SHOPEE_BASE_URL}`)
   }
 
   // Validate URL format if provided
-  const baseUrl = process.env.SHOPEE_BASE_URL || 'https://partner.shopeemobile.com/api/v2'
+  const baseUrl = process.env.SHOPEE_BASE_URL || DEFAULT_SHOPEE_BASE_URL
   try {
     new URL(baseUrl)
   } catch (error) {
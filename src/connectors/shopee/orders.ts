@@ -9,7 +9,7 @@
  * Note: Shopee has strict policies on order status updates.
  * Only certain status changes are allowed via API.
  * 
- * Shopee API Reference: https://shopee.github.io/shopee-marathon-api/
+ * Shopee API v2: https://open.shopee.com/documents/v2
  */
 
 import { 
@@ -20,6 +20,7 @@ import {
   OrderStatus,
   PaymentStatus
 } from '@/connectors/types'
+import { paginateWindows } from '@/connectors/pagination'
 import { ShopeeClient } from './client'
 
 // =============================================================================
@@ -27,64 +28,82 @@ import { ShopeeClient } from './client'
 // =============================================================================
 
 interface ShopeeOrder {
-  order_id: string
   order_sn: string
+  order_status: string
   create_time: number
   update_time: number
-  order_status: string
-  payment_status: string
-  total_price: number
-  order_cost: number
-  shipping_fee: number
-  buyer_username: string
-  buyer_phone: string
-  recipient_name: string
-  recipient_phone: string
-  recipient_address: string
-  country: string
-  city: string
-  district: string
-  zipcode: string
-  items: Array<{
-    item_id: string
-    item_sku: string
+  currency: string
+  total_amount: number
+  pay_time?: number
+  buyer_username?: string
+  shipping_carrier?: string
+  recipient_address?: {
+    name: string
+    phone: string
+    full_address: string
+    city?: string
+    district?: string
+    state?: string
+    region?: string
+    zipcode?: string
+  }
+  item_list?: Array<{
+    item_id: number
     item_name: string
-    item_price: number
-    quantity: number
-    subtotal: number
+    item_sku?: string
+    model_id?: number
+    model_sku?: string
+    model_quantity_purchased: number
+    model_discounted_price: number
   }>
 }
 
 interface ShopeeOrderListResponse {
-  orders: ShopeeOrder[]
+  order_list: Array<{ order_sn: string }>
   more: boolean
-  next_offset: string
+  next_cursor: string
 }
 
 interface ShopeeOrderDetailResponse {
-  order: ShopeeOrder
+  order_list: ShopeeOrder[]
 }
 
+// get_order_detail accepts at most 50 order numbers per call
+const ORDER_BATCH_SIZE = 50
+
+// get_order_list only accepts a 15-day time range
+const MAX_ORDER_RANGE_SECONDS = 15 * 24 * 60 * 60
+
+const ORDER_DETAIL_FIELDS = [
+  'buyer_username',
+  'pay_time',
+  'recipient_address',
+  'item_list',
+  'total_amount',
+  'shipping_carrier'
+].join(',')
+
 // =============================================================================
 // SHOPEE ORDER STATUS MAPPING
 // =============================================================================
 
 const SHOPEE_ORDER_STATUS_MAPPING: Record<string, OrderStatus> = {
-  'unpaid': 'pending',
-  'paid': 'paid',
-  'ready_to_ship': 'processing',
-  'shipped': 'shipped',
-  'delivered': 'delivered',
-  'completed': 'delivered',
-  'cancelled': 'cancelled',
-  'refund': 'refunded',
-  'refunded': 'refunded'
+  'UNPAID': 'pending',
+  'INVOICE_PENDING': 'paid',
+  'READY_TO_SHIP': 'paid',
+  'PROCESSED': 'processing',
+  'RETRY_SHIP': 'processing',
+  'SHIPPED': 'shipped',
+  'TO_CONFIRM_RECEIVE': 'delivered',
+  'COMPLETED': 'delivered',
+  'IN_CANCEL': 'cancelled',
+  'CANCELLED': 'cancelled',
+  'TO_RETURN': 'refunded'
 }
 
 const SHOPEE_PAYMENT_STATUS_MAPPING: Record<string, PaymentStatus> = {
-  'unpaid': 'unpaid',
-  'paid': 'paid',
-  'refunded': 'refunded'
+  'UNPAID': 'unpaid',
+  'TO_RETURN': 'refunded'
 }
 
 // =============================================================================
@@ -108,18 +127,19 @@ export class ShopeeOrders {
    */
   async listOrders(params: OrderListParams = {}): Promise<ConnectorResponse<OrderDetail[]>> {
     try {
-      const queryParams: any = {
-        page_size: params.pageSize || 50,
-        page_no: params.page || 1
-      }
+      const pageSize = Math.min(params.pageSize || 50, ORDER_BATCH_SIZE)
+      const timeTo = Math.floor((params.dateTo || new Date()).getTime() / 1000)
+      const timeFrom = params.dateFrom
+        ? Math.max(Math.floor(params.dateFrom.getTime() / 1000), timeTo - MAX_ORDER_RANGE_SECONDS)
+        : timeTo - MAX_ORDER_RANGE_SECONDS
 
-      // Apply date filters
-      if (params.dateFrom) {
-        queryParams.create_time_from = Math.floor(params.dateFrom.getTime() / 1000)
-      }
-
-      if (params.dateTo) {
-        queryParams.create_time_to = Math.floor(params.dateTo.getTime() / 1000)
+      const queryParams: any = {
+        time_range_field: 'create_time',
+        time_from: timeFrom,
+        time_to: timeTo,
+        page_size: pageSize,
+        // The cursor is the offset into the result set
+        cursor: params.cursor || String(((params.page || 1) - 1) * pageSize)
       }
 
       if (params.status) {
@@ -133,16 +153,24 @@ export class ShopeeOrders {
       }
 
       const response = await this.client.request<ShopeeOrderListResponse>(
-        '/api/v1/orders/basics',
+        '/api/v2/order/get_order_list',
         {
           query: queryParams
         }
       )
 
-      if (response.success && response.data) {
-        const orders = response.data.orders.map((order: ShopeeOrder) => 
-          this.transformOrderFromShopee(order)
-        )
+      if (!response.success || !response.data) {
+        return {
+          success: false,
+          error: response.error
+        }
+      }
+
+      const orderSns = (response.data.order_list || []).map(order => order.order_sn)
+      const detailResponse = await this.getOrderDetails(orderSns)
+
+      if (detailResponse.success && detailResponse.data) {
+        const orders = detailResponse.data.map(order => this.transformOrderFromShopee(order))
 
         console.log(`${this.logPrefix} Retrieved ${orders.length} orders`)
         return {
@@ -150,13 +178,13 @@ export class ShopeeOrders {
           data: orders,
           metadata: {
             hasMore: response.data.more,
-            nextOffset: response.data.next_offset
+            nextCursor: response.data.more ? response.data.next_cursor : undefined
           } as any
         }
       } else {
         return {
           success: false,
-          error: response.error
+          error: detailResponse.error
         }
       }
     } catch (error) {
@@ -172,22 +200,24 @@ export class ShopeeOrders {
     }
   }
 
+  /**
+   * Iterate all orders in the date range, split into 15-day windows
+   */
+  iterateOrders(params: Omit<OrderListParams, 'page' | 'cursor'> = {}): AsyncIterable<OrderDetail[]> {
+    return paginateWindows(params, MAX_ORDER_RANGE_SECONDS * 1000, (window, cursor) =>
+      this.listOrders({ ...params, ...window, cursor, pageSize: ORDER_BATCH_SIZE })
+    )
+  }
+
   /**
    * Get detailed information about a specific order
    */
   async getOrder(orderId: string): Promise<ConnectorResponse<OrderDetail>> {
     try {
-      const response = await this.client.request<ShopeeOrderDetailResponse>(
-        '/api/v1/orders/detail',
-        {
-          query: {
-            order_id: orderId
-          }
-        }
-      )
+      const response = await this.getOrderDetails([orderId])
 
-      if (response.success && response.data) {
-        const order = this.transformOrderFromShopee(response.data.order)
+      if (response.success && response.data && response.data.length > 0) {
+        const order = this.transformOrderFromShopee(response.data[0])
         console.log(`${this.logPrefix} Retrieved order: ${order.id}`)
         return {
           success: true,
@@ -196,7 +226,11 @@ export class ShopeeOrders {
       } else {
         return {
           success: false,
-          error: response.error
+          error: response.error || {
+            code: 'ORDER_NOT_FOUND',
+            message: `Order ${orderId} not found`,
+            retryable: false
+          }
         }
       }
     } catch (error) {
@@ -212,6 +246,30 @@ export class ShopeeOrders {
     }
   }
 
+  /**
+   * Fetch order details, batched to the endpoint limit
+   */
+  private async getOrderDetails(orderSns: string[]): Promise<ConnectorResponse<ShopeeOrder[]>> {
+    const orders: ShopeeOrder[] = []
+
+    for (let i = 0; i < orderSns.length; i += ORDER_BATCH_SIZE) {
+      const response = await this.client.request<ShopeeOrderDetailResponse>('/api/v2/order/get_order_detail', {
+        query: {
+          order_sn_list: orderSns.slice(i, i + ORDER_BATCH_SIZE),
+          response_optional_fields: ORDER_DETAIL_FIELDS
+        }
+      })
+
+      if (!response.success || !response.data) {
+        return { success: false, error: response.error }
+      }
+
+      orders.push(...(response.data.order_list || []))
+    }
+
+    return { success: true, data: orders }
+  }
+
   // =============================================================================
   // ORDER STATUS UPDATES
   // =============================================================================
@@ -277,21 +335,18 @@ export class ShopeeOrders {
     try {
       const idempotencyKey = this.client.generateIdempotencyKey()
       
+      // Drop-off shipment; the tracking number is only needed for non-integrated channels
       const updateData: any = {
-        order_id: orderId,
-        order_status: 'ready_to_ship'
-      }
-
-      if (trackingNumber) {
-        updateData.tracking_no = trackingNumber
+        order_sn: orderId,
+        dropoff: trackingNumber ? { tracking_number: trackingNumber } : {}
       }
 
       if (notes) {
-        updateData.notes = notes
+        console.log(`${this.logPrefix} Notes are not sent to Shopee for order ${orderId}: ${notes}`)
       }
 
       const response = await this.client.request(
-        '/api/v1/orders/update_shipping_status',
+        '/api/v2/logistics/ship_order',
         {
           body: updateData,
           idempotencyKey: idempotencyKey.key
@@ -324,8 +379,8 @@ export class ShopeeOrders {
   private async getAllowedStatusUpdates(): Promise<OrderStatus[]> {
     // Shopee API restrictions:
     // - Most status changes require manual action in seller dashboard
-    // - Only 'ready_to_ship' is typically allowed via API
-    return ['processing'] // Only ready_to_ship (mapped to processing)
+    // - Only shipping (ship_order) is typically allowed via API
+    return ['processing'] // Only ship_order (mapped to processing)
   }
 
   // =============================================================================
@@ -336,37 +391,40 @@ export class ShopeeOrders {
    * Transform order from Shopee format to internal format
    */
   private transformOrderFromShopee(shopeeOrder: ShopeeOrder): OrderDetail {
+    const address = shopeeOrder.recipient_address
+
     return {
-      id: shopeeOrder.order_id,
+      id: shopeeOrder.order_sn,
       orderNumber: shopeeOrder.order_sn,
-      platformOrderId: shopeeOrder.order_id,
+      platformOrderId: shopeeOrder.order_sn,
       status: this.mapStatusFromShopee(shopeeOrder.order_status),
-      paymentStatus: this.mapPaymentStatusFromShopee(shopeeOrder.payment_status),
-      totalAmount: shopeeOrder.total_price,
-      currency: 'SGD', // Will need to be determined from account settings
+      paymentStatus: this.mapPaymentStatusFromShopee(shopeeOrder),
+      totalAmount: shopeeOrder.total_amount,
+      currency: shopeeOrder.currency,
       customer: {
-        name: shopeeOrder.recipient_name,
-        email: '', // Shopee doesn't provide email in basic order info
-        phone: shopeeOrder.recipient_phone
+        name: address?.name || shopeeOrder.buyer_username || '',
+        email: '', // Shopee doesn't provide buyer email
+        phone: address?.phone || ''
       },
-      items: shopeeOrder.items.map(item => ({
-        id: item.item_id,
-        productId: item.item_id,
+      items: (shopeeOrder.item_list || []).map(item => ({
+        id: `${item.item_id}:${item.model_id || 0}`,
+        productId: item.item_id.toString(),
         title: item.item_name,
-        sku: item.item_sku,
-        quantity: item.quantity,
-        price: item.item_price,
-        total: item.subtotal
+        sku: item.model_sku || item.item_sku || '',
+        quantity: item.model_quantity_purchased,
+        price: item.model_discounted_price,
+        total: item.model_discounted_price * item.model_quantity_purchased
       })),
       shippingAddress: {
-        name: shopeeOrder.recipient_name,
-        phone: shopeeOrder.recipient_phone,
-        addressLine1: shopeeOrder.recipient_address,
-        city: shopeeOrder.city,
-        state: shopeeOrder.district,
-        postalCode: shopeeOrder.zipcode,
-        country: shopeeOrder.country
+        name: address?.name || '',
+        phone: address?.phone || '',
+        addressLine1: address?.full_address || '',
+        city: address?.city || '',
+        state: address?.state || address?.district || '',
+        postalCode: address?.zipcode || '',
+        country: address?.region || ''
       },
+      shippingMethod: shopeeOrder.shipping_carrier,
       createdAt: new Date(shopeeOrder.create_time * 1000),
       updatedAt: new Date(shopeeOrder.update_time * 1000),
       orderDate: new Date(shopeeOrder.create_time * 1000)
@@ -379,21 +437,21 @@ export class ShopeeOrders {
   private mapStatusToShopee(status: OrderStatus): string {
     switch (status) {
       case 'pending':
-        return 'unpaid'
+        return 'UNPAID'
       case 'paid':
-        return 'paid'
+        return 'READY_TO_SHIP'
       case 'processing':
-        return 'ready_to_ship'
+        return 'PROCESSED'
       case 'shipped':
-        return 'shipped'
+        return 'SHIPPED'
       case 'delivered':
-        return 'delivered'
+        return 'COMPLETED'
       case 'cancelled':
-        return 'cancelled'
+        return 'CANCELLED'
       case 'refunded':
-        return 'refunded'
+        return 'TO_RETURN'
       default:
-        return 'unpaid'
+        return 'UNPAID'
     }
   }
 
@@ -407,8 +465,9 @@ export class ShopeeOrders {
   /**
    * Map Shopee payment status to internal payment status
    */
-  private mapPaymentStatusFromShopee(shopeePaymentStatus: string): PaymentStatus {
-    return SHOPEE_PAYMENT_STATUS_MAPPING[shopeePaymentStatus] || 'unpaid'
+  private mapPaymentStatusFromShopee(shopeeOrder: ShopeeOrder): PaymentStatus {
+    // v2 has no payment status; it follows from the order status and pay time
+    return SHOPEE_PAYMENT_STATUS_MAPPING[shopeeOrder.order_status] || (shopeeOrder.pay_time ? 'paid' : 'unpaid')
   }
 }
 
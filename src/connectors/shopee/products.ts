@@ -6,9 +6,10 @@
  * - Get product details
  * - Create new products
  * - Update existing products
- * - Update stock and price
+ * - Update stock and price, per model for items with tier variations
+ * - Fetch the category tree
  * 
- * Shopee API Reference: https://shopee.github.io/shopee-marathon-api/
+ * Shopee API v2: https://open.shopee.com/documents/v2
  */
 
 import { 
@@ -16,56 +17,153 @@ import {
   ProductDetail,
   ProductPushData,
   ProductUpdateData,
+  ProductVariantDetail,
   ConnectorResponse,
   ValidationResult,
-  ProductValidationRules
+  ProductValidationRules,
+  ChannelCategory,
+  ChannelAttribute,
+  ImageUpload,
+  UploadedImage
 } from '@/connectors/types'
+import { ProductOption } from '@/types/product'
+import { paginate } from '@/connectors/pagination'
 import { ShopeeClient } from './client'
+import { categoriesService } from '@/services/categories-service'
+import { validateChannelAttributes } from '@/domain/mapping/attributes'
+import { validateVariants } from '@/domain/mapping/variants'
 
 // =============================================================================
 // SHOPEE PRODUCT API RESPONSE TYPES
 // =============================================================================
 
-interface ShopeeProduct {
-  product_id: string
+interface ShopeeItem {
+  item_id: number
   category_id: number
-  name: string
-  description: string
-  price: number
-  stock: number
-  status: number // 1=normal, 2=out of stock, 3=deleted
+  item_name: string
+  description?: string
+  item_sku?: string
+  item_status: ShopeeItemStatus
+  create_time: number
+  update_time: number
+  weight?: string
+  has_model: boolean
+  image?: {
+    image_url_list: string[]
+    image_id_list: string[]
+  }
+  price_info?: Array<{
+    currency: string
+    original_price: number
+    current_price: number
+  }>
+  stock_info_v2?: {
+    summary_info?: {
+      total_available_stock: number
+    }
+  }
+}
+
+type ShopeeItemStatus = 'NORMAL' | 'BANNED' | 'UNLIST' | 'REVIEWING' | 'SELLER_DELETE' | 'SHOPEE_DELETE'
+
+interface ShopeeItemListResponse {
   item: Array<{
-    item_id: string
-    model_id?: string
-    status: number
-    stock: number
-    price: number
-    sku: string
+    item_id: number
+    item_status: ShopeeItemStatus
+    update_time: number
   }>
-  images: string[]
-  weight: number
-  created_time: number
-  updated_time: number
+  total_count: number
+  has_next_page: boolean
+  next_offset: number
 }
 
-interface ShopeeProductListResponse {
-  products: ShopeeProduct[]
+interface ShopeeSearchItemResponse {
+  item_id_list: number[]
   total_count: number
-  has_more: boolean
-  next_offset: string
+  next_offset?: number
 }
 
-interface ShopeeCreateProductResponse {
-  product_id: string
-  warnings: string[]
+interface ShopeeItemBaseInfoResponse {
+  item_list: ShopeeItem[]
 }
 
-interface ShopeeProductUpdateResponse {
-  success: boolean
-  product_id: string
-  warnings: string[]
+interface ShopeeAddItemResponse {
+  item_id: number
 }
 
+interface ShopeeModelListResponse {
+  tier_variation: Array<{
+    name: string
+    option_list: Array<{
+      option: string
+      image?: {
+        image_id: string
+        image_url: string
+      }
+    }>
+  }>
+  model: Array<{
+    model_id: number
+    model_sku?: string
+    tier_index: number[]
+    price_info?: Array<{
+      original_price: number
+      current_price: number
+    }>
+    stock_info_v2?: {
+      summary_info?: {
+        total_available_stock: number
+      }
+    }
+  }>
+}
+
+interface ShopeeCategoryResponse {
+  category_list: Array<{
+    category_id: number
+    parent_category_id: number
+    original_category_name: string
+    display_category_name?: string
+    has_children: boolean
+  }>
+}
+
+interface ShopeeAttributesResponse {
+  attribute_list: Array<{
+    attribute_id: number
+    original_attribute_name: string
+    display_attribute_name?: string
+    is_mandatory: boolean
+    input_validation_type: 'VALIDATOR_NO_VALIDATE_TYPE' | 'VALIDATOR_INT_TYPE' | 'VALIDATOR_STRING_TYPE' | 'VALIDATOR_FLOAT_TYPE' | 'VALIDATOR_DATE_TYPE'
+    input_type: 'DROP_DOWN' | 'MULTIPLE_SELECT' | 'TEXT_FILED' | 'COMBO_BOX' | 'MULTIPLE_SELECT_COMBO_BOX'
+    attribute_unit?: string[]
+    attribute_value_list?: Array<{
+      value_id: number
+      original_value_name: string
+      display_value_name?: string
+    }>
+  }>
+}
+
+interface ShopeeUploadImageResponse {
+  image_info: {
+    image_id: string
+    image_url_list?: Array<{
+      image_url_region: string
+      image_url: string
+    }>
+  }
+}
+
+// get_item_base_info accepts at most 50 item IDs per call
+const ITEM_BATCH_SIZE = 50
+
+// get_item_list and search_item return at most 100 item IDs per page
+const ITEM_LIST_PAGE_SIZE = 100
+
+// Shopee supports two tier variations (e.g. colour and size) per item
+const MAX_TIER_VARIATIONS = 2
+
 // =============================================================================
 // VALIDATION RULES FOR SHOPEE
 // =============================================================================
@@ -82,7 +180,9 @@ export const SHOPEE_VALIDATION_RULES: ProductValidationRules = {
     minCount: 1,
     maxCount: 9,
     maxSizeInMB: 10,
-    allowedFormats: ['jpg', 'jpeg', 'png', 'webp']
+    allowedFormats: ['jpg', 'jpeg', 'png', 'webp'],
+    minDimension: 500,
+    maxDimension: 5000
   }
 }
 
@@ -107,50 +207,47 @@ export class ShopeeProducts {
    */
   async listProducts(params: ProductListParams = {}): Promise<ConnectorResponse<ProductDetail[]>> {
     try {
-      const queryParams: any = {
-        page_size: params.pageSize || 50,
-        offset: ((params.page || 1) - 1) * (params.pageSize || 50)
-      }
+      const pageSize = Math.min(params.pageSize || 50, ITEM_BATCH_SIZE)
+      // The cursor is the next offset returned by the previous page
+      const offset = params.cursor ? Number(params.cursor) : ((params.page || 1) - 1) * pageSize
 
-      // Apply filters
-      if (params.status) {
-        queryParams.status = this.mapStatusToShopee(params.status)
+      if (params.category) {
+        console.warn(`${this.logPrefix} Category filter not supported by Shopee item list, ignoring`)
       }
 
-      if (params.search) {
-        queryParams.keyword = params.search
-      }
+      // Keyword search and plain listing use different endpoints
+      const listResponse = params.search
+        ? await this.searchItemIds(params.search, offset, pageSize)
+        : await this.listItemIds(offset, pageSize, params.status, params.modifiedFrom, params.modifiedTo)
 
-      if (params.category) {
-        queryParams.category_id = await this.getCategoryId(params.category)
+      if (!listResponse.success || !listResponse.data) {
+        return {
+          success: false,
+          error: listResponse.error
+        }
       }
 
-      const response = await this.client.request<ShopeeProductListResponse>(
-        '/api/v1/products/search',
-        {
-          query: queryParams
-        }
-      )
+      const { itemIds, totalCount, hasMore, nextOffset } = listResponse.data
+      const itemsResponse = await this.getItemBaseInfo(itemIds)
 
-      if (response.success && response.data) {
-        const products = response.data.products.map(product => 
-          this.transformProductFromShopee(product)
-        )
+      if (itemsResponse.success && itemsResponse.data) {
+        const products = itemsResponse.data.map(item => this.transformProductFromShopee(item))
 
         console.log(`${this.logPrefix} Retrieved ${products.length} products`)
         return {
           success: true,
           data: products,
           metadata: {
-            totalCount: response.data.total_count,
-            hasMore: response.data.has_more,
-            nextOffset: response.data.next_offset
+            totalCount,
+            hasMore,
+            nextOffset,
+            nextCursor: hasMore && nextOffset !== undefined ? String(nextOffset) : undefined
           } as any
         }
       } else {
         return {
           success: false,
-          error: response.error
+          error: itemsResponse.error
         }
       }
     } catch (error) {
@@ -166,22 +263,61 @@ export class ShopeeProducts {
     }
   }
 
+  /**
+   * Iterate all products matching the filters, page by page
+   */
+  iterateProducts(params: Omit<ProductListParams, 'page' | 'cursor'> = {}): AsyncIterable<ProductDetail[]> {
+    return paginate(cursor => this.listProducts({ ...params, cursor, pageSize: ITEM_BATCH_SIZE }))
+  }
+
+  /**
+   * Iterate the IDs of all products matching the filters from the item list
+   * alone, without fetching their details
+   */
+  iterateProductIds(params: Omit<ProductListParams, 'page' | 'cursor'> = {}): AsyncIterable<string[]> {
+    return paginate<string>(async cursor => {
+      const offset = cursor ? Number(cursor) : 0
+      const listResponse = params.search
+        ? await this.searchItemIds(params.search, offset, ITEM_LIST_PAGE_SIZE)
+        : await this.listItemIds(offset, ITEM_LIST_PAGE_SIZE, params.status, params.modifiedFrom, params.modifiedTo)
+
+      if (!listResponse.success || !listResponse.data) {
+        return {
+          success: false,
+          error: listResponse.error
+        }
+      }
+
+      const { itemIds, hasMore, nextOffset } = listResponse.data
+      return {
+        success: true,
+        data: itemIds.map(String),
+        metadata: {
+          nextCursor: hasMore && nextOffset !== undefined ? String(nextOffset) : undefined
+        } as any
+      }
+    })
+  }
+
   /**
    * Get detailed information about a specific product
    */
   async getProduct(productId: string): Promise<ConnectorResponse<ProductDetail>> {
     try {
-      const response = await this.client.request<ShopeeProduct>(
-        '/api/v1/products/detail',
-        {
-          query: {
-            product_id: productId
+      const response = await this.getItemBaseInfo([Number(productId)])
+
+      if (response.success && response.data && response.data.length > 0) {
+        const product = this.transformProductFromShopee(response.data[0])
+
+        // Variations are only returned by the model list
+        if (response.data[0].has_model) {
+          const models = await this.getModels(productId)
+          if (!models.success || !models.data) {
+            return { success: false, error: models.error }
           }
+          Object.assign(product, models.data)
         }
-      )
 
-      if (response.success && response.data) {
-        const product = this.transformProductFromShopee(response.data)
         console.log(`${this.logPrefix} Retrieved product: ${product.id}`)
         return {
           success: true,
@@ -190,7 +326,11 @@ export class ShopeeProducts {
       } else {
         return {
           success: false,
-          error: response.error
+          error: response.error || {
+            code: 'PRODUCT_NOT_FOUND',
+            message: `Product ${productId} not found`,
+            retryable: false
+          }
         }
       }
     } catch (error) {
@@ -228,14 +368,60 @@ export class ShopeeProducts {
         }
       }
 
+      const variantErrors = validateVariants(productData.options, productData.variants, MAX_TIER_VARIATIONS)
+      if (variantErrors.length > 0) {
+        return {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: `Product validation failed: ${variantErrors.map(e => e.message).join(', ')}`,
+            retryable: false
+          }
+        }
+      }
+
+      // Listings must reference a leaf category of the shop's market
+      const categoryId = await this.getCategoryId(productData.category)
+      if (!categoryId) {
+        return {
+          success: false,
+          error: {
+            code: 'CATEGORY_NOT_MAPPED',
+            message: `No Shopee category mapped for '${productData.category || ''}' in market ${this.client.getConfig().market || '(unset)'}`,
+            retryable: false
+          }
+        }
+      }
+
+      // Attributes are checked against the category's synced schema when there is one
+      const market = this.client.getConfig().market
+      const schema = market
+        ? await categoriesService.getAttributeSchema('shopee', market, String(categoryId))
+        : null
+      const attributeErrors = schema ? validateChannelAttributes(productData.attributes, schema.attributes) : []
+
+      if (attributeErrors.length > 0) {
+        return {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: `Product validation failed: ${attributeErrors.map(e => e.message).join(', ')}`,
+            retryable: false
+          }
+        }
+      }
+
       // Transform to Shopee format
-      const shopeeProduct = this.transformProductToShopee(productData)
+      const shopeeProduct = {
+        ...this.transformProductToShopee(productData, categoryId),
+        ...(schema && { attribute_list: this.transformAttributesToShopee(productData.attributes, schema.attributes) })
+      }
       
       // Generate idempotency key
       const idempotencyKey = this.client.generateIdempotencyKey()
       
-      const response = await this.client.request<ShopeeCreateProductResponse>(
-        '/api/v1/products/add',
+      const response = await this.client.request<ShopeeAddItemResponse>(
+        '/api/v2/product/add_item',
         {
           body: shopeeProduct,
           idempotencyKey: idempotencyKey.key
@@ -243,8 +429,23 @@ export class ShopeeProducts {
       )
 
       if (response.success && response.data) {
+        // Tier variations can only be added once the item exists
+        if (productData.variants?.length) {
+          const variationResponse = await this.initTierVariation(response.data.item_id, productData)
+          if (!variationResponse.success) {
+            return {
+              success: false,
+              error: {
+                code: 'INIT_VARIATION_ERROR',
+                message: `Item ${response.data.item_id} created without variations: ${variationResponse.error?.message || 'unknown error'}`,
+                retryable: false
+              }
+            }
+          }
+        }
+
         // Get the created product details
-        const productResponse = await this.getProduct(response.data.product_id)
+        const productResponse = await this.getProduct(String(response.data.item_id))
         
         if (productResponse.success && productResponse.data) {
           console.log(`${this.logPrefix} Created product: ${productResponse.data.id}`)
@@ -300,22 +501,38 @@ export class ShopeeProducts {
         }
       }
 
-      // Transform update data to Shopee format
+      // Listing fields, stock, price and listing status are separate v2 endpoints
       const shopeeUpdate = this.transformUpdateToShopee(updateData)
-      
-      // Generate idempotency key
-      const idempotencyKey = this.client.generateIdempotencyKey()
-      
-      const response = await this.client.request<ShopeeProductUpdateResponse>(
-        '/api/v1/products/update',
-        {
+      const steps: Array<() => Promise<ConnectorResponse<any>>> = []
+
+      if (Object.keys(shopeeUpdate).length > 0) {
+        const idempotencyKey = this.client.generateIdempotencyKey()
+        steps.push(() => this.client.request('/api/v2/product/update_item', {
           body: {
             ...shopeeUpdate,
-            product_id: productId
+            item_id: Number(productId)
           },
           idempotencyKey: idempotencyKey.key
-        }
-      )
+        }))
+      }
+
+      if (updateData.stock !== undefined) {
+        steps.push(() => this.updateStock(productId, updateData.stock!))
+      }
+
+      if (updateData.price !== undefined) {
+        steps.push(() => this.updatePrice(productId, updateData.price!, updateData.compareAtPrice))
+      }
+
+      if (updateData.status !== undefined) {
+        steps.push(() => this.setListed(productId, updateData.status === 'active'))
+      }
+
+      let response: ConnectorResponse<any> = { success: true }
+      for (const step of steps) {
+        response = await step()
+        if (!response.success) break
+      }
 
       if (response.success) {
         // Get the updated product details
@@ -362,24 +579,32 @@ export class ShopeeProducts {
 
   /**
    * Update product stock
+   *
+   * `variantId` is the model ID of an item with tier variations.
    */
-  async updateStock(productId: string, stock: number): Promise<ConnectorResponse<void>> {
+  async updateStock(productId: string, stock: number, variantId?: string): Promise<ConnectorResponse<void>> {
     try {
       const idempotencyKey = this.client.generateIdempotencyKey()
       
+      // Items without variations are updated through the default model (0)
       const response = await this.client.request(
-        '/api/v1/products/update_stock',
+        '/api/v2/product/update_stock',
         {
           body: {
-            product_id: productId,
-            stock
+            item_id: Number(productId),
+            stock_list: [
+              {
+                model_id: variantId ? Number(variantId) : 0,
+                seller_stock: [{ stock }]
+              }
+            ]
           },
           idempotencyKey: idempotencyKey.key
         }
       )
 
       if (response.success) {
-        console.log(`${this.logPrefix} Updated stock for product ${productId}: ${stock}`)
+        console.log(`${this.logPrefix} Updated stock for product ${productId}${variantId ? ` model ${variantId}` : ''}: ${stock}`)
         return { success: true }
       } else {
         return { success: false, error: response.error }
@@ -399,34 +624,41 @@ export class ShopeeProducts {
 
   /**
    * Update product price
+   *
+   * `variantId` is the model ID of an item with tier variations.
    */
   async updatePrice(
     productId: string, 
     price: number, 
-    compareAtPrice?: number
+    compareAtPrice?: number,
+    variantId?: string
   ): Promise<ConnectorResponse<void>> {
     try {
       const idempotencyKey = this.client.generateIdempotencyKey()
       
-      const updateData: any = {
-        product_id: productId,
-        price
-      }
-
+      // v2 only sets the original price; strike-through prices need a discount promotion
       if (compareAtPrice !== undefined) {
-        updateData.original_price = compareAtPrice
+        console.warn(`${this.logPrefix} compareAtPrice is managed through Shopee discounts, ignoring for ${productId}`)
       }
 
       const response = await this.client.request(
-        '/api/v1/products/update_price',
+        '/api/v2/product/update_price',
         {
-          body: updateData,
+          body: {
+            item_id: Number(productId),
+            price_list: [
+              {
+                model_id: variantId ? Number(variantId) : 0,
+                original_price: price
+              }
+            ]
+          },
           idempotencyKey: idempotencyKey.key
         }
       )
 
       if (response.success) {
-        console.log(`${this.logPrefix} Updated price for product ${productId}: ${price}`)
+        console.log(`${this.logPrefix} Updated price for product ${productId}${variantId ? ` model ${variantId}` : ''}: ${price}`)
         return { success: true }
       } else {
         return { success: false, error: response.error }
@@ -444,6 +676,301 @@ export class ShopeeProducts {
     }
   }
 
+  /**
+   * List or unlist a product
+   */
+  private async setListed(productId: string, listed: boolean): Promise<ConnectorResponse<void>> {
+    const idempotencyKey = this.client.generateIdempotencyKey()
+
+    const response = await this.client.request('/api/v2/product/unlist_item', {
+      body: {
+        item_list: [{ item_id: Number(productId), unlist: !listed }]
+      },
+      idempotencyKey: idempotencyKey.key
+    })
+
+    return response.success ? { success: true } : { success: false, error: response.error }
+  }
+
+  // =============================================================================
+  // VARIATION OPERATIONS
+  // =============================================================================
+
+  /**
+   * Fetch the tier variations and models of an item
+   */
+  private async getModels(
+    productId: string
+  ): Promise<ConnectorResponse<{ options: ProductOption[]; variants: ProductVariantDetail[] }>> {
+    const response = await this.client.request<ShopeeModelListResponse>('/api/v2/product/get_model_list', {
+      query: { item_id: Number(productId) }
+    })
+
+    if (!response.success || !response.data) {
+      return { success: false, error: response.error }
+    }
+
+    return { success: true, data: this.transformModelsFromShopee(response.data) }
+  }
+
+  /**
+   * Add tier variations and one model per variant to a created item
+   *
+   * Tier options follow the order of `productData.options`; the first tier
+   * carries the variant images, as Shopee only shows images on that tier.
+   */
+  private async initTierVariation(itemId: number, productData: ProductPushData): Promise<ConnectorResponse<void>> {
+    const options = productData.options || []
+    const variants = productData.variants || []
+    const idempotencyKey = this.client.generateIdempotencyKey()
+
+    const tierVariation = options.map((option, tier) => ({
+      name: option.name,
+      option_list: option.values.map(value => {
+        const source = tier === 0
+          ? variants.find(variant => variant.options[option.name] === value && variant.image)?.image
+          : undefined
+        const image = source && (productData.platformImages?.[source] ?? source)
+        return {
+          option: value,
+          ...(image && { image: { image_id: image } })
+        }
+      })
+    }))
+
+    const model = variants.map(variant => ({
+      tier_index: options.map(option => option.values.indexOf(variant.options[option.name])),
+      original_price: variant.price,
+      model_sku: variant.sku,
+      seller_stock: [{ stock: variant.stock }]
+    }))
+
+    const response = await this.client.request('/api/v2/product/init_tier_variation', {
+      body: {
+        item_id: itemId,
+        tier_variation: tierVariation,
+        model
+      },
+      idempotencyKey: idempotencyKey.key
+    })
+
+    return response.success ? { success: true } : { success: false, error: response.error }
+  }
+
+  // =============================================================================
+  // MEDIA OPERATIONS
+  // =============================================================================
+
+  /**
+   * Upload an image to the Shopee media space
+   *
+   * The returned image ID is what `image_id_list` and tier option images
+   * reference.
+   */
+  async uploadImage(image: ImageUpload): Promise<ConnectorResponse<UploadedImage>> {
+    try {
+      const formData = new FormData()
+      formData.append('image', new Blob([new Uint8Array(image.data)], { type: image.mimeType }), image.filename)
+
+      const response = await this.client.request<ShopeeUploadImageResponse>('/api/v2/media_space/upload_image', {
+        formData
+      })
+
+      if (!response.success || !response.data) {
+        return { success: false, error: response.error }
+      }
+
+      const { image_id, image_url_list } = response.data.image_info
+      return {
+        success: true,
+        data: {
+          id: image_id,
+          url: image_url_list?.[0]?.image_url
+        }
+      }
+    } catch (error) {
+      console.error(`${this.logPrefix} Error uploading image ${image.filename}:`, error)
+      return {
+        success: false,
+        error: {
+          code: 'UPLOAD_IMAGE_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to upload image',
+          retryable: true
+        }
+      }
+    }
+  }
+
+  // =============================================================================
+  // CATEGORY OPERATIONS
+  // =============================================================================
+
+  /**
+   * Fetch the full category tree for the shop's market
+   */
+  async listCategories(language?: string): Promise<ConnectorResponse<ChannelCategory[]>> {
+    try {
+      const response = await this.client.request<ShopeeCategoryResponse>('/api/v2/product/get_category', {
+        query: language ? { language } : {}
+      })
+
+      if (!response.success || !response.data) {
+        return { success: false, error: response.error }
+      }
+
+      const categories = response.data.category_list.map(category => ({
+        id: String(category.category_id),
+        parentId: category.parent_category_id ? String(category.parent_category_id) : undefined,
+        name: category.original_category_name,
+        displayName: category.display_category_name,
+        hasChildren: category.has_children
+      }))
+
+      return { success: true, data: categories }
+    } catch (error) {
+      console.error(`${this.logPrefix} Error listing categories:`, error)
+      return {
+        success: false,
+        error: {
+          code: 'LIST_CATEGORIES_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to list categories',
+          retryable: true
+        }
+      }
+    }
+  }
+
+  /**
+   * Fetch the attributes a leaf category accepts
+   */
+  async listCategoryAttributes(categoryId: string, language?: string): Promise<ConnectorResponse<ChannelAttribute[]>> {
+    try {
+      const response = await this.client.request<ShopeeAttributesResponse>('/api/v2/product/get_attributes', {
+        query: {
+          category_id: Number(categoryId),
+          ...(language && { language })
+        }
+      })
+
+      if (!response.success || !response.data) {
+        return { success: false, error: response.error }
+      }
+
+      const attributes = response.data.attribute_list.map(attribute => this.transformAttributeFromShopee(attribute))
+
+      return { success: true, data: attributes }
+    } catch (error) {
+      console.error(`${this.logPrefix} Error listing attributes for category ${categoryId}:`, error)
+      return {
+        success: false,
+        error: {
+          code: 'LIST_ATTRIBUTES_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to list attributes',
+          retryable: true
+        }
+      }
+    }
+  }
+
+  // =============================================================================
+  // ITEM LOOKUP HELPERS
+  // =============================================================================
+
+  /**
+   * Page through item IDs, optionally filtered by status
+   */
+  private async listItemIds(
+    offset: number,
+    pageSize: number,
+    status?: string,
+    modifiedFrom?: Date,
+    modifiedTo?: Date
+  ): Promise<ConnectorResponse<{ itemIds: number[]; totalCount: number; hasMore: boolean; nextOffset?: number }>> {
+    const query: Record<string, any> = {
+      offset,
+      page_size: pageSize,
+      item_status: status ? this.mapStatusToShopee(status) : 'NORMAL'
+    }
+
+    // Shopee requires both ends of the update time range
+    if (modifiedFrom) {
+      query.update_time_from = Math.floor(modifiedFrom.getTime() / 1000)
+      query.update_time_to = Math.floor((modifiedTo || new Date()).getTime() / 1000)
+    }
+
+    const response = await this.client.request<ShopeeItemListResponse>('/api/v2/product/get_item_list', {
+      query
+    })
+
+    if (!response.success || !response.data) {
+      return { success: false, error: response.error }
+    }
+
+    return {
+      success: true,
+      data: {
+        itemIds: (response.data.item || []).map(item => item.item_id),
+        totalCount: response.data.total_count,
+        hasMore: response.data.has_next_page,
+        nextOffset: response.data.next_offset
+      }
+    }
+  }
+
+  /**
+   * Search item IDs by name
+   */
+  private async searchItemIds(
+    keyword: string,
+    offset: number,
+    pageSize: number
+  ): Promise<ConnectorResponse<{ itemIds: number[]; totalCount: number; hasMore: boolean; nextOffset?: number }>> {
+    const response = await this.client.request<ShopeeSearchItemResponse>('/api/v2/product/search_item', {
+      query: {
+        item_name: keyword,
+        offset,
+        page_size: pageSize
+      }
+    })
+
+    if (!response.success || !response.data) {
+      return { success: false, error: response.error }
+    }
+
+    return {
+      success: true,
+      data: {
+        itemIds: response.data.item_id_list || [],
+        totalCount: response.data.total_count,
+        hasMore: response.data.next_offset !== undefined,
+        nextOffset: response.data.next_offset
+      }
+    }
+  }
+
+  /**
+   * Fetch base info for items, batched to the endpoint limit
+   */
+  private async getItemBaseInfo(itemIds: number[]): Promise<ConnectorResponse<ShopeeItem[]>> {
+    const items: ShopeeItem[] = []
+
+    for (let i = 0; i < itemIds.length; i += ITEM_BATCH_SIZE) {
+      const response = await this.client.request<ShopeeItemBaseInfoResponse>('/api/v2/product/get_item_base_info', {
+        query: {
+          item_id_list: itemIds.slice(i, i + ITEM_BATCH_SIZE)
+        }
+      })
+
+      if (!response.success || !response.data) {
+        return { success: false, error: response.error }
+      }
+
+      items.push(...(response.data.item_list || []))
+    }
+
+    return { success: true, data: items }
+  }
+
   // =============================================================================
   // VALIDATION HELPERS
   // =============================================================================
@@ -576,118 +1103,217 @@ export class ShopeeProducts {
   /**
    * Transform product from Shopee format to internal format
    */
-  private transformProductFromShopee(shopeeProduct: ShopeeProduct): ProductDetail {
+  private transformProductFromShopee(item: ShopeeItem): ProductDetail {
+    const priceInfo = item.price_info?.[0]
+    const stock = item.stock_info_v2?.summary_info?.total_available_stock || 0
+
+    return {
+      id: item.item_id.toString(),
+      title: item.item_name,
+      description: item.description,
+      price: priceInfo?.current_price || 0,
+      compareAtPrice: priceInfo && priceInfo.original_price > priceInfo.current_price
+        ? priceInfo.original_price
+        : undefined,
+      stock,
+      category: item.category_id.toString(),
+      images: item.image?.image_url_list || [],
+      attributes: {
+        sku: item.item_sku,
+        hasModel: item.has_model,
+        currency: priceInfo?.currency
+      },
+      status: this.mapStatusFromShopee(item.item_status, stock),
+      createdAt: new Date(item.create_time * 1000),
+      updatedAt: new Date(item.update_time * 1000)
+    }
+  }
+
+  /**
+   * Transform Shopee tier variations and models to options and variants
+   */
+  private transformModelsFromShopee(
+    modelList: ShopeeModelListResponse
+  ): { options: ProductOption[]; variants: ProductVariantDetail[] } {
+    const tiers = modelList.tier_variation || []
+
     return {
-      id: shopeeProduct.product_id,
-      title: shopeeProduct.name,
-      description: shopeeProduct.description,
-      price: shopeeProduct.price,
-      stock: shopeeProduct.stock,
-      category: shopeeProduct.category_id.toString(),
-      images: shopeeProduct.images || [],
-      attributes: {},
-      status: this.mapStatusFromShopee(shopeeProduct.status),
-      createdAt: new Date(shopeeProduct.created_time * 1000),
-      updatedAt: new Date(shopeeProduct.updated_time * 1000)
+      options: tiers.map(tier => ({
+        name: tier.name,
+        values: tier.option_list.map(option => option.option)
+      })),
+      variants: (modelList.model || []).map(model => {
+        const priceInfo = model.price_info?.[0]
+        const [firstTierIndex] = model.tier_index
+
+        return {
+          id: String(model.model_id),
+          sku: model.model_sku || undefined,
+          options: tiers.reduce<Record<string, string>>((values, tier, index) => {
+            values[tier.name] = tier.option_list[model.tier_index[index]]?.option
+            return values
+          }, {}),
+          price: priceInfo?.current_price || 0,
+          compareAtPrice: priceInfo && priceInfo.original_price > priceInfo.current_price
+            ? priceInfo.original_price
+            : undefined,
+          stock: model.stock_info_v2?.summary_info?.total_available_stock || 0,
+          image: tiers[0]?.option_list[firstTierIndex]?.image?.image_url
+        }
+      })
     }
   }
 
+  /**
+   * Transform a Shopee category attribute to the shared attribute schema
+   */
+  private transformAttributeFromShopee(attribute: ShopeeAttributesResponse['attribute_list'][number]): ChannelAttribute {
+    const selectTypes: Record<string, ChannelAttribute['inputType']> = {
+      DROP_DOWN: 'select',
+      COMBO_BOX: 'select',
+      MULTIPLE_SELECT: 'multi_select',
+      MULTIPLE_SELECT_COMBO_BOX: 'multi_select'
+    }
+
+    const validationTypes: Record<string, ChannelAttribute['inputType']> = {
+      VALIDATOR_INT_TYPE: 'number',
+      VALIDATOR_FLOAT_TYPE: 'number',
+      VALIDATOR_DATE_TYPE: 'date'
+    }
+
+    return {
+      id: String(attribute.attribute_id),
+      name: attribute.original_attribute_name,
+      displayName: attribute.display_attribute_name,
+      inputType: selectTypes[attribute.input_type] || validationTypes[attribute.input_validation_type] || 'text',
+      required: attribute.is_mandatory,
+      allowCustomValue: attribute.input_type.includes('COMBO_BOX') || undefined,
+      options: attribute.attribute_value_list?.map(value => ({
+        id: String(value.value_id),
+        name: value.display_value_name || value.original_value_name
+      })),
+      units: attribute.attribute_unit?.length ? attribute.attribute_unit : undefined
+    }
+  }
+
+  /**
+   * Build add_item's attribute_list from attribute values keyed by attribute ID
+   *
+   * Option IDs become `value_id`; free-text values are sent with value_id 0.
+   */
+  private transformAttributesToShopee(
+    attributes: Record<string, any> = {},
+    schema: ChannelAttribute[]
+  ): Array<{ attribute_id: number; attribute_value_list: Array<{ value_id: number; original_value_name?: string }> }> {
+    return schema
+      .filter(attribute => attributes[attribute.id] !== undefined && attributes[attribute.id] !== '')
+      .map(attribute => {
+        const values: string[] = ([] as string[]).concat(attributes[attribute.id])
+        const optionIds = new Set((attribute.options || []).map(option => option.id))
+
+        return {
+          attribute_id: Number(attribute.id),
+          attribute_value_list: values.map(value => optionIds.has(String(value))
+            ? { value_id: Number(value) }
+            : { value_id: 0, original_value_name: String(value) })
+        }
+      })
+  }
+
   /**
    * Transform internal product data to Shopee format
+   *
+   * Shopee expects image IDs from its media space; images without an
+   * uploaded ID in `platformImages` are passed through as-is.
    */
-  private transformProductToShopee(productData: ProductPushData): any {
+  private transformProductToShopee(productData: ProductPushData, categoryId: number): any {
     return {
-      name: productData.title,
+      item_name: productData.title,
       description: productData.description || '',
-      price: productData.price,
-      stock: productData.stock,
-      category_id: 0, // Will need to be mapped based on category
-      images: productData.images,
+      original_price: productData.price,
+      seller_stock: [{ stock: productData.stock }],
+      category_id: categoryId,
+      image: {
+        image_id_list: productData.images.map(image => productData.platformImages?.[image] ?? image)
+      },
       weight: productData.weight || 0,
-      item: [
-        {
-          sku: productData.sku || '',
-          stock: productData.stock,
-          price: productData.price,
-          status: 1
-        }
-      ]
+      item_sku: productData.sku || '',
+      item_status: 'NORMAL'
     }
   }
 
   /**
-   * Transform update data to Shopee format
+   * Transform listing fields of an update to Shopee format
    */
   private transformUpdateToShopee(updateData: ProductUpdateData): any {
     const update: any = {}
 
     if (updateData.title !== undefined) {
-      update.name = updateData.title
+      update.item_name = updateData.title
     }
 
     if (updateData.description !== undefined) {
       update.description = updateData.description
     }
 
-    if (updateData.price !== undefined) {
-      update.price = updateData.price
-    }
-
-    if (updateData.stock !== undefined) {
-      update.stock = updateData.stock
-    }
-
     if (updateData.images !== undefined) {
-      update.images = updateData.images
-    }
-
-    if (updateData.status !== undefined) {
-      update.status = this.mapStatusToShopee(updateData.status)
+      update.image = {
+        image_id_list: updateData.images.map(image => updateData.platformImages?.[image] ?? image)
+      }
     }
 
     return update
   }
 
   /**
-   * Map internal status to Shopee status
+   * Map internal status to Shopee item status
    */
-  private mapStatusToShopee(status: string): number {
+  private mapStatusToShopee(status: string): ShopeeItemStatus {
     switch (status) {
+      case 'inactive':
+        return 'UNLIST'
       case 'active':
-        return 1
       case 'out_of_stock':
-        return 2
-      case 'inactive':
-        return 0
       default:
-        return 1
+        return 'NORMAL'
     }
   }
 
   /**
-   * Map Shopee status to internal status
+   * Map Shopee item status to internal status
    */
-  private mapStatusFromShopee(status: number): 'active' | 'inactive' | 'out_of_stock' {
-    switch (status) {
-      case 1:
-        return 'active'
-      case 2:
-        return 'out_of_stock'
-      case 0:
-        return 'inactive'
-      default:
-        return 'inactive'
+  private mapStatusFromShopee(status: ShopeeItemStatus, stock: number): 'active' | 'inactive' | 'out_of_stock' {
+    if (status !== 'NORMAL') {
+      return 'inactive'
     }
+
+    return stock > 0 ? 'active' : 'out_of_stock'
   }
 
   /**
-   * Get category ID by category name (placeholder implementation)
+   * Resolve the Shopee category for an internal category
+   *
+   * Numeric values are taken as Shopee category IDs; anything else goes
+   * through the category mappings for the shop's market. Returns 0 when
+   * nothing is mapped.
    */
-  private async getCategoryId(categoryName: string): Promise<number> {
-    // TODO: Implement category mapping logic
-    // This would typically involve calling Shopee's category API
-    // and mapping your internal categories to Shopee's category IDs
-    return 0
+  private async getCategoryId(categoryName?: string): Promise<number> {
+    if (!categoryName) {
+      return 0
+    }
+
+    if (/^\d+$/.test(categoryName)) {
+      return Number(categoryName)
+    }
+
+    const { market } = this.client.getConfig()
+    if (!market) {
+      console.warn(`${this.logPrefix} Shop market is not configured, cannot map category '${categoryName}'`)
+      return 0
+    }
+
+    const categoryId = await categoriesService.resolveCategoryId('shopee', market, categoryName)
+    return categoryId ? Number(categoryId) : 0
   }
 }
 
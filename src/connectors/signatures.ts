@@ -0,0 +1,23 @@
+/**
+ * Connector Signatures
+ *
+ * Shared helpers for checking the HMAC signatures platforms put on webhooks
+ * and signed requests.
+ */
+
+import crypto from 'crypto'
+
+/**
+ * Compare signatures in constant time, so the comparison doesn't reveal how
+ * much of a forged signature matched
+ */
+export function signaturesMatch(expected: string, signature: string): boolean {
+  const expectedBuffer = Buffer.from(expected)
+  const signatureBuffer = Buffer.from(signature)
+
+  if (expectedBuffer.length !== signatureBuffer.length) {
+    return false
+  }
+
+  return crypto.timingSafeEqual(expectedBuffer, signatureBuffer)
+}
@@ -0,0 +1,491 @@
+/**
+ * TikTok Shop Connector Client
+ *
+ * Handles request signing, API communication, and base operations
+ * for the TikTok Shop Partner API (202309 versioned endpoints).
+ *
+ * TikTok Shop API Reference: https://partner.tiktokshop.com/docv2/page/tts-api-concepts-overview
+ */
+
+import {
+  ConnectorConfig,
+  ConnectorResponse,
+  ConnectorError,
+  RetryConfig,
+  IdempotencyKey
+} from '@/connectors/types'
+import { rateLimiter, getEndpointGroup } from '@/connectors/rate-limiter'
+import { signaturesMatch } from '@/connectors/signatures'
+import crypto from 'crypto'
+
+// =============================================================================
+// TIKTOK SHOP CLIENT CONFIGURATION
+// =============================================================================
+
+export interface TikTokShopClientConfig extends ConnectorConfig {
+  baseUrl: string
+  appKey: string
+  appSecret: string
+  shopId: string
+  shopCipher: string
+  accessToken: string
+  currency?: string
+  warehouseId?: string
+  shippingProviderId?: string
+}
+
+export interface TikTokShopApiResponse<T = any> {
+  code: number
+  message: string
+  request_id?: string
+  data?: T
+}
+
+export interface TikTokShopRequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE'
+  body?: any
+  formData?: FormData
+  query?: Record<string, any>
+  idempotencyKey?: string
+  includeShopCipher?: boolean
+}
+
+/**
+ * Query parameters that are never part of the signature base string
+ */
+const UNSIGNED_PARAMS = ['sign', 'access_token']
+
+// =============================================================================
+// TIKTOK SHOP CLIENT CLASS
+// =============================================================================
+
+export class TikTokShopClient {
+  private config: TikTokShopClientConfig
+
+  constructor(config: TikTokShopClientConfig) {
+    this.config = {
+      timeout: 30000,
+      retryAttempts: 3,
+      rateLimitPerMinute: 50,
+      currency: 'IDR',
+      ...config
+    }
+  }
+
+  // =============================================================================
+  // HMAC SIGNATURE GENERATION
+  // =============================================================================
+
+  /**
+   * Generate HMAC-SHA256 signature for TikTok Shop API requests
+   *
+   * Base string: app_secret + path + sorted(key + value) + body + app_secret
+   * Multipart bodies are excluded from the base string.
+   */
+  generateSignature(path: string, params: Record<string, string>, body?: string): string {
+    const sortedParams = Object.keys(params)
+      .filter(key => !UNSIGNED_PARAMS.includes(key))
+      .sort()
+      .map(key => `${key}${params[key]}`)
+      .join('')
+
+    const baseString = `${this.config.appSecret}${path}${sortedParams}${body || ''}${this.config.appSecret}`
+
+    return crypto
+      .createHmac('sha256', this.config.appSecret)
+      .update(baseString)
+      .digest('hex')
+  }
+
+  /**
+   * Get current timestamp for API calls (Unix seconds)
+   */
+  private getTimestamp(): string {
+    return Math.floor(Date.now() / 1000).toString()
+  }
+
+  // =============================================================================
+  // HTTP CLIENT WITH RETRY AND RATE LIMITING
+  // =============================================================================
+
+  /**
+   * Make signed API request to TikTok Shop
+   */
+  async request<T = any>(
+    endpoint: string,
+    options: TikTokShopRequestOptions = {}
+  ): Promise<ConnectorResponse<T>> {
+    const {
+      method = 'GET',
+      body,
+      formData,
+      query,
+      idempotencyKey,
+      includeShopCipher = true
+    } = options
+
+    const path = endpoint.startsWith('/') ? endpoint : `/${endpoint}`
+
+    // Shared token bucket per channel account and endpoint group
+    const rateLimit = await rateLimiter.acquire(
+      { platform: 'tiktok', channelAccountId: this.config.channelAccountId, group: getEndpointGroup(path) },
+      this.config.rateLimitPerMinute || 50
+    )
+    if (!rateLimit.allowed) {
+      return {
+        success: false,
+        error: {
+          code: 'RATE_LIMITED',
+          message: `Rate limit exceeded. Retry in ${Math.ceil(rateLimit.retryAfterMs / 1000)}s.`,
+          details: { retryAfterMs: rateLimit.retryAfterMs },
+          retryable: true
+        }
+      }
+    }
+
+    // Build query parameters
+    const params: Record<string, string> = {
+      app_key: this.config.appKey,
+      timestamp: this.getTimestamp()
+    }
+
+    if (includeShopCipher && this.config.shopCipher) {
+      params.shop_cipher = this.config.shopCipher
+    }
+
+    if (query) {
+      Object.entries(query).forEach(([key, value]) => {
+        if (value !== undefined && value !== null) {
+          params[key] = String(value)
+        }
+      })
+    }
+
+    const serializedBody = body !== undefined ? JSON.stringify(body) : undefined
+    params.sign = this.generateSignature(path, params, formData ? undefined : serializedBody)
+
+    const url = `${this.config.baseUrl}${path}?${new URLSearchParams(params).toString()}`
+
+    const retryConfig: RetryConfig = {
+      maxAttempts: this.config.retryAttempts || 3,
+      baseDelayMs: 1000,
+      maxDelayMs: 30000,
+      backoffMultiplier: 2
+    }
+
+    return this.executeWithRetry<T>(
+      url,
+      path,
+      method,
+      formData || serializedBody,
+      retryConfig,
+      idempotencyKey
+    )
+  }
+
+  /**
+   * Execute request with retry logic
+   */
+  private async executeWithRetry<T>(
+    url: string,
+    path: string,
+    method: string,
+    body: string | FormData | undefined,
+    retryConfig: RetryConfig,
+    idempotencyKey?: string
+  ): Promise<ConnectorResponse<T>> {
+    let lastError: ConnectorError | null = null
+
+    for (let attempt = 1; attempt <= retryConfig.maxAttempts; attempt++) {
+      try {
+        const headers: Record<string, string> = {
+          'x-tts-access-token': this.config.accessToken,
+          ...(idempotencyKey && { 'X-Idempotency-Key': idempotencyKey }),
+        }
+
+        // Let fetch set the multipart boundary for FormData bodies
+        if (typeof body === 'string') {
+          headers['Content-Type'] = 'application/json'
+        }
+
+        const response = await fetch(url, {
+          method,
+          headers,
+          body,
+          signal: AbortSignal.timeout(this.config.timeout || 30000)
+        })
+
+        const data: TikTokShopApiResponse<T> = await response.json()
+
+        if (response.ok && data.code === 0) {
+          return {
+            success: true,
+            data: data.data,
+            metadata: {
+              requestId: data.request_id,
+              timestamp: new Date()
+            }
+          }
+        }
+
+        lastError = {
+          code: data.code ? `TTS_${data.code}` : 'UNKNOWN_ERROR',
+          message: data.message || `HTTP ${response.status}: ${response.statusText}`,
+          details: { requestId: data.request_id },
+          httpStatusCode: response.status,
+          retryable: this.isRetryableError(response.status)
+        }
+
+        // If not retryable, break immediately
+        if (!lastError.retryable || attempt === retryConfig.maxAttempts) {
+          break
+        }
+
+        await this.delay(retryConfig, attempt)
+      } catch (error) {
+        lastError = {
+          code: 'NETWORK_ERROR',
+          message: error instanceof Error ? error.message : 'Network error',
+          retryable: true
+        }
+
+        if (attempt === retryConfig.maxAttempts) break
+
+        await this.delay(retryConfig, attempt)
+      }
+    }
+
+    return {
+      success: false,
+      error: lastError || {
+        code: 'UNKNOWN_ERROR',
+        message: 'An unknown error occurred',
+        retryable: false
+      }
+    }
+  }
+
+  /**
+   * Wait before retry with exponential backoff
+   */
+  private async delay(retryConfig: RetryConfig, attempt: number): Promise<void> {
+    const delay = Math.min(
+      retryConfig.baseDelayMs * Math.pow(retryConfig.backoffMultiplier, attempt - 1),
+      retryConfig.maxDelayMs
+    )
+    await new Promise(resolve => setTimeout(resolve, delay))
+  }
+
+  /**
+   * Determine if error is retryable
+   */
+  private isRetryableError(statusCode: number): boolean {
+    // Retry on server errors and rate limits
+    return statusCode >= 500 || statusCode === 429
+  }
+
+  // =============================================================================
+  // API HEALTH CHECK
+  // =============================================================================
+
+  /**
+   * Test API connectivity by listing the shops authorized for this app
+   */
+  async healthCheck(): Promise<ConnectorResponse<{ status: 'healthy' | 'unhealthy'; message?: string }>> {
+    try {
+      const response = await this.request<{ shops: Array<{ id: string; cipher: string; name: string }> }>(
+        '/authorization/202309/shops',
+        { includeShopCipher: false }
+      )
+
+      if (response.success) {
+        const shops = response.data?.shops || []
+        const authorized = !this.config.shopId || shops.some(shop => shop.id === this.config.shopId)
+
+        if (!authorized) {
+          return {
+            success: false,
+            data: {
+              status: 'unhealthy' as const,
+              message: `Shop ${this.config.shopId} is not authorized for this app`
+            },
+            error: {
+              code: 'SHOP_NOT_AUTHORIZED',
+              message: `Shop ${this.config.shopId} is not authorized for this app`,
+              retryable: false
+            }
+          }
+        }
+
+        return {
+          success: true,
+          data: {
+            status: 'healthy' as const,
+            message: 'TikTok Shop API connection successful'
+          }
+        }
+      } else {
+        return {
+          success: false,
+          data: {
+            status: 'unhealthy' as const,
+            message: response.error?.message || 'Unknown error'
+          },
+          error: response.error
+        }
+      }
+    } catch (error) {
+      return {
+        success: false,
+        data: {
+          status: 'unhealthy' as const,
+          message: error instanceof Error ? error.message : 'Connection failed'
+        },
+        error: {
+          code: 'HEALTH_CHECK_ERROR',
+          message: error instanceof Error ? error.message : 'Health check failed',
+          retryable: false
+        }
+      }
+    }
+  }
+
+  // =============================================================================
+  // WEBHOOK SIGNATURE VERIFICATION
+  // =============================================================================
+
+  /**
+   * Verify webhook signature from TikTok Shop
+   *
+   * TikTok Shop signs webhooks with HMAC-SHA256(app_secret, app_key + raw body)
+   */
+  verifyWebhookSignature(payload: string, signature: string): boolean {
+    try {
+      const expectedSignature = crypto
+        .createHmac('sha256', this.config.appSecret)
+        .update(`${this.config.appKey}${payload}`)
+        .digest('hex')
+
+      return signaturesMatch(expectedSignature, signature)
+    } catch (error) {
+      console.error('Error verifying webhook signature:', error)
+      return false
+    }
+  }
+
+  // =============================================================================
+  // IDEMPOTENCY HELPERS
+  // =============================================================================
+
+  /**
+   * Generate idempotency key for request
+   */
+  generateIdempotencyKey(): IdempotencyKey {
+    const key = crypto.randomUUID()
+    return {
+      key,
+      timestamp: new Date(),
+      expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000) // 24 hours
+    }
+  }
+
+  // =============================================================================
+  // GETTERS
+  // =============================================================================
+
+  getConfig(): TikTokShopClientConfig {
+    return { ...this.config }
+  }
+
+  getShopId(): string {
+    return this.config.shopId
+  }
+
+  getAppKey(): string {
+    return this.config.appKey
+  }
+
+  getCurrency(): string {
+    return this.config.currency || 'IDR'
+  }
+
+  getWarehouseId(): string | undefined {
+    return this.config.warehouseId
+  }
+
+  getShippingProviderId(): string | undefined {
+    return this.config.shippingProviderId
+  }
+
+  getBaseUrl(): string {
+    return this.config.baseUrl
+  }
+}
+
+// =============================================================================
+// CLIENT FACTORY
+// =============================================================================
+
+/**
+ * Create TikTok Shop client from environment variables
+ */
+export function createTikTokShopClient(): TikTokShopClient {
+  const config: TikTokShopClientConfig = {
+    baseUrl: process.env.TTS_BASE_URL || 'https://open-api.tiktokglobalshop.com',
+    appKey: process.env.TTS_APP_KEY || '',
+    appSecret: process.env.TTS_APP_SECRET || '',
+    shopId: process.env.TTS_SHOP_ID || '',
+    shopCipher: process.env.TTS_SHOP_CIPHER || '',
+    accessToken: process.env.TTS_ACCESS_TOKEN || '',
+    currency: process.env.TTS_CURRENCY || 'IDR',
+    warehouseId: process.env.TTS_WAREHOUSE_ID || undefined,
+    shippingProviderId: process.env.TTS_SHIPPING_PROVIDER_ID || undefined,
+    timeout: 30000,
+    retryAttempts: 3,
+    rateLimitPerMinute: 50
+  }
+
+  // Validate required configuration
+  const missingVars = []
+  if (!config.appKey) missingVars.push('TTS_APP_KEY')
+  if (!config.appSecret) missingVars.push('TTS_APP_SECRET')
+  if (!config.shopCipher) missingVars.push('TTS_SHOP_CIPHER')
+  if (!config.accessToken) missingVars.push('TTS_ACCESS_TOKEN')
+
+  if (missingVars.length > 0) {
+    throw new Error(`Missing required TikTok Shop environment variables: ${missingVars.join(', ')}`)
+  }
+
+  return new TikTokShopClient(config)
+}
+
+// =============================================================================
+// STANDALONE WEBHOOK SIGNATURE VERIFICATION
+// =============================================================================
+
+/**
+ * Verify webhook signature from TikTok Shop (standalone function)
+ * Used by webhook handlers without needing to instantiate a client
+ */
+export function verifyTikTokShopSignature(payload: string, signature: string): boolean {
+  const appKey = process.env.TTS_APP_KEY
+  const appSecret = process.env.TTS_APP_SECRET
+  if (!appKey || !appSecret) {
+    console.error('TTS_APP_KEY or TTS_APP_SECRET not found in environment')
+    return false
+  }
+
+  try {
+    const expectedSignature = crypto
+      .createHmac('sha256', appSecret)
+      .update(`${appKey}${payload}`)
+      .digest('hex')
+
+    return signaturesMatch(expectedSignature, signature)
+  } catch (error) {
+    console.error('Error verifying TikTok Shop webhook signature:', error)
+    return false
+  }
+}
+
+export default TikTokShopClient
@@ -0,0 +1,281 @@
+/**
+ * TikTok Shop Connector Main Index
+ *
+ * Exports all TikTok Shop connector components and provides factory functions
+ * for easy integration with the AIOStore platform.
+ */
+
+import { TikTokShopClient, TikTokShopClientConfig, createTikTokShopClient } from './client'
+import TikTokShopProducts from './products'
+import TikTokShopOrders from './orders'
+import {
+  Connector,
+  ConnectorResponse,
+  ImageUpload,
+  OrderDetail,
+  OrderListParams,
+  OrderStatusUpdate,
+  PlatformCredentials,
+  ProductDetail,
+  ProductListParams,
+  ProductPushData,
+  ProductUpdateData,
+  SyncJob,
+  UploadedImage
+} from '@/connectors/types'
+
+// =============================================================================
+// MAIN TIKTOK SHOP CONNECTOR CLASS
+// =============================================================================
+
+export class TikTokShopConnector implements Connector {
+  private client: TikTokShopClient
+  private products: TikTokShopProducts
+  private orders: TikTokShopOrders
+  private logPrefix = '[TikTokShopConnector]'
+
+  platform = 'tiktok' as const
+
+  constructor(client: TikTokShopClient) {
+    this.client = client
+    this.products = new TikTokShopProducts(client)
+    this.orders = new TikTokShopOrders(client)
+  }
+
+  // =============================================================================
+  // GETTERS FOR SUB-MODULES
+  // =============================================================================
+
+  getClient(): TikTokShopClient {
+    return this.client
+  }
+
+  getProducts(): TikTokShopProducts {
+    return this.products
+  }
+
+  getOrders(): TikTokShopOrders {
+    return this.orders
+  }
+
+  // =============================================================================
+  // Connector INTERFACE
+  // =============================================================================
+
+  get config() {
+    return this.client.getConfig()
+  }
+
+  get credentials(): PlatformCredentials {
+    const config = this.client.getConfig()
+    return {
+      appKey: config.appKey,
+      appSecret: config.appSecret,
+      shopId: config.shopId,
+      accessToken: config.accessToken,
+      baseUrl: config.baseUrl
+    }
+  }
+
+  // Product operations
+  async listProducts(params?: ProductListParams): Promise<ConnectorResponse<ProductDetail[]>> {
+    return this.products.listProducts(params)
+  }
+
+  iterateProducts(params?: Omit<ProductListParams, 'page' | 'cursor'>): AsyncIterable<ProductDetail[]> {
+    return this.products.iterateProducts(params)
+  }
+
+  async getProduct(productId: string): Promise<ConnectorResponse<ProductDetail>> {
+    return this.products.getProduct(productId)
+  }
+
+  async createProduct(data: ProductPushData): Promise<ConnectorResponse<ProductDetail>> {
+    return this.products.createProduct(data)
+  }
+
+  async updateProduct(productId: string, data: ProductUpdateData): Promise<ConnectorResponse<ProductDetail>> {
+    return this.products.updateProduct(productId, data)
+  }
+
+  async updateStock(productId: string, stock: number, variantId?: string): Promise<ConnectorResponse<void>> {
+    return this.products.updateStock(productId, stock, variantId)
+  }
+
+  async updatePrice(
+    productId: string,
+    price: number,
+    compareAtPrice?: number,
+    variantId?: string
+  ): Promise<ConnectorResponse<void>> {
+    return this.products.updatePrice(productId, price, compareAtPrice, variantId)
+  }
+
+  // Media operations
+  async uploadImage(image: ImageUpload): Promise<ConnectorResponse<UploadedImage>> {
+    return this.products.uploadImage(image)
+  }
+
+  // Order operations
+  async listOrders(params?: OrderListParams): Promise<ConnectorResponse<OrderDetail[]>> {
+    return this.orders.listOrders(params)
+  }
+
+  iterateOrders(params?: Omit<OrderListParams, 'page' | 'cursor'>): AsyncIterable<OrderDetail[]> {
+    return this.orders.iterateOrders(params)
+  }
+
+  async getOrder(orderId: string): Promise<ConnectorResponse<OrderDetail>> {
+    return this.orders.getOrder(orderId)
+  }
+
+  async updateOrderStatus(orderId: string, update: OrderStatusUpdate): Promise<ConnectorResponse<void>> {
+    return this.orders.updateOrderStatus(orderId, update)
+  }
+
+  // Health check
+  async healthCheck() {
+    return this.client.healthCheck()
+  }
+
+  // Webhook verification
+  verifyWebhookSignature(payload: string, signature: string): boolean {
+    return this.client.verifyWebhookSignature(payload, signature)
+  }
+
+  // Sync operations are tracked by SyncJobsService, TikTok Shop has no job concept
+  async getSyncStatus(jobId: string): Promise<ConnectorResponse<SyncJob>> {
+    console.warn(`${this.logPrefix} Sync status is tracked by SyncJobsService, not TikTok Shop`)
+    return {
+      success: false,
+      error: {
+        code: 'NOT_SUPPORTED',
+        message: 'TikTok Shop does not expose sync jobs; use SyncJobsService.getJob',
+        retryable: false
+      }
+    }
+  }
+
+  async cancelSync(jobId: string): Promise<ConnectorResponse<void>> {
+    console.warn(`${this.logPrefix} Sync cancellation is handled by SyncJobsService, not TikTok Shop`)
+    return {
+      success: false,
+      error: {
+        code: 'NOT_SUPPORTED',
+        message: 'TikTok Shop does not expose sync jobs; use SyncJobsService.cancelJob',
+        retryable: false
+      }
+    }
+  }
+}
+
+// =============================================================================
+// FACTORY FUNCTIONS
+// =============================================================================
+
+/**
+ * Create a TikTok Shop connector instance with environment-based configuration
+ */
+export function createTikTokShopConnector(): TikTokShopConnector {
+  const client = createTikTokShopClient()
+  return new TikTokShopConnector(client)
+}
+
+/**
+ * Create TikTok Shop connector with custom configuration
+ */
+export function createCustomTikTokShopConnector(
+  config: Omit<TikTokShopClientConfig, 'baseUrl'> & { baseUrl?: string }
+): TikTokShopConnector {
+  const client = new TikTokShopClient({
+    ...config,
+    baseUrl: config.baseUrl || 'https://open-api.tiktokglobalshop.com'
+  })
+  return new TikTokShopConnector(client)
+}
+
+// =============================================================================
+// VALIDATION HELPERS
+// =============================================================================
+
+/**
+ * Validate TikTok Shop configuration
+ */
+export function validateTikTokShopConfig(): {
+  isValid: boolean
+  errors: string[]
+  warnings: string[]
+} {
+  const errors: string[] = []
+  const warnings: string[] = []
+
+  const requiredVars = [
+    'TTS_APP_KEY',
+    'TTS_APP_SECRET',
+    'TTS_SHOP_CIPHER',
+    'TTS_ACCESS_TOKEN'
+  ]
+
+  requiredVars.forEach(varName => {
+    if (!process.env[varName]) {
+      errors.push(`Missing required environment variable: ${varName}`)
+    }
+  })
+
+  if (!process.env.TTS_WAREHOUSE_ID) {
+    warnings.push('TTS_WAREHOUSE_ID not set, product creation will be rejected')
+  }
+
+  const baseUrl = process.env.TTS_BASE_URL || 'https://open-api.tiktokglobalshop.com'
+  try {
+    new URL(baseUrl)
+  } catch (error) {
+    errors.push('TTS_BASE_URL is not a valid URL')
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings
+  }
+}
+
+/**
+ * Test TikTok Shop connection
+ */
+export async function testTikTokShopConnection(): Promise<{
+  success: boolean
+  message: string
+  details?: any
+}> {
+  try {
+    const connector = createTikTokShopConnector()
+    const healthCheck = await connector.healthCheck()
+
+    if (healthCheck.success) {
+      return {
+        success: true,
+        message: 'TikTok Shop connection successful',
+        details: healthCheck.data
+      }
+    } else {
+      return {
+        success: false,
+        message: `TikTok Shop connection failed: ${healthCheck.error?.message}`,
+        details: healthCheck.error
+      }
+    }
+  } catch (error) {
+    return {
+      success: false,
+      message: `TikTok Shop connection error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      details: error
+    }
+  }
+}
+
+// =============================================================================
+// EXPORTS
+// =============================================================================
+
+export default TikTokShopConnector
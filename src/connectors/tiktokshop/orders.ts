@@ -0,0 +1,496 @@
+/**
+ * TikTok Shop Orders Module
+ *
+ * Handles order-related operations for TikTok Shop platform:
+ * - List orders with pagination and filtering
+ * - Get order details
+ * - Update order status (ship and cancel only)
+ *
+ * Note: Like Shopee, TikTok Shop drives most status transitions itself.
+ * Sellers can only ship packages and cancel unfulfilled orders via API.
+ *
+ * TikTok Shop API Reference: https://partner.tiktokshop.com/docv2/page/orders-api-overview
+ */
+
+import {
+  OrderListParams,
+  OrderDetail,
+  OrderStatusUpdate,
+  ConnectorResponse,
+  OrderStatus,
+  PaymentStatus
+} from '@/connectors/types'
+import { paginate } from '@/connectors/pagination'
+import { TikTokShopClient } from './client'
+
+// =============================================================================
+// TIKTOK SHOP ORDER API RESPONSE TYPES
+// =============================================================================
+
+interface TikTokShopOrder {
+  id: string
+  status: string
+  create_time: number
+  update_time: number
+  paid_time?: number
+  buyer_email?: string
+  tracking_number?: string
+  shipping_provider?: string
+  payment: {
+    currency: string
+    total_amount: string
+    sub_total?: string
+    shipping_fee?: string
+  }
+  recipient_address: {
+    name: string
+    phone_number: string
+    full_address?: string
+    address_line1?: string
+    address_line2?: string
+    postal_code?: string
+    region_code?: string
+    district_info?: Array<{
+      address_level_name: string
+      address_name: string
+    }>
+  }
+  line_items: Array<{
+    id: string
+    product_id: string
+    product_name: string
+    sku_id: string
+    seller_sku?: string
+    sale_price: string
+    original_price?: string
+  }>
+  packages?: Array<{ id: string }>
+}
+
+interface TikTokShopOrderListResponse {
+  orders: TikTokShopOrder[]
+  total_count: number
+  next_page_token?: string
+}
+
+interface TikTokShopOrderDetailResponse {
+  orders: TikTokShopOrder[]
+}
+
+// =============================================================================
+// TIKTOK SHOP ORDER STATUS MAPPING
+// =============================================================================
+
+const TIKTOKSHOP_ORDER_STATUS_MAPPING: Record<string, OrderStatus> = {
+  'UNPAID': 'pending',
+  'ON_HOLD': 'paid',
+  'AWAITING_SHIPMENT': 'processing',
+  'PARTIALLY_SHIPPING': 'processing',
+  'AWAITING_COLLECTION': 'processing',
+  'IN_TRANSIT': 'shipped',
+  'DELIVERED': 'delivered',
+  'COMPLETED': 'delivered',
+  'CANCELLED': 'cancelled'
+}
+
+// =============================================================================
+// TIKTOK SHOP ORDERS CLASS
+// =============================================================================
+
+export class TikTokShopOrders {
+  private client: TikTokShopClient
+  private logPrefix = '[TikTokShopOrders]'
+
+  constructor(client: TikTokShopClient) {
+    this.client = client
+  }
+
+  // =============================================================================
+  // ORDER LISTING OPERATIONS
+  // =============================================================================
+
+  /**
+   * List orders with pagination and filtering
+   */
+  async listOrders(params: OrderListParams = {}): Promise<ConnectorResponse<OrderDetail[]>> {
+    try {
+      const pageSize = Math.min(params.pageSize || 50, 100)
+      const body: any = {}
+
+      if (params.dateFrom) {
+        body.create_time_ge = Math.floor(params.dateFrom.getTime() / 1000)
+      }
+
+      if (params.dateTo) {
+        body.create_time_lt = Math.floor(params.dateTo.getTime() / 1000)
+      }
+
+      if (params.status) {
+        body.order_status = this.mapStatusToTikTokShop(params.status as OrderStatus)
+      }
+
+      if (params.search) {
+        console.warn(`${this.logPrefix} Search parameter not supported by TikTok Shop API`)
+      }
+
+      // A cursor is the page token of the requested page itself
+      const targetPage = params.cursor ? 1 : params.page || 1
+      let pageToken: string | undefined = params.cursor
+      let pageData: TikTokShopOrderListResponse | undefined
+
+      for (let page = 1; page <= targetPage; page++) {
+        const response = await this.client.request<TikTokShopOrderListResponse>(
+          '/order/202309/orders/search',
+          {
+            method: 'POST',
+            query: {
+              page_size: pageSize,
+              page_token: pageToken
+            },
+            body
+          }
+        )
+
+        if (!response.success || !response.data) {
+          return {
+            success: false,
+            error: response.error
+          }
+        }
+
+        pageData = response.data
+        pageToken = response.data.next_page_token || undefined
+
+        // Requested page is past the last page
+        if (!pageToken && page < targetPage) {
+          pageData = { ...response.data, orders: [] }
+          break
+        }
+      }
+
+      const orders = (pageData?.orders || []).map(order => this.transformOrderFromTikTokShop(order))
+
+      console.log(`${this.logPrefix} Retrieved ${orders.length} orders`)
+      return {
+        success: true,
+        data: orders,
+        metadata: {
+          totalCount: pageData?.total_count || 0,
+          hasMore: Boolean(pageToken),
+          nextPageToken: pageToken,
+          nextCursor: pageToken
+        } as any
+      }
+    } catch (error) {
+      console.error(`${this.logPrefix} Error listing orders:`, error)
+      return {
+        success: false,
+        error: {
+          code: 'LIST_ORDERS_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to list orders',
+          retryable: true
+        }
+      }
+    }
+  }
+
+  /**
+   * Iterate all orders matching the filters; order search accepts any date range
+   */
+  iterateOrders(params: Omit<OrderListParams, 'page' | 'cursor'> = {}): AsyncIterable<OrderDetail[]> {
+    return paginate(cursor => this.listOrders({ ...params, cursor, pageSize: 100 }))
+  }
+
+  /**
+   * Get detailed information about a specific order
+   */
+  async getOrder(orderId: string): Promise<ConnectorResponse<OrderDetail>> {
+    try {
+      const response = await this.fetchOrder(orderId)
+
+      if (response.success && response.data) {
+        const order = this.transformOrderFromTikTokShop(response.data)
+        console.log(`${this.logPrefix} Retrieved order: ${order.id}`)
+        return {
+          success: true,
+          data: order
+        }
+      } else {
+        return {
+          success: false,
+          error: response.error
+        }
+      }
+    } catch (error) {
+      console.error(`${this.logPrefix} Error getting order ${orderId}:`, error)
+      return {
+        success: false,
+        error: {
+          code: 'GET_ORDER_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to get order',
+          retryable: true
+        }
+      }
+    }
+  }
+
+  // =============================================================================
+  // ORDER STATUS UPDATES
+  // =============================================================================
+
+  /**
+   * Update order status (if allowed by TikTok Shop API)
+   */
+  async updateOrderStatus(orderId: string, update: OrderStatusUpdate): Promise<ConnectorResponse<void>> {
+    try {
+      switch (update.status) {
+        case 'shipped':
+          return await this.markAsShipped(orderId, update.trackingNumber)
+
+        case 'cancelled':
+          return await this.cancelOrder(orderId, update.notes)
+
+        default:
+          return {
+            success: false,
+            error: {
+              code: 'STATUS_UPDATE_NOT_ALLOWED',
+              message: `Status '${update.status}' cannot be updated via API on TikTok Shop`,
+              retryable: false
+            }
+          }
+      }
+    } catch (error) {
+      console.error(`${this.logPrefix} Error updating order status ${orderId}:`, error)
+      return {
+        success: false,
+        error: {
+          code: 'UPDATE_ORDER_STATUS_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to update order status',
+          retryable: true
+        }
+      }
+    }
+  }
+
+  /**
+   * Mark the order's package as shipped with a seller-arranged tracking number
+   */
+  private async markAsShipped(orderId: string, trackingNumber?: string): Promise<ConnectorResponse<void>> {
+    const shippingProviderId = this.client.getShippingProviderId()
+
+    if (!trackingNumber || !shippingProviderId) {
+      return {
+        success: false,
+        error: {
+          code: 'TRACKING_REQUIRED',
+          message: 'A tracking number and TTS_SHIPPING_PROVIDER_ID are required to ship TikTok Shop orders',
+          retryable: false
+        }
+      }
+    }
+
+    const order = await this.fetchOrder(orderId)
+    const packageId = order.data?.packages?.[0]?.id
+    if (!order.success || !packageId) {
+      return {
+        success: false,
+        error: order.error || {
+          code: 'PACKAGE_NOT_FOUND',
+          message: `Order ${orderId} has no package to ship`,
+          retryable: false
+        }
+      }
+    }
+
+    const idempotencyKey = this.client.generateIdempotencyKey()
+
+    const response = await this.client.request(
+      `/fulfillment/202309/packages/${packageId}/ship`,
+      {
+        method: 'POST',
+        body: {
+          handover_method: 'DROP_OFF',
+          self_shipment: {
+            tracking_number: trackingNumber,
+            shipping_provider_id: shippingProviderId
+          }
+        },
+        idempotencyKey: idempotencyKey.key
+      }
+    )
+
+    if (response.success) {
+      console.log(`${this.logPrefix} Marked order ${orderId} as shipped`)
+      return { success: true }
+    } else {
+      return { success: false, error: response.error }
+    }
+  }
+
+  /**
+   * Cancel an unfulfilled order on behalf of the seller
+   */
+  private async cancelOrder(orderId: string, reason?: string): Promise<ConnectorResponse<void>> {
+    const idempotencyKey = this.client.generateIdempotencyKey()
+
+    const response = await this.client.request(
+      '/return_refund/202309/cancellations',
+      {
+        method: 'POST',
+        body: {
+          order_id: orderId,
+          cancel_reason: reason || 'seller_cancel_out_of_stock'
+        },
+        idempotencyKey: idempotencyKey.key
+      }
+    )
+
+    if (response.success) {
+      console.log(`${this.logPrefix} Cancelled order ${orderId}`)
+      return { success: true }
+    } else {
+      return { success: false, error: response.error }
+    }
+  }
+
+  // =============================================================================
+  // TRANSFORMATION HELPERS
+  // =============================================================================
+
+  /**
+   * Fetch the raw TikTok Shop order
+   */
+  private async fetchOrder(orderId: string): Promise<ConnectorResponse<TikTokShopOrder>> {
+    const response = await this.client.request<TikTokShopOrderDetailResponse>(
+      '/order/202309/orders',
+      {
+        query: { ids: orderId }
+      }
+    )
+
+    if (!response.success || !response.data) {
+      return { success: false, error: response.error }
+    }
+
+    const order = response.data.orders?.[0]
+    if (!order) {
+      return {
+        success: false,
+        error: {
+          code: 'ORDER_NOT_FOUND',
+          message: `Order ${orderId} not found`,
+          retryable: false
+        }
+      }
+    }
+
+    return { success: true, data: order }
+  }
+
+  /**
+   * Transform order from TikTok Shop format to internal format
+   */
+  private transformOrderFromTikTokShop(order: TikTokShopOrder): OrderDetail {
+    const address = order.recipient_address || ({} as TikTokShopOrder['recipient_address'])
+    const districts = address.district_info || []
+    const findDistrict = (level: string) =>
+      districts.find(district => district.address_level_name.toLowerCase() === level)?.address_name
+
+    // TikTok Shop returns one line item per unit, so collapse them by SKU
+    const itemsBySku = new Map<string, OrderDetail['items'][number]>()
+    for (const lineItem of order.line_items || []) {
+      const price = Number(lineItem.sale_price)
+      const existing = itemsBySku.get(lineItem.sku_id)
+      if (existing) {
+        existing.quantity += 1
+        existing.total += price
+      } else {
+        itemsBySku.set(lineItem.sku_id, {
+          id: lineItem.id,
+          productId: lineItem.product_id,
+          title: lineItem.product_name,
+          sku: lineItem.seller_sku,
+          quantity: 1,
+          price,
+          total: price
+        })
+      }
+    }
+
+    return {
+      id: order.id,
+      orderNumber: order.id,
+      platformOrderId: order.id,
+      status: this.mapStatusFromTikTokShop(order.status),
+      paymentStatus: this.mapPaymentStatusFromTikTokShop(order),
+      totalAmount: Number(order.payment?.total_amount || 0),
+      currency: order.payment?.currency || this.client.getCurrency(),
+      customer: {
+        name: address.name,
+        email: order.buyer_email || '',
+        phone: address.phone_number
+      },
+      items: Array.from(itemsBySku.values()),
+      shippingAddress: {
+        name: address.name,
+        phone: address.phone_number,
+        addressLine1: address.address_line1 || address.full_address || '',
+        addressLine2: address.address_line2,
+        city: findDistrict('city') || '',
+        state: findDistrict('province') || findDistrict('state'),
+        postalCode: address.postal_code || '',
+        country: address.region_code || ''
+      },
+      shippingMethod: order.shipping_provider,
+      trackingNumber: order.tracking_number,
+      createdAt: new Date(order.create_time * 1000),
+      updatedAt: new Date(order.update_time * 1000),
+      orderDate: new Date(order.create_time * 1000)
+    }
+  }
+
+  /**
+   * Map internal status to TikTok Shop status
+   */
+  private mapStatusToTikTokShop(status: OrderStatus): string {
+    switch (status) {
+      case 'pending':
+        return 'UNPAID'
+      case 'paid':
+        return 'ON_HOLD'
+      case 'processing':
+        return 'AWAITING_SHIPMENT'
+      case 'shipped':
+        return 'IN_TRANSIT'
+      case 'delivered':
+        return 'DELIVERED'
+      case 'cancelled':
+        return 'CANCELLED'
+      default:
+        return 'UNPAID'
+    }
+  }
+
+  /**
+   * Map TikTok Shop status to internal status
+   */
+  private mapStatusFromTikTokShop(status: string): OrderStatus {
+    return TIKTOKSHOP_ORDER_STATUS_MAPPING[status] || 'pending'
+  }
+
+  /**
+   * Derive payment status; TikTok Shop has no separate payment status field
+   */
+  private mapPaymentStatusFromTikTokShop(order: TikTokShopOrder): PaymentStatus {
+    if (order.status === 'UNPAID') return 'unpaid'
+    if (order.status === 'CANCELLED' && order.paid_time) return 'refunded'
+    return order.paid_time ? 'paid' : 'unpaid'
+  }
+}
+
+// =============================================================================
+// EXPORTS
+// =============================================================================
+
+export default TikTokShopOrders
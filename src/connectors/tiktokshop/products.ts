@@ -0,0 +1,1080 @@
+/**
+ * TikTok Shop Products Module
+ *
+ * Handles product-related operations for TikTok Shop platform:
+ * - List products with pagination and filtering
+ * - Get product details
+ * - Create new products
+ * - Update existing products
+ * - Update stock and price
+ *
+ * TikTok Shop products are always SKU based: single-variant products
+ * carry exactly one SKU, variant products one SKU per combination of sales
+ * attributes. Stock and price updates target a SKU ID, or the first SKU.
+ *
+ * TikTok Shop API Reference: https://partner.tiktokshop.com/docv2/page/products-api-overview
+ */
+
+import {
+  ProductListParams,
+  ProductDetail,
+  ProductPushData,
+  ProductUpdateData,
+  ProductVariantDetail,
+  ConnectorResponse,
+  ValidationResult,
+  ProductValidationRules,
+  ImageUpload,
+  UploadedImage
+} from '@/connectors/types'
+import { ProductOption } from '@/types/product'
+import { paginate } from '@/connectors/pagination'
+import { TikTokShopClient } from './client'
+import { validateVariants } from '@/domain/mapping/variants'
+
+// =============================================================================
+// TIKTOK SHOP PRODUCT API RESPONSE TYPES
+// =============================================================================
+
+interface TikTokShopSku {
+  id: string
+  seller_sku?: string
+  price?: {
+    currency: string
+    sale_price?: string
+    tax_exclusive_price?: string
+  }
+  inventory?: Array<{
+    warehouse_id: string
+    quantity: number
+  }>
+  sales_attributes?: Array<{
+    id: string
+    name: string
+    value_id: string
+    value_name: string
+    sku_img?: {
+      uri: string
+      urls: string[]
+    }
+  }>
+}
+
+interface TikTokShopProduct {
+  id: string
+  title: string
+  description?: string
+  status: string // DRAFT, PENDING, FAILED, ACTIVATE, SELLER_DEACTIVATED, PLATFORM_DEACTIVATED, FREEZE, DELETED
+  category_chains?: Array<{
+    id: string
+    local_name: string
+    is_leaf: boolean
+  }>
+  main_images?: Array<{
+    uri: string
+    urls: string[]
+  }>
+  skus: TikTokShopSku[]
+  product_attributes?: Array<{
+    id: string
+    name: string
+    values: Array<{ id?: string; name: string }>
+  }>
+  create_time: number
+  update_time: number
+}
+
+interface TikTokShopProductListResponse {
+  products: TikTokShopProduct[]
+  total_count: number
+  next_page_token?: string
+}
+
+interface TikTokShopCreateProductResponse {
+  product_id: string
+  skus: Array<{ id: string; seller_sku: string }>
+  warnings?: Array<{ message: string }>
+}
+
+interface TikTokShopImageUploadResponse {
+  uri: string
+  url: string
+  width: number
+  height: number
+}
+
+// TikTok Shop supports up to three sales attributes per product
+const MAX_SALES_ATTRIBUTES = 3
+
+// =============================================================================
+// VALIDATION RULES FOR TIKTOK SHOP
+// =============================================================================
+
+export const TIKTOKSHOP_VALIDATION_RULES: ProductValidationRules = {
+  maxTitleLength: 100,
+  maxDescriptionLength: 5000,
+  requiredAttributes: [],
+  forbiddenTerms: [
+    'fake', 'replica', 'counterfeit', 'pirated',
+    'copy', 'duplicate', 'knockoff'
+  ],
+  imageRequirements: {
+    minCount: 1,
+    maxCount: 8,
+    maxSizeInMB: 8,
+    allowedFormats: ['jpg', 'jpeg', 'png'],
+    minDimension: 300,
+    maxDimension: 20000
+  }
+}
+
+// =============================================================================
+// TIKTOK SHOP PRODUCTS CLASS
+// =============================================================================
+
+export class TikTokShopProducts {
+  private client: TikTokShopClient
+  private logPrefix = '[TikTokShopProducts]'
+
+  constructor(client: TikTokShopClient) {
+    this.client = client
+  }
+
+  // =============================================================================
+  // PRODUCT LISTING OPERATIONS
+  // =============================================================================
+
+  /**
+   * List products with pagination and filtering
+   *
+   * TikTok Shop paginates with opaque page tokens, so `page` is honoured by
+   * walking tokens forward from the first page.
+   */
+  async listProducts(params: ProductListParams = {}): Promise<ConnectorResponse<ProductDetail[]>> {
+    try {
+      const pageSize = Math.min(params.pageSize || 50, 100)
+      const body: any = {}
+
+      if (params.status) {
+        body.status = this.mapStatusToTikTokShop(params.status)
+      }
+
+      if (params.category) {
+        // Product search has no category filter; filter locally after fetching
+        console.warn(`${this.logPrefix} Category filter not supported by TikTok Shop search, filtering locally`)
+      }
+
+      if (params.modifiedFrom) {
+        body.update_time_ge = Math.floor(params.modifiedFrom.getTime() / 1000)
+      }
+
+      if (params.modifiedTo) {
+        body.update_time_le = Math.floor(params.modifiedTo.getTime() / 1000)
+      }
+
+      // A cursor is the page token of the requested page itself
+      const targetPage = params.cursor ? 1 : params.page || 1
+      let pageToken: string | undefined = params.cursor
+      let pageData: TikTokShopProductListResponse | undefined
+
+      for (let page = 1; page <= targetPage; page++) {
+        const response = await this.client.request<TikTokShopProductListResponse>(
+          '/product/202309/products/search',
+          {
+            method: 'POST',
+            query: {
+              page_size: pageSize,
+              page_token: pageToken
+            },
+            body
+          }
+        )
+
+        if (!response.success || !response.data) {
+          return {
+            success: false,
+            error: response.error
+          }
+        }
+
+        pageData = response.data
+        pageToken = response.data.next_page_token || undefined
+
+        // Requested page is past the last page
+        if (!pageToken && page < targetPage) {
+          pageData = { ...response.data, products: [] }
+          break
+        }
+      }
+
+      let products = (pageData?.products || []).map(product =>
+        this.transformProductFromTikTokShop(product)
+      )
+
+      if (params.category) {
+        products = products.filter(product => product.category === params.category)
+      }
+
+      if (params.search) {
+        // Product search does not support keyword filtering, filter locally
+        const query = params.search.toLowerCase()
+        products = products.filter(product => product.title.toLowerCase().includes(query))
+      }
+
+      console.log(`${this.logPrefix} Retrieved ${products.length} products`)
+      return {
+        success: true,
+        data: products,
+        metadata: {
+          totalCount: pageData?.total_count || 0,
+          hasMore: Boolean(pageToken),
+          nextPageToken: pageToken,
+          nextCursor: pageToken
+        } as any
+      }
+    } catch (error) {
+      console.error(`${this.logPrefix} Error listing products:`, error)
+      return {
+        success: false,
+        error: {
+          code: 'LIST_PRODUCTS_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to list products',
+          retryable: true
+        }
+      }
+    }
+  }
+
+  /**
+   * Iterate all products matching the filters, page by page
+   */
+  iterateProducts(params: Omit<ProductListParams, 'page' | 'cursor'> = {}): AsyncIterable<ProductDetail[]> {
+    return paginate(cursor => this.listProducts({ ...params, cursor, pageSize: 100 }))
+  }
+
+  /**
+   * Get detailed information about a specific product
+   */
+  async getProduct(productId: string): Promise<ConnectorResponse<ProductDetail>> {
+    try {
+      const response = await this.fetchProduct(productId)
+
+      if (response.success && response.data) {
+        const product = this.transformProductFromTikTokShop(response.data)
+        console.log(`${this.logPrefix} Retrieved product: ${product.id}`)
+        return {
+          success: true,
+          data: product
+        }
+      } else {
+        return {
+          success: false,
+          error: response.error
+        }
+      }
+    } catch (error) {
+      console.error(`${this.logPrefix} Error getting product ${productId}:`, error)
+      return {
+        success: false,
+        error: {
+          code: 'GET_PRODUCT_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to get product',
+          retryable: true
+        }
+      }
+    }
+  }
+
+  // =============================================================================
+  // PRODUCT CREATION OPERATIONS
+  // =============================================================================
+
+  /**
+   * Create a new product on TikTok Shop
+   */
+  async createProduct(productData: ProductPushData): Promise<ConnectorResponse<ProductDetail>> {
+    try {
+      // Validate product data
+      const validation = await this.validateProduct(productData)
+      if (!validation.valid) {
+        return {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: `Product validation failed: ${validation.errors.map(e => e.message).join(', ')}`,
+            retryable: false
+          }
+        }
+      }
+
+      const variantErrors = validateVariants(productData.options, productData.variants, MAX_SALES_ATTRIBUTES)
+      if (variantErrors.length > 0) {
+        return {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: `Product validation failed: ${variantErrors.map(e => e.message).join(', ')}`,
+            retryable: false
+          }
+        }
+      }
+
+      // Images must live in TikTok Shop's media space before they can be referenced
+      const imageUris = await this.uploadImages(productData.images, 'product', productData.platformImages)
+
+      const variantImages = Array.from(new Set(
+        (productData.variants || []).map(variant => variant.image).filter((image): image is string => Boolean(image))
+      ))
+      const variantImageUris = await this.uploadImages(variantImages, 'variant', productData.platformImages)
+      const skuImages = new Map(variantImages.map((image, index) => [image, variantImageUris[index]]))
+
+      const tiktokProduct = this.transformProductToTikTokShop(productData, imageUris, skuImages)
+      const idempotencyKey = this.client.generateIdempotencyKey()
+
+      const response = await this.client.request<TikTokShopCreateProductResponse>(
+        '/product/202309/products',
+        {
+          method: 'POST',
+          body: tiktokProduct,
+          idempotencyKey: idempotencyKey.key
+        }
+      )
+
+      if (response.success && response.data) {
+        const productResponse = await this.getProduct(response.data.product_id)
+
+        if (productResponse.success && productResponse.data) {
+          console.log(`${this.logPrefix} Created product: ${productResponse.data.id}`)
+          return {
+            success: true,
+            data: productResponse.data
+          }
+        } else {
+          return {
+            success: false,
+            error: {
+              code: 'FETCH_CREATED_PRODUCT_ERROR',
+              message: 'Product created but failed to fetch details',
+              retryable: true
+            }
+          }
+        }
+      } else {
+        return {
+          success: false,
+          error: response.error
+        }
+      }
+    } catch (error) {
+      console.error(`${this.logPrefix} Error creating product:`, error)
+      return {
+        success: false,
+        error: {
+          code: 'CREATE_PRODUCT_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to create product',
+          retryable: true
+        }
+      }
+    }
+  }
+
+  /**
+   * Update an existing product
+   *
+   * Content changes go through partial edit; status changes use the
+   * activate/deactivate endpoints because partial edit cannot change them.
+   */
+  async updateProduct(productId: string, updateData: ProductUpdateData): Promise<ConnectorResponse<ProductDetail>> {
+    try {
+      const validation = await this.validateUpdateData(updateData)
+      if (!validation.valid) {
+        return {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: `Product update validation failed: ${validation.errors.map(e => e.message).join(', ')}`,
+            retryable: false
+          }
+        }
+      }
+
+      const idempotencyKey = this.client.generateIdempotencyKey()
+      const partialEdit = await this.transformUpdateToTikTokShop(updateData)
+
+      if (Object.keys(partialEdit).length > 0) {
+        const response = await this.client.request(
+          `/product/202309/products/${productId}/partial_edit`,
+          {
+            method: 'POST',
+            body: partialEdit,
+            idempotencyKey: idempotencyKey.key
+          }
+        )
+
+        if (!response.success) {
+          return { success: false, error: response.error }
+        }
+      }
+
+      if (updateData.stock !== undefined) {
+        const stockResponse = await this.updateStock(productId, updateData.stock)
+        if (!stockResponse.success) {
+          return { success: false, error: stockResponse.error }
+        }
+      }
+
+      if (updateData.price !== undefined) {
+        const priceResponse = await this.updatePrice(productId, updateData.price, updateData.compareAtPrice)
+        if (!priceResponse.success) {
+          return { success: false, error: priceResponse.error }
+        }
+      }
+
+      if (updateData.status !== undefined) {
+        const statusResponse = await this.updateStatus(productId, updateData.status)
+        if (!statusResponse.success) {
+          return { success: false, error: statusResponse.error }
+        }
+      }
+
+      const productResponse = await this.getProduct(productId)
+
+      if (productResponse.success && productResponse.data) {
+        console.log(`${this.logPrefix} Updated product: ${productId}`)
+        return {
+          success: true,
+          data: productResponse.data
+        }
+      } else {
+        return {
+          success: false,
+          error: {
+            code: 'FETCH_UPDATED_PRODUCT_ERROR',
+            message: 'Product updated but failed to fetch details',
+            retryable: true
+          }
+        }
+      }
+    } catch (error) {
+      console.error(`${this.logPrefix} Error updating product ${productId}:`, error)
+      return {
+        success: false,
+        error: {
+          code: 'UPDATE_PRODUCT_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to update product',
+          retryable: true
+        }
+      }
+    }
+  }
+
+  // =============================================================================
+  // STOCK & PRICE OPERATIONS
+  // =============================================================================
+
+  /**
+   * Update product stock
+   *
+   * `variantId` is the SKU ID of a variant product.
+   */
+  async updateStock(productId: string, stock: number, variantId?: string): Promise<ConnectorResponse<void>> {
+    try {
+      const sku = await this.getSku(productId, variantId)
+      if (!sku.success || !sku.data) {
+        return { success: false, error: sku.error }
+      }
+
+      const warehouseId = this.client.getWarehouseId() || sku.data.inventory?.[0]?.warehouse_id
+      if (!warehouseId) {
+        return {
+          success: false,
+          error: {
+            code: 'WAREHOUSE_NOT_FOUND',
+            message: `No warehouse found for product ${productId}. Set TTS_WAREHOUSE_ID.`,
+            retryable: false
+          }
+        }
+      }
+
+      const idempotencyKey = this.client.generateIdempotencyKey()
+
+      const response = await this.client.request(
+        `/product/202309/products/${productId}/inventory/update`,
+        {
+          method: 'POST',
+          body: {
+            skus: [
+              {
+                id: sku.data.id,
+                inventory: [{ warehouse_id: warehouseId, quantity: stock }]
+              }
+            ]
+          },
+          idempotencyKey: idempotencyKey.key
+        }
+      )
+
+      if (response.success) {
+        console.log(`${this.logPrefix} Updated stock for product ${productId} SKU ${sku.data.id}: ${stock}`)
+        return { success: true }
+      } else {
+        return { success: false, error: response.error }
+      }
+    } catch (error) {
+      console.error(`${this.logPrefix} Error updating stock for product ${productId}:`, error)
+      return {
+        success: false,
+        error: {
+          code: 'UPDATE_STOCK_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to update stock',
+          retryable: true
+        }
+      }
+    }
+  }
+
+  /**
+   * Update product price
+   *
+   * TikTok Shop has no compare-at price on SKUs; strike-through pricing is
+   * managed through promotions, so compareAtPrice is ignored here.
+   * `variantId` is the SKU ID of a variant product.
+   */
+  async updatePrice(
+    productId: string,
+    price: number,
+    compareAtPrice?: number,
+    variantId?: string
+  ): Promise<ConnectorResponse<void>> {
+    try {
+      const sku = await this.getSku(productId, variantId)
+      if (!sku.success || !sku.data) {
+        return { success: false, error: sku.error }
+      }
+
+      if (compareAtPrice !== undefined) {
+        console.warn(`${this.logPrefix} compareAtPrice is not supported by TikTok Shop, ignoring`)
+      }
+
+      const idempotencyKey = this.client.generateIdempotencyKey()
+
+      const response = await this.client.request(
+        `/product/202309/products/${productId}/prices/update`,
+        {
+          method: 'POST',
+          body: {
+            skus: [
+              {
+                id: sku.data.id,
+                price: {
+                  amount: price.toString(),
+                  currency: this.client.getCurrency()
+                }
+              }
+            ]
+          },
+          idempotencyKey: idempotencyKey.key
+        }
+      )
+
+      if (response.success) {
+        console.log(`${this.logPrefix} Updated price for product ${productId} SKU ${sku.data.id}: ${price}`)
+        return { success: true }
+      } else {
+        return { success: false, error: response.error }
+      }
+    } catch (error) {
+      console.error(`${this.logPrefix} Error updating price for product ${productId}:`, error)
+      return {
+        success: false,
+        error: {
+          code: 'UPDATE_PRICE_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to update price',
+          retryable: true
+        }
+      }
+    }
+  }
+
+  /**
+   * Activate or deactivate a product
+   */
+  private async updateStatus(
+    productId: string,
+    status: 'active' | 'inactive' | 'out_of_stock'
+  ): Promise<ConnectorResponse<void>> {
+    // Out of stock is derived from inventory, not a listing state
+    if (status === 'out_of_stock') {
+      return this.updateStock(productId, 0)
+    }
+
+    const endpoint = status === 'active'
+      ? '/product/202309/products/activate'
+      : '/product/202309/products/deactivate'
+
+    const response = await this.client.request(endpoint, {
+      method: 'POST',
+      body: { product_ids: [productId] }
+    })
+
+    return response.success ? { success: true } : { success: false, error: response.error }
+  }
+
+  // =============================================================================
+  // MEDIA OPERATIONS
+  // =============================================================================
+
+  /**
+   * Upload an image to TikTok Shop's media space
+   *
+   * Variant images use the ATTRIBUTE_IMAGE use case, which TikTok Shop
+   * requires for SKU images.
+   */
+  async uploadImage(image: ImageUpload): Promise<ConnectorResponse<UploadedImage>> {
+    try {
+      const formData = new FormData()
+      formData.append('data', new Blob([new Uint8Array(image.data)], { type: image.mimeType }), image.filename)
+      formData.append('use_case', image.usage === 'variant' ? 'ATTRIBUTE_IMAGE' : 'MAIN_IMAGE')
+
+      const response = await this.client.request<TikTokShopImageUploadResponse>(
+        '/product/202309/images/upload',
+        {
+          method: 'POST',
+          formData,
+          includeShopCipher: false
+        }
+      )
+
+      if (!response.success || !response.data) {
+        return { success: false, error: response.error }
+      }
+
+      return { success: true, data: { id: response.data.uri, url: response.data.url } }
+    } catch (error) {
+      console.error(`${this.logPrefix} Error uploading image ${image.filename}:`, error)
+      return {
+        success: false,
+        error: {
+          code: 'UPLOAD_IMAGE_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to upload image',
+          retryable: true
+        }
+      }
+    }
+  }
+
+  /**
+   * Resolve image URLs to TikTok Shop URIs
+   *
+   * Images already uploaded (`platformImages`) are reused; others are
+   * downloaded and uploaded as they are.
+   */
+  private async uploadImages(
+    imageUrls: string[],
+    usage: ImageUpload['usage'] = 'product',
+    platformImages: Record<string, string> = {}
+  ): Promise<string[]> {
+    const uris: string[] = []
+
+    for (const imageUrl of imageUrls) {
+      if (platformImages[imageUrl]) {
+        uris.push(platformImages[imageUrl])
+        continue
+      }
+
+      const imageResponse = await fetch(imageUrl)
+      if (!imageResponse.ok) {
+        throw new Error(`Failed to download image ${imageUrl}: HTTP ${imageResponse.status}`)
+      }
+
+      const response = await this.uploadImage({
+        data: Buffer.from(await imageResponse.arrayBuffer()),
+        filename: imageUrl.split('/').pop() || 'image.jpg',
+        mimeType: imageResponse.headers.get('content-type') || 'image/jpeg',
+        usage
+      })
+
+      if (!response.success || !response.data) {
+        throw new Error(`Failed to upload image ${imageUrl}: ${response.error?.message || 'Unknown error'}`)
+      }
+
+      uris.push(response.data.id)
+    }
+
+    return uris
+  }
+
+  // =============================================================================
+  // VALIDATION HELPERS
+  // =============================================================================
+
+  /**
+   * Validate product data before creating
+   */
+  private async validateProduct(productData: ProductPushData): Promise<ValidationResult> {
+    const errors: any[] = []
+    const warnings: any[] = []
+    const rules = TIKTOKSHOP_VALIDATION_RULES
+
+    if (productData.title.length > rules.maxTitleLength) {
+      errors.push({
+        field: 'title',
+        message: `Title cannot exceed ${rules.maxTitleLength} characters`,
+        code: 'TITLE_TOO_LONG'
+      })
+    }
+
+    if (productData.description && productData.description.length > rules.maxDescriptionLength) {
+      errors.push({
+        field: 'description',
+        message: `Description cannot exceed ${rules.maxDescriptionLength} characters`,
+        code: 'DESCRIPTION_TOO_LONG'
+      })
+    }
+
+    if (!productData.description) {
+      errors.push({
+        field: 'description',
+        message: 'Description is required',
+        code: 'MISSING_DESCRIPTION'
+      })
+    }
+
+    if (!productData.category || !/^\d+$/.test(productData.category)) {
+      errors.push({
+        field: 'category',
+        message: 'A TikTok Shop leaf category ID is required',
+        code: 'INVALID_CATEGORY'
+      })
+    }
+
+    if (productData.price <= 0) {
+      errors.push({
+        field: 'price',
+        message: 'Price must be greater than 0',
+        code: 'INVALID_PRICE'
+      })
+    }
+
+    if (productData.stock < 0) {
+      errors.push({
+        field: 'stock',
+        message: 'Stock cannot be negative',
+        code: 'INVALID_STOCK'
+      })
+    }
+
+    if (!this.client.getWarehouseId()) {
+      errors.push({
+        field: 'stock',
+        message: 'A warehouse is required to set initial stock. Set TTS_WAREHOUSE_ID.',
+        code: 'MISSING_WAREHOUSE'
+      })
+    }
+
+    if (!productData.images || productData.images.length === 0) {
+      errors.push({
+        field: 'images',
+        message: 'At least one image is required',
+        code: 'NO_IMAGES'
+      })
+    } else if (productData.images.length > rules.imageRequirements.maxCount) {
+      errors.push({
+        field: 'images',
+        message: `Maximum ${rules.imageRequirements.maxCount} images allowed`,
+        code: 'TOO_MANY_IMAGES'
+      })
+    }
+
+    const forbiddenFound = this.findForbiddenTerms(productData.title, rules.forbiddenTerms)
+    if (forbiddenFound.length > 0) {
+      errors.push({
+        field: 'title',
+        message: `Title contains forbidden terms: ${forbiddenFound.join(', ')}`,
+        code: 'FORBIDDEN_TERMS'
+      })
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+      warnings
+    }
+  }
+
+  /**
+   * Validate update data
+   */
+  private async validateUpdateData(updateData: ProductUpdateData): Promise<ValidationResult> {
+    const errors: any[] = []
+
+    if (updateData.price !== undefined && updateData.price <= 0) {
+      errors.push({
+        field: 'price',
+        message: 'Price must be greater than 0',
+        code: 'INVALID_PRICE'
+      })
+    }
+
+    if (updateData.stock !== undefined && updateData.stock < 0) {
+      errors.push({
+        field: 'stock',
+        message: 'Stock cannot be negative',
+        code: 'INVALID_STOCK'
+      })
+    }
+
+    if (updateData.title !== undefined && updateData.title.length > TIKTOKSHOP_VALIDATION_RULES.maxTitleLength) {
+      errors.push({
+        field: 'title',
+        message: `Title cannot exceed ${TIKTOKSHOP_VALIDATION_RULES.maxTitleLength} characters`,
+        code: 'TITLE_TOO_LONG'
+      })
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+      warnings: []
+    }
+  }
+
+  /**
+   * Find forbidden terms in text
+   */
+  private findForbiddenTerms(text: string, forbiddenTerms: string[]): string[] {
+    const lowerText = text.toLowerCase()
+    return forbiddenTerms.filter(term => lowerText.includes(term.toLowerCase()))
+  }
+
+  // =============================================================================
+  // TRANSFORMATION HELPERS
+  // =============================================================================
+
+  /**
+   * Fetch the raw TikTok Shop product
+   */
+  private async fetchProduct(productId: string): Promise<ConnectorResponse<TikTokShopProduct>> {
+    return this.client.request<TikTokShopProduct>(`/product/202309/products/${productId}`)
+  }
+
+  /**
+   * Get the SKU a stock or price update applies to: the given SKU ID, or the
+   * first SKU of single-variant products
+   */
+  private async getSku(productId: string, skuId?: string): Promise<ConnectorResponse<TikTokShopSku>> {
+    const response = await this.fetchProduct(productId)
+    if (!response.success || !response.data) {
+      return { success: false, error: response.error }
+    }
+
+    const skus = response.data.skus || []
+    const sku = skuId ? skus.find(candidate => candidate.id === skuId) : skus[0]
+    if (!sku) {
+      return {
+        success: false,
+        error: {
+          code: 'SKU_NOT_FOUND',
+          message: skuId ? `Product ${productId} has no SKU ${skuId}` : `Product ${productId} has no SKUs`,
+          retryable: false
+        }
+      }
+    }
+
+    return { success: true, data: sku }
+  }
+
+  /**
+   * Transform product from TikTok Shop format to internal format
+   */
+  private transformProductFromTikTokShop(product: TikTokShopProduct): ProductDetail {
+    const primarySku = product.skus?.[0]
+    const stock = (product.skus || []).reduce(
+      (total, sku) => total + (sku.inventory || []).reduce((sum, inv) => sum + inv.quantity, 0),
+      0
+    )
+    const leafCategory = product.category_chains?.find(category => category.is_leaf)
+
+    return {
+      id: product.id,
+      title: product.title,
+      description: product.description,
+      price: Number(primarySku?.price?.sale_price || primarySku?.price?.tax_exclusive_price || 0),
+      stock,
+      category: leafCategory?.id,
+      images: (product.main_images || []).map(image => image.urls?.[0] || image.uri),
+      attributes: (product.product_attributes || []).reduce<Record<string, any>>((attributes, attribute) => {
+        attributes[attribute.name] = attribute.values.map(value => value.name).join(', ')
+        return attributes
+      }, {}),
+      ...this.transformSkusFromTikTokShop(product.skus || []),
+      status: this.mapStatusFromTikTokShop(product.status, stock),
+      createdAt: new Date(product.create_time * 1000),
+      updatedAt: new Date(product.update_time * 1000)
+    }
+  }
+
+  /**
+   * Derive options and variants from SKU sales attributes
+   *
+   * Single-SKU products have no sales attributes and yield neither.
+   */
+  private transformSkusFromTikTokShop(
+    skus: TikTokShopSku[]
+  ): { options?: ProductOption[]; variants?: ProductVariantDetail[] } {
+    if (!skus.some(sku => sku.sales_attributes?.length)) {
+      return {}
+    }
+
+    const options: ProductOption[] = []
+    skus.forEach(sku => {
+      (sku.sales_attributes || []).forEach(attribute => {
+        let option = options.find(candidate => candidate.name === attribute.name)
+        if (!option) {
+          option = { name: attribute.name, values: [] }
+          options.push(option)
+        }
+        if (!option.values.includes(attribute.value_name)) {
+          option.values.push(attribute.value_name)
+        }
+      })
+    })
+
+    const variants = skus.map(sku => ({
+      id: sku.id,
+      sku: sku.seller_sku,
+      options: (sku.sales_attributes || []).reduce<Record<string, string>>((values, attribute) => {
+        values[attribute.name] = attribute.value_name
+        return values
+      }, {}),
+      price: Number(sku.price?.sale_price || sku.price?.tax_exclusive_price || 0),
+      stock: (sku.inventory || []).reduce((sum, inv) => sum + inv.quantity, 0),
+      image: sku.sales_attributes?.find(attribute => attribute.sku_img)?.sku_img?.urls?.[0]
+    }))
+
+    return { options, variants }
+  }
+
+  /**
+   * Transform internal product data to TikTok Shop format
+   *
+   * Variant products get one SKU per variant; `skuImages` maps variant image
+   * URLs to their uploaded URIs.
+   */
+  private transformProductToTikTokShop(
+    productData: ProductPushData,
+    imageUris: string[],
+    skuImages: Map<string, string> = new Map()
+  ): any {
+    const dimensions = productData.dimensions || productData.shippingInfo?.dimensions
+    const weight = productData.weight || productData.shippingInfo?.weight
+
+    return {
+      title: productData.title,
+      description: productData.description || '',
+      category_id: productData.category,
+      main_images: imageUris.map(uri => ({ uri })),
+      ...(weight && {
+        package_weight: { value: weight.toString(), unit: 'KILOGRAM' }
+      }),
+      ...(dimensions && {
+        package_dimensions: {
+          length: dimensions.length.toString(),
+          width: dimensions.width.toString(),
+          height: dimensions.height.toString(),
+          unit: 'CENTIMETER'
+        }
+      }),
+      skus: productData.variants?.length
+        ? productData.variants.map(variant => ({
+            seller_sku: variant.sku,
+            sales_attributes: (productData.options || []).map((option, index) => {
+              const skuImage = index === 0 && variant.image ? skuImages.get(variant.image) : undefined
+              return {
+                name: option.name,
+                value_name: variant.options[option.name],
+                ...(skuImage && { sku_img: { uri: skuImage } })
+              }
+            }),
+            price: {
+              amount: variant.price.toString(),
+              currency: this.client.getCurrency()
+            },
+            inventory: [
+              {
+                warehouse_id: this.client.getWarehouseId(),
+                quantity: variant.stock
+              }
+            ]
+          }))
+        : [
+            {
+              seller_sku: productData.sku || '',
+              price: {
+                amount: productData.price.toString(),
+                currency: this.client.getCurrency()
+              },
+              inventory: [
+                {
+                  warehouse_id: this.client.getWarehouseId(),
+                  quantity: productData.stock
+                }
+              ]
+            }
+          ]
+    }
+  }
+
+  /**
+   * Transform update data to TikTok Shop partial edit format
+   */
+  private async transformUpdateToTikTokShop(updateData: ProductUpdateData): Promise<any> {
+    const update: any = {}
+
+    if (updateData.title !== undefined) {
+      update.title = updateData.title
+    }
+
+    if (updateData.description !== undefined) {
+      update.description = updateData.description
+    }
+
+    if (updateData.images !== undefined) {
+      const imageUris = await this.uploadImages(updateData.images, 'product', updateData.platformImages)
+      update.main_images = imageUris.map(uri => ({ uri }))
+    }
+
+    return update
+  }
+
+  /**
+   * Map internal status to TikTok Shop status
+   */
+  private mapStatusToTikTokShop(status: string): string {
+    switch (status) {
+      case 'active':
+        return 'ACTIVATE'
+      case 'inactive':
+        return 'SELLER_DEACTIVATED'
+      default:
+        return 'ALL'
+    }
+  }
+
+  /**
+   * Map TikTok Shop status to internal status
+   */
+  private mapStatusFromTikTokShop(status: string, stock: number): 'active' | 'inactive' | 'out_of_stock' {
+    if (status !== 'ACTIVATE') {
+      return 'inactive'
+    }
+
+    return stock > 0 ? 'active' : 'out_of_stock'
+  }
+}
+
+// =============================================================================
+// EXPORTS
+// =============================================================================
+
+export default TikTokShopProducts
@@ -0,0 +1,445 @@
+/**
+ * Tokopedia Connector Client
+ *
+ * Handles OAuth client-credentials authentication, API communication,
+ * and base operations for the Tokopedia Fulfillment Service (FS) API.
+ *
+ * Tokopedia API Reference: https://developer.tokopedia.com/openapi/guide/
+ */
+
+import {
+  ConnectorConfig,
+  ConnectorResponse,
+  ConnectorError,
+  RetryConfig,
+  IdempotencyKey
+} from '@/connectors/types'
+import { rateLimiter, getEndpointGroup } from '@/connectors/rate-limiter'
+import { signaturesMatch } from '@/connectors/signatures'
+import crypto from 'crypto'
+
+// =============================================================================
+// TOKOPEDIA CLIENT CONFIGURATION
+// =============================================================================
+
+export interface TokopediaClientConfig extends ConnectorConfig {
+  baseUrl: string
+  authUrl?: string
+  clientId: string
+  clientSecret: string
+  fsId: string
+  shopId: string
+  webhookSecret?: string
+}
+
+export interface TokopediaApiResponse<T = any> {
+  header: {
+    process_time: number
+    messages: string
+    reason?: string
+    error_code?: string | number
+  }
+  data?: T
+}
+
+interface TokopediaTokenResponse {
+  access_token: string
+  expires_in: number
+  token_type: string
+}
+
+// =============================================================================
+// TOKOPEDIA CLIENT CLASS
+// =============================================================================
+
+export class TokopediaClient {
+  private config: TokopediaClientConfig
+  private token: { accessToken: string; expiresAt: Date } | null = null
+
+  constructor(config: TokopediaClientConfig) {
+    this.config = {
+      timeout: 30000,
+      retryAttempts: 3,
+      rateLimitPerMinute: 75,
+      authUrl: 'https://accounts.tokopedia.com',
+      ...config
+    }
+  }
+
+  // =============================================================================
+  // OAUTH CLIENT CREDENTIALS
+  // =============================================================================
+
+  /**
+   * Get a valid access token, requesting a new one shortly before expiry
+   *
+   * Tokopedia tokens are app-level (client credentials), so they are cached
+   * per client instance rather than stored in channel_tokens.
+   */
+  async getAccessToken(): Promise<string> {
+    const refreshMarginMs = 5 * 60 * 1000
+    if (this.token && this.token.expiresAt.getTime() - refreshMarginMs > Date.now()) {
+      return this.token.accessToken
+    }
+
+    const credentials = Buffer
+      .from(`${this.config.clientId}:${this.config.clientSecret}`)
+      .toString('base64')
+
+    const response = await fetch(`${this.config.authUrl}/token?grant_type=client_credentials`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Basic ${credentials}`,
+        'Content-Length': '0'
+      },
+      signal: AbortSignal.timeout(this.config.timeout || 30000)
+    })
+
+    if (!response.ok) {
+      throw new Error(`Tokopedia token request failed: HTTP ${response.status}`)
+    }
+
+    const data: TokopediaTokenResponse = await response.json()
+    this.token = {
+      accessToken: data.access_token,
+      expiresAt: new Date(Date.now() + data.expires_in * 1000)
+    }
+
+    return this.token.accessToken
+  }
+
+  // =============================================================================
+  // HTTP CLIENT WITH RETRY AND RATE LIMITING
+  // =============================================================================
+
+  /**
+   * Make authenticated API request to Tokopedia
+   *
+   * `{fs_id}` in the endpoint is replaced with the configured FS ID.
+   */
+  async request<T = any>(
+    endpoint: string,
+    options: {
+      method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+      body?: any
+      query?: Record<string, any>
+      idempotencyKey?: string
+    } = {}
+  ): Promise<ConnectorResponse<T>> {
+    const {
+      method = 'GET',
+      body,
+      query,
+      idempotencyKey
+    } = options
+
+    const path = (endpoint.startsWith('/') ? endpoint : `/${endpoint}`)
+      .replace('{fs_id}', this.config.fsId)
+
+    const params = new URLSearchParams()
+    if (query) {
+      Object.entries(query).forEach(([key, value]) => {
+        if (value !== undefined && value !== null) {
+          params.append(key, String(value))
+        }
+      })
+    }
+
+    const queryString = params.toString()
+    const url = `${this.config.baseUrl}${path}${queryString ? `?${queryString}` : ''}`
+
+    // Shared token bucket per channel account and endpoint group
+    const rateLimit = await rateLimiter.acquire(
+      { platform: 'tokopedia', channelAccountId: this.config.channelAccountId, group: getEndpointGroup(path) },
+      this.config.rateLimitPerMinute || 75
+    )
+    if (!rateLimit.allowed) {
+      return {
+        success: false,
+        error: {
+          code: 'RATE_LIMITED',
+          message: `Rate limit exceeded. Retry in ${Math.ceil(rateLimit.retryAfterMs / 1000)}s.`,
+          details: { retryAfterMs: rateLimit.retryAfterMs },
+          retryable: true
+        }
+      }
+    }
+
+    const retryConfig: RetryConfig = {
+      maxAttempts: this.config.retryAttempts || 3,
+      baseDelayMs: 1000,
+      maxDelayMs: 30000,
+      backoffMultiplier: 2
+    }
+
+    return this.executeWithRetry<T>(url, path, method, body, retryConfig, idempotencyKey)
+  }
+
+  /**
+   * Execute request with retry logic
+   */
+  private async executeWithRetry<T>(
+    url: string,
+    path: string,
+    method: string,
+    body: any,
+    retryConfig: RetryConfig,
+    idempotencyKey?: string
+  ): Promise<ConnectorResponse<T>> {
+    let lastError: ConnectorError | null = null
+
+    for (let attempt = 1; attempt <= retryConfig.maxAttempts; attempt++) {
+      try {
+        const accessToken = await this.getAccessToken()
+
+        const response = await fetch(url, {
+          method,
+          headers: {
+            'Authorization': `Bearer ${accessToken}`,
+            'Content-Type': 'application/json',
+            ...(idempotencyKey && { 'X-Idempotency-Key': idempotencyKey }),
+          },
+          body: body !== undefined ? JSON.stringify(body) : undefined,
+          signal: AbortSignal.timeout(this.config.timeout || 30000)
+        })
+
+        // Expired token: drop the cache so the next attempt re-authenticates
+        if (response.status === 401) {
+          this.token = null
+        }
+
+        const data: TokopediaApiResponse<T> = await response.json()
+        const errorCode = data.header?.error_code
+
+        if (response.ok && !errorCode) {
+          return {
+            success: true,
+            data: data.data,
+            metadata: {
+              timestamp: new Date()
+            }
+          }
+        }
+
+        lastError = {
+          code: errorCode ? `TOKOPEDIA_${errorCode}` : 'UNKNOWN_ERROR',
+          message: data.header?.reason || data.header?.messages || `HTTP ${response.status}: ${response.statusText}`,
+          httpStatusCode: response.status,
+          retryable: this.isRetryableError(response.status)
+        }
+
+        if (!lastError.retryable || attempt === retryConfig.maxAttempts) {
+          break
+        }
+
+        await this.delay(retryConfig, attempt)
+      } catch (error) {
+        lastError = {
+          code: 'NETWORK_ERROR',
+          message: error instanceof Error ? error.message : 'Network error',
+          retryable: true
+        }
+
+        if (attempt === retryConfig.maxAttempts) break
+
+        await this.delay(retryConfig, attempt)
+      }
+    }
+
+    return {
+      success: false,
+      error: lastError || {
+        code: 'UNKNOWN_ERROR',
+        message: 'An unknown error occurred',
+        retryable: false
+      }
+    }
+  }
+
+  /**
+   * Wait before retry with exponential backoff
+   */
+  private async delay(retryConfig: RetryConfig, attempt: number): Promise<void> {
+    const delay = Math.min(
+      retryConfig.baseDelayMs * Math.pow(retryConfig.backoffMultiplier, attempt - 1),
+      retryConfig.maxDelayMs
+    )
+    await new Promise(resolve => setTimeout(resolve, delay))
+  }
+
+  /**
+   * Determine if error is retryable
+   */
+  private isRetryableError(statusCode: number): boolean {
+    // Retry on expired tokens, server errors and rate limits
+    return statusCode === 401 || statusCode >= 500 || statusCode === 429
+  }
+
+  // =============================================================================
+  // API HEALTH CHECK
+  // =============================================================================
+
+  /**
+   * Test API connectivity by reading the configured shop
+   */
+  async healthCheck(): Promise<ConnectorResponse<{ status: 'healthy' | 'unhealthy'; message?: string }>> {
+    try {
+      const response = await this.request('/v1/shop/fs/{fs_id}/shop-info', {
+        query: { shop_id: this.config.shopId }
+      })
+
+      if (response.success) {
+        return {
+          success: true,
+          data: {
+            status: 'healthy' as const,
+            message: 'Tokopedia API connection successful'
+          }
+        }
+      } else {
+        return {
+          success: false,
+          data: {
+            status: 'unhealthy' as const,
+            message: response.error?.message || 'Unknown error'
+          },
+          error: response.error
+        }
+      }
+    } catch (error) {
+      return {
+        success: false,
+        data: {
+          status: 'unhealthy' as const,
+          message: error instanceof Error ? error.message : 'Connection failed'
+        },
+        error: {
+          code: 'HEALTH_CHECK_ERROR',
+          message: error instanceof Error ? error.message : 'Health check failed',
+          retryable: false
+        }
+      }
+    }
+  }
+
+  // =============================================================================
+  // WEBHOOK SIGNATURE VERIFICATION
+  // =============================================================================
+
+  /**
+   * Verify webhook signature from Tokopedia
+   */
+  verifyWebhookSignature(payload: string, signature: string): boolean {
+    try {
+      const expectedSignature = crypto
+        .createHmac('sha256', this.config.webhookSecret || this.config.clientSecret)
+        .update(payload)
+        .digest('hex')
+
+      return signaturesMatch(expectedSignature, signature)
+    } catch (error) {
+      console.error('Error verifying webhook signature:', error)
+      return false
+    }
+  }
+
+  // =============================================================================
+  // IDEMPOTENCY HELPERS
+  // =============================================================================
+
+  /**
+   * Generate idempotency key for request
+   */
+  generateIdempotencyKey(): IdempotencyKey {
+    const key = crypto.randomUUID()
+    return {
+      key,
+      timestamp: new Date(),
+      expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000) // 24 hours
+    }
+  }
+
+  // =============================================================================
+  // GETTERS
+  // =============================================================================
+
+  getConfig(): TokopediaClientConfig {
+    return { ...this.config }
+  }
+
+  getShopId(): string {
+    return this.config.shopId
+  }
+
+  getFsId(): string {
+    return this.config.fsId
+  }
+
+  getBaseUrl(): string {
+    return this.config.baseUrl
+  }
+}
+
+// =============================================================================
+// CLIENT FACTORY
+// =============================================================================
+
+/**
+ * Create Tokopedia client from environment variables
+ */
+export function createTokopediaClient(): TokopediaClient {
+  const config: TokopediaClientConfig = {
+    baseUrl: process.env.TOKOPEDIA_BASE_URL || 'https://fs.tokopedia.net',
+    clientId: process.env.TOKOPEDIA_CLIENT_ID || '',
+    clientSecret: process.env.TOKOPEDIA_CLIENT_SECRET || '',
+    fsId: process.env.TOKOPEDIA_FS_ID || '',
+    shopId: process.env.TOKOPEDIA_SHOP_ID || '',
+    webhookSecret: process.env.TOKOPEDIA_WEBHOOK_SECRET || undefined,
+    timeout: 30000,
+    retryAttempts: 3,
+    rateLimitPerMinute: 75
+  }
+
+  // Validate required configuration
+  const missingVars = []
+  if (!config.clientId) missingVars.push('TOKOPEDIA_CLIENT_ID')
+  if (!config.clientSecret) missingVars.push('TOKOPEDIA_CLIENT_SECRET')
+  if (!config.fsId) missingVars.push('TOKOPEDIA_FS_ID')
+  if (!config.shopId) missingVars.push('TOKOPEDIA_SHOP_ID')
+
+  if (missingVars.length > 0) {
+    throw new Error(`Missing required Tokopedia environment variables: ${missingVars.join(', ')}`)
+  }
+
+  return new TokopediaClient(config)
+}
+
+// =============================================================================
+// STANDALONE WEBHOOK SIGNATURE VERIFICATION
+// =============================================================================
+
+/**
+ * Verify webhook signature from Tokopedia (standalone function)
+ * Used by webhook handlers without needing to instantiate a client
+ */
+export function verifyTokopediaSignature(payload: string, signature: string): boolean {
+  const secret = process.env.TOKOPEDIA_WEBHOOK_SECRET || process.env.TOKOPEDIA_CLIENT_SECRET
+  if (!secret) {
+    console.error('TOKOPEDIA_WEBHOOK_SECRET not found in environment')
+    return false
+  }
+
+  try {
+    const expectedSignature = crypto
+      .createHmac('sha256', secret)
+      .update(payload)
+      .digest('hex')
+
+    return signaturesMatch(expectedSignature, signature)
+  } catch (error) {
+    console.error('Error verifying Tokopedia webhook signature:', error)
+    return false
+  }
+}
+
+export default TokopediaClient
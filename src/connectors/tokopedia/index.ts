@@ -0,0 +1,273 @@
+/**
+ * Tokopedia Connector Main Index
+ *
+ * Exports all Tokopedia connector components and provides factory functions
+ * for easy integration with the AIOStore platform.
+ */
+
+import { TokopediaClient, TokopediaClientConfig, createTokopediaClient } from './client'
+import TokopediaProducts from './products'
+import TokopediaOrders from './orders'
+import {
+  Connector,
+  ConnectorResponse,
+  OrderDetail,
+  OrderListParams,
+  OrderStatusUpdate,
+  PlatformCredentials,
+  ProductDetail,
+  ProductListParams,
+  ProductPushData,
+  ProductUpdateData,
+  SyncJob
+} from '@/connectors/types'
+
+// =============================================================================
+// MAIN TIKTOK SHOP CONNECTOR CLASS
+// =============================================================================
+
+export class TokopediaConnector implements Connector {
+  private client: TokopediaClient
+  private products: TokopediaProducts
+  private orders: TokopediaOrders
+  private logPrefix = '[TokopediaConnector]'
+
+  platform = 'tokopedia' as const
+
+  constructor(client: TokopediaClient) {
+    this.client = client
+    this.products = new TokopediaProducts(client)
+    this.orders = new TokopediaOrders(client)
+  }
+
+  // =============================================================================
+  // GETTERS FOR SUB-MODULES
+  // =============================================================================
+
+  getClient(): TokopediaClient {
+    return this.client
+  }
+
+  getProducts(): TokopediaProducts {
+    return this.products
+  }
+
+  getOrders(): TokopediaOrders {
+    return this.orders
+  }
+
+  // =============================================================================
+  // Connector INTERFACE
+  // =============================================================================
+
+  get config() {
+    return this.client.getConfig()
+  }
+
+  get credentials(): PlatformCredentials {
+    const config = this.client.getConfig()
+    return {
+      clientId: config.clientId,
+      clientSecret: config.clientSecret,
+      shopId: config.shopId,
+      baseUrl: config.baseUrl
+    }
+  }
+
+  // Product operations
+  async listProducts(params?: ProductListParams): Promise<ConnectorResponse<ProductDetail[]>> {
+    return this.products.listProducts(params)
+  }
+
+  iterateProducts(params?: Omit<ProductListParams, 'page' | 'cursor'>): AsyncIterable<ProductDetail[]> {
+    return this.products.iterateProducts(params)
+  }
+
+  async getProduct(productId: string): Promise<ConnectorResponse<ProductDetail>> {
+    return this.products.getProduct(productId)
+  }
+
+  async createProduct(data: ProductPushData): Promise<ConnectorResponse<ProductDetail>> {
+    return this.products.createProduct(data)
+  }
+
+  async updateProduct(productId: string, data: ProductUpdateData): Promise<ConnectorResponse<ProductDetail>> {
+    return this.products.updateProduct(productId, data)
+  }
+
+  async updateStock(productId: string, stock: number, variantId?: string): Promise<ConnectorResponse<void>> {
+    return this.products.updateStock(productId, stock, variantId)
+  }
+
+  async updatePrice(
+    productId: string,
+    price: number,
+    compareAtPrice?: number,
+    variantId?: string
+  ): Promise<ConnectorResponse<void>> {
+    return this.products.updatePrice(productId, price, compareAtPrice, variantId)
+  }
+
+  // Order operations
+  async listOrders(params?: OrderListParams): Promise<ConnectorResponse<OrderDetail[]>> {
+    return this.orders.listOrders(params)
+  }
+
+  iterateOrders(params?: Omit<OrderListParams, 'page' | 'cursor'>): AsyncIterable<OrderDetail[]> {
+    return this.orders.iterateOrders(params)
+  }
+
+  async getOrder(orderId: string): Promise<ConnectorResponse<OrderDetail>> {
+    return this.orders.getOrder(orderId)
+  }
+
+  async updateOrderStatus(orderId: string, update: OrderStatusUpdate): Promise<ConnectorResponse<void>> {
+    return this.orders.updateOrderStatus(orderId, update)
+  }
+
+  // Health check
+  async healthCheck() {
+    return this.client.healthCheck()
+  }
+
+  // Webhook verification
+  verifyWebhookSignature(payload: string, signature: string): boolean {
+    return this.client.verifyWebhookSignature(payload, signature)
+  }
+
+  // Sync operations are tracked by SyncJobsService, Tokopedia has no job concept
+  async getSyncStatus(jobId: string): Promise<ConnectorResponse<SyncJob>> {
+    console.warn(`${this.logPrefix} Sync status is tracked by SyncJobsService, not Tokopedia`)
+    return {
+      success: false,
+      error: {
+        code: 'NOT_SUPPORTED',
+        message: 'Tokopedia does not expose sync jobs; use SyncJobsService.getJob',
+        retryable: false
+      }
+    }
+  }
+
+  async cancelSync(jobId: string): Promise<ConnectorResponse<void>> {
+    console.warn(`${this.logPrefix} Sync cancellation is handled by SyncJobsService, not Tokopedia`)
+    return {
+      success: false,
+      error: {
+        code: 'NOT_SUPPORTED',
+        message: 'Tokopedia does not expose sync jobs; use SyncJobsService.cancelJob',
+        retryable: false
+      }
+    }
+  }
+}
+
+// =============================================================================
+// FACTORY FUNCTIONS
+// =============================================================================
+
+/**
+ * Create a Tokopedia connector instance with environment-based configuration
+ */
+export function createTokopediaConnector(): TokopediaConnector {
+  const client = createTokopediaClient()
+  return new TokopediaConnector(client)
+}
+
+/**
+ * Create Tokopedia connector with custom configuration
+ */
+export function createCustomTokopediaConnector(
+  config: Omit<TokopediaClientConfig, 'baseUrl'> & { baseUrl?: string }
+): TokopediaConnector {
+  const client = new TokopediaClient({
+    ...config,
+    baseUrl: config.baseUrl || 'https://fs.tokopedia.net'
+  })
+  return new TokopediaConnector(client)
+}
+
+// =============================================================================
+// VALIDATION HELPERS
+// =============================================================================
+
+/**
+ * Validate Tokopedia configuration
+ */
+export function validateTokopediaConfig(): {
+  isValid: boolean
+  errors: string[]
+  warnings: string[]
+} {
+  const errors: string[] = []
+  const warnings: string[] = []
+
+  const requiredVars = [
+    'TOKOPEDIA_CLIENT_ID',
+    'TOKOPEDIA_CLIENT_SECRET',
+    'TOKOPEDIA_FS_ID',
+    'TOKOPEDIA_SHOP_ID'
+  ]
+
+  requiredVars.forEach(varName => {
+    if (!process.env[varName]) {
+      errors.push(`Missing required environment variable: ${varName}`)
+    }
+  })
+
+  if (!process.env.TOKOPEDIA_WEBHOOK_SECRET) {
+    warnings.push('TOKOPEDIA_WEBHOOK_SECRET not set, webhooks are verified with TOKOPEDIA_CLIENT_SECRET')
+  }
+
+  const baseUrl = process.env.TOKOPEDIA_BASE_URL || 'https://fs.tokopedia.net'
+  try {
+    new URL(baseUrl)
+  } catch (error) {
+    errors.push('TOKOPEDIA_BASE_URL is not a valid URL')
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings
+  }
+}
+
+/**
+ * Test Tokopedia connection
+ */
+export async function testTokopediaConnection(): Promise<{
+  success: boolean
+  message: string
+  details?: any
+}> {
+  try {
+    const connector = createTokopediaConnector()
+    const healthCheck = await connector.healthCheck()
+
+    if (healthCheck.success) {
+      return {
+        success: true,
+        message: 'Tokopedia connection successful',
+        details: healthCheck.data
+      }
+    } else {
+      return {
+        success: false,
+        message: `Tokopedia connection failed: ${healthCheck.error?.message}`,
+        details: healthCheck.error
+      }
+    }
+  } catch (error) {
+    return {
+      success: false,
+      message: `Tokopedia connection error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      details: error
+    }
+  }
+}
+
+// =============================================================================
+// EXPORTS
+// =============================================================================
+
+export default TokopediaConnector
@@ -0,0 +1,416 @@
+/**
+ * Tokopedia Orders Module
+ *
+ * Handles order-related operations for Tokopedia platform:
+ * - List orders with pagination and filtering
+ * - Get order details
+ * - Update order status (accept, reject and confirm shipping)
+ *
+ * Note: Tokopedia limits order list queries to a 3-day window per request.
+ *
+ * Tokopedia API Reference: https://developer.tokopedia.com/openapi/guide/#/order/
+ */
+
+import {
+  OrderListParams,
+  OrderDetail,
+  OrderStatusUpdate,
+  ConnectorResponse,
+  OrderStatus,
+  PaymentStatus
+} from '@/connectors/types'
+import { paginateWindows } from '@/connectors/pagination'
+import { TokopediaClient } from './client'
+
+// =============================================================================
+// TOKOPEDIA ORDER API RESPONSE TYPES
+// =============================================================================
+
+interface TokopediaOrderProduct {
+  id: number
+  name: string
+  quantity: number
+  price: number
+  total_price: number
+  sku?: string
+}
+
+interface TokopediaOrder {
+  order_id: number
+  invoice_ref_num: string
+  order_status: number
+  create_time: number
+  update_time?: number
+  payment_date?: string
+  products: TokopediaOrderProduct[]
+  recipient: {
+    name: string
+    phone: string
+    address: {
+      address_full: string
+      district: string
+      city: string
+      province: string
+      country: string
+      postal_code: string
+    }
+  }
+  amt: {
+    ttl_product_price: number
+    shipping_cost: number
+    ttl_amount: number
+  }
+  logistics?: {
+    shipping_agency: string
+    service_type: string
+  }
+  shipping_ref_num?: string
+}
+
+// =============================================================================
+// TOKOPEDIA ORDER STATUS MAPPING
+// =============================================================================
+
+/**
+ * Tokopedia order status codes mapped to internal statuses.
+ * Codes not listed fall back to 'pending'.
+ */
+const TOKOPEDIA_ORDER_STATUS_MAPPING: Record<number, OrderStatus> = {
+  0: 'cancelled',    // Seller cancel order
+  3: 'cancelled',    // Order reject due to empty stock
+  5: 'cancelled',    // Order canceled by fraud
+  10: 'cancelled',   // Order rejected by seller
+  15: 'cancelled',   // Instant cancel by buyer
+  100: 'pending',    // Pending order
+  103: 'pending',    // Wait for payment confirmation
+  200: 'pending',    // Payment confirmation
+  220: 'paid',       // Payment verified, order ready to process
+  221: 'paid',       // Waiting for partner approval
+  400: 'processing', // Seller accept order
+  450: 'processing', // Waiting for pickup
+  500: 'shipped',    // Order shipment
+  501: 'shipped',    // Status changed to waiting resi have no input
+  520: 'shipped',    // Invalid shipment reference number (AWB)
+  530: 'shipped',    // Requested by user to correct invalid entry of shipment reference number
+  540: 'shipped',    // Delivered to pickup point
+  550: 'refunded',   // Return to seller
+  600: 'delivered',  // Order delivered
+  601: 'delivered',  // Buyer open a case to finish an order
+  690: 'delivered',  // Fraud review
+  700: 'delivered',  // Order finished
+  701: 'delivered'   // Order assumed as finished
+}
+
+/**
+ * Internal statuses mapped to the Tokopedia status code used for filtering
+ */
+const TOKOPEDIA_STATUS_FILTER: Partial<Record<OrderStatus, number>> = {
+  pending: 100,
+  paid: 220,
+  processing: 400,
+  shipped: 500,
+  delivered: 700,
+  cancelled: 0
+}
+
+const MAX_ORDER_WINDOW_MS = 3 * 24 * 60 * 60 * 1000
+
+// =============================================================================
+// TOKOPEDIA ORDERS CLASS
+// =============================================================================
+
+export class TokopediaOrders {
+  private client: TokopediaClient
+  private logPrefix = '[TokopediaOrders]'
+
+  constructor(client: TokopediaClient) {
+    this.client = client
+  }
+
+  // =============================================================================
+  // ORDER LISTING OPERATIONS
+  // =============================================================================
+
+  /**
+   * List orders with pagination and filtering
+   *
+   * Windows wider than 3 days are clamped to the most recent 3 days.
+   */
+  async listOrders(params: OrderListParams = {}): Promise<ConnectorResponse<OrderDetail[]>> {
+    try {
+      const dateTo = params.dateTo || new Date()
+      let dateFrom = params.dateFrom || new Date(dateTo.getTime() - MAX_ORDER_WINDOW_MS)
+
+      if (dateTo.getTime() - dateFrom.getTime() > MAX_ORDER_WINDOW_MS) {
+        console.warn(`${this.logPrefix} Order window exceeds 3 days, clamping to the most recent 3 days`)
+        dateFrom = new Date(dateTo.getTime() - MAX_ORDER_WINDOW_MS)
+      }
+
+      const pageSize = params.pageSize || 50
+      // The cursor is the next page number
+      const page = params.cursor ? Number(params.cursor) : params.page || 1
+      const queryParams: Record<string, any> = {
+        fs_id: this.client.getFsId(),
+        shop_id: this.client.getShopId(),
+        from_date: Math.floor(dateFrom.getTime() / 1000),
+        to_date: Math.floor(dateTo.getTime() / 1000),
+        page,
+        per_page: pageSize
+      }
+
+      if (params.status) {
+        queryParams.status = TOKOPEDIA_STATUS_FILTER[params.status as OrderStatus]
+      }
+
+      if (params.search) {
+        console.warn(`${this.logPrefix} Search parameter not supported by Tokopedia API`)
+      }
+
+      const response = await this.client.request<TokopediaOrder[]>('/v2/order/list', {
+        query: queryParams
+      })
+
+      if (response.success) {
+        const orders = (response.data || []).map(order => this.transformOrderFromTokopedia(order))
+        const hasMore = orders.length === pageSize
+
+        console.log(`${this.logPrefix} Retrieved ${orders.length} orders`)
+        return {
+          success: true,
+          data: orders,
+          metadata: {
+            hasMore,
+            nextCursor: hasMore ? String(page + 1) : undefined
+          } as any
+        }
+      } else {
+        return {
+          success: false,
+          error: response.error
+        }
+      }
+    } catch (error) {
+      console.error(`${this.logPrefix} Error listing orders:`, error)
+      return {
+        success: false,
+        error: {
+          code: 'LIST_ORDERS_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to list orders',
+          retryable: true
+        }
+      }
+    }
+  }
+
+  /**
+   * Iterate all orders in the date range, split into 3-day windows
+   */
+  iterateOrders(params: Omit<OrderListParams, 'page' | 'cursor'> = {}): AsyncIterable<OrderDetail[]> {
+    return paginateWindows(params, MAX_ORDER_WINDOW_MS, (window, cursor) =>
+      this.listOrders({ ...params, ...window, cursor, pageSize: 50 })
+    )
+  }
+
+  /**
+   * Get detailed information about a specific order
+   */
+  async getOrder(orderId: string): Promise<ConnectorResponse<OrderDetail>> {
+    try {
+      const response = await this.client.request<TokopediaOrder>('/v2/fs/{fs_id}/order', {
+        query: {
+          order_id: orderId
+        }
+      })
+
+      if (response.success && response.data) {
+        const order = this.transformOrderFromTokopedia(response.data)
+        console.log(`${this.logPrefix} Retrieved order: ${order.id}`)
+        return {
+          success: true,
+          data: order
+        }
+      } else {
+        return {
+          success: false,
+          error: response.error || {
+            code: 'ORDER_NOT_FOUND',
+            message: `Order ${orderId} not found`,
+            retryable: false
+          }
+        }
+      }
+    } catch (error) {
+      console.error(`${this.logPrefix} Error getting order ${orderId}:`, error)
+      return {
+        success: false,
+        error: {
+          code: 'GET_ORDER_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to get order',
+          retryable: true
+        }
+      }
+    }
+  }
+
+  // =============================================================================
+  // ORDER STATUS UPDATES
+  // =============================================================================
+
+  /**
+   * Update order status (if allowed by Tokopedia API)
+   *
+   * - processing: accept the order
+   * - cancelled: reject the order
+   * - shipped: confirm shipping with an AWB (tracking number)
+   */
+  async updateOrderStatus(orderId: string, update: OrderStatusUpdate): Promise<ConnectorResponse<void>> {
+    try {
+      const idempotencyKey = this.client.generateIdempotencyKey()
+      let response: ConnectorResponse<any>
+
+      switch (update.status) {
+        case 'processing':
+          response = await this.client.request(`/v1/order/${orderId}/fs/{fs_id}/ack`, {
+            method: 'POST',
+            idempotencyKey: idempotencyKey.key
+          })
+          break
+
+        case 'cancelled':
+          response = await this.client.request(`/v1/order/${orderId}/fs/{fs_id}/nack`, {
+            method: 'POST',
+            body: {
+              reason_code: 1, // Product(s) out of stock
+              reason: update.notes || 'Out of stock'
+            },
+            idempotencyKey: idempotencyKey.key
+          })
+          break
+
+        case 'shipped':
+          if (!update.trackingNumber) {
+            return {
+              success: false,
+              error: {
+                code: 'TRACKING_REQUIRED',
+                message: 'A tracking number (AWB) is required to confirm shipping on Tokopedia',
+                retryable: false
+              }
+            }
+          }
+
+          response = await this.client.request(`/v1/order/${orderId}/fs/{fs_id}/status`, {
+            method: 'POST',
+            body: {
+              order_status: 500,
+              shipping_ref_num: update.trackingNumber
+            },
+            idempotencyKey: idempotencyKey.key
+          })
+          break
+
+        default:
+          return {
+            success: false,
+            error: {
+              code: 'STATUS_UPDATE_NOT_ALLOWED',
+              message: `Status '${update.status}' cannot be updated via API on Tokopedia`,
+              retryable: false
+            }
+          }
+      }
+
+      if (response.success) {
+        console.log(`${this.logPrefix} Updated order ${orderId} to ${update.status}`)
+        return { success: true }
+      } else {
+        return { success: false, error: response.error }
+      }
+    } catch (error) {
+      console.error(`${this.logPrefix} Error updating order status ${orderId}:`, error)
+      return {
+        success: false,
+        error: {
+          code: 'UPDATE_ORDER_STATUS_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to update order status',
+          retryable: true
+        }
+      }
+    }
+  }
+
+  // =============================================================================
+  // TRANSFORMATION HELPERS
+  // =============================================================================
+
+  /**
+   * Transform order from Tokopedia format to internal format
+   */
+  private transformOrderFromTokopedia(order: TokopediaOrder): OrderDetail {
+    const status = this.mapStatusFromTokopedia(order.order_status)
+    const address = order.recipient?.address
+
+    return {
+      id: order.order_id.toString(),
+      orderNumber: order.invoice_ref_num,
+      platformOrderId: order.order_id.toString(),
+      status,
+      paymentStatus: this.mapPaymentStatusFromTokopedia(order, status),
+      totalAmount: order.amt?.ttl_amount || 0,
+      currency: 'IDR',
+      customer: {
+        name: order.recipient?.name || '',
+        email: '', // Tokopedia does not share buyer emails
+        phone: order.recipient?.phone || ''
+      },
+      items: (order.products || []).map(product => ({
+        id: product.id.toString(),
+        productId: product.id.toString(),
+        title: product.name,
+        sku: product.sku,
+        quantity: product.quantity,
+        price: product.price,
+        total: product.total_price
+      })),
+      shippingAddress: {
+        name: order.recipient?.name || '',
+        phone: order.recipient?.phone || '',
+        addressLine1: address?.address_full || '',
+        addressLine2: address?.district,
+        city: address?.city || '',
+        state: address?.province,
+        postalCode: address?.postal_code || '',
+        country: address?.country || 'Indonesia'
+      },
+      shippingMethod: order.logistics
+        ? `${order.logistics.shipping_agency} ${order.logistics.service_type}`.trim()
+        : undefined,
+      trackingNumber: order.shipping_ref_num,
+      createdAt: new Date(order.create_time * 1000),
+      updatedAt: new Date((order.update_time || order.create_time) * 1000),
+      orderDate: new Date(order.create_time * 1000)
+    }
+  }
+
+  /**
+   * Map Tokopedia status code to internal status
+   */
+  private mapStatusFromTokopedia(statusCode: number): OrderStatus {
+    return TOKOPEDIA_ORDER_STATUS_MAPPING[statusCode] || 'pending'
+  }
+
+  /**
+   * Derive payment status; Tokopedia only releases orders to sellers once paid
+   */
+  private mapPaymentStatusFromTokopedia(order: TokopediaOrder, status: OrderStatus): PaymentStatus {
+    if (status === 'refunded') return 'refunded'
+    if (status === 'cancelled') return order.payment_date ? 'refunded' : 'unpaid'
+    return order.order_status >= 220 ? 'paid' : 'unpaid'
+  }
+}
+
+// =============================================================================
+// EXPORTS
+// =============================================================================
+
+export default TokopediaOrders
@@ -0,0 +1,800 @@
+/**
+ * Tokopedia Products Module
+ *
+ * Handles product-related operations for Tokopedia platform:
+ * - List products with pagination and filtering
+ * - Get product details
+ * - Create new products
+ * - Update existing products
+ * - Update stock and price
+ *
+ * Tokopedia variants are child products with their own product IDs, so
+ * variant stock and price updates address the child product directly.
+ *
+ * Tokopedia API Reference: https://developer.tokopedia.com/openapi/guide/#/product/
+ */
+
+import {
+  ProductListParams,
+  ProductDetail,
+  ProductPushData,
+  ProductUpdateData,
+  ConnectorResponse,
+  ValidationResult,
+  ProductValidationRules
+} from '@/connectors/types'
+import { paginate } from '@/connectors/pagination'
+import { TokopediaClient } from './client'
+
+// =============================================================================
+// TOKOPEDIA PRODUCT API RESPONSE TYPES
+// =============================================================================
+
+interface TokopediaProduct {
+  basic: {
+    productID: number
+    shopID: number
+    status: number // 1=active, 2=best (featured), 3=inactive (warehouse), -1=pending, -2=banned, 0=deleted
+    name: string
+    condition: number
+    childCategoryID: number
+    shortDesc?: string
+    createTimeUnix: number
+    updateTimeUnix: number
+  }
+  price: {
+    value: number
+    currency: number
+    LastUpdateUnix: number
+  }
+  stock: {
+    value: number
+    stockWording?: string
+  }
+  pictures?: Array<{
+    OriginalURL: string
+    ThumbnailURL: string
+  }>
+  other?: {
+    sku?: string
+    url?: string
+  }
+}
+
+interface TokopediaProductMutationResponse {
+  total_data: number
+  success_data: number
+  fail_data: number
+  success_rows_data?: Array<{ product_id: number }>
+  failed_rows_data?: Array<{ product_name?: string; product_id?: number; error: string[] }>
+}
+
+interface TokopediaInventoryUpdateResponse {
+  failed_rows: number
+  succeed_rows: number
+  failed_rows_data?: Array<{ product_id: number; message: string }>
+}
+
+// =============================================================================
+// VALIDATION RULES FOR TOKOPEDIA
+// =============================================================================
+
+export const TOKOPEDIA_VALIDATION_RULES: ProductValidationRules = {
+  maxTitleLength: 150,
+  maxDescriptionLength: 5000,
+  requiredAttributes: [],
+  forbiddenTerms: [
+    'fake', 'replica', 'counterfeit', 'pirated', 'kw'
+  ],
+  imageRequirements: {
+    minCount: 1,
+    maxCount: 5,
+    maxSizeInMB: 10,
+    allowedFormats: ['jpg', 'jpeg', 'png'],
+    minDimension: 300,
+    maxDimension: 5000
+  }
+}
+
+// =============================================================================
+// TOKOPEDIA PRODUCTS CLASS
+// =============================================================================
+
+export class TokopediaProducts {
+  private client: TokopediaClient
+  private logPrefix = '[TokopediaProducts]'
+
+  constructor(client: TokopediaClient) {
+    this.client = client
+  }
+
+  // =============================================================================
+  // PRODUCT LISTING OPERATIONS
+  // =============================================================================
+
+  /**
+   * List products with pagination and filtering
+   */
+  async listProducts(params: ProductListParams = {}): Promise<ConnectorResponse<ProductDetail[]>> {
+    try {
+      const pageSize = Math.min(params.pageSize || 50, 50)
+      // The cursor is the next page number
+      const page = params.cursor ? Number(params.cursor) : params.page || 1
+
+      const response = await this.client.request<TokopediaProduct[]>(
+        '/inventory/v1/fs/{fs_id}/product/info',
+        {
+          query: {
+            shop_id: this.client.getShopId(),
+            page,
+            per_page: pageSize
+          }
+        }
+      )
+
+      if (response.success) {
+        let products = (response.data || []).map(product => this.transformProductFromTokopedia(product))
+
+        // The shop listing endpoint has no server-side filters
+        if (params.status) {
+          products = products.filter(product => product.status === params.status)
+        }
+
+        if (params.category) {
+          products = products.filter(product => product.category === params.category)
+        }
+
+        if (params.search) {
+          const query = params.search.toLowerCase()
+          products = products.filter(product => product.title.toLowerCase().includes(query))
+        }
+
+        if (params.modifiedFrom) {
+          products = products.filter(product => product.updatedAt >= params.modifiedFrom!)
+        }
+
+        if (params.modifiedTo) {
+          products = products.filter(product => product.updatedAt <= params.modifiedTo!)
+        }
+
+        // Filters apply after fetching, so a page is full based on the raw response
+        const hasMore = (response.data || []).length === pageSize
+
+        console.log(`${this.logPrefix} Retrieved ${products.length} products`)
+        return {
+          success: true,
+          data: products,
+          metadata: {
+            hasMore,
+            nextCursor: hasMore ? String(page + 1) : undefined
+          } as any
+        }
+      } else {
+        return {
+          success: false,
+          error: response.error
+        }
+      }
+    } catch (error) {
+      console.error(`${this.logPrefix} Error listing products:`, error)
+      return {
+        success: false,
+        error: {
+          code: 'LIST_PRODUCTS_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to list products',
+          retryable: true
+        }
+      }
+    }
+  }
+
+  /**
+   * Iterate all products matching the filters, page by page
+   */
+  iterateProducts(params: Omit<ProductListParams, 'page' | 'cursor'> = {}): AsyncIterable<ProductDetail[]> {
+    return paginate(cursor => this.listProducts({ ...params, cursor, pageSize: 50 }))
+  }
+
+  /**
+   * Get detailed information about a specific product
+   */
+  async getProduct(productId: string): Promise<ConnectorResponse<ProductDetail>> {
+    try {
+      const response = await this.client.request<TokopediaProduct[]>(
+        '/inventory/v1/fs/{fs_id}/product/info',
+        {
+          query: {
+            product_id: productId
+          }
+        }
+      )
+
+      const tokopediaProduct = response.data?.[0]
+
+      if (response.success && tokopediaProduct) {
+        const product = this.transformProductFromTokopedia(tokopediaProduct)
+        console.log(`${this.logPrefix} Retrieved product: ${product.id}`)
+        return {
+          success: true,
+          data: product
+        }
+      } else {
+        return {
+          success: false,
+          error: response.error || {
+            code: 'PRODUCT_NOT_FOUND',
+            message: `Product ${productId} not found`,
+            retryable: false
+          }
+        }
+      }
+    } catch (error) {
+      console.error(`${this.logPrefix} Error getting product ${productId}:`, error)
+      return {
+        success: false,
+        error: {
+          code: 'GET_PRODUCT_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to get product',
+          retryable: true
+        }
+      }
+    }
+  }
+
+  // =============================================================================
+  // PRODUCT CREATION OPERATIONS
+  // =============================================================================
+
+  /**
+   * Create a new product on Tokopedia
+   */
+  async createProduct(productData: ProductPushData): Promise<ConnectorResponse<ProductDetail>> {
+    try {
+      const validation = await this.validateProduct(productData)
+      if (!validation.valid) {
+        return {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: `Product validation failed: ${validation.errors.map(e => e.message).join(', ')}`,
+            retryable: false
+          }
+        }
+      }
+
+      // Variant creation needs Tokopedia's category variant IDs, which are not mapped yet
+      if (productData.variants?.length) {
+        return {
+          success: false,
+          error: {
+            code: 'VARIANTS_NOT_SUPPORTED',
+            message: 'Creating variant products is not supported for Tokopedia yet',
+            retryable: false
+          }
+        }
+      }
+
+      const tokopediaProduct = this.transformProductToTokopedia(productData)
+      const idempotencyKey = this.client.generateIdempotencyKey()
+
+      const response = await this.client.request<TokopediaProductMutationResponse>(
+        '/v3/products/fs/{fs_id}/create',
+        {
+          method: 'POST',
+          query: { shop_id: this.client.getShopId() },
+          body: { products: [tokopediaProduct] },
+          idempotencyKey: idempotencyKey.key
+        }
+      )
+
+      if (!response.success || !response.data) {
+        return { success: false, error: response.error }
+      }
+
+      const createdId = response.data.success_rows_data?.[0]?.product_id
+      if (!createdId) {
+        return {
+          success: false,
+          error: {
+            code: 'CREATE_PRODUCT_REJECTED',
+            message: response.data.failed_rows_data?.[0]?.error?.join(', ') || 'Tokopedia rejected the product',
+            retryable: false
+          }
+        }
+      }
+
+      const productResponse = await this.getProduct(createdId.toString())
+
+      if (productResponse.success && productResponse.data) {
+        console.log(`${this.logPrefix} Created product: ${productResponse.data.id}`)
+        return {
+          success: true,
+          data: productResponse.data
+        }
+      } else {
+        return {
+          success: false,
+          error: {
+            code: 'FETCH_CREATED_PRODUCT_ERROR',
+            message: 'Product created but failed to fetch details',
+            retryable: true
+          }
+        }
+      }
+    } catch (error) {
+      console.error(`${this.logPrefix} Error creating product:`, error)
+      return {
+        success: false,
+        error: {
+          code: 'CREATE_PRODUCT_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to create product',
+          retryable: true
+        }
+      }
+    }
+  }
+
+  /**
+   * Update an existing product
+   *
+   * Stock, price and status have dedicated endpoints on Tokopedia; everything
+   * else goes through product edit.
+   */
+  async updateProduct(productId: string, updateData: ProductUpdateData): Promise<ConnectorResponse<ProductDetail>> {
+    try {
+      const validation = await this.validateUpdateData(updateData)
+      if (!validation.valid) {
+        return {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: `Product update validation failed: ${validation.errors.map(e => e.message).join(', ')}`,
+            retryable: false
+          }
+        }
+      }
+
+      const tokopediaUpdate = this.transformUpdateToTokopedia(updateData)
+
+      if (Object.keys(tokopediaUpdate).length > 0) {
+        const idempotencyKey = this.client.generateIdempotencyKey()
+
+        const response = await this.client.request<TokopediaProductMutationResponse>(
+          '/v3/products/fs/{fs_id}/edit',
+          {
+            method: 'PATCH',
+            query: { shop_id: this.client.getShopId() },
+            body: { products: [{ id: Number(productId), ...tokopediaUpdate }] },
+            idempotencyKey: idempotencyKey.key
+          }
+        )
+
+        if (!response.success) {
+          return { success: false, error: response.error }
+        }
+
+        if (response.data && response.data.fail_data > 0) {
+          return {
+            success: false,
+            error: {
+              code: 'UPDATE_PRODUCT_REJECTED',
+              message: response.data.failed_rows_data?.[0]?.error?.join(', ') || 'Tokopedia rejected the update',
+              retryable: false
+            }
+          }
+        }
+      }
+
+      if (updateData.stock !== undefined) {
+        const stockResponse = await this.updateStock(productId, updateData.stock)
+        if (!stockResponse.success) {
+          return { success: false, error: stockResponse.error }
+        }
+      }
+
+      if (updateData.price !== undefined) {
+        const priceResponse = await this.updatePrice(productId, updateData.price, updateData.compareAtPrice)
+        if (!priceResponse.success) {
+          return { success: false, error: priceResponse.error }
+        }
+      }
+
+      if (updateData.status !== undefined) {
+        const statusResponse = await this.updateStatus(productId, updateData.status)
+        if (!statusResponse.success) {
+          return { success: false, error: statusResponse.error }
+        }
+      }
+
+      const productResponse = await this.getProduct(productId)
+
+      if (productResponse.success && productResponse.data) {
+        console.log(`${this.logPrefix} Updated product: ${productId}`)
+        return {
+          success: true,
+          data: productResponse.data
+        }
+      } else {
+        return {
+          success: false,
+          error: {
+            code: 'FETCH_UPDATED_PRODUCT_ERROR',
+            message: 'Product updated but failed to fetch details',
+            retryable: true
+          }
+        }
+      }
+    } catch (error) {
+      console.error(`${this.logPrefix} Error updating product ${productId}:`, error)
+      return {
+        success: false,
+        error: {
+          code: 'UPDATE_PRODUCT_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to update product',
+          retryable: true
+        }
+      }
+    }
+  }
+
+  // =============================================================================
+  // STOCK & PRICE OPERATIONS
+  // =============================================================================
+
+  /**
+   * Update product stock
+   *
+   * `variantId` is the child product ID of a variant.
+   */
+  async updateStock(productId: string, stock: number, variantId?: string): Promise<ConnectorResponse<void>> {
+    try {
+      const targetId = variantId || productId
+      const idempotencyKey = this.client.generateIdempotencyKey()
+
+      const response = await this.client.request<TokopediaInventoryUpdateResponse>(
+        '/inventory/v1/fs/{fs_id}/stock/update',
+        {
+          method: 'POST',
+          query: { shop_id: this.client.getShopId() },
+          body: [{ product_id: Number(targetId), new_stock: stock }],
+          idempotencyKey: idempotencyKey.key
+        }
+      )
+
+      if (response.success && !response.data?.failed_rows) {
+        console.log(`${this.logPrefix} Updated stock for product ${targetId}: ${stock}`)
+        return { success: true }
+      } else {
+        return {
+          success: false,
+          error: response.error || {
+            code: 'UPDATE_STOCK_REJECTED',
+            message: response.data?.failed_rows_data?.[0]?.message || 'Tokopedia rejected the stock update',
+            retryable: false
+          }
+        }
+      }
+    } catch (error) {
+      console.error(`${this.logPrefix} Error updating stock for product ${productId}:`, error)
+      return {
+        success: false,
+        error: {
+          code: 'UPDATE_STOCK_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to update stock',
+          retryable: true
+        }
+      }
+    }
+  }
+
+  /**
+   * Update product price
+   *
+   * Tokopedia shows strike-through prices only through slash-price campaigns,
+   * so compareAtPrice is ignored here. `variantId` is the child product ID.
+   */
+  async updatePrice(
+    productId: string,
+    price: number,
+    compareAtPrice?: number,
+    variantId?: string
+  ): Promise<ConnectorResponse<void>> {
+    try {
+      const targetId = variantId || productId
+
+      if (compareAtPrice !== undefined) {
+        console.warn(`${this.logPrefix} compareAtPrice is not supported by Tokopedia, ignoring`)
+      }
+
+      const idempotencyKey = this.client.generateIdempotencyKey()
+
+      const response = await this.client.request<TokopediaInventoryUpdateResponse>(
+        '/inventory/v1/fs/{fs_id}/price/update',
+        {
+          method: 'POST',
+          query: { shop_id: this.client.getShopId() },
+          body: [{ product_id: Number(targetId), new_price: price }],
+          idempotencyKey: idempotencyKey.key
+        }
+      )
+
+      if (response.success && !response.data?.failed_rows) {
+        console.log(`${this.logPrefix} Updated price for product ${targetId}: ${price}`)
+        return { success: true }
+      } else {
+        return {
+          success: false,
+          error: response.error || {
+            code: 'UPDATE_PRICE_REJECTED',
+            message: response.data?.failed_rows_data?.[0]?.message || 'Tokopedia rejected the price update',
+            retryable: false
+          }
+        }
+      }
+    } catch (error) {
+      console.error(`${this.logPrefix} Error updating price for product ${productId}:`, error)
+      return {
+        success: false,
+        error: {
+          code: 'UPDATE_PRICE_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to update price',
+          retryable: true
+        }
+      }
+    }
+  }
+
+  /**
+   * Activate or deactivate a product
+   */
+  private async updateStatus(
+    productId: string,
+    status: 'active' | 'inactive' | 'out_of_stock'
+  ): Promise<ConnectorResponse<void>> {
+    // Out of stock is derived from inventory, not a listing state
+    if (status === 'out_of_stock') {
+      return this.updateStock(productId, 0)
+    }
+
+    const endpoint = status === 'active'
+      ? '/v1/products/fs/{fs_id}/active'
+      : '/v1/products/fs/{fs_id}/inactive'
+
+    const response = await this.client.request(endpoint, {
+      method: 'POST',
+      query: { shop_id: this.client.getShopId() },
+      body: { product_id: [Number(productId)] }
+    })
+
+    return response.success ? { success: true } : { success: false, error: response.error }
+  }
+
+  // =============================================================================
+  // VALIDATION HELPERS
+  // =============================================================================
+
+  /**
+   * Validate product data before creating
+   */
+  private async validateProduct(productData: ProductPushData): Promise<ValidationResult> {
+    const errors: any[] = []
+    const warnings: any[] = []
+    const rules = TOKOPEDIA_VALIDATION_RULES
+
+    if (productData.title.length > rules.maxTitleLength) {
+      errors.push({
+        field: 'title',
+        message: `Title cannot exceed ${rules.maxTitleLength} characters`,
+        code: 'TITLE_TOO_LONG'
+      })
+    }
+
+    if (productData.description && productData.description.length > rules.maxDescriptionLength) {
+      errors.push({
+        field: 'description',
+        message: `Description cannot exceed ${rules.maxDescriptionLength} characters`,
+        code: 'DESCRIPTION_TOO_LONG'
+      })
+    }
+
+    if (!productData.category || !/^\d+$/.test(productData.category)) {
+      errors.push({
+        field: 'category',
+        message: 'A Tokopedia category ID is required',
+        code: 'INVALID_CATEGORY'
+      })
+    }
+
+    if (productData.price < 100) {
+      errors.push({
+        field: 'price',
+        message: 'Price must be at least Rp100',
+        code: 'INVALID_PRICE'
+      })
+    }
+
+    if (productData.stock < 0) {
+      errors.push({
+        field: 'stock',
+        message: 'Stock cannot be negative',
+        code: 'INVALID_STOCK'
+      })
+    }
+
+    if (!productData.weight && !productData.shippingInfo?.weight) {
+      errors.push({
+        field: 'weight',
+        message: 'Weight is required for Tokopedia shipping rates',
+        code: 'MISSING_WEIGHT'
+      })
+    }
+
+    if (!productData.images || productData.images.length === 0) {
+      errors.push({
+        field: 'images',
+        message: 'At least one image is required',
+        code: 'NO_IMAGES'
+      })
+    } else if (productData.images.length > rules.imageRequirements.maxCount) {
+      warnings.push({
+        field: 'images',
+        message: `Only the first ${rules.imageRequirements.maxCount} images will be used`,
+        code: 'TOO_MANY_IMAGES'
+      })
+    }
+
+    const forbiddenFound = this.findForbiddenTerms(productData.title, rules.forbiddenTerms)
+    if (forbiddenFound.length > 0) {
+      errors.push({
+        field: 'title',
+        message: `Title contains forbidden terms: ${forbiddenFound.join(', ')}`,
+        code: 'FORBIDDEN_TERMS'
+      })
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+      warnings
+    }
+  }
+
+  /**
+   * Validate update data
+   */
+  private async validateUpdateData(updateData: ProductUpdateData): Promise<ValidationResult> {
+    const errors: any[] = []
+
+    if (updateData.price !== undefined && updateData.price < 100) {
+      errors.push({
+        field: 'price',
+        message: 'Price must be at least Rp100',
+        code: 'INVALID_PRICE'
+      })
+    }
+
+    if (updateData.stock !== undefined && updateData.stock < 0) {
+      errors.push({
+        field: 'stock',
+        message: 'Stock cannot be negative',
+        code: 'INVALID_STOCK'
+      })
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+      warnings: []
+    }
+  }
+
+  /**
+   * Find forbidden terms in text (whole words, so short terms like "kw" don't over-match)
+   */
+  private findForbiddenTerms(text: string, forbiddenTerms: string[]): string[] {
+    const words = text.toLowerCase().split(/[^a-z0-9]+/)
+    return forbiddenTerms.filter(term => words.includes(term.toLowerCase()))
+  }
+
+  // =============================================================================
+  // TRANSFORMATION HELPERS
+  // =============================================================================
+
+  /**
+   * Transform product from Tokopedia format to internal format
+   */
+  private transformProductFromTokopedia(product: TokopediaProduct): ProductDetail {
+    return {
+      id: product.basic.productID.toString(),
+      title: product.basic.name,
+      description: product.basic.shortDesc,
+      price: product.price.value,
+      stock: product.stock.value,
+      category: product.basic.childCategoryID.toString(),
+      images: (product.pictures || []).map(picture => picture.OriginalURL),
+      attributes: product.other?.sku ? { sku: product.other.sku } : {},
+      status: this.mapStatusFromTokopedia(product.basic.status, product.stock.value),
+      createdAt: new Date(product.basic.createTimeUnix * 1000),
+      updatedAt: new Date(product.basic.updateTimeUnix * 1000)
+    }
+  }
+
+  /**
+   * Transform internal product data to Tokopedia format
+   */
+  private transformProductToTokopedia(productData: ProductPushData): any {
+    const weight = productData.weight || productData.shippingInfo?.weight || 0
+    const dimensions = productData.dimensions || productData.shippingInfo?.dimensions
+
+    return {
+      name: productData.title,
+      condition: 'NEW',
+      description: productData.description || '',
+      sku: productData.sku || '',
+      price: productData.price,
+      price_currency: 'IDR',
+      status: 'LIMITED',
+      stock: productData.stock,
+      min_order: 1,
+      category_id: Number(productData.category),
+      weight: Math.round(weight * 1000),
+      weight_unit: 'GR',
+      is_free_return: false,
+      is_must_insurance: false,
+      ...(dimensions && {
+        dimension: {
+          length: dimensions.length,
+          width: dimensions.width,
+          height: dimensions.height
+        }
+      }),
+      pictures: productData.images
+        .slice(0, TOKOPEDIA_VALIDATION_RULES.imageRequirements.maxCount)
+        .map(url => ({ file_path: url }))
+    }
+  }
+
+  /**
+   * Transform update data to Tokopedia edit format
+   */
+  private transformUpdateToTokopedia(updateData: ProductUpdateData): any {
+    const update: any = {}
+
+    if (updateData.title !== undefined) {
+      update.name = updateData.title
+    }
+
+    if (updateData.description !== undefined) {
+      update.description = updateData.description
+    }
+
+    if (updateData.category !== undefined) {
+      update.category_id = Number(updateData.category)
+    }
+
+    if (updateData.images !== undefined) {
+      update.pictures = updateData.images
+        .slice(0, TOKOPEDIA_VALIDATION_RULES.imageRequirements.maxCount)
+        .map(url => ({ file_path: url }))
+    }
+
+    return update
+  }
+
+  /**
+   * Map Tokopedia status to internal status
+   */
+  private mapStatusFromTokopedia(status: number, stock: number): 'active' | 'inactive' | 'out_of_stock' {
+    if (status !== 1 && status !== 2) {
+      return 'inactive'
+    }
+
+    return stock > 0 ? 'active' : 'out_of_stock'
+  }
+}
+
+// =============================================================================
+// EXPORTS
+// =============================================================================
+
+export default TokopediaProducts
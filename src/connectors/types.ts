@@ -5,7 +5,7 @@
  * (Shopee, TikTok Shop, Tokopedia, etc.)
  */
 
-import { PlatformType } from '@/types/product'
+import { PlatformType, ProductOption } from '@/types/product'
 
 // =============================================================================
 // CONFIGURATION & CREDENTIALS
@@ -15,7 +15,8 @@ export interface ConnectorConfig {
   baseUrl: string
   timeout?: number
   retryAttempts?: number
-  rateLimitPerMinute?: number
+  rateLimitPerMinute?: number // Used when channels.config sets no limit
+  channelAccountId?: string // Keys the shared rate limit buckets; unset for env-configured connectors
 }
 
 export interface PlatformCredentials {
@@ -48,6 +49,7 @@ export interface ConnectorResponse<T = any> {
     timestamp: Date
     rateLimitRemaining?: number
     rateLimitReset?: number
+    nextCursor?: string // Set by list calls when another page follows
   }
 }
 
@@ -65,6 +67,7 @@ export interface ConnectorError {
 
 export interface ProductListParams {
   page?: number
+  cursor?: string // `metadata.nextCursor` of the previous page; takes precedence over `page`
   pageSize?: number
   status?: string
   category?: string
@@ -83,6 +86,8 @@ export interface ProductDetail {
   category?: string
   images: string[]
   attributes?: Record<string, any>
+  options?: ProductOption[]
+  variants?: ProductVariantDetail[]
   status: 'active' | 'inactive' | 'out_of_stock'
   createdAt: Date
   updatedAt: Date
@@ -96,8 +101,12 @@ export interface ProductPushData {
   stock: number
   category?: string
   images: string[]
+  // Source image URL -> image already in the platform's media space (image ID, URI or CDN URL)
+  platformImages?: Record<string, string>
   attributes?: Record<string, any>
   sku?: string
+  options?: ProductOption[]
+  variants?: ProductVariantPushData[] // Pushed as platform variants (Shopee models, TikTok/Lazada SKUs)
   weight?: number
   dimensions?: {
     length: number
@@ -114,6 +123,29 @@ export interface ProductPushData {
   }
 }
 
+/**
+ * A platform variant; `id` is the platform's own ID (Shopee model ID,
+ * TikTok Shop / Lazada SKU ID) that stock and price updates target
+ */
+export interface ProductVariantDetail {
+  id: string
+  sku?: string
+  options: Record<string, string>
+  price: number
+  compareAtPrice?: number
+  stock: number
+  image?: string
+}
+
+export interface ProductVariantPushData {
+  sku: string
+  options: Record<string, string>
+  price: number
+  compareAtPrice?: number
+  stock: number
+  image?: string
+}
+
 export interface ProductUpdateData {
   productId: string
   title?: string
@@ -124,15 +156,44 @@ export interface ProductUpdateData {
   category?: string
   attributes?: Record<string, any>
   images?: string[]
+  platformImages?: Record<string, string>
   status?: 'active' | 'inactive' | 'out_of_stock'
 }
 
+/**
+ * Marketplace category tree node. Products can only be listed under leaf
+ * categories (`hasChildren: false`).
+ */
+export interface ChannelCategory {
+  id: string
+  parentId?: string
+  name: string
+  displayName?: string
+  hasChildren: boolean
+}
+
+/**
+ * Attribute a marketplace category accepts. Select values are option IDs.
+ */
+export interface ChannelAttribute {
+  id: string
+  name: string
+  displayName?: string
+  inputType: 'text' | 'number' | 'date' | 'select' | 'multi_select'
+  required: boolean
+  // Select inputs that also accept free text (Shopee combo boxes)
+  allowCustomValue?: boolean
+  options?: Array<{ id: string; name: string }>
+  units?: string[]
+}
+
 // =============================================================================
 // ORDER OPERATION TYPES
 // =============================================================================
 
 export interface OrderListParams {
   page?: number
+  cursor?: string // `metadata.nextCursor` of the previous page; takes precedence over `page`
   pageSize?: number
   status?: string
   dateFrom?: Date
@@ -210,12 +271,14 @@ export interface OrderStatusUpdate {
 
 export interface StockUpdate {
   productId: string
+  variantId?: string // Platform variant ID; omitted for single-SKU products
   stock: number
   reason?: 'restock' | 'sale' | 'adjustment' | 'damage' | 'return'
 }
 
 export interface PriceUpdate {
   productId: string
+  variantId?: string // Platform variant ID; omitted for single-SKU products
   price: number
   compareAtPrice?: number
   reason?: 'promotion' | 'seasonal' | 'competitive' | 'cost_change'
@@ -297,9 +360,30 @@ export interface ProductValidationRules {
     maxCount: number
     maxSizeInMB: number
     allowedFormats: string[]
+    minDimension: number // Shortest side in pixels
+    maxDimension: number // Longest side in pixels
   }
 }
 
+/**
+ * An image file prepared for a platform's media API
+ */
+export interface ImageUpload {
+  data: Buffer
+  filename: string
+  mimeType: string
+  usage?: 'product' | 'variant' // Variant images are option/SKU images; defaults to 'product'
+}
+
+/**
+ * An image in a platform's media space; `id` is what product payloads
+ * reference (Shopee image ID, TikTok Shop URI, Lazada CDN URL)
+ */
+export interface UploadedImage {
+  id: string
+  url?: string
+}
+
 // =============================================================================
 // CONNECTOR INTERFACE
 // =============================================================================
@@ -311,14 +395,28 @@ export interface Connector {
   
   // Product operations
   listProducts(params?: ProductListParams): Promise<ConnectorResponse<ProductDetail[]>>
+  // Yields every page; throws when a page fails
+  iterateProducts(params?: Omit<ProductListParams, 'page' | 'cursor'>): AsyncIterable<ProductDetail[]>
+  // Yields product IDs only, for platforms whose list endpoint returns IDs without details
+  iterateProductIds?(params?: Omit<ProductListParams, 'page' | 'cursor'>): AsyncIterable<string[]>
   getProduct(productId: string): Promise<ConnectorResponse<ProductDetail>>
   createProduct(data: ProductPushData): Promise<ConnectorResponse<ProductDetail>>
   updateProduct(productId: string, data: ProductUpdateData): Promise<ConnectorResponse<ProductDetail>>
-  updateStock(productId: string, stock: number): Promise<ConnectorResponse<void>>
-  updatePrice(productId: string, price: number, compareAtPrice?: number): Promise<ConnectorResponse<void>>
+  // variantId targets one platform variant; without it the single-SKU default is updated
+  updateStock(productId: string, stock: number, variantId?: string): Promise<ConnectorResponse<void>>
+  updatePrice(productId: string, price: number, compareAtPrice?: number, variantId?: string): Promise<ConnectorResponse<void>>
+
+  // Category tree (only for marketplaces that list under their own categories)
+  listCategories?(): Promise<ConnectorResponse<ChannelCategory[]>>
+  listCategoryAttributes?(categoryId: string): Promise<ConnectorResponse<ChannelAttribute[]>>
+
+  // Media upload (only for marketplaces that host product images themselves)
+  uploadImage?(image: ImageUpload): Promise<ConnectorResponse<UploadedImage>>
   
   // Order operations
   listOrders(params?: OrderListParams): Promise<ConnectorResponse<OrderDetail[]>>
+  // Yields every page, split into the date windows the platform accepts; throws when a page fails
+  iterateOrders(params?: Omit<OrderListParams, 'page' | 'cursor'>): AsyncIterable<OrderDetail[]>
   getOrder(orderId: string): Promise<ConnectorResponse<OrderDetail>>
   updateOrderStatus(orderId: string, update: OrderStatusUpdate): Promise<ConnectorResponse<void>>
   
@@ -4,6 +4,7 @@ import { ReactNode } from 'react'
 import { AuthProvider } from './AuthContext'
 import { AnalyticsProvider } from './AnalyticsContext'
 import { FiltersProvider } from './FiltersContext'
+import { JobProgressProvider } from './JobProgressContext'
 
 interface AppProvidersProps {
   children: ReactNode
@@ -14,7 +15,9 @@ export function AppProviders({ children }: AppProvidersProps) {
     <AuthProvider>
       <AnalyticsProvider>
         <FiltersProvider>
-          {children}
+          <JobProgressProvider>
+            {children}
+          </JobProgressProvider>
         </FiltersProvider>
       </AnalyticsProvider>
     </AuthProvider>
@@ -0,0 +1,63 @@
+'use client'
+
+import { createContext, useCallback, useContext, useState, ReactNode } from 'react'
+import { JobProgressToast } from '@/components/sync/job-progress-toast'
+
+interface FollowedJob {
+  jobId: string
+  label?: string
+}
+
+interface JobProgressContextType {
+  followedJobs: FollowedJob[]
+  followJob: (jobId: string, label?: string) => void
+  unfollowJob: (jobId: string) => void
+}
+
+const JobProgressContext = createContext<JobProgressContextType | undefined>(undefined)
+
+export function JobProgressProvider({ children }: { children: ReactNode }) {
+  const [followedJobs, setFollowedJobs] = useState<FollowedJob[]>([])
+
+  const followJob = useCallback((jobId: string, label?: string) => {
+    setFollowedJobs(prev => prev.some(job => job.jobId === jobId) ? prev : [...prev, { jobId, label }])
+  }, [])
+
+  const unfollowJob = useCallback((jobId: string) => {
+    setFollowedJobs(prev => prev.filter(job => job.jobId !== jobId))
+  }, [])
+
+  return (
+    <JobProgressContext.Provider
+      value={{
+        followedJobs,
+        followJob,
+        unfollowJob,
+      }}
+    >
+      {children}
+
+      {/* Progress toasts of followed jobs */}
+      {followedJobs.length > 0 && (
+        <div className="fixed bottom-4 right-4 z-50 flex flex-col space-y-2">
+          {followedJobs.map(job => (
+            <JobProgressToast
+              key={job.jobId}
+              jobId={job.jobId}
+              label={job.label}
+              onClose={() => unfollowJob(job.jobId)}
+            />
+          ))}
+        </div>
+      )}
+    </JobProgressContext.Provider>
+  )
+}
+
+export function useJobProgress() {
+  const context = useContext(JobProgressContext)
+  if (context === undefined) {
+    throw new Error('useJobProgress must be used within a JobProgressProvider')
+  }
+  return context
+}
@@ -0,0 +1,106 @@
+/**
+ * Channel Attribute Validation
+ *
+ * Checks product attribute values against a marketplace category's attribute
+ * schema: mandatory attributes, numeric/date formats and select options.
+ * Values are keyed by channel attribute ID; select values are option IDs.
+ */
+
+import { ChannelAttribute, ValidationError } from '@/connectors/types'
+
+// =============================================================================
+// ATTRIBUTE VALIDATION
+// =============================================================================
+
+/**
+ * Validate attribute values against a category attribute schema
+ */
+export function validateChannelAttributes(
+  values: Record<string, any> | undefined,
+  schema: ChannelAttribute[]
+): ValidationError[] {
+  const errors: ValidationError[] = []
+
+  schema.forEach(attribute => {
+    const field = `attributes.${attribute.id}`
+    const label = attribute.displayName || attribute.name
+    const entries = toValueList(values?.[attribute.id])
+
+    if (entries.length === 0) {
+      if (attribute.required) {
+        errors.push({
+          field,
+          message: `${label} is required`,
+          code: 'ATTRIBUTE_REQUIRED'
+        })
+      }
+      return
+    }
+
+    switch (attribute.inputType) {
+      case 'number':
+        if (entries.some(entry => isNaN(Number(entry)))) {
+          errors.push({
+            field,
+            message: `${label} must be a number`,
+            code: 'INVALID_ATTRIBUTE_VALUE'
+          })
+        }
+        break
+
+      case 'date':
+        if (entries.some(entry => isNaN(Date.parse(entry)))) {
+          errors.push({
+            field,
+            message: `${label} must be a valid date`,
+            code: 'INVALID_ATTRIBUTE_VALUE'
+          })
+        }
+        break
+
+      case 'select':
+      case 'multi_select': {
+        if (attribute.inputType === 'select' && entries.length > 1) {
+          errors.push({
+            field,
+            message: `${label} accepts a single value`,
+            code: 'INVALID_ATTRIBUTE_VALUE'
+          })
+          break
+        }
+
+        const optionIds = new Set((attribute.options || []).map(option => option.id))
+        const unknown = entries.filter(entry => !optionIds.has(entry))
+
+        if (!attribute.allowCustomValue && optionIds.size > 0 && unknown.length > 0) {
+          errors.push({
+            field,
+            message: `${label} has unsupported value(s): ${unknown.join(', ')}`,
+            code: 'INVALID_ATTRIBUTE_VALUE'
+          })
+        }
+        break
+      }
+    }
+  })
+
+  return errors
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Normalize a single or multi value to a list of non-empty strings
+ */
+function toValueList(value: unknown): string[] {
+  if (value === undefined || value === null) {
+    return []
+  }
+
+  return ([] as unknown[])
+    .concat(value)
+    .map(entry => String(entry).trim())
+    .filter(entry => entry !== '')
+}
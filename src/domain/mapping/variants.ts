@@ -0,0 +1,200 @@
+/**
+ * Product Variants
+ *
+ * Helpers for products sold in several option combinations (size, colour):
+ * building the variant matrix from option axes, validating variants before
+ * they are pushed and deriving the product-level price and stock from them.
+ */
+
+import { ProductOption, ProductVariant } from '@/types/product'
+import { ProductVariantPushData, ValidationError } from '@/connectors/types'
+
+// =============================================================================
+// VARIANT MATRIX
+// =============================================================================
+
+/**
+ * Label of a variant's option combination, e.g. "Black / M"
+ */
+export function getVariantLabel(options: ProductOption[], values: Record<string, string>): string {
+  return options.map(option => values[option.name] || '-').join(' / ')
+}
+
+/**
+ * Build one variant per option combination
+ *
+ * Variants of combinations that still exist are kept as they are; new
+ * combinations start from the product's SKU, price and stock.
+ */
+export function buildVariantMatrix(
+  options: ProductOption[],
+  existing: ProductVariant[],
+  defaults: { sku: string; price: number; stock: number }
+): ProductVariant[] {
+  const axes = options.filter(option => option.name && option.values.length > 0)
+  if (axes.length === 0) {
+    return []
+  }
+
+  const combinations = axes.reduce<Array<Record<string, string>>>(
+    (partial, option) => partial.flatMap(values =>
+      option.values.map(value => ({ ...values, [option.name]: value }))
+    ),
+    [{}]
+  )
+
+  const existingByKey = new Map(existing.map(variant => [combinationKey(axes, variant.options), variant]))
+
+  return combinations.map(values => {
+    const current = existingByKey.get(combinationKey(axes, values))
+    if (current) {
+      return { ...current, options: values }
+    }
+
+    return {
+      id: crypto.randomUUID(),
+      sku: [defaults.sku, ...axes.map(option => values[option.name])]
+        .filter(Boolean)
+        .join('-')
+        .toUpperCase()
+        .replace(/\s+/g, ''),
+      options: values,
+      price: defaults.price,
+      stock: defaults.stock
+    }
+  })
+}
+
+/**
+ * Product-level stock and price of a variant product: total stock and the
+ * lowest variant price, which is what marketplaces show on listing cards
+ */
+export function summarizeVariants(variants: Array<Pick<ProductVariant, 'price' | 'stock'>>): { price: number; stock: number } {
+  return {
+    price: variants.length > 0 ? Math.min(...variants.map(variant => variant.price)) : 0,
+    stock: variants.reduce((total, variant) => total + variant.stock, 0)
+  }
+}
+
+/**
+ * Map stored variants to the connector push format
+ */
+export function toVariantPushData(variants: ProductVariant[] = []): ProductVariantPushData[] {
+  return variants.map(({ sku, options, price, compareAtPrice, stock, image }) => ({
+    sku,
+    options,
+    price,
+    compareAtPrice,
+    stock,
+    image
+  }))
+}
+
+// =============================================================================
+// VARIANT VALIDATION
+// =============================================================================
+
+/**
+ * Validate variants against the product's option axes
+ *
+ * `maxOptions` is the number of axes the target channel supports.
+ */
+export function validateVariants(
+  options: ProductOption[] | undefined,
+  variants: ProductVariantPushData[] | undefined,
+  maxOptions?: number
+): ValidationError[] {
+  const errors: ValidationError[] = []
+  if (!variants || variants.length === 0) {
+    return errors
+  }
+
+  const axes = options || []
+  if (axes.length === 0) {
+    errors.push({
+      field: 'options',
+      message: 'Variants require at least one option',
+      code: 'OPTIONS_REQUIRED'
+    })
+    return errors
+  }
+
+  if (maxOptions !== undefined && axes.length > maxOptions) {
+    errors.push({
+      field: 'options',
+      message: `At most ${maxOptions} options are supported, got ${axes.length}`,
+      code: 'TOO_MANY_OPTIONS'
+    })
+  }
+
+  const seenCombinations = new Set<string>()
+  const seenSkus = new Set<string>()
+
+  variants.forEach((variant, index) => {
+    const field = `variants[${index}]`
+    const label = getVariantLabel(axes, variant.options)
+
+    const invalidAxes = axes.filter(option => !option.values.includes(variant.options[option.name]))
+    if (invalidAxes.length > 0) {
+      errors.push({
+        field: `${field}.options`,
+        message: `Variant ${label} has no valid value for ${invalidAxes.map(option => option.name).join(', ')}`,
+        code: 'INVALID_VARIANT_OPTION'
+      })
+    }
+
+    const key = combinationKey(axes, variant.options)
+    if (seenCombinations.has(key)) {
+      errors.push({
+        field: `${field}.options`,
+        message: `Variant ${label} is defined more than once`,
+        code: 'DUPLICATE_VARIANT'
+      })
+    }
+    seenCombinations.add(key)
+
+    if (!variant.sku) {
+      errors.push({
+        field: `${field}.sku`,
+        message: `Variant ${label} needs a SKU`,
+        code: 'VARIANT_SKU_REQUIRED'
+      })
+    } else if (seenSkus.has(variant.sku)) {
+      errors.push({
+        field: `${field}.sku`,
+        message: `SKU ${variant.sku} is used by more than one variant`,
+        code: 'DUPLICATE_SKU'
+      })
+    }
+    seenSkus.add(variant.sku)
+
+    if (!(variant.price > 0)) {
+      errors.push({
+        field: `${field}.price`,
+        message: `Variant ${label} price must be greater than 0`,
+        code: 'INVALID_PRICE'
+      })
+    }
+
+    if (variant.stock < 0) {
+      errors.push({
+        field: `${field}.stock`,
+        message: `Variant ${label} stock cannot be negative`,
+        code: 'INVALID_STOCK'
+      })
+    }
+  })
+
+  return errors
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Stable key of an option combination in option order
+ */
+function combinationKey(options: ProductOption[], values: Record<string, string>): string {
+  return options.map(option => `${option.name}=${values[option.name] ?? ''}`).join('|')
+}
@@ -0,0 +1,103 @@
+/**
+ * Idempotency middleware for write routes
+ *
+ * Wraps a route handler so a request carrying an idempotency key (the
+ * `Idempotency-Key` header, or `idempotencyKey` in the JSON body) runs once
+ * per key and endpoint within 24 hours:
+ * - a retry with the same body gets the stored response again, marked with
+ *   an `Idempotent-Replayed: true` header
+ * - the same key with a different body, or while the first request is still
+ *   running, gets 409
+ *
+ * Server errors (5xx) aren't stored, so the client can retry them.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import crypto from 'crypto'
+import { idempotencyService } from '@/services/idempotency-service'
+
+type RouteHandler = (request: NextRequest) => Promise<NextResponse>
+
+interface IdempotencyOptions {
+  onReplay?: (body: any) => any // Adjusts a stored response body before it is replayed
+}
+
+export function withIdempotency(handler: RouteHandler, options: IdempotencyOptions = {}): RouteHandler {
+  return async (request: NextRequest) => {
+    const rawBody = await request.clone().text()
+    const key = request.headers.get('idempotency-key') || readBodyKey(rawBody)
+
+    if (!key) {
+      return handler(request)
+    }
+
+    const scope = `${request.method} ${new URL(request.url).pathname}`
+    const requestHash = crypto.createHash('sha256').update(rawBody).digest('hex')
+
+    let claim
+    try {
+      claim = await idempotencyService.claim(scope, key, requestHash)
+    } catch (error) {
+      console.error('[Idempotency] Error claiming key:', error)
+      return NextResponse.json({
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }, { status: 500 })
+    }
+
+    if (!claim.claimed) {
+      if (claim.requestHash !== requestHash) {
+        return NextResponse.json({
+          success: false,
+          error: 'Idempotency key conflict',
+          details: 'The idempotency key was already used for a different request'
+        }, { status: 409 })
+      }
+
+      if (claim.status === 'processing') {
+        return NextResponse.json({
+          success: false,
+          error: 'Idempotency key conflict',
+          details: 'A request with this idempotency key is still in progress'
+        }, { status: 409 })
+      }
+
+      console.log(`[Idempotency] Replaying ${scope} response for key ${key}`)
+      return NextResponse.json(
+        options.onReplay ? options.onReplay(claim.responseBody) : claim.responseBody,
+        { status: claim.responseStatus, headers: { 'Idempotent-Replayed': 'true' } }
+      )
+    }
+
+    let response: NextResponse
+    try {
+      response = await handler(request)
+    } catch (error) {
+      await idempotencyService.release(scope, key)
+      throw error
+    }
+
+    if (response.status >= 500) {
+      await idempotencyService.release(scope, key)
+      return response
+    }
+
+    const responseBody = await response.clone().json().catch(() => null)
+    await idempotencyService.complete(scope, key, response.status, responseBody)
+
+    return response
+  }
+}
+
+/**
+ * `idempotencyKey` of a JSON body, if any
+ */
+function readBodyKey(rawBody: string): string | null {
+  try {
+    const body = JSON.parse(rawBody)
+    return typeof body?.idempotencyKey === 'string' && body.idempotencyKey ? body.idempotencyKey : null
+  } catch {
+    return null
+  }
+}
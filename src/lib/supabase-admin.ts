@@ -0,0 +1,44 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+
+/**
+ * Service-role Supabase client for server code only
+ *
+ * Bypasses RLS and can call functions revoked from anon and authenticated
+ * (e.g. get_channel_secret). SUPABASE_SERVICE_ROLE_KEY is not a NEXT_PUBLIC_
+ * variable, so it is never bundled for the browser; the client is created on
+ * first use so modules importing this one still load there.
+ */
+
+let supabaseAdmin: SupabaseClient | null = null
+
+export function getSupabaseAdmin(): SupabaseClient {
+  if (typeof window !== 'undefined') {
+    throw new Error('The service-role Supabase client is only available on the server')
+  }
+
+  if (!supabaseAdmin) {
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || ''
+    const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY || ''
+
+    if (!supabaseUrl || !serviceRoleKey) {
+      throw new Error('NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required for server-side Supabase access')
+    }
+
+    supabaseAdmin = createClient(supabaseUrl, serviceRoleKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+      db: {
+        schema: 'public',
+      },
+      global: {
+        headers: {
+          'x-application-name': 'aiostore',
+        },
+      },
+    })
+  }
+
+  return supabaseAdmin
+}
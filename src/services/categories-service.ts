@@ -0,0 +1,545 @@
+/**
+ * Categories Service
+ *
+ * Keeps marketplace category trees and their attribute schemas in sync per
+ * channel and market and maps internal product categories (`Product.category`)
+ * to leaf marketplace categories. Connectors resolve the mapped category when
+ * creating listings.
+ */
+
+import { supabase } from '@/lib/supabase'
+import { connectorRegistry, resolvePlatform } from '@/connectors/registry'
+import { PlatformType } from '@/types/product'
+import { ChannelAttribute } from '@/connectors/types'
+
+// =============================================================================
+// TYPES AND INTERFACES
+// =============================================================================
+
+export interface ChannelCategoryRecord {
+  channel: PlatformType
+  market: string
+  categoryId: string
+  parentCategoryId?: string
+  name: string
+  displayName?: string
+  hasChildren: boolean
+  syncedAt: Date
+}
+
+export interface CategoryMapping {
+  id: string
+  channel: PlatformType
+  market: string
+  internalCategory: string
+  channelCategoryId: string
+  // Resolved from channel_categories; missing when the category was removed upstream
+  channelCategoryName?: string
+  valid: boolean
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface AttributeSchema {
+  channel: PlatformType
+  market: string
+  categoryId: string
+  attributes: ChannelAttribute[]
+  syncedAt: Date
+}
+
+export interface CategorySyncResult {
+  channel: PlatformType
+  market: string
+  synced: number
+  removed: number
+  syncedAt: Date
+}
+
+/**
+ * Platforms whose listings must reference one of their own leaf categories
+ */
+const CATEGORY_MAPPED_PLATFORMS: PlatformType[] = ['shopee']
+
+// Supabase rejects very large upsert payloads; category trees run to several thousand rows
+const UPSERT_BATCH_SIZE = 500
+
+// =============================================================================
+// CATEGORIES SERVICE CLASS
+// =============================================================================
+
+export class CategoriesService {
+  private readonly categoriesTable = 'channel_categories'
+  private readonly mappingsTable = 'category_mappings'
+  private readonly schemasTable = 'channel_attribute_schemas'
+  private readonly logPrefix = '[CategoriesService]'
+
+  /**
+   * Check whether listings on a channel need a mapped marketplace category
+   */
+  requiresCategoryMapping(channel: string): boolean {
+    const platform = resolvePlatform(channel)
+    return !!platform && CATEGORY_MAPPED_PLATFORMS.includes(platform)
+  }
+
+  // =============================================================================
+  // CATEGORY TREE SYNC
+  // =============================================================================
+
+  /**
+   * Pull the category tree for a channel market and replace the stored copy
+   *
+   * Categories missing from the latest tree are removed; mappings pointing at
+   * them are kept but reported as invalid until they are remapped.
+   */
+  async syncCategories(channel: string, market: string, channelAccountId?: string): Promise<CategorySyncResult> {
+    const platform = this.requirePlatform(channel)
+    const connector = await connectorRegistry.getConnector(channel, channelAccountId)
+
+    if (!connector.listCategories) {
+      throw new Error(`${platform} does not provide a category tree`)
+    }
+
+    const response = await connector.listCategories()
+    if (!response.success || !response.data) {
+      throw new Error(response.error?.message || `Failed to fetch ${platform} categories`)
+    }
+
+    const syncedAt = new Date()
+    const rows = response.data.map(category => ({
+      channel: platform,
+      market,
+      category_id: category.id,
+      parent_category_id: category.parentId || null,
+      name: category.name,
+      display_name: category.displayName || null,
+      has_children: category.hasChildren,
+      synced_at: syncedAt.toISOString()
+    }))
+
+    for (let i = 0; i < rows.length; i += UPSERT_BATCH_SIZE) {
+      const { error } = await supabase
+        .from(this.categoriesTable)
+        .upsert(rows.slice(i, i + UPSERT_BATCH_SIZE), { onConflict: 'channel,market,category_id' })
+
+      if (error) {
+        throw new Error(`Failed to store ${platform} categories: ${error.message}`)
+      }
+    }
+
+    const { data: removedRows, error: removeError } = await supabase
+      .from(this.categoriesTable)
+      .delete()
+      .eq('channel', platform)
+      .eq('market', market)
+      .lt('synced_at', syncedAt.toISOString())
+      .select('category_id')
+
+    if (removeError) {
+      throw new Error(`Failed to remove stale ${platform} categories: ${removeError.message}`)
+    }
+
+    const removed = removedRows?.length || 0
+    console.log(`${this.logPrefix} Synced ${rows.length} ${platform} ${market} categories (${removed} removed)`)
+
+    return {
+      channel: platform,
+      market,
+      synced: rows.length,
+      removed,
+      syncedAt
+    }
+  }
+
+  /**
+   * List stored categories for a channel market
+   */
+  async listCategories(channel: string, market: string, filters: {
+    leafOnly?: boolean
+    search?: string
+    parentCategoryId?: string
+    limit?: number
+  } = {}): Promise<ChannelCategoryRecord[]> {
+    try {
+      const platform = this.requirePlatform(channel)
+
+      let query = supabase
+        .from(this.categoriesTable)
+        .select('*')
+        .eq('channel', platform)
+        .eq('market', market)
+        .order('name', { ascending: true })
+        .limit(filters.limit || 200)
+
+      if (filters.leafOnly) {
+        query = query.eq('has_children', false)
+      }
+
+      if (filters.search) {
+        query = query.or(`name.ilike.%${filters.search}%,display_name.ilike.%${filters.search}%`)
+      }
+
+      if (filters.parentCategoryId) {
+        query = query.eq('parent_category_id', filters.parentCategoryId)
+      }
+
+      const { data, error } = await query
+
+      if (error) {
+        throw new Error(`Supabase error: ${error.message}`)
+      }
+
+      return (data || []).map(row => this.transformCategoryFromDb(row))
+    } catch (error) {
+      console.error(`${this.logPrefix} Error listing categories:`, error)
+      throw error
+    }
+  }
+
+  // =============================================================================
+  // ATTRIBUTE SCHEMAS
+  // =============================================================================
+
+  /**
+   * Pull the attribute schema of a leaf category and store it
+   */
+  async syncAttributeSchema(
+    channel: string,
+    market: string,
+    categoryId: string,
+    channelAccountId?: string
+  ): Promise<AttributeSchema> {
+    const platform = this.requirePlatform(channel)
+    const connector = await connectorRegistry.getConnector(channel, channelAccountId)
+
+    if (!connector.listCategoryAttributes) {
+      throw new Error(`${platform} does not provide category attributes`)
+    }
+
+    const response = await connector.listCategoryAttributes(categoryId)
+    if (!response.success || !response.data) {
+      throw new Error(response.error?.message || `Failed to fetch ${platform} attributes for category ${categoryId}`)
+    }
+
+    const syncedAt = new Date()
+    const { error } = await supabase
+      .from(this.schemasTable)
+      .upsert({
+        channel: platform,
+        market,
+        category_id: categoryId,
+        attributes: response.data,
+        synced_at: syncedAt.toISOString()
+      }, { onConflict: 'channel,market,category_id' })
+
+    if (error) {
+      throw new Error(`Failed to store ${platform} attribute schema: ${error.message}`)
+    }
+
+    console.log(`${this.logPrefix} Synced ${response.data.length} ${platform} ${market} attributes for category ${categoryId}`)
+
+    return {
+      channel: platform,
+      market,
+      categoryId,
+      attributes: response.data,
+      syncedAt
+    }
+  }
+
+  /**
+   * Get the stored attribute schema of a leaf category
+   */
+  async getAttributeSchema(channel: string, market: string, categoryId: string): Promise<AttributeSchema | null> {
+    const platform = this.requirePlatform(channel)
+
+    const { data, error } = await supabase
+      .from(this.schemasTable)
+      .select('*')
+      .eq('channel', platform)
+      .eq('market', market)
+      .eq('category_id', categoryId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load ${platform} attribute schema: ${error.message}`)
+    }
+
+    return data ? this.transformSchemaFromDb(data) : null
+  }
+
+  /**
+   * Get the attribute schema for an internal category through its mapping
+   *
+   * Returns null when the category is not mapped or its schema has not been
+   * synced yet.
+   */
+  async getAttributeSchemaForCategory(
+    channel: string,
+    market: string,
+    internalCategory: string
+  ): Promise<AttributeSchema | null> {
+    const categoryId = await this.resolveCategoryId(channel, market, internalCategory)
+    return categoryId ? this.getAttributeSchema(channel, market, categoryId) : null
+  }
+
+  /**
+   * Leaf categories that have a mapping in a market; these are the ones whose
+   * attribute schemas need to be kept in sync
+   */
+  async getMappedCategoryIds(channel: string, market: string): Promise<string[]> {
+    const platform = this.requirePlatform(channel)
+
+    const { data, error } = await supabase
+      .from(this.mappingsTable)
+      .select('channel_category_id')
+      .eq('channel', platform)
+      .eq('market', market)
+
+    if (error) {
+      throw new Error(`Failed to load ${platform} category mappings: ${error.message}`)
+    }
+
+    return Array.from(new Set((data || []).map(row => row.channel_category_id as string)))
+  }
+
+  // =============================================================================
+  // CATEGORY MAPPINGS
+  // =============================================================================
+
+  /**
+   * Get category mappings for a channel, optionally limited to one market
+   */
+  async getMappings(channel: string, market?: string): Promise<CategoryMapping[]> {
+    try {
+      const platform = this.requirePlatform(channel)
+
+      let query = supabase
+        .from(this.mappingsTable)
+        .select('*')
+        .eq('channel', platform)
+        .order('internal_category', { ascending: true })
+
+      if (market) {
+        query = query.eq('market', market)
+      }
+
+      const { data: mappings, error } = await query
+
+      if (error) {
+        throw new Error(`Supabase error: ${error.message}`)
+      }
+
+      if (!mappings || mappings.length === 0) {
+        return []
+      }
+
+      const { data: categories, error: categoriesError } = await supabase
+        .from(this.categoriesTable)
+        .select('market, category_id, name, display_name, has_children')
+        .eq('channel', platform)
+        .in('category_id', Array.from(new Set(mappings.map(mapping => mapping.channel_category_id))))
+
+      if (categoriesError) {
+        throw new Error(`Supabase error: ${categoriesError.message}`)
+      }
+
+      return mappings.map(mapping => {
+        const category = (categories || []).find(row =>
+          row.market === mapping.market && row.category_id === mapping.channel_category_id
+        )
+
+        return {
+          id: mapping.id,
+          channel: platform,
+          market: mapping.market,
+          internalCategory: mapping.internal_category,
+          channelCategoryId: mapping.channel_category_id,
+          channelCategoryName: category ? category.display_name || category.name : undefined,
+          valid: !!category && !category.has_children,
+          createdAt: new Date(mapping.created_at),
+          updatedAt: new Date(mapping.updated_at)
+        }
+      })
+    } catch (error) {
+      console.error(`${this.logPrefix} Error getting category mappings:`, error)
+      throw error
+    }
+  }
+
+  /**
+   * Map an internal category to a leaf marketplace category
+   *
+   * Throws when the category is unknown for the market or is not a leaf.
+   */
+  async upsertMapping(mapping: {
+    channel: string
+    market: string
+    internalCategory: string
+    channelCategoryId: string
+  }): Promise<CategoryMapping> {
+    try {
+      const platform = this.requirePlatform(mapping.channel)
+
+      const { data: category, error: categoryError } = await supabase
+        .from(this.categoriesTable)
+        .select('name, display_name, has_children')
+        .eq('channel', platform)
+        .eq('market', mapping.market)
+        .eq('category_id', mapping.channelCategoryId)
+        .maybeSingle()
+
+      if (categoryError) {
+        throw new Error(`Supabase error: ${categoryError.message}`)
+      }
+
+      if (!category) {
+        throw new Error(`Category ${mapping.channelCategoryId} not found for ${platform} ${mapping.market}; sync categories first`)
+      }
+
+      if (category.has_children) {
+        throw new Error(`Category ${mapping.channelCategoryId} is not a leaf category`)
+      }
+
+      const { data, error } = await supabase
+        .from(this.mappingsTable)
+        .upsert({
+          channel: platform,
+          market: mapping.market,
+          internal_category: mapping.internalCategory,
+          channel_category_id: mapping.channelCategoryId,
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'channel,market,internal_category' })
+        .select()
+        .single()
+
+      if (error) {
+        throw new Error(`Supabase error: ${error.message}`)
+      }
+
+      console.log(`${this.logPrefix} Mapped '${mapping.internalCategory}' to ${platform} ${mapping.market} category ${mapping.channelCategoryId}`)
+
+      return {
+        id: data.id,
+        channel: platform,
+        market: data.market,
+        internalCategory: data.internal_category,
+        channelCategoryId: data.channel_category_id,
+        channelCategoryName: category.display_name || category.name,
+        valid: true,
+        createdAt: new Date(data.created_at),
+        updatedAt: new Date(data.updated_at)
+      }
+    } catch (error) {
+      console.error(`${this.logPrefix} Error saving category mapping:`, error)
+      throw error
+    }
+  }
+
+  /**
+   * Delete a category mapping
+   */
+  async deleteMapping(id: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase
+        .from(this.mappingsTable)
+        .delete()
+        .eq('id', id)
+
+      if (error) {
+        throw new Error(`Supabase error: ${error.message}`)
+      }
+
+      return { success: true }
+    } catch (error) {
+      console.error(`${this.logPrefix} Error deleting category mapping:`, error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Delete failed'
+      }
+    }
+  }
+
+  /**
+   * Resolve the leaf marketplace category for an internal category
+   *
+   * Returns null when no mapping exists or the mapped category is no longer
+   * a leaf in the synced tree.
+   */
+  async resolveCategoryId(channel: string, market: string, internalCategory: string): Promise<string | null> {
+    const platform = this.requirePlatform(channel)
+
+    const { data: mapping, error } = await supabase
+      .from(this.mappingsTable)
+      .select('channel_category_id')
+      .eq('channel', platform)
+      .eq('market', market)
+      .eq('internal_category', internalCategory)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to resolve ${platform} category: ${error.message}`)
+    }
+
+    if (!mapping) {
+      return null
+    }
+
+    const { data: category, error: categoryError } = await supabase
+      .from(this.categoriesTable)
+      .select('has_children')
+      .eq('channel', platform)
+      .eq('market', market)
+      .eq('category_id', mapping.channel_category_id)
+      .maybeSingle()
+
+    if (categoryError) {
+      throw new Error(`Failed to resolve ${platform} category: ${categoryError.message}`)
+    }
+
+    return category && !category.has_children ? mapping.channel_category_id : null
+  }
+
+  // =============================================================================
+  // PRIVATE HELPER METHODS
+  // =============================================================================
+
+  private requirePlatform(channel: string): PlatformType {
+    const platform = resolvePlatform(channel)
+    if (!platform) {
+      throw new Error(`Channel '${channel}' is not supported`)
+    }
+    return platform
+  }
+
+  private transformSchemaFromDb(row: any): AttributeSchema {
+    return {
+      channel: row.channel,
+      market: row.market,
+      categoryId: row.category_id,
+      attributes: row.attributes || [],
+      syncedAt: new Date(row.synced_at)
+    }
+  }
+
+  private transformCategoryFromDb(row: any): ChannelCategoryRecord {
+    return {
+      channel: row.channel,
+      market: row.market,
+      categoryId: row.category_id,
+      parentCategoryId: row.parent_category_id || undefined,
+      name: row.name,
+      displayName: row.display_name || undefined,
+      hasChildren: row.has_children,
+      syncedAt: new Date(row.synced_at)
+    }
+  }
+}
+
+// =============================================================================
+// EXPORTS
+// =============================================================================
+
+export const categoriesService = new CategoriesService()
+
+export default categoriesService
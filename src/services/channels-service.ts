@@ -29,6 +29,7 @@ export interface Channel {
 export interface ChannelAccount {
   id: string
   channelId: string
+  branchId?: string // Multi-tenant branch owning the account
   channel: PlatformType
   country: string
   market: string
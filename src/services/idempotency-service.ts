@@ -0,0 +1,103 @@
+/**
+ * Idempotency Service
+ *
+ * Persists the outcome of write requests sent with an idempotency key for
+ * 24 hours (`idempotency_keys`). A key is claimed atomically before the
+ * request runs (`claim_idempotency_key`), its response stored once it
+ * finishes, and released when it fails with a server error so the client
+ * can retry. Routes use it through `withIdempotency` in `@/lib/idempotency`.
+ */
+
+import { supabase } from '@/lib/supabase'
+
+// =============================================================================
+// TYPES AND INTERFACES
+// =============================================================================
+
+export type IdempotencyClaim =
+  | { claimed: true }
+  | { claimed: false; requestHash: string; status: 'processing' }
+  | { claimed: false; requestHash: string; status: 'completed'; responseStatus: number; responseBody: any }
+
+// =============================================================================
+// IDEMPOTENCY SERVICE CLASS
+// =============================================================================
+
+export class IdempotencyService {
+  private readonly table = 'idempotency_keys'
+  private readonly logPrefix = '[Idempotency]'
+
+  /**
+   * Claim a key for a request, or get the entry of the request that already
+   * claimed it
+   */
+  async claim(scope: string, key: string, requestHash: string): Promise<IdempotencyClaim> {
+    const { data, error } = await supabase.rpc('claim_idempotency_key', {
+      p_scope: scope,
+      p_key: key,
+      p_request_hash: requestHash
+    })
+
+    if (error) {
+      throw new Error(`Failed to claim idempotency key: ${error.message}`)
+    }
+
+    const row = Array.isArray(data) ? data[0] : data
+    if (!row || row.claimed) {
+      return { claimed: true }
+    }
+
+    return row.status === 'completed'
+      ? {
+          claimed: false,
+          requestHash: row.request_hash,
+          status: 'completed',
+          responseStatus: row.response_status,
+          responseBody: row.response_body
+        }
+      : { claimed: false, requestHash: row.request_hash, status: 'processing' }
+  }
+
+  /**
+   * Store the response of a claimed key for replay
+   */
+  async complete(scope: string, key: string, responseStatus: number, responseBody: any): Promise<void> {
+    const { error } = await supabase
+      .from(this.table)
+      .update({
+        status: 'completed',
+        response_status: responseStatus,
+        response_body: responseBody
+      })
+      .eq('scope', scope)
+      .eq('key', key)
+
+    if (error) {
+      console.error(`${this.logPrefix} Failed to store response for ${scope} key ${key}:`, error)
+    }
+  }
+
+  /**
+   * Release a claimed key, so a retry runs the request again
+   */
+  async release(scope: string, key: string): Promise<void> {
+    const { error } = await supabase
+      .from(this.table)
+      .delete()
+      .eq('scope', scope)
+      .eq('key', key)
+      .eq('status', 'processing')
+
+    if (error) {
+      console.error(`${this.logPrefix} Failed to release ${scope} key ${key}:`, error)
+    }
+  }
+}
+
+// =============================================================================
+// EXPORTS
+// =============================================================================
+
+export const idempotencyService = new IdempotencyService()
+
+export default IdempotencyService
@@ -0,0 +1,408 @@
+/**
+ * Images Service
+ *
+ * Prepares product images for marketplaces: loads local and remote images,
+ * inspects their format, dimensions and size, converts or resizes them to
+ * each channel's `imageRequirements` and uploads them through the
+ * connector's media API. Uploaded platform image IDs are cached per product,
+ * channel and account, so re-publishing only uploads images that changed.
+ */
+
+import { supabase } from '@/lib/supabase'
+import { resolvePlatform } from '@/connectors/registry'
+import { Connector, ProductPushData, ProductValidationRules } from '@/connectors/types'
+import { PlatformType } from '@/types/product'
+import { SHOPEE_VALIDATION_RULES } from '@/connectors/shopee/products'
+import { TIKTOKSHOP_VALIDATION_RULES } from '@/connectors/tiktokshop/products'
+import { LAZADA_VALIDATION_RULES } from '@/connectors/lazada/products'
+import { TOKOPEDIA_VALIDATION_RULES } from '@/connectors/tokopedia/products'
+import sharp from 'sharp'
+import crypto from 'crypto'
+import path from 'path'
+import { promises as fs } from 'fs'
+import { fileURLToPath } from 'url'
+
+// =============================================================================
+// TYPES AND INTERFACES
+// =============================================================================
+
+export type ImageRequirements = ProductValidationRules['imageRequirements']
+
+export interface ImageInspection {
+  source: string
+  format: string // sharp format name: 'jpeg', 'png', 'webp', ...
+  width: number
+  height: number
+  bytes: number
+}
+
+export interface ImageIssue {
+  source: string
+  code: 'IMAGE_UNREADABLE' | 'IMAGE_TOO_SMALL' | 'IMAGE_FORMAT_NOT_ALLOWED' | 'IMAGE_DIMENSIONS_TOO_LARGE' | 'IMAGE_FILE_TOO_LARGE'
+  message: string
+  // Fixable issues are resolved by converting or resizing before upload
+  fixable: boolean
+}
+
+interface PreparedImage {
+  data: Buffer
+  format: 'jpeg' | 'png' | 'webp'
+}
+
+const IMAGE_REQUIREMENTS: Record<PlatformType, ImageRequirements> = {
+  shopee: SHOPEE_VALIDATION_RULES.imageRequirements,
+  tiktok: TIKTOKSHOP_VALIDATION_RULES.imageRequirements,
+  lazada: LAZADA_VALIDATION_RULES.imageRequirements,
+  tokopedia: TOKOPEDIA_VALIDATION_RULES.imageRequirements
+}
+
+const MIME_TYPES: Record<PreparedImage['format'], string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp'
+}
+
+// Re-encoding steps tried, in order, until an image fits the channel's size limit
+const JPEG_QUALITY_STEPS = [90, 80, 70, 60, 50]
+
+const DOWNLOAD_TIMEOUT_MS = 30000
+
+// =============================================================================
+// IMAGES SERVICE CLASS
+// =============================================================================
+
+export class ImagesService {
+  private readonly uploadsTable = 'product_image_uploads'
+  private readonly publicDir = path.join(process.cwd(), 'public')
+  private readonly logPrefix = '[ImagesService]'
+
+  /**
+   * Image requirements of a channel
+   */
+  getRequirements(channel: string): ImageRequirements {
+    const platform = resolvePlatform(channel)
+    if (!platform) {
+      throw new Error(`Channel '${channel}' is not supported`)
+    }
+    return IMAGE_REQUIREMENTS[platform]
+  }
+
+  // =============================================================================
+  // LOADING AND INSPECTION
+  // =============================================================================
+
+  /**
+   * Read an image from a URL, a `file://` URL or a path under `public/`
+   */
+  async loadImage(source: string): Promise<Buffer> {
+    if (/^https?:\/\//i.test(source)) {
+      const response = await fetch(source, { signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS) })
+      if (!response.ok) {
+        throw new Error(`Failed to download image ${source}: HTTP ${response.status}`)
+      }
+      return Buffer.from(await response.arrayBuffer())
+    }
+
+    if (source.startsWith('file://')) {
+      return fs.readFile(fileURLToPath(source))
+    }
+
+    if (source.startsWith('/')) {
+      // Site-relative paths are served from public/
+      const filePath = path.resolve(this.publicDir, `.${decodeURIComponent(source.split('?')[0])}`)
+      if (!filePath.startsWith(this.publicDir + path.sep)) {
+        throw new Error(`Image path ${source} is outside the public directory`)
+      }
+      return fs.readFile(filePath)
+    }
+
+    throw new Error(`Unsupported image source ${source}`)
+  }
+
+  /**
+   * Read format, dimensions and byte size of an image
+   */
+  async inspectImage(source: string, data: Buffer): Promise<ImageInspection> {
+    const metadata = await sharp(data).metadata()
+    if (!metadata.format || !metadata.width || !metadata.height) {
+      throw new Error(`${source} is not a readable image`)
+    }
+
+    // EXIF orientations 5-8 swap width and height once the image is rotated
+    const rotated = (metadata.orientation || 1) >= 5
+
+    return {
+      source,
+      format: metadata.format,
+      width: rotated ? metadata.height : metadata.width,
+      height: rotated ? metadata.width : metadata.height,
+      bytes: data.length
+    }
+  }
+
+  /**
+   * Check an inspected image against a channel's requirements
+   */
+  checkImage(inspection: ImageInspection, requirements: ImageRequirements): ImageIssue[] {
+    const issues: ImageIssue[] = []
+    const { source, format, width, height, bytes } = inspection
+
+    if (Math.min(width, height) < requirements.minDimension) {
+      issues.push({
+        source,
+        code: 'IMAGE_TOO_SMALL',
+        message: `${source} is ${width}x${height}px; at least ${requirements.minDimension}px per side is required`,
+        fixable: false
+      })
+    }
+
+    if (!this.isAllowedFormat(format, requirements)) {
+      issues.push({
+        source,
+        code: 'IMAGE_FORMAT_NOT_ALLOWED',
+        message: `${source} is ${format}; it will be converted to JPEG`,
+        fixable: true
+      })
+    }
+
+    if (Math.max(width, height) > requirements.maxDimension) {
+      issues.push({
+        source,
+        code: 'IMAGE_DIMENSIONS_TOO_LARGE',
+        message: `${source} is ${width}x${height}px; it will be resized to ${requirements.maxDimension}px`,
+        fixable: true
+      })
+    }
+
+    if (bytes > requirements.maxSizeInMB * 1024 * 1024) {
+      issues.push({
+        source,
+        code: 'IMAGE_FILE_TOO_LARGE',
+        message: `${source} is ${(bytes / 1024 / 1024).toFixed(1)}MB; it will be compressed to ${requirements.maxSizeInMB}MB`,
+        fixable: true
+      })
+    }
+
+    return issues
+  }
+
+  /**
+   * Inspect product and variant images against a channel's requirements
+   *
+   * Used by catalog preview; unreadable images are reported, not thrown.
+   */
+  async inspectProductImages(channel: string, images: string[]): Promise<ImageIssue[]> {
+    const requirements = this.getRequirements(channel)
+    const issues: ImageIssue[] = []
+
+    for (const source of Array.from(new Set(images))) {
+      try {
+        const data = await this.loadImage(source)
+        issues.push(...this.checkImage(await this.inspectImage(source, data), requirements))
+      } catch (error) {
+        issues.push({
+          source,
+          code: 'IMAGE_UNREADABLE',
+          message: error instanceof Error ? error.message : `${source} could not be read`,
+          fixable: false
+        })
+      }
+    }
+
+    return issues
+  }
+
+  // =============================================================================
+  // CONVERSION
+  // =============================================================================
+
+  /**
+   * Convert and resize an image to fit a channel's requirements
+   *
+   * Images that already fit are returned unchanged. Disallowed formats are
+   * converted to JPEG; images still over the size limit are re-encoded as
+   * JPEG at decreasing quality.
+   */
+  async prepareImage(
+    data: Buffer,
+    inspection: ImageInspection,
+    requirements: ImageRequirements
+  ): Promise<PreparedImage> {
+    const issues = this.checkImage(inspection, requirements)
+
+    const blocking = issues.find(issue => !issue.fixable)
+    if (blocking) {
+      throw new Error(blocking.message)
+    }
+
+    const maxBytes = requirements.maxSizeInMB * 1024 * 1024
+    const sourceFormat = inspection.format as PreparedImage['format']
+
+    if (issues.length === 0 && sourceFormat in MIME_TYPES) {
+      return { data, format: sourceFormat }
+    }
+
+    const resize = (image: sharp.Sharp) => image
+      .rotate()
+      .resize({
+        width: requirements.maxDimension,
+        height: requirements.maxDimension,
+        fit: 'inside',
+        withoutEnlargement: true
+      })
+
+    if (this.isAllowedFormat(inspection.format, requirements) && sourceFormat in MIME_TYPES) {
+      const resized = await resize(sharp(data)).toFormat(sourceFormat).toBuffer()
+      if (resized.length <= maxBytes) {
+        return { data: resized, format: sourceFormat }
+      }
+    }
+
+    // JPEG has no alpha channel; transparent areas become white
+    for (const quality of JPEG_QUALITY_STEPS) {
+      const converted = await resize(sharp(data))
+        .flatten({ background: '#ffffff' })
+        .jpeg({ quality, mozjpeg: true })
+        .toBuffer()
+
+      if (converted.length <= maxBytes) {
+        return { data: converted, format: 'jpeg' }
+      }
+    }
+
+    throw new Error(`${inspection.source} cannot be compressed below ${requirements.maxSizeInMB}MB`)
+  }
+
+  // =============================================================================
+  // UPLOADS
+  // =============================================================================
+
+  /**
+   * Upload a product's images to a channel's media space
+   *
+   * Returns source URL -> platform image reference, to be passed to the
+   * connector as `ProductPushData.platformImages`. Images whose content is
+   * unchanged since their last upload reuse the cached reference. Channels
+   * without a media API take image URLs as they are and get an empty map.
+   */
+  async uploadProductImages(
+    connector: Connector,
+    channel: string,
+    productId: string,
+    productData: Pick<ProductPushData, 'images' | 'variants'>,
+    channelAccountId?: string
+  ): Promise<Record<string, string>> {
+    if (!connector.uploadImage) {
+      return {}
+    }
+
+    const platform = resolvePlatform(channel)!
+    const requirements = this.getRequirements(channel)
+    const variantImages = new Set(
+      (productData.variants || []).map(variant => variant.image).filter((image): image is string => Boolean(image))
+    )
+    const sources = Array.from(new Set([...productData.images, ...Array.from(variantImages)]))
+
+    const cached = await this.getCachedUploads(productId, platform, channelAccountId)
+    const platformImages: Record<string, string> = {}
+
+    for (const source of sources) {
+      const data = await this.loadImage(source)
+      const contentHash = crypto.createHash('sha256').update(data).digest('hex')
+
+      const previous = cached.get(source)
+      if (previous && previous.contentHash === contentHash) {
+        platformImages[source] = previous.platformImageId
+        continue
+      }
+
+      const inspection = await this.inspectImage(source, data)
+      const prepared = await this.prepareImage(data, inspection, requirements)
+
+      const response = await connector.uploadImage({
+        data: prepared.data,
+        filename: this.getFilename(source, prepared.format),
+        mimeType: MIME_TYPES[prepared.format],
+        // Images shared between the product and a variant are uploaded once, as product images
+        usage: productData.images.includes(source) ? 'product' : 'variant'
+      })
+
+      if (!response.success || !response.data) {
+        throw new Error(`Failed to upload image ${source}: ${response.error?.message || 'Unknown error'}`)
+      }
+
+      platformImages[source] = response.data.id
+
+      const { error } = await supabase
+        .from(this.uploadsTable)
+        .upsert({
+          product_id: productId,
+          channel: platform,
+          channel_account_id: channelAccountId || null,
+          source_url: source,
+          content_hash: contentHash,
+          platform_image_id: response.data.id,
+          platform_image_url: response.data.url || null,
+          uploaded_at: new Date().toISOString()
+        }, { onConflict: 'product_id,channel,channel_account_id,source_url' })
+
+      // The upload itself succeeded; a cache miss only costs a re-upload next time
+      if (error) {
+        console.warn(`${this.logPrefix} Failed to cache upload of ${source}:`, error)
+      }
+    }
+
+    return platformImages
+  }
+
+  // =============================================================================
+  // PRIVATE HELPER METHODS
+  // =============================================================================
+
+  private async getCachedUploads(
+    productId: string,
+    platform: PlatformType,
+    channelAccountId?: string
+  ): Promise<Map<string, { contentHash: string; platformImageId: string }>> {
+    let query = supabase
+      .from(this.uploadsTable)
+      .select('source_url, content_hash, platform_image_id')
+      .eq('product_id', productId)
+      .eq('channel', platform)
+
+    query = channelAccountId
+      ? query.eq('channel_account_id', channelAccountId)
+      : query.is('channel_account_id', null)
+
+    const { data, error } = await query
+
+    if (error) {
+      console.warn(`${this.logPrefix} Failed to load cached uploads for product ${productId}:`, error)
+      return new Map()
+    }
+
+    return new Map((data || []).map(row => [row.source_url, {
+      contentHash: row.content_hash,
+      platformImageId: row.platform_image_id
+    }]))
+  }
+
+  private isAllowedFormat(format: string, requirements: ImageRequirements): boolean {
+    const names = format === 'jpeg' ? ['jpeg', 'jpg'] : [format]
+    return names.some(name => requirements.allowedFormats.includes(name))
+  }
+
+  private getFilename(source: string, format: PreparedImage['format']): string {
+    const basename = source.split('?')[0].split('/').pop() || 'image'
+    const stem = basename.replace(/\.[^.]*$/, '') || 'image'
+    return `${stem}.${format === 'jpeg' ? 'jpg' : format}`
+  }
+}
+
+// =============================================================================
+// EXPORTS
+// =============================================================================
+
+export const imagesService = new ImagesService()
+
+export default imagesService
@@ -0,0 +1,233 @@
+/**
+ * Inventory Movements Service
+ *
+ * The append-only ledger of stock changes (`inventory_movements`). Product
+ * and variant stock are derived from it: recording a movement updates them,
+ * and the database rejects stock written any other way. Changes with a
+ * known delta (a sale, a restock) are recorded as such; absolute stock from
+ * an edit form or a platform is recorded as the difference to the current
+ * stock.
+ *
+ * Movements happen in a warehouse, or to stock not yet assigned to one. A
+ * transfer between warehouses is a pair of movements that leaves the
+ * totals unchanged.
+ */
+
+import { supabase } from '@/lib/supabase'
+import { dataTransformers } from '@/lib/data-sources'
+import type { StockUpdate } from '@/connectors/types'
+
+// =============================================================================
+// TYPES AND INTERFACES
+// =============================================================================
+
+export type MovementReason = NonNullable<StockUpdate['reason']> | 'transfer'
+
+export type MovementSource = 'user' | 'webhook' | 'sync'
+
+// Reasons of single movements; transfers are recorded with `transferStock`
+export const MOVEMENT_REASONS: MovementReason[] = ['restock', 'sale', 'adjustment', 'damage', 'return']
+
+export const MOVEMENT_SOURCES: MovementSource[] = ['user', 'webhook', 'sync']
+
+export interface InventoryMovement {
+  id: string
+  productId: string
+  variantId?: string
+  warehouseId?: string // Unset: stock in no warehouse
+  warehouse?: { code: string; name: string }
+  transferId?: string // Shared by the two movements of a transfer
+  delta: number
+  balance: number // Stock of the variant (or product) after the movement
+  reason: MovementReason
+  source: MovementSource
+  jobId?: string
+  actor?: string // User, or the channel of a webhook
+  reference?: string // Order or other document the movement belongs to
+  note?: string
+  createdAt: Date
+}
+
+/**
+ * Who made a change and why
+ */
+export interface MovementContext {
+  reason: MovementReason
+  source: MovementSource
+  jobId?: string
+  actor?: string // Defaults to the signed-in user for user changes
+  reference?: string
+  note?: string
+  warehouseId?: string // Warehouse the stock is in; unset: stock in no warehouse
+}
+
+/**
+ * Units moved between two warehouses (unset: stock in no warehouse)
+ */
+export interface StockTransfer {
+  productId: string
+  variantId?: string
+  fromWarehouseId?: string
+  toWarehouseId?: string
+  quantity: number
+  reference?: string
+  note?: string
+}
+
+export interface MovementFilters {
+  variantId?: string
+  page?: number
+  pageSize?: number
+}
+
+// =============================================================================
+// INVENTORY MOVEMENTS SERVICE CLASS
+// =============================================================================
+
+export class InventoryMovementsService {
+  private readonly logPrefix = '[InventoryMovements]'
+
+  /**
+   * Record a change of a product's (or variant's) stock by `delta`
+   */
+  async recordMovement(
+    productId: string,
+    variantId: string | undefined,
+    delta: number,
+    context: MovementContext
+  ): Promise<InventoryMovement> {
+    const { data, error } = await supabase.rpc('record_inventory_movement', {
+      p_product_id: productId,
+      p_variant_id: variantId || null,
+      p_delta: delta,
+      ...await this.contextParams(context)
+    })
+
+    if (error) {
+      throw new Error(`Failed to record inventory movement: ${error.message}`)
+    }
+
+    const movement = dataTransformers.snakeToCamel(data[0]) as InventoryMovement
+    console.log(`${this.logPrefix} ${context.reason} ${delta > 0 ? '+' : ''}${delta} on ${variantId ? `variant ${variantId}` : `product ${productId}`} (${context.source})`)
+
+    return movement
+  }
+
+  /**
+   * Bring a product's (or variant's) stock to `stock`, recording the
+   * difference. With a warehouse, its stock there; without, the total:
+   * units taken come out of unassigned stock first, then the warehouses.
+   * Returns the last movement, or null when the stock already is `stock`.
+   */
+  async setStock(
+    productId: string,
+    variantId: string | undefined,
+    stock: number,
+    context: MovementContext
+  ): Promise<InventoryMovement | null> {
+    const { data, error } = await supabase.rpc('set_inventory_stock', {
+      p_product_id: productId,
+      p_variant_id: variantId || null,
+      p_stock: stock,
+      ...await this.contextParams(context)
+    })
+
+    if (error) {
+      throw new Error(`Failed to set stock: ${error.message}`)
+    }
+
+    if (!data?.length) {
+      return null
+    }
+
+    const movement = dataTransformers.snakeToCamel(data[data.length - 1]) as InventoryMovement
+    const delta = data.reduce((sum: number, row: any) => sum + row.delta, 0)
+    console.log(`${this.logPrefix} ${context.reason} ${delta > 0 ? '+' : ''}${delta} on ${variantId ? `variant ${variantId}` : `product ${productId}`} to ${stock} (${context.source})`)
+
+    return movement
+  }
+
+  /**
+   * Move units of a product (or variant) between warehouses, as an out and
+   * an in movement
+   */
+  async transferStock(transfer: StockTransfer): Promise<InventoryMovement[]> {
+    const { data, error } = await supabase.rpc('transfer_inventory', {
+      p_product_id: transfer.productId,
+      p_variant_id: transfer.variantId || null,
+      p_from_warehouse_id: transfer.fromWarehouseId || null,
+      p_to_warehouse_id: transfer.toWarehouseId || null,
+      p_quantity: transfer.quantity,
+      p_actor: await this.currentUser(),
+      p_reference: transfer.reference || null,
+      p_note: transfer.note || null
+    })
+
+    if (error) {
+      throw new Error(`Failed to transfer stock: ${error.message}`)
+    }
+
+    console.log(`${this.logPrefix} Transferred ${transfer.quantity} of ${transfer.variantId ? `variant ${transfer.variantId}` : `product ${transfer.productId}`} from ${transfer.fromWarehouseId || 'unassigned'} to ${transfer.toWarehouseId || 'unassigned'}`)
+
+    return dataTransformers.snakeToCamel(data || []) as InventoryMovement[]
+  }
+
+  /**
+   * Movements of a product, newest first
+   */
+  async listMovements(productId: string, filters: MovementFilters = {}): Promise<{ movements: InventoryMovement[]; total: number }> {
+    const page = filters.page || 1
+    const pageSize = filters.pageSize || 50
+
+    let query = supabase
+      .from('inventory_movements')
+      .select('*, warehouse:warehouses(code, name)', { count: 'exact' })
+      .eq('product_id', productId)
+      .order('created_at', { ascending: false })
+      .range((page - 1) * pageSize, page * pageSize - 1)
+
+    if (filters.variantId) {
+      query = query.eq('variant_id', filters.variantId)
+    }
+
+    const { data, error, count } = await query
+
+    if (error) {
+      throw new Error(`Failed to list inventory movements: ${error.message}`)
+    }
+
+    return {
+      movements: dataTransformers.snakeToCamel(data || []) as InventoryMovement[],
+      total: count || 0
+    }
+  }
+
+  // =============================================================================
+  // PRIVATE HELPER METHODS
+  // =============================================================================
+
+  private async contextParams(context: MovementContext) {
+    return {
+      p_reason: context.reason,
+      p_source: context.source,
+      p_job_id: context.jobId || null,
+      p_actor: context.actor || (context.source === 'user' ? await this.currentUser() : null),
+      p_reference: context.reference || null,
+      p_note: context.note || null,
+      p_warehouse_id: context.warehouseId || null
+    }
+  }
+
+  private async currentUser(): Promise<string | null> {
+    const { data } = await supabase.auth.getUser()
+    return data.user?.email || data.user?.id || null
+  }
+}
+
+// =============================================================================
+// EXPORTS
+// =============================================================================
+
+export const inventoryMovementsService = new InventoryMovementsService()
+
+export default InventoryMovementsService
@@ -0,0 +1,608 @@
+/**
+ * Inventory Service
+ *
+ * Central inventory: product and variant stock is the master every listing
+ * sells from. Platform orders reserve stock when they arrive, take it off
+ * hand when they ship and give it back when they are cancelled
+ * (`inventory_reservations`). After each change the stock left available
+ * is allocated to the listings of the other channel accounts, per the
+ * account's allocation rule, and pushed to the platforms, so a unit sold on
+ * one channel stops selling on the others. Accounts mapped to warehouses
+ * list no more than those warehouses can ship.
+ */
+
+import { supabase } from '@/lib/supabase'
+import { dataTransformers } from '@/lib/data-sources'
+import { resolvePlatform } from '@/connectors/registry'
+import { findChannelAccountId } from '@/connectors/credentials'
+import { syncJobsService, PushItem } from '@/services/sync-jobs-service'
+import { warehousesService } from '@/services/warehouses-service'
+
+// =============================================================================
+// TYPES AND INTERFACES
+// =============================================================================
+
+// percentage: share of available stock listed; buffer: units held back
+export type AllocationMode = 'percentage' | 'buffer'
+
+export const ALLOCATION_MODES: AllocationMode[] = ['percentage', 'buffer']
+
+export interface AllocationRule {
+  mode: AllocationMode
+  value: number
+}
+
+export interface InventoryAllocation extends AllocationRule {
+  id: string
+  channelAccountId: string
+  productId?: string // Unset: every product of the account
+  createdAt: Date
+  updatedAt: Date
+}
+
+/**
+ * A platform order, as its webhook names it
+ */
+export interface OrderRef {
+  channel: string
+  shopId?: string
+  orderId: string
+}
+
+/**
+ * A line of a platform order
+ */
+export interface OrderLine {
+  platformProductId: string
+  platformVariantId?: string
+  sku?: string
+  quantity: number
+}
+
+export interface InventoryLevel {
+  productId: string
+  variantId?: string // Unset: the product total
+  onHand: number
+  reserved: number
+  available: number // On hand and not reserved; negative when oversold
+}
+
+interface ResolvedLine {
+  productId: string
+  variantId?: string
+}
+
+// =============================================================================
+// ALLOCATION
+// =============================================================================
+
+/**
+ * Stock a channel account lists out of the available stock
+ */
+export function allocateStock(available: number, rule?: AllocationRule): number {
+  const stock = Math.max(available, 0)
+
+  if (!rule) {
+    return stock
+  }
+
+  return rule.mode === 'percentage'
+    ? Math.floor(stock * rule.value / 100)
+    : Math.max(stock - rule.value, 0)
+}
+
+// =============================================================================
+// INVENTORY SERVICE CLASS
+// =============================================================================
+
+export class InventoryService {
+  private readonly logPrefix = '[Inventory]'
+
+  // =============================================================================
+  // ALLOCATION RULES
+  // =============================================================================
+
+  /**
+   * Allocation rules, of one account or all of them
+   */
+  async getAllocations(channelAccountId?: string): Promise<InventoryAllocation[]> {
+    let query = supabase
+      .from('inventory_allocations')
+      .select('*')
+      .order('created_at', { ascending: true })
+
+    if (channelAccountId) {
+      query = query.eq('channel_account_id', channelAccountId)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      throw new Error(`Failed to load inventory allocations: ${error.message}`)
+    }
+
+    return dataTransformers.snakeToCamel(data || []) as InventoryAllocation[]
+  }
+
+  /**
+   * Set the rule of an account (for one product, or its default without
+   * one); `null` lists all available stock again. Listings follow at each
+   * product's next stock change, or when `syncChannelStock` runs for it.
+   */
+  async setAllocation(channelAccountId: string, productId: string | undefined, rule: AllocationRule | null): Promise<InventoryAllocation | null> {
+    let deleteQuery = supabase
+      .from('inventory_allocations')
+      .delete()
+      .eq('channel_account_id', channelAccountId)
+
+    deleteQuery = productId
+      ? deleteQuery.eq('product_id', productId)
+      : deleteQuery.is('product_id', null)
+
+    const { error } = await deleteQuery
+
+    if (error) {
+      throw new Error(`Failed to save inventory allocation: ${error.message}`)
+    }
+
+    if (!rule) {
+      console.log(`${this.logPrefix} Removed allocation of account ${channelAccountId}${productId ? ` for product ${productId}` : ''}`)
+      return null
+    }
+
+    const { data, error: insertError } = await supabase
+      .from('inventory_allocations')
+      .insert({
+        channel_account_id: channelAccountId,
+        product_id: productId || null,
+        mode: rule.mode,
+        value: rule.value
+      })
+      .select()
+      .single()
+
+    if (insertError) {
+      throw new Error(`Failed to save inventory allocation: ${insertError.message}`)
+    }
+
+    console.log(`${this.logPrefix} Set allocation of account ${channelAccountId}${productId ? ` for product ${productId}` : ''}: ${rule.mode} ${rule.value}`)
+
+    return dataTransformers.snakeToCamel(data) as InventoryAllocation
+  }
+
+  // =============================================================================
+  // ORDERS
+  // =============================================================================
+
+  /**
+   * Reserve stock for a new order and push the stock left to the other
+   * channel accounts. A line reserves once however often the order is
+   * reported. Returns the IDs of the queued push jobs.
+   */
+  async reserveOrder(order: OrderRef, lines: OrderLine[]): Promise<string[]> {
+    const channelAccountId = await this.resolveChannelAccountId(order)
+
+    // Lines of the same product or variant make one reservation
+    const items = new Map<string, { product_id: string; variant_id: string | null; quantity: number }>()
+    for (const line of lines) {
+      if (!(line.quantity > 0)) continue
+
+      const resolved = await this.resolveOrderLine(order.channel, channelAccountId, line)
+      if (!resolved) {
+        console.warn(`${this.logPrefix} No product for ${order.channel} item ${line.platformProductId}${line.platformVariantId ? `/${line.platformVariantId}` : ''} of order ${order.orderId}`)
+        continue
+      }
+
+      const key = `${resolved.productId}:${resolved.variantId || ''}`
+      const item = items.get(key)
+      if (item) {
+        item.quantity += line.quantity
+      } else {
+        items.set(key, { product_id: resolved.productId, variant_id: resolved.variantId || null, quantity: line.quantity })
+      }
+    }
+
+    if (items.size === 0) {
+      return []
+    }
+
+    const { data, error } = await supabase.rpc('reserve_inventory', {
+      p_channel: order.channel,
+      p_channel_account_id: channelAccountId || null,
+      p_order_id: order.orderId,
+      p_items: Array.from(items.values())
+    })
+
+    if (error) {
+      throw new Error(`Failed to reserve stock for order ${order.orderId}: ${error.message}`)
+    }
+
+    const productIds = this.uniqueIds(data)
+    console.log(`${this.logPrefix} Reserved stock of ${productIds.length} products for ${order.channel} order ${order.orderId}`)
+
+    return this.syncChannelStock(productIds, channelAccountId)
+  }
+
+  /**
+   * Take the reserved stock of a shipped order off hand
+   */
+  async commitOrder(order: OrderRef): Promise<string[]> {
+    const { data, error } = await supabase.rpc('commit_inventory_reservations', {
+      p_channel: order.channel,
+      p_order_id: order.orderId
+    })
+
+    if (error) {
+      throw new Error(`Failed to commit stock of order ${order.orderId}: ${error.message}`)
+    }
+
+    const productIds = this.uniqueIds(data)
+    if (productIds.length === 0) {
+      return []
+    }
+
+    console.log(`${this.logPrefix} Committed stock of ${productIds.length} products for ${order.channel} order ${order.orderId}`)
+
+    // Available stock doesn't change unless the order was oversold
+    return this.syncChannelStock(productIds, await this.resolveChannelAccountId(order))
+  }
+
+  /**
+   * Give the reserved stock of a cancelled order back and push it to the
+   * other channel accounts
+   */
+  async releaseOrder(order: OrderRef): Promise<string[]> {
+    const { data, error } = await supabase.rpc('release_inventory_reservations', {
+      p_channel: order.channel,
+      p_order_id: order.orderId
+    })
+
+    if (error) {
+      throw new Error(`Failed to release stock of order ${order.orderId}: ${error.message}`)
+    }
+
+    const productIds = this.uniqueIds(data)
+    if (productIds.length === 0) {
+      return []
+    }
+
+    console.log(`${this.logPrefix} Released stock of ${productIds.length} products for ${order.channel} order ${order.orderId}`)
+
+    return this.syncChannelStock(productIds, await this.resolveChannelAccountId(order))
+  }
+
+  // =============================================================================
+  // LEVELS AND DISTRIBUTION
+  // =============================================================================
+
+  /**
+   * Stock levels of products: one per product (its total) and one per variant
+   */
+  async getInventoryLevels(productIds: string[]): Promise<InventoryLevel[]> {
+    if (productIds.length === 0) {
+      return []
+    }
+
+    const [products, variants, reservations] = await Promise.all([
+      supabase.from('products').select('id, stock').in('id', productIds),
+      supabase.from('product_variants').select('id, product_id, stock').in('product_id', productIds),
+      supabase
+        .from('inventory_reservations')
+        .select('product_id, variant_id, quantity')
+        .in('product_id', productIds)
+        .eq('status', 'reserved')
+    ])
+
+    const error = products.error || variants.error || reservations.error
+    if (error) {
+      throw new Error(`Failed to load inventory levels: ${error.message}`)
+    }
+
+    const reservedOf = (productId: string, variantId?: string) => (reservations.data || [])
+      .filter(row => row.product_id === productId && (!variantId || row.variant_id === variantId))
+      .reduce((sum, row) => sum + row.quantity, 0)
+
+    const level = (productId: string, onHand: number, variantId?: string): InventoryLevel => {
+      const reserved = reservedOf(productId, variantId)
+      return { productId, variantId, onHand, reserved, available: onHand - reserved }
+    }
+
+    return [
+      ...(products.data || []).map(row => level(row.id, row.stock ?? 0)),
+      ...(variants.data || []).map(row => level(row.product_id, row.stock ?? 0, row.id))
+    ]
+  }
+
+  /**
+   * Allocate the available stock of products to their published listings
+   * and push the listings whose stock changed, one job per channel account.
+   * `excludeAccountId` skips the account an order came from: its platform
+   * already counted the order. Returns the IDs of the queued push jobs.
+   *
+   * A listing's new stock is saved only once its push is queued, so an
+   * account whose push couldn't be queued is pushed again by the next sync.
+   * Throws, after the other accounts are pushed, when any account failed.
+   */
+  async syncChannelStock(productIds: string[], excludeAccountId?: string): Promise<string[]> {
+    if (productIds.length === 0) {
+      return []
+    }
+
+    const levels = await this.getInventoryLevels(productIds)
+    for (const level of levels) {
+      if (level.available < 0) {
+        console.warn(`${this.logPrefix} ${level.variantId ? `Variant ${level.variantId}` : `Product ${level.productId}`} oversold by ${-level.available} units`)
+      }
+    }
+
+    const { data: listings, error } = await supabase
+      .from('listings')
+      .select('id, product_id, channel, channel_account_id, platform_listing_id, stock, variants:listing_variants(id, variant_id, platform_variant_id, stock)')
+      .in('product_id', productIds)
+      .not('platform_listing_id', 'is', null)
+
+    if (error) {
+      throw new Error(`Failed to load listings: ${error.message}`)
+    }
+
+    const targets = (listings || []).filter(listing => listing.channel_account_id !== excludeAccountId)
+    if (targets.length === 0) {
+      return []
+    }
+
+    const [allocations, warehouseAvailableOf] = await Promise.all([
+      this.getAccountAllocations(Array.from(new Set(targets.map(listing => listing.channel_account_id)))),
+      this.getWarehouseAvailability(productIds)
+    ])
+    const availableOf = (listing: any, variantId?: string) => Math.min(
+      levels.find(level => level.productId === listing.product_id && level.variantId === variantId)?.available ?? 0,
+      warehouseAvailableOf(listing.channel_account_id, listing.product_id, variantId) ?? Infinity
+    )
+
+    const pushesByAccount: Record<string, {
+      channel: string
+      items: PushItem[]
+      rows: Array<{ table: 'listings' | 'listing_variants'; id: string; stock: number }>
+    }> = {}
+    const addPush = (listing: any, item: PushItem, row: { table: 'listings' | 'listing_variants'; id: string }) => {
+      if (!pushesByAccount[listing.channel_account_id]) {
+        pushesByAccount[listing.channel_account_id] = { channel: listing.channel, items: [], rows: [] }
+      }
+      pushesByAccount[listing.channel_account_id].items.push(item)
+      pushesByAccount[listing.channel_account_id].rows.push({ ...row, stock: item.data.stock })
+    }
+
+    for (const listing of targets) {
+      const rule = allocations.find(allocation => allocation.channelAccountId === listing.channel_account_id && allocation.productId === listing.product_id)
+        || allocations.find(allocation => allocation.channelAccountId === listing.channel_account_id && !allocation.productId)
+      const variants: any[] = listing.variants || []
+
+      if (variants.length === 0) {
+        const stock = allocateStock(availableOf(listing), rule)
+        if (stock === listing.stock) continue
+
+        addPush(listing, {
+          id: listing.platform_listing_id,
+          data: { listingId: listing.id, stock }
+        }, { table: 'listings', id: listing.id })
+        continue
+      }
+
+      for (const variant of variants) {
+        if (!variant.platform_variant_id) continue
+
+        const stock = allocateStock(availableOf(listing, variant.variant_id), rule)
+        if (stock === variant.stock) continue
+
+        addPush(listing, {
+          id: listing.platform_listing_id,
+          data: {
+            listingId: listing.id,
+            variantId: variant.variant_id,
+            stock,
+            platformVariantId: variant.platform_variant_id
+          }
+        }, { table: 'listing_variants', id: variant.id })
+      }
+    }
+
+    const jobIds: string[] = []
+    const failures: string[] = []
+
+    for (const [accountId, group] of Object.entries(pushesByAccount)) {
+      try {
+        jobIds.push(await syncJobsService.queuePushJob(group.channel, 'stock', group.items, accountId))
+      } catch (error) {
+        console.error(`${this.logPrefix} Error queueing stock push for account ${accountId}:`, error)
+        failures.push(`${accountId} (${error instanceof Error ? error.message : 'Unknown error'})`)
+        continue
+      }
+
+      for (const row of group.rows) {
+        await this.updateStockRow(row.table, row.id, row.stock)
+      }
+    }
+
+    if (jobIds.length > 0) {
+      console.log(`${this.logPrefix} Queued ${jobIds.length} stock push jobs for ${productIds.length} products: ${jobIds.join(', ')}`)
+    }
+
+    if (failures.length > 0) {
+      throw new Error(`Failed to queue stock push for ${failures.length} channel accounts: ${failures.join('; ')}`)
+    }
+
+    return jobIds
+  }
+
+  // =============================================================================
+  // PRIVATE HELPERS
+  // =============================================================================
+
+  /**
+   * Stock an account can sell out of the warehouses it sells from: what
+   * they hold, less what orders of the accounts sharing them reserved.
+   * Undefined for accounts that sell from all stock.
+   */
+  private async getWarehouseAvailability(productIds: string[]) {
+    const [mappings, stock, reservations] = await Promise.all([
+      warehousesService.getAccountWarehouses(),
+      warehousesService.getWarehouseStock(productIds),
+      supabase
+        .from('inventory_reservations')
+        .select('channel_account_id, product_id, variant_id, quantity')
+        .in('product_id', productIds)
+        .eq('status', 'reserved')
+    ])
+
+    if (reservations.error) {
+      throw new Error(`Failed to load inventory reservations: ${reservations.error.message}`)
+    }
+
+    return (channelAccountId: string, productId: string, variantId?: string): number | undefined => {
+      const warehouseIds = mappings
+        .filter(mapping => mapping.channelAccountId === channelAccountId)
+        .map(mapping => mapping.warehouseId)
+
+      if (warehouseIds.length === 0) {
+        return undefined
+      }
+
+      const sharing = new Set(mappings
+        .filter(mapping => warehouseIds.includes(mapping.warehouseId))
+        .map(mapping => mapping.channelAccountId))
+      const matches = (rowProductId: string, rowVariantId?: string | null) =>
+        rowProductId === productId && (!variantId || rowVariantId === variantId)
+
+      const onHand = stock
+        .filter(row => warehouseIds.includes(row.warehouseId) && matches(row.productId, row.variantId))
+        .reduce((sum, row) => sum + row.stock, 0)
+      const reserved = (reservations.data || [])
+        .filter(row => sharing.has(row.channel_account_id) && matches(row.product_id, row.variant_id))
+        .reduce((sum, row) => sum + row.quantity, 0)
+
+      return onHand - reserved
+    }
+  }
+
+  /**
+   * Allocation rules of several accounts
+   */
+  private async getAccountAllocations(channelAccountIds: string[]): Promise<InventoryAllocation[]> {
+    const { data, error } = await supabase
+      .from('inventory_allocations')
+      .select('*')
+      .in('channel_account_id', channelAccountIds)
+
+    if (error) {
+      throw new Error(`Failed to load inventory allocations: ${error.message}`)
+    }
+
+    return dataTransformers.snakeToCamel(data || []) as InventoryAllocation[]
+  }
+
+  /**
+   * Product and variant of an order line: through the listing (and listing
+   * variant) with the platform IDs, or else the SKU
+   */
+  private async resolveOrderLine(channel: string, channelAccountId: string | undefined, line: OrderLine): Promise<ResolvedLine | null> {
+    const platform = resolvePlatform(channel)
+    const inScope = (row: { channel: string; channel_account_id: string }) => channelAccountId
+      ? row.channel_account_id === channelAccountId
+      : resolvePlatform(row.channel) === platform
+
+    const { data: listings, error } = await supabase
+      .from('listings')
+      .select('product_id, channel, channel_account_id, variants:listing_variants(variant_id, platform_variant_id)')
+      .eq('platform_listing_id', line.platformProductId)
+
+    if (error) {
+      throw new Error(`Failed to look up listing ${line.platformProductId}: ${error.message}`)
+    }
+
+    const listing = (listings || []).find(inScope)
+    if (listing) {
+      const variants: any[] = listing.variants || []
+      if (variants.length === 0) {
+        return { productId: listing.product_id }
+      }
+
+      const variant = line.platformVariantId
+        ? variants.find(candidate => candidate.platform_variant_id === line.platformVariantId)
+        : undefined
+      if (variant) {
+        return { productId: listing.product_id, variantId: variant.variant_id }
+      }
+    }
+
+    // Tokopedia sells each variant as a child product with its own ID
+    if (!listing && !line.platformVariantId) {
+      const { data: listingVariants, error: variantError } = await supabase
+        .from('listing_variants')
+        .select('variant_id, listing:listings!inner(product_id, channel, channel_account_id)')
+        .eq('platform_variant_id', line.platformProductId)
+
+      if (variantError) {
+        throw new Error(`Failed to look up listing variant ${line.platformProductId}: ${variantError.message}`)
+      }
+
+      const match = (listingVariants || []).find((row: any) => inScope(row.listing))
+      if (match) {
+        return { productId: (match as any).listing.product_id, variantId: match.variant_id }
+      }
+    }
+
+    return line.sku ? this.resolveSku(line.sku) : null
+  }
+
+  /**
+   * Product and variant with a SKU
+   */
+  private async resolveSku(sku: string): Promise<ResolvedLine | null> {
+    const { data: variant } = await supabase
+      .from('product_variants')
+      .select('id, product_id')
+      .eq('sku', sku)
+      .limit(1)
+      .maybeSingle()
+
+    if (variant) {
+      return { productId: variant.product_id, variantId: variant.id }
+    }
+
+    const { data: product } = await supabase
+      .from('products')
+      .select('id')
+      .eq('sku', sku)
+      .limit(1)
+      .maybeSingle()
+
+    return product ? { productId: product.id } : null
+  }
+
+  private async resolveChannelAccountId(order: OrderRef): Promise<string | undefined> {
+    return order.shopId ? (await findChannelAccountId(order.channel, order.shopId)) || undefined : undefined
+  }
+
+  private async updateStockRow(table: 'listings' | 'listing_variants', id: string, stock: number): Promise<void> {
+    const { error } = await supabase
+      .from(table)
+      .update({ stock })
+      .eq('id', id)
+
+    if (error) {
+      throw new Error(`Failed to update ${table} stock: ${error.message}`)
+    }
+  }
+
+  private uniqueIds(data: string[] | null): string[] {
+    return Array.from(new Set(data || []))
+  }
+}
+
+// =============================================================================
+// EXPORTS
+// =============================================================================
+
+export const inventoryService = new InventoryService()
+
+export default InventoryService
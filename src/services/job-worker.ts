@@ -0,0 +1,145 @@
+/**
+ * Job Worker
+ *
+ * Runs sync jobs queued by `SyncJobsService`. The worker claims pending jobs
+ * atomically (`claim_sync_jobs`, FOR UPDATE SKIP LOCKED), so any number of
+ * workers and cron triggers can run side by side, and holds a lease on each
+ * job that heartbeats renew while it runs. Jobs of workers that died are
+ * returned to pending once their lease expires.
+ *
+ * Run continuously with `npm run worker`, or one batch at a time through
+ * `POST /api/internal/cron/jobs`. A running worker also queues the jobs of
+ * due auto-sync schedules.
+ */
+
+import os from 'os'
+import { syncJobsService } from '@/services/sync-jobs-service'
+import { syncSchedulesService } from '@/services/sync-schedules-service'
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface JobWorkerOptions {
+  concurrency?: number // Jobs processed at once
+  pollIntervalMs?: number // Sleep between polls while the queue is empty
+}
+
+export interface RunOnceOptions {
+  concurrency?: number
+  maxDurationMs?: number // No new jobs are claimed after this long
+}
+
+const DEFAULT_CONCURRENCY = 3
+const DEFAULT_POLL_INTERVAL_MS = 5000
+
+// Due auto-sync schedules are looked for this often
+const SCHEDULE_CHECK_INTERVAL_MS = 60 * 1000
+
+// =============================================================================
+// JOB WORKER CLASS
+// =============================================================================
+
+export class JobWorker {
+  readonly workerId: string
+  private logPrefix = '[JobWorker]'
+  private running = false
+  private loop?: Promise<void>
+  private wakeUp?: () => void
+
+  constructor(workerId = `${os.hostname()}:${process.pid}`) {
+    this.workerId = workerId
+  }
+
+  /**
+   * Process jobs until the queue is empty or the time budget is spent
+   */
+  async runOnce(options: RunOnceOptions = {}): Promise<number> {
+    const concurrency = options.concurrency || DEFAULT_CONCURRENCY
+    const deadline = Date.now() + (options.maxDurationMs ?? Infinity)
+    let processed = 0
+
+    while (Date.now() < deadline) {
+      const claimed = await syncJobsService.processJobs(concurrency, this.workerId)
+      if (claimed === 0) {
+        break
+      }
+      processed += claimed
+    }
+
+    return processed
+  }
+
+  /**
+   * Poll for jobs until `stop` is called
+   */
+  start(options: JobWorkerOptions = {}): Promise<void> {
+    if (this.loop) {
+      return this.loop
+    }
+
+    const concurrency = options.concurrency || DEFAULT_CONCURRENCY
+    const pollIntervalMs = options.pollIntervalMs || DEFAULT_POLL_INTERVAL_MS
+
+    this.running = true
+    console.log(`${this.logPrefix} Worker ${this.workerId} started`)
+
+    this.loop = (async () => {
+      let lastScheduleCheck = 0
+
+      while (this.running) {
+        if (Date.now() - lastScheduleCheck >= SCHEDULE_CHECK_INTERVAL_MS) {
+          lastScheduleCheck = Date.now()
+          await this.runDueSchedules()
+        }
+
+        const claimed = await syncJobsService.processJobs(concurrency, this.workerId)
+
+        if (claimed === 0 && this.running) {
+          await new Promise<void>(resolve => {
+            this.wakeUp = resolve
+            setTimeout(resolve, pollIntervalMs)
+          })
+        }
+      }
+
+      console.log(`${this.logPrefix} Worker ${this.workerId} stopped`)
+    })()
+
+    return this.loop
+  }
+
+  /**
+   * Queue the jobs of due auto-sync schedules; a failed check is retried on
+   * the next interval
+   */
+  private async runDueSchedules(): Promise<void> {
+    try {
+      const schedulesRun = await syncSchedulesService.runDueSchedules()
+      if (schedulesRun > 0) {
+        console.log(`${this.logPrefix} Ran ${schedulesRun} sync schedules`)
+      }
+    } catch (error) {
+      console.error(`${this.logPrefix} Failed to run sync schedules:`, error)
+    }
+  }
+
+  /**
+   * Stop polling once the jobs in progress finish
+   */
+  async stop(): Promise<void> {
+    this.running = false
+    this.wakeUp?.()
+
+    await this.loop
+    this.loop = undefined
+  }
+}
+
+// =============================================================================
+// EXPORTS
+// =============================================================================
+
+export const jobWorker = new JobWorker()
+
+export default jobWorker
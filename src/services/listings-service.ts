@@ -40,10 +40,24 @@ export interface Listing {
   lastSyncedAt?: Date
   syncStatus: 'synced' | 'pending' | 'failed' | 'partial'
   syncErrors?: string[]
+  variants?: ListingVariant[]
   createdAt: Date
   updatedAt: Date
 }
 
+/**
+ * A product variant as listed on a channel
+ */
+export interface ListingVariant {
+  id: string
+  listingId: string
+  variantId: string           // product_variants.id
+  platformVariantId?: string  // Shopee model ID, TikTok Shop / Lazada SKU ID, Tokopedia child product ID
+  price?: number
+  stock?: number
+  lastSyncedAt?: Date
+}
+
 export interface ListingFilters {
   search?: string
   channel?: PlatformType
@@ -105,6 +119,7 @@ export interface BatchOperationResult {
 
 export class ListingsService {
   private readonly tableName = 'listings'
+  private readonly variantsTable = 'listing_variants'
   private readonly logPrefix = '[ListingsService]'
 
   /**
@@ -447,7 +462,7 @@ export class ListingsService {
   private async getListingFromSupabase(id: string): Promise<Listing | null> {
     const { data, error } = await supabase
       .from(this.tableName)
-      .select('*')
+      .select(`*, variants:${this.variantsTable}(*)`)
       .eq('id', id)
       .single()
 
@@ -467,7 +482,7 @@ export class ListingsService {
   private async getListingsByProductFromSupabase(productId: string): Promise<Listing[]> {
     const { data, error } = await supabase
       .from(this.tableName)
-      .select('*')
+      .select(`*, variants:${this.variantsTable}(*)`)
       .eq('product_id', productId)
       .order('updated_at', { ascending: false })
 
@@ -539,9 +554,10 @@ export class ListingsService {
    * Create listing in Supabase
    */
   private async createListingInSupabase(listingData: any): Promise<Listing> {
+    const { variants, ...listingFields } = listingData
     const { data, error } = await supabase
       .from(this.tableName)
-      .insert(dataTransformers.camelToSnake(listingData))
+      .insert(dataTransformers.camelToSnake(listingFields))
       .select()
       .single()
 
@@ -549,16 +565,22 @@ export class ListingsService {
       throw new Error(`Supabase error: ${error.message}`)
     }
 
-    return dataTransformers.snakeToCamel(data) as Listing
+    const listing = dataTransformers.snakeToCamel(data) as Listing
+    if (variants) {
+      listing.variants = await this.saveListingVariants(listing.id, variants)
+    }
+
+    return listing
   }
 
   /**
    * Update listing in Supabase
    */
   private async updateListingInSupabase(id: string, updates: any): Promise<Listing> {
+    const { variants, ...listingUpdates } = updates
     const { data, error } = await supabase
       .from(this.tableName)
-      .update(dataTransformers.camelToSnake(updates))
+      .update(dataTransformers.camelToSnake(listingUpdates))
       .eq('id', id)
       .select()
       .single()
@@ -567,7 +589,37 @@ export class ListingsService {
       throw new Error(`Supabase error: ${error.message}`)
     }
 
-    return dataTransformers.snakeToCamel(data) as Listing
+    const listing = dataTransformers.snakeToCamel(data) as Listing
+    if (variants) {
+      listing.variants = await this.saveListingVariants(id, variants)
+    }
+
+    return listing
+  }
+
+  /**
+   * Upsert the variants of a listing by product variant
+   */
+  private async saveListingVariants(listingId: string, variants: Partial<ListingVariant>[]): Promise<ListingVariant[]> {
+    if (variants.length === 0) {
+      return []
+    }
+
+    const rows = variants.map(({ id, listingId: _listingId, ...variant }) => ({
+      ...dataTransformers.camelToSnake(variant),
+      listing_id: listingId
+    }))
+
+    const { data, error } = await supabase
+      .from(this.variantsTable)
+      .upsert(rows, { onConflict: 'listing_id,variant_id' })
+      .select()
+
+    if (error) {
+      throw new Error(`Supabase error: ${error.message}`)
+    }
+
+    return dataTransformers.snakeToCamel(data || []) as ListingVariant[]
   }
 
   // =============================================================================
@@ -5,10 +5,11 @@
  * between mock data and Supabase database
  */
 
-import { Product, ProductStatus, PlatformType } from '@/types/product'
+import { Product, ProductStatus, PlatformType, ProductVariant } from '@/types/product'
 import { mockProducts as mockProductsData, getProductById as getMockProductById, filterProducts as filterMockProducts } from '@/lib/mock-data/products'
 import { supabase } from '@/lib/supabase'
 import { featureFlags, dataTransformers } from '@/lib/data-sources'
+import { inventoryMovementsService } from '@/services/inventory-movements-service'
 
 // Product filter interface
 export interface ProductFilters {
@@ -32,8 +33,12 @@ export interface ProductServiceResponse<T = any> {
  */
 export class ProductsService {
   private readonly tableName = 'products'
+  private readonly variantsTable = 'product_variants'
   private readonly logPrefix = '[ProductsService]'
 
+  // Variants are embedded so list and detail views see per-variant stock
+  private readonly productSelect = '*, variants:product_variants(*)'
+
   /**
    * Get all products with optional filtering
    */
@@ -150,7 +155,7 @@ export class ProductsService {
     try {
       let query = supabase
         .from(this.tableName)
-        .select('*')
+        .select(this.productSelect)
 
       // Apply filters
       if (filters.search) {
@@ -175,7 +180,7 @@ export class ProductsService {
       }
 
       // Transform from snake_case to camelCase
-      const transformedData = dataTransformers.snakeToCamel(data || []) as Product[]
+      const transformedData = (data || []).map(row => this.transformProductFromDb(row))
       
       // Apply platform filter if needed (check platforms JSONB field)
       if (filters.platform) {
@@ -200,7 +205,7 @@ export class ProductsService {
     try {
       const { data, error } = await supabase
         .from(this.tableName)
-        .select('*')
+        .select(this.productSelect)
         .eq('id', id)
         .single()
 
@@ -213,7 +218,7 @@ export class ProductsService {
       }
 
       // Transform from snake_case to camelCase
-      return dataTransformers.snakeToCamel(data) as Product
+      return this.transformProductFromDb(data)
     } catch (error) {
       console.error(`${this.logPrefix} getProductFromSupabase error:`, error)
       throw error
@@ -294,8 +299,9 @@ export class ProductsService {
     const writeMode = featureFlags.writeMode
 
     try {
-      // Transform to database format (camelCase to snake_case)
-      const dbProduct = dataTransformers.camelToSnake(productData)
+      // Variants live in their own table; stock is recorded as movements
+      const { variants, stock, ...productFields } = productData
+      const dbProduct = dataTransformers.camelToSnake(productFields)
 
       if (featureFlags.isDryRun()) {
         console.log(`${this.logPrefix} [DRY-RUN] Would insert product:`, productData)
@@ -332,6 +338,10 @@ export class ProductsService {
 
         // Transform from snake_case to camelCase
         const transformedProduct = dataTransformers.snakeToCamel(data) as Product
+        if (variants) {
+          transformedProduct.variants = await this.saveVariants(transformedProduct.id, variants)
+        }
+        transformedProduct.stock = await this.saveStock(transformedProduct.id, stock, variants)
 
         return {
           data: transformedProduct,
@@ -375,8 +385,9 @@ export class ProductsService {
     const writeMode = featureFlags.writeMode
 
     try {
-      // Transform to database format (camelCase to snake_case)
-      const dbUpdates = dataTransformers.camelToSnake(updates)
+      // Variants live in their own table; stock is recorded as movements
+      const { variants, stock, ...productUpdates } = updates
+      const dbUpdates = dataTransformers.camelToSnake(productUpdates)
 
       if (featureFlags.isDryRun()) {
         console.log(`${this.logPrefix} [DRY-RUN] Would update product ${id}:`, updates)
@@ -413,6 +424,10 @@ export class ProductsService {
 
         // Transform from snake_case to camelCase
         const transformedProduct = dataTransformers.snakeToCamel(data) as Product
+        if (variants) {
+          transformedProduct.variants = await this.saveVariants(id, variants)
+        }
+        transformedProduct.stock = await this.saveStock(id, stock, variants)
 
         return {
           data: transformedProduct,
@@ -446,6 +461,130 @@ export class ProductsService {
       }
     }
   }
+
+  // Stock helpers
+
+  /**
+   * Record an edited stock level as an adjustment and return the product's
+   * stock. Products with variants hold the total of their variants.
+   */
+  private async saveStock(productId: string, stock: number | undefined, variants?: ProductVariant[]): Promise<number> {
+    if (!variants?.length && stock !== undefined) {
+      await inventoryMovementsService.setStock(productId, undefined, stock, { reason: 'adjustment', source: 'user' })
+    }
+
+    const { data, error } = await supabase
+      .from(this.tableName)
+      .select('stock')
+      .eq('id', productId)
+      .single()
+
+    if (error) {
+      throw new Error(`Supabase error: ${error.message}`)
+    }
+
+    return data.stock
+  }
+
+  // Variant helpers
+
+  /**
+   * Replace the variants of a product, keeping IDs of variants that remain.
+   * Stock of removed variants is written off before they are deleted.
+   */
+  private async saveVariants(productId: string, variants: ProductVariant[]): Promise<ProductVariant[]> {
+    const rows = variants.map((variant, position) => this.transformVariantToDb(productId, variant, position))
+
+    if (rows.length > 0) {
+      const { error } = await supabase
+        .from(this.variantsTable)
+        .upsert(rows, { onConflict: 'id' })
+
+      if (error) {
+        throw new Error(`Supabase error: ${error.message}`)
+      }
+    }
+
+    for (const variant of variants) {
+      await inventoryMovementsService.setStock(productId, variant.id, variant.stock, { reason: 'adjustment', source: 'user' })
+    }
+
+    const { data: stocked, error: stockedError } = await supabase
+      .from(this.variantsTable)
+      .select('id')
+      .eq('product_id', productId)
+      .neq('stock', 0)
+
+    if (stockedError) {
+      throw new Error(`Supabase error: ${stockedError.message}`)
+    }
+
+    for (const removed of (stocked || []).filter(row => !rows.some(candidate => candidate.id === row.id))) {
+      await inventoryMovementsService.setStock(productId, removed.id, 0, { reason: 'adjustment', source: 'user', note: 'Variant removed' })
+    }
+
+    let deleteQuery = supabase
+      .from(this.variantsTable)
+      .delete()
+      .eq('product_id', productId)
+
+    if (rows.length > 0) {
+      deleteQuery = deleteQuery.not('id', 'in', `(${rows.map(row => row.id).join(',')})`)
+    }
+
+    const { error: deleteError } = await deleteQuery
+    if (deleteError) {
+      throw new Error(`Supabase error: ${deleteError.message}`)
+    }
+
+    return variants
+  }
+
+  /**
+   * Transform a product row with embedded variants
+   *
+   * Variant option names are user-entered keys, so they bypass the
+   * snake/camel key transform.
+   */
+  private transformProductFromDb(row: any): Product {
+    const { variants, ...productRow } = row
+    const product = dataTransformers.snakeToCamel(productRow) as Product
+
+    if (Array.isArray(variants)) {
+      product.variants = [...variants]
+        .sort((a, b) => a.position - b.position)
+        .map(variant => this.transformVariantFromDb(variant))
+    }
+
+    return product
+  }
+
+  private transformVariantFromDb(row: any): ProductVariant {
+    return {
+      id: row.id,
+      sku: row.sku,
+      options: row.options || {},
+      price: Number(row.price),
+      compareAtPrice: row.compare_at_price !== null && row.compare_at_price !== undefined
+        ? Number(row.compare_at_price)
+        : undefined,
+      stock: row.stock,
+      image: row.image || undefined,
+    }
+  }
+
+  private transformVariantToDb(productId: string, variant: ProductVariant, position: number) {
+    return {
+      id: variant.id,
+      product_id: productId,
+      sku: variant.sku,
+      options: variant.options,
+      price: variant.price,
+      compare_at_price: variant.compareAtPrice ?? null,
+      image: variant.image || null,
+      position,
+    }
+  }
 }
 
 // Export singleton instance
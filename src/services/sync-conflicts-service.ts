@@ -0,0 +1,585 @@
+/**
+ * Sync Conflicts Service
+ *
+ * Field-level conflict resolution for products synced with a platform. Each
+ * field is merged three ways: the AIOStore value, the platform value and the
+ * snapshot both sides agreed on at the last sync. A field rule can make
+ * AIOStore or the platform its source of truth; other fields take whichever
+ * side changed since the snapshot, and fields changed differently on both
+ * sides go to the conflict review queue until an operator picks a side.
+ */
+
+import { supabase } from '@/lib/supabase'
+import { dataTransformers } from '@/lib/data-sources'
+import { connectorRegistry } from '@/connectors/registry'
+import { rateLimiter } from '@/connectors/rate-limiter'
+import { inventoryMovementsService } from '@/services/inventory-movements-service'
+import type { ProductDetail, ProductUpdateData } from '@/connectors/types'
+
+// =============================================================================
+// TYPES AND INTERFACES
+// =============================================================================
+
+export type SyncField = 'title' | 'description' | 'category' | 'price' | 'stock' | 'status'
+
+// 'merge' takes whichever side changed and queues true conflicts for review
+export type FieldSource = 'aiostore' | 'platform' | 'merge'
+
+export type FieldRules = Record<SyncField, FieldSource>
+
+export type SyncFieldValues = Record<SyncField, string | number | null>
+
+export type ConflictStatus = 'open' | 'resolved' | 'superseded'
+
+/**
+ * An item synced with one channel account
+ */
+export interface SyncItemRef {
+  channel: string
+  channelAccountId?: string
+  itemType: 'product'
+  itemId: string
+}
+
+export interface FieldConflict {
+  field: SyncField
+  baseValue: string | number | null
+  localValue: string | number | null
+  platformValue: string | number | null
+}
+
+export interface FieldMerge {
+  local: Partial<SyncFieldValues> // Merged fields as they are in AIOStore
+  platform: Partial<SyncFieldValues> // ... and on the platform
+  base: Partial<SyncFieldValues> | null // Snapshot of the last sync, null before the first
+  toLocal: Partial<SyncFieldValues> // Changes to write to AIOStore
+  toPlatform: Partial<SyncFieldValues> // Changes to push to the platform
+  conflicts: FieldConflict[]
+}
+
+export interface SyncConflict {
+  id: string
+  channel: string
+  channelAccountId?: string
+  itemType: 'product'
+  itemId: string
+  itemName?: string // Product name in AIOStore
+  field: SyncField
+  baseValue: string | number | null
+  localValue: string | number | null
+  platformValue: string | number | null
+  jobId?: string
+  status: ConflictStatus
+  resolution?: 'aiostore' | 'platform'
+  resolvedAt?: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface ConflictFilters {
+  status?: ConflictStatus
+  channel?: string
+  channelAccountId?: string
+  page?: number
+  pageSize?: number
+}
+
+export const SYNC_FIELDS: SyncField[] = ['title', 'description', 'category', 'price', 'stock', 'status']
+
+export const FIELD_SOURCES: FieldSource[] = ['aiostore', 'platform', 'merge']
+
+// AIOStore products column of each field
+const LOCAL_COLUMNS: Record<SyncField, string> = {
+  title: 'name',
+  description: 'description',
+  category: 'category',
+  price: 'price',
+  stock: 'stock',
+  status: 'status'
+}
+
+// =============================================================================
+// SYNC CONFLICTS SERVICE CLASS
+// =============================================================================
+
+export class SyncConflictsService {
+  private readonly logPrefix = '[SyncConflicts]'
+
+  // =============================================================================
+  // FIELD RULES
+  // =============================================================================
+
+  /**
+   * Effective rules of an account (its own rules over the defaults), or the
+   * defaults without one. Fields without a rule merge.
+   */
+  async getFieldRules(channelAccountId?: string): Promise<FieldRules> {
+    let query = supabase
+      .from('sync_field_rules')
+      .select('channel_account_id, field, source')
+
+    query = channelAccountId
+      ? query.or(`channel_account_id.is.null,channel_account_id.eq.${channelAccountId}`)
+      : query.is('channel_account_id', null)
+
+    const { data, error } = await query
+
+    if (error) {
+      throw new Error(`Failed to load sync field rules: ${error.message}`)
+    }
+
+    const rules = Object.fromEntries(SYNC_FIELDS.map(field => [field, 'merge'])) as FieldRules
+
+    // Defaults first, so account rules override them
+    const rows = [...(data || [])].sort((a, b) => (a.channel_account_id ? 1 : 0) - (b.channel_account_id ? 1 : 0))
+    for (const row of rows) {
+      rules[row.field as SyncField] = row.source as FieldSource
+    }
+
+    return rules
+  }
+
+  /**
+   * Replace the rules of an account, or the defaults without one. An account
+   * inherits the defaults for fields it has no rule for.
+   */
+  async saveFieldRules(channelAccountId: string | undefined, rules: Partial<FieldRules>): Promise<FieldRules> {
+    let deleteQuery = supabase.from('sync_field_rules').delete()
+    deleteQuery = channelAccountId
+      ? deleteQuery.eq('channel_account_id', channelAccountId)
+      : deleteQuery.is('channel_account_id', null)
+
+    const { error } = await deleteQuery
+
+    if (error) {
+      throw new Error(`Failed to save sync field rules: ${error.message}`)
+    }
+
+    const rows = Object.entries(rules).map(([field, source]) => ({
+      channel_account_id: channelAccountId || null,
+      field,
+      source
+    }))
+
+    if (rows.length > 0) {
+      const { error: insertError } = await supabase.from('sync_field_rules').insert(rows)
+
+      if (insertError) {
+        throw new Error(`Failed to save sync field rules: ${insertError.message}`)
+      }
+    }
+
+    console.log(`${this.logPrefix} Saved field rules for ${channelAccountId ? `account ${channelAccountId}` : 'all accounts'}`)
+
+    return this.getFieldRules(channelAccountId)
+  }
+
+  // =============================================================================
+  // MERGE
+  // =============================================================================
+
+  /**
+   * Merge a product's fields in AIOStore (a `products` row) with the platform
+   * listing. Price and stock of products with variants are totals of the
+   * variants and aren't merged.
+   */
+  async mergeProduct(ref: SyncItemRef, localRow: any, platformProduct: ProductDetail): Promise<FieldMerge> {
+    const fields = platformProduct.variants?.length
+      ? SYNC_FIELDS.filter(field => field !== 'price' && field !== 'stock')
+      : SYNC_FIELDS
+
+    const [rules, base] = await Promise.all([
+      this.getFieldRules(ref.channelAccountId),
+      this.getSnapshot(ref)
+    ])
+
+    const local = pickFields(localFieldValues(localRow), fields)
+    const platform = pickFields(platformFieldValues(platformProduct), fields)
+    const localIsNewer = new Date(localRow.updated_at || 0) > new Date(platformProduct.updatedAt || 0)
+
+    const merge: FieldMerge = { local, platform, base, toLocal: {}, toPlatform: {}, conflicts: [] }
+
+    for (const field of fields) {
+      const localValue = local[field] ?? null
+      const platformValue = platform[field] ?? null
+
+      if (sameValue(localValue, platformValue)) {
+        continue
+      }
+
+      let winner: 'aiostore' | 'platform' | null
+      if (rules[field] !== 'merge') {
+        winner = rules[field] as 'aiostore' | 'platform'
+      } else if (!base || !(field in base)) {
+        // Nothing to compare against before the first sync: last updated wins
+        winner = localIsNewer ? 'aiostore' : 'platform'
+      } else if (sameValue(localValue, base[field] ?? null)) {
+        winner = 'platform'
+      } else if (sameValue(platformValue, base[field] ?? null)) {
+        winner = 'aiostore'
+      } else {
+        winner = null
+      }
+
+      if (winner === 'aiostore') {
+        merge.toPlatform[field] = localValue
+      } else if (winner === 'platform') {
+        merge.toLocal[field] = platformValue
+      } else {
+        merge.conflicts.push({
+          field,
+          baseValue: base?.[field] ?? null,
+          localValue,
+          platformValue
+        })
+      }
+    }
+
+    return merge
+  }
+
+  /**
+   * Record the outcome of a merge once its changes are written: fields both
+   * sides now agree on become the new snapshot, and the item's conflicts are
+   * queued for review. Without `pushed` the platform changes are left to the
+   * next sync, so their fields keep the old snapshot.
+   */
+  async completeMerge(ref: SyncItemRef, merge: FieldMerge, options: { pushed: boolean; jobId?: string }): Promise<void> {
+    const local = { ...merge.local, ...merge.toLocal }
+    const platform = { ...merge.platform, ...(options.pushed ? merge.toPlatform : {}) }
+
+    const snapshot: Partial<SyncFieldValues> = { ...merge.base }
+    for (const field of Object.keys(local) as SyncField[]) {
+      if (sameValue(local[field] ?? null, platform[field] ?? null)) {
+        snapshot[field] = local[field] ?? null
+      }
+    }
+
+    await this.saveSnapshot(ref, snapshot, options.jobId)
+    await this.recordConflicts(ref, merge.conflicts, options.jobId)
+  }
+
+  /**
+   * Snapshot a product both sides agree on, e.g. after pulling it into AIOStore
+   */
+  async snapshotProduct(ref: SyncItemRef, platformProduct: ProductDetail, jobId?: string): Promise<void> {
+    await this.saveSnapshot(ref, platformFieldValues(platformProduct), jobId)
+  }
+
+  // =============================================================================
+  // REVIEW QUEUE
+  // =============================================================================
+
+  /**
+   * List conflicts, newest first
+   */
+  async listConflicts(filters: ConflictFilters = {}): Promise<{ conflicts: SyncConflict[]; total: number }> {
+    const page = filters.page || 1
+    const pageSize = filters.pageSize || 50
+
+    let query = supabase
+      .from('sync_conflicts')
+      .select('*', { count: 'exact' })
+      .eq('status', filters.status || 'open')
+      .order('created_at', { ascending: false })
+      .range((page - 1) * pageSize, page * pageSize - 1)
+
+    if (filters.channel) {
+      query = query.eq('channel', filters.channel)
+    }
+
+    if (filters.channelAccountId) {
+      query = query.eq('channel_account_id', filters.channelAccountId)
+    }
+
+    const { data, error, count } = await query
+
+    if (error) {
+      throw new Error(`Failed to list sync conflicts: ${error.message}`)
+    }
+
+    const conflicts = dataTransformers.snakeToCamel(data || []) as SyncConflict[]
+
+    const productIds = Array.from(new Set(conflicts.map(conflict => conflict.itemId)))
+    if (productIds.length > 0) {
+      const { data: products } = await supabase
+        .from('products')
+        .select('id, name')
+        .in('id', productIds)
+
+      for (const conflict of conflicts) {
+        conflict.itemName = products?.find(product => product.id === conflict.itemId)?.name
+      }
+    }
+
+    return {
+      conflicts,
+      total: count || 0
+    }
+  }
+
+  /**
+   * Resolve open conflicts with the side the operator picked: its value is
+   * written to the other side and becomes the field's snapshot. Returns the
+   * number resolved and an error per conflict that couldn't be.
+   */
+  async resolveConflicts(
+    conflictIds: string[],
+    resolution: 'aiostore' | 'platform'
+  ): Promise<{ resolved: number; errors: string[] }> {
+    const { data, error } = await supabase
+      .from('sync_conflicts')
+      .select('*')
+      .in('id', conflictIds)
+      .eq('status', 'open')
+
+    if (error) {
+      throw new Error(`Failed to load sync conflicts: ${error.message}`)
+    }
+
+    const conflicts = dataTransformers.snakeToCamel(data || []) as SyncConflict[]
+    const errors = conflictIds
+      .filter(id => !conflicts.some(conflict => conflict.id === id))
+      .map(id => `Conflict ${id} is not open`)
+
+    let resolved = 0
+    for (const conflict of conflicts) {
+      try {
+        await this.resolveConflict(conflict, resolution)
+        resolved++
+      } catch (error) {
+        errors.push(`${conflict.itemId} ${conflict.field}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      }
+    }
+
+    console.log(`${this.logPrefix} Resolved ${resolved} conflicts with the ${resolution} value`)
+
+    return { resolved, errors }
+  }
+
+  // =============================================================================
+  // PRIVATE HELPER METHODS
+  // =============================================================================
+
+  private async resolveConflict(conflict: SyncConflict, resolution: 'aiostore' | 'platform'): Promise<void> {
+    const value = resolution === 'aiostore' ? conflict.localValue : conflict.platformValue
+    const ref: SyncItemRef = {
+      channel: conflict.channel,
+      channelAccountId: conflict.channelAccountId || undefined,
+      itemType: conflict.itemType,
+      itemId: conflict.itemId
+    }
+
+    if (resolution === 'aiostore') {
+      const connector = await connectorRegistry.getConnector(ref.channel, ref.channelAccountId)
+      const response = await rateLimiter.waitForTokens(() =>
+        connector.updateProduct(ref.itemId, toPlatformUpdate(ref.itemId, { [conflict.field]: value }))
+      )
+
+      if (!response.success) {
+        throw new Error(response.error?.message || `Failed to update product on ${ref.channel}`)
+      }
+    } else if (conflict.field === 'stock') {
+      await inventoryMovementsService.setStock(ref.itemId, undefined, Number(value), {
+        reason: 'adjustment',
+        source: 'user',
+        jobId: conflict.jobId,
+        note: `Sync conflict resolved with the ${ref.channel} stock`
+      })
+    } else {
+      const { error } = await supabase
+        .from('products')
+        .update({
+          ...toLocalColumns({ [conflict.field]: value }),
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', ref.itemId)
+
+      if (error) {
+        throw new Error(`Failed to update product: ${error.message}`)
+      }
+    }
+
+    const snapshot = await this.getSnapshot(ref)
+    await this.saveSnapshot(ref, { ...snapshot, [conflict.field]: value }, conflict.jobId)
+
+    const { error } = await supabase
+      .from('sync_conflicts')
+      .update({
+        status: 'resolved',
+        resolution,
+        resolved_at: new Date().toISOString()
+      })
+      .eq('id', conflict.id)
+
+    if (error) {
+      throw new Error(`Failed to resolve conflict: ${error.message}`)
+    }
+  }
+
+  /**
+   * Queue an item's conflicts: open conflicts of the same field are updated
+   * with the latest values, and those no longer in conflict are superseded
+   */
+  private async recordConflicts(ref: SyncItemRef, conflicts: FieldConflict[], jobId?: string): Promise<void> {
+    const { data, error } = await this.selectItemRows('sync_conflicts', 'id, field', ref).eq('status', 'open')
+
+    if (error) {
+      throw new Error(`Failed to load sync conflicts: ${error.message}`)
+    }
+
+    const open = data as unknown as Array<{ id: string; field: SyncField }> | null
+    const superseded = (open || []).filter(row => !conflicts.some(conflict => conflict.field === row.field))
+    if (superseded.length > 0) {
+      const { error: supersedeError } = await supabase
+        .from('sync_conflicts')
+        .update({ status: 'superseded' })
+        .in('id', superseded.map(row => row.id))
+
+      if (supersedeError) {
+        throw new Error(`Failed to supersede sync conflicts: ${supersedeError.message}`)
+      }
+    }
+
+    for (const conflict of conflicts) {
+      const values = {
+        base_value: conflict.baseValue,
+        local_value: conflict.localValue,
+        platform_value: conflict.platformValue,
+        job_id: jobId || null
+      }
+      const existing = (open || []).find(row => row.field === conflict.field)
+
+      const { error: writeError } = existing
+        ? await supabase.from('sync_conflicts').update(values).eq('id', existing.id)
+        : await supabase.from('sync_conflicts').insert({
+            ...values,
+            channel: ref.channel,
+            channel_account_id: ref.channelAccountId || null,
+            item_type: ref.itemType,
+            item_id: ref.itemId,
+            field: conflict.field
+          })
+
+      if (writeError) {
+        throw new Error(`Failed to record sync conflict: ${writeError.message}`)
+      }
+    }
+
+    if (conflicts.length > 0) {
+      console.warn(`${this.logPrefix} ${ref.itemType} ${ref.itemId} on ${ref.channel} has conflicting ${conflicts.map(conflict => conflict.field).join(', ')}`)
+    }
+  }
+
+  private async getSnapshot(ref: SyncItemRef): Promise<Partial<SyncFieldValues> | null> {
+    const { data, error } = await this.selectItemRows('sync_snapshots', 'data', ref).maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load sync snapshot: ${error.message}`)
+    }
+
+    return data ? (data as any).data as Partial<SyncFieldValues> : null
+  }
+
+  private async saveSnapshot(ref: SyncItemRef, snapshot: Partial<SyncFieldValues>, jobId?: string): Promise<void> {
+    const { data: existing, error } = await this.selectItemRows('sync_snapshots', 'id', ref).maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load sync snapshot: ${error.message}`)
+    }
+
+    // The snapshot can't be upserted: its unique index is on an expression
+    const row = { data: snapshot, job_id: jobId || null }
+    const { error: writeError } = existing
+      ? await supabase.from('sync_snapshots').update(row).eq('id', (existing as any).id)
+      : await supabase.from('sync_snapshots').insert({
+          ...row,
+          channel: ref.channel,
+          channel_account_id: ref.channelAccountId || null,
+          item_type: ref.itemType,
+          item_id: ref.itemId
+        })
+
+    if (writeError) {
+      throw new Error(`Failed to save sync snapshot: ${writeError.message}`)
+    }
+  }
+
+  /**
+   * Select an item's snapshot or conflict rows
+   */
+  private selectItemRows(table: 'sync_snapshots' | 'sync_conflicts', columns: string, ref: SyncItemRef) {
+    const query = supabase
+      .from(table)
+      .select(columns)
+      .eq('channel', ref.channel)
+      .eq('item_type', ref.itemType)
+      .eq('item_id', ref.itemId)
+
+    return ref.channelAccountId
+      ? query.eq('channel_account_id', ref.channelAccountId)
+      : query.is('channel_account_id', null)
+  }
+}
+
+// =============================================================================
+// FIELD MAPPING
+// =============================================================================
+
+function localFieldValues(row: any): SyncFieldValues {
+  return {
+    title: row.name ?? null,
+    description: row.description || null,
+    category: row.category || null,
+    price: row.price !== null && row.price !== undefined ? Number(row.price) : null,
+    stock: row.stock !== null && row.stock !== undefined ? Number(row.stock) : null,
+    status: row.status ?? null
+  }
+}
+
+function platformFieldValues(product: ProductDetail): SyncFieldValues {
+  return {
+    title: product.title ?? null,
+    description: product.description || null,
+    category: product.category || null,
+    price: product.price ?? null,
+    stock: product.stock ?? null,
+    status: product.status ?? null
+  }
+}
+
+function pickFields(values: SyncFieldValues, fields: SyncField[]): Partial<SyncFieldValues> {
+  return Object.fromEntries(fields.map(field => [field, values[field]]))
+}
+
+function sameValue(a: string | number | null, b: string | number | null): boolean {
+  return a === b || (typeof a === 'number' && typeof b === 'number' && Math.abs(a - b) < 0.005)
+}
+
+/**
+ * `products` columns of merged field values
+ */
+export function toLocalColumns(values: Partial<SyncFieldValues>): Record<string, any> {
+  return Object.fromEntries(
+    Object.entries(values).map(([field, value]) => [LOCAL_COLUMNS[field as SyncField], value])
+  )
+}
+
+/**
+ * Platform update of merged field values
+ */
+export function toPlatformUpdate(productId: string, values: Partial<SyncFieldValues>): ProductUpdateData {
+  const update: Record<string, any> = { productId }
+  for (const [field, value] of Object.entries(values)) {
+    update[field] = value ?? undefined
+  }
+  return update as ProductUpdateData
+}
+
+// =============================================================================
+// EXPORTS
+// =============================================================================
+
+export const syncConflictsService = new SyncConflictsService()
+
+export default SyncConflictsService
@@ -7,9 +7,18 @@
  */
 
 import { supabase } from '@/lib/supabase'
-import { featureFlags } from '@/lib/data-sources'
-import { createShopeeConnector } from '@/connectors/shopee'
+import { getSupabaseAdmin } from '@/lib/supabase-admin'
+import { featureFlags, dataTransformers } from '@/lib/data-sources'
+import { connectorRegistry } from '@/connectors/registry'
+import { rateLimiter } from '@/connectors/rate-limiter'
+import { findChannelAccountId } from '@/connectors/credentials'
+import { categoriesService } from '@/services/categories-service'
+import { imagesService } from '@/services/images-service'
+import { syncWatermarksService, WatermarkDataType } from '@/services/sync-watermarks-service'
+import { syncConflictsService, toLocalColumns, toPlatformUpdate, SyncItemRef } from '@/services/sync-conflicts-service'
+import { inventoryMovementsService } from '@/services/inventory-movements-service'
 import crypto from 'crypto'
+import os from 'os'
 
 // =============================================================================
 // TYPES AND INTERFACES
@@ -21,6 +30,7 @@ interface SyncJob {
   status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled'
   channel: string
   channelAccountId?: string
+  priority: number
   totalItems: number
   completedItems: number
   failedItems: number
@@ -35,7 +45,7 @@ interface SyncJob {
 interface SyncJobItem {
   id: string
   jobId: string
-  itemType: 'product' | 'order' | 'stock' | 'price'
+  itemType: 'product' | 'order' | 'stock' | 'price' | 'category' | 'attribute_schema'
   itemId: string
   status: 'pending' | 'processing' | 'completed' | 'failed'
   attempts: number
@@ -43,10 +53,57 @@ interface SyncJobItem {
   nextRetryAt?: Date
   errorMessage?: string
   metadata: any
+  deadLetteredAt?: Date
+  replayCount: number
   createdAt: Date
   updatedAt: Date
 }
 
+export interface DeadLetterItem {
+  id: string
+  jobId: string
+  jobType: SyncJob['type']
+  channel: string
+  channelAccountId?: string
+  itemType: SyncJobItem['itemType']
+  itemId: string
+  attempts: number
+  maxAttempts: number
+  errorMessage?: string
+  metadata: any // Payload the item is processed with
+  replayCount: number
+  deadLetteredAt: Date
+}
+
+export interface JobFilters {
+  channel?: string
+  channelAccountId?: string
+  status?: SyncJob['status']
+  type?: SyncJob['type']
+  page?: number
+  pageSize?: number
+}
+
+export interface DeadLetterFilters {
+  channel?: string
+  channelAccountId?: string
+  itemType?: string
+  page?: number
+  pageSize?: number
+}
+
+export interface JobProgressEvent {
+  id: number
+  jobId: string
+  status: SyncJob['status']
+  totalItems: number
+  completedItems: number
+  failedItems: number
+  currentItem?: string // '<item type> <item id>' of the last item processed
+  errorMessage?: string // Last item or job error since the previous event
+  createdAt: Date
+}
+
 interface SyncLog {
   id: string
   jobId?: string
@@ -56,11 +113,58 @@ interface SyncLog {
   createdAt: Date
 }
 
+// Rows per job_items insert and per page read back while processing
+const JOB_ITEMS_PAGE_SIZE = 1000
+
+// Job items processed concurrently within a page
+const JOB_ITEM_CONCURRENCY = 25
+
+// Orders pulled without `options.since` go back this far
+const DEFAULT_ORDER_PULL_WINDOW_MS = 30 * 24 * 60 * 60 * 1000
+
+// A claimed job is leased to its worker for this long and renewed by heartbeats
+const JOB_LEASE_MS = 5 * 60 * 1000
+const JOB_HEARTBEAT_INTERVAL_MS = 30 * 1000
+
+// Stored as jobs.priority; workers claim higher values first
+const JOB_PRIORITIES: Record<JobPriority, number> = {
+  low: 0,
+  normal: 1,
+  high: 2,
+  urgent: 3 // Webhook-triggered jobs
+}
+
+// A running job yields to same-priority jobs after this long, and to
+// higher-priority jobs as soon as a check sees them
+const JOB_TIME_SLICE_MS = 2 * 60 * 1000
+const JOB_YIELD_CHECK_INTERVAL_MS = 15 * 1000
+
+// Worker ID of processes that don't pass one
+const DEFAULT_WORKER_ID = `${os.hostname()}:${process.pid}`
+
+type JobPriority = 'low' | 'normal' | 'high' | 'urgent'
+
 interface JobQueueOptions {
-  priority?: 'low' | 'normal' | 'high'
+  priority?: JobPriority
   maxConcurrency?: number
   retryAttempts?: number
   rateLimitPerMinute?: number
+  idempotencyKey?: string // Queueing again with the same key (per channel account) returns the existing job
+}
+
+/**
+ * An item pushed with its own payload, e.g. one variant's stock
+ */
+export interface PushItem {
+  id: string // Platform product ID
+  data: any // Job item metadata, e.g. `{ stock, platformVariantId }`
+}
+
+// Job item type of push items queued with a payload
+const PUSH_ITEM_TYPES: Record<string, 'product' | 'stock' | 'price'> = {
+  products: 'product',
+  stock: 'stock',
+  prices: 'price'
 }
 
 // =============================================================================
@@ -82,7 +186,7 @@ export class SyncJobsService {
     channel: string
     channelAccountId?: string
     items: Array<{
-      type: 'product' | 'order' | 'stock' | 'price'
+      type: 'product' | 'order' | 'stock' | 'price' | 'category' | 'attribute_schema'
       id: string
       data?: any
     }>
@@ -90,6 +194,15 @@ export class SyncJobsService {
     options?: JobQueueOptions
   }): Promise<{ success: boolean; jobId?: string; error?: string }> {
     try {
+      const idempotencyKey = jobData.options?.idempotencyKey
+      if (idempotencyKey) {
+        const existingJobId = await this.findJobByIdempotencyKey(idempotencyKey, jobData)
+        if (existingJobId) {
+          console.log(`${this.logPrefix} Job ${existingJobId} already queued for idempotency key ${idempotencyKey}`)
+          return { success: true, jobId: existingJobId }
+        }
+      }
+
       // Generate unique job ID
       const jobId = `job_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`
 
@@ -102,6 +215,8 @@ export class SyncJobsService {
           status: 'pending',
           channel: jobData.channel,
           channel_account_id: jobData.channelAccountId,
+          priority: JOB_PRIORITIES[jobData.options?.priority || 'normal'],
+          idempotency_key: idempotencyKey || null,
           total_items: jobData.items.length,
           completed_items: 0,
           failed_items: 0,
@@ -113,6 +228,14 @@ export class SyncJobsService {
         .single()
 
       if (jobError) {
+        // A concurrent request with the same key queued it first
+        const existingJobId = idempotencyKey && jobError.code === '23505'
+          ? await this.findJobByIdempotencyKey(idempotencyKey, jobData)
+          : null
+        if (existingJobId) {
+          return { success: true, jobId: existingJobId }
+        }
+
         throw new Error(`Failed to create job: ${jobError.message}`)
       }
 
@@ -130,12 +253,15 @@ export class SyncJobsService {
         updated_at: new Date().toISOString()
       }))
 
-      const { error: itemsError } = await supabase
-        .from('job_items')
-        .insert(jobItems)
+      // Full catalog pulls can have tens of thousands of items
+      for (let i = 0; i < jobItems.length; i += JOB_ITEMS_PAGE_SIZE) {
+        const { error: itemsError } = await supabase
+          .from('job_items')
+          .insert(jobItems.slice(i, i + JOB_ITEMS_PAGE_SIZE))
 
-      if (itemsError) {
-        throw new Error(`Failed to create job items: ${itemsError.message}`)
+        if (itemsError) {
+          throw new Error(`Failed to create job items: ${itemsError.message}`)
+        }
       }
 
       // Log job creation
@@ -160,20 +286,34 @@ export class SyncJobsService {
   /**
    * Queue pull job to sync data from platform to AIOStore
    */
-  async queuePullJob(channel: string, dataType: 'products' | 'orders' | 'customers', params?: any): Promise<string> {
+  async queuePullJob(channel: string, dataType: 'products' | 'orders' | 'customers' | 'categories' | 'attributes', params?: any): Promise<string> {
     const jobId = `pull_${channel}_${dataType}_${Date.now()}`
     
-    // Determine what items to pull based on data type
-    const items = await this.getItemsForPull(channel, dataType, params)
+    // Determine what items to pull based on data type; account listings
+    // continue from the account's watermark
+    const channelAccountId = await this.resolveChannelAccountId(channel, params)
+    const watermark = await this.getPullWatermark(dataType, params, channelAccountId)
+    const pullParams = watermark?.since
+      ? { ...params, options: { ...params?.options, since: watermark.since.toISOString() } }
+      : params
+    const items = await this.getItemsForPull(channel, dataType, pullParams, channelAccountId)
     
     const result = await this.createJob({
       type: 'pull',
       channel,
+      channelAccountId,
       items,
       metadata: {
         dataType,
         params,
+        // Advanced from `from` to `to` when the job completes without failures
+        watermark: watermark
+          ? { from: watermark.current?.toISOString() || null, to: watermark.to.toISOString() }
+          : undefined,
         startedBy: 'system' // or user ID
+      },
+      options: {
+        priority: params?.priority
       }
     })
 
@@ -186,20 +326,43 @@ export class SyncJobsService {
 
   /**
    * Queue push job to sync data from AIOStore to platform
+   *
+   * Items are AIOStore product IDs pushed with their current data, or
+   * `PushItem`s carrying their own payload (stock and price changes, which
+   * can only be queued this way). Orders are owned by the platforms and
+   * never pushed.
    */
-  async queuePushJob(channel: string, dataType: 'products' | 'orders' | 'stock' | 'prices', itemIds: string[]): Promise<string> {
+  async queuePushJob(
+    channel: string,
+    dataType: 'products' | 'stock' | 'prices',
+    pushItems: Array<string | PushItem>,
+    channelAccountId?: string,
+    options?: JobQueueOptions
+  ): Promise<string> {
     const jobId = `push_${channel}_${dataType}_${Date.now()}`
-    
-    const items = await this.getItemsForPush(channel, dataType, itemIds)
-    
+    const itemIds = pushItems.map(item => typeof item === 'string' ? item : item.id)
+
+    const items = [
+      ...await this.getItemsForPush(channel, dataType, pushItems.filter((item): item is string => typeof item === 'string')),
+      ...pushItems
+        .filter((item): item is PushItem => typeof item !== 'string')
+        .map(item => ({ type: PUSH_ITEM_TYPES[dataType], id: item.id, data: item.data }))
+    ]
+
     const result = await this.createJob({
       type: 'push',
       channel,
+      channelAccountId,
       items,
       metadata: {
         dataType,
         itemIds,
         startedBy: 'system' // or user ID
+      },
+      options: {
+        ...options,
+        // Stock and price changes are small and time-sensitive
+        priority: options?.priority || (dataType === 'stock' || dataType === 'prices' ? 'high' : 'normal')
       }
     })
 
@@ -218,17 +381,19 @@ export class SyncJobsService {
     pullOrders?: boolean
     pushUpdates?: boolean
     resolveConflicts?: boolean
+    channelAccountId?: string
+    priority?: JobPriority
   }): Promise<string> {
     const jobId = `sync_${channel}_${Date.now()}`
     const items: any[] = []
 
     if (options?.pullProducts) {
-      const productItems = await this.getItemsForPull(channel, 'products', {})
+      const productItems = await this.getItemsForPull(channel, 'products', {}, options.channelAccountId)
       items.push(...productItems)
     }
 
     if (options?.pullOrders) {
-      const orderItems = await this.getItemsForPull(channel, 'orders', {})
+      const orderItems = await this.getItemsForPull(channel, 'orders', {}, options.channelAccountId)
       items.push(...orderItems)
     }
 
@@ -242,10 +407,14 @@ export class SyncJobsService {
     const result = await this.createJob({
       type: 'sync',
       channel,
+      channelAccountId: options?.channelAccountId,
       items,
       metadata: {
         options,
         startedBy: 'system'
+      },
+      options: {
+        priority: options?.priority
       }
     })
 
@@ -256,48 +425,144 @@ export class SyncJobsService {
     return result.jobId!
   }
 
+  /**
+   * Watermark a pull lists from and advances to. Pulls of named items, pulls
+   * bounded by the caller (`options.since`, `options.limit`) and pulls without
+   * a channel account don't use one; full pulls (`jobType: 'full'`,
+   * `options.force`) list everything but still advance it.
+   */
+  private async getPullWatermark(
+    dataType: string,
+    params: any,
+    channelAccountId?: string
+  ): Promise<{ current: Date | null; since: Date | null; to: Date } | null> {
+    const namedItems = params?.productIds || params?.productId || params?.orderIds || params?.orderId
+    if (
+      !channelAccountId ||
+      (dataType !== 'products' && dataType !== 'orders') ||
+      namedItems ||
+      params?.options?.since ||
+      params?.options?.limit
+    ) {
+      return null
+    }
+
+    // Taken before listing, so changes made while listing are pulled next time
+    const to = new Date()
+    const current = await syncWatermarksService.getWatermark(channelAccountId, dataType)
+    const fullPull = params?.jobType === 'full' || params?.options?.force
+
+    return { current, since: fullPull ? null : current, to }
+  }
+
+  /**
+   * Resolve the channel account a pull job acts on, either passed explicitly
+   * or looked up from the platform shop ID (e.g. from a webhook)
+   */
+  private async resolveChannelAccountId(channel: string, params?: any): Promise<string | undefined> {
+    if (params?.channelAccountId) {
+      return params.channelAccountId
+    }
+
+    if (params?.shopId) {
+      const channelAccountId = await findChannelAccountId(channel, params.shopId)
+      if (!channelAccountId) {
+        console.warn(`${this.logPrefix} No channel account for ${channel} shop ${params.shopId}, using default credentials`)
+      }
+      return channelAccountId || undefined
+    }
+
+    return undefined
+  }
+
   // =============================================================================
   // JOB PROCESSING
   // =============================================================================
 
   /**
-   * Process pending jobs (should be called by a job processor/worker)
+   * Claim and process pending jobs (called by the job worker)
+   *
+   * Jobs are claimed atomically, so concurrent callers never process the same
+   * job, and leased to `workerId` for as long as they run. Returns the number
+   * of jobs processed.
    */
-  async processJobs(maxConcurrency = 3): Promise<void> {
+  async processJobs(maxConcurrency = 3, workerId = DEFAULT_WORKER_ID): Promise<number> {
     try {
-      // Get pending jobs (limit concurrency)
-      const { data: pendingJobs, error } = await supabase
-        .from('jobs')
-        .select('*')
-        .eq('status', 'pending')
-        .order('created_at', { ascending: true })
-        .limit(maxConcurrency)
-
-      if (error) {
-        throw new Error(`Failed to fetch pending jobs: ${error.message}`)
+      // Jobs of dead workers become claimable again
+      const recovered = await this.recoverStuckJobs()
+      if (recovered > 0) {
+        console.warn(`${this.logPrefix} Recovered ${recovered} jobs with expired leases`)
       }
 
-      if (!pendingJobs || pendingJobs.length === 0) {
-        return
+      const jobs = await this.claimJobs(workerId, maxConcurrency)
+      if (jobs.length === 0) {
+        return 0
       }
 
-      console.log(`${this.logPrefix} Processing ${pendingJobs.length} jobs`)
+      console.log(`${this.logPrefix} Worker ${workerId} processing ${jobs.length} jobs`)
 
       // Process jobs concurrently (respecting concurrency limit)
-      const promises = pendingJobs.map(job => this.processJob(job))
+      const promises = jobs.map(job => this.processJob(job, workerId))
       await Promise.allSettled(promises)
 
+      return jobs.length
+
     } catch (error) {
       console.error(`${this.logPrefix} Error processing jobs:`, error)
+      return 0
     }
   }
 
+  /**
+   * Claim up to `limit` pending jobs for a worker, oldest first. Claiming,
+   * lease renewal and recovery run as the service role (server only).
+   */
+  async claimJobs(workerId: string, limit: number): Promise<SyncJob[]> {
+    const { data, error } = await getSupabaseAdmin().rpc('claim_sync_jobs', {
+      p_worker_id: workerId,
+      p_limit: limit,
+      p_lease_seconds: JOB_LEASE_MS / 1000
+    })
+
+    if (error) {
+      throw new Error(`Failed to claim jobs: ${error.message}`)
+    }
+
+    return dataTransformers.snakeToCamel(data || []) as SyncJob[]
+  }
+
+  /**
+   * Return running jobs whose lease expired to pending
+   */
+  async recoverStuckJobs(): Promise<number> {
+    const { data, error } = await getSupabaseAdmin().rpc('recover_stuck_jobs')
+
+    if (error) {
+      console.error(`${this.logPrefix} Failed to recover stuck jobs:`, error)
+      return 0
+    }
+
+    return Number(data) || 0
+  }
+
   /**
    * Process a single job
+   *
+   * With a `workerId` the job's lease is renewed by a heartbeat while it runs;
+   * if the lease is lost the worker stops and leaves the job to its new owner.
    */
-  async processJob(job: SyncJob): Promise<void> {
+  async processJob(job: SyncJob, workerId?: string): Promise<void> {
     const startTime = Date.now()
-    
+    const lease = { lost: false }
+    const heartbeat = workerId
+      ? setInterval(async () => {
+          if (!lease.lost && !(await this.renewLease(job.id, workerId))) {
+            lease.lost = true
+            console.warn(`${this.logPrefix} Worker ${workerId} lost the lease on job ${job.id}`)
+          }
+        }, JOB_HEARTBEAT_INTERVAL_MS)
+      : undefined
+
     try {
       console.log(`${this.logPrefix} Processing job ${job.id} (${job.type})`)
 
@@ -307,89 +572,185 @@ export class SyncJobsService {
       })
 
       await this.logJobEvent(job.id, 'info', `Started processing job`)
+      await this.publishProgress(job.id)
+
+      // Page through pending job items by ID, so items finished by an
+      // earlier run of a recovered job are skipped. Items waiting for a
+      // retry are left for a later run.
+      let lastItemId: string | undefined
+      let processedItems = 0
+      let lastYieldCheck = startTime
+      for (;;) {
+        let query = supabase
+          .from('job_items')
+          .select('*')
+          .eq('job_id', job.id)
+          .eq('status', 'pending')
+          .or(`next_retry_at.is.null,next_retry_at.lte.${new Date().toISOString()}`)
+          .order('id', { ascending: true })
+          .limit(JOB_ITEMS_PAGE_SIZE)
+
+        if (lastItemId) {
+          query = query.gt('id', lastItemId)
+        }
 
-      // Get job items
-      const { data: jobItems, error } = await supabase
-        .from('job_items')
-        .select('*')
-        .eq('job_id', job.id)
-        .order('created_at', { ascending: true })
+        const { data: jobItems, error } = await query
 
-      if (error) {
-        throw new Error(`Failed to fetch job items: ${error.message}`)
+        if (error) {
+          throw new Error(`Failed to fetch job items: ${error.message}`)
+        }
+
+        if (!jobItems || jobItems.length === 0) {
+          break
+        }
+
+        // Process job items a few at a time
+        const items = dataTransformers.snakeToCamel(jobItems) as SyncJobItem[]
+        for (let i = 0; i < items.length; i += JOB_ITEM_CONCURRENCY) {
+          if (lease.lost) {
+            return
+          }
+
+          // Leased jobs give other waiting jobs a turn; finished items are skipped when resumed
+          if (workerId && Date.now() - lastYieldCheck >= JOB_YIELD_CHECK_INTERVAL_MS) {
+            lastYieldCheck = Date.now()
+            if (await this.hasWaitingJobs(job, Date.now() - startTime)) {
+              await this.updateJobStatus(job.id, 'pending', {
+                locked_by: null,
+                locked_until: null
+              })
+              await this.logJobEvent(job.id, 'info', 'Job yielded to waiting jobs', {
+                processingTime: Date.now() - startTime
+              })
+              await this.publishProgress(job.id)
+              return
+            }
+          }
+
+          const batch = items.slice(i, i + JOB_ITEM_CONCURRENCY)
+          const results = await Promise.allSettled(batch.map(item => this.processJobItem(job, item)))
+          const errors = results.map(result =>
+            result.status === 'fulfilled' ? result.value : String(result.reason)
+          )
+
+          // One progress event per batch keeps the event stream small
+          const lastItem = batch[batch.length - 1]
+          await this.publishProgress(
+            job.id,
+            `${lastItem.itemType} ${lastItem.itemId}`,
+            errors.filter(Boolean).pop() || undefined
+          )
+        }
+
+        processedItems += items.length
+        lastItemId = items[items.length - 1].id
       }
 
-      if (!jobItems || jobItems.length === 0) {
-        throw new Error('No job items found')
+      if (lease.lost) {
+        return
       }
 
-      // Process job items
-      const results = await Promise.allSettled(
-        jobItems.map(item => this.processJobItem(job, item))
-      )
+      // Run again when the earliest scheduled retry is due
+      const nextRunAt = await this.getNextRetryAt(job.id)
+      if (nextRunAt) {
+        await this.updateJobStatus(job.id, 'pending', {
+          next_run_at: nextRunAt.toISOString(),
+          locked_by: null,
+          locked_until: null
+        })
+
+        await this.logJobEvent(job.id, 'info', `Job paused until ${nextRunAt.toISOString()} for item retries`, {
+          processingTime: Date.now() - startTime
+        })
+        await this.publishProgress(job.id)
+        return
+      }
 
-      // Count results
-      const completed = results.filter(r => r.status === 'fulfilled').length
-      const failed = results.filter(r => r.status === 'rejected').length
+      // Count results across every run of the job
+      const completed = await this.countJobItems(job.id, 'completed')
+      const failed = await this.countJobItems(job.id, 'failed')
+
+      // A pull that found nothing to pull (e.g. a scheduled pull with no
+      // changes) is done; any other job without items lost them
+      if (processedItems + completed + failed === 0 && !(job.type === 'pull' && job.totalItems === 0)) {
+        throw new Error('No job items found')
+      }
 
       // Update job completion
       await this.updateJobStatus(job.id, 'completed', {
         completedAt: new Date(),
         completed_items: completed,
-        failed_items: failed
+        failed_items: failed,
+        locked_by: null,
+        locked_until: null
       })
 
       await this.logJobEvent(job.id, 'info', `Job completed: ${completed} successful, ${failed} failed`, {
         processingTime: Date.now() - startTime
       })
 
+      if (job.metadata?.watermark && failed === 0) {
+        await this.advanceWatermark(job)
+      }
+      await this.publishProgress(job.id)
+
       console.log(`${this.logPrefix} Job ${job.id} completed in ${Date.now() - startTime}ms`)
 
     } catch (error) {
       console.error(`${this.logPrefix} Error processing job ${job.id}:`, error)
 
+      if (lease.lost) {
+        return
+      }
+
       await this.updateJobStatus(job.id, 'failed', {
         completedAt: new Date(),
-        errorMessage: error instanceof Error ? error.message : 'Unknown error'
+        errorMessage: error instanceof Error ? error.message : 'Unknown error',
+        locked_by: null,
+        locked_until: null
       })
 
       await this.logJobEvent(job.id, 'error', `Job failed: ${error instanceof Error ? error.message : 'Unknown error'}`, {
         processingTime: Date.now() - startTime
       })
+      await this.publishProgress(job.id, undefined, error instanceof Error ? error.message : 'Unknown error')
+    } finally {
+      clearInterval(heartbeat)
     }
   }
 
   /**
    * Process a single job item
+   *
+   * Returns the item's error message, or null when it succeeded.
    */
-  async processJobItem(job: SyncJob, jobItem: SyncJobItem): Promise<void> {
+  async processJobItem(job: SyncJob, jobItem: SyncJobItem): Promise<string | null> {
     try {
       // Update item status to processing
       await this.updateJobItemStatus(jobItem.id, 'processing')
 
-      // Execute the sync operation based on job type and item type
-      let result: boolean
+      // Execute the sync operation based on job type and item type. Connector
+      // calls wait for the shared rate limiter instead of failing with RATE_LIMITED.
+      const result = await rateLimiter.waitForTokens(async () => {
+        switch (job.type) {
+          case 'pull':
+            return this.processPullItem(job, jobItem)
 
-      switch (job.type) {
-        case 'pull':
-          result = await this.processPullItem(job, jobItem)
-          break
-        
-        case 'push':
-          result = await this.processPushItem(job, jobItem)
-          break
-        
-        case 'sync':
-          result = await this.processSyncItem(job, jobItem)
-          break
-        
-        default:
-          throw new Error(`Unsupported job type: ${job.type}`)
-      }
+          case 'push':
+            return this.processPushItem(job, jobItem)
+
+          case 'sync':
+            return this.processSyncItem(job, jobItem)
+
+          default:
+            throw new Error(`Unsupported job type: ${job.type}`)
+        }
+      })
 
       if (result) {
         await this.updateJobItemStatus(jobItem.id, 'completed')
         await this.logJobEvent(job.id, 'info', `Successfully processed ${jobItem.itemType} ${jobItem.itemId}`)
+        return null
       } else {
         throw new Error('Operation failed without specific error')
       }
@@ -400,26 +761,28 @@ export class SyncJobsService {
       const attempts = jobItem.attempts + 1
       
       if (attempts < jobItem.maxAttempts) {
-        // Schedule retry with exponential backoff
-        const retryDelay = Math.min(1000 * Math.pow(2, attempts), 300000) // Max 5 minutes
-        const nextRetryAt = new Date(Date.now() + retryDelay)
+        // Schedule retry with exponential backoff; the worker picks the item up once it is due
+        const nextRetryAt = await this.calculateNextRetry(attempts)
 
         await this.updateJobItemStatus(jobItem.id, 'pending', {
           attempts,
-          nextRetryAt,
-          errorMessage: error instanceof Error ? error.message : 'Unknown error'
+          next_retry_at: nextRetryAt.toISOString(),
+          error_message: error instanceof Error ? error.message : 'Unknown error'
         })
 
-        await this.logJobEvent(job.id, 'warning', `Item ${jobItem.itemId} failed, retrying in ${retryDelay}ms (attempt ${attempts}/${jobItem.maxAttempts})`)
+        await this.logJobEvent(job.id, 'warning', `Item ${jobItem.itemId} failed, retrying at ${nextRetryAt.toISOString()} (attempt ${attempts}/${jobItem.maxAttempts})`)
       } else {
-        // Max attempts reached, mark as failed
+        // Max attempts reached, move to the dead-letter queue
         await this.updateJobItemStatus(jobItem.id, 'failed', {
           attempts,
-          errorMessage: error instanceof Error ? error.message : 'Max retries exceeded'
+          error_message: error instanceof Error ? error.message : 'Max retries exceeded',
+          dead_lettered_at: new Date().toISOString()
         })
 
-        await this.logJobEvent(job.id, 'error', `Item ${jobItem.itemId} failed after ${attempts} attempts: ${error instanceof Error ? error.message : 'Unknown error'}`)
+        await this.logJobEvent(job.id, 'error', `Item ${jobItem.itemId} dead-lettered after ${attempts} attempts: ${error instanceof Error ? error.message : 'Unknown error'}`)
       }
+
+      return `${jobItem.itemType} ${jobItem.itemId}: ${error instanceof Error ? error.message : 'Unknown error'}`
     }
   }
 
@@ -434,10 +797,16 @@ export class SyncJobsService {
     try {
       switch (jobItem.itemType) {
         case 'product':
-          return await this.pullProduct(job.channel, jobItem.itemId)
+          return await this.pullProduct(job.channel, jobItem.itemId, job.channelAccountId, job.id)
         
         case 'order':
-          return await this.pullOrder(job.channel, jobItem.itemId)
+          return await this.pullOrder(job.channel, jobItem.itemId, job.channelAccountId)
+
+        case 'category':
+          return await this.pullCategories(job.channel, jobItem.itemId, job.channelAccountId)
+
+        case 'attribute_schema':
+          return await this.pullAttributeSchema(job.channel, jobItem.metadata.market, jobItem.itemId, job.channelAccountId)
         
         default:
           throw new Error(`Unsupported pull item type: ${jobItem.itemType}`)
@@ -454,13 +823,13 @@ export class SyncJobsService {
     try {
       switch (jobItem.itemType) {
         case 'product':
-          return await this.pushProduct(job.channel, jobItem.itemId, jobItem.metadata)
+          return await this.pushProduct(job.channel, jobItem.itemId, jobItem.metadata, job.channelAccountId)
         
         case 'stock':
-          return await this.pushStock(job.channel, jobItem.itemId, jobItem.metadata)
+          return await this.pushStock(job.channel, jobItem.itemId, jobItem.metadata, job.channelAccountId)
         
         case 'price':
-          return await this.pushPrice(job.channel, jobItem.itemId, jobItem.metadata)
+          return await this.pushPrice(job.channel, jobItem.itemId, jobItem.metadata, job.channelAccountId)
         
         default:
           throw new Error(`Unsupported push item type: ${jobItem.itemType}`)
@@ -472,26 +841,26 @@ export class SyncJobsService {
 
   /**
    * Process sync item (bi-directional sync)
+   *
+   * Products are merged field by field (see `SyncConflictsService`): each
+   * side gets the other's changes, and fields changed on both sides are left
+   * for review. Orders are owned by the platform and pulled.
    */
   private async processSyncItem(job: SyncJob, jobItem: SyncJobItem): Promise<boolean> {
     try {
-      // For sync operations, we compare versions and update the older one
-      const localData = await this.getLocalData(jobItem.itemType, jobItem.itemId)
-      const platformData = await this.getPlatformData(job.channel, jobItem.itemType, jobItem.itemId)
-
-      // Simple conflict resolution: last updated wins
-      const localUpdated = new Date(localData?.updated_at || 0)
-      const platformUpdated = new Date(platformData?.updated_at || 0)
-
-      if (localUpdated > platformUpdated) {
-        // Update platform with local data
-        return await this.pushProduct(job.channel, jobItem.itemId, localData)
-      } else if (platformUpdated > localUpdated) {
-        // Update local with platform data
-        return await this.pullProduct(job.channel, jobItem.itemId)
-      } else {
-        // No conflicts, consider successful
-        return true
+      switch (jobItem.itemType) {
+        case 'product':
+          // Placeholder item of sync jobs queued without pulls
+          if (jobItem.metadata?.action === 'bidirectional_sync') {
+            return true
+          }
+          return await this.syncProduct(job, jobItem.itemId)
+
+        case 'order':
+          return await this.pullOrder(job.channel, jobItem.itemId, job.channelAccountId)
+
+        default:
+          throw new Error(`Unsupported sync item type: ${jobItem.itemType}`)
       }
     } catch (error) {
       throw new Error(`Sync operation failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
@@ -499,120 +868,260 @@ export class SyncJobsService {
   }
 
   // =============================================================================
-  // PLATFORM-SPECIFIC OPERATIONS
+  // PLATFORM OPERATIONS (dispatched through the connector registry)
   // =============================================================================
 
   /**
    * Pull product from platform
+   *
+   * A product already in AIOStore is merged field by field rather than
+   * overwritten: fields owned by AIOStore or changed on both sides are kept,
+   * and AIOStore changes are left for the next sync job to push.
    */
-  private async pullProduct(channel: string, productId: string): Promise<boolean> {
+  private async pullProduct(channel: string, productId: string, channelAccountId?: string, jobId?: string): Promise<boolean> {
     try {
-      if (channel === 'shopee') {
-        const connector = createShopeeConnector()
-        const response = await connector.getProduct(productId)
-        
-        if (response.success && response.data) {
-          // Update or insert product in AIOStore database
-          const { error } = await supabase
-            .from('products')
-            .upsert({
-              id: response.data.id,
-              sku: response.data.title.toLowerCase().replace(/\s+/g, '-'),
-              name: response.data.title,
-              description: response.data.description,
-              category: response.data.category,
-              price: response.data.price,
-              stock: response.data.stock,
-              status: response.data.status,
-              platforms: [{
-                platform: 'shopee',
-                platformProductId: response.data.id,
-                isPublished: true,
-                lastSynced: new Date().toISOString()
-              }],
-              created_at: response.data.createdAt,
-              updated_at: response.data.updatedAt
-            })
-
-          if (error) {
-            throw error
+      const connector = await connectorRegistry.getConnector(channel, channelAccountId)
+      const response = await connector.getProduct(productId)
+
+      if (response.success && response.data) {
+        const ref: SyncItemRef = { channel, channelAccountId, itemType: 'product', itemId: productId }
+        const localData = await this.getLocalData('product', productId)
+        const merge = localData ? await syncConflictsService.mergeProduct(ref, localData, response.data) : null
+
+        // Stock is recorded as an inventory movement below
+        const { stock, ...columns } = {
+          name: response.data.title,
+          description: response.data.description,
+          category: response.data.category,
+          price: response.data.price,
+          stock: response.data.stock,
+          status: response.data.status,
+          ...(merge ? toLocalColumns({ ...merge.local, ...merge.toLocal }) : {})
+        }
+
+        // Update or insert product in AIOStore database
+        const { error } = await supabase
+          .from('products')
+          .upsert({
+            id: response.data.id,
+            sku: localData?.sku || response.data.title.toLowerCase().replace(/\s+/g, '-'),
+            ...columns,
+            options: response.data.options || [],
+            platforms: [{
+              platform: connector.platform,
+              platformProductId: response.data.id,
+              isPublished: true,
+              lastSynced: new Date().toISOString()
+            }],
+            created_at: response.data.createdAt,
+            updated_at: response.data.updatedAt
+          })
+
+        if (error) {
+          throw error
+        }
+
+        const movement = { reason: 'adjustment' as const, source: 'sync' as const, jobId }
+
+        if (response.data.variants?.length) {
+          // Variants without a seller SKU are keyed by their platform ID
+          const platformVariants = response.data.variants
+          const { data: variantRows, error: variantsError } = await supabase
+            .from('product_variants')
+            .upsert(platformVariants.map((variant, position) => ({
+              product_id: response.data!.id,
+              sku: variant.sku || variant.id,
+              options: variant.options,
+              price: variant.price,
+              compare_at_price: variant.compareAtPrice ?? null,
+              image: variant.image || null,
+              position
+            })), { onConflict: 'product_id,sku' })
+            .select('id, sku')
+
+          if (variantsError) {
+            throw variantsError
           }
 
-          return true
+          // The product's stock is the total of its variants
+          for (const row of variantRows || []) {
+            const variant = platformVariants.find(candidate => (candidate.sku || candidate.id) === row.sku)
+            if (typeof variant?.stock === 'number') {
+              await inventoryMovementsService.setStock(response.data.id, row.id, variant.stock, movement)
+            }
+          }
+        } else if (typeof stock === 'number') {
+          await inventoryMovementsService.setStock(response.data.id, undefined, stock, movement)
+        }
+
+        if (merge) {
+          await syncConflictsService.completeMerge(ref, merge, { pushed: false, jobId })
         } else {
-          throw new Error(response.error?.message || 'Failed to get product from Shopee')
+          await syncConflictsService.snapshotProduct(ref, response.data, jobId)
         }
-      }
 
-      // TODO: Add support for other channels
-      throw new Error(`Channel ${channel} not supported yet`)
+        return true
+      } else {
+        throw new Error(response.error?.message || `Failed to get product from ${channel}`)
+      }
 
     } catch (error) {
       throw new Error(`Pull product failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
     }
   }
 
+  /**
+   * Sync product both ways: AIOStore changes are pushed, platform changes
+   * written to AIOStore and conflicting fields queued for review
+   */
+  private async syncProduct(job: SyncJob, productId: string): Promise<boolean> {
+    const localData = await this.getLocalData('product', productId)
+    if (!localData) {
+      return this.pullProduct(job.channel, productId, job.channelAccountId, job.id)
+    }
+
+    const platformData = await this.getPlatformData(job.channel, 'product', productId, job.channelAccountId)
+    const ref: SyncItemRef = { channel: job.channel, channelAccountId: job.channelAccountId, itemType: 'product', itemId: productId }
+    const merge = await syncConflictsService.mergeProduct(ref, localData, platformData)
+
+    if (Object.keys(merge.toPlatform).length > 0) {
+      const connector = await connectorRegistry.getConnector(job.channel, job.channelAccountId)
+      const response = await connector.updateProduct(productId, toPlatformUpdate(productId, merge.toPlatform))
+
+      if (!response.success) {
+        throw new Error(response.error?.message || `Failed to update product on ${job.channel}`)
+      }
+    }
+
+    if (Object.keys(merge.toLocal).length > 0) {
+      const { stock, ...columns } = toLocalColumns(merge.toLocal)
+      const { error } = await supabase
+        .from('products')
+        .update({
+          ...columns,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', productId)
+
+      if (error) {
+        throw error
+      }
+
+      if (typeof stock === 'number') {
+        await inventoryMovementsService.setStock(productId, undefined, stock, { reason: 'adjustment', source: 'sync', jobId: job.id })
+      }
+    }
+
+    await syncConflictsService.completeMerge(ref, merge, { pushed: true, jobId: job.id })
+
+    if (merge.conflicts.length > 0) {
+      await this.logJobEvent(job.id, 'warning', `Product ${productId} has conflicting ${merge.conflicts.map(conflict => conflict.field).join(', ')} awaiting review`)
+    }
+
+    return true
+  }
+
   /**
    * Pull order from platform
    */
-  private async pullOrder(channel: string, orderId: string): Promise<boolean> {
+  private async pullOrder(channel: string, orderId: string, channelAccountId?: string): Promise<boolean> {
     try {
-      if (channel === 'shopee') {
-        const connector = createShopeeConnector()
-        const response = await connector.getOrder(orderId)
-        
-        if (response.success && response.data) {
-          // Update or insert order in AIOStore database
-          const { error } = await supabase
-            .from('orders')
-            .upsert({
-              id: response.data.id,
-              order_number: response.data.orderNumber,
-              platform: 'shopee',
-              platform_order_id: response.data.platformOrderId,
-              customer_name: response.data.customer.name,
-              customer_email: response.data.customer.email,
-              customer_phone: response.data.customer.phone,
-              items: response.data.items,
-              subtotal: response.data.items.reduce((sum, item) => sum + item.total, 0),
-              total: response.data.totalAmount,
-              order_status: response.data.status,
-              payment_status: response.data.paymentStatus,
-              order_date: response.data.orderDate,
-              created_at: response.data.createdAt,
-              updated_at: response.data.updatedAt
-            })
-
-          if (error) {
-            throw error
-          }
-
-          return true
-        } else {
-          throw new Error(response.error?.message || 'Failed to get order from Shopee')
+      const connector = await connectorRegistry.getConnector(channel, channelAccountId)
+      const response = await connector.getOrder(orderId)
+
+      if (response.success && response.data) {
+        // Update or insert order in AIOStore database
+        const { error } = await supabase
+          .from('orders')
+          .upsert({
+            id: response.data.id,
+            order_number: response.data.orderNumber,
+            platform: connector.platform,
+            platform_order_id: response.data.platformOrderId,
+            customer_name: response.data.customer.name,
+            customer_email: response.data.customer.email,
+            customer_phone: response.data.customer.phone,
+            items: response.data.items,
+            subtotal: response.data.items.reduce((sum, item) => sum + item.total, 0),
+            total: response.data.totalAmount,
+            order_status: response.data.status,
+            payment_status: response.data.paymentStatus,
+            order_date: response.data.orderDate,
+            created_at: response.data.createdAt,
+            updated_at: response.data.updatedAt
+          })
+
+        if (error) {
+          throw error
         }
-      }
 
-      throw new Error(`Channel ${channel} not supported yet`)
+        return true
+      } else {
+        throw new Error(response.error?.message || `Failed to get order from ${channel}`)
+      }
 
     } catch (error) {
       throw new Error(`Pull order failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
     }
   }
 
+  /**
+   * Pull the category tree of a market from platform
+   */
+  private async pullCategories(channel: string, market: string, channelAccountId?: string): Promise<boolean> {
+    try {
+      await categoriesService.syncCategories(channel, market, channelAccountId)
+      return true
+    } catch (error) {
+      throw new Error(`Pull categories failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  /**
+   * Pull the attribute schema of a leaf category from platform
+   */
+  private async pullAttributeSchema(
+    channel: string,
+    market: string,
+    categoryId: string,
+    channelAccountId?: string
+  ): Promise<boolean> {
+    try {
+      await categoriesService.syncAttributeSchema(channel, market, categoryId, channelAccountId)
+      return true
+    } catch (error) {
+      throw new Error(`Pull attribute schema failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
   /**
    * Push product to platform
    */
-  private async pushProduct(channel: string, productId: string, productData: any): Promise<boolean> {
+  private async pushProduct(
+    channel: string,
+    productId: string,
+    productData: any,
+    channelAccountId?: string
+  ): Promise<boolean> {
     try {
-      if (channel === 'shopee') {
-        const connector = createShopeeConnector()
-        const response = await connector.createProduct(productData)
-        
-        return response.success
+      const connector = await connectorRegistry.getConnector(channel, channelAccountId)
+
+      if (productData?.images?.length) {
+        productData = {
+          ...productData,
+          platformImages: await imagesService.uploadProductImages(
+            connector,
+            channel,
+            productId,
+            productData,
+            channelAccountId
+          )
+        }
       }
 
-      throw new Error(`Channel ${channel} not supported yet`)
+      const response = await connector.createProduct(productData)
+
+      return response.success
 
     } catch (error) {
       throw new Error(`Push product failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
@@ -621,17 +1130,20 @@ export class SyncJobsService {
 
   /**
    * Push stock update to platform
+   *
+   * `stockData.platformVariantId` targets a single variant of the listing.
    */
-  private async pushStock(channel: string, productId: string, stockData: any): Promise<boolean> {
+  private async pushStock(
+    channel: string,
+    productId: string,
+    stockData: any,
+    channelAccountId?: string
+  ): Promise<boolean> {
     try {
-      if (channel === 'shopee') {
-        const connector = createShopeeConnector()
-        const response = await connector.updateStock(productId, stockData.stock)
-        
-        return response.success
-      }
+      const connector = await connectorRegistry.getConnector(channel, channelAccountId)
+      const response = await connector.updateStock(productId, stockData.stock, stockData.platformVariantId)
 
-      throw new Error(`Channel ${channel} not supported yet`)
+      return response.success
 
     } catch (error) {
       throw new Error(`Push stock failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
@@ -640,17 +1152,25 @@ export class SyncJobsService {
 
   /**
    * Push price update to platform
+   *
+   * `priceData.platformVariantId` targets a single variant of the listing.
    */
-  private async pushPrice(channel: string, productId: string, priceData: any): Promise<boolean> {
+  private async pushPrice(
+    channel: string,
+    productId: string,
+    priceData: any,
+    channelAccountId?: string
+  ): Promise<boolean> {
     try {
-      if (channel === 'shopee') {
-        const connector = createShopeeConnector()
-        const response = await connector.updatePrice(productId, priceData.price, priceData.compareAtPrice)
-        
-        return response.success
-      }
+      const connector = await connectorRegistry.getConnector(channel, channelAccountId)
+      const response = await connector.updatePrice(
+        productId,
+        priceData.price,
+        priceData.compareAtPrice,
+        priceData.platformVariantId
+      )
 
-      throw new Error(`Channel ${channel} not supported yet`)
+      return response.success
 
     } catch (error) {
       throw new Error(`Push price failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
@@ -676,25 +1196,139 @@ export class SyncJobsService {
       return null
     }
 
-    return data
+    return dataTransformers.snakeToCamel(data) as SyncJob
   }
 
   /**
-   * Get job items for a job
+   * List jobs, newest first
    */
-  async getJobItems(jobId: string): Promise<SyncJobItem[]> {
-    const { data, error } = await supabase
+  async listJobs(filters: JobFilters = {}): Promise<{ jobs: SyncJob[]; total: number }> {
+    const page = filters.page || 1
+    const pageSize = filters.pageSize || 25
+
+    let query = supabase
+      .from('jobs')
+      .select('*', { count: 'exact' })
+      .order('created_at', { ascending: false })
+      .range((page - 1) * pageSize, page * pageSize - 1)
+
+    if (filters.channel) {
+      query = query.eq('channel', filters.channel)
+    }
+
+    if (filters.channelAccountId) {
+      query = query.eq('channel_account_id', filters.channelAccountId)
+    }
+
+    if (filters.status) {
+      query = query.eq('status', filters.status)
+    }
+
+    if (filters.type) {
+      query = query.eq('type', filters.type)
+    }
+
+    const { data, error, count } = await query
+
+    if (error) {
+      throw new Error(`Failed to list jobs: ${error.message}`)
+    }
+
+    return {
+      jobs: dataTransformers.snakeToCamel(data || []) as SyncJob[],
+      total: count || 0
+    }
+  }
+
+  /**
+   * Get job items for a job, a page at a time
+   */
+  async getJobItems(jobId: string, options: { status?: string; page?: number; pageSize?: number } = {}): Promise<SyncJobItem[]> {
+    const page = options.page || 1
+    const pageSize = options.pageSize || 100
+
+    let query = supabase
       .from('job_items')
       .select('*')
       .eq('job_id', jobId)
       .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range((page - 1) * pageSize, page * pageSize - 1)
+
+    if (options.status) {
+      query = query.eq('status', options.status)
+    }
+
+    const { data, error } = await query
 
     if (error) {
       console.error(`${this.logPrefix} Error fetching job items for ${jobId}:`, error)
       return []
     }
 
-    return data || []
+    return dataTransformers.snakeToCamel(data || []) as SyncJobItem[]
+  }
+
+  /**
+   * Get the log of a job, oldest first; `after` returns only newer entries
+   */
+  async getJobLogs(jobId: string, after?: Date, limit = 200): Promise<SyncLog[]> {
+    let query = supabase
+      .from('sync_logs')
+      .select('*')
+      .eq('job_id', jobId)
+      .order('created_at', { ascending: true })
+      .limit(limit)
+
+    if (after) {
+      query = query.gt('created_at', after.toISOString())
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      console.error(`${this.logPrefix} Error fetching logs for ${jobId}:`, error)
+      return []
+    }
+
+    return dataTransformers.snakeToCamel(data || []) as SyncLog[]
+  }
+
+  /**
+   * Get a job's progress events after `afterId`, oldest first
+   */
+  async getProgressEvents(jobId: string, afterId = 0, limit = 100): Promise<JobProgressEvent[]> {
+    const { data, error } = await supabase
+      .from('job_progress_events')
+      .select('*')
+      .eq('job_id', jobId)
+      .gt('id', afterId)
+      .order('id', { ascending: true })
+      .limit(limit)
+
+    if (error) {
+      throw new Error(`Failed to fetch progress events: ${error.message}`)
+    }
+
+    return dataTransformers.snakeToCamel(data || []) as JobProgressEvent[]
+  }
+
+  /**
+   * Get a job's latest progress event, or null before its first one
+   */
+  async getLatestProgress(jobId: string): Promise<JobProgressEvent | null> {
+    const { data, error } = await supabase
+      .from('job_progress_events')
+      .select('*')
+      .eq('job_id', jobId)
+      .order('id', { ascending: false })
+      .limit(1)
+
+    if (error) {
+      throw new Error(`Failed to fetch progress events: ${error.message}`)
+    }
+
+    return data && data.length > 0 ? dataTransformers.snakeToCamel(data[0]) as JobProgressEvent : null
   }
 
   /**
@@ -708,6 +1342,7 @@ export class SyncJobsService {
         .update({
           status: 'pending',
           error_message: null,
+          next_run_at: null,
           updated_at: new Date().toISOString()
         })
         .eq('id', jobId)
@@ -723,6 +1358,7 @@ export class SyncJobsService {
           status: 'pending',
           error_message: null,
           next_retry_at: null,
+          dead_lettered_at: null,
           updated_at: new Date().toISOString()
         })
         .eq('job_id', jobId)
@@ -733,6 +1369,7 @@ export class SyncJobsService {
       }
 
       await this.logJobEvent(jobId, 'info', 'Job reset for retry')
+      await this.publishProgress(jobId)
 
       console.log(`${this.logPrefix} Job ${jobId} reset for retry`)
 
@@ -749,21 +1386,30 @@ export class SyncJobsService {
    */
   async cancelJob(jobId: string): Promise<boolean> {
     try {
-      const { error } = await supabase
+      // A running job's worker loses its lease on the next heartbeat and stops
+      const { data, error } = await supabase
         .from('jobs')
         .update({
           status: 'cancelled',
           completed_at: new Date(),
+          locked_by: null,
+          locked_until: null,
           updated_at: new Date().toISOString()
         })
         .eq('id', jobId)
-        .eq('status', 'pending')
+        .in('status', ['pending', 'running'])
+        .select('id')
 
       if (error) {
         throw error
       }
 
+      if (!data || data.length === 0) {
+        return false
+      }
+
       await this.logJobEvent(jobId, 'info', 'Job cancelled')
+      await this.publishProgress(jobId)
 
       console.log(`${this.logPrefix} Job ${jobId} cancelled`)
 
@@ -775,10 +1421,164 @@ export class SyncJobsService {
     }
   }
 
+  // =============================================================================
+  // DEAD LETTER QUEUE
+  // =============================================================================
+
+  /**
+   * List job items that exhausted their retries, newest first
+   */
+  async listDeadLetters(filters: DeadLetterFilters = {}): Promise<{ items: DeadLetterItem[]; total: number }> {
+    const page = filters.page || 1
+    const pageSize = filters.pageSize || 50
+
+    let query = supabase
+      .from('dead_letter_items')
+      .select('*', { count: 'exact' })
+      .order('dead_lettered_at', { ascending: false })
+      .range((page - 1) * pageSize, page * pageSize - 1)
+
+    if (filters.channel) {
+      query = query.eq('channel', filters.channel)
+    }
+
+    if (filters.channelAccountId) {
+      query = query.eq('channel_account_id', filters.channelAccountId)
+    }
+
+    if (filters.itemType) {
+      query = query.eq('item_type', filters.itemType)
+    }
+
+    const { data, error, count } = await query
+
+    if (error) {
+      throw new Error(`Failed to list dead letters: ${error.message}`)
+    }
+
+    return {
+      items: dataTransformers.snakeToCamel(data || []) as DeadLetterItem[],
+      total: count || 0
+    }
+  }
+
+  /**
+   * Replace the payload a dead-lettered item is replayed with
+   */
+  async updateDeadLetterPayload(itemId: string, metadata: any): Promise<boolean> {
+    const { data, error } = await supabase
+      .from('job_items')
+      .update({
+        metadata,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', itemId)
+      .eq('status', 'failed')
+      .not('dead_lettered_at', 'is', null)
+      .select('id, job_id')
+
+    if (error) {
+      throw new Error(`Failed to update dead letter payload: ${error.message}`)
+    }
+
+    if (!data || data.length === 0) {
+      return false
+    }
+
+    await this.logJobEvent(data[0].job_id, 'info', `Payload of dead-lettered item ${itemId} edited`)
+    return true
+  }
+
+  /**
+   * Replay dead-lettered items with a fresh set of attempts
+   *
+   * The items' jobs go back to pending so the worker picks them up; jobs that
+   * are still running process them before they finish.
+   */
+  async replayDeadLetters(itemIds: string[]): Promise<number> {
+    if (itemIds.length === 0) {
+      return 0
+    }
+
+    const { data: items, error } = await supabase
+      .from('job_items')
+      .select('id, job_id, replay_count')
+      .in('id', itemIds)
+      .eq('status', 'failed')
+      .not('dead_lettered_at', 'is', null)
+
+    if (error) {
+      throw new Error(`Failed to load dead letters: ${error.message}`)
+    }
+
+    for (const item of items || []) {
+      await this.updateJobItemStatus(item.id, 'pending', {
+        attempts: 0,
+        next_retry_at: null,
+        error_message: null,
+        dead_lettered_at: null,
+        replay_count: (item.replay_count || 0) + 1
+      })
+    }
+
+    const jobIds = Array.from(new Set((items || []).map(item => item.job_id as string)))
+
+    if (jobIds.length > 0) {
+      const { error: jobsError } = await supabase
+        .from('jobs')
+        .update({
+          status: 'pending',
+          next_run_at: null,
+          error_message: null,
+          updated_at: new Date().toISOString()
+        })
+        .in('id', jobIds)
+        .in('status', ['completed', 'failed', 'cancelled'])
+
+      if (jobsError) {
+        throw new Error(`Failed to requeue jobs: ${jobsError.message}`)
+      }
+
+      for (const jobId of jobIds) {
+        const count = (items || []).filter(item => item.job_id === jobId).length
+        await this.logJobEvent(jobId, 'info', `Replaying ${count} dead-lettered items`)
+      }
+    }
+
+    console.log(`${this.logPrefix} Replaying ${items?.length || 0} dead-lettered items`)
+
+    return items?.length || 0
+  }
+
   // =============================================================================
   // PRIVATE HELPER METHODS
   // =============================================================================
 
+  /**
+   * Advance the watermark of a completed pull job; items that changed after
+   * it was queued are pulled by the next job
+   */
+  private async advanceWatermark(job: SyncJob): Promise<void> {
+    const { from, to } = job.metadata.watermark
+
+    try {
+      const advanced = await syncWatermarksService.advanceWatermark(
+        job.channelAccountId!,
+        job.metadata.dataType as WatermarkDataType,
+        from ? new Date(from) : null,
+        new Date(to),
+        job.id
+      )
+
+      await this.logJobEvent(job.id, 'info', advanced
+        ? `Watermark of ${job.metadata.dataType} advanced to ${to}`
+        : `Watermark of ${job.metadata.dataType} changed while the job ran and was left as is`)
+    } catch (error) {
+      // The next pull repeats this one's window
+      console.error(`${this.logPrefix} Failed to advance watermark for job ${job.id}:`, error)
+    }
+  }
+
   /**
    * Update job status
    */
@@ -797,6 +1597,106 @@ export class SyncJobsService {
     }
   }
 
+  /**
+   * Extend a job's lease; false when the worker no longer holds it
+   */
+  private async renewLease(jobId: string, workerId: string): Promise<boolean> {
+    const { data, error } = await getSupabaseAdmin().rpc('renew_job_lease', {
+      p_job_id: jobId,
+      p_worker_id: workerId,
+      p_lease_seconds: JOB_LEASE_MS / 1000
+    })
+
+    if (error) {
+      // A failed heartbeat is retried on the next beat; the lease outlives several
+      console.error(`${this.logPrefix} Failed to renew lease on job ${jobId}:`, error)
+      return true
+    }
+
+    return Boolean(data)
+  }
+
+  /**
+   * Retry time after a failed attempt, from the `calculate_next_retry` backoff
+   */
+  private async calculateNextRetry(attempts: number): Promise<Date> {
+    const { data, error } = await supabase.rpc('calculate_next_retry', { attempts })
+
+    if (error || !data) {
+      // Same backoff as the SQL helper: 60s * 2^attempts, capped at 24 hours
+      return new Date(Date.now() + Math.min(60 * 1000 * Math.pow(2, attempts), 24 * 60 * 60 * 1000))
+    }
+
+    return new Date(data)
+  }
+
+  /**
+   * Earliest retry time of a job's pending items, or null when none are left
+   */
+  private async getNextRetryAt(jobId: string): Promise<Date | null> {
+    const { data, error } = await supabase
+      .from('job_items')
+      .select('next_retry_at')
+      .eq('job_id', jobId)
+      .eq('status', 'pending')
+      .order('next_retry_at', { ascending: true, nullsFirst: true })
+      .limit(1)
+
+    if (error) {
+      throw new Error(`Failed to read item retries: ${error.message}`)
+    }
+
+    if (!data || data.length === 0) {
+      return null
+    }
+
+    // Items without a retry time (e.g. replayed during this run) are due now
+    return data[0].next_retry_at ? new Date(data[0].next_retry_at) : new Date()
+  }
+
+  /**
+   * Whether a running job should yield: a higher-priority job is due, or the
+   * job used up its time slice and a job of the same priority is due
+   */
+  private async hasWaitingJobs(job: SyncJob, runningForMs: number): Promise<boolean> {
+    const priority = job.priority ?? JOB_PRIORITIES.normal
+    const minPriority = runningForMs >= JOB_TIME_SLICE_MS ? priority : priority + 1
+    if (minPriority > JOB_PRIORITIES.urgent) {
+      return false
+    }
+
+    const { count, error } = await supabase
+      .from('jobs')
+      .select('id', { count: 'exact', head: true })
+      .eq('status', 'pending')
+      .gte('priority', minPriority)
+      .or(`next_run_at.is.null,next_run_at.lte.${new Date().toISOString()}`)
+
+    if (error) {
+      console.error(`${this.logPrefix} Failed to check waiting jobs:`, error)
+      return false
+    }
+
+    return (count || 0) > 0
+  }
+
+  /**
+   * Count a job's items in a status
+   */
+  private async countJobItems(jobId: string, status: string): Promise<number> {
+    const { count, error } = await supabase
+      .from('job_items')
+      .select('id', { count: 'exact', head: true })
+      .eq('job_id', jobId)
+      .eq('status', status)
+
+    if (error) {
+      throw new Error(`Failed to count job items: ${error.message}`)
+    }
+
+    return count || 0
+  }
+
   /**
    * Update job item status
    */
@@ -815,6 +1715,22 @@ export class SyncJobsService {
     }
   }
 
+  /**
+   * Recount a job's items and publish a progress event through `update_job_progress`
+   */
+  private async publishProgress(jobId: string, currentItem?: string, errorMessage?: string): Promise<void> {
+    const { error } = await supabase.rpc('update_job_progress', {
+      p_job_id: jobId,
+      p_current_item: currentItem ?? null,
+      p_error_message: errorMessage ?? null
+    })
+
+    if (error) {
+      // Progress is informational; the job carries on without it
+      console.error(`${this.logPrefix} Failed to publish progress for job ${jobId}:`, error)
+    }
+  }
+
   /**
    * Log job event
    */
@@ -837,25 +1753,136 @@ export class SyncJobsService {
   /**
    * Get items for pull operation
    */
-  private async getItemsForPull(channel: string, dataType: string, params: any): Promise<any[]> {
-    // This would fetch items from the platform that need to be pulled
-    // For now, return empty array - would be implemented based on platform API
+  private async getItemsForPull(channel: string, dataType: string, params: any, channelAccountId?: string): Promise<any[]> {
+    // Category trees are fetched whole, so each market is a single item
+    if (dataType === 'categories') {
+      if (!params?.market) {
+        throw new Error('market is required to pull categories')
+      }
+      return [{ type: 'category', id: params.market }]
+    }
+
+    // Attribute schemas default to every mapped category of the market
+    if (dataType === 'attributes') {
+      if (!params?.market) {
+        throw new Error('market is required to pull attributes')
+      }
+      const categoryIds: string[] = params.categoryIds || await categoriesService.getMappedCategoryIds(channel, params.market)
+      return categoryIds.map(categoryId => ({
+        type: 'attribute_schema',
+        id: categoryId,
+        data: { market: params.market }
+      }))
+    }
+
+    if (dataType === 'products') {
+      // Webhooks name the products that changed
+      const productIds: string[] = params?.productIds || (params?.productId ? [params.productId] : [])
+      if (productIds.length > 0) {
+        return productIds.map(id => ({ type: 'product', id: String(id) }))
+      }
+
+      const connector = await connectorRegistry.getConnector(channel, channelAccountId)
+      const since = params?.options?.since ? new Date(params.options.since) : undefined
+      // Platforms that list IDs alone skip fetching details the job fetches again
+      const pages = connector.iterateProductIds
+        ? connector.iterateProductIds({ modifiedFrom: since })
+        : connector.iterateProducts({ modifiedFrom: since })
+      return this.collectItemIds('product', pages, params?.options?.limit)
+    }
+
+    if (dataType === 'orders') {
+      const orderIds: string[] = params?.orderIds || (params?.orderId ? [params.orderId] : [])
+      if (orderIds.length > 0) {
+        return orderIds.map(id => ({ type: 'order', id: String(id) }))
+      }
+
+      const connector = await connectorRegistry.getConnector(channel, channelAccountId)
+      const since = params?.options?.since
+        ? new Date(params.options.since)
+        : new Date(Date.now() - DEFAULT_ORDER_PULL_WINDOW_MS)
+      return this.collectItemIds('order', connector.iterateOrders({ dateFrom: since }), params?.options?.limit)
+    }
+
     return []
   }
 
+  /**
+   * Collect the IDs of every listed product or order as job items; details
+   * are fetched per item when the job runs
+   */
+  private async collectItemIds(
+    type: 'product' | 'order',
+    pages: AsyncIterable<Array<string | { id: string }>>,
+    limit?: number
+  ): Promise<any[]> {
+    const items: any[] = []
+
+    // Listing calls wait for rate limit tokens like job items do
+    await rateLimiter.waitForTokens(async () => {
+      for await (const page of pages) {
+        for (const record of page) {
+          items.push({ type, id: typeof record === 'string' ? record : record.id })
+          if (limit && items.length >= limit) {
+            return
+          }
+        }
+      }
+    })
+
+    return items
+  }
+
+  /**
+   * Job queued for an idempotency key, if any. Keys are scoped to the
+   * channel account, job type and data type, like their unique index.
+   */
+  private async findJobByIdempotencyKey(
+    idempotencyKey: string,
+    scope: { type: string; channelAccountId?: string; metadata?: any }
+  ): Promise<string | null> {
+    let query = supabase
+      .from('jobs')
+      .select('id')
+      .eq('idempotency_key', idempotencyKey)
+      .eq('type', scope.type)
+
+    query = scope.channelAccountId
+      ? query.eq('channel_account_id', scope.channelAccountId)
+      : query.is('channel_account_id', null)
+
+    query = scope.metadata?.dataType
+      ? query.eq('metadata->>dataType', scope.metadata.dataType)
+      : query.is('metadata->>dataType', null)
+
+    const { data, error } = await query.maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to look up idempotency key: ${error.message}`)
+    }
+
+    return data?.id || null
+  }
+
   /**
    * Get items for push operation
+   *
+   * Only products are pushed by ID; stock and price pushes name the listing
+   * (and variant) they change, so they must be queued as `PushItem`s.
    */
   private async getItemsForPush(channel: string, dataType: string, itemIds: string[]): Promise<any[]> {
+    if (itemIds.length > 0 && dataType !== 'products') {
+      throw new Error(`${dataType} pushes must be queued as PushItems, not IDs`)
+    }
+
     // Get items from AIOStore database that need to be pushed
     const items: any[] = []
 
     for (const id of itemIds) {
       items.push({
-        type: dataType === 'products' ? 'product' : 
-              dataType === 'orders' ? 'order' : 'product',
+        type: 'product',
         id,
-        data: await this.getLocalData(dataType === 'products' ? 'product' : 'product', id)
+        data: await this.getLocalData('product', id)
       })
     }
 
@@ -884,10 +1911,17 @@ export class SyncJobsService {
   /**
    * Get platform data
    */
-  private async getPlatformData(channel: string, itemType: string, itemId: string): Promise<any> {
-    // This would fetch from the platform API
-    // For now, return null
-    return null
+  private async getPlatformData(channel: string, itemType: string, itemId: string, channelAccountId?: string): Promise<any> {
+    const connector = await connectorRegistry.getConnector(channel, channelAccountId)
+    const response = itemType === 'product'
+      ? await connector.getProduct(itemId)
+      : await connector.getOrder(itemId)
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error?.message || `Failed to get ${itemType} from ${channel}`)
+    }
+
+    return response.data
   }
 }
 
@@ -0,0 +1,356 @@
+/**
+ * Sync Schedules Service
+ *
+ * Persists the auto-sync settings from Settings → Sync per branch and channel
+ * account, and runs them: due account schedules are claimed atomically
+ * (`claim_due_sync_schedules`) and their pull and sync jobs queued through
+ * `SyncJobsService`. The sync worker checks for due schedules every minute;
+ * deployments without a worker call `POST /api/internal/cron/sync-schedules`.
+ */
+
+import { supabase } from '@/lib/supabase'
+import { getSupabaseAdmin } from '@/lib/supabase-admin'
+import { dataTransformers } from '@/lib/data-sources'
+import { syncJobsService } from '@/services/sync-jobs-service'
+import { channelsService, ChannelAccount } from '@/services/channels-service'
+
+// =============================================================================
+// TYPES AND INTERFACES
+// =============================================================================
+
+export type SyncFrequency = '5min' | '15min' | '30min' | '1hour' | '4hour' | '1day'
+
+export type SyncDataType = 'products' | 'inventory' | 'orders' | 'messages'
+
+export interface SyncSchedule {
+  id: string
+  branchId?: string
+  channelAccountId?: string // Unset on a branch's defaults row
+  enabled: boolean
+  frequency: SyncFrequency
+  dataTypes: SyncDataType[]
+  lastRunAt?: Date
+  nextRunAt?: Date
+  lastJobIds: string[]
+  lastError?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface SyncScheduleSettings {
+  enabled: boolean
+  frequency: SyncFrequency
+  dataTypes: SyncDataType[]
+}
+
+export interface AccountSchedule {
+  account: Pick<ChannelAccount, 'id' | 'channel' | 'shopName' | 'status'>
+  schedule: SyncSchedule | null
+}
+
+export const SYNC_FREQUENCIES: SyncFrequency[] = ['5min', '15min', '30min', '1hour', '4hour', '1day']
+
+export const SYNC_DATA_TYPES: SyncDataType[] = ['products', 'inventory', 'orders', 'messages']
+
+// Schedules claimed per scheduler run
+const SCHEDULE_CLAIM_LIMIT = 20
+
+interface ClaimedSchedule {
+  id: string
+  channel_account_id: string
+  data_types: SyncDataType[]
+}
+
+// =============================================================================
+// SYNC SCHEDULES SERVICE CLASS
+// =============================================================================
+
+export class SyncSchedulesService {
+  private readonly table = 'sync_schedules'
+  private readonly logPrefix = '[SyncSchedules]'
+
+  // =============================================================================
+  // SETTINGS
+  // =============================================================================
+
+  /**
+   * Get a branch's default settings and the schedule of each of its accounts.
+   * Without a branch, every account is listed with the global defaults.
+   */
+  async getSchedules(branchId?: string): Promise<{ defaults: SyncSchedule | null; accounts: AccountSchedule[] }> {
+    const accounts = await this.listBranchAccounts(branchId)
+
+    const [defaults, schedules] = await Promise.all([
+      this.getDefaults(branchId),
+      this.getAccountSchedules(accounts.map(account => account.id))
+    ])
+
+    return {
+      defaults,
+      accounts: accounts.map(account => ({
+        account: {
+          id: account.id,
+          channel: account.channel,
+          shopName: account.shopName,
+          status: account.status
+        },
+        schedule: schedules.find(schedule => schedule.channelAccountId === account.id) || null
+      }))
+    }
+  }
+
+  /**
+   * Save a branch's settings. The defaults apply to every account of the
+   * branch; `enabledAccounts` switches auto-sync per account.
+   */
+  async saveSchedules(
+    branchId: string | undefined,
+    settings: SyncScheduleSettings,
+    enabledAccounts: Record<string, boolean>
+  ): Promise<{ defaults: SyncSchedule | null; accounts: AccountSchedule[] }> {
+    const row = {
+      branch_id: branchId || null,
+      enabled: settings.enabled,
+      frequency: settings.frequency,
+      data_types: settings.dataTypes
+    }
+
+    // The defaults row can't be upserted: its unique index is on an expression
+    const defaults = await this.getDefaults(branchId)
+    const { error } = defaults
+      ? await supabase.from(this.table).update(row).eq('id', defaults.id)
+      : await supabase.from(this.table).insert(row)
+
+    if (error) {
+      throw new Error(`Failed to save sync defaults: ${error.message}`)
+    }
+
+    const accounts = await this.listBranchAccounts(branchId)
+    if (accounts.length > 0) {
+      const { error: accountsError } = await supabase
+        .from(this.table)
+        .upsert(
+          accounts.map(account => ({
+            ...row,
+            branch_id: account.branchId || branchId || null,
+            channel_account_id: account.id,
+            enabled: settings.enabled && enabledAccounts[account.id] !== false
+          })),
+          { onConflict: 'channel_account_id' }
+        )
+
+      if (accountsError) {
+        throw new Error(`Failed to save account schedules: ${accountsError.message}`)
+      }
+    }
+
+    console.log(`${this.logPrefix} Saved sync settings for ${branchId ? `branch ${branchId}` : 'all accounts'}`)
+
+    return this.getSchedules(branchId)
+  }
+
+  // =============================================================================
+  // SCHEDULER
+  // =============================================================================
+
+  /**
+   * Queue the jobs of every due account schedule. Returns the number of
+   * schedules run.
+   */
+  async runDueSchedules(): Promise<number> {
+    await this.createMissingSchedules()
+
+    const { data, error } = await getSupabaseAdmin().rpc('claim_due_sync_schedules', {
+      p_limit: SCHEDULE_CLAIM_LIMIT
+    })
+
+    if (error) {
+      throw new Error(`Failed to claim sync schedules: ${error.message}`)
+    }
+
+    const due = (data || []) as ClaimedSchedule[]
+    for (const schedule of due) {
+      await this.runSchedule(schedule)
+    }
+
+    return due.length
+  }
+
+  /**
+   * Queue one account's pull and sync jobs and record the outcome
+   */
+  private async runSchedule(schedule: ClaimedSchedule): Promise<void> {
+    const jobIds: string[] = []
+    const errors: string[] = []
+
+    const account = await channelsService.getChannelAccount(schedule.channel_account_id)
+    if (!account || account.status !== 'active') {
+      errors.push('Channel account is not active')
+    } else {
+      // Pulls continue from the account's watermarks; the first pulls everything
+      const params = {
+        channelAccountId: account.id,
+        priority: 'low' as const
+      }
+
+      for (const dataType of schedule.data_types) {
+        try {
+          switch (dataType) {
+            case 'products':
+              jobIds.push(await syncJobsService.queuePullJob(account.channel, 'products', params))
+              break
+
+            case 'orders':
+              jobIds.push(await syncJobsService.queuePullJob(account.channel, 'orders', params))
+              break
+
+            case 'inventory':
+              jobIds.push(await syncJobsService.queueSyncJob(account.channel, {
+                channelAccountId: account.id,
+                pushUpdates: true,
+                resolveConflicts: true,
+                priority: 'low'
+              }))
+              break
+
+            case 'messages':
+              // No connector syncs messages yet
+              break
+          }
+        } catch (error) {
+          errors.push(`${dataType}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+        }
+      }
+    }
+
+    const { error } = await supabase
+      .from(this.table)
+      .update({
+        last_job_ids: jobIds,
+        last_error: errors.length > 0 ? errors.join('; ') : null
+      })
+      .eq('id', schedule.id)
+
+    if (error) {
+      console.error(`${this.logPrefix} Failed to record run of schedule ${schedule.id}:`, error)
+    }
+
+    if (errors.length > 0) {
+      console.warn(`${this.logPrefix} Schedule for account ${schedule.channel_account_id} ran with errors:`, errors)
+    } else {
+      console.log(`${this.logPrefix} Queued ${jobIds.length} jobs for account ${schedule.channel_account_id}`)
+    }
+  }
+
+  /**
+   * Give accounts connected after the settings were saved a schedule from
+   * their branch's defaults
+   */
+  private async createMissingSchedules(): Promise<void> {
+    const { data: defaultsRows, error } = await supabase
+      .from(this.table)
+      .select('*')
+      .is('channel_account_id', null)
+
+    if (error) {
+      throw new Error(`Failed to load sync defaults: ${error.message}`)
+    }
+
+    if (!defaultsRows || defaultsRows.length === 0) {
+      return
+    }
+
+    const accounts = await channelsService.listChannelAccounts({ status: 'active' })
+    const schedules = await this.getAccountSchedules(accounts.map(account => account.id))
+    const missing = accounts.filter(account =>
+      !schedules.some(schedule => schedule.channelAccountId === account.id)
+    )
+
+    const rows = missing.flatMap(account => {
+      const defaults = defaultsRows.find(row => row.branch_id === (account.branchId || null))
+        || defaultsRows.find(row => row.branch_id === null)
+
+      return defaults
+        ? [{
+            branch_id: account.branchId || null,
+            channel_account_id: account.id,
+            enabled: defaults.enabled,
+            frequency: defaults.frequency,
+            data_types: defaults.data_types
+          }]
+        : []
+    })
+
+    if (rows.length === 0) {
+      return
+    }
+
+    const { error: insertError } = await supabase
+      .from(this.table)
+      .upsert(rows, { onConflict: 'channel_account_id', ignoreDuplicates: true })
+
+    if (insertError) {
+      throw new Error(`Failed to create account schedules: ${insertError.message}`)
+    }
+  }
+
+  // =============================================================================
+  // PRIVATE HELPER METHODS
+  // =============================================================================
+
+  /**
+   * Accounts of a branch, or every account without one
+   */
+  private async listBranchAccounts(branchId?: string): Promise<ChannelAccount[]> {
+    const accounts = await channelsService.listChannelAccounts()
+    return branchId ? accounts.filter(account => account.branchId === branchId) : accounts
+  }
+
+  /**
+   * A branch's defaults row (the global row without a branch)
+   */
+  private async getDefaults(branchId?: string): Promise<SyncSchedule | null> {
+    let query = supabase
+      .from(this.table)
+      .select('*')
+      .is('channel_account_id', null)
+
+    query = branchId ? query.eq('branch_id', branchId) : query.is('branch_id', null)
+
+    const { data, error } = await query.maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load sync defaults: ${error.message}`)
+    }
+
+    return data ? dataTransformers.snakeToCamel(data) as SyncSchedule : null
+  }
+
+  /**
+   * Schedules of the given accounts
+   */
+  private async getAccountSchedules(accountIds: string[]): Promise<SyncSchedule[]> {
+    if (accountIds.length === 0) {
+      return []
+    }
+
+    const { data, error } = await supabase
+      .from(this.table)
+      .select('*')
+      .in('channel_account_id', accountIds)
+
+    if (error) {
+      throw new Error(`Failed to load account schedules: ${error.message}`)
+    }
+
+    return dataTransformers.snakeToCamel(data || []) as SyncSchedule[]
+  }
+}
+
+// =============================================================================
+// EXPORTS
+// =============================================================================
+
+export const syncSchedulesService = new SyncSchedulesService()
+
+export default SyncSchedulesService
@@ -0,0 +1,139 @@
+/**
+ * Sync Watermarks Service
+ *
+ * Tracks how far each channel account's products and orders have been
+ * pulled. `SyncJobsService.queuePullJob` lists only what changed after the
+ * watermark and advances it when the pull job completes without failures;
+ * resetting a watermark makes the next pull a full resync.
+ */
+
+import { supabase } from '@/lib/supabase'
+import { dataTransformers } from '@/lib/data-sources'
+
+// =============================================================================
+// TYPES AND INTERFACES
+// =============================================================================
+
+export type WatermarkDataType = 'products' | 'orders'
+
+export interface SyncWatermark {
+  channelAccountId: string
+  dataType: WatermarkDataType
+  watermark: Date // Platform update_time pulled up to
+  lastJobId?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+export const WATERMARK_DATA_TYPES: WatermarkDataType[] = ['products', 'orders']
+
+// =============================================================================
+// SYNC WATERMARKS SERVICE CLASS
+// =============================================================================
+
+export class SyncWatermarksService {
+  private readonly table = 'sync_watermarks'
+  private readonly logPrefix = '[SyncWatermarks]'
+
+  /**
+   * Get an account's watermark for a data type, or null before its first
+   * completed pull
+   */
+  async getWatermark(channelAccountId: string, dataType: WatermarkDataType): Promise<Date | null> {
+    const { data, error } = await supabase
+      .from(this.table)
+      .select('watermark')
+      .eq('channel_account_id', channelAccountId)
+      .eq('data_type', dataType)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load sync watermark: ${error.message}`)
+    }
+
+    return data ? new Date(data.watermark) : null
+  }
+
+  /**
+   * List watermarks, optionally of some accounts only
+   */
+  async listWatermarks(channelAccountIds?: string[]): Promise<SyncWatermark[]> {
+    let query = supabase
+      .from(this.table)
+      .select('*')
+      .order('channel_account_id')
+      .order('data_type')
+
+    if (channelAccountIds) {
+      query = query.in('channel_account_id', channelAccountIds)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      throw new Error(`Failed to list sync watermarks: ${error.message}`)
+    }
+
+    return dataTransformers.snakeToCamel(data || []) as SyncWatermark[]
+  }
+
+  /**
+   * Move a watermark from `from` (null for a full pull) to `to` once a pull
+   * job completed. Returns false when the watermark moved in the meantime,
+   * e.g. it was reset while the job ran.
+   */
+  async advanceWatermark(
+    channelAccountId: string,
+    dataType: WatermarkDataType,
+    from: Date | null,
+    to: Date,
+    jobId: string
+  ): Promise<boolean> {
+    const { data, error } = await supabase.rpc('advance_sync_watermark', {
+      p_channel_account_id: channelAccountId,
+      p_data_type: dataType,
+      p_from: from ? from.toISOString() : null,
+      p_to: to.toISOString(),
+      p_job_id: jobId
+    })
+
+    if (error) {
+      throw new Error(`Failed to advance sync watermark: ${error.message}`)
+    }
+
+    return Boolean(data)
+  }
+
+  /**
+   * Reset an account's watermarks (one data type or all), so the next pull
+   * fetches everything. Returns the number of watermarks removed.
+   */
+  async resetWatermarks(channelAccountId: string, dataType?: WatermarkDataType): Promise<number> {
+    let query = supabase
+      .from(this.table)
+      .delete()
+      .eq('channel_account_id', channelAccountId)
+
+    if (dataType) {
+      query = query.eq('data_type', dataType)
+    }
+
+    const { data, error } = await query.select('data_type')
+
+    if (error) {
+      throw new Error(`Failed to reset sync watermarks: ${error.message}`)
+    }
+
+    console.log(`${this.logPrefix} Reset ${dataType || 'all'} watermarks of account ${channelAccountId}`)
+
+    return data?.length || 0
+  }
+}
+
+// =============================================================================
+// EXPORTS
+// =============================================================================
+
+export const syncWatermarksService = new SyncWatermarksService()
+
+export default SyncWatermarksService
@@ -0,0 +1,386 @@
+/**
+ * Warehouses Service
+ *
+ * Warehouses of each branch and the locations (bins, shelves) within them,
+ * the stock each warehouse holds per product and variant, and which
+ * warehouses each channel account sells from. Warehouse stock changes only
+ * through inventory movements (`InventoryMovementsService`); stock moves
+ * between warehouses with `transferStock` there.
+ */
+
+import { supabase } from '@/lib/supabase'
+import { dataTransformers } from '@/lib/data-sources'
+
+// =============================================================================
+// TYPES AND INTERFACES
+// =============================================================================
+
+export type WarehouseStatus = 'active' | 'inactive'
+
+export interface Branch {
+  id: string
+  name: string
+  status: 'active' | 'disabled'
+}
+
+export interface WarehouseLocation {
+  id: string
+  warehouseId: string
+  code: string // e.g. A-01-03 (aisle, rack, shelf)
+  name?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface Warehouse {
+  id: string
+  branchId: string
+  code: string
+  name: string
+  address?: string
+  isDefault: boolean // Stock is taken from it first when no warehouse is named
+  status: WarehouseStatus
+  locations: WarehouseLocation[]
+  createdAt: Date
+  updatedAt: Date
+}
+
+export type WarehouseData = Pick<Warehouse, 'branchId' | 'code' | 'name'> &
+  Partial<Pick<Warehouse, 'address' | 'isDefault' | 'status'>>
+
+export interface WarehouseStock {
+  id: string
+  warehouseId: string
+  productId: string
+  variantId?: string // Unset: the product's own stock
+  locationId?: string // Where in the warehouse the SKU is kept
+  stock: number
+  updatedAt: Date
+}
+
+/**
+ * A warehouse a channel account sells from
+ */
+export interface AccountWarehouse {
+  id: string
+  channelAccountId: string
+  warehouseId: string
+  priority: number // Lower ships first
+  createdAt: Date
+}
+
+// =============================================================================
+// WAREHOUSES SERVICE CLASS
+// =============================================================================
+
+export class WarehousesService {
+  private readonly logPrefix = '[Warehouses]'
+
+  // =============================================================================
+  // WAREHOUSES
+  // =============================================================================
+
+  /**
+   * Branches the signed-in user belongs to
+   */
+  async listBranches(): Promise<Branch[]> {
+    const { data, error } = await supabase
+      .from('branches')
+      .select('id, name, status')
+      .order('name', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to load branches: ${error.message}`)
+    }
+
+    return data || []
+  }
+
+  /**
+   * Warehouses with their locations, of one branch or all of them
+   */
+  async listWarehouses(branchId?: string): Promise<Warehouse[]> {
+    let query = supabase
+      .from('warehouses')
+      .select('*, locations:warehouse_locations(*)')
+      .order('code', { ascending: true })
+
+    if (branchId) {
+      query = query.eq('branch_id', branchId)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      throw new Error(`Failed to load warehouses: ${error.message}`)
+    }
+
+    return (dataTransformers.snakeToCamel(data || []) as Warehouse[]).map(warehouse => ({
+      ...warehouse,
+      locations: [...(warehouse.locations || [])].sort((a, b) => a.code.localeCompare(b.code))
+    }))
+  }
+
+  async createWarehouse(warehouseData: WarehouseData): Promise<Warehouse> {
+    if (warehouseData.isDefault) {
+      await this.clearDefault(warehouseData.branchId)
+    }
+
+    const { data, error } = await supabase
+      .from('warehouses')
+      .insert(dataTransformers.camelToSnake(warehouseData))
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to create warehouse: ${error.message}`)
+    }
+
+    console.log(`${this.logPrefix} Created warehouse ${warehouseData.code} in branch ${warehouseData.branchId}`)
+
+    return { ...dataTransformers.snakeToCamel(data), locations: [] } as Warehouse
+  }
+
+  /**
+   * Update a warehouse; making it the default unsets the branch's previous
+   * default
+   */
+  async updateWarehouse(id: string, updates: Partial<Omit<WarehouseData, 'branchId'>>): Promise<Warehouse> {
+    if (updates.isDefault) {
+      const { data: warehouse, error } = await supabase
+        .from('warehouses')
+        .select('branch_id')
+        .eq('id', id)
+        .single()
+
+      if (error) {
+        throw new Error(`Failed to update warehouse: ${error.message}`)
+      }
+
+      await this.clearDefault(warehouse.branch_id, id)
+    }
+
+    const { data, error } = await supabase
+      .from('warehouses')
+      .update(dataTransformers.camelToSnake(updates))
+      .eq('id', id)
+      .select('*, locations:warehouse_locations(*)')
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to update warehouse: ${error.message}`)
+    }
+
+    return dataTransformers.snakeToCamel(data) as Warehouse
+  }
+
+  /**
+   * Delete a warehouse. Fails while it still holds stock.
+   */
+  async deleteWarehouse(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('warehouses')
+      .delete()
+      .eq('id', id)
+
+    if (error) {
+      throw new Error(`Failed to delete warehouse: ${error.message}`)
+    }
+
+    console.log(`${this.logPrefix} Deleted warehouse ${id}`)
+  }
+
+  // =============================================================================
+  // LOCATIONS
+  // =============================================================================
+
+  async createLocation(warehouseId: string, location: { code: string; name?: string }): Promise<WarehouseLocation> {
+    const { data, error } = await supabase
+      .from('warehouse_locations')
+      .insert({
+        warehouse_id: warehouseId,
+        code: location.code,
+        name: location.name || null
+      })
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to create location: ${error.message}`)
+    }
+
+    return dataTransformers.snakeToCamel(data) as WarehouseLocation
+  }
+
+  /**
+   * Delete a location; stock kept there stays in its warehouse
+   */
+  async deleteLocation(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('warehouse_locations')
+      .delete()
+      .eq('id', id)
+
+    if (error) {
+      throw new Error(`Failed to delete location: ${error.message}`)
+    }
+  }
+
+  // =============================================================================
+  // STOCK
+  // =============================================================================
+
+  /**
+   * Stock per warehouse of products and their variants
+   */
+  async getWarehouseStock(productIds: string[]): Promise<WarehouseStock[]> {
+    if (productIds.length === 0) {
+      return []
+    }
+
+    const { data, error } = await supabase
+      .from('warehouse_stock')
+      .select('*')
+      .in('product_id', productIds)
+
+    if (error) {
+      throw new Error(`Failed to load warehouse stock: ${error.message}`)
+    }
+
+    return dataTransformers.snakeToCamel(data || []) as WarehouseStock[]
+  }
+
+  /**
+   * Set where in its warehouse a product (or variant) is kept
+   */
+  async setStockLocation(stockId: string, locationId: string | null): Promise<WarehouseStock> {
+    const { data, error } = await supabase
+      .from('warehouse_stock')
+      .update({ location_id: locationId })
+      .eq('id', stockId)
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to set stock location: ${error.message}`)
+    }
+
+    return dataTransformers.snakeToCamel(data) as WarehouseStock
+  }
+
+  // =============================================================================
+  // CHANNEL ACCOUNTS
+  // =============================================================================
+
+  /**
+   * Warehouses channel accounts sell from, in shipping order. Accounts
+   * without any sell from all stock.
+   */
+  async getAccountWarehouses(channelAccountIds?: string[]): Promise<AccountWarehouse[]> {
+    let query = supabase
+      .from('channel_account_warehouses')
+      .select('*')
+      .order('priority', { ascending: true })
+
+    if (channelAccountIds) {
+      query = query.in('channel_account_id', channelAccountIds)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      throw new Error(`Failed to load account warehouses: ${error.message}`)
+    }
+
+    return dataTransformers.snakeToCamel(data || []) as AccountWarehouse[]
+  }
+
+  /**
+   * Set the warehouses an account sells from, in shipping order; none sells
+   * from all stock again. The warehouses must belong to the account's
+   * branch. Listings follow at each product's next stock change, or when
+   * `InventoryService.syncChannelStock` runs for it.
+   */
+  async setAccountWarehouses(channelAccountId: string, warehouseIds: string[]): Promise<AccountWarehouse[]> {
+    if (warehouseIds.length > 0) {
+      const [account, warehouses] = await Promise.all([
+        supabase.from('channel_accounts').select('branch_id').eq('id', channelAccountId).single(),
+        supabase.from('warehouses').select('id, code, branch_id').in('id', warehouseIds)
+      ])
+
+      const error = account.error || warehouses.error
+      if (error) {
+        throw new Error(`Failed to save account warehouses: ${error.message}`)
+      }
+
+      const foreign = (warehouses.data || []).filter(warehouse => warehouse.branch_id !== account.data.branch_id)
+      if ((warehouses.data || []).length !== new Set(warehouseIds).size || foreign.length > 0) {
+        throw new Error(`Warehouses must belong to the account's branch${foreign.length > 0 ? `: ${foreign.map(warehouse => warehouse.code).join(', ')}` : ''}`)
+      }
+    }
+
+    const { error } = await supabase
+      .from('channel_account_warehouses')
+      .delete()
+      .eq('channel_account_id', channelAccountId)
+
+    if (error) {
+      throw new Error(`Failed to save account warehouses: ${error.message}`)
+    }
+
+    if (warehouseIds.length === 0) {
+      console.log(`${this.logPrefix} Account ${channelAccountId} sells from all stock`)
+      return []
+    }
+
+    const { data, error: insertError } = await supabase
+      .from('channel_account_warehouses')
+      .insert(Array.from(new Set(warehouseIds)).map((warehouseId, priority) => ({
+        channel_account_id: channelAccountId,
+        warehouse_id: warehouseId,
+        priority
+      })))
+      .select()
+
+    if (insertError) {
+      throw new Error(`Failed to save account warehouses: ${insertError.message}`)
+    }
+
+    console.log(`${this.logPrefix} Account ${channelAccountId} sells from ${warehouseIds.length} warehouses`)
+
+    return (dataTransformers.snakeToCamel(data || []) as AccountWarehouse[]).sort((a, b) => a.priority - b.priority)
+  }
+
+  // =============================================================================
+  // PRIVATE HELPERS
+  // =============================================================================
+
+  /**
+   * Unset a branch's default warehouse (other than `exceptId`)
+   */
+  private async clearDefault(branchId: string, exceptId?: string): Promise<void> {
+    let query = supabase
+      .from('warehouses')
+      .update({ is_default: false })
+      .eq('branch_id', branchId)
+      .eq('is_default', true)
+
+    if (exceptId) {
+      query = query.neq('id', exceptId)
+    }
+
+    const { error } = await query
+
+    if (error) {
+      throw new Error(`Failed to update default warehouse: ${error.message}`)
+    }
+  }
+}
+
+// =============================================================================
+// EXPORTS
+// =============================================================================
+
+export const warehousesService = new WarehousesService()
+
+export default WarehousesService
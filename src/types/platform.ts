@@ -35,6 +35,7 @@ export const PLATFORM_INFO: Record<PlatformType, PlatformInfo> = {
     displayName: 'Lazada',
     color: '#0066cc',
     icon: '🏪',
+    // Turned on once its connector passes a health check (`connectorRegistry.isActive`)
     isActive: false,
   },
 };
\ No newline at end of file
@@ -11,6 +11,22 @@ export interface PlatformProduct {
   title?: string;              // Override title
   price?: number;              // Override price
   description?: string;        // Additional description
+  attributes?: Record<string, string | string[]>; // Channel attribute ID -> value or option ID(s)
+}
+
+export interface ProductOption {
+  name: string;                 // Variation axis, e.g. 'Colour'
+  values: string[];             // e.g. ['Black', 'White']
+}
+
+export interface ProductVariant {
+  id: string;
+  sku: string;
+  options: Record<string, string>; // Option name -> value, one entry per product option
+  price: number;
+  compareAtPrice?: number;
+  stock: number;
+  image?: string;               // Image URL shown for this option combination
 }
 
 export interface Product {
@@ -26,6 +42,8 @@ export interface Product {
   images: string[];             // Array of image URLs
   status: ProductStatus;
   platforms: PlatformProduct[]; // Platform mappings
+  options?: ProductOption[];    // Variation axes; empty for single-SKU products
+  variants?: ProductVariant[];  // One per option combination; price/stock above are the totals shown in lists
   createdAt: Date;
   updatedAt: Date;
 }
\ No newline at end of file
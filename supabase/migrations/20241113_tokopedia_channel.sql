@@ -0,0 +1,20 @@
+-- AIOStore: Enable Tokopedia channel
+-- Tokopedia connector and webhook endpoint are now available
+
+-- =============================================================================
+-- CHANNEL ACTIVATION
+-- =============================================================================
+
+UPDATE channels
+SET is_active = true,
+    updated_at = NOW()
+WHERE slug = 'tokopedia';
+
+-- =============================================================================
+-- SUCCESS MESSAGE
+-- =============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Tokopedia channel enabled';
+END $$;
@@ -0,0 +1,33 @@
+-- AIOStore: Enable Lazada channel
+-- Lazada connector and OAuth exchange/refresh routes are now available
+
+-- =============================================================================
+-- CHANNEL REGISTRATION
+-- =============================================================================
+
+INSERT INTO channels (slug, name, is_active, config) VALUES
+    ('lazada', 'Lazada', true, '{"rate_limit_per_minute": 60, "max_products": 25000}')
+ON CONFLICT (slug) DO UPDATE SET
+    is_active = true,
+    updated_at = NOW();
+
+-- =============================================================================
+-- MULTI-TENANT CHANNEL ACCOUNTS
+-- =============================================================================
+
+-- Allow Lazada seller accounts connected through /api/auth/lazada/exchange
+ALTER TABLE public.channel_accounts
+    DROP CONSTRAINT IF EXISTS channel_accounts_channel_check;
+
+ALTER TABLE public.channel_accounts
+    ADD CONSTRAINT channel_accounts_channel_check
+    CHECK (channel IN ('SHOPEE','TTS','TOKOPEDIA','LAZADA'));
+
+-- =============================================================================
+-- SUCCESS MESSAGE
+-- =============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Lazada channel enabled';
+END $$;
@@ -0,0 +1,41 @@
+-- AIOStore: Per-account channel credentials
+-- Connectors are built per channel_account_id from channel_tokens and credentials_ref
+
+-- =============================================================================
+-- MULTI-TENANT CHANNEL ACCOUNTS
+-- =============================================================================
+
+-- 'env:SHOPEE_SG_*' or 'vault:shopee_sg'; NULL falls back to the platform env prefix
+ALTER TABLE public.channel_accounts
+    ADD COLUMN IF NOT EXISTS credentials_ref text;
+
+ALTER TABLE public.channel_accounts
+    ADD COLUMN IF NOT EXISTS metadata jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN public.channel_accounts.credentials_ref IS 'Reference to app credentials: env:PREFIX_* or vault:secret_name';
+COMMENT ON COLUMN public.channel_accounts.metadata IS 'Account-specific connector settings (shop_cipher, warehouse_id, currency, ...)';
+
+-- =============================================================================
+-- VAULT SECRETS
+-- =============================================================================
+
+-- Read a JSON credentials secret from Supabase Vault. Only the service role
+-- may call it: the app reads secrets through its server-side service-role client.
+CREATE OR REPLACE FUNCTION public.get_channel_secret(p_name text)
+RETURNS jsonb LANGUAGE sql SECURITY DEFINER SET search_path = public AS $$
+  SELECT decrypted_secret::jsonb FROM vault.decrypted_secrets
+  WHERE name = p_name
+  LIMIT 1;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_channel_secret(text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_channel_secret(text) TO service_role;
+
+-- =============================================================================
+-- SUCCESS MESSAGE
+-- =============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Per-account channel credentials enabled';
+END $$;
@@ -0,0 +1,85 @@
+-- AIOStore: Marketplace category trees and internal category mappings
+-- Category trees are pulled per channel and market by 'categories' pull jobs;
+-- mappings translate products.category to a leaf category when listing
+
+-- =============================================================================
+-- CHANNEL CATEGORIES
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.channel_categories (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    channel TEXT NOT NULL, -- platform: 'shopee', 'tiktok', ...
+    market TEXT NOT NULL, -- 'ID', 'SG', 'MY', 'TH', 'VN', 'PH'
+    category_id TEXT NOT NULL,
+    parent_category_id TEXT,
+    name TEXT NOT NULL,
+    display_name TEXT,
+    has_children BOOLEAN NOT NULL DEFAULT false,
+    synced_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    UNIQUE(channel, market, category_id)
+);
+
+COMMENT ON TABLE public.channel_categories IS 'Marketplace category trees, replaced on every category sync';
+COMMENT ON COLUMN public.channel_categories.has_children IS 'Products can only be listed under leaf categories (has_children = false)';
+
+CREATE INDEX IF NOT EXISTS idx_channel_categories_parent ON public.channel_categories(channel, market, parent_category_id);
+CREATE INDEX IF NOT EXISTS idx_channel_categories_leaf ON public.channel_categories(channel, market) WHERE NOT has_children;
+
+-- =============================================================================
+-- CATEGORY MAPPINGS
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.category_mappings (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    channel TEXT NOT NULL,
+    market TEXT NOT NULL,
+    internal_category TEXT NOT NULL, -- products.category
+    channel_category_id TEXT NOT NULL, -- channel_categories.category_id (leaf)
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(channel, market, internal_category)
+);
+
+COMMENT ON TABLE public.category_mappings IS 'Maps internal product categories to leaf marketplace categories per market';
+
+CREATE TRIGGER update_category_mappings_updated_at
+    BEFORE UPDATE ON public.category_mappings
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================================================
+-- ROW LEVEL SECURITY (RLS)
+-- =============================================================================
+
+ALTER TABLE public.channel_categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.category_mappings ENABLE ROW LEVEL SECURITY;
+
+-- Category trees are written by category sync (CategoriesService.syncCategories),
+-- which runs with the signed-in user's session
+DROP POLICY IF EXISTS "Allow SELECT for authenticated users" ON public.channel_categories;
+CREATE POLICY "Allow SELECT for authenticated users" ON public.channel_categories
+    FOR SELECT USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Allow INSERT for authenticated users" ON public.channel_categories;
+CREATE POLICY "Allow INSERT for authenticated users" ON public.channel_categories
+    FOR INSERT WITH CHECK (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Allow UPDATE for authenticated users" ON public.channel_categories;
+CREATE POLICY "Allow UPDATE for authenticated users" ON public.channel_categories
+    FOR UPDATE USING (auth.uid() IS NOT NULL) WITH CHECK (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Allow DELETE for authenticated users" ON public.channel_categories;
+CREATE POLICY "Allow DELETE for authenticated users" ON public.channel_categories
+    FOR DELETE USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Allow ALL for authenticated users" ON public.category_mappings;
+CREATE POLICY "Allow ALL for authenticated users" ON public.category_mappings
+    FOR ALL USING (auth.uid() IS NOT NULL) WITH CHECK (auth.uid() IS NOT NULL);
+
+-- =============================================================================
+-- SUCCESS MESSAGE
+-- =============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Channel categories and category mappings created';
+END $$;
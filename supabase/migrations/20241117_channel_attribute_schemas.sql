@@ -0,0 +1,53 @@
+-- AIOStore: Marketplace category attribute schemas
+-- 'attributes' pull jobs store the attributes each mapped leaf category accepts;
+-- the product form renders them and catalog preview validates against them
+
+-- =============================================================================
+-- CHANNEL ATTRIBUTE SCHEMAS
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.channel_attribute_schemas (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    channel TEXT NOT NULL,
+    market TEXT NOT NULL,
+    category_id TEXT NOT NULL, -- channel_categories.category_id (leaf)
+    attributes JSONB NOT NULL DEFAULT '[]'::jsonb,
+    synced_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    UNIQUE(channel, market, category_id)
+);
+
+COMMENT ON TABLE public.channel_attribute_schemas IS 'Attributes accepted by a marketplace leaf category, replaced on every attribute sync';
+COMMENT ON COLUMN public.channel_attribute_schemas.attributes IS 'Array of { id, name, displayName, inputType, required, allowCustomValue, options, units }';
+
+-- =============================================================================
+-- ROW LEVEL SECURITY (RLS)
+-- =============================================================================
+
+ALTER TABLE public.channel_attribute_schemas ENABLE ROW LEVEL SECURITY;
+
+-- Schemas are written by attribute schema sync (CategoriesService.syncAttributeSchema),
+-- which runs with the signed-in user's session
+DROP POLICY IF EXISTS "Allow SELECT for authenticated users" ON public.channel_attribute_schemas;
+CREATE POLICY "Allow SELECT for authenticated users" ON public.channel_attribute_schemas
+    FOR SELECT USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Allow INSERT for authenticated users" ON public.channel_attribute_schemas;
+CREATE POLICY "Allow INSERT for authenticated users" ON public.channel_attribute_schemas
+    FOR INSERT WITH CHECK (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Allow UPDATE for authenticated users" ON public.channel_attribute_schemas;
+CREATE POLICY "Allow UPDATE for authenticated users" ON public.channel_attribute_schemas
+    FOR UPDATE USING (auth.uid() IS NOT NULL) WITH CHECK (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Allow DELETE for authenticated users" ON public.channel_attribute_schemas;
+CREATE POLICY "Allow DELETE for authenticated users" ON public.channel_attribute_schemas
+    FOR DELETE USING (auth.uid() IS NOT NULL);
+
+-- =============================================================================
+-- SUCCESS MESSAGE
+-- =============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Channel attribute schemas created';
+END $$;
@@ -0,0 +1,87 @@
+-- AIOStore: Product variants
+-- Products sold in several option combinations (size, colour) keep one row
+-- per variant; listings record the platform ID of each pushed variant
+-- (Shopee model, TikTok Shop / Lazada SKU, Tokopedia child product)
+
+-- =============================================================================
+-- PRODUCT OPTIONS
+-- =============================================================================
+
+ALTER TABLE public.products
+    ADD COLUMN IF NOT EXISTS options JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN public.products.options IS 'Variation axes: array of { name, values }; empty for single-SKU products';
+
+-- =============================================================================
+-- PRODUCT VARIANTS
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.product_variants (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    product_id UUID REFERENCES public.products(id) ON DELETE CASCADE NOT NULL,
+    sku TEXT NOT NULL,
+    options JSONB NOT NULL DEFAULT '{}'::jsonb, -- Option name -> value
+    price DECIMAL(10,2) NOT NULL,
+    compare_at_price DECIMAL(10,2),
+    stock INTEGER NOT NULL DEFAULT 0 CHECK (stock >= 0),
+    image TEXT,
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(product_id, sku)
+);
+
+COMMENT ON TABLE public.product_variants IS 'Sellable option combinations of a product, each with its own SKU, price and stock';
+
+CREATE INDEX IF NOT EXISTS idx_product_variants_product_id ON public.product_variants(product_id, position);
+
+CREATE TRIGGER update_product_variants_updated_at
+    BEFORE UPDATE ON public.product_variants
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================================================
+-- LISTING VARIANTS
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.listing_variants (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    listing_id UUID REFERENCES public.listings(id) ON DELETE CASCADE NOT NULL,
+    variant_id UUID REFERENCES public.product_variants(id) ON DELETE CASCADE NOT NULL,
+    platform_variant_id TEXT, -- Set once the variant exists on the platform
+    price DECIMAL(10,2),
+    stock INTEGER,
+    last_synced_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(listing_id, variant_id)
+);
+
+COMMENT ON TABLE public.listing_variants IS 'Per-variant price, stock and platform variant ID of a listing';
+
+CREATE TRIGGER update_listing_variants_updated_at
+    BEFORE UPDATE ON public.listing_variants
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================================================
+-- ROW LEVEL SECURITY (RLS)
+-- =============================================================================
+
+ALTER TABLE public.product_variants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.listing_variants ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow ALL for authenticated users" ON public.product_variants;
+CREATE POLICY "Allow ALL for authenticated users" ON public.product_variants
+    FOR ALL USING (auth.uid() IS NOT NULL) WITH CHECK (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Allow ALL for authenticated users" ON public.listing_variants;
+CREATE POLICY "Allow ALL for authenticated users" ON public.listing_variants
+    FOR ALL USING (auth.uid() IS NOT NULL) WITH CHECK (auth.uid() IS NOT NULL);
+
+-- =============================================================================
+-- SUCCESS MESSAGE
+-- =============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Product variants and listing variants created';
+END $$;
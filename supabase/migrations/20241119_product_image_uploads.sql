@@ -0,0 +1,50 @@
+-- AIOStore: Product image uploads
+-- Caches the platform image ID of every product image uploaded to a
+-- marketplace media space (Shopee media space, TikTok Shop, Lazada CDN), so
+-- re-publishing a product only uploads images whose content changed
+
+-- =============================================================================
+-- PRODUCT IMAGE UPLOADS
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.product_image_uploads (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    product_id UUID REFERENCES public.products(id) ON DELETE CASCADE NOT NULL,
+    channel TEXT NOT NULL, -- 'shopee', 'tiktok', 'lazada'
+    channel_account_id UUID REFERENCES public.channel_accounts(id) ON DELETE CASCADE, -- NULL for the default account
+    source_url TEXT NOT NULL,
+    content_hash TEXT NOT NULL, -- SHA-256 of the source image; a new hash triggers a re-upload
+    platform_image_id TEXT NOT NULL,
+    platform_image_url TEXT,
+    uploaded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE NULLS NOT DISTINCT (product_id, channel, channel_account_id, source_url)
+);
+
+COMMENT ON TABLE public.product_image_uploads IS 'Platform image IDs of uploaded product images, per channel account';
+
+CREATE INDEX IF NOT EXISTS idx_product_image_uploads_product ON public.product_image_uploads(product_id, channel);
+
+CREATE TRIGGER update_product_image_uploads_updated_at
+    BEFORE UPDATE ON public.product_image_uploads
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================================================
+-- ROW LEVEL SECURITY (RLS)
+-- =============================================================================
+
+ALTER TABLE public.product_image_uploads ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow ALL for authenticated users" ON public.product_image_uploads;
+CREATE POLICY "Allow ALL for authenticated users" ON public.product_image_uploads
+    FOR ALL USING (auth.uid() IS NOT NULL) WITH CHECK (auth.uid() IS NOT NULL);
+
+-- =============================================================================
+-- SUCCESS MESSAGE
+-- =============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Product image upload cache created';
+END $$;
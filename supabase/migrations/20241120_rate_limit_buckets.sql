@@ -0,0 +1,85 @@
+-- AIOStore: Shared rate limit buckets
+-- Token buckets per platform, channel account and endpoint group, shared by
+-- every server instance. Connector clients take one token per request;
+-- bucket size and refill rate come from channels.config.rate_limit_per_minute
+-- (or channels.config.endpoint_rate_limits for a single endpoint group)
+
+-- =============================================================================
+-- RATE LIMIT BUCKETS
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.rate_limit_buckets (
+    bucket_key TEXT PRIMARY KEY, -- '<platform>:<channel account id | default>:<endpoint group>'
+    tokens DOUBLE PRECISION NOT NULL,
+    limit_per_minute INTEGER NOT NULL CHECK (limit_per_minute > 0),
+    refilled_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.rate_limit_buckets IS 'Token buckets throttling marketplace API calls per channel account and endpoint group';
+
+CREATE TRIGGER update_rate_limit_buckets_updated_at
+    BEFORE UPDATE ON public.rate_limit_buckets
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Buckets are only touched through take_rate_limit_token
+ALTER TABLE public.rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Deny direct access" ON public.rate_limit_buckets;
+CREATE POLICY "Deny direct access" ON public.rate_limit_buckets
+    FOR ALL USING (false) WITH CHECK (false);
+
+-- =============================================================================
+-- TAKE TOKEN
+-- =============================================================================
+
+-- Refill the bucket for the time elapsed since its last refill, then take one
+-- token. Returns 0 when a token was taken, otherwise the milliseconds until
+-- the next token is available. The row lock serialises concurrent callers.
+CREATE OR REPLACE FUNCTION public.take_rate_limit_token(
+    p_bucket_key TEXT,
+    p_limit_per_minute INTEGER
+) RETURNS INTEGER LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+    v_now TIMESTAMPTZ := clock_timestamp();
+    v_tokens_per_ms DOUBLE PRECISION := p_limit_per_minute / 60000.0;
+    v_tokens DOUBLE PRECISION;
+    v_wait_ms INTEGER := 0;
+BEGIN
+    INSERT INTO public.rate_limit_buckets (bucket_key, tokens, limit_per_minute, refilled_at)
+    VALUES (p_bucket_key, p_limit_per_minute, p_limit_per_minute, v_now)
+    ON CONFLICT (bucket_key) DO NOTHING;
+
+    SELECT LEAST(
+        p_limit_per_minute,
+        tokens + EXTRACT(EPOCH FROM (v_now - refilled_at)) * 1000 * v_tokens_per_ms
+    )
+    INTO v_tokens
+    FROM public.rate_limit_buckets
+    WHERE bucket_key = p_bucket_key
+    FOR UPDATE;
+
+    IF v_tokens >= 1 THEN
+        v_tokens := v_tokens - 1;
+    ELSE
+        v_wait_ms := CEIL((1 - v_tokens) / v_tokens_per_ms)::INTEGER;
+    END IF;
+
+    UPDATE public.rate_limit_buckets
+    SET tokens = v_tokens,
+        limit_per_minute = p_limit_per_minute,
+        refilled_at = v_now
+    WHERE bucket_key = p_bucket_key;
+
+    RETURN v_wait_ms;
+END;$$;
+
+-- =============================================================================
+-- SUCCESS MESSAGE
+-- =============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Shared rate limit buckets created';
+END $$;
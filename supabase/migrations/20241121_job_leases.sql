@@ -0,0 +1,119 @@
+-- AIOStore: Job leases
+-- Sync job workers claim pending jobs with FOR UPDATE SKIP LOCKED and hold a
+-- lease on each claimed job, renewed by heartbeats while it runs. Jobs whose
+-- lease expired (the worker died) go back to pending
+
+-- =============================================================================
+-- LEASE COLUMNS
+-- =============================================================================
+
+ALTER TABLE public.jobs
+    ADD COLUMN IF NOT EXISTS locked_by TEXT, -- Worker ID, '<hostname>:<pid>'
+    ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS heartbeat_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.jobs.locked_by IS 'Worker holding the lease on a running job';
+COMMENT ON COLUMN public.jobs.locked_until IS 'Lease expiry; running jobs past it are recovered to pending';
+
+CREATE INDEX IF NOT EXISTS idx_jobs_status_locked_until ON public.jobs(status, locked_until);
+
+-- =============================================================================
+-- CLAIM JOBS
+-- =============================================================================
+
+-- Claim up to p_limit pending jobs, oldest first. Rows locked by a concurrent
+-- claim are skipped, so two workers never receive the same job.
+CREATE OR REPLACE FUNCTION public.claim_sync_jobs(
+    p_worker_id TEXT,
+    p_limit INTEGER,
+    p_lease_seconds INTEGER
+) RETURNS SETOF public.jobs LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE public.jobs
+    SET status = 'running',
+        locked_by = p_worker_id,
+        locked_until = NOW() + make_interval(secs => p_lease_seconds),
+        heartbeat_at = NOW(),
+        started_at = COALESCE(started_at, NOW())
+    WHERE id IN (
+        SELECT id
+        FROM public.jobs
+        WHERE status = 'pending'
+        ORDER BY created_at
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *;
+END;$$;
+
+-- Only job workers (service role) may claim jobs
+REVOKE ALL ON FUNCTION public.claim_sync_jobs(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_sync_jobs(TEXT, INTEGER, INTEGER) TO service_role;
+
+-- =============================================================================
+-- RENEW LEASE
+-- =============================================================================
+
+-- Extend the lease of a job still held by p_worker_id. Returns false when the
+-- lease was lost (recovered and possibly claimed by another worker).
+CREATE OR REPLACE FUNCTION public.renew_job_lease(
+    p_job_id TEXT,
+    p_worker_id TEXT,
+    p_lease_seconds INTEGER
+) RETURNS BOOLEAN LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+    UPDATE public.jobs
+    SET locked_until = NOW() + make_interval(secs => p_lease_seconds),
+        heartbeat_at = NOW()
+    WHERE id::TEXT = p_job_id
+      AND locked_by = p_worker_id
+      AND status = 'running';
+
+    RETURN FOUND;
+END;$$;
+
+REVOKE ALL ON FUNCTION public.renew_job_lease(TEXT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.renew_job_lease(TEXT, TEXT, INTEGER) TO service_role;
+
+-- =============================================================================
+-- RECOVER STUCK JOBS
+-- =============================================================================
+
+-- Return running jobs with an expired lease to pending, along with the items
+-- their worker left in processing. Returns the number of recovered jobs.
+CREATE OR REPLACE FUNCTION public.recover_stuck_jobs()
+RETURNS INTEGER LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+    v_job_ids TEXT[];
+BEGIN
+    WITH recovered AS (
+        UPDATE public.jobs
+        SET status = 'pending',
+            locked_by = NULL,
+            locked_until = NULL
+        WHERE status = 'running'
+          AND locked_until < NOW()
+        RETURNING id::TEXT AS id
+    )
+    SELECT COALESCE(array_agg(id), '{}') INTO v_job_ids FROM recovered;
+
+    UPDATE public.job_items
+    SET status = 'pending'
+    WHERE job_id::TEXT = ANY(v_job_ids)
+      AND status = 'processing';
+
+    RETURN COALESCE(array_length(v_job_ids, 1), 0);
+END;$$;
+
+REVOKE ALL ON FUNCTION public.recover_stuck_jobs() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.recover_stuck_jobs() TO service_role;
+
+-- =============================================================================
+-- SUCCESS MESSAGE
+-- =============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Job leases created';
+END $$;
@@ -0,0 +1,102 @@
+-- AIOStore: Job retries and dead letters
+-- Failed job items are retried once their next_retry_at passes: a job with
+-- scheduled retries goes back to pending with next_run_at set to its earliest
+-- retry, and workers only claim jobs that are due. Items that exhaust
+-- max_attempts are dead-lettered for an operator to inspect, edit and replay
+
+-- =============================================================================
+-- RETRY SCHEDULING
+-- =============================================================================
+
+ALTER TABLE public.jobs
+    ADD COLUMN IF NOT EXISTS next_run_at TIMESTAMP WITH TIME ZONE; -- NULL runs as soon as claimed
+
+COMMENT ON COLUMN public.jobs.next_run_at IS 'Earliest time a pending job with scheduled item retries may be claimed';
+
+CREATE INDEX IF NOT EXISTS idx_jobs_status_next_run_at ON public.jobs(status, next_run_at);
+CREATE INDEX IF NOT EXISTS idx_job_items_job_status_retry ON public.job_items(job_id, status, next_retry_at);
+
+-- calculate_next_retry reads NOW(), so it cannot be IMMUTABLE
+ALTER FUNCTION public.calculate_next_retry(INTEGER, INTEGER, INTEGER) STABLE;
+
+-- Claim only jobs that are due; replaces the version from 20241121_job_leases.sql
+CREATE OR REPLACE FUNCTION public.claim_sync_jobs(
+    p_worker_id TEXT,
+    p_limit INTEGER,
+    p_lease_seconds INTEGER
+) RETURNS SETOF public.jobs LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE public.jobs
+    SET status = 'running',
+        locked_by = p_worker_id,
+        locked_until = NOW() + make_interval(secs => p_lease_seconds),
+        heartbeat_at = NOW(),
+        started_at = COALESCE(started_at, NOW())
+    WHERE id IN (
+        SELECT id
+        FROM public.jobs
+        WHERE status = 'pending'
+          AND (next_run_at IS NULL OR next_run_at <= NOW())
+        ORDER BY created_at
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *;
+END;$$;
+
+-- Workers claim through the service role; anon and authenticated can't
+REVOKE ALL ON FUNCTION public.claim_sync_jobs(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_sync_jobs(TEXT, INTEGER, INTEGER) TO service_role;
+
+-- =============================================================================
+-- DEAD LETTERS
+-- =============================================================================
+
+ALTER TABLE public.job_items
+    ADD COLUMN IF NOT EXISTS dead_lettered_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS replay_count INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.job_items.dead_lettered_at IS 'Set when the item failed max_attempts times; cleared on replay';
+
+CREATE INDEX IF NOT EXISTS idx_job_items_dead_lettered_at ON public.job_items(dead_lettered_at)
+    WHERE dead_lettered_at IS NOT NULL;
+
+-- Items that already exhausted their attempts
+UPDATE public.job_items
+SET dead_lettered_at = updated_at
+WHERE status = 'failed'
+  AND attempts >= max_attempts
+  AND dead_lettered_at IS NULL;
+
+CREATE OR REPLACE VIEW public.dead_letter_items
+WITH (security_invoker = true) AS
+SELECT
+    i.id,
+    i.job_id,
+    i.item_type,
+    i.item_id,
+    i.attempts,
+    i.max_attempts,
+    i.error_message,
+    i.metadata,
+    i.replay_count,
+    i.dead_lettered_at,
+    j.type AS job_type,
+    j.channel,
+    j.channel_account_id
+FROM public.job_items i
+JOIN public.jobs j ON j.id = i.job_id
+WHERE i.status = 'failed'
+  AND i.dead_lettered_at IS NOT NULL;
+
+COMMENT ON VIEW public.dead_letter_items IS 'Job items that exhausted their retries, with the job they belong to';
+
+-- =============================================================================
+-- SUCCESS MESSAGE
+-- =============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Job retries and dead letters created';
+END $$;
@@ -0,0 +1,100 @@
+-- AIOStore: Job priorities and fair scheduling
+-- Jobs carry a priority (0 low, 1 normal, 2 high, 3 urgent). Workers claim
+-- the highest priority first and, within a priority, rotate across channel
+-- accounts so one account's bulk pull cannot starve the others. Webhook jobs
+-- are queued as urgent and always run before bulk pulls
+
+-- =============================================================================
+-- PRIORITY COLUMN
+-- =============================================================================
+
+ALTER TABLE public.jobs
+    ADD COLUMN IF NOT EXISTS priority SMALLINT NOT NULL DEFAULT 1 CHECK (priority BETWEEN 0 AND 3);
+
+COMMENT ON COLUMN public.jobs.priority IS '0=low, 1=normal, 2=high, 3=urgent (webhooks)';
+
+CREATE INDEX IF NOT EXISTS idx_jobs_pending_priority ON public.jobs(priority DESC, created_at)
+    WHERE status = 'pending';
+
+-- =============================================================================
+-- FAIR CLAIM
+-- =============================================================================
+
+-- Claim up to p_limit due jobs. Candidates are ordered by priority, then by
+-- their rank within their channel account (each account's first job before
+-- any account's second), then by how many jobs the account already runs, and
+-- finally by when the job last ran, so a job that yielded goes to the back.
+-- Each candidate is locked with SKIP LOCKED, so concurrent workers never
+-- claim the same job. Replaces the version from 20241122_job_retries_dead_letters.sql.
+CREATE OR REPLACE FUNCTION public.claim_sync_jobs(
+    p_worker_id TEXT,
+    p_limit INTEGER,
+    p_lease_seconds INTEGER
+) RETURNS SETOF public.jobs LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+    v_candidate RECORD;
+    v_job public.jobs;
+    v_claimed INTEGER := 0;
+BEGIN
+    FOR v_candidate IN
+        WITH due AS (
+            SELECT id, priority, created_at, heartbeat_at,
+                   COALESCE(channel_account_id::TEXT, channel) AS account_key
+            FROM public.jobs
+            WHERE status = 'pending'
+              AND (next_run_at IS NULL OR next_run_at <= NOW())
+        ),
+        running AS (
+            SELECT COALESCE(channel_account_id::TEXT, channel) AS account_key, COUNT(*) AS running_jobs
+            FROM public.jobs
+            WHERE status = 'running'
+            GROUP BY 1
+        )
+        SELECT due.id
+        FROM (
+            SELECT due.*, ROW_NUMBER() OVER (
+                PARTITION BY due.account_key, due.priority
+                ORDER BY COALESCE(due.heartbeat_at, due.created_at)
+            ) AS account_rank
+            FROM due
+        ) due
+        LEFT JOIN running ON running.account_key = due.account_key
+        ORDER BY due.priority DESC,
+                 due.account_rank,
+                 COALESCE(running.running_jobs, 0),
+                 COALESCE(due.heartbeat_at, due.created_at)
+        LIMIT p_limit * 4
+    LOOP
+        UPDATE public.jobs
+        SET status = 'running',
+            locked_by = p_worker_id,
+            locked_until = NOW() + make_interval(secs => p_lease_seconds),
+            heartbeat_at = NOW(),
+            started_at = COALESCE(started_at, NOW())
+        WHERE id = (
+            SELECT id FROM public.jobs
+            WHERE id = v_candidate.id AND status = 'pending'
+            FOR UPDATE SKIP LOCKED
+        )
+        RETURNING * INTO v_job;
+
+        IF FOUND THEN
+            v_claimed := v_claimed + 1;
+            RETURN NEXT v_job;
+            EXIT WHEN v_claimed >= p_limit;
+        END IF;
+    END LOOP;
+END;$$;
+
+-- Claiming stays restricted to the service role the workers run as
+REVOKE ALL ON FUNCTION public.claim_sync_jobs(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_sync_jobs(TEXT, INTEGER, INTEGER) TO service_role;
+
+-- =============================================================================
+-- SUCCESS MESSAGE
+-- =============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Job priorities and fair scheduling created';
+END $$;
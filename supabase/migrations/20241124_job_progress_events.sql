@@ -0,0 +1,92 @@
+-- AIOStore: Job progress events
+-- update_job_progress recounts a job's items and appends a progress event
+-- (counts, the item being processed, the last error). The sync job stream
+-- (/api/sync/jobs/stream) tails these events and forwards them to the browser
+-- as Server-Sent Events
+
+-- =============================================================================
+-- JOB PROGRESS EVENTS
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.job_progress_events (
+    id BIGSERIAL PRIMARY KEY,
+    job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+    status job_status NOT NULL,
+    total_items INTEGER NOT NULL DEFAULT 0,
+    completed_items INTEGER NOT NULL DEFAULT 0,
+    failed_items INTEGER NOT NULL DEFAULT 0,
+    current_item TEXT, -- '<item type> <item id>' of the last item processed
+    error_message TEXT, -- Last item or job error since the previous event
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.job_progress_events IS 'Progress snapshots of sync jobs, streamed to the browser';
+
+CREATE INDEX IF NOT EXISTS idx_job_progress_events_job ON public.job_progress_events(job_id, id);
+
+ALTER TABLE public.job_progress_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow SELECT for authenticated users" ON public.job_progress_events;
+CREATE POLICY "Allow SELECT for authenticated users" ON public.job_progress_events
+    FOR SELECT USING (auth.uid() IS NOT NULL);
+
+-- =============================================================================
+-- UPDATE JOB PROGRESS
+-- =============================================================================
+
+-- Replaces the single-argument version from 20241112_phase3_core_tables.sql,
+-- whose local variables shadowed the jobs columns it updated.
+DROP FUNCTION IF EXISTS public.update_job_progress(UUID);
+
+-- Recount the job's items, store the counts on the job and append a progress
+-- event. Returns the event.
+CREATE OR REPLACE FUNCTION public.update_job_progress(
+    p_job_id UUID,
+    p_current_item TEXT DEFAULT NULL,
+    p_error_message TEXT DEFAULT NULL
+) RETURNS public.job_progress_events LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+    v_total INTEGER;
+    v_completed INTEGER;
+    v_failed INTEGER;
+    v_status job_status;
+    v_event public.job_progress_events;
+BEGIN
+    SELECT
+        COUNT(*),
+        COUNT(*) FILTER (WHERE status = 'completed'),
+        COUNT(*) FILTER (WHERE status = 'failed')
+    INTO v_total, v_completed, v_failed
+    FROM public.job_items
+    WHERE job_id = p_job_id;
+
+    UPDATE public.jobs SET
+        total_items = v_total,
+        completed_items = v_completed,
+        failed_items = v_failed,
+        updated_at = NOW()
+    WHERE id = p_job_id
+    RETURNING status INTO v_status;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO public.job_progress_events (
+        job_id, status, total_items, completed_items, failed_items, current_item, error_message
+    ) VALUES (
+        p_job_id, v_status, v_total, v_completed, v_failed, p_current_item, p_error_message
+    )
+    RETURNING * INTO v_event;
+
+    RETURN v_event;
+END;$$;
+
+-- =============================================================================
+-- SUCCESS MESSAGE
+-- =============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Job progress events created';
+END $$;
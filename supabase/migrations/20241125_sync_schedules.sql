@@ -0,0 +1,138 @@
+-- AIOStore: Scheduled auto-sync
+-- Sync settings persisted per branch and channel account. A row without a
+-- channel account holds a branch's defaults (branch_id NULL for accounts
+-- outside any branch); each account row carries its own settings and run
+-- state. The scheduler (cron route and sync worker) claims due account rows
+-- and queues pull and sync jobs for them
+
+-- =============================================================================
+-- SYNC SCHEDULES
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.sync_schedules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    branch_id UUID REFERENCES public.branches(id) ON DELETE CASCADE,
+    channel_account_id UUID UNIQUE REFERENCES public.channel_accounts(id) ON DELETE CASCADE,
+    enabled BOOLEAN NOT NULL DEFAULT false,
+    frequency TEXT NOT NULL DEFAULT '15min'
+        CHECK (frequency IN ('5min', '15min', '30min', '1hour', '4hour', '1day')),
+    data_types TEXT[] NOT NULL DEFAULT ARRAY['products', 'inventory', 'orders']
+        CHECK (data_types <@ ARRAY['products', 'inventory', 'orders', 'messages']),
+    last_run_at TIMESTAMP WITH TIME ZONE,
+    next_run_at TIMESTAMP WITH TIME ZONE,
+    last_job_ids TEXT[] NOT NULL DEFAULT '{}',
+    last_error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.sync_schedules IS 'Auto-sync settings per branch (channel_account_id NULL) and per channel account';
+COMMENT ON COLUMN public.sync_schedules.data_types IS 'products, inventory, orders, messages (messages are stored but not synced yet)';
+
+-- One defaults row per branch
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sync_schedules_branch_defaults
+    ON public.sync_schedules(COALESCE(branch_id, '00000000-0000-0000-0000-000000000000'::UUID))
+    WHERE channel_account_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_sync_schedules_due ON public.sync_schedules(next_run_at)
+    WHERE enabled AND channel_account_id IS NOT NULL;
+
+CREATE TRIGGER update_sync_schedules_updated_at
+    BEFORE UPDATE ON public.sync_schedules
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.sync_schedules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow SELECT for authenticated users" ON public.sync_schedules;
+CREATE POLICY "Allow SELECT for authenticated users" ON public.sync_schedules
+    FOR SELECT USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Allow INSERT for authenticated users" ON public.sync_schedules;
+CREATE POLICY "Allow INSERT for authenticated users" ON public.sync_schedules
+    FOR INSERT WITH CHECK (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Allow UPDATE for authenticated users" ON public.sync_schedules;
+CREATE POLICY "Allow UPDATE for authenticated users" ON public.sync_schedules
+    FOR UPDATE USING (auth.uid() IS NOT NULL);
+
+-- =============================================================================
+-- NEXT RUN
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION public.sync_frequency_interval(p_frequency TEXT)
+RETURNS INTERVAL LANGUAGE sql IMMUTABLE AS $$
+    SELECT CASE p_frequency
+        WHEN '5min' THEN INTERVAL '5 minutes'
+        WHEN '15min' THEN INTERVAL '15 minutes'
+        WHEN '30min' THEN INTERVAL '30 minutes'
+        WHEN '1hour' THEN INTERVAL '1 hour'
+        WHEN '4hour' THEN INTERVAL '4 hours'
+        WHEN '1day' THEN INTERVAL '1 day'
+    END
+$$;
+
+-- Keep next_run_at in step with the settings: cleared while disabled, and
+-- recomputed from the last run when a schedule is enabled or its frequency
+-- changes. An account that never ran is due immediately.
+CREATE OR REPLACE FUNCTION public.set_sync_schedule_next_run()
+RETURNS TRIGGER LANGUAGE plpgsql AS $$
+BEGIN
+    IF NEW.channel_account_id IS NULL OR NOT NEW.enabled THEN
+        NEW.next_run_at := NULL;
+    ELSIF TG_OP = 'INSERT' OR NOT OLD.enabled OR NEW.frequency <> OLD.frequency THEN
+        NEW.next_run_at := GREATEST(
+            NOW(),
+            COALESCE(NEW.last_run_at + public.sync_frequency_interval(NEW.frequency), NOW())
+        );
+    END IF;
+    RETURN NEW;
+END;$$;
+
+CREATE TRIGGER set_sync_schedule_next_run
+    BEFORE INSERT OR UPDATE ON public.sync_schedules
+    FOR EACH ROW EXECUTE FUNCTION public.set_sync_schedule_next_run();
+
+-- =============================================================================
+-- CLAIM DUE SCHEDULES
+-- =============================================================================
+
+-- Claim up to p_limit due account schedules: each is moved to its next run
+-- and returned with the time of its previous run.
+-- SKIP LOCKED keeps overlapping cron runs and workers from queueing twice.
+CREATE OR REPLACE FUNCTION public.claim_due_sync_schedules(p_limit INTEGER)
+RETURNS TABLE (
+    id UUID,
+    channel_account_id UUID,
+    data_types TEXT[],
+    previous_run_at TIMESTAMP WITH TIME ZONE
+) LANGUAGE sql SECURITY DEFINER SET search_path = public AS $$
+    WITH due AS (
+        SELECT s.id, s.last_run_at
+        FROM public.sync_schedules s
+        WHERE s.enabled
+          AND s.channel_account_id IS NOT NULL
+          AND s.next_run_at <= NOW()
+        ORDER BY s.next_run_at
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+    UPDATE public.sync_schedules s
+    SET last_run_at = NOW(),
+        next_run_at = NOW() + public.sync_frequency_interval(s.frequency)
+    FROM due
+    WHERE s.id = due.id
+    RETURNING s.id, s.channel_account_id, s.data_types, due.last_run_at
+$$;
+
+-- Called by the cron route and workers as the service role only
+REVOKE ALL ON FUNCTION public.claim_due_sync_schedules(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_due_sync_schedules(INTEGER) TO service_role;
+
+-- =============================================================================
+-- SUCCESS MESSAGE
+-- =============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Sync schedules created';
+END $$;
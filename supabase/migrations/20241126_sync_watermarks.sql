@@ -0,0 +1,77 @@
+-- AIOStore: Sync watermarks
+-- The point up to which each channel account's products and orders have been
+-- pulled. Pull jobs list only what changed after the watermark and advance
+-- it once they complete without failed items; resetting a watermark makes
+-- the next pull a full resync
+
+-- =============================================================================
+-- SYNC WATERMARKS
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.sync_watermarks (
+    channel_account_id UUID NOT NULL REFERENCES public.channel_accounts(id) ON DELETE CASCADE,
+    data_type TEXT NOT NULL CHECK (data_type IN ('products', 'orders')),
+    watermark TIMESTAMP WITH TIME ZONE NOT NULL, -- Platform update_time pulled up to
+    last_job_id TEXT, -- Pull job that last advanced the watermark
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (channel_account_id, data_type)
+);
+
+COMMENT ON TABLE public.sync_watermarks IS 'Last successfully pulled update_time per channel account and data type';
+
+CREATE TRIGGER update_sync_watermarks_updated_at
+    BEFORE UPDATE ON public.sync_watermarks
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.sync_watermarks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow SELECT for authenticated users" ON public.sync_watermarks;
+CREATE POLICY "Allow SELECT for authenticated users" ON public.sync_watermarks
+    FOR SELECT USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Allow DELETE for authenticated users" ON public.sync_watermarks;
+CREATE POLICY "Allow DELETE for authenticated users" ON public.sync_watermarks
+    FOR DELETE USING (auth.uid() IS NOT NULL);
+
+-- =============================================================================
+-- ADVANCE WATERMARK
+-- =============================================================================
+
+-- Move a watermark from p_from (NULL when the job ran a full pull) to p_to.
+-- Nothing changes when the watermark moved since the job was queued, so a
+-- reset during the job, or a newer job that finished first, is not
+-- overwritten. Returns whether the watermark was advanced.
+CREATE OR REPLACE FUNCTION public.advance_sync_watermark(
+    p_channel_account_id UUID,
+    p_data_type TEXT,
+    p_from TIMESTAMP WITH TIME ZONE,
+    p_to TIMESTAMP WITH TIME ZONE,
+    p_job_id TEXT
+) RETURNS BOOLEAN LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+    IF p_from IS NULL THEN
+        INSERT INTO public.sync_watermarks (channel_account_id, data_type, watermark, last_job_id)
+        VALUES (p_channel_account_id, p_data_type, p_to, p_job_id)
+        ON CONFLICT (channel_account_id, data_type) DO NOTHING;
+    ELSE
+        UPDATE public.sync_watermarks
+        SET watermark = p_to,
+            last_job_id = p_job_id
+        WHERE channel_account_id = p_channel_account_id
+          AND data_type = p_data_type
+          AND watermark = p_from
+          AND p_to > watermark;
+    END IF;
+
+    RETURN FOUND;
+END;$$;
+
+-- =============================================================================
+-- SUCCESS MESSAGE
+-- =============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Sync watermarks created';
+END $$;
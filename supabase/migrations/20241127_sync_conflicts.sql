@@ -0,0 +1,147 @@
+-- AIOStore: Field-level sync conflict resolution
+-- Products are merged field by field against the snapshot both sides agreed
+-- on at the last sync. Field rules name a source of truth per field (for all
+-- accounts or one channel account); fields without one take whichever side
+-- changed, and fields changed differently on both sides wait in the conflict
+-- review queue until an operator picks a side
+
+-- =============================================================================
+-- SYNC FIELD RULES
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.sync_field_rules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    channel_account_id UUID REFERENCES public.channel_accounts(id) ON DELETE CASCADE, -- NULL: every account
+    field TEXT NOT NULL
+        CHECK (field IN ('title', 'description', 'category', 'price', 'stock', 'status')),
+    source TEXT NOT NULL CHECK (source IN ('aiostore', 'platform', 'merge')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.sync_field_rules IS 'Source of truth per product field; account rules override the defaults (channel_account_id NULL)';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sync_field_rules_scope
+    ON public.sync_field_rules(COALESCE(channel_account_id, '00000000-0000-0000-0000-000000000000'::UUID), field);
+
+CREATE TRIGGER update_sync_field_rules_updated_at
+    BEFORE UPDATE ON public.sync_field_rules
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.sync_field_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow SELECT for authenticated users" ON public.sync_field_rules;
+CREATE POLICY "Allow SELECT for authenticated users" ON public.sync_field_rules
+    FOR SELECT USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Allow INSERT for authenticated users" ON public.sync_field_rules;
+CREATE POLICY "Allow INSERT for authenticated users" ON public.sync_field_rules
+    FOR INSERT WITH CHECK (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Allow DELETE for authenticated users" ON public.sync_field_rules;
+CREATE POLICY "Allow DELETE for authenticated users" ON public.sync_field_rules
+    FOR DELETE USING (auth.uid() IS NOT NULL);
+
+-- Stock and titles are edited in AIOStore; listing status follows the platform
+INSERT INTO public.sync_field_rules (field, source) VALUES
+    ('title', 'aiostore'),
+    ('stock', 'aiostore'),
+    ('status', 'platform')
+ON CONFLICT DO NOTHING;
+
+-- =============================================================================
+-- SYNC SNAPSHOTS
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.sync_snapshots (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    channel TEXT NOT NULL,
+    channel_account_id UUID REFERENCES public.channel_accounts(id) ON DELETE CASCADE,
+    item_type TEXT NOT NULL DEFAULT 'product',
+    item_id TEXT NOT NULL,
+    data JSONB NOT NULL DEFAULT '{}', -- Field -> value both sides agreed on
+    job_id TEXT, -- Job that last synced the item
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.sync_snapshots IS 'Last synced field values per item and channel account, the base of three-way merges';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sync_snapshots_item
+    ON public.sync_snapshots(channel, COALESCE(channel_account_id, '00000000-0000-0000-0000-000000000000'::UUID), item_type, item_id);
+
+CREATE TRIGGER update_sync_snapshots_updated_at
+    BEFORE UPDATE ON public.sync_snapshots
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.sync_snapshots ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow SELECT for authenticated users" ON public.sync_snapshots;
+CREATE POLICY "Allow SELECT for authenticated users" ON public.sync_snapshots
+    FOR SELECT USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Allow INSERT for authenticated users" ON public.sync_snapshots;
+CREATE POLICY "Allow INSERT for authenticated users" ON public.sync_snapshots
+    FOR INSERT WITH CHECK (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Allow UPDATE for authenticated users" ON public.sync_snapshots;
+CREATE POLICY "Allow UPDATE for authenticated users" ON public.sync_snapshots
+    FOR UPDATE USING (auth.uid() IS NOT NULL);
+
+-- =============================================================================
+-- SYNC CONFLICTS
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.sync_conflicts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    channel TEXT NOT NULL,
+    channel_account_id UUID REFERENCES public.channel_accounts(id) ON DELETE CASCADE,
+    item_type TEXT NOT NULL DEFAULT 'product',
+    item_id TEXT NOT NULL,
+    field TEXT NOT NULL,
+    base_value JSONB, -- Value at the last sync
+    local_value JSONB,
+    platform_value JSONB,
+    job_id TEXT, -- Job that last saw the conflict
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved', 'superseded')),
+    resolution TEXT CHECK (resolution IN ('aiostore', 'platform')),
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON COLUMN public.sync_conflicts.status IS 'open until an operator picks a side (resolved), or until both sides agree again (superseded)';
+
+-- One open conflict per item field
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sync_conflicts_open_field
+    ON public.sync_conflicts(channel, COALESCE(channel_account_id, '00000000-0000-0000-0000-000000000000'::UUID), item_type, item_id, field)
+    WHERE status = 'open';
+
+CREATE INDEX IF NOT EXISTS idx_sync_conflicts_status ON public.sync_conflicts(status, created_at DESC);
+
+CREATE TRIGGER update_sync_conflicts_updated_at
+    BEFORE UPDATE ON public.sync_conflicts
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.sync_conflicts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow SELECT for authenticated users" ON public.sync_conflicts;
+CREATE POLICY "Allow SELECT for authenticated users" ON public.sync_conflicts
+    FOR SELECT USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Allow INSERT for authenticated users" ON public.sync_conflicts;
+CREATE POLICY "Allow INSERT for authenticated users" ON public.sync_conflicts
+    FOR INSERT WITH CHECK (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Allow UPDATE for authenticated users" ON public.sync_conflicts;
+CREATE POLICY "Allow UPDATE for authenticated users" ON public.sync_conflicts
+    FOR UPDATE USING (auth.uid() IS NOT NULL);
+
+-- =============================================================================
+-- SUCCESS MESSAGE
+-- =============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Sync field rules, snapshots and conflicts created';
+END $$;
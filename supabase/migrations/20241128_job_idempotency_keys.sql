@@ -0,0 +1,34 @@
+-- AIOStore: Job idempotency keys
+-- Jobs queued for a request with an idempotency key (stock and price
+-- commits) carry the key, unique per channel account, job type and data
+-- type, so a retried request gets the jobs it already queued instead of
+-- pushing the change twice. A key reused for a different kind of job (a
+-- price push after a stock push) queues a new job
+
+-- =============================================================================
+-- IDEMPOTENCY KEY COLUMN
+-- =============================================================================
+
+ALTER TABLE public.jobs
+    ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+
+COMMENT ON COLUMN public.jobs.idempotency_key IS 'Idempotency key of the request that queued the job, unique per channel account, job type and data type';
+
+DROP INDEX IF EXISTS public.idx_jobs_idempotency_key;
+CREATE UNIQUE INDEX idx_jobs_idempotency_key
+    ON public.jobs(
+        COALESCE(channel_account_id, '00000000-0000-0000-0000-000000000000'::UUID),
+        type,
+        COALESCE(metadata->>'dataType', ''),
+        idempotency_key
+    )
+    WHERE idempotency_key IS NOT NULL;
+
+-- =============================================================================
+-- SUCCESS MESSAGE
+-- =============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Job idempotency keys added';
+END $$;
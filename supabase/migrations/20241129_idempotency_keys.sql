@@ -0,0 +1,102 @@
+-- AIOStore: Idempotency store for write endpoints
+-- Write requests sent with an idempotency key record a hash of the request
+-- and the response they got for 24 hours. A retry with the same key and body
+-- replays the stored response; reusing the key for a different body, or
+-- while the first request is still running, is rejected with 409
+
+-- =============================================================================
+-- IDEMPOTENCY KEYS
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.idempotency_keys (
+    scope TEXT NOT NULL, -- Endpoint, e.g. 'POST /api/stock/update'
+    key TEXT NOT NULL,
+    request_hash TEXT NOT NULL, -- SHA-256 of the request body
+    status TEXT NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'completed')),
+    response_status INTEGER,
+    response_body JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW() + INTERVAL '24 hours',
+    PRIMARY KEY (scope, key)
+);
+
+COMMENT ON TABLE public.idempotency_keys IS 'Responses of write requests per idempotency key, kept for 24 hours';
+
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires_at ON public.idempotency_keys(expires_at);
+
+CREATE TRIGGER update_idempotency_keys_updated_at
+    BEFORE UPDATE ON public.idempotency_keys
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.idempotency_keys ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow SELECT for authenticated users" ON public.idempotency_keys;
+CREATE POLICY "Allow SELECT for authenticated users" ON public.idempotency_keys
+    FOR SELECT USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Allow UPDATE for authenticated users" ON public.idempotency_keys;
+CREATE POLICY "Allow UPDATE for authenticated users" ON public.idempotency_keys
+    FOR UPDATE USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Allow DELETE for authenticated users" ON public.idempotency_keys;
+CREATE POLICY "Allow DELETE for authenticated users" ON public.idempotency_keys
+    FOR DELETE USING (auth.uid() IS NOT NULL);
+
+-- =============================================================================
+-- CLAIM KEY
+-- =============================================================================
+
+-- Claim a key for a request. Returns claimed = true when the caller should
+-- process the request (the key was unused, had expired, or its request was
+-- abandoned mid-way); otherwise the existing entry is returned for the
+-- caller to replay or reject.
+CREATE OR REPLACE FUNCTION public.claim_idempotency_key(
+    p_scope TEXT,
+    p_key TEXT,
+    p_request_hash TEXT
+) RETURNS TABLE (
+    claimed BOOLEAN,
+    request_hash TEXT,
+    status TEXT,
+    response_status INTEGER,
+    response_body JSONB
+) LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+    DELETE FROM public.idempotency_keys k
+    WHERE k.scope = p_scope AND k.key = p_key
+      AND (k.expires_at <= NOW() OR (k.status = 'processing' AND k.updated_at < NOW() - INTERVAL '15 minutes'));
+
+    INSERT INTO public.idempotency_keys (scope, key, request_hash)
+    VALUES (p_scope, p_key, p_request_hash)
+    ON CONFLICT DO NOTHING;
+
+    IF FOUND THEN
+        RETURN QUERY SELECT true, p_request_hash, 'processing'::TEXT, NULL::INTEGER, NULL::JSONB;
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    SELECT false, k.request_hash, k.status, k.response_status, k.response_body
+    FROM public.idempotency_keys k
+    WHERE k.scope = p_scope AND k.key = p_key;
+END;$$;
+
+-- =============================================================================
+-- EXPIRY
+-- =============================================================================
+
+SELECT cron.schedule(
+    'purge-idempotency-keys',
+    '0 * * * *',
+    $$DELETE FROM public.idempotency_keys WHERE expires_at <= NOW()$$
+);
+
+-- =============================================================================
+-- SUCCESS MESSAGE
+-- =============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Idempotency keys created';
+END $$;
@@ -0,0 +1,157 @@
+-- AIOStore: Central inventory allocation
+-- Product and variant stock is the master inventory every listing sells
+-- from. Orders reserve stock as they arrive and take it off hand when they
+-- ship; each channel account lists the stock left available, all of it or
+-- a share (percentage) or all but a safety buffer, so a unit sold on one
+-- channel stops selling on the others
+
+-- =============================================================================
+-- INVENTORY ALLOCATIONS
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.inventory_allocations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    channel_account_id UUID REFERENCES public.channel_accounts(id) ON DELETE CASCADE NOT NULL,
+    product_id UUID REFERENCES public.products(id) ON DELETE CASCADE, -- NULL: every product of the account
+    mode TEXT NOT NULL CHECK (mode IN ('percentage', 'buffer')),
+    value INTEGER NOT NULL CHECK (value >= 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (mode <> 'percentage' OR value <= 100)
+);
+
+COMMENT ON TABLE public.inventory_allocations IS 'Share of available stock listed per channel account; product rules override the account default (product_id NULL)';
+COMMENT ON COLUMN public.inventory_allocations.value IS 'percentage: share of available stock listed (0-100); buffer: units held back';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_inventory_allocations_scope
+    ON public.inventory_allocations(channel_account_id, COALESCE(product_id, '00000000-0000-0000-0000-000000000000'::UUID));
+
+CREATE TRIGGER update_inventory_allocations_updated_at
+    BEFORE UPDATE ON public.inventory_allocations
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.inventory_allocations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow SELECT for authenticated users" ON public.inventory_allocations;
+CREATE POLICY "Allow SELECT for authenticated users" ON public.inventory_allocations
+    FOR SELECT USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Allow INSERT for authenticated users" ON public.inventory_allocations;
+CREATE POLICY "Allow INSERT for authenticated users" ON public.inventory_allocations
+    FOR INSERT WITH CHECK (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Allow UPDATE for authenticated users" ON public.inventory_allocations;
+CREATE POLICY "Allow UPDATE for authenticated users" ON public.inventory_allocations
+    FOR UPDATE USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Allow DELETE for authenticated users" ON public.inventory_allocations;
+CREATE POLICY "Allow DELETE for authenticated users" ON public.inventory_allocations
+    FOR DELETE USING (auth.uid() IS NOT NULL);
+
+-- =============================================================================
+-- INVENTORY RESERVATIONS
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.inventory_reservations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    channel TEXT NOT NULL,
+    channel_account_id UUID REFERENCES public.channel_accounts(id) ON DELETE SET NULL,
+    order_id TEXT NOT NULL, -- Platform order ID
+    product_id UUID REFERENCES public.products(id) ON DELETE CASCADE NOT NULL,
+    variant_id UUID REFERENCES public.product_variants(id) ON DELETE CASCADE,
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    status TEXT NOT NULL DEFAULT 'reserved' CHECK (status IN ('reserved', 'committed', 'released')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.inventory_reservations IS 'Stock held by platform orders until they ship (committed: taken off hand) or are cancelled (released)';
+
+-- One reservation per order line, so repeated webhooks reserve once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_inventory_reservations_line
+    ON public.inventory_reservations(channel, order_id, product_id, COALESCE(variant_id, '00000000-0000-0000-0000-000000000000'::UUID));
+
+CREATE INDEX IF NOT EXISTS idx_inventory_reservations_product
+    ON public.inventory_reservations(product_id, status);
+
+CREATE TRIGGER update_inventory_reservations_updated_at
+    BEFORE UPDATE ON public.inventory_reservations
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.inventory_reservations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow SELECT for authenticated users" ON public.inventory_reservations;
+CREATE POLICY "Allow SELECT for authenticated users" ON public.inventory_reservations
+    FOR SELECT USING (auth.uid() IS NOT NULL);
+
+-- =============================================================================
+-- RESERVE / COMMIT / RELEASE
+-- =============================================================================
+
+-- Reserve the lines of an order: p_items is an array of
+-- { product_id, variant_id, quantity }. Lines reserved before are skipped.
+-- Returns the products whose available stock changed
+CREATE OR REPLACE FUNCTION public.reserve_inventory(
+    p_channel TEXT,
+    p_channel_account_id UUID,
+    p_order_id TEXT,
+    p_items JSONB
+) RETURNS SETOF UUID LANGUAGE sql SECURITY DEFINER SET search_path = public AS $$
+    INSERT INTO public.inventory_reservations (channel, channel_account_id, order_id, product_id, variant_id, quantity)
+    SELECT p_channel, p_channel_account_id, p_order_id,
+           (item->>'product_id')::UUID, NULLIF(item->>'variant_id', '')::UUID, (item->>'quantity')::INTEGER
+    FROM jsonb_array_elements(p_items) AS item
+    ON CONFLICT DO NOTHING
+    RETURNING product_id;
+$$;
+
+-- Take the reserved stock of a shipped order off hand. Variant stock and the
+-- product total both go down. Returns the products whose stock changed
+CREATE OR REPLACE FUNCTION public.commit_inventory_reservations(
+    p_channel TEXT,
+    p_order_id TEXT
+) RETURNS SETOF UUID LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+    r RECORD;
+BEGIN
+    FOR r IN
+        UPDATE public.inventory_reservations
+        SET status = 'committed'
+        WHERE channel = p_channel AND order_id = p_order_id AND status = 'reserved'
+        RETURNING product_id, variant_id, quantity
+    LOOP
+        IF r.variant_id IS NOT NULL THEN
+            UPDATE public.product_variants
+            SET stock = GREATEST(stock - r.quantity, 0)
+            WHERE id = r.variant_id;
+        END IF;
+
+        UPDATE public.products
+        SET stock = GREATEST(stock - r.quantity, 0)
+        WHERE id = r.product_id;
+
+        RETURN NEXT r.product_id;
+    END LOOP;
+END;$$;
+
+-- Give the reserved stock of a cancelled order back. Stock of orders that
+-- already shipped is not restored here; returns come back as adjustments.
+-- Returns the products whose available stock changed
+CREATE OR REPLACE FUNCTION public.release_inventory_reservations(
+    p_channel TEXT,
+    p_order_id TEXT
+) RETURNS SETOF UUID LANGUAGE sql SECURITY DEFINER SET search_path = public AS $$
+    UPDATE public.inventory_reservations
+    SET status = 'released'
+    WHERE channel = p_channel AND order_id = p_order_id AND status = 'reserved'
+    RETURNING product_id;
+$$;
+
+-- =============================================================================
+-- SUCCESS MESSAGE
+-- =============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Inventory allocations and reservations created';
+END $$;
@@ -0,0 +1,257 @@
+-- AIOStore: Inventory movements ledger
+-- Every stock change is an append-only movement: its delta, reason, where
+-- it came from (a user, a platform webhook or a sync job), the job and the
+-- actor. Product and variant stock are derived from the ledger: a movement
+-- updates them as it is recorded, and writing them any other way fails
+
+-- =============================================================================
+-- INVENTORY MOVEMENTS
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.inventory_movements (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    product_id UUID REFERENCES public.products(id) ON DELETE CASCADE NOT NULL,
+    variant_id UUID REFERENCES public.product_variants(id) ON DELETE SET NULL,
+    delta INTEGER NOT NULL CHECK (delta <> 0),
+    balance INTEGER NOT NULL, -- Stock of the variant (or product) after the movement
+    reason TEXT NOT NULL CHECK (reason IN ('restock', 'sale', 'adjustment', 'damage', 'return')),
+    source TEXT NOT NULL CHECK (source IN ('user', 'webhook', 'sync')),
+    job_id TEXT, -- Sync job that made the change
+    actor TEXT, -- User, or the channel of a webhook
+    reference TEXT, -- Order or other document the movement belongs to
+    note TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.inventory_movements IS 'Append-only stock changes; products.stock and product_variants.stock are their running totals';
+
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_product ON public.inventory_movements(product_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_variant ON public.inventory_movements(variant_id, created_at DESC) WHERE variant_id IS NOT NULL;
+
+ALTER TABLE public.inventory_movements ENABLE ROW LEVEL SECURITY;
+
+-- Movements are written through the RPCs below only
+DROP POLICY IF EXISTS "Allow SELECT for authenticated users" ON public.inventory_movements;
+CREATE POLICY "Allow SELECT for authenticated users" ON public.inventory_movements
+    FOR SELECT USING (auth.uid() IS NOT NULL);
+
+-- =============================================================================
+-- OPENING BALANCES
+-- =============================================================================
+
+-- Current stock becomes the first movement of each variant, and of each
+-- product for the part not held by its variants
+INSERT INTO public.inventory_movements (product_id, variant_id, delta, balance, reason, source, note)
+SELECT v.product_id, v.id, v.stock, v.stock, 'adjustment', 'sync', 'Opening balance'
+FROM public.product_variants v
+WHERE v.stock <> 0;
+
+INSERT INTO public.inventory_movements (product_id, variant_id, delta, balance, reason, source, note)
+SELECT p.id, NULL, p.stock - COALESCE(v.stock, 0), p.stock, 'adjustment', 'sync', 'Opening balance'
+FROM public.products p
+LEFT JOIN (
+    SELECT product_id, SUM(stock)::INTEGER AS stock FROM public.product_variants GROUP BY product_id
+) v ON v.product_id = p.id
+WHERE COALESCE(p.stock, 0) - COALESCE(v.stock, 0) <> 0;
+
+-- =============================================================================
+-- DERIVED STOCK
+-- =============================================================================
+
+ALTER TABLE public.products ALTER COLUMN stock SET DEFAULT 0;
+
+-- Apply a movement to the variant and product stock it belongs to
+CREATE OR REPLACE FUNCTION public.apply_inventory_movement()
+RETURNS TRIGGER LANGUAGE plpgsql AS $$
+DECLARE
+    v_variant_stock INTEGER;
+    v_product_stock INTEGER;
+BEGIN
+    PERFORM set_config('aiostore.inventory_movement', 'on', true);
+
+    IF NEW.variant_id IS NOT NULL THEN
+        UPDATE public.product_variants
+        SET stock = stock + NEW.delta
+        WHERE id = NEW.variant_id AND product_id = NEW.product_id
+        RETURNING stock INTO v_variant_stock;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Variant % of product % not found', NEW.variant_id, NEW.product_id;
+        END IF;
+    END IF;
+
+    UPDATE public.products
+    SET stock = COALESCE(stock, 0) + NEW.delta
+    WHERE id = NEW.product_id
+    RETURNING stock INTO v_product_stock;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Product % not found', NEW.product_id;
+    END IF;
+
+    PERFORM set_config('aiostore.inventory_movement', 'off', true);
+
+    NEW.balance := COALESCE(v_variant_stock, v_product_stock);
+    IF NEW.balance < 0 THEN
+        RAISE EXCEPTION 'Stock of % cannot go below zero', COALESCE(NEW.variant_id, NEW.product_id);
+    END IF;
+
+    RETURN NEW;
+END;$$;
+
+DROP TRIGGER IF EXISTS apply_inventory_movement ON public.inventory_movements;
+CREATE TRIGGER apply_inventory_movement
+    BEFORE INSERT ON public.inventory_movements
+    FOR EACH ROW EXECUTE FUNCTION public.apply_inventory_movement();
+
+-- Movements can't be changed, only deleted along with their product
+CREATE OR REPLACE FUNCTION public.protect_inventory_movements()
+RETURNS TRIGGER LANGUAGE plpgsql AS $$
+BEGIN
+    IF pg_trigger_depth() > 1 THEN
+        RETURN COALESCE(NEW, OLD);
+    END IF;
+
+    RAISE EXCEPTION 'inventory_movements is append-only';
+END;$$;
+
+DROP TRIGGER IF EXISTS protect_inventory_movements ON public.inventory_movements;
+CREATE TRIGGER protect_inventory_movements
+    BEFORE UPDATE OR DELETE ON public.inventory_movements
+    FOR EACH ROW EXECUTE FUNCTION public.protect_inventory_movements();
+
+-- Stock changes only through movements
+CREATE OR REPLACE FUNCTION public.guard_derived_stock()
+RETURNS TRIGGER LANGUAGE plpgsql AS $$
+BEGIN
+    IF current_setting('aiostore.inventory_movement', true) IS DISTINCT FROM 'on' THEN
+        IF TG_OP = 'INSERT' AND COALESCE(NEW.stock, 0) <> 0 THEN
+            RAISE EXCEPTION 'Stock of % is derived from inventory_movements; create it with no stock and record a movement', TG_TABLE_NAME;
+        ELSIF TG_OP = 'UPDATE' AND NEW.stock IS DISTINCT FROM OLD.stock THEN
+            RAISE EXCEPTION 'Stock of % is derived from inventory_movements; record a movement instead', TG_TABLE_NAME;
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;$$;
+
+DROP TRIGGER IF EXISTS guard_products_stock ON public.products;
+CREATE TRIGGER guard_products_stock
+    BEFORE INSERT OR UPDATE OF stock ON public.products
+    FOR EACH ROW EXECUTE FUNCTION public.guard_derived_stock();
+
+DROP TRIGGER IF EXISTS guard_product_variants_stock ON public.product_variants;
+CREATE TRIGGER guard_product_variants_stock
+    BEFORE INSERT OR UPDATE OF stock ON public.product_variants
+    FOR EACH ROW EXECUTE FUNCTION public.guard_derived_stock();
+
+-- Stock as the ledger adds it up, to reconcile with the stock columns
+CREATE OR REPLACE VIEW public.inventory_ledger_stock AS
+SELECT product_id, NULL::UUID AS variant_id, SUM(delta)::INTEGER AS stock
+FROM public.inventory_movements
+GROUP BY product_id
+UNION ALL
+SELECT product_id, variant_id, SUM(delta)::INTEGER AS stock
+FROM public.inventory_movements
+WHERE variant_id IS NOT NULL
+GROUP BY product_id, variant_id;
+
+-- =============================================================================
+-- RECORD MOVEMENTS
+-- =============================================================================
+
+-- Record a change of stock by p_delta
+CREATE OR REPLACE FUNCTION public.record_inventory_movement(
+    p_product_id UUID,
+    p_variant_id UUID,
+    p_delta INTEGER,
+    p_reason TEXT,
+    p_source TEXT,
+    p_job_id TEXT DEFAULT NULL,
+    p_actor TEXT DEFAULT NULL,
+    p_reference TEXT DEFAULT NULL,
+    p_note TEXT DEFAULT NULL
+) RETURNS SETOF public.inventory_movements LANGUAGE sql SECURITY DEFINER SET search_path = public AS $$
+    INSERT INTO public.inventory_movements (product_id, variant_id, delta, balance, reason, source, job_id, actor, reference, note)
+    VALUES (p_product_id, p_variant_id, p_delta, 0, p_reason, p_source, p_job_id, p_actor, p_reference, p_note)
+    RETURNING *;
+$$;
+
+-- Record the change that brings stock to p_stock; nothing when it already is
+CREATE OR REPLACE FUNCTION public.set_inventory_stock(
+    p_product_id UUID,
+    p_variant_id UUID,
+    p_stock INTEGER,
+    p_reason TEXT,
+    p_source TEXT,
+    p_job_id TEXT DEFAULT NULL,
+    p_actor TEXT DEFAULT NULL,
+    p_reference TEXT DEFAULT NULL,
+    p_note TEXT DEFAULT NULL
+) RETURNS SETOF public.inventory_movements LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+    v_current INTEGER;
+BEGIN
+    IF p_variant_id IS NOT NULL THEN
+        SELECT stock INTO v_current FROM public.product_variants
+        WHERE id = p_variant_id AND product_id = p_product_id
+        FOR UPDATE;
+    ELSE
+        SELECT COALESCE(stock, 0) INTO v_current FROM public.products
+        WHERE id = p_product_id
+        FOR UPDATE;
+    END IF;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Product % (variant %) not found', p_product_id, p_variant_id;
+    END IF;
+
+    IF p_stock = v_current THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    INSERT INTO public.inventory_movements (product_id, variant_id, delta, balance, reason, source, job_id, actor, reference, note)
+    VALUES (p_product_id, p_variant_id, p_stock - v_current, 0, p_reason, p_source, p_job_id, p_actor, p_reference, p_note)
+    RETURNING *;
+END;$$;
+
+-- Shipped orders take their stock off hand as sale movements. Units sold
+-- beyond the stock on hand (oversold) were never there to take
+CREATE OR REPLACE FUNCTION public.commit_inventory_reservations(
+    p_channel TEXT,
+    p_order_id TEXT
+) RETURNS SETOF UUID LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+    r RECORD;
+    v_current INTEGER;
+BEGIN
+    FOR r IN
+        UPDATE public.inventory_reservations
+        SET status = 'committed'
+        WHERE channel = p_channel AND order_id = p_order_id AND status = 'reserved'
+        RETURNING product_id, variant_id, quantity
+    LOOP
+        IF r.variant_id IS NOT NULL THEN
+            SELECT stock INTO v_current FROM public.product_variants WHERE id = r.variant_id FOR UPDATE;
+        ELSE
+            SELECT COALESCE(stock, 0) INTO v_current FROM public.products WHERE id = r.product_id FOR UPDATE;
+        END IF;
+
+        IF LEAST(r.quantity, v_current) > 0 THEN
+            INSERT INTO public.inventory_movements (product_id, variant_id, delta, balance, reason, source, actor, reference)
+            VALUES (r.product_id, r.variant_id, -LEAST(r.quantity, v_current), 0, 'sale', 'webhook', p_channel, p_order_id);
+        END IF;
+
+        RETURN NEXT r.product_id;
+    END LOOP;
+END;$$;
+
+-- =============================================================================
+-- SUCCESS MESSAGE
+-- =============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Inventory movements ledger created';
+END $$;
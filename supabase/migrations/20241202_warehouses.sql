@@ -0,0 +1,511 @@
+-- AIOStore: Warehouses and stock locations
+-- Branches ship from one or more warehouses, each with its own locations
+-- (bins, shelves). Stock is held per SKU per warehouse, as a running total
+-- of the inventory movements recorded there; stock not yet put in a
+-- warehouse stays unassigned. Channel accounts sell from the warehouses
+-- they are mapped to, and stock moves between warehouses as a pair of
+-- transfer movements
+
+-- =============================================================================
+-- WAREHOUSES AND LOCATIONS
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.warehouses (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    branch_id UUID REFERENCES public.branches(id) ON DELETE CASCADE NOT NULL,
+    code TEXT NOT NULL,
+    name TEXT NOT NULL,
+    address TEXT,
+    is_default BOOLEAN NOT NULL DEFAULT false, -- Stock is taken from it first when no warehouse is named
+    status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'inactive')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (branch_id, code)
+);
+
+COMMENT ON TABLE public.warehouses IS 'Warehouses a branch holds and ships stock from';
+
+-- One default warehouse per branch
+CREATE UNIQUE INDEX IF NOT EXISTS idx_warehouses_branch_default
+    ON public.warehouses(branch_id) WHERE is_default;
+
+CREATE TRIGGER update_warehouses_updated_at
+    BEFORE UPDATE ON public.warehouses
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS public.warehouse_locations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    warehouse_id UUID REFERENCES public.warehouses(id) ON DELETE CASCADE NOT NULL,
+    code TEXT NOT NULL, -- e.g. A-01-03 (aisle, rack, shelf)
+    name TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (warehouse_id, code)
+);
+
+COMMENT ON TABLE public.warehouse_locations IS 'Storage locations (bins, shelves) within a warehouse';
+
+CREATE TRIGGER update_warehouse_locations_updated_at
+    BEFORE UPDATE ON public.warehouse_locations
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================================================
+-- STOCK PER WAREHOUSE
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.warehouse_stock (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    warehouse_id UUID REFERENCES public.warehouses(id) ON DELETE CASCADE NOT NULL,
+    product_id UUID REFERENCES public.products(id) ON DELETE CASCADE NOT NULL,
+    variant_id UUID REFERENCES public.product_variants(id) ON DELETE CASCADE,
+    location_id UUID REFERENCES public.warehouse_locations(id) ON DELETE SET NULL, -- Where in the warehouse the SKU is kept
+    stock INTEGER NOT NULL DEFAULT 0,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.warehouse_stock IS 'Stock of each product or variant per warehouse; stock is the running total of its inventory_movements';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_warehouse_stock_sku
+    ON public.warehouse_stock(warehouse_id, product_id, COALESCE(variant_id, '00000000-0000-0000-0000-000000000000'::UUID));
+
+CREATE INDEX IF NOT EXISTS idx_warehouse_stock_product ON public.warehouse_stock(product_id);
+
+CREATE TRIGGER update_warehouse_stock_updated_at
+    BEFORE UPDATE ON public.warehouse_stock
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS guard_warehouse_stock ON public.warehouse_stock;
+CREATE TRIGGER guard_warehouse_stock
+    BEFORE INSERT OR UPDATE OF stock ON public.warehouse_stock
+    FOR EACH ROW EXECUTE FUNCTION public.guard_derived_stock();
+
+-- A warehouse still holding stock can't be deleted; transfer it out first
+CREATE OR REPLACE FUNCTION public.protect_stocked_warehouse()
+RETURNS TRIGGER LANGUAGE plpgsql AS $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM public.warehouse_stock WHERE warehouse_id = OLD.id AND stock <> 0) THEN
+        RAISE EXCEPTION 'Warehouse % still holds stock; transfer it out before deleting the warehouse', OLD.code;
+    END IF;
+
+    RETURN OLD;
+END;$$;
+
+DROP TRIGGER IF EXISTS protect_stocked_warehouse ON public.warehouses;
+CREATE TRIGGER protect_stocked_warehouse
+    BEFORE DELETE ON public.warehouses
+    FOR EACH ROW EXECUTE FUNCTION public.protect_stocked_warehouse();
+
+-- =============================================================================
+-- CHANNEL ACCOUNT WAREHOUSES
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.channel_account_warehouses (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    channel_account_id UUID REFERENCES public.channel_accounts(id) ON DELETE CASCADE NOT NULL,
+    warehouse_id UUID REFERENCES public.warehouses(id) ON DELETE CASCADE NOT NULL,
+    priority INTEGER NOT NULL DEFAULT 0, -- Lower ships first
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (channel_account_id, warehouse_id)
+);
+
+COMMENT ON TABLE public.channel_account_warehouses IS 'Warehouses a channel account sells from; accounts without any sell from all stock';
+
+CREATE INDEX IF NOT EXISTS idx_channel_account_warehouses_warehouse ON public.channel_account_warehouses(warehouse_id);
+
+-- =============================================================================
+-- ROW LEVEL SECURITY
+-- =============================================================================
+
+ALTER TABLE public.warehouses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.warehouse_locations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.warehouse_stock ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.channel_account_warehouses ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow SELECT for authenticated users" ON public.warehouses;
+CREATE POLICY "Allow SELECT for authenticated users" ON public.warehouses
+    FOR SELECT USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Allow INSERT for authenticated users" ON public.warehouses;
+CREATE POLICY "Allow INSERT for authenticated users" ON public.warehouses
+    FOR INSERT WITH CHECK (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Allow UPDATE for authenticated users" ON public.warehouses;
+CREATE POLICY "Allow UPDATE for authenticated users" ON public.warehouses
+    FOR UPDATE USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Allow DELETE for authenticated users" ON public.warehouses;
+CREATE POLICY "Allow DELETE for authenticated users" ON public.warehouses
+    FOR DELETE USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Allow SELECT for authenticated users" ON public.warehouse_locations;
+CREATE POLICY "Allow SELECT for authenticated users" ON public.warehouse_locations
+    FOR SELECT USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Allow INSERT for authenticated users" ON public.warehouse_locations;
+CREATE POLICY "Allow INSERT for authenticated users" ON public.warehouse_locations
+    FOR INSERT WITH CHECK (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Allow UPDATE for authenticated users" ON public.warehouse_locations;
+CREATE POLICY "Allow UPDATE for authenticated users" ON public.warehouse_locations
+    FOR UPDATE USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Allow DELETE for authenticated users" ON public.warehouse_locations;
+CREATE POLICY "Allow DELETE for authenticated users" ON public.warehouse_locations
+    FOR DELETE USING (auth.uid() IS NOT NULL);
+
+-- Stock rows are written by movements; only their location can be set
+DROP POLICY IF EXISTS "Allow SELECT for authenticated users" ON public.warehouse_stock;
+CREATE POLICY "Allow SELECT for authenticated users" ON public.warehouse_stock
+    FOR SELECT USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Allow UPDATE for authenticated users" ON public.warehouse_stock;
+CREATE POLICY "Allow UPDATE for authenticated users" ON public.warehouse_stock
+    FOR UPDATE USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Allow SELECT for authenticated users" ON public.channel_account_warehouses;
+CREATE POLICY "Allow SELECT for authenticated users" ON public.channel_account_warehouses
+    FOR SELECT USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Allow INSERT for authenticated users" ON public.channel_account_warehouses;
+CREATE POLICY "Allow INSERT for authenticated users" ON public.channel_account_warehouses
+    FOR INSERT WITH CHECK (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Allow DELETE for authenticated users" ON public.channel_account_warehouses;
+CREATE POLICY "Allow DELETE for authenticated users" ON public.channel_account_warehouses
+    FOR DELETE USING (auth.uid() IS NOT NULL);
+
+-- =============================================================================
+-- WAREHOUSE MOVEMENTS
+-- =============================================================================
+
+ALTER TABLE public.inventory_movements
+    ADD COLUMN IF NOT EXISTS warehouse_id UUID REFERENCES public.warehouses(id) ON DELETE SET NULL, -- NULL: unassigned stock
+    ADD COLUMN IF NOT EXISTS transfer_id UUID; -- Pairs the two movements of a transfer
+
+ALTER TABLE public.inventory_movements DROP CONSTRAINT IF EXISTS inventory_movements_reason_check;
+ALTER TABLE public.inventory_movements ADD CONSTRAINT inventory_movements_reason_check
+    CHECK (reason IN ('restock', 'sale', 'adjustment', 'damage', 'return', 'transfer'));
+
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_warehouse ON public.inventory_movements(warehouse_id, created_at DESC) WHERE warehouse_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_transfer ON public.inventory_movements(transfer_id) WHERE transfer_id IS NOT NULL;
+
+-- Stock of a product (its own, without its variants) or variant that is
+-- in no warehouse
+CREATE OR REPLACE FUNCTION public.unassigned_inventory_stock(p_product_id UUID, p_variant_id UUID)
+RETURNS INTEGER LANGUAGE sql STABLE AS $$
+    SELECT (
+        CASE
+            WHEN p_variant_id IS NOT NULL THEN
+                (SELECT stock FROM public.product_variants WHERE id = p_variant_id)
+            ELSE
+                (SELECT COALESCE(stock, 0) FROM public.products WHERE id = p_product_id)
+                - (SELECT COALESCE(SUM(stock), 0) FROM public.product_variants WHERE product_id = p_product_id)
+        END
+        - (SELECT COALESCE(SUM(stock), 0) FROM public.warehouse_stock
+           WHERE product_id = p_product_id AND variant_id IS NOT DISTINCT FROM p_variant_id)
+    )::INTEGER;
+$$;
+
+-- Movements also keep the stock of their warehouse, or check that the
+-- unassigned stock they take is there
+CREATE OR REPLACE FUNCTION public.apply_inventory_movement()
+RETURNS TRIGGER LANGUAGE plpgsql AS $$
+DECLARE
+    v_variant_stock INTEGER;
+    v_product_stock INTEGER;
+    v_warehouse_stock INTEGER;
+BEGIN
+    PERFORM set_config('aiostore.inventory_movement', 'on', true);
+
+    IF NEW.variant_id IS NOT NULL THEN
+        UPDATE public.product_variants
+        SET stock = stock + NEW.delta
+        WHERE id = NEW.variant_id AND product_id = NEW.product_id
+        RETURNING stock INTO v_variant_stock;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Variant % of product % not found', NEW.variant_id, NEW.product_id;
+        END IF;
+    END IF;
+
+    UPDATE public.products
+    SET stock = COALESCE(stock, 0) + NEW.delta
+    WHERE id = NEW.product_id
+    RETURNING stock INTO v_product_stock;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Product % not found', NEW.product_id;
+    END IF;
+
+    IF NEW.warehouse_id IS NOT NULL THEN
+        INSERT INTO public.warehouse_stock (warehouse_id, product_id, variant_id, stock)
+        VALUES (NEW.warehouse_id, NEW.product_id, NEW.variant_id, NEW.delta)
+        ON CONFLICT (warehouse_id, product_id, COALESCE(variant_id, '00000000-0000-0000-0000-000000000000'::UUID))
+        DO UPDATE SET stock = warehouse_stock.stock + EXCLUDED.stock
+        RETURNING stock INTO v_warehouse_stock;
+
+        IF v_warehouse_stock < 0 THEN
+            RAISE EXCEPTION 'Stock of % in warehouse % cannot go below zero', COALESCE(NEW.variant_id, NEW.product_id), NEW.warehouse_id;
+        END IF;
+    ELSIF NEW.delta < 0 AND public.unassigned_inventory_stock(NEW.product_id, NEW.variant_id) < 0 THEN
+        RAISE EXCEPTION 'Stock of % is held in warehouses; take it from a warehouse', COALESCE(NEW.variant_id, NEW.product_id);
+    END IF;
+
+    PERFORM set_config('aiostore.inventory_movement', 'off', true);
+
+    NEW.balance := COALESCE(v_variant_stock, v_product_stock);
+    IF NEW.balance < 0 THEN
+        RAISE EXCEPTION 'Stock of % cannot go below zero', COALESCE(NEW.variant_id, NEW.product_id);
+    END IF;
+
+    RETURN NEW;
+END;$$;
+
+-- Stock as the ledger adds it up: totals (warehouse_id NULL) and per
+-- warehouse
+DROP VIEW IF EXISTS public.inventory_ledger_stock;
+CREATE VIEW public.inventory_ledger_stock AS
+SELECT product_id, NULL::UUID AS variant_id, NULL::UUID AS warehouse_id, SUM(delta)::INTEGER AS stock
+FROM public.inventory_movements
+GROUP BY product_id
+UNION ALL
+SELECT product_id, variant_id, NULL::UUID AS warehouse_id, SUM(delta)::INTEGER AS stock
+FROM public.inventory_movements
+WHERE variant_id IS NOT NULL
+GROUP BY product_id, variant_id
+UNION ALL
+SELECT product_id, variant_id, warehouse_id, SUM(delta)::INTEGER AS stock
+FROM public.inventory_movements
+WHERE warehouse_id IS NOT NULL
+GROUP BY product_id, variant_id, warehouse_id;
+
+-- =============================================================================
+-- RECORD MOVEMENTS
+-- =============================================================================
+
+DROP FUNCTION IF EXISTS public.record_inventory_movement(UUID, UUID, INTEGER, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT);
+DROP FUNCTION IF EXISTS public.set_inventory_stock(UUID, UUID, INTEGER, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT);
+
+-- Record a change of stock by p_delta, in a warehouse or of the unassigned
+-- stock
+CREATE OR REPLACE FUNCTION public.record_inventory_movement(
+    p_product_id UUID,
+    p_variant_id UUID,
+    p_delta INTEGER,
+    p_reason TEXT,
+    p_source TEXT,
+    p_job_id TEXT DEFAULT NULL,
+    p_actor TEXT DEFAULT NULL,
+    p_reference TEXT DEFAULT NULL,
+    p_note TEXT DEFAULT NULL,
+    p_warehouse_id UUID DEFAULT NULL
+) RETURNS SETOF public.inventory_movements LANGUAGE sql SECURITY DEFINER SET search_path = public AS $$
+    INSERT INTO public.inventory_movements (product_id, variant_id, warehouse_id, delta, balance, reason, source, job_id, actor, reference, note)
+    VALUES (p_product_id, p_variant_id, p_warehouse_id, p_delta, 0, p_reason, p_source, p_job_id, p_actor, p_reference, p_note)
+    RETURNING *;
+$$;
+
+-- Take p_quantity units off hand: from p_warehouse_ids in order, then the
+-- unassigned stock, then the other warehouses (the default first)
+CREATE OR REPLACE FUNCTION public.take_inventory_stock(
+    p_product_id UUID,
+    p_variant_id UUID,
+    p_quantity INTEGER,
+    p_warehouse_ids UUID[],
+    p_reason TEXT,
+    p_source TEXT,
+    p_job_id TEXT DEFAULT NULL,
+    p_actor TEXT DEFAULT NULL,
+    p_reference TEXT DEFAULT NULL,
+    p_note TEXT DEFAULT NULL
+) RETURNS SETOF public.inventory_movements LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+    v_remaining INTEGER := p_quantity;
+    v_take INTEGER;
+    w RECORD;
+BEGIN
+    FOR w IN
+        SELECT ws.warehouse_id, ws.stock
+        FROM unnest(COALESCE(p_warehouse_ids, '{}')) WITH ORDINALITY AS preferred(warehouse_id, position)
+        JOIN public.warehouse_stock ws ON ws.warehouse_id = preferred.warehouse_id
+        WHERE ws.product_id = p_product_id AND ws.variant_id IS NOT DISTINCT FROM p_variant_id AND ws.stock > 0
+        ORDER BY preferred.position
+    LOOP
+        EXIT WHEN v_remaining = 0;
+        v_take := LEAST(v_remaining, w.stock);
+
+        RETURN QUERY
+        INSERT INTO public.inventory_movements (product_id, variant_id, warehouse_id, delta, balance, reason, source, job_id, actor, reference, note)
+        VALUES (p_product_id, p_variant_id, w.warehouse_id, -v_take, 0, p_reason, p_source, p_job_id, p_actor, p_reference, p_note)
+        RETURNING *;
+
+        v_remaining := v_remaining - v_take;
+    END LOOP;
+
+    v_take := LEAST(v_remaining, GREATEST(public.unassigned_inventory_stock(p_product_id, p_variant_id), 0));
+    IF v_take > 0 THEN
+        RETURN QUERY
+        INSERT INTO public.inventory_movements (product_id, variant_id, delta, balance, reason, source, job_id, actor, reference, note)
+        VALUES (p_product_id, p_variant_id, -v_take, 0, p_reason, p_source, p_job_id, p_actor, p_reference, p_note)
+        RETURNING *;
+
+        v_remaining := v_remaining - v_take;
+    END IF;
+
+    FOR w IN
+        SELECT ws.warehouse_id, ws.stock
+        FROM public.warehouse_stock ws
+        JOIN public.warehouses wh ON wh.id = ws.warehouse_id
+        WHERE ws.product_id = p_product_id AND ws.variant_id IS NOT DISTINCT FROM p_variant_id AND ws.stock > 0
+          AND ws.warehouse_id <> ALL(COALESCE(p_warehouse_ids, '{}'))
+        ORDER BY wh.is_default DESC, ws.stock DESC
+    LOOP
+        EXIT WHEN v_remaining = 0;
+        v_take := LEAST(v_remaining, w.stock);
+
+        RETURN QUERY
+        INSERT INTO public.inventory_movements (product_id, variant_id, warehouse_id, delta, balance, reason, source, job_id, actor, reference, note)
+        VALUES (p_product_id, p_variant_id, w.warehouse_id, -v_take, 0, p_reason, p_source, p_job_id, p_actor, p_reference, p_note)
+        RETURNING *;
+
+        v_remaining := v_remaining - v_take;
+    END LOOP;
+
+    IF v_remaining > 0 THEN
+        RAISE EXCEPTION 'Not enough stock of % to take % units', COALESCE(p_variant_id, p_product_id), p_quantity;
+    END IF;
+END;$$;
+
+-- Record the change that brings stock to p_stock; nothing when it already
+-- is. With a warehouse, that warehouse's stock; without, the total: units
+-- added are unassigned and units taken come out as take_inventory_stock does
+CREATE OR REPLACE FUNCTION public.set_inventory_stock(
+    p_product_id UUID,
+    p_variant_id UUID,
+    p_stock INTEGER,
+    p_reason TEXT,
+    p_source TEXT,
+    p_job_id TEXT DEFAULT NULL,
+    p_actor TEXT DEFAULT NULL,
+    p_reference TEXT DEFAULT NULL,
+    p_note TEXT DEFAULT NULL,
+    p_warehouse_id UUID DEFAULT NULL
+) RETURNS SETOF public.inventory_movements LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+    v_current INTEGER;
+BEGIN
+    IF p_variant_id IS NOT NULL THEN
+        SELECT stock INTO v_current FROM public.product_variants
+        WHERE id = p_variant_id AND product_id = p_product_id
+        FOR UPDATE;
+    ELSE
+        SELECT COALESCE(stock, 0) INTO v_current FROM public.products
+        WHERE id = p_product_id
+        FOR UPDATE;
+    END IF;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Product % (variant %) not found', p_product_id, p_variant_id;
+    END IF;
+
+    IF p_warehouse_id IS NOT NULL THEN
+        SELECT COALESCE(SUM(stock), 0) INTO v_current FROM public.warehouse_stock
+        WHERE warehouse_id = p_warehouse_id AND product_id = p_product_id AND variant_id IS NOT DISTINCT FROM p_variant_id;
+    END IF;
+
+    IF p_stock = v_current THEN
+        RETURN;
+    END IF;
+
+    IF p_stock < v_current AND p_warehouse_id IS NULL THEN
+        RETURN QUERY
+        SELECT * FROM public.take_inventory_stock(p_product_id, p_variant_id, v_current - p_stock, '{}', p_reason, p_source, p_job_id, p_actor, p_reference, p_note);
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    INSERT INTO public.inventory_movements (product_id, variant_id, warehouse_id, delta, balance, reason, source, job_id, actor, reference, note)
+    VALUES (p_product_id, p_variant_id, p_warehouse_id, p_stock - v_current, 0, p_reason, p_source, p_job_id, p_actor, p_reference, p_note)
+    RETURNING *;
+END;$$;
+
+-- Move p_quantity units between warehouses (NULL: unassigned stock) as an
+-- out and an in movement sharing a transfer ID. Totals don't change
+CREATE OR REPLACE FUNCTION public.transfer_inventory(
+    p_product_id UUID,
+    p_variant_id UUID,
+    p_from_warehouse_id UUID,
+    p_to_warehouse_id UUID,
+    p_quantity INTEGER,
+    p_actor TEXT DEFAULT NULL,
+    p_reference TEXT DEFAULT NULL,
+    p_note TEXT DEFAULT NULL
+) RETURNS SETOF public.inventory_movements LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+    v_transfer_id UUID := gen_random_uuid();
+BEGIN
+    IF p_quantity <= 0 THEN
+        RAISE EXCEPTION 'Transfer quantity must be positive';
+    END IF;
+
+    IF p_from_warehouse_id IS NOT DISTINCT FROM p_to_warehouse_id THEN
+        RAISE EXCEPTION 'Transfer needs two different warehouses';
+    END IF;
+
+    RETURN QUERY
+    INSERT INTO public.inventory_movements (product_id, variant_id, warehouse_id, transfer_id, delta, balance, reason, source, actor, reference, note)
+    VALUES
+        (p_product_id, p_variant_id, p_from_warehouse_id, v_transfer_id, -p_quantity, 0, 'transfer', 'user', p_actor, p_reference, p_note),
+        (p_product_id, p_variant_id, p_to_warehouse_id, v_transfer_id, p_quantity, 0, 'transfer', 'user', p_actor, p_reference, p_note)
+    RETURNING *;
+END;$$;
+
+-- Shipped orders take their stock from the warehouses their channel
+-- account sells from first. Units sold beyond the stock on hand (oversold)
+-- were never there to take
+CREATE OR REPLACE FUNCTION public.commit_inventory_reservations(
+    p_channel TEXT,
+    p_order_id TEXT
+) RETURNS SETOF UUID LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+    r RECORD;
+    v_current INTEGER;
+BEGIN
+    FOR r IN
+        UPDATE public.inventory_reservations
+        SET status = 'committed'
+        WHERE channel = p_channel AND order_id = p_order_id AND status = 'reserved'
+        RETURNING channel_account_id, product_id, variant_id, quantity
+    LOOP
+        -- Lines without a variant sell the product's own stock, not its variants'
+        IF r.variant_id IS NOT NULL THEN
+            SELECT stock INTO v_current FROM public.product_variants WHERE id = r.variant_id FOR UPDATE;
+        ELSE
+            SELECT COALESCE(stock, 0) - (SELECT COALESCE(SUM(stock), 0) FROM public.product_variants WHERE product_id = r.product_id)
+            INTO v_current FROM public.products WHERE id = r.product_id FOR UPDATE;
+        END IF;
+
+        IF LEAST(r.quantity, v_current) > 0 THEN
+            PERFORM public.take_inventory_stock(
+                r.product_id, r.variant_id, LEAST(r.quantity, v_current),
+                ARRAY(
+                    SELECT warehouse_id FROM public.channel_account_warehouses
+                    WHERE channel_account_id = r.channel_account_id
+                    ORDER BY priority, created_at
+                ),
+                'sale', 'webhook', NULL, p_channel, p_order_id, NULL
+            );
+        END IF;
+
+        RETURN NEXT r.product_id;
+    END LOOP;
+END;$$;
+
+-- =============================================================================
+-- SUCCESS MESSAGE
+-- =============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Warehouses, locations and stock per warehouse created';
+END $$;